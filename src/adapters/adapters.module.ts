@@ -2,7 +2,7 @@
  * Adapters Module
  *
  * Provides browser adapter infrastructure for multi-platform trace collection.
- * Supports Chromium CDP, WebKit native, and other browser platforms.
+ * Supports Chromium CDP, WebKit native, Firefox RDP, and other browser platforms.
  */
 
 import { Module, OnModuleInit } from '@nestjs/common';
@@ -15,6 +15,10 @@ import {
   WebKitNativeAdapter,
   createWebKitNativeAdapter,
 } from './webkit-native/index.js';
+import {
+  FirefoxRDPAdapter,
+  createFirefoxRDPAdapter,
+} from './firefox-rdp/index.js';
 
 @Module({
   providers: [AdapterRegistryService],
@@ -40,5 +44,12 @@ export class AdaptersModule implements OnModuleInit {
       metadata: webkitAdapter.metadata,
       factory: createWebKitNativeAdapter,
     });
+
+    // Register Firefox RDP adapter
+    const firefoxAdapter = new FirefoxRDPAdapter();
+    this.adapterRegistry.registerAdapter({
+      metadata: firefoxAdapter.metadata,
+      factory: createFirefoxRDPAdapter,
+    });
   }
 }
@@ -34,6 +34,7 @@ import {
 } from '../models/index.js';
 import type { TraceEvent } from '../../shared/types/index.js';
 import { DEFAULT_TRACE_CATEGORIES } from '../../cdp/tracing.service.js';
+import { extractUserTiming } from '../../shared/utils/index.js';
 
 /**
  * CDP-specific connection options
@@ -106,6 +107,7 @@ export class ChromiumCDPAdapter extends BaseBrowserAdapter {
       AdapterCapability.PAINT_EVENTS,
       AdapterCapability.SOURCE_MAPS,
       AdapterCapability.LIVE_MONITORING,
+      AdapterCapability.SCENARIOS,
     ],
     browserPatterns: [
       /chrome/i,
@@ -438,6 +440,9 @@ export class ChromiumCDPAdapter extends BaseBrowserAdapter {
     // Extract paint events
     const paintEvents = this.extractPaintEvents(events);
 
+    // Extract User Timing marks and measures
+    const userTiming = extractUserTiming(events);
+
     // Calculate duration
     const timestamps = events.filter((e) => e.ts > 0).map((e) => e.ts);
     const minTs = Math.min(...timestamps);
@@ -455,6 +460,7 @@ export class ChromiumCDPAdapter extends BaseBrowserAdapter {
       domSignals,
       gpuEvents,
       paintEvents,
+      userTiming,
       metadata: {
         browserVersion: this._browserVersion,
         timestamp: new Date().toISOString(),
@@ -0,0 +1,491 @@
+/**
+ * Firefox RDP Adapter
+ *
+ * Browser adapter for Firefox and Gecko-based browsers using Firefox's
+ * remote debugging protocol (RDP) and the Gecko profiler's perf actor.
+ *
+ * Compared to the CDP adapter:
+ * - Frame timings come from refresh driver ticks, not compositor frames
+ * - Long tasks are attributed from JS samples, not instrumented calls
+ * - No GPU events: compositor/WebRender work has no per-layer attribution
+ * - No live monitoring: profiles are only available once capture stops
+ * - No scenarios: scenario steps drive the page with CDP input events
+ *
+ * Supports:
+ * - Firefox, Firefox Developer Edition, Nightly
+ * - LibreWolf, Waterfox, Floorp (with the debugger server enabled)
+ *
+ */
+
+import { Logger } from '@nestjs/common';
+import { spawn, ChildProcess } from 'child_process';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BaseBrowserAdapter,
+  AdapterCapability,
+  AdapterMetadata,
+  AdapterConnectionOptions,
+  TraceCollectionOptions,
+} from '../interfaces/index.js';
+import {
+  TraceSnapshot,
+  calculateFrameMetrics,
+  generateTraceId,
+} from '../models/index.js';
+import { RDPClient, RDPPacket } from './rdp-client.js';
+import { GeckoProfile, isGeckoProfile } from './schemas/index.js';
+import { mapGeckoProfile } from './gecko-profile.mapper.js';
+
+/**
+ * Firefox-specific connection options
+ */
+export interface FirefoxRDPConnectionOptions extends AdapterConnectionOptions {
+  /** Debugger server port (default: 6000) */
+  port?: number;
+  /** Debugger server host (default: localhost) */
+  host?: string;
+  /** Firefox profile directory to launch with (default: fresh temp profile) */
+  profileDir?: string;
+}
+
+/**
+ * Tab descriptor returned by the root actor's listTabs
+ */
+interface TabDescriptor {
+  actor: string;
+  selected?: boolean;
+  url?: string;
+}
+
+const DEFAULT_RDP_PORT = 6000;
+const DEFAULT_RDP_HOST = 'localhost';
+const DEFAULT_CONNECT_TIMEOUT_MS = 30000;
+const CONNECT_RETRY_DELAY_MS = 250;
+const NAVIGATION_TIMEOUT_MS = 30000;
+
+/**
+ * Gecko profiler settings: 1ms sampling with JS stacks, and enough
+ * buffer (16M entries, ~128MB) for long captures on busy pages
+ */
+const PROFILER_OPTIONS = {
+  entries: 16 * 1024 * 1024,
+  interval: 1,
+  features: ['js', 'stackwalk', 'cpu'],
+  threads: ['GeckoMain', 'Compositor', 'Renderer', 'Paint'],
+};
+
+/**
+ * Preferences for a launched profile: enable the debugger server
+ * without the connection prompt and skip first-run UI
+ */
+const LAUNCH_PREFS: Record<string, string | number | boolean> = {
+  'devtools.debugger.remote-enabled': true,
+  'devtools.chrome.enabled': true,
+  'devtools.debugger.prompt-connection': false,
+  'browser.shell.checkDefaultBrowser': false,
+  'browser.startup.homepage_override.mstone': 'ignore',
+  'datareporting.policy.dataSubmissionEnabled': false,
+  'toolkit.telemetry.reportingpolicy.firstRun': false,
+};
+
+/**
+ * Firefox RDP Adapter
+ *
+ * Connects to Firefox's debugger server over TCP, records a Gecko
+ * profile, and normalizes its markers and samples to TraceSnapshot.
+ */
+export class FirefoxRDPAdapter extends BaseBrowserAdapter {
+  readonly metadata: AdapterMetadata = {
+    type: 'firefox-rdp',
+    name: 'Firefox RDP Adapter',
+    description:
+      'Gecko profiler capture for Firefox-based browsers via the remote debugging protocol',
+    capabilities: [
+      AdapterCapability.FRAME_TIMING,
+      AdapterCapability.LONG_TASKS,
+      AdapterCapability.DOM_SIGNALS, // Style and reflow markers only
+      AdapterCapability.PAINT_EVENTS,
+    ],
+    browserPatterns: [/firefox/i, /librewolf/i, /waterfox/i, /floorp/i],
+    priority: 75, // Between CDP and file-based native adapters
+  };
+
+  private readonly logger = new Logger(FirefoxRDPAdapter.name);
+  private client: RDPClient | null = null;
+  private browserProcess: ChildProcess | null = null;
+  private tempProfileDir: string | null = null;
+  private perfActor: string | null = null;
+  private isProfiling = false;
+
+  /**
+   * Connect to Firefox's debugger server
+   */
+  async connect(options: AdapterConnectionOptions): Promise<void> {
+    const rdpOptions = options as FirefoxRDPConnectionOptions;
+
+    const port = rdpOptions.port ?? DEFAULT_RDP_PORT;
+    const host = rdpOptions.host ?? DEFAULT_RDP_HOST;
+    const timeoutMs = rdpOptions.timeout ?? DEFAULT_CONNECT_TIMEOUT_MS;
+
+    this.logger.log(`Connecting to Firefox debugger server at ${host}:${port}`);
+
+    // If browser path is provided, launch the browser
+    if (rdpOptions.browserPath) {
+      await this.launchBrowser(rdpOptions, port);
+    }
+
+    try {
+      this.client = await this.connectWithRetry(host, port, timeoutMs);
+
+      const root = await this.client.request('root', 'getRoot');
+      this.perfActor = (root.perfActor as string | undefined) ?? null;
+      if (!this.perfActor) {
+        throw new Error(
+          'Browser does not expose the Gecko profiler (no perf actor)',
+        );
+      }
+
+      const supported = await this.client.request(
+        this.perfActor,
+        'isSupportedPlatform',
+      );
+      if (supported.value === false) {
+        throw new Error('Gecko profiler is not supported on this platform');
+      }
+
+      const browserVersion = await this.getBrowserVersion(root);
+      this.setConnected(true, browserVersion);
+      this.setError(undefined);
+
+      this.logger.log(`Connected to ${browserVersion}`);
+    } catch (error) {
+      this.setError(error instanceof Error ? error.message : String(error));
+      await this.disconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the browser
+   */
+  async disconnect(): Promise<void> {
+    if (this.isProfiling && this.client && this.perfActor) {
+      try {
+        await this.client.request(
+          this.perfActor,
+          'stopProfilerAndDiscardProfile',
+        );
+      } catch {
+        // Ignore errors during cleanup
+      }
+      this.isProfiling = false;
+    }
+
+    if (this.client) {
+      this.client.close();
+      this.client = null;
+    }
+    this.perfActor = null;
+
+    if (this.browserProcess) {
+      this.browserProcess.kill('SIGTERM');
+      this.browserProcess = null;
+    }
+
+    if (this.tempProfileDir) {
+      await rm(this.tempProfileDir, { recursive: true, force: true }).catch(
+        () => undefined,
+      );
+      this.tempProfileDir = null;
+    }
+
+    this.setConnected(false);
+    this.logger.log('Disconnected from Firefox');
+  }
+
+  /**
+   * Collect a trace snapshot by recording a Gecko profile
+   */
+  async collectTrace(options: TraceCollectionOptions): Promise<TraceSnapshot> {
+    if (!this.client || !this.perfActor) {
+      throw new Error('Not connected to browser');
+    }
+    // Profiling an idle page under the scenario's name would be misleading
+    if (options.scenario) {
+      throw new Error(
+        `Scenarios are not supported by the Firefox RDP adapter (got "${options.scenario}"), profile without a scenario`,
+      );
+    }
+
+    this.setCollecting(true);
+
+    try {
+      // Navigate to URL if provided
+      if (options.url) {
+        await this.navigateTo(options.url);
+      }
+
+      // Start profiling
+      await this.client.request(this.perfActor, 'startProfiler', {
+        options: PROFILER_OPTIONS,
+      });
+      this.isProfiling = true;
+      this.logger.debug('Gecko profiler started');
+
+      // Wait for specified duration
+      const durationMs = options.durationMs ?? 15000;
+      await this.delay(durationMs);
+
+      // Stop profiling and get the profile
+      const response = await this.client.request(
+        this.perfActor,
+        'getProfileAndStopProfiler',
+      );
+      this.isProfiling = false;
+
+      const profile = this.parseProfile(response.profile);
+      return this.normalizeToTraceSnapshot(profile, options);
+    } finally {
+      this.setCollecting(false);
+    }
+  }
+
+  /**
+   * Navigate the selected tab to a URL and wait for it to load
+   */
+  async navigateTo(url: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to browser');
+    }
+
+    const { tabs } = (await this.client.request('root', 'listTabs')) as {
+      tabs?: TabDescriptor[];
+    };
+    const tab = tabs?.find((t) => t.selected) ?? tabs?.[0];
+    if (!tab) {
+      throw new Error('No open tab to navigate');
+    }
+
+    const { frame } = (await this.client.request(tab.actor, 'getTarget')) as {
+      frame?: { actor: string };
+    };
+    if (!frame) {
+      throw new Error(`Could not get a target for tab ${tab.actor}`);
+    }
+
+    const loaded = this.waitForEvent(
+      frame.actor,
+      (packet) => packet.type === 'tabNavigated' && packet.state === 'stop',
+      NAVIGATION_TIMEOUT_MS,
+    );
+    await this.client.request(frame.actor, 'navigateTo', { url });
+
+    if (!(await loaded)) {
+      this.logger.warn(
+        `No load event for ${url} after ${NAVIGATION_TIMEOUT_MS}ms, continuing`,
+      );
+    }
+    this.logger.debug(`Navigated to ${url}`);
+  }
+
+  /**
+   * Launch Firefox with the debugger server enabled
+   */
+  private async launchBrowser(
+    options: FirefoxRDPConnectionOptions,
+    port: number,
+  ): Promise<void> {
+    let profileDir = options.profileDir;
+    if (!profileDir) {
+      this.tempProfileDir = await mkdtemp(
+        join(tmpdir(), 'render-debugger-ff-'),
+      );
+      profileDir = this.tempProfileDir;
+    }
+
+    const userJs = Object.entries(LAUNCH_PREFS)
+      .map(
+        ([name, value]) =>
+          `user_pref(${JSON.stringify(name)}, ${JSON.stringify(value)});`,
+      )
+      .join('\n');
+    await writeFile(join(profileDir, 'user.js'), `${userJs}\n`, 'utf-8');
+
+    const args = [
+      '--profile',
+      profileDir,
+      '--no-remote',
+      '--new-instance',
+      '--start-debugger-server',
+      String(port),
+      ...(options.launchArgs ?? []),
+    ];
+
+    if (options.headless ?? true) {
+      args.push('--headless');
+    }
+    args.push('about:blank');
+
+    this.logger.debug(`Launching browser: ${options.browserPath}`);
+    this.browserProcess = spawn(options.browserPath!, args, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: false,
+    });
+  }
+
+  /**
+   * Connect to the debugger server, retrying while the browser starts
+   */
+  private async connectWithRetry(
+    host: string,
+    port: number,
+    timeoutMs: number,
+  ): Promise<RDPClient> {
+    const deadline = Date.now() + timeoutMs;
+    let lastError: Error | undefined;
+
+    while (Date.now() < deadline) {
+      const client = new RDPClient();
+      try {
+        const greeting = await client.connect(
+          host,
+          port,
+          Math.max(deadline - Date.now(), 1),
+        );
+        if (greeting.applicationType !== 'browser') {
+          client.close();
+          throw new Error(
+            `Unexpected debugger server application: ${String(greeting.applicationType)}`,
+          );
+        }
+        return client;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        client.close();
+        await this.delay(CONNECT_RETRY_DELAY_MS);
+      }
+    }
+
+    throw new Error(
+      `Failed to connect to Firefox debugger server at ${host}:${port}: ${lastError?.message ?? 'timed out'}`,
+    );
+  }
+
+  /**
+   * Read the browser name and version from the device actor
+   */
+  private async getBrowserVersion(root: RDPPacket): Promise<string> {
+    const deviceActor = root.deviceActor as string | undefined;
+    if (!this.client || !deviceActor) {
+      return 'Firefox';
+    }
+
+    try {
+      const { value } = (await this.client.request(
+        deviceActor,
+        'getDescription',
+      )) as { value?: { name?: string; version?: string } };
+      return [value?.name ?? 'Firefox', value?.version]
+        .filter(Boolean)
+        .join(' ');
+    } catch {
+      return 'Firefox';
+    }
+  }
+
+  /**
+   * Parse the profile payload (object, or JSON string in some versions)
+   */
+  private parseProfile(payload: unknown): GeckoProfile {
+    const profile =
+      typeof payload === 'string' ? (JSON.parse(payload) as unknown) : payload;
+
+    if (!isGeckoProfile(profile)) {
+      throw new Error('Profiler returned an unrecognized profile format');
+    }
+    return profile;
+  }
+
+  /**
+   * Normalize a Gecko profile to the TraceSnapshot model
+   */
+  private normalizeToTraceSnapshot(
+    profile: GeckoProfile,
+    options: TraceCollectionOptions,
+  ): TraceSnapshot {
+    const fpsTarget = options.fpsTarget ?? 60;
+    const mapped = mapGeckoProfile(profile, fpsTarget);
+
+    if (mapped.frameTimings.length === 0) {
+      this.logger.warn(
+        'No refresh driver ticks in profile - the page may not have rendered during capture',
+      );
+    }
+
+    return {
+      id: options.id ?? generateTraceId(),
+      name: options.name,
+      durationMs: mapped.durationMs,
+      frameTimings: mapped.frameTimings,
+      frameMetrics: calculateFrameMetrics(mapped.frameTimings, fpsTarget),
+      longTasks: mapped.longTasks,
+      domSignals: mapped.domSignals,
+      gpuEvents: [],
+      paintEvents: mapped.paintEvents,
+      metadata: {
+        browserVersion: this._browserVersion,
+        timestamp: new Date().toISOString(),
+        fpsTarget,
+        url: options.url,
+        scenario: options.scenario,
+        adapterType: 'firefox-rdp',
+        platform: 'gecko',
+      },
+      rawEvents: options.includeRawEvents ? [profile] : undefined,
+    };
+  }
+
+  /**
+   * Wait for an event from an actor; resolves false on timeout
+   */
+  private waitForEvent(
+    actor: string,
+    predicate: (packet: RDPPacket) => boolean,
+    timeoutMs: number,
+  ): Promise<boolean> {
+    const client = this.client;
+    if (!client) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve) => {
+      const unsubscribe = client.onEvent((packet) => {
+        if (packet.from === actor && predicate(packet)) {
+          finish(true);
+        }
+      });
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      const finish = (result: boolean) => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(result);
+      };
+    });
+  }
+
+  /**
+   * Delay helper
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Factory function for creating FirefoxRDPAdapter instances
+ */
+export function createFirefoxRDPAdapter(): FirefoxRDPAdapter {
+  return new FirefoxRDPAdapter();
+}
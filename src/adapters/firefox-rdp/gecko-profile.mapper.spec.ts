@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the Gecko profile mapper
+ */
+
+import { mapGeckoProfile } from './gecko-profile.mapper.js';
+import {
+  GeckoMarkerPhase,
+  GeckoProfile,
+  GeckoThread,
+  isGeckoProfile,
+} from './schemas/index.js';
+
+const MARKER_SCHEMA = {
+  name: 0,
+  startTime: 1,
+  endTime: 2,
+  phase: 3,
+  category: 4,
+  data: 5,
+};
+
+/**
+ * Build a thread from [name, start, end, phase, data?] marker tuples
+ */
+function createThread(
+  name: string,
+  processType: string,
+  markers: Array<[string, number, number | null, GeckoMarkerPhase, object?]>,
+  extra: Partial<GeckoThread> = {},
+): GeckoThread {
+  const stringTable = [...(extra.stringTable ?? [])];
+  const intern = (value: string) => {
+    const index = stringTable.indexOf(value);
+    return index === -1 ? stringTable.push(value) - 1 : index;
+  };
+
+  return {
+    name,
+    processType,
+    samples: { schema: { stack: 0, time: 1 }, data: [] },
+    stackTable: { schema: { prefix: 0, frame: 1 }, data: [] },
+    frameTable: { schema: { location: 0 }, data: [] },
+    ...extra,
+    markers: {
+      schema: MARKER_SCHEMA,
+      data: markers.map(([markerName, start, end, phase, data]) => [
+        intern(markerName),
+        start,
+        end,
+        phase,
+        0,
+        data ?? null,
+      ]),
+    },
+    stringTable,
+  };
+}
+
+describe('mapGeckoProfile', () => {
+  const contentThread = createThread(
+    'GeckoMain',
+    'tab',
+    [
+      ['RefreshDriverTick', 100, 104, GeckoMarkerPhase.INTERVAL],
+      ['Styles', 101, 102, GeckoMarkerPhase.INTERVAL, { elementsStyled: 12 }],
+      ['RefreshDriverTick', 116, 120, GeckoMarkerPhase.INTERVAL],
+      ['MainThreadLongTask', 120, 200, GeckoMarkerPhase.INTERVAL],
+      ['Reflow (interruptible)', 130, null, GeckoMarkerPhase.INTERVAL_START],
+      [
+        'Reflow (interruptible)',
+        null as never,
+        135,
+        GeckoMarkerPhase.INTERVAL_END,
+      ],
+      ['RefreshDriverTick', 200, 203, GeckoMarkerPhase.INTERVAL],
+      ['DisplayList', 201, 202, GeckoMarkerPhase.INTERVAL],
+      // Driver goes idle: the last gap is not a dropped frame
+      ['RefreshDriverTick', 1000, 1004, GeckoMarkerPhase.INTERVAL],
+    ],
+    {
+      stringTable: [
+        'handleScroll (https://example.com/app.js:42:7)',
+        'js::RunScript',
+      ],
+      samples: {
+        schema: { stack: 0, time: 1 },
+        data: [
+          [1, 150],
+          [1, 151],
+          [2, 152],
+        ],
+      },
+      stackTable: {
+        schema: { prefix: 0, frame: 1 },
+        data: [
+          [null, 1],
+          [0, 0],
+          [null, 1],
+        ],
+      },
+      frameTable: { schema: { location: 0 }, data: [[0], [1]] },
+    },
+  );
+
+  const profile: GeckoProfile = {
+    meta: { version: 29, startTime: 1_700_000_000_000, interval: 1 },
+    threads: [
+      createThread('GeckoMain', 'default', [
+        ['RefreshDriverTick', 0, 1, GeckoMarkerPhase.INTERVAL],
+      ]),
+    ],
+    processes: [
+      {
+        meta: { version: 29, startTime: 1_700_000_000_010, interval: 1 },
+        threads: [contentThread],
+      },
+    ],
+  };
+
+  it('should recognize raw Gecko profiles', () => {
+    expect(isGeckoProfile(profile)).toBe(true);
+    expect(isGeckoProfile({ traceEvents: [] })).toBe(false);
+  });
+
+  it('should map refresh driver ticks on the content main thread to frames', () => {
+    const { frameTimings } = mapGeckoProfile(profile, 60);
+
+    expect(frameTimings).toHaveLength(4);
+    // Rebased by the 10ms content process offset, in microseconds
+    expect(frameTimings[0]!.startTime).toBe(110_000);
+    expect(frameTimings[0]!.durationMs).toBe(16);
+    expect(frameTimings[0]!.styleRecalcMs).toBe(1);
+    expect(frameTimings[1]!.durationMs).toBe(84);
+    expect(frameTimings[1]!.dropped).toBe(true);
+    expect(frameTimings[1]!.layoutMs).toBe(5);
+    expect(frameTimings[2]!.durationMs).toBe(3);
+    expect(frameTimings[2]!.dropped).toBe(false);
+  });
+
+  it('should attribute long tasks to the hottest sampled JS frame', () => {
+    const { longTasks } = mapGeckoProfile(profile, 60);
+
+    expect(longTasks).toHaveLength(1);
+    expect(longTasks[0]).toMatchObject({
+      startTime: 130_000,
+      durationMs: 80,
+      functionName: 'handleScroll',
+      file: 'https://example.com/app.js',
+      line: 42,
+      column: 7,
+    });
+  });
+
+  it('should map style, reflow and paint markers', () => {
+    const { domSignals, paintEvents } = mapGeckoProfile(profile, 60);
+
+    expect(domSignals.map((s) => s.type)).toEqual([
+      'style_recalc',
+      'forced_reflow',
+    ]);
+    expect(domSignals[0]!.affectedNodes).toBe(12);
+    expect(domSignals[1]!.durationMs).toBe(5);
+    expect(paintEvents).toEqual([
+      { timestamp: 211_000, paintDurationMs: 1, rasterDurationMs: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,579 @@
+/**
+ * Gecko Profile Mapper
+ *
+ * Maps a raw Gecko profile to TraceSnapshot data:
+ * - RefreshDriverTick markers → frame timings
+ * - MainThreadLongTask markers + JS samples → long tasks with call stacks
+ * - Styles / Reflow markers → DOM signals
+ * - DisplayList / Paint / Rasterize markers → paint events
+ *
+ * Gecko marker times are milliseconds relative to each process's start
+ * time. All timestamps are rebased onto the parent process start and
+ * converted to microseconds to match the TraceSnapshot model.
+ *
+ * GPU work happens on the compositor and WebRender threads with no
+ * per-layer attribution, so no GPU events are produced.
+ *
+ */
+
+import type {
+  FrameTiming,
+  LongTaskInfo,
+  DOMSignal,
+  PaintEvent,
+  StackFrameInfo,
+} from '../models/index.js';
+import {
+  GeckoProfile,
+  GeckoThread,
+  GeckoMarkerPhase,
+  readColumn,
+} from './schemas/index.js';
+
+/**
+ * Result of mapping a Gecko profile
+ */
+export interface GeckoProfileMapping {
+  frameTimings: FrameTiming[];
+  longTasks: LongTaskInfo[];
+  domSignals: DOMSignal[];
+  paintEvents: PaintEvent[];
+  /** Span of the mapped markers in milliseconds */
+  durationMs: number;
+  /** Name of the thread the data was taken from */
+  threadName?: string;
+}
+
+/**
+ * Normalized marker with absolute (rebased) millisecond times
+ */
+interface GeckoMarker {
+  name: string;
+  startMs: number;
+  endMs: number;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Thread with the time offset of its process relative to the parent
+ */
+interface RebasedThread {
+  thread: GeckoThread;
+  offsetMs: number;
+}
+
+const LONG_TASK_THRESHOLD_MS = 50;
+
+/**
+ * A refresh driver gap longer than this means the driver went idle
+ * (nothing to paint) rather than a frame being delayed.
+ */
+const IDLE_REFRESH_GAP_MS = 250;
+
+const FRAME_MARKER = 'RefreshDriverTick';
+const LONG_TASK_MARKERS = new Set(['MainThreadLongTask', 'Jank']);
+const STYLE_MARKERS = new Set(['Styles']);
+const PAINT_MARKERS = new Set(['Paint', 'DisplayList', 'PaintDisplayList']);
+const RASTER_MARKERS = new Set(['Rasterize']);
+
+/** "fn (url:line:col)" location strings of JS frames */
+const JS_LOCATION_PATTERN = /^(.*?) \((.+?):(\d+)(?::(\d+))?\)$/;
+
+/** Anonymous "url:line:col" location strings */
+const ANONYMOUS_LOCATION_PATTERN = /^(\w+:\/\/.+?):(\d+)(?::(\d+))?$/;
+
+/**
+ * Map a raw Gecko profile to TraceSnapshot data
+ *
+ * @param profile Raw Gecko profile from the perf actor
+ * @param fpsTarget Target FPS used to flag dropped frames
+ */
+export function mapGeckoProfile(
+  profile: GeckoProfile,
+  fpsTarget: number,
+): GeckoProfileMapping {
+  const frameBudgetMs = 1000 / fpsTarget;
+  const threads = collectThreads(profile, profile.meta.startTime);
+  const mainThread = selectContentMainThread(threads);
+
+  if (!mainThread) {
+    return {
+      frameTimings: [],
+      longTasks: [],
+      domSignals: [],
+      paintEvents: [],
+      durationMs: 0,
+    };
+  }
+
+  const markers = readMarkers(mainThread);
+  const rasterMarkers = threads
+    .flatMap((t) => (t === mainThread ? markers : readMarkers(t)))
+    .filter((m) => RASTER_MARKERS.has(m.name))
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const frameTimings = extractFrameTimings(markers, frameBudgetMs);
+  const longTasks = extractLongTasks(mainThread, markers);
+  const domSignals = extractDOMSignals(mainThread, markers);
+  const paintEvents = extractPaintEvents(markers, rasterMarkers);
+
+  const startMs = markers.reduce(
+    (min, m) => Math.min(min, m.startMs),
+    Infinity,
+  );
+  const endMs = markers.reduce((max, m) => Math.max(max, m.endMs), 0);
+
+  return {
+    frameTimings,
+    longTasks,
+    domSignals,
+    paintEvents,
+    durationMs: markers.length > 0 ? endMs - startMs : 0,
+    threadName: mainThread.thread.processName ?? mainThread.thread.name,
+  };
+}
+
+/**
+ * Flatten the process tree into threads with their time offsets
+ */
+function collectThreads(
+  profile: GeckoProfile,
+  rootStartTime: number,
+): RebasedThread[] {
+  const offsetMs = profile.meta.startTime - rootStartTime;
+  return [
+    ...profile.threads.map((thread) => ({ thread, offsetMs })),
+    ...(profile.processes ?? []).flatMap((child) =>
+      collectThreads(child, rootStartTime),
+    ),
+  ];
+}
+
+/**
+ * Pick the content process main thread that rendered the most frames,
+ * falling back to the parent main thread for single-process profiles
+ */
+function selectContentMainThread(
+  threads: RebasedThread[],
+): RebasedThread | undefined {
+  const mainThreads = threads.filter((t) => t.thread.name === 'GeckoMain');
+  const contentThreads = mainThreads.filter(
+    (t) =>
+      t.thread.processType !== undefined && t.thread.processType !== 'default',
+  );
+  const candidates = contentThreads.length > 0 ? contentThreads : mainThreads;
+
+  let best: RebasedThread | undefined;
+  let bestTicks = -1;
+  for (const candidate of candidates) {
+    const ticks = countMarkers(candidate.thread, FRAME_MARKER);
+    if (ticks > bestTicks) {
+      best = candidate;
+      bestTicks = ticks;
+    }
+  }
+  return best;
+}
+
+/**
+ * Count markers with the given name without normalizing them
+ */
+function countMarkers(thread: GeckoThread, name: string): number {
+  const nameIndex = thread.stringTable.indexOf(name);
+  if (nameIndex === -1) {
+    return 0;
+  }
+  const { markers } = thread;
+  return markers.data.filter(
+    (row) => readColumn<number>(markers, row, 'name') === nameIndex,
+  ).length;
+}
+
+/**
+ * Normalize a thread's markers, pairing interval start/end markers
+ */
+function readMarkers({ thread, offsetMs }: RebasedThread): GeckoMarker[] {
+  const { markers: table, stringTable } = thread;
+  const result: GeckoMarker[] = [];
+  const openIntervals = new Map<string, GeckoMarker[]>();
+
+  for (const row of table.data) {
+    const nameIndex = readColumn<number>(table, row, 'name');
+    const name = nameIndex !== undefined ? stringTable[nameIndex] : undefined;
+    if (!name) {
+      continue;
+    }
+
+    const data = readColumn<Record<string, unknown> | null>(table, row, 'data');
+    const phase = readColumn<number>(table, row, 'phase');
+    let startTime = readColumn<number | null>(table, row, 'startTime');
+    let endTime = readColumn<number | null>(table, row, 'endTime');
+
+    // Legacy schema: a single "time" column, intervals carried in data
+    if (phase === undefined) {
+      const time = readColumn<number>(table, row, 'time') ?? 0;
+      startTime = (data?.startTime as number | undefined) ?? time;
+      endTime = (data?.endTime as number | undefined) ?? startTime;
+    }
+
+    const isStart =
+      phase === GeckoMarkerPhase.INTERVAL_START || data?.interval === 'start';
+    const isEnd =
+      phase === GeckoMarkerPhase.INTERVAL_END || data?.interval === 'end';
+
+    if (isStart) {
+      const marker: GeckoMarker = {
+        name,
+        startMs: (startTime ?? 0) + offsetMs,
+        endMs: (startTime ?? 0) + offsetMs,
+        data: data ?? undefined,
+      };
+      const open = openIntervals.get(name) ?? [];
+      open.push(marker);
+      openIntervals.set(name, open);
+      continue;
+    }
+
+    if (isEnd) {
+      const marker = openIntervals.get(name)?.pop();
+      if (marker) {
+        marker.endMs = (endTime ?? startTime ?? 0) + offsetMs;
+        result.push(marker);
+      }
+      continue;
+    }
+
+    const startMs = (startTime ?? 0) + offsetMs;
+    result.push({
+      name,
+      startMs,
+      endMs:
+        phase === GeckoMarkerPhase.INSTANT
+          ? startMs
+          : (endTime ?? startTime ?? 0) + offsetMs,
+      data: data ?? undefined,
+    });
+  }
+
+  return result.sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * Build frame timings from refresh driver ticks.
+ * A frame lasts until the next tick, unless the driver went idle.
+ */
+function extractFrameTimings(
+  markers: GeckoMarker[],
+  frameBudgetMs: number,
+): FrameTiming[] {
+  const ticks = markers.filter((m) => m.name === FRAME_MARKER);
+  const phaseMarkers = markers.filter(
+    (m) =>
+      STYLE_MARKERS.has(m.name) ||
+      PAINT_MARKERS.has(m.name) ||
+      isReflowMarker(m.name),
+  );
+  const frameTimings: FrameTiming[] = [];
+  let cursor = 0;
+
+  ticks.forEach((tick, index) => {
+    const next = ticks[index + 1];
+    const tickMs = tick.endMs - tick.startMs;
+    const gapMs = next ? next.startMs - tick.startMs : tickMs;
+    const durationMs =
+      gapMs <= IDLE_REFRESH_GAP_MS ? Math.max(tickMs, gapMs) : tickMs;
+    const endMs = tick.startMs + durationMs;
+
+    // Ticks and phase markers are both sorted, so sweep once
+    const phases = { style: 0, layout: 0, paint: 0 };
+    while (
+      cursor < phaseMarkers.length &&
+      phaseMarkers[cursor]!.startMs < tick.startMs
+    ) {
+      cursor++;
+    }
+    for (
+      let i = cursor;
+      i < phaseMarkers.length && phaseMarkers[i]!.startMs < endMs;
+      i++
+    ) {
+      const marker = phaseMarkers[i]!;
+      const markerMs = marker.endMs - marker.startMs;
+      if (STYLE_MARKERS.has(marker.name)) {
+        phases.style += markerMs;
+      } else if (isReflowMarker(marker.name)) {
+        phases.layout += markerMs;
+      } else {
+        phases.paint += markerMs;
+      }
+    }
+
+    frameTimings.push({
+      frameId: index,
+      startTime: toMicros(tick.startMs),
+      endTime: toMicros(endMs),
+      durationMs,
+      dropped: durationMs > frameBudgetMs,
+      styleRecalcMs: phases.style || undefined,
+      layoutMs: phases.layout || undefined,
+      paintMs: phases.paint || undefined,
+    });
+  });
+
+  return frameTimings;
+}
+
+/**
+ * Extract long tasks, attributing each to the hottest JS function
+ * sampled while it ran
+ */
+function extractLongTasks(
+  rebased: RebasedThread,
+  markers: GeckoMarker[],
+): LongTaskInfo[] {
+  const longTasks: LongTaskInfo[] = [];
+
+  for (const marker of markers) {
+    const durationMs = marker.endMs - marker.startMs;
+    if (
+      !LONG_TASK_MARKERS.has(marker.name) ||
+      durationMs < LONG_TASK_THRESHOLD_MS
+    ) {
+      continue;
+    }
+
+    const callStack = findHottestStack(rebased, marker.startMs, marker.endMs);
+    const top = callStack[0];
+    const domEvent = markers.find(
+      (m) =>
+        m.name === 'DOMEvent' &&
+        m.startMs >= marker.startMs &&
+        m.startMs < marker.endMs,
+    );
+    const eventType = domEvent?.data?.eventType as string | undefined;
+
+    longTasks.push({
+      startTime: toMicros(marker.startMs),
+      durationMs,
+      functionName:
+        top?.functionName ?? (eventType ? `${eventType} handler` : 'Task'),
+      file: top?.file,
+      line: top?.line,
+      column: top?.column,
+      callStack,
+    });
+  }
+
+  return longTasks;
+}
+
+/**
+ * Extract style recalculation and reflow signals
+ */
+function extractDOMSignals(
+  rebased: RebasedThread,
+  markers: GeckoMarker[],
+): DOMSignal[] {
+  const domSignals: DOMSignal[] = [];
+
+  for (const marker of markers) {
+    if (STYLE_MARKERS.has(marker.name)) {
+      domSignals.push({
+        type: 'style_recalc',
+        timestamp: toMicros(marker.startMs),
+        durationMs: marker.endMs - marker.startMs,
+        affectedNodes: marker.data?.elementsStyled as number | undefined,
+      });
+    } else if (isReflowMarker(marker.name)) {
+      domSignals.push({
+        type: 'forced_reflow',
+        timestamp: toMicros(marker.startMs),
+        durationMs: marker.endMs - marker.startMs,
+        stackTrace: readCauseStack(rebased, marker.data),
+      });
+    }
+  }
+
+  return domSignals;
+}
+
+/**
+ * Extract paint events, attaching raster time to the preceding paint
+ */
+function extractPaintEvents(
+  markers: GeckoMarker[],
+  rasterMarkers: GeckoMarker[],
+): PaintEvent[] {
+  const paintEvents: PaintEvent[] = [];
+  const paints = markers.filter((m) => PAINT_MARKERS.has(m.name));
+  let cursor = 0;
+
+  paints.forEach((paint, index) => {
+    const nextStart = paints[index + 1]?.startMs ?? Infinity;
+    let rasterMs = 0;
+    while (
+      cursor < rasterMarkers.length &&
+      rasterMarkers[cursor]!.startMs < nextStart
+    ) {
+      const raster = rasterMarkers[cursor++]!;
+      if (raster.startMs >= paint.startMs) {
+        rasterMs += raster.endMs - raster.startMs;
+      }
+    }
+
+    paintEvents.push({
+      timestamp: toMicros(paint.startMs),
+      paintDurationMs: paint.endMs - paint.startMs,
+      rasterDurationMs: rasterMs > 0 ? rasterMs : undefined,
+    });
+  });
+
+  return paintEvents;
+}
+
+/**
+ * Find the most frequently sampled JS stack within a time range
+ */
+function findHottestStack(
+  { thread, offsetMs }: RebasedThread,
+  startMs: number,
+  endMs: number,
+): StackFrameInfo[] {
+  const { samples } = thread;
+  const counts = new Map<number, number>();
+
+  for (const row of samples.data) {
+    const time = readColumn<number>(samples, row, 'time');
+    const stack = readColumn<number | null>(samples, row, 'stack');
+    if (time === undefined || stack === undefined || stack === null) {
+      continue;
+    }
+    const ts = time + offsetMs;
+    if (ts >= startMs && ts <= endMs) {
+      counts.set(stack, (counts.get(stack) ?? 0) + 1);
+    }
+  }
+
+  // Group by innermost JS frame so different native leaves count together
+  const byTopFrame = new Map<
+    string,
+    { count: number; stack: StackFrameInfo[] }
+  >();
+  for (const [stackIndex, count] of counts) {
+    const stack = resolveJsStack(thread, stackIndex);
+    const top = stack[0];
+    if (!top) {
+      continue;
+    }
+    const key = `${top.functionName}@${top.file}:${top.line}`;
+    const entry = byTopFrame.get(key);
+    if (entry) {
+      entry.count += count;
+    } else {
+      byTopFrame.set(key, { count, stack });
+    }
+  }
+
+  let hottest: { count: number; stack: StackFrameInfo[] } | undefined;
+  for (const entry of byTopFrame.values()) {
+    if (!hottest || entry.count > hottest.count) {
+      hottest = entry;
+    }
+  }
+  return hottest?.stack ?? [];
+}
+
+/**
+ * Resolve the JS cause stack attached to a marker (e.g. sync reflows)
+ */
+function readCauseStack(
+  { thread }: RebasedThread,
+  data: Record<string, unknown> | undefined,
+): StackFrameInfo[] | undefined {
+  const cause = (data?.stack ?? (data?.cause as { stack?: unknown })?.stack) as
+    | { samples?: { schema: Record<string, number>; data: unknown[][] } }
+    | undefined;
+  const row = cause?.samples?.data[0];
+  if (!cause?.samples || !row) {
+    return undefined;
+  }
+  const stackIndex = readColumn<number | null>(cause.samples, row, 'stack');
+  if (stackIndex === undefined || stackIndex === null) {
+    return undefined;
+  }
+  const stack = resolveJsStack(thread, stackIndex);
+  return stack.length > 0 ? stack : undefined;
+}
+
+/**
+ * Walk a stack from leaf to root, keeping JS frames (innermost first)
+ */
+function resolveJsStack(
+  thread: GeckoThread,
+  stackIndex: number,
+): StackFrameInfo[] {
+  const { stackTable, frameTable, stringTable } = thread;
+  const frames: StackFrameInfo[] = [];
+  let current: number | null | undefined = stackIndex;
+
+  while (current !== null && current !== undefined) {
+    const stackRow: unknown[] | undefined = stackTable.data[current];
+    if (!stackRow) {
+      break;
+    }
+    const frameIndex = readColumn<number>(stackTable, stackRow, 'frame');
+    const frameRow =
+      frameIndex !== undefined ? frameTable.data[frameIndex] : undefined;
+    if (frameRow) {
+      const locationIndex = readColumn<number>(
+        frameTable,
+        frameRow,
+        'location',
+      );
+      const location =
+        locationIndex !== undefined ? stringTable[locationIndex] : undefined;
+      const frame = location ? parseJsLocation(location) : undefined;
+      if (frame) {
+        frames.push(frame);
+      }
+    }
+    current = readColumn<number | null>(stackTable, stackRow, 'prefix');
+  }
+
+  return frames;
+}
+
+/**
+ * Parse a JS frame location string, or undefined for native/label frames
+ */
+function parseJsLocation(location: string): StackFrameInfo | undefined {
+  const named = JS_LOCATION_PATTERN.exec(location);
+  if (named) {
+    return {
+      functionName: named[1] || '<anonymous>',
+      file: named[2]!,
+      line: parseInt(named[3]!, 10),
+      column: named[4] ? parseInt(named[4], 10) : 0,
+    };
+  }
+
+  const anonymous = ANONYMOUS_LOCATION_PATTERN.exec(location);
+  if (anonymous) {
+    return {
+      functionName: '<anonymous>',
+      file: anonymous[1]!,
+      line: parseInt(anonymous[2]!, 10),
+      column: anonymous[3] ? parseInt(anonymous[3], 10) : 0,
+    };
+  }
+
+  return undefined;
+}
+
+function isReflowMarker(name: string): boolean {
+  return name.startsWith('Reflow');
+}
+
+function toMicros(ms: number): number {
+  return Math.round(ms * 1000);
+}
@@ -0,0 +1,8 @@
+/**
+ * Firefox RDP Adapter barrel export
+ */
+
+export * from './firefox-rdp.adapter.js';
+export * from './rdp-client.js';
+export * from './gecko-profile.mapper.js';
+export * from './schemas/index.js';
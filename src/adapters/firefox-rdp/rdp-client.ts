@@ -0,0 +1,243 @@
+/**
+ * Firefox Remote Debugging Protocol Client
+ *
+ * Minimal client for Firefox's remote debugging protocol (RDP) over TCP.
+ * Packets are JSON framed as `<byte-length>:<json>`. Every request names
+ * the actor it is addressed to; each actor answers its requests in order,
+ * so replies are matched to a per-actor FIFO queue. Packets carrying a
+ * `type` that no request is waiting for are treated as events.
+ *
+ */
+
+import { Socket, connect as netConnect } from 'net';
+
+/**
+ * An RDP packet
+ */
+export interface RDPPacket {
+  /** Actor that sent the packet */
+  from?: string;
+  /** Event/request type */
+  type?: string;
+  /** Error name for failed requests */
+  error?: string;
+  /** Error message for failed requests */
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Error returned by an actor
+ */
+export class RDPRequestError extends Error {
+  constructor(
+    public readonly actor: string,
+    public readonly requestType: string,
+    public readonly errorName: string,
+    message?: string,
+  ) {
+    super(
+      `RDP request '${requestType}' to ${actor} failed: ${errorName}${message ? ` (${message})` : ''}`,
+    );
+    this.name = 'RDPRequestError';
+  }
+}
+
+interface PendingRequest {
+  type: string;
+  resolve: (packet: RDPPacket) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Listener for unsolicited packets (events)
+ */
+export type RDPEventListener = (packet: RDPPacket) => void;
+
+export class RDPClient {
+  private readonly eventListeners = new Set<RDPEventListener>();
+  private socket: Socket | null = null;
+  private chunks: Buffer[] = [];
+  private bufferedLength = 0;
+  private expectedLength: number | null = null;
+  private readonly pending = new Map<string, PendingRequest[]>();
+
+  /**
+   * Connect and wait for the root actor's greeting
+   * @returns The greeting packet (applicationType, traits)
+   */
+  connect(host: string, port: number, timeoutMs: number): Promise<RDPPacket> {
+    return new Promise((resolve, reject) => {
+      const socket = netConnect({ host, port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to ${host}:${port}`));
+      }, timeoutMs);
+
+      // The root actor greets unprompted, so queue a pseudo-request for it
+      this.enqueue('root', {
+        type: 'greeting',
+        resolve: (packet) => {
+          clearTimeout(timer);
+          resolve(packet);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+      socket.on('error', (error) => {
+        clearTimeout(timer);
+        this.rejectAll(error);
+        reject(error);
+      });
+      socket.on('close', () => {
+        this.rejectAll(new Error('RDP connection closed'));
+        this.socket = null;
+      });
+
+      this.socket = socket;
+    });
+  }
+
+  /**
+   * Send a request to an actor and wait for its reply
+   */
+  request(
+    to: string,
+    type: string,
+    params: Record<string, unknown> = {},
+  ): Promise<RDPPacket> {
+    if (!this.socket) {
+      return Promise.reject(new Error('RDP client is not connected'));
+    }
+
+    const json = JSON.stringify({ to, type, ...params });
+    const body = Buffer.from(json, 'utf-8');
+    const socket = this.socket;
+
+    return new Promise((resolve, reject) => {
+      this.enqueue(to, { type, resolve, reject });
+      socket.write(Buffer.concat([Buffer.from(`${body.length}:`), body]));
+    });
+  }
+
+  /**
+   * Subscribe to events
+   * @returns Function that removes the listener
+   */
+  onEvent(listener: RDPEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private enqueue(actor: string, request: PendingRequest): void {
+    const queue = this.pending.get(actor) ?? [];
+    queue.push(request);
+    this.pending.set(actor, queue);
+  }
+
+  /**
+   * Accumulate data and dispatch every complete packet.
+   * Profiles can be tens of megabytes, so chunks are only joined once the
+   * announced packet length has arrived.
+   */
+  private onData(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.bufferedLength += chunk.length;
+
+    for (;;) {
+      if (this.expectedLength === null) {
+        const buffer = this.joinChunks();
+        const separator = buffer.indexOf(0x3a); // ':'
+        if (separator === -1) {
+          return;
+        }
+
+        const header = buffer.subarray(0, separator).toString('ascii');
+        if (!/^\d+$/.test(header)) {
+          // Bulk packets ("bulk <actor> <type> <length>:") are not supported
+          this.rejectAll(new Error(`Unsupported RDP packet header: ${header}`));
+          this.close();
+          return;
+        }
+
+        this.expectedLength = parseInt(header, 10);
+        this.chunks = [buffer.subarray(separator + 1)];
+        this.bufferedLength -= separator + 1;
+      }
+
+      if (this.bufferedLength < this.expectedLength) {
+        return;
+      }
+
+      const buffer = this.joinChunks();
+      const json = buffer.subarray(0, this.expectedLength).toString('utf-8');
+      this.chunks = [buffer.subarray(this.expectedLength)];
+      this.bufferedLength -= this.expectedLength;
+      this.expectedLength = null;
+
+      let packet: RDPPacket;
+      try {
+        packet = JSON.parse(json) as RDPPacket;
+      } catch {
+        // Skip malformed packets rather than tearing down the connection
+        continue;
+      }
+      this.dispatch(packet);
+    }
+  }
+
+  private joinChunks(): Buffer {
+    const buffer =
+      this.chunks.length === 1
+        ? this.chunks[0]!
+        : Buffer.concat(this.chunks, this.bufferedLength);
+    this.chunks = [buffer];
+    return buffer;
+  }
+
+  private dispatch(packet: RDPPacket): void {
+    const actor = packet.from ?? 'root';
+    const queue = this.pending.get(actor);
+    const isEvent =
+      packet.type !== undefined &&
+      packet.error === undefined &&
+      !(actor === 'root' && queue?.[0]?.type === 'greeting');
+
+    if (isEvent || !queue || queue.length === 0) {
+      for (const listener of this.eventListeners) {
+        listener(packet);
+      }
+      return;
+    }
+
+    const request = queue.shift()!;
+    if (packet.error) {
+      request.reject(
+        new RDPRequestError(actor, request.type, packet.error, packet.message),
+      );
+    } else {
+      request.resolve(packet);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const queue of this.pending.values()) {
+      for (const request of queue) {
+        request.reject(error);
+      }
+    }
+    this.pending.clear();
+  }
+}
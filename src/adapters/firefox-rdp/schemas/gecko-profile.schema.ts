@@ -0,0 +1,144 @@
+/**
+ * Gecko Profile Schema
+ *
+ * Defines the subset of the Gecko profiler's raw JSON format used by the
+ * Firefox RDP adapter. This is the format returned by the perf actor's
+ * getProfileAndStopProfiler(), before profiler.firefox.com processes it.
+ *
+ * Tables are column-indexed: each table has a `schema` mapping column
+ * names to indices and a `data` array of rows.
+ *
+ */
+
+/**
+ * Column-indexed table used throughout the raw Gecko profile format
+ */
+export interface GeckoTable {
+  /** Column name to row index */
+  schema: Record<string, number>;
+  /** Table rows */
+  data: unknown[][];
+}
+
+/**
+ * Marker phases (MarkerPhase in the Gecko profiler)
+ */
+export enum GeckoMarkerPhase {
+  INSTANT = 0,
+  INTERVAL = 1,
+  INTERVAL_START = 2,
+  INTERVAL_END = 3,
+}
+
+/**
+ * Profile metadata
+ */
+export interface GeckoProfileMeta {
+  /** Profile format version */
+  version: number;
+  /** Process start time in milliseconds since the Unix epoch */
+  startTime: number;
+  /** Sampling interval in milliseconds */
+  interval: number;
+  /** Product name (e.g. "Firefox") */
+  product?: string;
+  /** Platform/OS string */
+  platform?: string;
+  /** Gecko version (misc field in newer profiles) */
+  misc?: string;
+  /** Process type of this profile (0 = parent) */
+  processType?: number;
+}
+
+/**
+ * A single profiled thread
+ */
+export interface GeckoThread {
+  /** Thread name (GeckoMain, Compositor, Renderer, ...) */
+  name: string;
+  /** Process type: 'default' (parent), 'tab'/'web' (content), 'gpu', ... */
+  processType?: string;
+  /** Process name, e.g. "Isolated Web Content" */
+  processName?: string;
+  /** Thread ID */
+  tid?: number | string;
+  /** Process ID */
+  pid?: number | string;
+  /** Sample table (stack, time, ...) */
+  samples: GeckoTable;
+  /** Marker table (name, startTime, endTime, phase, category, data) */
+  markers: GeckoTable;
+  /** Stack table (prefix, frame) */
+  stackTable: GeckoTable;
+  /** Frame table (location, relevantForJS, implementation, line, column, ...) */
+  frameTable: GeckoTable;
+  /** Interned strings referenced by markers and frames */
+  stringTable: string[];
+}
+
+/**
+ * Raw Gecko profile (one per process, sub-processes nested)
+ */
+export interface GeckoProfile {
+  meta: GeckoProfileMeta;
+  threads: GeckoThread[];
+  /** Child process profiles */
+  processes?: GeckoProfile[];
+}
+
+/**
+ * Check whether a value looks like a GeckoTable
+ */
+function isGeckoTable(value: unknown): value is GeckoTable {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const table = value as Record<string, unknown>;
+  return (
+    typeof table.schema === 'object' &&
+    table.schema !== null &&
+    Array.isArray(table.data)
+  );
+}
+
+/**
+ * Type guard for a raw Gecko profile
+ */
+export function isGeckoProfile(obj: unknown): obj is GeckoProfile {
+  if (!obj || typeof obj !== 'object') {
+    return false;
+  }
+
+  const profile = obj as Record<string, unknown>;
+  const meta = profile.meta as Record<string, unknown> | undefined;
+  if (!meta || typeof meta.startTime !== 'number') {
+    return false;
+  }
+
+  if (!Array.isArray(profile.threads)) {
+    return false;
+  }
+
+  return profile.threads.every((thread: unknown) => {
+    const t = thread as Record<string, unknown> | null;
+    return (
+      !!t &&
+      typeof t.name === 'string' &&
+      isGeckoTable(t.markers) &&
+      isGeckoTable(t.samples) &&
+      Array.isArray(t.stringTable)
+    );
+  });
+}
+
+/**
+ * Read a column from a table row, or undefined if the column is absent
+ */
+export function readColumn<T>(
+  table: GeckoTable,
+  row: unknown[],
+  column: string,
+): T | undefined {
+  const index = table.schema[column];
+  return index === undefined ? undefined : (row[index] as T | undefined);
+}
@@ -0,0 +1,5 @@
+/**
+ * Firefox RDP Adapter Schemas
+ */
+
+export * from './gecko-profile.schema.js';
@@ -11,6 +11,7 @@ export * from './interfaces/index.js';
 // Adapters
 export * from './chromium-cdp/index.js';
 export * from './webkit-native/index.js';
+export * from './firefox-rdp/index.js';
 
 // Services
 export * from './adapter-registry.service.js';
@@ -28,6 +28,8 @@ export enum AdapterCapability {
   SOURCE_MAPS = 'source_maps',
   /** Live monitoring support */
   LIVE_MONITORING = 'live_monitoring',
+  /** Runs interaction scenarios while collecting a trace */
+  SCENARIOS = 'scenarios',
 }
 
 /**
@@ -6,6 +6,11 @@
  *
  */
 
+import type {
+  TraceEvent,
+  UserTimingData,
+} from '../../shared/types/trace.types.js';
+
 /**
  * Frame timing information for a single frame
  */
@@ -30,6 +35,8 @@ export interface FrameTiming {
   compositeMs?: number;
   /** Time spent in GPU operations (ms) */
   gpuMs?: number;
+  /** Screenshot shown at the end of the frame, if screenshots were captured */
+  screenshotIndex?: number;
 }
 
 /**
@@ -220,6 +227,9 @@ export interface TraceSnapshot {
   /** Paint events */
   paintEvents: PaintEvent[];
 
+  /** User Timing marks and measures (adapters that record them) */
+  userTiming?: UserTimingData;
+
   /** Trace metadata */
   metadata: TraceSnapshotMetadata;
 
@@ -292,6 +302,21 @@ export function calculateFrameMetrics(
   };
 }
 
+/**
+ * Helper function to get the raw CDP trace events kept in a snapshot
+ * Adapters that do not produce CDP events (or snapshots collected without
+ * includeRawEvents) yield an empty list
+ */
+export function getRawTraceEvents(snapshot: TraceSnapshot): TraceEvent[] {
+  return (snapshot.rawEvents ?? []).filter(
+    (event): event is TraceEvent =>
+      typeof event === 'object' &&
+      event !== null &&
+      typeof (event as TraceEvent).name === 'string' &&
+      typeof (event as TraceEvent).ts === 'number',
+  );
+}
+
 /**
  * Helper function to generate a unique trace ID
  */
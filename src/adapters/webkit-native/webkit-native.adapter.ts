@@ -65,6 +65,7 @@ export class WebKitNativeAdapter extends BaseBrowserAdapter {
       AdapterCapability.FRAME_TIMING,
       AdapterCapability.LONG_TASKS,
       AdapterCapability.DOM_SIGNALS, // Limited compared to CDP
+      AdapterCapability.SCENARIOS, // Selects the trace file recorded for it
     ],
     browserPatterns: [/safari/i, /webkit/i, /ios/i, /iphone/i, /ipad/i],
     priority: 50, // Lower priority than CDP adapters
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for AlertService, with local HTTP and syslog stand-ins
+ */
+
+import * as dgram from 'dgram';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AlertService } from './alert.service.js';
+import type { Alert } from './interfaces/index.js';
+import type { AlertSinkConfig } from '../shared/types/index.js';
+
+interface ReceivedRequest {
+  url: string;
+  contentType?: string;
+  body: unknown;
+}
+
+/**
+ * HTTP server standing in for webhook receivers
+ */
+async function startStandIn(status = () => 200): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  received: ReceivedRequest[];
+}> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      received.push({
+        url: req.url ?? '',
+        contentType: req.headers['content-type'],
+        body: JSON.parse(body) as unknown,
+      });
+      res.statusCode = status();
+      res.end(res.statusCode === 200 ? 'ok' : 'unavailable');
+    });
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve()),
+  );
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, received };
+}
+
+function violation(
+  severity: Alert['severity'],
+  ruleId = 'long_task',
+): Omit<Alert, 'suppressed'> {
+  return {
+    ruleId,
+    ruleName: 'Long Task Duration',
+    severity,
+    value: 240,
+    threshold: 200,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    url: 'https://app.test/',
+  };
+}
+
+describe('AlertService', () => {
+  let service: AlertService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    service = new AlertService();
+    tempDir = await mkdtemp(join(tmpdir(), 'rd-alerts-'));
+  });
+
+  afterEach(async () => {
+    await service.close();
+    jest.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should post alerts to webhook and Slack-compatible endpoints', async () => {
+    const standIn = await startStandIn();
+    try {
+      await service.configure([
+        {
+          type: 'webhook',
+          url: `${standIn.baseUrl}/hook`,
+          headers: { 'X-Token': 'secret' },
+        },
+        {
+          type: 'slack',
+          name: 'team-slack',
+          url: `${standIn.baseUrl}/slack`,
+          channel: '#perf',
+        },
+      ]);
+
+      const results = await service.dispatch(violation('high'));
+      expect(results).toEqual([
+        { sink: 'webhook', status: 'sent' },
+        { sink: 'team-slack', status: 'sent' },
+      ]);
+
+      const hook = standIn.received.find((r) => r.url === '/hook')!;
+      expect(hook.contentType).toBe('application/json');
+      expect(hook.body).toEqual({ ...violation('high'), suppressed: 0 });
+
+      const slack = standIn.received.find((r) => r.url === '/slack')!;
+      expect(slack.body).toMatchObject({
+        text: '*[HIGH]* Long Task Duration (long_task): 240 exceeds 200',
+        channel: '#perf',
+        attachments: [{ color: '#dc2626' }],
+      });
+    } finally {
+      standIn.server.close();
+    }
+  });
+
+  it('should route by severity, deduplicate and cool down per sink', async () => {
+    const file = join(tempDir, 'alerts', 'alerts.ndjson');
+    await service.configure(
+      [
+        {
+          type: 'file',
+          path: file,
+          dedupWindowSeconds: 300,
+          cooldownSeconds: 60,
+        },
+        { type: 'file', name: 'pager', path: file, severities: ['critical'] },
+      ],
+      tempDir,
+    );
+    const now = jest.spyOn(Date, 'now');
+    const statuses = async (alert: Omit<Alert, 'suppressed'>, at: number) => {
+      now.mockReturnValue(at);
+      return (await service.dispatch(alert)).map((r) => r.status);
+    };
+
+    expect(await statuses(violation('warning'), 0)).toEqual([
+      'sent',
+      'not_routed',
+    ]);
+    // Same rule and severity again
+    expect(await statuses(violation('warning'), 10_000)).toEqual([
+      'deduplicated',
+      'not_routed',
+    ]);
+    // A lower severity during the cooldown
+    expect(await statuses(violation('info'), 20_000)).toEqual([
+      'cooldown',
+      'not_routed',
+    ]);
+    // Escalations are not held back
+    expect(await statuses(violation('critical'), 30_000)).toEqual([
+      'sent',
+      'sent',
+    ]);
+    // Other rules are throttled separately
+    expect(await statuses(violation('warning', 'gpu_stall'), 30_000)).toEqual([
+      'sent',
+      'not_routed',
+    ]);
+    // Past the dedup window
+    expect(await statuses(violation('warning'), 400_000)).toEqual([
+      'sent',
+      'not_routed',
+    ]);
+
+    const lines = (await readFile(file, 'utf-8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Alert);
+    expect(lines.map((a) => [a.ruleId, a.severity, a.suppressed])).toEqual([
+      ['long_task', 'warning', 0],
+      ['long_task', 'critical', 2],
+      ['long_task', 'critical', 0],
+      ['gpu_stall', 'warning', 0],
+      ['long_task', 'warning', 0],
+    ]);
+  });
+
+  it('should report failed deliveries and retry them on the next violation', async () => {
+    let status = 503;
+    const standIn = await startStandIn(() => status);
+    try {
+      await service.configure([{ type: 'webhook', url: standIn.baseUrl }]);
+
+      expect(await service.dispatch(violation('high'))).toEqual([
+        {
+          sink: 'webhook',
+          status: 'failed',
+          error: 'HTTP 503: unavailable',
+        },
+      ]);
+
+      status = 200;
+      expect(await service.dispatch(violation('high'))).toEqual([
+        { sink: 'webhook', status: 'sent' },
+      ]);
+      expect(standIn.received).toHaveLength(2);
+    } finally {
+      standIn.server.close();
+    }
+  });
+
+  it('should send RFC 5424 messages to syslog', async () => {
+    const receiver = dgram.createSocket('udp4');
+    await new Promise<void>((resolve) =>
+      receiver.bind(0, '127.0.0.1', () => resolve()),
+    );
+    const message = new Promise<string>((resolve) =>
+      receiver.once('message', (msg) => resolve(msg.toString())),
+    );
+
+    try {
+      await service.configure([
+        {
+          type: 'syslog',
+          host: '127.0.0.1',
+          port: receiver.address().port,
+          facility: 'local0',
+        },
+      ]);
+      await service.dispatch(violation('critical'));
+
+      // local0 (16) * 8 + critical (2)
+      expect(await message).toMatch(
+        /^<130>1 2026-01-01T00:00:00\.000Z \S+ render-debugger \d+ violation \[alert@32473 rule="long_task" severity="critical" value="240" threshold="200" suppressed="0"\] Long Task Duration: 240 exceeds critical threshold 200 on https:\/\/app\.test\/$/,
+      );
+    } finally {
+      receiver.close();
+    }
+  });
+
+  it('should reject unknown sink types', async () => {
+    await expect(
+      service.configure([
+        {
+          type: 'pager',
+          url: 'https://pager.test/',
+        } as unknown as AlertSinkConfig,
+      ]),
+    ).rejects.toThrow('Unknown alert sink type: pager');
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Alert Service - Sends monitor violations to the alert sinks configured
+ * in config.yaml, applying each sink's severity routing, deduplication
+ * and cooldown
+ */
+
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import type { AlertSinkConfig, Severity } from '../shared/types/index.js';
+import type {
+  Alert,
+  AlertDeliveryResult,
+  AlertDeliveryStatus,
+  AlertSink,
+  IAlertService,
+} from './interfaces/index.js';
+import {
+  FileAlertSink,
+  SlackAlertSink,
+  SyslogAlertSink,
+  WebhookAlertSink,
+} from './sinks/index.js';
+import { AlertDeliveryError } from '../errors/error-types.js';
+
+/** Default deduplication window, in seconds */
+export const DEFAULT_DEDUP_WINDOW_SECONDS = 300;
+
+/** Default cooldown after an alert for a rule, in seconds */
+export const DEFAULT_COOLDOWN_SECONDS = 60;
+
+/** Severities in order of increasing severity */
+const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'high', 'critical'];
+
+/**
+ * A sink with its routing and throttling state
+ */
+interface SinkEntry {
+  sink: AlertSink;
+  severities?: Severity[];
+  dedupWindowMs: number;
+  cooldownMs: number;
+  /** Last time an alert was sent, by rule and severity */
+  lastSentBySeverity: Map<string, number>;
+  /** Last alert sent, by rule */
+  lastSentByRule: Map<string, { at: number; severity: Severity }>;
+  /** Violations dropped since the last alert, by rule */
+  suppressed: Map<string, number>;
+}
+
+@Injectable()
+export class AlertService implements IAlertService {
+  private entries: SinkEntry[] = [];
+
+  /**
+   * Create the sinks to dispatch to, replacing any configured before
+   * @param projectRoot Directory that file sink paths are relative to
+   */
+  async configure(
+    sinks: AlertSinkConfig[],
+    projectRoot = process.cwd(),
+  ): Promise<void> {
+    await this.close();
+
+    this.entries = sinks
+      .filter((config) => config.enabled !== false)
+      .map((config) => ({
+        sink: this.createSink(config, projectRoot),
+        severities: config.severities,
+        dedupWindowMs:
+          (config.dedupWindowSeconds ?? DEFAULT_DEDUP_WINDOW_SECONDS) * 1000,
+        cooldownMs: (config.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000,
+        lastSentBySeverity: new Map(),
+        lastSentByRule: new Map(),
+        suppressed: new Map(),
+      }));
+  }
+
+  /**
+   * Names of the configured sinks
+   */
+  getSinkNames(): string[] {
+    return this.entries.map((entry) => entry.sink.name);
+  }
+
+  /**
+   * Send an alert to every sink it is routed to and not throttled at.
+   * Sinks are sent to in parallel, and a failing sink does not affect the
+   * others.
+   */
+  async dispatch(
+    alert: Omit<Alert, 'suppressed'>,
+  ): Promise<AlertDeliveryResult[]> {
+    const now = Date.now();
+    return Promise.all(
+      this.entries.map((entry) => this.deliver(entry, alert, now)),
+    );
+  }
+
+  /**
+   * Close all sinks
+   */
+  async close(): Promise<void> {
+    const entries = this.entries;
+    this.entries = [];
+    await Promise.all(
+      entries.map((entry) => entry.sink.close?.() ?? Promise.resolve()),
+    );
+  }
+
+  /**
+   * Route, throttle and send an alert to one sink
+   */
+  private async deliver(
+    entry: SinkEntry,
+    alert: Omit<Alert, 'suppressed'>,
+    now: number,
+  ): Promise<AlertDeliveryResult> {
+    const name = entry.sink.name;
+    const status = this.getThrottleStatus(entry, alert, now);
+    if (status === 'not_routed') {
+      return { sink: name, status };
+    }
+    if (status) {
+      entry.suppressed.set(
+        alert.ruleId,
+        (entry.suppressed.get(alert.ruleId) ?? 0) + 1,
+      );
+      return { sink: name, status };
+    }
+
+    // Recorded before sending, so that a violation dispatched while this
+    // one is in flight is throttled against it
+    const severityKey = `${alert.ruleId}:${alert.severity}`;
+    const previousBySeverity = entry.lastSentBySeverity.get(severityKey);
+    const previousByRule = entry.lastSentByRule.get(alert.ruleId);
+    const suppressed = entry.suppressed.get(alert.ruleId) ?? 0;
+    entry.lastSentBySeverity.set(severityKey, now);
+    entry.lastSentByRule.set(alert.ruleId, {
+      at: now,
+      severity: alert.severity,
+    });
+    entry.suppressed.delete(alert.ruleId);
+
+    try {
+      await entry.sink.send({ ...alert, suppressed });
+    } catch (error) {
+      // Undo, so that the next violation is tried again
+      this.restore(entry.lastSentBySeverity, severityKey, previousBySeverity);
+      this.restore(entry.lastSentByRule, alert.ruleId, previousByRule);
+      entry.suppressed.set(
+        alert.ruleId,
+        suppressed + (entry.suppressed.get(alert.ruleId) ?? 0),
+      );
+      return {
+        sink: name,
+        status: 'failed',
+        error:
+          error instanceof AlertDeliveryError
+            ? error.reason
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      };
+    }
+
+    return { sink: name, status: 'sent' };
+  }
+
+  /**
+   * Why a sink should not get an alert, or null if it should
+   */
+  private getThrottleStatus(
+    entry: SinkEntry,
+    alert: Omit<Alert, 'suppressed'>,
+    now: number,
+  ): AlertDeliveryStatus | null {
+    if (entry.severities && !entry.severities.includes(alert.severity)) {
+      return 'not_routed';
+    }
+
+    const sameSeverityAt = entry.lastSentBySeverity.get(
+      `${alert.ruleId}:${alert.severity}`,
+    );
+    if (
+      sameSeverityAt !== undefined &&
+      now - sameSeverityAt < entry.dedupWindowMs
+    ) {
+      return 'deduplicated';
+    }
+
+    // Escalations go out even during the cooldown
+    const last = entry.lastSentByRule.get(alert.ruleId);
+    if (
+      last &&
+      now - last.at < entry.cooldownMs &&
+      SEVERITY_ORDER.indexOf(alert.severity) <=
+        SEVERITY_ORDER.indexOf(last.severity)
+    ) {
+      return 'cooldown';
+    }
+
+    return null;
+  }
+
+  /**
+   * Put back a map entry as it was, deleting it if it was not set
+   */
+  private restore<V>(map: Map<string, V>, key: string, value?: V): void {
+    if (value === undefined) {
+      map.delete(key);
+    } else {
+      map.set(key, value);
+    }
+  }
+
+  /**
+   * Create a sink from its config entry
+   */
+  private createSink(config: AlertSinkConfig, projectRoot: string): AlertSink {
+    const name = config.name ?? config.type;
+    switch (config.type) {
+      case 'webhook':
+        return new WebhookAlertSink(name, config);
+      case 'slack':
+        return new SlackAlertSink(name, config);
+      case 'syslog':
+        return new SyslogAlertSink(name, config);
+      case 'file':
+        return new FileAlertSink(name, path.resolve(projectRoot, config.path));
+      default: {
+        // Config validation rejects unknown types; this catches callers
+        // that configure sinks without it
+        const unknown: never = config;
+        throw new Error(
+          `Unknown alert sink type: ${(unknown as { type: string }).type}`,
+        );
+      }
+    }
+  }
+}
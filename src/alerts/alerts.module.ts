@@ -0,0 +1,14 @@
+/**
+ * Alerts Module
+ * Sends monitor violations to webhook, Slack, syslog and file sinks
+ *
+ */
+
+import { Module } from '@nestjs/common';
+import { AlertService } from './alert.service.js';
+
+@Module({
+  providers: [AlertService],
+  exports: [AlertService],
+})
+export class AlertsModule {}
@@ -0,0 +1,4 @@
+export * from './interfaces/index.js';
+export * from './sinks/index.js';
+export * from './alert.service.js';
+export * from './alerts.module.js';
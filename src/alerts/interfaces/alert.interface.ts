@@ -0,0 +1,79 @@
+/**
+ * Alerts module interfaces for sending monitor violations to alert sinks
+ */
+
+import type { AlertSinkConfig, Severity } from '../../shared/types/index.js';
+
+/**
+ * A monitor violation as sent to alert sinks
+ */
+export interface Alert {
+  ruleId: string;
+  ruleName: string;
+  severity: Severity;
+  value: number;
+  threshold: number;
+  /** Expression of a condition rule, which has no threshold */
+  condition?: string;
+  /** ISO 8601 time of the violation */
+  timestamp: string;
+  /** Monitored page, when known */
+  url?: string;
+  /** Violations of this rule the sink dropped since its last alert for it */
+  suppressed: number;
+}
+
+/**
+ * Delivers alerts to one destination
+ */
+export interface AlertSink {
+  readonly name: string;
+
+  /**
+   * Deliver an alert
+   * @throws AlertDeliveryError if the destination did not accept it
+   */
+  send(alert: Alert): Promise<void>;
+
+  /**
+   * Release connections held by the sink
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * What happened to an alert at one sink
+ */
+export type AlertDeliveryStatus =
+  | 'sent'
+  | 'not_routed'
+  | 'deduplicated'
+  | 'cooldown'
+  | 'failed';
+
+export interface AlertDeliveryResult {
+  sink: string;
+  status: AlertDeliveryStatus;
+  /** Reason a delivery failed */
+  error?: string;
+}
+
+/**
+ * Alert service interface
+ */
+export interface IAlertService {
+  /**
+   * Create the sinks to dispatch to, replacing any configured before
+   */
+  configure(sinks: AlertSinkConfig[], projectRoot?: string): Promise<void>;
+
+  /**
+   * Send an alert to every sink it is routed to and not throttled at
+   */
+  dispatch(alert: Omit<Alert, 'suppressed'>): Promise<AlertDeliveryResult[]>;
+
+  /**
+   * Close all sinks
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,5 @@
+/**
+ * Alerts module interfaces
+ */
+
+export * from './alert.interface.js';
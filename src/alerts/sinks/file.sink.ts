@@ -0,0 +1,36 @@
+/**
+ * File Alert Sink
+ * Appends each alert to a file as a line of JSON
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Alert, AlertSink } from '../interfaces/index.js';
+import { AlertDeliveryError } from '../../errors/error-types.js';
+
+export class FileAlertSink implements AlertSink {
+  private directoryCreated = false;
+
+  /**
+   * @param filePath Absolute path of the NDJSON file
+   */
+  constructor(
+    readonly name: string,
+    private readonly filePath: string,
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    try {
+      if (!this.directoryCreated) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        this.directoryCreated = true;
+      }
+      await fs.appendFile(this.filePath, `${JSON.stringify(alert)}\n`);
+    } catch (error) {
+      throw new AlertDeliveryError(
+        this.name,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
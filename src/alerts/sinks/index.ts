@@ -0,0 +1,4 @@
+export * from './webhook.sink.js';
+export * from './slack.sink.js';
+export * from './syslog.sink.js';
+export * from './file.sink.js';
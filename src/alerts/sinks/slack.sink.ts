@@ -0,0 +1,80 @@
+/**
+ * Slack Alert Sink
+ * POSTs each alert to a Slack-compatible incoming webhook
+ */
+
+import type {
+  Severity,
+  SlackAlertSinkConfig,
+} from '../../shared/types/index.js';
+import type { Alert, AlertSink } from '../interfaces/index.js';
+import { postJson } from './webhook.sink.js';
+
+/** Attachment bar colors by severity */
+const SEVERITY_COLORS: Record<Severity, string> = {
+  info: '#0891b2',
+  warning: '#d97706',
+  high: '#dc2626',
+  critical: '#7c3aed',
+};
+
+/**
+ * Incoming webhook message, as accepted by Slack, Mattermost and
+ * compatible services
+ */
+export interface SlackMessage {
+  text: string;
+  channel?: string;
+  username?: string;
+  attachments: Array<{
+    color: string;
+    fields: Array<{ title: string; value: string; short: boolean }>;
+    ts: number;
+  }>;
+}
+
+export class SlackAlertSink implements AlertSink {
+  constructor(
+    readonly name: string,
+    private readonly config: SlackAlertSinkConfig,
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.name, this.config.url, this.buildMessage(alert));
+  }
+
+  /**
+   * Format an alert as an incoming webhook message
+   */
+  buildMessage(alert: Alert): SlackMessage {
+    const fields = alert.condition
+      ? [{ title: 'Condition', value: alert.condition, short: false }]
+      : [
+          { title: 'Value', value: String(alert.value), short: true },
+          { title: 'Threshold', value: String(alert.threshold), short: true },
+        ];
+    if (alert.url) {
+      fields.push({ title: 'URL', value: alert.url, short: false });
+    }
+    if (alert.suppressed > 0) {
+      fields.push({
+        title: 'Suppressed',
+        value: `${alert.suppressed} repeat violation(s) since the last alert`,
+        short: false,
+      });
+    }
+
+    return {
+      text: `*[${alert.severity.toUpperCase()}]* ${alert.ruleName} (${alert.ruleId}): ${alert.condition ?? `${alert.value} exceeds ${alert.threshold}`}`,
+      channel: this.config.channel,
+      username: this.config.username,
+      attachments: [
+        {
+          color: SEVERITY_COLORS[alert.severity],
+          fields,
+          ts: Math.floor(new Date(alert.timestamp).getTime() / 1000),
+        },
+      ],
+    };
+  }
+}
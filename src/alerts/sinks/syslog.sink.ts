@@ -0,0 +1,143 @@
+/**
+ * Syslog Alert Sink
+ * Sends each alert as an RFC 5424 message over UDP, or over TCP with
+ * octet-counting framing (RFC 6587)
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as os from 'os';
+import type {
+  Severity,
+  SyslogAlertSinkConfig,
+  SyslogFacility,
+} from '../../shared/types/index.js';
+import type { Alert, AlertSink } from '../interfaces/index.js';
+import { AlertDeliveryError } from '../../errors/error-types.js';
+
+/** Facility codes from RFC 5424 */
+export const SYSLOG_FACILITIES: Record<SyslogFacility, number> = {
+  user: 1,
+  daemon: 3,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+/** Syslog severity levels for alert severities */
+const SYSLOG_LEVELS: Record<Severity, number> = {
+  critical: 2,
+  high: 3,
+  warning: 4,
+  info: 6,
+};
+
+const APP_NAME = 'render-debugger';
+
+/** Structured data ID, under the enterprise number reserved for examples */
+const SD_ID = 'alert@32473';
+
+/** Give up on a TCP delivery after this long */
+const TCP_TIMEOUT_MS = 10000;
+
+export class SyslogAlertSink implements AlertSink {
+  private socket: dgram.Socket | null = null;
+  private readonly host: string;
+  private readonly port: number;
+
+  constructor(
+    readonly name: string,
+    private readonly config: SyslogAlertSinkConfig,
+  ) {
+    this.host = config.host ?? 'localhost';
+    this.port = config.port ?? 514;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const message = this.formatMessage(alert);
+    try {
+      if (this.config.protocol === 'tcp') {
+        await this.sendTcp(`${Buffer.byteLength(message)} ${message}`);
+      } else {
+        await this.sendUdp(message);
+      }
+    } catch (error) {
+      throw new AlertDeliveryError(
+        this.name,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Format an alert as an RFC 5424 message
+   */
+  formatMessage(alert: Alert): string {
+    const facility = SYSLOG_FACILITIES[this.config.facility ?? 'user'];
+    const priority = facility * 8 + SYSLOG_LEVELS[alert.severity];
+    const params = [
+      ['rule', alert.ruleId],
+      ['severity', alert.severity],
+      ['value', String(alert.value)],
+      ['threshold', String(alert.threshold)],
+      ['suppressed', String(alert.suppressed)],
+      ...(alert.condition ? [['condition', alert.condition]] : []),
+    ]
+      .map(([key, value]) => `${key}="${this.escapeParam(value!)}"`)
+      .join(' ');
+    const reason = alert.condition
+      ? `${alert.condition} holds`
+      : `${alert.value} exceeds ${alert.severity} threshold ${alert.threshold}`;
+    const text = `${alert.ruleName}: ${reason}${alert.url ? ` on ${alert.url}` : ''}`;
+
+    return `<${priority}>1 ${alert.timestamp} ${os.hostname() || '-'} ${APP_NAME} ${process.pid} violation [${SD_ID} ${params}] ${text}`;
+  }
+
+  /**
+   * Escape a structured data parameter value
+   */
+  private escapeParam(value: string): string {
+    return value.replace(/["\\\]]/g, (c) => `\\${c}`);
+  }
+
+  private sendUdp(message: string): Promise<void> {
+    if (!this.socket) {
+      this.socket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+      // Send callbacks report failures; an unhandled error event would throw
+      this.socket.on('error', () => undefined);
+      this.socket.unref();
+    }
+    const socket = this.socket;
+    return new Promise((resolve, reject) => {
+      socket.send(message, this.port, this.host, (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+
+  private sendTcp(frame: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(TCP_TIMEOUT_MS, () =>
+        socket.destroy(new Error('Connection timed out')),
+      );
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.end(frame, () => resolve());
+      });
+    });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Webhook Alert Sink
+ * POSTs each alert as a JSON document
+ */
+
+import type { WebhookAlertSinkConfig } from '../../shared/types/index.js';
+import type { Alert, AlertSink } from '../interfaces/index.js';
+import { AlertDeliveryError } from '../../errors/error-types.js';
+
+/** Give up on a request after this long */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * POST a JSON body, failing on network errors and non-2xx responses
+ * @throws AlertDeliveryError if the request did not succeed
+ */
+export async function postJson(
+  sink: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new AlertDeliveryError(
+      sink,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  // Drain the body so the connection can be reused
+  const text = await response.text().catch(() => '');
+  if (!response.ok) {
+    throw new AlertDeliveryError(
+      sink,
+      `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+    );
+  }
+}
+
+export class WebhookAlertSink implements AlertSink {
+  constructor(
+    readonly name: string,
+    private readonly config: WebhookAlertSinkConfig,
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await postJson(this.name, this.config.url, alert, this.config.headers);
+  }
+}
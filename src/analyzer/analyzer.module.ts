@@ -4,6 +4,9 @@ import { LayoutThrashDetector } from './detectors/layout-thrash.detector.js';
 import { GPUStallDetector } from './detectors/gpu-stall.detector.js';
 import { LongTaskDetector } from './detectors/long-task.detector.js';
 import { HeavyPaintDetector } from './detectors/heavy-paint.detector.js';
+import { InputLatencyDetector } from './detectors/input-latency.detector.js';
+import { LayoutShiftDetector } from './detectors/layout-shift.detector.js';
+import { GCJankDetector } from './detectors/gc-jank.detector.js';
 import { ScoringService } from './scoring/scoring.service.js';
 
 @Module({
@@ -14,6 +17,9 @@ import { ScoringService } from './scoring/scoring.service.js';
     GPUStallDetector,
     LongTaskDetector,
     HeavyPaintDetector,
+    InputLatencyDetector,
+    LayoutShiftDetector,
+    GCJankDetector,
   ],
   exports: [AnalyzerService, ScoringService],
 })
@@ -24,6 +30,9 @@ export class AnalyzerModule implements OnModuleInit {
     private readonly gpuStallDetector: GPUStallDetector,
     private readonly longTaskDetector: LongTaskDetector,
     private readonly heavyPaintDetector: HeavyPaintDetector,
+    private readonly inputLatencyDetector: InputLatencyDetector,
+    private readonly layoutShiftDetector: LayoutShiftDetector,
+    private readonly gcJankDetector: GCJankDetector,
   ) {}
 
   onModuleInit() {
@@ -32,5 +41,8 @@ export class AnalyzerModule implements OnModuleInit {
     this.analyzerService.registerDetector(this.gpuStallDetector);
     this.analyzerService.registerDetector(this.longTaskDetector);
     this.analyzerService.registerDetector(this.heavyPaintDetector);
+    this.analyzerService.registerDetector(this.inputLatencyDetector);
+    this.analyzerService.registerDetector(this.layoutShiftDetector);
+    this.analyzerService.registerDetector(this.gcJankDetector);
   }
 }
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the AnalyzerService frame timeline and streamed analysis
+ */
+
+import { AnalyzerService } from './analyzer.service.js';
+import { GCJankDetector, LongTaskDetector } from './detectors/index.js';
+import { ScoringService } from './scoring/index.js';
+import type { TraceData, TraceEvent } from '../shared/types/index.js';
+
+function event(
+  name: string,
+  ts: number,
+  extra: Partial<TraceEvent> = {},
+): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    ph: 'X',
+    cat: 'devtools.timeline',
+    name,
+    ...extra,
+  };
+}
+
+function trace(traceEvents: TraceEvent[]): TraceData {
+  return {
+    traceEvents,
+    metadata: {
+      browser_version: 'test',
+      user_agent: 'test',
+      viewport: { width: 1280, height: 720 },
+      device_pixel_ratio: 1,
+      timestamp: '2024-01-01T00:00:00Z',
+      scenario: 'scroll',
+      fps_target: 60,
+    },
+  };
+}
+
+/**
+ * Every stage of a frame, as Chrome records it: BeginFrame on the
+ * compositor thread, then the main thread frame and the draw
+ */
+function frame(ts: number): TraceEvent[] {
+  return [
+    event('BeginFrame', ts, { tid: 2, ph: 'I' }),
+    event('BeginMainThreadFrame', ts + 100, { ph: 'I' }),
+    event('DrawFrame', ts + 3000, { tid: 2, ph: 'I' }),
+  ];
+}
+
+describe('AnalyzerService', () => {
+  let service: AnalyzerService;
+
+  beforeEach(() => {
+    service = new AnalyzerService();
+  });
+
+  it('should build one timeline frame per BeginFrame and assign phases to it', async () => {
+    const { timeline } = await service.analyze(
+      trace([
+        ...[0, 16_000, 50_000, 66_000].flatMap(frame),
+        event('Layout', 20_000, { dur: 5_000 }),
+        event('Paint', 52_000, { dur: 2_000 }),
+        event('UpdateLayoutTree', 52_500, { dur: 1_000 }),
+      ]),
+      {
+        name: 'timeline',
+        fpsTarget: 60,
+      },
+    );
+
+    expect(
+      timeline!.frames.map((f) => [
+        f.durationMs,
+        f.dropped,
+        f.layoutMs,
+        f.paintMs,
+        f.styleRecalcMs,
+      ]),
+    ).toEqual([
+      [16, false, 0, 0, 0],
+      [34, true, 5, 0, 0],
+      [16, false, 0, 2, 1],
+    ]);
+  });
+
+  it('should fall back to DrawFrame when the trace has no BeginFrame', async () => {
+    const { timeline } = await service.analyze(
+      trace(
+        [0, 16_000, 32_000].flatMap((ts) =>
+          frame(ts).filter((e) => e.name !== 'BeginFrame'),
+        ),
+      ),
+      {
+        name: 'timeline',
+        fpsTarget: 60,
+      },
+    );
+
+    expect(timeline!.frames.map((f) => f.startTime)).toEqual([3_000, 19_000]);
+  });
+
+  it('should analyze a stream that outgrows the buffer in chunks, as a whole trace', async () => {
+    service.registerDetector(new LongTaskDetector(new ScoringService()));
+    service.registerDetector(new GCJankDetector(new ScoringService()));
+
+    // 60 frames, every fifth one late behind a long task with a GC pause
+    const events: TraceEvent[] = [];
+    let ts = 0;
+    for (let i = 0; i < 60; i++) {
+      events.push(...frame(ts), event('Layout', ts + 1_000, { dur: 2_000 }));
+      if (i % 5 === 0) {
+        events.push(
+          event('FunctionCall', ts + 4_000, {
+            dur: 60_000,
+            args: { data: { functionName: 'render', url: 'app.js' } },
+          }),
+          event('MajorGC', ts + 10_000, { dur: 5_000 }),
+        );
+        ts += 70_000;
+      } else {
+        ts += 16_000;
+      }
+    }
+    events.push(
+      event('scroll', 100_000, { ph: 'b', cat: 'blink.user_timing', id: '1' }),
+      event('scroll', 600_000, { ph: 'e', cat: 'blink.user_timing', id: '1' }),
+    );
+    events.sort((a, b) => a.ts - b.ts);
+
+    const options = { name: 'stream', fpsTarget: 60 };
+    const whole = await service.analyze(trace(events), options);
+
+    // Room for a few frames at a time
+    const stream = service.createStream({ ...options, maxBufferSizeMB: 0.002 });
+    for (const e of events) {
+      stream.push(e);
+    }
+    const streamed = await stream.finish(trace([]).metadata);
+
+    expect(streamed.timeline).toEqual(whole.timeline);
+    expect(streamed.summary.frames).toEqual(whole.summary.frames);
+    expect(streamed.summary.phase_breakdown).toEqual(
+      whole.summary.phase_breakdown,
+    );
+    expect(streamed.summary.segments).toEqual(whole.summary.segments);
+    expect(streamed.detections).toEqual(whole.detections);
+    expect(whole.detections.map((d) => d.type)).toEqual([
+      'long_task',
+      'gc_jank',
+    ]);
+  });
+});
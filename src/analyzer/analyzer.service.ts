@@ -16,22 +16,45 @@ import type {
   LayoutThrashDetection,
   GPUStallDetection,
   LongTaskDetection,
+  LayoutShiftDetection,
+  GCJankDetection,
   TraceEvent,
+  TraceMetadata,
+  ThirdPartyImpact,
+  PhaseBreakdown,
 } from '../shared/types/index.js';
-import type {
-  TraceSnapshot,
-  DOMSignal,
-  GPUEvent,
+import {
+  getRawTraceEvents,
+  calculateFrameMetrics as calculateSnapshotFrameMetrics,
+  type TraceSnapshot,
+  type DOMSignal,
+  type GPUEvent,
+  type StackFrameInfo,
 } from '../adapters/models/index.js';
+import {
+  calculateCLS,
+  extractUserTiming,
+  overlapsMeasures,
+  buildSegmentSummaries,
+  SegmentAccumulator,
+  classifyScriptUrl,
+  extractFrameUrls,
+  firstPartyDomainOf,
+} from '../shared/utils/index.js';
 import { AdapterCapability } from '../adapters/interfaces/index.js';
+import { TraceChunker } from '../services/trace-lifecycle.service.js';
 import type {
   IDetector,
+  IDetectorSession,
   IAnalyzerService,
+  ITraceAnalysisStream,
   AnalyzeOptions,
+  AnalyzeStreamOptions,
   AnalysisResult,
   AnalysisWarning,
   DetectionContext,
   TraceSnapshotDetectionContext,
+  FrameTimeline,
 } from './interfaces/index.js';
 
 /**
@@ -42,8 +65,108 @@ const DETECTOR_CAPABILITY_REQUIREMENTS: Record<string, AdapterCapability[]> = {
   GPUStallDetector: [AdapterCapability.GPU_EVENTS, AdapterCapability.FULL_CDP],
   LongTaskDetector: [AdapterCapability.LONG_TASKS],
   HeavyPaintDetector: [AdapterCapability.PAINT_EVENTS],
+  InputLatencyDetector: [AdapterCapability.FRAME_TIMING],
+  LayoutShiftDetector: [AdapterCapability.FULL_CDP],
+  GCJankDetector: [AdapterCapability.FULL_CDP],
 };
 
+/**
+ * Events read for the summary itself and the frame timeline: frames, phase
+ * breakdown, CLS, DOM signals and the frame URLs for third-party
+ * attribution. User Timing events are matched by category.
+ */
+const SUMMARY_EVENTS = new Set([
+  'BeginFrame',
+  'DrawFrame',
+  'BeginMainThreadFrame',
+  'UpdateLayoutTree',
+  'RecalculateStyles',
+  'Layout',
+  'Paint',
+  'PaintImage',
+  'CompositeLayers',
+  'UpdateLayer',
+  'GPUTask',
+  'RasterTask',
+  'LayoutShift',
+  'InvalidateLayout',
+  'TracingStartedInBrowser',
+  'FrameCommittedInBrowser',
+]);
+
+/**
+ * Events that each mark the start of one frame, in order of preference.
+ * BeginMainThreadFrame and the other frame events are stages of the same
+ * frame, so only one kind is used for the frame timeline.
+ */
+const FRAME_BOUNDARY_EVENTS = ['BeginFrame', 'DrawFrame'];
+
+/**
+ * Script execution events shown as long tasks in the frame timeline
+ */
+const TIMELINE_TASK_EVENTS = new Set([
+  'FunctionCall',
+  'EvaluateScript',
+  'V8.Execute',
+  'RunMicrotasks',
+  'TimerFire',
+  'EventDispatch',
+  'FireAnimationFrame',
+]);
+
+const LONG_TASK_THRESHOLD_MS = 50;
+
+const USER_TIMING_CATEGORY = 'blink.user_timing';
+
+/**
+ * Events the summary keeps from every chunk, for CLS and frame URLs
+ */
+const RETAINED_SUMMARY_EVENTS = new Set([
+  'LayoutShift',
+  'TracingStartedInBrowser',
+  'FrameCommittedInBrowser',
+]);
+
+/**
+ * Totals of the intervals between frame events. Chunks share the frame
+ * event they are cut at, so the totals of consecutive chunks add up.
+ */
+interface FrameSums {
+  frameEvents: number;
+  intervals: number;
+  totalMs: number;
+  dropped: number;
+}
+
+/**
+ * A detector's session over the trace, until it fails
+ */
+interface DetectorRun {
+  detector: IDetector;
+  session: IDetectorSession;
+  failed: boolean;
+}
+
+/**
+ * State of a raw trace analysis, built up a chunk at a time
+ */
+interface TraceAnalysis {
+  options: AnalyzeOptions;
+  capabilities: AdapterCapability[];
+  frames: FrameSums;
+  /** Unrounded phase totals */
+  phases: PhaseBreakdown;
+  timeline: FrameTimeline;
+  /** End of the last outermost timeline task, per thread */
+  taskEnds: Map<string, number>;
+  summaryEvents: TraceEvent[];
+  /** Paint time per frame tree node, for third-party attribution */
+  paintMsByFrame: Map<string | undefined, number>;
+  segments: SegmentAccumulator<{ frames: FrameSums; phases: PhaseBreakdown }>;
+  runs: DetectorRun[];
+  warnings: AnalysisWarning[];
+}
+
 @Injectable()
 export class AnalyzerService implements IAnalyzerService {
   private readonly logger = new Logger(AnalyzerService.name);
@@ -72,10 +195,59 @@ export class AnalyzerService implements IAnalyzerService {
     trace: TraceData,
     options: AnalyzeOptions,
   ): Promise<AnalysisResult> {
-    const frameBudgetMs = 1000 / options.fpsTarget;
-    const frameMetrics = this.calculateFrameMetrics(trace, options.fpsTarget);
-    const { startTime, endTime } = this.getTraceTimeRange(trace);
+    const timeRange = this.getTraceTimeRange(trace);
+    const analysis = this.startAnalysis(options);
+    this.addChunk(analysis, trace, timeRange);
+    return this.finishAnalysis(analysis, trace.metadata, timeRange);
+  }
+
+  /**
+   * Analyze a trace streamed event by event. Only the events the summary
+   * or a running detector reads are buffered, up to `maxBufferSizeMB`;
+   * whenever the buffer fills, the frames in its older half are analyzed
+   * and dropped, so memory stays bounded however long the trace is.
+   */
+  createStream(options: AnalyzeStreamOptions): ITraceAnalysisStream {
+    const analysis = this.startAnalysis(options);
+    const detectors = analysis.runs.map((run) => run.detector);
+    let eventCount = 0;
+    let startTime = Infinity;
+    let endTime = -Infinity;
+    const timeRange = () =>
+      eventCount > 0 ? { startTime, endTime } : { startTime: 0, endTime: 0 };
+
+    const chunker = new TraceChunker(options.maxBufferSizeMB, (events) =>
+      this.addChunk(
+        analysis,
+        { traceEvents: events } as TraceData,
+        timeRange(),
+      ),
+    );
 
+    return {
+      push: (event, sizeBytes) => {
+        // The time range covers every event, retained or not
+        eventCount++;
+        if (event.ts < startTime) startTime = event.ts;
+        const eventEnd = event.ts + (event.dur ?? 0);
+        if (eventEnd > endTime) endTime = eventEnd;
+
+        if (this.isRetainedForAnalysis(event, detectors)) {
+          chunker.add(event, sizeBytes);
+        }
+      },
+      finish: async (metadata) => {
+        chunker.flush();
+        return this.finishAnalysis(analysis, metadata, timeRange());
+      },
+    };
+  }
+
+  /**
+   * Start a raw trace analysis, with a session for each detector that can
+   * run with the available capabilities
+   */
+  private startAnalysis(options: AnalyzeOptions): TraceAnalysis {
     // Default to full CDP capabilities for raw trace data
     const capabilities = options.adapterCapabilities ?? [
       AdapterCapability.FULL_CDP,
@@ -85,37 +257,229 @@ export class AnalyzerService implements IAnalyzerService {
       AdapterCapability.GPU_EVENTS,
       AdapterCapability.PAINT_EVENTS,
     ];
+    const frameBudgetMs = 1000 / options.fpsTarget;
 
-    const context: DetectionContext = {
-      fpsTarget: options.fpsTarget,
-      frameBudgetMs,
-      frameMetrics,
-      traceStartTime: startTime,
-      traceEndTime: endTime,
+    const runs: DetectorRun[] = [];
+    const warnings: AnalysisWarning[] = [];
+    const skippedDetectors: string[] = [];
+
+    for (const detector of this.detectors) {
+      // Check if detector can run with available capabilities
+      const canRun = this.canDetectorRun(detector, capabilities);
+
+      if (!canRun.allowed) {
+        this.logger.warn(`Skipping ${detector.name}: ${canRun.reason}`);
+        skippedDetectors.push(detector.name);
+        continue;
+      }
+
+      try {
+        runs.push({
+          detector,
+          session: this.startDetectorSession(detector),
+          failed: false,
+        });
+      } catch (error) {
+        this.logDetectorFailure(detector, error);
+      }
+    }
+
+    // Add warning if detectors were skipped
+    if (skippedDetectors.length > 0) {
+      warnings.push(
+        this.createCapabilityWarning(skippedDetectors, capabilities),
+      );
+    }
+
+    return {
+      options,
       capabilities,
-      degradedMode: false,
+      frames: this.sumFrames([], frameBudgetMs),
+      phases: this.sumPhases([]),
+      timeline: { frames: [], longTasks: [], domSignals: [] },
+      taskEnds: new Map(),
+      summaryEvents: [],
+      paintMsByFrame: new Map(),
+      segments: new SegmentAccumulator(
+        (events) => ({
+          frames: this.sumFrames(events, frameBudgetMs),
+          phases: this.sumPhases(events),
+        }),
+        (a, b) => ({
+          frames: this.addFrameSums(a.frames, b.frames),
+          phases: this.addPhases(a.phases, b.phases),
+        }),
+      ),
+      runs,
+      warnings,
     };
+  }
 
-    // Run detectors with capability checking
-    const { detections, warnings } = await this.runDetectors(
-      trace,
-      context,
-      capabilities,
+  /**
+   * Detector session, or one that runs detect() on each chunk for
+   * detectors that cannot read a trace in chunks
+   */
+  private startDetectorSession(detector: IDetector): IDetectorSession {
+    if (detector.createSession) {
+      return detector.createSession();
+    }
+
+    const pending: Array<Promise<Detection[]>> = [];
+    return {
+      consume: (chunk, context) => {
+        const detections = detector.detect(chunk, context);
+        // Rejections are reported when the session finishes
+        detections.catch(() => undefined);
+        pending.push(detections);
+      },
+      finish: async () => (await Promise.all(pending)).flat(),
+    };
+  }
+
+  /**
+   * Add the next chunk of a raw trace to an analysis
+   */
+  private addChunk(
+    analysis: TraceAnalysis,
+    chunk: TraceData,
+    timeRange: { startTime: number; endTime: number },
+  ): void {
+    const { fpsTarget } = analysis.options;
+    const events = chunk.traceEvents;
+
+    analysis.frames = this.addFrameSums(
+      analysis.frames,
+      this.sumFrames(events, 1000 / fpsTarget),
     );
+    analysis.phases = this.addPhases(analysis.phases, this.sumPhases(events));
+    this.addToFrameTimeline(analysis, events);
+    analysis.segments.addChunk(events);
+
+    for (const event of events) {
+      if (RETAINED_SUMMARY_EVENTS.has(event.name)) {
+        analysis.summaryEvents.push(event);
+      } else if (event.name === 'Paint' && event.dur) {
+        const data = event.args?.data as Record<string, unknown> | undefined;
+        const frame = typeof data?.frame === 'string' ? data.frame : undefined;
+        analysis.paintMsByFrame.set(
+          frame,
+          (analysis.paintMsByFrame.get(frame) ?? 0) + event.dur / 1000,
+        );
+      }
+    }
+
+    const context = this.createDetectionContext(analysis, timeRange);
+    for (const run of analysis.runs) {
+      if (run.failed) continue;
+      try {
+        run.session.consume(chunk, context);
+      } catch (error) {
+        run.failed = true;
+        this.logDetectorFailure(run.detector, error);
+      }
+    }
+  }
+
+  /**
+   * Finish the detector sessions and report on the whole trace
+   */
+  private async finishAnalysis(
+    analysis: TraceAnalysis,
+    metadata: TraceMetadata | undefined,
+    timeRange: { startTime: number; endTime: number },
+  ): Promise<AnalysisResult> {
+    const { options, timeline } = analysis;
+    const context = this.createDetectionContext(analysis, timeRange);
+    const { startTime } = timeRange;
+
+    const detections: Detection[] = [];
+    for (const run of analysis.runs) {
+      if (run.failed) continue;
+      try {
+        for (const detection of await run.session.finish(context)) {
+          detections.push(detection);
+        }
+      } catch (error) {
+        this.logDetectorFailure(run.detector, error);
+      }
+    }
 
     // Build hotspots from detections
-    const hotspots = this.buildHotspots(detections);
+    const hotspots = this.buildHotspots(detections, startTime);
 
     // Build summary
-    const summary = this.buildSummary(trace, options, frameMetrics, hotspots);
+    const summary = this.buildSummary(
+      metadata,
+      options,
+      context.frameMetrics,
+      this.roundPhases(analysis.phases),
+      calculateCLS(analysis.summaryEvents),
+      hotspots,
+      timeRange,
+    );
+
+    // Scope frame metrics, phases and detections to User Timing measures
+    const segments = analysis.segments.summarize(
+      startTime,
+      detections,
+      (value) => ({
+        frames: this.toFrameMetrics(value.frames, options.fpsTarget),
+        phases: this.roundPhases(value.phases),
+      }),
+    );
+    if (segments.length > 0) {
+      summary.segments = segments;
+    }
+
+    // Attribute script and frame work to first and third parties
+    const { pageUrl, frameUrls } = extractFrameUrls(analysis.summaryEvents);
+    const firstPartyDomains = this.getFirstPartyDomains(options, pageUrl);
+    this.attributeDetections(detections, firstPartyDomains);
+    const paintWork = [...analysis.paintMsByFrame].map(
+      ([frame, durationMs]) => ({
+        url: frame !== undefined ? frameUrls.get(frame) : undefined,
+        durationMs,
+      }),
+    );
+    summary.third_party = this.buildThirdPartyImpact(
+      timeline,
+      paintWork,
+      firstPartyDomains,
+    );
 
     return {
       summary,
       detections,
-      warnings: warnings.length > 0 ? warnings : undefined,
+      timeline: timeline.frames.length > 0 ? timeline : undefined,
+      warnings: analysis.warnings.length > 0 ? analysis.warnings : undefined,
+    };
+  }
+
+  /**
+   * Detection context for the part of a raw trace analyzed so far
+   */
+  private createDetectionContext(
+    analysis: TraceAnalysis,
+    timeRange: { startTime: number; endTime: number },
+  ): DetectionContext {
+    const { fpsTarget } = analysis.options;
+    return {
+      fpsTarget,
+      frameBudgetMs: 1000 / fpsTarget,
+      frameMetrics: this.toFrameMetrics(analysis.frames, fpsTarget),
+      traceStartTime: timeRange.startTime,
+      traceEndTime: timeRange.endTime,
+      capabilities: analysis.capabilities,
+      degradedMode: false,
     };
   }
 
+  private logDetectorFailure(detector: IDetector, error: unknown): void {
+    this.logger.error(
+      `Detector ${detector.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
   /**
    * Analyze normalized TraceSnapshot (platform-agnostic)
    */
@@ -169,7 +533,7 @@ export class AnalyzerService implements IAnalyzerService {
     );
 
     // Build hotspots from detections
-    const hotspots = this.buildHotspots(detections);
+    const hotspots = this.buildHotspots(detections, startTime);
 
     // Build summary from snapshot
     const summary = this.buildSummaryFromSnapshot(
@@ -179,53 +543,76 @@ export class AnalyzerService implements IAnalyzerService {
       hotspots,
     );
 
-    return {
-      summary,
+    // Scope frame metrics, phases and detections to User Timing measures
+    const userTiming =
+      snapshot.userTiming ?? extractUserTiming(getRawTraceEvents(snapshot));
+    const segments = buildSegmentSummaries(
+      userTiming.measures,
+      startTime,
       detections,
-      warnings: warnings.length > 0 ? warnings : undefined,
-    };
-  }
-
-  /**
-   * Run detectors with capability checking (for raw TraceData)
-   */
-  private async runDetectors(
-    trace: TraceData,
-    context: DetectionContext,
-    capabilities: AdapterCapability[],
-  ): Promise<{ detections: Detection[]; warnings: AnalysisWarning[] }> {
-    const allDetections: Detection[] = [];
-    const warnings: AnalysisWarning[] = [];
-    const skippedDetectors: string[] = [];
-
-    for (const detector of this.detectors) {
-      // Check if detector can run with available capabilities
-      const canRun = this.canDetectorRun(detector, capabilities);
-
-      if (!canRun.allowed) {
-        this.logger.warn(`Skipping ${detector.name}: ${canRun.reason}`);
-        skippedDetectors.push(detector.name);
-        continue;
-      }
-
-      try {
-        const detections = await detector.detect(trace, context);
-        allDetections.push(...detections);
-      } catch (error) {
-        this.logger.error(
-          `Detector ${detector.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      (measure) => {
+        const inMeasure = (start: number, durationMs: number) =>
+          overlapsMeasures(start, start + durationMs * 1000, [measure]);
+        const frameTimings = snapshot.frameTimings.filter((f) =>
+          overlapsMeasures(f.startTime, f.endTime, [measure]),
         );
-      }
+        const metrics = calculateSnapshotFrameMetrics(
+          frameTimings,
+          options.fpsTarget,
+        );
+        return {
+          frames: {
+            total: metrics.totalFrames,
+            dropped: metrics.droppedFrames,
+            avg_fps: metrics.avgFps,
+            frame_budget_ms: frameBudgetMs,
+          },
+          phases: this.calculatePhaseBreakdownFromSnapshot({
+            ...snapshot,
+            frameTimings,
+            gpuEvents: snapshot.gpuEvents.filter((e) =>
+              inMeasure(e.timestamp, e.durationMs),
+            ),
+            paintEvents: snapshot.paintEvents.filter((e) =>
+              inMeasure(e.timestamp, e.paintDurationMs),
+            ),
+          }),
+        };
+      },
+    );
+    if (segments.length > 0) {
+      summary.segments = segments;
     }
 
-    // Add warning if detectors were skipped
-    if (skippedDetectors.length > 0) {
-      warnings.push(
-        this.createCapabilityWarning(skippedDetectors, capabilities),
-      );
-    }
+    // Snapshots carry no frame tree, so paint work cannot be attributed
+    const firstPartyDomains = this.getFirstPartyDomains(
+      options,
+      snapshot.metadata.url,
+    );
+    this.attributeDetections(detections, firstPartyDomains);
+    summary.third_party = this.buildThirdPartyImpact(
+      {
+        frames: snapshot.frameTimings,
+        longTasks: snapshot.longTasks,
+        domSignals: snapshot.domSignals,
+      },
+      [],
+      firstPartyDomains,
+    );
 
-    return { detections: allDetections, warnings };
+    return {
+      summary,
+      detections,
+      timeline:
+        snapshot.frameTimings.length > 0
+          ? {
+              frames: snapshot.frameTimings,
+              longTasks: snapshot.longTasks,
+              domSignals: snapshot.domSignals,
+            }
+          : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
   }
 
   /**
@@ -264,9 +651,7 @@ export class AnalyzerService implements IAnalyzerService {
 
         allDetections.push(...detections);
       } catch (error) {
-        this.logger.error(
-          `Detector ${detector.name} failed: ${error instanceof Error ? error.message : String(error)}`,
-        );
+        this.logDetectorFailure(detector, error);
       }
     }
 
@@ -548,6 +933,7 @@ export class AnalyzerService implements IAnalyzerService {
         timestamp: snapshot.metadata.timestamp,
         scenario: snapshot.metadata.scenario ?? snapshot.name,
         fps_target: snapshot.metadata.fpsTarget,
+        adapter: snapshot.metadata.adapterType,
       },
     };
   }
@@ -592,10 +978,58 @@ export class AnalyzerService implements IAnalyzerService {
    * Calculate frame metrics from trace data
    */
   calculateFrameMetrics(trace: TraceData, fpsTarget: number): FrameMetrics {
+    return this.toFrameMetrics(
+      this.sumFrames(trace.traceEvents, 1000 / fpsTarget),
+      fpsTarget,
+    );
+  }
+
+  /**
+   * Totals of the intervals between consecutive frame events
+   */
+  private sumFrames(events: TraceEvent[], frameBudgetMs: number): FrameSums {
+    const sums: FrameSums = {
+      frameEvents: 0,
+      intervals: 0,
+      totalMs: 0,
+      dropped: 0,
+    };
+    let prevTs: number | undefined;
+
+    for (const event of events) {
+      if (
+        event.name !== 'BeginFrame' &&
+        event.name !== 'DrawFrame' &&
+        event.name !== 'BeginMainThreadFrame'
+      ) {
+        continue;
+      }
+      sums.frameEvents++;
+      if (prevTs !== undefined) {
+        const durationMs = (event.ts - prevTs) / 1000;
+        sums.intervals++;
+        sums.totalMs += durationMs;
+        if (durationMs > frameBudgetMs) sums.dropped++;
+      }
+      prevTs = event.ts;
+    }
+
+    return sums;
+  }
+
+  private addFrameSums(a: FrameSums, b: FrameSums): FrameSums {
+    return {
+      frameEvents: a.frameEvents + b.frameEvents,
+      intervals: a.intervals + b.intervals,
+      totalMs: a.totalMs + b.totalMs,
+      dropped: a.dropped + b.dropped,
+    };
+  }
+
+  private toFrameMetrics(sums: FrameSums, fpsTarget: number): FrameMetrics {
     const frameBudgetMs = 1000 / fpsTarget;
-    const frames = this.extractFrames(trace);
 
-    if (frames.length === 0) {
+    if (sums.frameEvents === 0) {
       return {
         total: 0,
         dropped: 0,
@@ -604,30 +1038,13 @@ export class AnalyzerService implements IAnalyzerService {
       };
     }
 
-    // Calculate frame durations
-    const frameDurations: number[] = [];
-    for (let i = 1; i < frames.length; i++) {
-      const current = frames[i];
-      const prev = frames[i - 1];
-      if (current && prev) {
-        const durationMs = (current.ts - prev.ts) / 1000;
-        frameDurations.push(durationMs);
-      }
-    }
-
-    const totalFrames = Math.max(frameDurations.length, 1);
-    const droppedFrames = frameDurations.filter(
-      (d) => d > frameBudgetMs,
-    ).length;
     const avgFrameTime =
-      frameDurations.length > 0
-        ? frameDurations.reduce((a, b) => a + b, 0) / frameDurations.length
-        : frameBudgetMs;
+      sums.intervals > 0 ? sums.totalMs / sums.intervals : frameBudgetMs;
     const avgFps = avgFrameTime > 0 ? 1000 / avgFrameTime : fpsTarget;
 
     return {
-      total: totalFrames,
-      dropped: droppedFrames,
+      total: Math.max(sums.intervals, 1),
+      dropped: sums.dropped,
       avg_fps: Math.round(avgFps * 10) / 10,
       frame_budget_ms: frameBudgetMs,
     };
@@ -653,6 +1070,322 @@ export class AnalyzerService implements IAnalyzerService {
     }));
   }
 
+  /**
+   * Start times of frames: the BeginFrame events, or the DrawFrame events
+   * when the trace has none, of the thread that emitted the most of them
+   */
+  private getFrameStarts(events: TraceEvent[]): number[] {
+    for (const name of FRAME_BOUNDARY_EVENTS) {
+      const byThread = new Map<string, number[]>();
+      for (const event of events) {
+        if (event.name !== name) continue;
+        const thread = `${event.pid}:${event.tid}`;
+        const starts = byThread.get(thread) ?? [];
+        starts.push(event.ts);
+        byThread.set(thread, starts);
+      }
+
+      let starts: number[] = [];
+      for (const threadStarts of byThread.values()) {
+        if (threadStarts.length > starts.length) starts = threadStarts;
+      }
+      if (starts.length > 0) {
+        return starts.sort((a, b) => a - b);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Add the chunk's frames, as intervals between consecutive frame starts
+   * each with its phase breakdown, its outermost long tasks and its DOM
+   * signals to the analysis timeline
+   */
+  private addToFrameTimeline(
+    analysis: TraceAnalysis,
+    events: TraceEvent[],
+  ): void {
+    const { timeline, taskEnds } = analysis;
+    const frameBudgetMs = 1000 / analysis.options.fpsTarget;
+    const starts = this.getFrameStarts(events);
+
+    // Phase events grouped by the frame they start in
+    const phaseEvents: TraceEvent[][] = starts.slice(1).map(() => []);
+    const taskEvents: TraceEvent[] = [];
+
+    for (const event of events) {
+      if (this.isTimelineLongTask(event)) {
+        taskEvents.push(event);
+        continue;
+      }
+      if (event.dur && SUMMARY_EVENTS.has(event.name)) {
+        phaseEvents[this.findFrameIndex(starts, event.ts)]?.push(event);
+      }
+      const signal = this.toDOMSignal(event);
+      if (signal) {
+        timeline.domSignals.push(signal);
+      }
+    }
+
+    phaseEvents.forEach((frameEvents, i) => {
+      const phases = this.roundPhases(this.sumPhases(frameEvents));
+      const durationMs = (starts[i + 1]! - starts[i]!) / 1000;
+      timeline.frames.push({
+        frameId: timeline.frames.length,
+        startTime: starts[i]!,
+        endTime: starts[i + 1]!,
+        durationMs,
+        dropped: durationMs > frameBudgetMs,
+        styleRecalcMs: phases.style_recalc_ms,
+        layoutMs: phases.layout_ms,
+        paintMs: phases.paint_ms,
+        compositeMs: phases.composite_ms,
+        gpuMs: phases.gpu_ms,
+      });
+    });
+
+    // Nested script events (a handler inside its dispatch) are one task
+    taskEvents.sort((a, b) => a.ts - b.ts || (b.dur ?? 0) - (a.dur ?? 0));
+    for (const event of taskEvents) {
+      const thread = `${event.pid}:${event.tid}`;
+      if (event.ts < (taskEnds.get(thread) ?? -Infinity)) continue;
+      taskEnds.set(thread, event.ts + event.dur!);
+
+      const data = event.args?.data as Record<string, unknown> | undefined;
+      timeline.longTasks.push({
+        startTime: event.ts,
+        durationMs: event.dur! / 1000,
+        functionName:
+          typeof data?.functionName === 'string' && data.functionName
+            ? data.functionName
+            : event.name,
+        file: typeof data?.url === 'string' ? data.url : undefined,
+        line:
+          typeof data?.lineNumber === 'number' ? data.lineNumber : undefined,
+        column:
+          typeof data?.columnNumber === 'number'
+            ? data.columnNumber
+            : undefined,
+      });
+    }
+  }
+
+  /**
+   * Configured first-party domains plus the traced page's domain
+   */
+  private getFirstPartyDomains(
+    options: AnalyzeOptions,
+    pageUrl: string | undefined,
+  ): string[] {
+    const domains = [...(options.firstPartyDomains ?? [])];
+    const pageDomain = pageUrl ? firstPartyDomainOf(pageUrl) : undefined;
+    if (pageDomain) {
+      domains.push(pageDomain);
+    }
+    return domains;
+  }
+
+  /**
+   * Record who owns the script each detection points at
+   */
+  private attributeDetections(
+    detections: Detection[],
+    firstPartyDomains: string[],
+  ): void {
+    for (const detection of detections) {
+      const attribution = classifyScriptUrl(
+        detection.location.file,
+        firstPartyDomains,
+      );
+      if (attribution) {
+        detection.attribution = attribution;
+      }
+    }
+  }
+
+  /**
+   * Group long tasks, layouts forced by script and frame paint work by the
+   * third-party entity that owns the script or frame, costliest first
+   */
+  private buildThirdPartyImpact(
+    timeline: FrameTimeline,
+    paintWork: { url?: string; durationMs: number }[],
+    firstPartyDomains: string[],
+  ): ThirdPartyImpact[] {
+    const groups = new Map<
+      string,
+      { impact: ThirdPartyImpact; scripts: Map<string, number> }
+    >();
+
+    const add = (
+      url: string | undefined,
+      durationMs: number,
+      kind: 'long_task' | 'forced_reflow' | 'paint',
+    ): void => {
+      const attribution = classifyScriptUrl(url, firstPartyDomains);
+      if (!url || !attribution || attribution.firstParty) return;
+
+      const entity = attribution.entity ?? attribution.origin;
+      let group = groups.get(entity);
+      if (!group) {
+        group = {
+          impact: {
+            entity,
+            category: attribution.category,
+            scripts: [],
+            long_task_ms: 0,
+            long_tasks: 0,
+            layout_thrash_ms: 0,
+            forced_reflows: 0,
+            paint_ms: 0,
+            total_ms: 0,
+          },
+          scripts: new Map(),
+        };
+        groups.set(entity, group);
+      }
+
+      const { impact } = group;
+      if (kind === 'long_task') {
+        impact.long_task_ms += durationMs;
+        impact.long_tasks++;
+      } else if (kind === 'forced_reflow') {
+        impact.layout_thrash_ms += durationMs;
+        impact.forced_reflows++;
+      } else {
+        impact.paint_ms += durationMs;
+      }
+      impact.total_ms += durationMs;
+
+      const script = url.split(/[?#]/)[0]!;
+      group.scripts.set(script, (group.scripts.get(script) ?? 0) + durationMs);
+    };
+
+    for (const task of timeline.longTasks) {
+      add(task.file, task.durationMs, 'long_task');
+    }
+    for (const signal of timeline.domSignals) {
+      if (signal.type === 'forced_reflow') {
+        add(
+          signal.stackTrace?.[0]?.file,
+          signal.durationMs ?? 0,
+          'forced_reflow',
+        );
+      }
+    }
+    for (const paint of paintWork) {
+      add(paint.url, paint.durationMs, 'paint');
+    }
+
+    const round = (ms: number): number => Math.round(ms * 100) / 100;
+    return [...groups.values()]
+      .map(({ impact, scripts }) => ({
+        ...impact,
+        scripts: [...scripts]
+          .sort((a, b) => b[1] - a[1])
+          .map(([url, ms]) => ({ url, total_ms: round(ms) })),
+        long_task_ms: round(impact.long_task_ms),
+        layout_thrash_ms: round(impact.layout_thrash_ms),
+        paint_ms: round(impact.paint_ms),
+        total_ms: round(impact.total_ms),
+      }))
+      .sort((a, b) => b.total_ms - a.total_ms);
+  }
+
+  /**
+   * Whether an event is script execution long enough to show as a long task
+   */
+  private isTimelineLongTask(event: TraceEvent): boolean {
+    return (
+      TIMELINE_TASK_EVENTS.has(event.name) &&
+      (event.dur ?? 0) >= LONG_TASK_THRESHOLD_MS * 1000
+    );
+  }
+
+  /**
+   * DOM signal for style recalculations, layout invalidations and layouts
+   * forced by script, or undefined for other events
+   */
+  private toDOMSignal(event: TraceEvent): DOMSignal | undefined {
+    const beginData = event.args?.beginData as
+      | Record<string, unknown>
+      | undefined;
+    const stackTrace = Array.isArray(beginData?.stackTrace)
+      ? (beginData.stackTrace as Array<Record<string, unknown>>).map(
+          (frame): StackFrameInfo => ({
+            functionName:
+              typeof frame.functionName === 'string' && frame.functionName
+                ? frame.functionName
+                : 'anonymous',
+            file: typeof frame.url === 'string' ? frame.url : '',
+            line: typeof frame.lineNumber === 'number' ? frame.lineNumber : 0,
+            column:
+              typeof frame.columnNumber === 'number' ? frame.columnNumber : 0,
+          }),
+        )
+      : undefined;
+
+    let type: DOMSignal['type'];
+    if (event.name === 'Layout' && stackTrace && stackTrace.length > 0) {
+      type = 'forced_reflow';
+    } else if (
+      event.name === 'UpdateLayoutTree' ||
+      event.name === 'RecalculateStyles'
+    ) {
+      type = 'style_recalc';
+    } else if (event.name === 'InvalidateLayout') {
+      type = 'layout_invalidation';
+    } else {
+      return undefined;
+    }
+
+    const affectedNodes = beginData?.elementCount ?? beginData?.dirtyObjects;
+    return {
+      type,
+      timestamp: event.ts,
+      durationMs: event.dur ? event.dur / 1000 : undefined,
+      affectedNodes:
+        typeof affectedNodes === 'number' ? affectedNodes : undefined,
+      stackTrace,
+    };
+  }
+
+  /**
+   * Index of the frame interval containing a timestamp, or -1
+   */
+  private findFrameIndex(starts: number[], ts: number): number {
+    let low = 0;
+    let high = starts.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (starts[mid]! <= ts) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low - 1 < starts.length - 1 ? low - 1 : -1;
+  }
+
+  /**
+   * Whether a streamed event is read by the summary or by a detector
+   */
+  private isRetainedForAnalysis(
+    event: TraceEvent,
+    detectors: IDetector[],
+  ): boolean {
+    if (
+      SUMMARY_EVENTS.has(event.name) ||
+      event.cat?.split(',').includes(USER_TIMING_CATEGORY) ||
+      this.isTimelineLongTask(event)
+    ) {
+      return true;
+    }
+    return detectors.some(
+      (detector) => !detector.acceptsEvent || detector.acceptsEvent(event),
+    );
+  }
+
   /**
    * Get trace time range
    */
@@ -679,7 +1412,10 @@ export class AnalyzerService implements IAnalyzerService {
   /**
    * Build hotspots from detections
    */
-  private buildHotspots(detections: Detection[]): Hotspots {
+  private buildHotspots(
+    detections: Detection[],
+    traceStartTime: number,
+  ): Hotspots {
     const layoutThrashing = detections
       .filter((d): d is LayoutThrashDetection => d.type === 'layout_thrashing')
       .map((d) => ({
@@ -707,10 +1443,41 @@ export class AnalyzerService implements IAnalyzerService {
         occurrences: d.occurrences,
       }));
 
+    const layoutShifts = detections
+      .filter((d): d is LayoutShiftDetection => d.type === 'layout_shift')
+      .map((d) => ({
+        start_ms: (d.windowStart - traceStartTime) / 1000,
+        score: d.windowScore,
+        shift_count: d.shifts.length,
+        nodes: [
+          ...new Set(
+            d.shifts
+              .flatMap((s) => s.movedNodes)
+              .sort((a, b) => b.distancePx - a.distancePx)
+              .map((n) => n.node),
+          ),
+        ],
+        causes: [...new Set(d.shifts.map((s) => s.cause))],
+      }));
+
+    const gcPauses = detections
+      .filter((d): d is GCJankDetection => d.type === 'gc_jank')
+      .map((d) => ({
+        function: d.functionName,
+        file: d.file,
+        line: d.line,
+        gc_ms: d.gcMs,
+        pauses: d.pauses,
+        jank_frames: d.jankFrames,
+        allocated_mb_per_frame: d.allocatedMbPerFrame,
+      }));
+
     return {
       layout_thrashing: layoutThrashing,
       gpu_stalls: gpuStalls,
       long_tasks: longTasks,
+      layout_shifts: layoutShifts,
+      gc_pauses: gcPauses,
     };
   }
 
@@ -718,25 +1485,28 @@ export class AnalyzerService implements IAnalyzerService {
    * Build trace summary from raw TraceData
    */
   private buildSummary(
-    trace: TraceData,
+    metadata: TraceMetadata | undefined,
     options: AnalyzeOptions,
     frameMetrics: FrameMetrics,
+    phaseBreakdown: PhaseBreakdown,
+    cls: number | undefined,
     hotspots: Hotspots,
+    timeRange: { startTime: number; endTime: number },
   ): TraceSummary {
-    const phaseBreakdown = this.calculatePhaseBreakdown(trace);
-    const { startTime, endTime } = this.getTraceTimeRange(trace);
+    const { startTime, endTime } = timeRange;
     const durationMs = (endTime - startTime) / 1000;
 
     return {
       id: this.generateUniqueId(),
       name: options.name,
-      url: trace.metadata?.user_agent ?? 'unknown',
+      url: metadata?.user_agent ?? 'unknown',
       duration_ms: durationMs,
       frames: frameMetrics,
       phase_breakdown: phaseBreakdown,
       hotspots,
+      cls,
       suggestions: [],
-      metadata: trace.metadata ?? {
+      metadata: metadata ?? {
         browser_version: 'unknown',
         user_agent: 'unknown',
         viewport: { width: 0, height: 0 },
@@ -767,6 +1537,7 @@ export class AnalyzerService implements IAnalyzerService {
       frames: frameMetrics,
       phase_breakdown: phaseBreakdown,
       hotspots,
+      cls: calculateCLS(getRawTraceEvents(snapshot)),
       suggestions: [],
       metadata: {
         browser_version: snapshot.metadata.browserVersion ?? 'unknown',
@@ -776,54 +1547,69 @@ export class AnalyzerService implements IAnalyzerService {
         timestamp: snapshot.metadata.timestamp,
         scenario: snapshot.metadata.scenario ?? options.name,
         fps_target: options.fpsTarget,
+        adapter: snapshot.metadata.adapterType,
       },
     };
   }
 
   /**
-   * Calculate phase breakdown from trace data
+   * Unrounded phase totals of trace events
    */
-  private calculatePhaseBreakdown(
-    trace: TraceData,
-  ): TraceSummary['phase_breakdown'] {
-    let styleRecalcMs = 0;
-    let layoutMs = 0;
-    let paintMs = 0;
-    let compositeMs = 0;
-    let gpuMs = 0;
+  private sumPhases(events: TraceEvent[]): PhaseBreakdown {
+    const phases: PhaseBreakdown = {
+      style_recalc_ms: 0,
+      layout_ms: 0,
+      paint_ms: 0,
+      composite_ms: 0,
+      gpu_ms: 0,
+    };
 
-    for (const event of trace.traceEvents) {
+    for (const event of events) {
       const durationMs = (event.dur ?? 0) / 1000;
 
       switch (event.name) {
         case 'UpdateLayoutTree':
         case 'RecalculateStyles':
-          styleRecalcMs += durationMs;
+          phases.style_recalc_ms += durationMs;
           break;
         case 'Layout':
-          layoutMs += durationMs;
+          phases.layout_ms += durationMs;
           break;
         case 'Paint':
         case 'PaintImage':
-          paintMs += durationMs;
+          phases.paint_ms += durationMs;
           break;
         case 'CompositeLayers':
         case 'UpdateLayer':
-          compositeMs += durationMs;
+          phases.composite_ms += durationMs;
           break;
         case 'GPUTask':
         case 'RasterTask':
-          gpuMs += durationMs;
+          phases.gpu_ms += durationMs;
           break;
       }
     }
 
+    return phases;
+  }
+
+  private addPhases(a: PhaseBreakdown, b: PhaseBreakdown): PhaseBreakdown {
     return {
-      style_recalc_ms: Math.round(styleRecalcMs * 100) / 100,
-      layout_ms: Math.round(layoutMs * 100) / 100,
-      paint_ms: Math.round(paintMs * 100) / 100,
-      composite_ms: Math.round(compositeMs * 100) / 100,
-      gpu_ms: Math.round(gpuMs * 100) / 100,
+      style_recalc_ms: a.style_recalc_ms + b.style_recalc_ms,
+      layout_ms: a.layout_ms + b.layout_ms,
+      paint_ms: a.paint_ms + b.paint_ms,
+      composite_ms: a.composite_ms + b.composite_ms,
+      gpu_ms: a.gpu_ms + b.gpu_ms,
+    };
+  }
+
+  private roundPhases(phases: PhaseBreakdown): PhaseBreakdown {
+    return {
+      style_recalc_ms: Math.round(phases.style_recalc_ms * 100) / 100,
+      layout_ms: Math.round(phases.layout_ms * 100) / 100,
+      paint_ms: Math.round(phases.paint_ms * 100) / 100,
+      composite_ms: Math.round(phases.composite_ms * 100) / 100,
+      gpu_ms: Math.round(phases.gpu_ms * 100) / 100,
     };
   }
 
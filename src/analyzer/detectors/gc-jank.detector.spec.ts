@@ -0,0 +1,155 @@
+/**
+ * Unit tests for GCJankDetector
+ */
+
+import { GCJankDetector } from './gc-jank.detector.js';
+import { ScoringService } from '../scoring/scoring.service.js';
+import type { DetectionContext } from '../interfaces/index.js';
+import type {
+  GCJankDetection,
+  TraceData,
+  TraceEvent,
+} from '../../shared/types/index.js';
+
+const MB = 1024 * 1024;
+
+function event(
+  name: string,
+  ts: number,
+  extra: Partial<TraceEvent> = {},
+): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    ph: 'X',
+    cat: 'devtools.timeline',
+    name,
+    ...extra,
+  };
+}
+
+function gc(
+  name: string,
+  ts: number,
+  dur: number,
+  beforeMb: number,
+  afterMb: number,
+): TraceEvent {
+  return event(name, ts, {
+    dur,
+    args: {
+      usedHeapSizeBefore: beforeMb * MB,
+      usedHeapSizeAfter: afterMb * MB,
+    },
+  });
+}
+
+function heap(ts: number, mb: number): TraceEvent {
+  return event('UpdateCounters', ts, {
+    ph: 'I',
+    args: { data: { jsHeapSizeUsed: mb * MB } },
+  });
+}
+
+function trace(traceEvents: TraceEvent[]): TraceData {
+  return {
+    traceEvents,
+    metadata: {
+      browser_version: 'test',
+      user_agent: 'test',
+      viewport: { width: 1280, height: 720 },
+      device_pixel_ratio: 1,
+      timestamp: '2024-01-01T00:00:00Z',
+      scenario: 'animation',
+      fps_target: 60,
+    },
+  };
+}
+
+describe('GCJankDetector', () => {
+  const detector = new GCJankDetector(new ScoringService());
+
+  const context: DetectionContext = {
+    fpsTarget: 60,
+    frameBudgetMs: 16.67,
+    frameMetrics: {
+      total: 3,
+      dropped: 1,
+      avg_fps: 45,
+      frame_budget_ms: 16.67,
+    },
+    traceStartTime: 0,
+    traceEndTime: 66_000,
+  };
+
+  it('should attribute GC pauses in a dropped frame to the allocating function', async () => {
+    const detections = (await detector.detect(
+      trace([
+        event('BeginFrame', 0, { ph: 'I' }),
+        event('BeginFrame', 16_000, { ph: 'I' }),
+        event('BeginFrame', 50_000, { ph: 'I' }),
+        event('BeginFrame', 66_000, { ph: 'I' }),
+        event('FunctionCall', 16_000, {
+          dur: 30_000,
+          args: {
+            data: {
+              functionName: 'spawnParticles',
+              url: 'https://example.com/particles.js',
+              lineNumber: 42,
+              columnNumber: 7,
+            },
+          },
+        }),
+        heap(10_000, 5),
+        // The scavenger phase is part of the MinorGC pause, not a second one
+        gc('MinorGC', 20_000, 4_000, 8, 6),
+        event('V8.GCScavenger', 20_500, { dur: 3_000 }),
+        gc('MajorGC', 30_000, 6_000, 10, 7),
+        heap(45_000, 8),
+        // Idle-time collection in a frame within budget
+        gc('MinorGC', 55_000, 1_000, 9, 8.5),
+      ]),
+      context,
+    )) as GCJankDetection[];
+
+    expect(detections).toHaveLength(1);
+    const [detection] = detections;
+    expect(detection).toMatchObject({
+      type: 'gc_jank',
+      functionName: 'spawnParticles',
+      file: 'https://example.com/particles.js',
+      line: 42,
+      gcMs: 10,
+      majorGcMs: 6,
+      minorGcMs: 4,
+      pauses: 2,
+      jankFrames: 1,
+      churnFrames: 1,
+      heapGrowthMb: 3,
+    });
+    // 3MB of heap growth plus the 5MB the two collections reclaimed
+    expect(detection!.allocatedMbPerFrame).toBeCloseTo(8);
+    expect(detection!.evidence.map((e) => e.name)).toEqual([
+      'MajorGC',
+      'MinorGC',
+    ]);
+  });
+
+  it('should not report collections that fit in the frame budget', async () => {
+    const detections = await detector.detect(
+      trace([
+        event('BeginFrame', 0, { ph: 'I' }),
+        event('BeginFrame', 16_000, { ph: 'I' }),
+        event('BeginFrame', 32_000, { ph: 'I' }),
+        event('FunctionCall', 2_000, { dur: 8_000 }),
+        gc('MinorGC', 4_000, 1_500, 6, 5.8),
+        heap(1_000, 5),
+        heap(15_000, 5.1),
+      ]),
+      context,
+    );
+
+    expect(detections).toHaveLength(0);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * GC Jank Detector
+ * Isolates garbage collection pauses inside frames and correlates them with
+ * JS heap growth from UpdateCounters events
+ *
+ * Each pause is attributed to the JavaScript running when the collector
+ * kicked in, which is usually the code doing the allocating. Allocation per
+ * frame is estimated from the heap size samples plus the memory each
+ * collection reclaimed, so churn is visible even when the heap stays flat.
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import type {
+  TraceData,
+  TraceEvent,
+  Detection,
+  GCJankDetection,
+  StackFrame,
+} from '../../shared/types/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+} from '../interfaces/index.js';
+import { AdapterCapability } from '../../adapters/interfaces/index.js';
+import { ScoringService, type ScoringInput } from '../scoring/index.js';
+
+// GC pause time within a dropped frame that makes the frame GC jank
+const JANK_FRAME_GC_THRESHOLD_MS = 2;
+
+// JS heap allocated within a single frame that counts as churn
+const CHURN_THRESHOLD_MB_PER_FRAME = 1;
+
+// Longest pauses kept as evidence per detection
+const MAX_EVIDENCE_EVENTS = 5;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Collector events and the generation they collect. Nested phases (such as
+// V8.GCScavenger inside MinorGC) are only counted through their outer event.
+const GC_EVENTS = new Map<string, 'major' | 'minor'>([
+  ['MajorGC', 'major'],
+  ['V8.GCFinalizeMC', 'major'],
+  ['MinorGC', 'minor'],
+  ['V8.GCScavenger', 'minor'],
+]);
+
+// JavaScript execution events that pauses are attributed to
+const JS_EXECUTION_EVENTS = new Set([
+  'FunctionCall',
+  'EvaluateScript',
+  'V8.Execute',
+  'RunMicrotasks',
+  'TimerFire',
+  'EventDispatch',
+  'FireAnimationFrame',
+  'XHRReadyStateChange',
+]);
+
+// Frame boundaries, matching the analyzer's frame metrics
+const FRAME_EVENTS = new Set([
+  'BeginFrame',
+  'DrawFrame',
+  'BeginMainThreadFrame',
+]);
+
+// Renderer counters carrying the JS heap size
+const COUNTER_EVENT = 'UpdateCounters';
+
+interface CallInfo {
+  functionName: string;
+  file: string;
+  line: number;
+  column: number;
+  callStack: StackFrame[];
+}
+
+interface GCPause {
+  event: TraceEvent;
+  kind: 'major' | 'minor';
+  durationMs: number;
+  /** Bytes freed by the collection, when the trace records heap sizes */
+  reclaimedBytes: number;
+  /** Innermost JavaScript running on the same thread */
+  caller: CallInfo;
+  /** Index of the frame interval containing the pause, or -1 */
+  frame: number;
+}
+
+/**
+ * Frames, pauses and heap samples read so far
+ */
+interface GCState {
+  frameStarts: number[];
+  /** Frame event a chunk was cut at, which the next chunk repeats */
+  lastFrameEvent?: TraceEvent;
+  pauses: GCPause[];
+  /** End of the current outer collection on each thread */
+  openUntil: Map<string, number>;
+  /** JS events still running at the end of the last chunk */
+  runningJs: TraceEvent[];
+  heapSamples: Array<{ ts: number; bytes: number }>;
+}
+
+interface FrameStats {
+  durationMs: number;
+  gcMs: number;
+  /** Bytes allocated during the frame, when the trace has heap samples */
+  allocatedBytes?: number;
+}
+
+interface GCPattern {
+  caller: CallInfo;
+  pauses: GCPause[];
+  gcMs: number;
+  majorGcMs: number;
+  minorGcMs: number;
+  frames: Set<number>;
+}
+
+@Injectable()
+export class GCJankDetector implements IDetector {
+  readonly name = 'GCJankDetector';
+  readonly priority = 3;
+  /** Collector events are only recorded with full CDP tracing */
+  readonly requiredCapabilities = [AdapterCapability.FULL_CDP];
+
+  constructor(private readonly scoringService: ScoringService) {}
+
+  /**
+   * Collector events, heap counters, frames and the JS they interrupt
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return (
+      GC_EVENTS.has(event.name) ||
+      JS_EXECUTION_EVENTS.has(event.name) ||
+      FRAME_EVENTS.has(event.name) ||
+      event.name === COUNTER_EVENT
+    );
+  }
+
+  /**
+   * Detect garbage collection jank in trace data
+   */
+  detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
+
+  /**
+   * Collect frames, pauses with their callers and heap samples as chunks
+   * are read, and place the pauses in frames once the whole trace was read
+   */
+  createSession(): IDetectorSession {
+    const state: GCState = {
+      frameStarts: [],
+      pauses: [],
+      openUntil: new Map(),
+      runningJs: [],
+      heapSamples: [],
+    };
+
+    return {
+      consume: (chunk) => this.collect(state, chunk.traceEvents),
+      finish: (context) => Promise.resolve(this.detectInState(state, context)),
+    };
+  }
+
+  /**
+   * Collect the frames, pauses and heap samples among the next events
+   */
+  private collect(state: GCState, events: TraceEvent[]): void {
+    let lastFrameEvent: TraceEvent | undefined;
+    for (const event of events) {
+      if (!FRAME_EVENTS.has(event.name)) continue;
+      if (event !== state.lastFrameEvent) {
+        state.frameStarts.push(event.ts);
+      }
+      lastFrameEvent = event;
+    }
+    state.lastFrameEvent = lastFrameEvent;
+
+    for (const pause of this.extractPauses(state, events)) {
+      state.pauses.push(pause);
+    }
+    for (const sample of this.extractHeapSamples(events)) {
+      state.heapSamples.push(sample);
+    }
+  }
+
+  /**
+   * Detect garbage collection jank in everything collected
+   */
+  private detectInState(
+    state: GCState,
+    context: DetectionContext,
+  ): GCJankDetection[] {
+    const { pauses } = state;
+    if (pauses.length === 0) {
+      return [];
+    }
+
+    const frameStarts = [...state.frameStarts].sort((a, b) => a - b);
+    for (const pause of pauses) {
+      const frame = this.upperBound(frameStarts, pause.event.ts) - 1;
+      pause.frame = frame < frameStarts.length - 1 ? frame : -1;
+    }
+
+    const heapSamples = [...state.heapSamples].sort((a, b) => a.ts - b.ts);
+    const frames = this.buildFrameStats(frameStarts, pauses, heapSamples);
+    const patterns = this.groupByCaller(pauses);
+
+    const first = heapSamples[0];
+    const last = heapSamples[heapSamples.length - 1];
+    const heapGrowthMb =
+      first && last && last !== first
+        ? (last.bytes - first.bytes) / BYTES_PER_MB
+        : undefined;
+
+    const detections: GCJankDetection[] = [];
+    for (const pattern of patterns) {
+      const detection = this.createDetection(
+        pattern,
+        frames,
+        heapGrowthMb,
+        context,
+      );
+      if (detection.jankFrames > 0 || detection.churnFrames > 0) {
+        detections.push(detection);
+      }
+    }
+
+    return detections;
+  }
+
+  /**
+   * Outermost collector events among the next events, each with the
+   * JavaScript it interrupted
+   */
+  private extractPauses(state: GCState, events: TraceEvent[]): GCPause[] {
+    const gcEvents = events
+      .filter((e) => GC_EVENTS.has(e.name) && (e.dur ?? 0) > 0)
+      .sort((a, b) => a.ts - b.ts || (b.dur ?? 0) - (a.dur ?? 0));
+
+    // JS events of earlier chunks that were still running can be callers
+    const jsEvents = [
+      ...state.runningJs,
+      ...events.filter((e) => JS_EXECUTION_EVENTS.has(e.name)),
+    ].sort((a, b) => a.ts - b.ts);
+    const jsStarts = jsEvents.map((e) => e.ts);
+    const longestJsUs = jsEvents.reduce(
+      (max, e) => Math.max(max, e.dur ?? 0),
+      0,
+    );
+
+    const pauses: GCPause[] = [];
+
+    for (const event of gcEvents) {
+      const thread = `${event.pid}:${event.tid}`;
+      if (event.ts < (state.openUntil.get(thread) ?? -Infinity)) continue;
+      state.openUntil.set(thread, event.ts + event.dur!);
+
+      const before = event.args?.usedHeapSizeBefore;
+      const after = event.args?.usedHeapSizeAfter;
+      const caller = this.findCaller(event, jsEvents, jsStarts, longestJsUs);
+
+      pauses.push({
+        event,
+        kind: GC_EVENTS.get(event.name)!,
+        durationMs: event.dur! / 1000,
+        reclaimedBytes:
+          typeof before === 'number' && typeof after === 'number'
+            ? Math.max(before - after, 0)
+            : 0,
+        caller: caller
+          ? this.extractCallInfo(caller)
+          : {
+              functionName: '(no script)',
+              file: 'unknown',
+              line: 0,
+              column: 0,
+              callStack: [],
+            },
+        frame: -1,
+      });
+    }
+
+    const chunkEnd = events.reduce((max, e) => Math.max(max, e.ts), -Infinity);
+    state.runningJs = jsEvents.filter((e) => e.ts + (e.dur ?? 0) > chunkEnd);
+
+    return pauses;
+  }
+
+  /**
+   * JS heap size samples from the renderer counters, in time order
+   */
+  private extractHeapSamples(
+    events: TraceEvent[],
+  ): Array<{ ts: number; bytes: number }> {
+    const samples: Array<{ ts: number; bytes: number }> = [];
+
+    for (const event of events) {
+      if (event.name !== COUNTER_EVENT) continue;
+      const data = event.args?.data as Record<string, unknown> | undefined;
+      if (typeof data?.jsHeapSizeUsed === 'number') {
+        samples.push({ ts: event.ts, bytes: data.jsHeapSizeUsed });
+      }
+    }
+
+    return samples.sort((a, b) => a.ts - b.ts);
+  }
+
+  /**
+   * GC time and allocation for each frame interval
+   */
+  private buildFrameStats(
+    frameStarts: number[],
+    pauses: GCPause[],
+    heapSamples: Array<{ ts: number; bytes: number }>,
+  ): FrameStats[] {
+    const frames: FrameStats[] = [];
+    for (let i = 1; i < frameStarts.length; i++) {
+      frames.push({
+        durationMs: (frameStarts[i]! - frameStarts[i - 1]!) / 1000,
+        gcMs: 0,
+      });
+    }
+
+    if (heapSamples.length > 1) {
+      // Heap growth between consecutive samples is charged to the frame of
+      // the later sample; collections in between hide part of it
+      for (let i = 1; i < heapSamples.length; i++) {
+        const sample = heapSamples[i]!;
+        const frame = frames[this.upperBound(frameStarts, sample.ts) - 1];
+        if (frame) {
+          frame.allocatedBytes =
+            (frame.allocatedBytes ?? 0) +
+            sample.bytes -
+            heapSamples[i - 1]!.bytes;
+        }
+      }
+    }
+
+    for (const pause of pauses) {
+      const frame = frames[pause.frame];
+      if (!frame) continue;
+      frame.gcMs += pause.durationMs;
+      if (frame.allocatedBytes !== undefined) {
+        frame.allocatedBytes += pause.reclaimedBytes;
+      }
+    }
+
+    for (const frame of frames) {
+      if (frame.allocatedBytes !== undefined) {
+        frame.allocatedBytes = Math.max(frame.allocatedBytes, 0);
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * Group pauses by the innermost JavaScript running on the same thread
+   */
+  private groupByCaller(pauses: GCPause[]): GCPattern[] {
+    const patterns = new Map<string, GCPattern>();
+
+    for (const pause of pauses) {
+      const info = pause.caller;
+      const key = `${info.functionName}:${info.file}:${info.line}`;
+
+      let pattern = patterns.get(key);
+      if (!pattern) {
+        pattern = {
+          caller: { ...info },
+          pauses: [],
+          gcMs: 0,
+          majorGcMs: 0,
+          minorGcMs: 0,
+          frames: new Set(),
+        };
+        patterns.set(key, pattern);
+      }
+
+      pattern.pauses.push(pause);
+      pattern.gcMs += pause.durationMs;
+      if (pause.kind === 'major') {
+        pattern.majorGcMs += pause.durationMs;
+      } else {
+        pattern.minorGcMs += pause.durationMs;
+      }
+      if (pause.frame >= 0) {
+        pattern.frames.add(pause.frame);
+      }
+      // Keep the longest call stack
+      if (info.callStack.length > pattern.caller.callStack.length) {
+        pattern.caller.callStack = info.callStack;
+      }
+    }
+
+    return Array.from(patterns.values());
+  }
+
+  /**
+   * Latest-starting JS event on the pause's thread that encloses it
+   */
+  private findCaller(
+    pause: TraceEvent,
+    jsEvents: TraceEvent[],
+    jsStarts: number[],
+    longestJsUs: number,
+  ): TraceEvent | undefined {
+    for (let i = this.upperBound(jsStarts, pause.ts) - 1; i >= 0; i--) {
+      const event = jsEvents[i]!;
+      // Nothing earlier can still be running
+      if (pause.ts - event.ts > longestJsUs) break;
+      if (event.pid !== pause.pid || event.tid !== pause.tid) continue;
+      if (event.ts + (event.dur ?? 0) >= pause.ts + (pause.dur ?? 0)) {
+        return event;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a detection from the pauses attributed to one caller
+   */
+  private createDetection(
+    pattern: GCPattern,
+    frames: FrameStats[],
+    heapGrowthMb: number | undefined,
+    context: DetectionContext,
+  ): GCJankDetection {
+    const traceDurationMs =
+      (context.traceEndTime - context.traceStartTime) / 1000;
+    const { caller } = pattern;
+
+    let jankFrames = 0;
+    let churnFrames = 0;
+    let allocatedBytes = 0;
+    let sampledFrames = 0;
+
+    for (const index of pattern.frames) {
+      const frame = frames[index]!;
+      if (
+        frame.durationMs > context.frameBudgetMs &&
+        frame.gcMs >= JANK_FRAME_GC_THRESHOLD_MS
+      ) {
+        jankFrames++;
+      }
+      if (frame.allocatedBytes !== undefined) {
+        sampledFrames++;
+        allocatedBytes += frame.allocatedBytes;
+        if (
+          frame.allocatedBytes / BYTES_PER_MB >=
+          CHURN_THRESHOLD_MB_PER_FRAME
+        ) {
+          churnFrames++;
+        }
+      }
+    }
+
+    const allocatedMbPerFrame =
+      sampledFrames > 0
+        ? allocatedBytes / sampledFrames / BYTES_PER_MB
+        : undefined;
+
+    const scoringInput: ScoringInput = {
+      detectionType: 'gc_jank',
+      durationMs: pattern.gcMs,
+      occurrences: pattern.pauses.length,
+      frameBudgetMs: context.frameBudgetMs,
+      traceDurationMs: traceDurationMs > 0 ? traceDurationMs : 1000,
+      correlatedFrameDrops: jankFrames,
+    };
+
+    const scoringResult = this.scoringService.calculateScore(scoringInput);
+
+    const churn =
+      allocatedMbPerFrame !== undefined
+        ? `, ~${allocatedMbPerFrame.toFixed(1)}MB allocated per frame`
+        : '';
+
+    return {
+      type: 'gc_jank',
+      severity: scoringResult.severity,
+      description:
+        `Garbage collection during "${caller.functionName}": ` +
+        `${pattern.gcMs.toFixed(1)}ms over ${pattern.pauses.length} pauses ` +
+        `(${pattern.majorGcMs.toFixed(1)}ms major), ` +
+        `${jankFrames} janked frames${churn}`,
+      location: {
+        file: caller.file,
+        line: caller.line,
+        column: caller.column,
+      },
+      metrics: {
+        durationMs: pattern.gcMs,
+        occurrences: pattern.pauses.length,
+        impactScore: scoringResult.impactScore,
+        confidence: scoringResult.confidence,
+        estimatedSpeedupPct: scoringResult.estimatedSpeedupPct,
+        speedupExplanation: scoringResult.speedupExplanation,
+        frameBudgetImpactPct: scoringResult.frameBudgetImpactPct,
+        riskAssessment: scoringResult.riskAssessment,
+      },
+      evidence: [...pattern.pauses]
+        .sort((a, b) => b.durationMs - a.durationMs)
+        .slice(0, MAX_EVIDENCE_EVENTS)
+        .map((p) => p.event),
+      functionName: caller.functionName,
+      file: caller.file,
+      line: caller.line,
+      column: caller.column,
+      gcMs: pattern.gcMs,
+      majorGcMs: pattern.majorGcMs,
+      minorGcMs: pattern.minorGcMs,
+      pauses: pattern.pauses.length,
+      jankFrames,
+      churnFrames,
+      allocatedMbPerFrame,
+      heapGrowthMb,
+      callStack: caller.callStack,
+    };
+  }
+
+  /**
+   * Extract call information from a JS execution event
+   */
+  private extractCallInfo(event: TraceEvent): CallInfo {
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    const callStack: StackFrame[] = [];
+
+    if (Array.isArray(data?.stackTrace)) {
+      for (const frame of data.stackTrace) {
+        if (typeof frame === 'object' && frame !== null) {
+          const f = frame as Record<string, unknown>;
+          callStack.push({
+            functionName:
+              typeof f.functionName === 'string' && f.functionName
+                ? f.functionName
+                : 'anonymous',
+            file: typeof f.url === 'string' ? f.url : 'unknown',
+            line: typeof f.lineNumber === 'number' ? f.lineNumber : 0,
+            column: typeof f.columnNumber === 'number' ? f.columnNumber : 0,
+            isSourceMapped: false,
+          });
+        }
+      }
+    }
+
+    const file =
+      typeof data?.scriptName === 'string'
+        ? data.scriptName
+        : typeof data?.url === 'string'
+          ? data.url
+          : (callStack[0]?.file ?? 'unknown');
+
+    return {
+      functionName:
+        typeof data?.functionName === 'string' && data.functionName
+          ? data.functionName
+          : (callStack[0]?.functionName ?? event.name),
+      file,
+      line:
+        typeof data?.lineNumber === 'number'
+          ? data.lineNumber
+          : (callStack[0]?.line ?? 0),
+      column:
+        typeof data?.columnNumber === 'number'
+          ? data.columnNumber
+          : (callStack[0]?.column ?? 0),
+      callStack,
+    };
+  }
+
+  /**
+   * Index of the first value > target in a sorted array
+   */
+  private upperBound(sorted: number[], target: number): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sorted[mid]! <= target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -15,7 +15,11 @@ import type {
   GPUStallDetection,
   LayerInfo,
 } from '../../shared/types/index.js';
-import type { IDetector, DetectionContext } from '../interfaces/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+} from '../interfaces/index.js';
 import { AdapterCapability } from '../../adapters/interfaces/index.js';
 import { ScoringService, type ScoringInput } from '../scoring/index.js';
 
@@ -74,16 +78,49 @@ export class GPUStallDetector implements IDetector {
 
   constructor(private readonly scoringService: ScoringService) {}
 
+  /**
+   * GPU events, plus thread metadata used to find the main thread
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return this.getStallType(event) !== null || event.ph === 'M';
+  }
+
   /**
    * Detect GPU stalls in trace data
    */
   detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
-    const gpuEvents = this.extractGPUEvents(trace);
-    const stallPatterns = this.findStallPatterns(gpuEvents, trace);
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
 
-    return Promise.resolve(
-      stallPatterns.map((pattern) => this.createDetection(pattern, context)),
-    );
+  /**
+   * Find stalls chunk by chunk, keeping only the patterns found so far.
+   * The main thread named in thread metadata is remembered for later
+   * chunks.
+   */
+  createSession(): IDetectorSession {
+    const patterns = new Map<string, StallPattern>();
+    let namedMainThreadId: number | null = null;
+
+    return {
+      consume: (chunk) => {
+        namedMainThreadId ??= this.findNamedMainThreadId(chunk);
+        this.findStallPatterns(
+          patterns,
+          this.extractGPUEvents(chunk),
+          chunk,
+          namedMainThreadId ?? this.findBusiestThreadId(chunk),
+        );
+      },
+      finish: (context) =>
+        Promise.resolve(
+          Array.from(patterns.values())
+            // Filter patterns that meet minimum threshold
+            .filter((p) => p.totalStallMs >= 5 || p.events.length >= 3)
+            .map((pattern) => this.createDetection(pattern, context)),
+        ),
+    };
   }
 
   /**
@@ -192,14 +229,14 @@ export class GPUStallDetector implements IDetector {
   }
 
   /**
-   * Find stall patterns from GPU events
+   * Add stall patterns from GPU events to the patterns found so far
    */
   private findStallPatterns(
+    patterns: Map<string, StallPattern>,
     gpuEvents: GPUEvent[],
     trace: TraceData,
-  ): StallPattern[] {
-    const patterns = new Map<string, StallPattern>();
-
+    mainThreadId: number | null,
+  ): void {
     // Minimum stall duration to consider (in microseconds)
     const minStallUs = 1000; // 1ms
 
@@ -207,7 +244,7 @@ export class GPUStallDetector implements IDetector {
       if (event.dur < minStallUs) continue;
 
       // Check if this stall blocks the main thread
-      if (!this.isBlockingMainThread(event, trace)) continue;
+      if (!this.isBlockingMainThread(event, trace, mainThreadId)) continue;
 
       const key = `${event.element}-${event.stallType}`;
       const existing = patterns.get(key);
@@ -228,19 +265,16 @@ export class GPUStallDetector implements IDetector {
         });
       }
     }
-
-    // Filter patterns that meet minimum threshold
-    return Array.from(patterns.values()).filter(
-      (p) => p.totalStallMs >= 5 || p.events.length >= 3,
-    );
   }
 
   /**
    * Check if GPU event is blocking the main thread
    */
-  private isBlockingMainThread(event: GPUEvent, trace: TraceData): boolean {
-    // Find main thread ID
-    const mainThreadId = this.findMainThreadId(trace);
+  private isBlockingMainThread(
+    event: GPUEvent,
+    trace: TraceData,
+    mainThreadId: number | null,
+  ): boolean {
     if (mainThreadId === null) return true; // Assume blocking if we can't determine
 
     // Check if there are main thread events during this GPU event
@@ -265,10 +299,9 @@ export class GPUStallDetector implements IDetector {
   }
 
   /**
-   * Find the main thread ID from trace
+   * Find the main thread ID from thread_name metadata
    */
-  private findMainThreadId(trace: TraceData): number | null {
-    // Look for thread_name metadata
+  private findNamedMainThreadId(trace: TraceData): number | null {
     for (const event of trace.traceEvents) {
       if (event.name === 'thread_name' && event.ph === 'M') {
         const args = event.args as { name?: string } | undefined;
@@ -281,8 +314,13 @@ export class GPUStallDetector implements IDetector {
         }
       }
     }
+    return null;
+  }
 
-    // Fallback: find thread with most events
+  /**
+   * Find the thread with the most events, for traces without metadata
+   */
+  private findBusiestThreadId(trace: TraceData): number | null {
     const threadCounts = new Map<number, number>();
     for (const event of trace.traceEvents) {
       threadCounts.set(event.tid, (threadCounts.get(event.tid) ?? 0) + 1);
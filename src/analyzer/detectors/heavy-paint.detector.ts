@@ -11,7 +11,11 @@ import type {
   Detection,
   HeavyPaintDetection,
 } from '../../shared/types/index.js';
-import type { IDetector, DetectionContext } from '../interfaces/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+} from '../interfaces/index.js';
 import { AdapterCapability } from '../../adapters/interfaces/index.js';
 import { ScoringService, type ScoringInput } from '../scoring/index.js';
 
@@ -65,16 +69,44 @@ export class HeavyPaintDetector implements IDetector {
 
   constructor(private readonly scoringService: ScoringService) {}
 
+  /**
+   * Paint and rasterization events
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return PAINT_EVENTS.has(event.name) || RASTER_EVENTS.has(event.name);
+  }
+
   /**
    * Detect heavy paint operations in trace data
    */
   detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
-    const paintEvents = this.extractPaintEvents(trace);
-    const patterns = this.findHeavyPaintPatterns(paintEvents, context);
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
 
-    return Promise.resolve(
-      patterns.map((pattern) => this.createDetection(pattern, context)),
-    );
+  /**
+   * Group paint work by frame as chunks are read, and find the heavy
+   * frames once the whole trace was read
+   */
+  createSession(): IDetectorSession {
+    const frameGroups = new Map<number, PaintEvent[]>();
+
+    return {
+      consume: (chunk, context) => {
+        this.groupEventsByFrame(
+          frameGroups,
+          this.extractPaintEvents(chunk),
+          context,
+        );
+      },
+      finish: (context) =>
+        Promise.resolve(
+          this.findHeavyPaintPatterns(frameGroups).map((pattern) =>
+            this.createDetection(pattern, context),
+          ),
+        ),
+    };
   }
 
   /**
@@ -150,14 +182,11 @@ export class HeavyPaintDetector implements IDetector {
   }
 
   /**
-   * Find heavy paint patterns
+   * Find heavy paint patterns in paint events grouped by frame
    */
   private findHeavyPaintPatterns(
-    paintEvents: PaintEvent[],
-    context: DetectionContext,
+    frameGroups: Map<number, PaintEvent[]>,
   ): PaintPattern[] {
-    // Group events by frame
-    const frameGroups = this.groupEventsByFrame(paintEvents, context);
     const patterns: PaintPattern[] = [];
 
     for (const events of frameGroups.values()) {
@@ -194,13 +223,13 @@ export class HeavyPaintDetector implements IDetector {
   }
 
   /**
-   * Group paint events by frame
+   * Add paint events to their frame groups
    */
   private groupEventsByFrame(
+    frameGroups: Map<number, PaintEvent[]>,
     paintEvents: PaintEvent[],
     context: DetectionContext,
-  ): Map<number, PaintEvent[]> {
-    const frameGroups = new Map<number, PaintEvent[]>();
+  ): void {
     const windowUs = context.frameBudgetMs * 1000;
 
     for (const event of paintEvents) {
@@ -211,8 +240,6 @@ export class HeavyPaintDetector implements IDetector {
       existing.push(event);
       frameGroups.set(frameId, existing);
     }
-
-    return frameGroups;
   }
 
   /**
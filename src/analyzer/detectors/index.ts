@@ -6,3 +6,6 @@ export * from './layout-thrash.detector.js';
 export * from './gpu-stall.detector.js';
 export * from './long-task.detector.js';
 export * from './heavy-paint.detector.js';
+export * from './input-latency.detector.js';
+export * from './layout-shift.detector.js';
+export * from './gc-jank.detector.js';
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for InputLatencyDetector
+ */
+
+import { InputLatencyDetector } from './input-latency.detector.js';
+import { ScoringService } from '../scoring/scoring.service.js';
+import type { DetectionContext } from '../interfaces/index.js';
+import type {
+  InputLatencyDetection,
+  TraceData,
+  TraceEvent,
+} from '../../shared/types/index.js';
+
+function event(
+  name: string,
+  ts: number,
+  extra: Partial<TraceEvent> = {},
+): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    ph: 'X',
+    cat: 'devtools.timeline',
+    name,
+    ...extra,
+  };
+}
+
+function dispatch(type: string, ts: number, dur: number): TraceEvent {
+  return event('EventDispatch', ts, { dur, args: { data: { type } } });
+}
+
+function trace(traceEvents: TraceEvent[]): TraceData {
+  return {
+    traceEvents,
+    metadata: {
+      browser_version: 'test',
+      user_agent: 'test',
+      viewport: { width: 1280, height: 720 },
+      device_pixel_ratio: 1,
+      timestamp: '2024-01-01T00:00:00Z',
+      scenario: 'click',
+      fps_target: 60,
+    },
+  };
+}
+
+describe('InputLatencyDetector', () => {
+  const detector = new InputLatencyDetector(new ScoringService());
+
+  const context: DetectionContext = {
+    fpsTarget: 60,
+    frameBudgetMs: 16.67,
+    frameMetrics: {
+      total: 10,
+      dropped: 2,
+      avg_fps: 50,
+      frame_budget_ms: 16.67,
+    },
+    traceStartTime: 0,
+    traceEndTime: 2_000_000,
+  };
+
+  it('should split a slow click into input delay, processing and presentation', async () => {
+    const detections = (await detector.detect(
+      trace([
+        event('InputLatency::MouseDown', 100_000, { ph: 'b' }),
+        dispatch('pointerdown', 150_000, 5_000),
+        dispatch('mousedown', 155_000, 5_000),
+        event('InputLatency::MouseUp', 160_000, { ph: 'b' }),
+        dispatch('pointerup', 170_000, 10_000),
+        dispatch('click', 180_000, 200_000),
+        event('FunctionCall', 181_000, {
+          dur: 190_000,
+          args: {
+            data: {
+              functionName: 'onSubmit',
+              url: 'https://example.com/form.js',
+              lineNumber: 12,
+              columnNumber: 3,
+            },
+          },
+        }),
+        event('DrawFrame', 120_000, { ph: 'I' }),
+        event('DrawFrame', 400_000, { ph: 'I' }),
+      ]),
+      context,
+    )) as InputLatencyDetection[];
+
+    expect(detections).toHaveLength(1);
+    const [detection] = detections;
+    expect(detection).toMatchObject({
+      type: 'input_latency',
+      eventType: 'click',
+      functionName: 'onSubmit',
+      file: 'https://example.com/form.js',
+      line: 12,
+      occurrences: 1,
+      worstInteraction: {
+        inputDelayMs: 50,
+        processingTimeMs: 230,
+        presentationDelayMs: 20,
+        totalMs: 300,
+      },
+      inpMs: 300,
+    });
+    expect(detection!.evidence.map((e) => e.name)).toContain('FunctionCall');
+  });
+
+  it('should not report interactions within the INP threshold', async () => {
+    const detections = await detector.detect(
+      trace([
+        event('InputLatency::KeyDown', 100_000, { ph: 'b' }),
+        dispatch('keydown', 110_000, 30_000),
+        event('DrawFrame', 150_000, { ph: 'I' }),
+      ]),
+      context,
+    );
+
+    expect(detections).toHaveLength(0);
+  });
+
+  it('should ignore one outlier per 50 interactions when estimating INP', async () => {
+    const events: TraceEvent[] = [];
+    for (let i = 0; i < 50; i++) {
+      const ts = i * 1_000_000;
+      // One very slow interaction, the rest at 250ms
+      events.push(dispatch('keydown', ts, i === 0 ? 900_000 : 250_000));
+    }
+
+    const detections = (await detector.detect(
+      trace(events),
+      context,
+    )) as InputLatencyDetection[];
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0]!.occurrences).toBe(50);
+    expect(detections[0]!.worstInteraction.totalMs).toBe(900);
+    expect(detections[0]!.inpMs).toBe(250);
+  });
+});
@@ -0,0 +1,572 @@
+/**
+ * Input Latency Detector
+ * Measures Interaction to Next Paint (INP) style latency by pairing
+ * EventDispatch events with the next presented frame
+ *
+ * Each interaction is split into:
+ * - input delay: hardware input timestamp to handler start
+ * - processing time: time spent in event handlers
+ * - presentation delay: handler end to the next presented frame
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import type {
+  TraceData,
+  TraceEvent,
+  Detection,
+  InputLatencyDetection,
+  InteractionLatencyBreakdown,
+  StackFrame,
+} from '../../shared/types/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+  TraceSnapshotDetectionContext,
+} from '../interfaces/index.js';
+import {
+  getRawTraceEvents,
+  type TraceSnapshot,
+} from '../../adapters/models/index.js';
+import { AdapterCapability } from '../../adapters/interfaces/index.js';
+import { ScoringService, type ScoringInput } from '../scoring/index.js';
+
+// Interactions slower than this are reported (web-vitals "good" INP threshold)
+const INP_GOOD_THRESHOLD_MS = 200;
+
+// One outlier is ignored per this many interactions when estimating INP
+const INP_INTERACTIONS_PER_OUTLIER = 50;
+
+// Input events older than this are not paired with a dispatch
+const MAX_INPUT_DELAY_MS = 1000;
+
+// Follow-up events (pointerup, click, keyup) further apart than this start a new interaction
+const INTERACTION_GROUP_WINDOW_MS = 1000;
+
+// DOM event types that count as discrete interactions
+const INTERACTION_EVENT_TYPES = new Set([
+  'pointerdown',
+  'pointerup',
+  'mousedown',
+  'mouseup',
+  'click',
+  'touchstart',
+  'touchend',
+  'keydown',
+  'keypress',
+  'keyup',
+]);
+
+// Event types that begin a new interaction
+const INTERACTION_START_TYPES = new Set([
+  'pointerdown',
+  'mousedown',
+  'touchstart',
+  'keydown',
+]);
+
+// Async events emitted by the browser when the input is received
+const INPUT_LATENCY_PREFIX = 'InputLatency::';
+
+// Event names marking a frame that reached the screen
+const PRESENTATION_EVENTS = new Set(['DrawFrame', 'Display::FrameDisplayed']);
+
+interface CallInfo {
+  functionName: string;
+  file: string;
+  line: number;
+  column: number;
+  callStack: StackFrame[];
+}
+
+interface EventTiming {
+  eventType: string;
+  inputTs: number;
+  processingStart: number;
+  processingEnd: number;
+  handler: CallInfo;
+  evidence: TraceEvent[];
+}
+
+/**
+ * Timings of the dispatched events read so far, with the input and
+ * presentation times still needed to pair later events
+ */
+interface TimingState {
+  timings: EventTiming[];
+  /** Sorted input timestamps */
+  inputTimestamps: number[];
+  presentations: number[];
+}
+
+interface Interaction {
+  /** Event type and handler of the longest-running event */
+  eventType: string;
+  handler: CallInfo;
+  breakdown: InteractionLatencyBreakdown;
+  evidence: TraceEvent[];
+}
+
+interface InteractionPattern {
+  handler: CallInfo;
+  interactions: Interaction[];
+  worst: Interaction;
+}
+
+@Injectable()
+export class InputLatencyDetector implements IDetector {
+  readonly name = 'InputLatencyDetector';
+  readonly priority = 4;
+  /** Presentation times come from frame events */
+  readonly requiredCapabilities = [AdapterCapability.FRAME_TIMING];
+
+  constructor(private readonly scoringService: ScoringService) {}
+
+  /**
+   * Event dispatches with their handlers, input and presentation events
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return (
+      event.name === 'EventDispatch' ||
+      event.name === 'FunctionCall' ||
+      PRESENTATION_EVENTS.has(event.name) ||
+      event.name.startsWith(INPUT_LATENCY_PREFIX)
+    );
+  }
+
+  /**
+   * Detect slow interactions in trace data
+   */
+  detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
+
+  /**
+   * Time each dispatched event as chunks are read, and group the timings
+   * into interactions once the whole trace was read
+   */
+  createSession(): IDetectorSession {
+    const state = this.createTimingState();
+    return {
+      consume: (chunk) => this.addEventTimings(state, chunk.traceEvents),
+      finish: (context) =>
+        Promise.resolve(this.detectInTimings(state, context)),
+    };
+  }
+
+  /**
+   * Detect slow interactions in a snapshot
+   * Normalized snapshots carry no input events, so this relies on the raw
+   * CDP events kept when the snapshot was collected with includeRawEvents
+   */
+  detectFromSnapshot(
+    snapshot: TraceSnapshot,
+    context: TraceSnapshotDetectionContext,
+  ): Promise<Detection[]> {
+    const state = this.createTimingState();
+    this.addEventTimings(state, getRawTraceEvents(snapshot));
+    return Promise.resolve(this.detectInTimings(state, context));
+  }
+
+  private createTimingState(): TimingState {
+    return { timings: [], inputTimestamps: [], presentations: [] };
+  }
+
+  /**
+   * Detect slow interactions in the event timings read
+   */
+  private detectInTimings(
+    state: TimingState,
+    context: DetectionContext,
+  ): InputLatencyDetection[] {
+    const interactions = this.extractInteractions(state);
+    if (interactions.length === 0) {
+      return [];
+    }
+
+    const inpMs = this.estimateINP(interactions);
+    const patterns = this.groupSlowInteractions(interactions);
+
+    return patterns.map((pattern) =>
+      this.createDetection(pattern, inpMs, context),
+    );
+  }
+
+  /**
+   * Pair the EventDispatch events among the next events with their input
+   * and handler, keeping the input and presentation times
+   */
+  private addEventTimings(state: TimingState, events: TraceEvent[]): void {
+    const dispatches: TraceEvent[] = [];
+    const functionCalls: TraceEvent[] = [];
+    let hasNewInput = false;
+
+    for (const event of events) {
+      if (event.name === 'EventDispatch') {
+        if (INTERACTION_EVENT_TYPES.has(this.getEventType(event))) {
+          dispatches.push(event);
+        }
+      } else if (event.name === 'FunctionCall') {
+        functionCalls.push(event);
+      } else if (PRESENTATION_EVENTS.has(event.name)) {
+        state.presentations.push(event.ts);
+      } else if (
+        event.name.startsWith(INPUT_LATENCY_PREFIX) &&
+        (event.ph === 'b' || event.ph === 'S')
+      ) {
+        state.inputTimestamps.push(event.ts);
+        hasNewInput = true;
+      }
+    }
+
+    dispatches.sort((a, b) => a.ts - b.ts);
+    functionCalls.sort((a, b) => a.ts - b.ts);
+    if (hasNewInput) {
+      state.inputTimestamps.sort((a, b) => a - b);
+    }
+
+    const callStarts = functionCalls.map((call) => call.ts);
+    for (const dispatch of dispatches) {
+      state.timings.push(
+        this.createEventTiming(
+          dispatch,
+          functionCalls,
+          callStarts,
+          state.inputTimestamps,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Group the event timings into interactions, each paired with the next
+   * presented frame
+   */
+  private extractInteractions(state: TimingState): Interaction[] {
+    const timings = [...state.timings].sort(
+      (a, b) => a.processingStart - b.processingStart,
+    );
+    const presentations = [...state.presentations].sort((a, b) => a - b);
+
+    const interactions: Interaction[] = [];
+    let group: EventTiming[] = [];
+
+    for (const timing of timings) {
+      const previous = group[group.length - 1];
+      // pointerdown and its compatibility mousedown belong together, but a
+      // start event after a release (or a repeated key) is a new interaction
+      const startsNew =
+        !previous ||
+        (INTERACTION_START_TYPES.has(timing.eventType) &&
+          group.some(
+            (t) =>
+              t.eventType === timing.eventType ||
+              !INTERACTION_START_TYPES.has(t.eventType),
+          )) ||
+        timing.processingStart - previous.processingEnd >
+          INTERACTION_GROUP_WINDOW_MS * 1000;
+
+      if (startsNew && group.length > 0) {
+        interactions.push(this.createInteraction(group, presentations));
+        group = [];
+      }
+      group.push(timing);
+    }
+
+    if (group.length > 0) {
+      interactions.push(this.createInteraction(group, presentations));
+    }
+
+    return interactions;
+  }
+
+  /**
+   * Build timing for a single dispatched event
+   */
+  private createEventTiming(
+    dispatch: TraceEvent,
+    functionCalls: TraceEvent[],
+    callStarts: number[],
+    inputTimestamps: number[],
+  ): EventTiming {
+    const processingStart = dispatch.ts;
+    const processingEnd = dispatch.ts + (dispatch.dur ?? 0);
+
+    // Closest input received before the handler started
+    const inputIndex = this.upperBound(inputTimestamps, processingStart) - 1;
+    const candidateTs = inputTimestamps[inputIndex];
+    const inputTs =
+      candidateTs !== undefined &&
+      processingStart - candidateTs <= MAX_INPUT_DELAY_MS * 1000
+        ? candidateTs
+        : processingStart;
+
+    // Longest handler invoked within the dispatch on the same thread
+    let handlerEvent: TraceEvent | undefined;
+    for (
+      let i = this.lowerBound(callStarts, processingStart);
+      i < functionCalls.length && functionCalls[i]!.ts < processingEnd;
+      i++
+    ) {
+      const call = functionCalls[i]!;
+      if (call.pid !== dispatch.pid || call.tid !== dispatch.tid) continue;
+      if ((call.dur ?? 0) > (handlerEvent?.dur ?? -1)) {
+        handlerEvent = call;
+      }
+    }
+
+    return {
+      eventType: this.getEventType(dispatch),
+      inputTs,
+      processingStart,
+      processingEnd,
+      handler: this.extractCallInfo(handlerEvent ?? dispatch),
+      evidence: handlerEvent ? [dispatch, handlerEvent] : [dispatch],
+    };
+  }
+
+  /**
+   * Combine the events of one interaction into an INP-style breakdown
+   */
+  private createInteraction(
+    timings: EventTiming[],
+    presentations: number[],
+  ): Interaction {
+    const inputTs = Math.min(...timings.map((t) => t.inputTs));
+    const processingStart = Math.min(...timings.map((t) => t.processingStart));
+    const processingEnd = Math.max(...timings.map((t) => t.processingEnd));
+
+    // No presented frame after the handlers means presentation is unknown
+    const presentationTs =
+      presentations[this.lowerBound(presentations, processingEnd)] ??
+      processingEnd;
+
+    const longest = timings.reduce((a, b) =>
+      b.processingEnd - b.processingStart > a.processingEnd - a.processingStart
+        ? b
+        : a,
+    );
+
+    const inputDelayMs = (processingStart - inputTs) / 1000;
+    const processingTimeMs = (processingEnd - processingStart) / 1000;
+    const presentationDelayMs = (presentationTs - processingEnd) / 1000;
+
+    return {
+      eventType: longest.eventType,
+      handler: longest.handler,
+      breakdown: {
+        inputDelayMs,
+        processingTimeMs,
+        presentationDelayMs,
+        totalMs: inputDelayMs + processingTimeMs + presentationDelayMs,
+      },
+      evidence: timings.flatMap((t) => t.evidence),
+    };
+  }
+
+  /**
+   * Estimate INP: the worst interaction, ignoring one outlier per 50
+   */
+  private estimateINP(interactions: Interaction[]): number {
+    const latencies = interactions
+      .map((i) => i.breakdown.totalMs)
+      .sort((a, b) => b - a);
+    const index = Math.min(
+      Math.floor(latencies.length / INP_INTERACTIONS_PER_OUTLIER),
+      latencies.length - 1,
+    );
+    return latencies[index] ?? 0;
+  }
+
+  /**
+   * Group interactions above the INP threshold by responsible handler
+   */
+  private groupSlowInteractions(
+    interactions: Interaction[],
+  ): InteractionPattern[] {
+    const patterns = new Map<string, InteractionPattern>();
+
+    for (const interaction of interactions) {
+      if (interaction.breakdown.totalMs <= INP_GOOD_THRESHOLD_MS) continue;
+
+      const { handler } = interaction;
+      const key = `${handler.functionName}:${handler.file}:${handler.line}`;
+      const existing = patterns.get(key);
+
+      if (existing) {
+        existing.interactions.push(interaction);
+        if (interaction.breakdown.totalMs > existing.worst.breakdown.totalMs) {
+          existing.worst = interaction;
+        }
+      } else {
+        patterns.set(key, {
+          handler,
+          interactions: [interaction],
+          worst: interaction,
+        });
+      }
+    }
+
+    return Array.from(patterns.values());
+  }
+
+  /**
+   * Create a detection from an interaction pattern
+   */
+  private createDetection(
+    pattern: InteractionPattern,
+    inpMs: number,
+    context: DetectionContext,
+  ): InputLatencyDetection {
+    const traceDurationMs =
+      (context.traceEndTime - context.traceStartTime) / 1000;
+    const totalLatencyMs = pattern.interactions.reduce(
+      (sum, i) => sum + i.breakdown.totalMs,
+      0,
+    );
+    const { handler, worst } = pattern;
+    const { breakdown } = worst;
+
+    const scoringInput: ScoringInput = {
+      detectionType: 'input_latency',
+      durationMs: totalLatencyMs,
+      occurrences: pattern.interactions.length,
+      frameBudgetMs: context.frameBudgetMs,
+      traceDurationMs: traceDurationMs > 0 ? traceDurationMs : 1000,
+      interactionLatencyMs: breakdown.totalMs,
+    };
+
+    const scoringResult = this.scoringService.calculateScore(scoringInput);
+
+    return {
+      type: 'input_latency',
+      severity: scoringResult.severity,
+      description:
+        `Slow ${worst.eventType} interaction handled by "${handler.functionName}": ` +
+        `${breakdown.totalMs.toFixed(1)}ms to next paint ` +
+        `(input delay ${breakdown.inputDelayMs.toFixed(1)}ms, ` +
+        `processing ${breakdown.processingTimeMs.toFixed(1)}ms, ` +
+        `presentation ${breakdown.presentationDelayMs.toFixed(1)}ms)`,
+      location: {
+        file: handler.file,
+        line: handler.line,
+        column: handler.column,
+      },
+      metrics: {
+        durationMs: totalLatencyMs,
+        occurrences: pattern.interactions.length,
+        impactScore: scoringResult.impactScore,
+        confidence: scoringResult.confidence,
+        estimatedSpeedupPct: scoringResult.estimatedSpeedupPct,
+        speedupExplanation: scoringResult.speedupExplanation,
+        frameBudgetImpactPct: scoringResult.frameBudgetImpactPct,
+        riskAssessment: scoringResult.riskAssessment,
+      },
+      evidence: worst.evidence,
+      eventType: worst.eventType,
+      functionName: handler.functionName,
+      file: handler.file,
+      line: handler.line,
+      column: handler.column,
+      occurrences: pattern.interactions.length,
+      worstInteraction: breakdown,
+      inpMs,
+      callStack: handler.callStack,
+    };
+  }
+
+  /**
+   * Get the DOM event type of an EventDispatch event
+   */
+  private getEventType(event: TraceEvent): string {
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    return typeof data?.type === 'string' ? data.type : '';
+  }
+
+  /**
+   * Extract call information from a FunctionCall (or EventDispatch) event
+   */
+  private extractCallInfo(event: TraceEvent): CallInfo {
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    const callStack: StackFrame[] = [];
+
+    if (Array.isArray(data?.stackTrace)) {
+      for (const frame of data.stackTrace) {
+        if (typeof frame === 'object' && frame !== null) {
+          const f = frame as Record<string, unknown>;
+          callStack.push({
+            functionName:
+              typeof f.functionName === 'string' && f.functionName
+                ? f.functionName
+                : 'anonymous',
+            file: typeof f.url === 'string' ? f.url : 'unknown',
+            line: typeof f.lineNumber === 'number' ? f.lineNumber : 0,
+            column: typeof f.columnNumber === 'number' ? f.columnNumber : 0,
+            isSourceMapped: false,
+          });
+        }
+      }
+    }
+
+    const file =
+      typeof data?.scriptName === 'string'
+        ? data.scriptName
+        : typeof data?.url === 'string'
+          ? data.url
+          : (callStack[0]?.file ?? 'unknown');
+
+    return {
+      functionName:
+        typeof data?.functionName === 'string' && data.functionName
+          ? data.functionName
+          : (callStack[0]?.functionName ?? event.name),
+      file,
+      line:
+        typeof data?.lineNumber === 'number'
+          ? data.lineNumber
+          : (callStack[0]?.line ?? 0),
+      column:
+        typeof data?.columnNumber === 'number'
+          ? data.columnNumber
+          : (callStack[0]?.column ?? 0),
+      callStack,
+    };
+  }
+
+  /**
+   * Index of the first value >= target in a sorted array
+   */
+  private lowerBound(sorted: number[], target: number): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sorted[mid]! < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Index of the first value > target in a sorted array
+   */
+  private upperBound(sorted: number[], target: number): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sorted[mid]! <= target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for LayoutShiftDetector
+ */
+
+import { LayoutShiftDetector } from './layout-shift.detector.js';
+import { ScoringService } from '../scoring/scoring.service.js';
+import { calculateCLS } from '../../shared/utils/index.js';
+import type { DetectionContext } from '../interfaces/index.js';
+import type {
+  LayoutShiftDetection,
+  TraceData,
+  TraceEvent,
+} from '../../shared/types/index.js';
+
+function event(
+  name: string,
+  ts: number,
+  data: Record<string, unknown> = {},
+  extra: Partial<TraceEvent> = {},
+): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    ph: 'I',
+    cat: 'loading',
+    name,
+    args: { data },
+    ...extra,
+  };
+}
+
+function shift(
+  ts: number,
+  score: number,
+  nodes: Array<[number, number, number]> = [],
+  hadRecentInput = false,
+): TraceEvent {
+  return event('LayoutShift', ts, {
+    score,
+    weighted_score_delta: score,
+    had_recent_input: hadRecentInput,
+    impacted_nodes: nodes.map(([nodeId, oldY, newY]) => ({
+      node_id: nodeId,
+      old_rect: [0, oldY, 100, 50],
+      new_rect: [0, newY, 100, 50],
+    })),
+  });
+}
+
+function trace(traceEvents: TraceEvent[]): TraceData {
+  return {
+    traceEvents,
+    metadata: {
+      browser_version: 'test',
+      user_agent: 'test',
+      viewport: { width: 1280, height: 720 },
+      device_pixel_ratio: 1,
+      timestamp: '2024-01-01T00:00:00Z',
+      scenario: 'load',
+      fps_target: 60,
+    },
+  };
+}
+
+describe('LayoutShiftDetector', () => {
+  const detector = new LayoutShiftDetector(new ScoringService());
+
+  const context: DetectionContext = {
+    fpsTarget: 60,
+    frameBudgetMs: 16.67,
+    frameMetrics: {
+      total: 100,
+      dropped: 0,
+      avg_fps: 60,
+      frame_budget_ms: 16.67,
+    },
+    traceStartTime: 0,
+    traceEndTime: 10_000_000,
+  };
+
+  const events = [
+    // Window 1: hero image loads and pushes the article down
+    event('ResourceSendRequest', 50_000, {
+      requestId: '1',
+      url: 'https://example.com/hero.jpg',
+    }),
+    event('ResourceFinish', 380_000, { requestId: '1' }),
+    event('LayoutInvalidationTracking', 390_000, {
+      nodeId: 7,
+      nodeName: "IMG class='hero'",
+      reason: 'Size changed',
+    }),
+    event('LayoutInvalidationTracking', 390_000, {
+      nodeId: 12,
+      nodeName: "ARTICLE id='main'",
+      reason: 'Style changed',
+    }),
+    event('Layout', 395_000, {}, { ph: 'X', dur: 4_000 }),
+    shift(400_000, 0.18, [
+      [12, 100, 400],
+      [13, 450, 500],
+    ]),
+    // Web font swaps in shortly after
+    event('ResourceSendRequest', 600_000, {
+      requestId: '2',
+      url: 'https://example.com/inter.woff2',
+    }),
+    event('ResourceFinish', 900_000, { requestId: '2' }),
+    shift(1_000_000, 0.04, [[12, 400, 404]]),
+    // Shift right after a click is excluded
+    shift(1_500_000, 0.5, [[12, 404, 900]], true),
+    // Window 2, more than 1s later: a banner is injected
+    event('LayoutInvalidationTracking', 3_990_000, {
+      nodeId: 30,
+      nodeName: "DIV class='banner'",
+      reason: 'Added to layout',
+    }),
+    shift(4_000_000, 0.02, [[12, 404, 460]]),
+  ];
+
+  it('should group shifts into session windows and compute CLS', () => {
+    expect(calculateCLS(events)).toBeCloseTo(0.22);
+    expect(calculateCLS([])).toBeUndefined();
+  });
+
+  it('should report windows above the threshold with causes and moved nodes', async () => {
+    const detections = (await detector.detect(
+      trace(events),
+      context,
+    )) as LayoutShiftDetection[];
+
+    // The 0.02 banner window is below the reporting threshold
+    expect(detections).toHaveLength(1);
+    const [detection] = detections;
+
+    expect(detection!.windowScore).toBeCloseTo(0.22);
+    expect(detection!.cls).toBeCloseTo(0.22);
+    expect(detection!.severity).toBe('high');
+    expect(detection!.location.element).toBe("ARTICLE id='main'");
+    expect(detection!.metrics.durationMs).toBe(4);
+
+    expect(detection!.shifts).toHaveLength(2);
+    expect(detection!.shifts[0]).toMatchObject({
+      cause: 'late_image',
+      causeDetail: 'https://example.com/hero.jpg',
+      movedNodes: [
+        { nodeId: 12, node: "ARTICLE id='main'", distancePx: 300 },
+        { nodeId: 13, node: 'node #13', distancePx: 50 },
+      ],
+    });
+    expect(detection!.shifts[1]).toMatchObject({
+      cause: 'web_font',
+      causeDetail: 'https://example.com/inter.woff2',
+    });
+  });
+
+  it('should attribute shifts to injected content', async () => {
+    const detections = (await detector.detect(
+      trace(
+        events.map((e) =>
+          e.ts === 4_000_000 ? shift(4_000_000, 0.3, [[12, 404, 460]]) : e,
+        ),
+      ),
+      context,
+    )) as LayoutShiftDetection[];
+
+    expect(detections).toHaveLength(2);
+    expect(detections[1]!.severity).toBe('critical');
+    expect(detections[1]!.shifts[0]).toMatchObject({
+      cause: 'injected_content',
+      causeDetail: "DIV class='banner'",
+    });
+  });
+});
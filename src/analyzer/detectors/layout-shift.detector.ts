@@ -0,0 +1,520 @@
+/**
+ * Layout Shift Detector
+ * Groups LayoutShift events into session windows, computes CLS and
+ * attributes each shift to the nodes it moved and its likely cause
+ *
+ * Causes are inferred from what happened between the previous shift (or
+ * the lookback window) and the shift itself:
+ * - late_image: a media element was resized or an image finished loading
+ * - web_font: fonts changed or a web font finished loading
+ * - injected_content: a node was added to layout
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import type {
+  TraceData,
+  TraceEvent,
+  Detection,
+  LayoutShiftCause,
+  LayoutShiftDetection,
+  LayoutShiftEntry,
+  Severity,
+  ShiftedNode,
+} from '../../shared/types/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+  TraceSnapshotDetectionContext,
+} from '../interfaces/index.js';
+import {
+  getRawTraceEvents,
+  type TraceSnapshot,
+} from '../../adapters/models/index.js';
+import { AdapterCapability } from '../../adapters/interfaces/index.js';
+import { ScoringService, type ScoringInput } from '../scoring/index.js';
+import {
+  extractLayoutShifts,
+  groupSessionWindows,
+  type LayoutShiftRecord,
+  type LayoutShiftSessionWindow,
+} from '../../shared/utils/index.js';
+
+// Session windows scoring below this are not reported
+const REPORT_THRESHOLD = 0.05;
+
+// web-vitals CLS thresholds
+const CLS_GOOD_THRESHOLD = 0.1;
+const CLS_POOR_THRESHOLD = 0.25;
+
+// How far before a shift to look for its cause
+const CAUSE_LOOKBACK_MS = 500;
+
+// Layout shifts and the events collected as evidence of their causes
+const CAUSE_EVIDENCE_EVENTS = new Set([
+  'LayoutShift',
+  'LayoutInvalidationTracking',
+  'Layout',
+  'ResourceSendRequest',
+  'ResourceReceiveResponse',
+  'ResourceFinish',
+]);
+
+const FONT_URL_PATTERN = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i;
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|avif|svg|bmp|ico)(\?|#|$)/i;
+
+// Elements whose late sizing typically shifts surrounding content
+const MEDIA_NODE_PATTERN = /^(IMG|PICTURE|VIDEO|IFRAME|EMBED|OBJECT)\b/i;
+
+const CAUSE_LABELS: Record<LayoutShiftCause, string> = {
+  late_image: 'late-loading media',
+  web_font: 'web font swap',
+  injected_content: 'injected content',
+  unknown: 'unknown cause',
+};
+
+interface LayoutInvalidation {
+  ts: number;
+  nodeId: number;
+  nodeName: string;
+  reason: string;
+}
+
+interface ResourceLoad {
+  ts: number;
+  url: string;
+  kind: 'font' | 'image';
+}
+
+interface LayoutRun {
+  ts: number;
+  dur: number;
+}
+
+interface CauseEvidence {
+  invalidations: LayoutInvalidation[];
+  loads: ResourceLoad[];
+  layouts: LayoutRun[];
+  nodeNames: Map<number, string>;
+}
+
+interface ResourceRequest {
+  url: string;
+  resourceType?: string;
+  mimeType?: string;
+}
+
+/**
+ * Shifts and cause evidence read so far. Loads are classified once their
+ * requests and responses have all been read.
+ */
+interface ShiftState {
+  shifts: LayoutShiftRecord[];
+  invalidations: LayoutInvalidation[];
+  layouts: LayoutRun[];
+  nodeNames: Map<number, string>;
+  requests: Map<string, ResourceRequest>;
+  finishes: Array<{ ts: number; requestId: string }>;
+}
+
+@Injectable()
+export class LayoutShiftDetector implements IDetector {
+  readonly name = 'LayoutShiftDetector';
+  readonly priority = 4;
+  /** LayoutShift events are only recorded over CDP */
+  readonly requiredCapabilities = [AdapterCapability.FULL_CDP];
+
+  constructor(private readonly scoringService: ScoringService) {}
+
+  /**
+   * Layout shifts and the events used to attribute their causes
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return CAUSE_EVIDENCE_EVENTS.has(event.name);
+  }
+
+  /**
+   * Detect layout shift session windows in trace data
+   */
+  detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
+
+  /**
+   * Collect shifts and their cause evidence as chunks are read, and group
+   * the shifts into session windows once the whole trace was read
+   */
+  createSession(): IDetectorSession {
+    const state = this.createShiftState();
+    return {
+      consume: (chunk) => this.collectShifts(state, chunk.traceEvents),
+      finish: (context) => Promise.resolve(this.detectInShifts(state, context)),
+    };
+  }
+
+  /**
+   * Detect layout shift session windows in a snapshot's raw CDP events
+   */
+  detectFromSnapshot(
+    snapshot: TraceSnapshot,
+    context: TraceSnapshotDetectionContext,
+  ): Promise<Detection[]> {
+    const state = this.createShiftState();
+    this.collectShifts(state, getRawTraceEvents(snapshot));
+    return Promise.resolve(this.detectInShifts(state, context));
+  }
+
+  private createShiftState(): ShiftState {
+    return {
+      shifts: [],
+      invalidations: [],
+      layouts: [],
+      nodeNames: new Map(),
+      requests: new Map(),
+      finishes: [],
+    };
+  }
+
+  /**
+   * Detect layout shift session windows in the shifts read
+   */
+  private detectInShifts(
+    state: ShiftState,
+    context: DetectionContext,
+  ): LayoutShiftDetection[] {
+    const windows = groupSessionWindows(
+      [...state.shifts].sort((a, b) => a.ts - b.ts),
+    );
+    if (windows.length === 0) {
+      return [];
+    }
+
+    const cls = Math.max(...windows.map((w) => w.score));
+    const evidence = this.getCauseEvidence(state);
+
+    return windows
+      .filter((window) => window.score >= REPORT_THRESHOLD)
+      .map((window) => this.createDetection(window, cls, evidence, context));
+  }
+
+  /**
+   * Collect the shifts, and the invalidations, resource loads and layouts
+   * used for attribution, among the next events
+   */
+  private collectShifts(state: ShiftState, events: TraceEvent[]): void {
+    for (const shift of extractLayoutShifts(events)) {
+      state.shifts.push(shift);
+    }
+
+    const { invalidations, layouts, nodeNames, requests, finishes } = state;
+
+    for (const event of events) {
+      const data = event.args?.data as Record<string, unknown> | undefined;
+
+      switch (event.name) {
+        case 'LayoutInvalidationTracking': {
+          if (typeof data?.nodeId !== 'number') break;
+          const nodeName =
+            typeof data.nodeName === 'string' ? data.nodeName : '';
+          invalidations.push({
+            ts: event.ts,
+            nodeId: data.nodeId,
+            nodeName,
+            reason: typeof data.reason === 'string' ? data.reason : '',
+          });
+          if (nodeName) {
+            nodeNames.set(data.nodeId, nodeName);
+          }
+          break;
+        }
+        case 'Layout':
+          layouts.push({ ts: event.ts, dur: event.dur ?? 0 });
+          break;
+        case 'ResourceSendRequest':
+          if (
+            typeof data?.requestId === 'string' &&
+            typeof data.url === 'string'
+          ) {
+            requests.set(data.requestId, {
+              ...requests.get(data.requestId),
+              url: data.url,
+              resourceType:
+                typeof data.resourceType === 'string'
+                  ? data.resourceType
+                  : undefined,
+            });
+          }
+          break;
+        case 'ResourceReceiveResponse': {
+          const request =
+            typeof data?.requestId === 'string'
+              ? requests.get(data.requestId)
+              : undefined;
+          if (request && typeof data?.mimeType === 'string') {
+            request.mimeType = data.mimeType;
+          }
+          break;
+        }
+        case 'ResourceFinish':
+          if (typeof data?.requestId === 'string') {
+            finishes.push({ ts: event.ts, requestId: data.requestId });
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Cause evidence from everything collected, with loads classified
+   */
+  private getCauseEvidence(state: ShiftState): CauseEvidence {
+    const loads: ResourceLoad[] = [];
+    for (const finish of state.finishes) {
+      const request = state.requests.get(finish.requestId);
+      if (!request) continue;
+
+      const kind = this.classifyResource(request);
+      if (kind) {
+        loads.push({ ts: finish.ts, url: request.url, kind });
+      }
+    }
+
+    return {
+      invalidations: state.invalidations,
+      loads,
+      layouts: state.layouts,
+      nodeNames: state.nodeNames,
+    };
+  }
+
+  /**
+   * Classify a request as a font or image, if it is either
+   */
+  private classifyResource(
+    request: ResourceRequest,
+  ): ResourceLoad['kind'] | null {
+    const { url, resourceType, mimeType } = request;
+
+    if (
+      resourceType === 'Font' ||
+      mimeType?.startsWith('font/') ||
+      FONT_URL_PATTERN.test(url)
+    ) {
+      return 'font';
+    }
+    if (
+      resourceType === 'Image' ||
+      mimeType?.startsWith('image/') ||
+      IMAGE_URL_PATTERN.test(url)
+    ) {
+      return 'image';
+    }
+    return null;
+  }
+
+  /**
+   * Attribute a shift to its moved nodes and likely cause
+   */
+  private attributeShift(
+    shift: LayoutShiftRecord,
+    previousTs: number | undefined,
+    evidence: CauseEvidence,
+  ): LayoutShiftEntry {
+    const from = Math.max(
+      previousTs ?? -Infinity,
+      shift.ts - CAUSE_LOOKBACK_MS * 1000,
+    );
+    const inRange = (ts: number) => ts > from && ts <= shift.ts;
+
+    const invalidations = evidence.invalidations.filter((i) => inRange(i.ts));
+    const loads = evidence.loads.filter((l) => inRange(l.ts));
+
+    const media = invalidations.find((i) =>
+      MEDIA_NODE_PATTERN.test(i.nodeName),
+    );
+    const fontChange = invalidations.find((i) => i.reason === 'Fonts changed');
+    const added = invalidations.find((i) => i.reason === 'Added to layout');
+    const image = loads.find((l) => l.kind === 'image');
+    const font = loads.find((l) => l.kind === 'font');
+
+    let cause: LayoutShiftCause = 'unknown';
+    let causeDetail: string | undefined;
+
+    if (media) {
+      cause = 'late_image';
+      causeDetail = image?.url ?? media.nodeName;
+    } else if (fontChange) {
+      cause = 'web_font';
+      causeDetail = font?.url ?? fontChange.nodeName;
+    } else if (added) {
+      cause = 'injected_content';
+      causeDetail = added.nodeName || `node #${added.nodeId}`;
+    } else if (image) {
+      cause = 'late_image';
+      causeDetail = image.url;
+    } else if (font) {
+      cause = 'web_font';
+      causeDetail = font.url;
+    }
+
+    return {
+      timestamp: shift.ts,
+      score: shift.score,
+      movedNodes: this.extractMovedNodes(shift.event, evidence.nodeNames),
+      cause,
+      causeDetail,
+    };
+  }
+
+  /**
+   * Extract the nodes moved by a shift, most-moved first
+   */
+  private extractMovedNodes(
+    event: TraceEvent,
+    nodeNames: Map<number, string>,
+  ): ShiftedNode[] {
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    if (!Array.isArray(data?.impacted_nodes)) {
+      return [];
+    }
+
+    const nodes: ShiftedNode[] = [];
+    for (const impacted of data.impacted_nodes as unknown[]) {
+      if (typeof impacted !== 'object' || impacted === null) continue;
+      const n = impacted as Record<string, unknown>;
+      if (typeof n.node_id !== 'number') continue;
+
+      const oldRect = Array.isArray(n.old_rect) ? (n.old_rect as number[]) : [];
+      const newRect = Array.isArray(n.new_rect) ? (n.new_rect as number[]) : [];
+      const distancePx = Math.max(
+        Math.abs((newRect[0] ?? 0) - (oldRect[0] ?? 0)),
+        Math.abs((newRect[1] ?? 0) - (oldRect[1] ?? 0)),
+      );
+
+      nodes.push({
+        nodeId: n.node_id,
+        node: nodeNames.get(n.node_id) ?? `node #${n.node_id}`,
+        distancePx,
+      });
+    }
+
+    return nodes.sort((a, b) => b.distancePx - a.distancePx);
+  }
+
+  /**
+   * Total duration of the layouts that produced the shifts in a window
+   */
+  private calculateLayoutCostMs(
+    window: LayoutShiftSessionWindow,
+    layouts: LayoutRun[],
+  ): number {
+    let costUs = 0;
+    let previousTs: number | undefined;
+
+    for (const shift of window.shifts) {
+      const from = Math.max(
+        previousTs ?? -Infinity,
+        shift.ts - CAUSE_LOOKBACK_MS * 1000,
+      );
+      for (const layout of layouts) {
+        const end = layout.ts + layout.dur;
+        if (end > from && end <= shift.ts) {
+          costUs += layout.dur;
+        }
+      }
+      previousTs = shift.ts;
+    }
+
+    return costUs / 1000;
+  }
+
+  /**
+   * Map a session window score to severity using web-vitals thresholds
+   */
+  private mapSeverity(windowScore: number): Severity {
+    if (windowScore > CLS_POOR_THRESHOLD) return 'critical';
+    if (windowScore > CLS_GOOD_THRESHOLD) return 'high';
+    return 'warning';
+  }
+
+  /**
+   * Create a detection from a session window
+   */
+  private createDetection(
+    window: LayoutShiftSessionWindow,
+    cls: number,
+    evidence: CauseEvidence,
+    context: DetectionContext,
+  ): LayoutShiftDetection {
+    const traceDurationMs =
+      (context.traceEndTime - context.traceStartTime) / 1000;
+
+    const shifts = window.shifts.map((shift, index) =>
+      this.attributeShift(shift, window.shifts[index - 1]?.ts, evidence),
+    );
+
+    // Most-moved node across the window
+    const topNode = shifts
+      .flatMap((s) => s.movedNodes)
+      .reduce<
+        ShiftedNode | undefined
+      >((top, node) => (!top || node.distancePx > top.distancePx ? node : top), undefined);
+
+    // Cause contributing the most score
+    const causeScores = new Map<LayoutShiftCause, number>();
+    for (const shift of shifts) {
+      causeScores.set(
+        shift.cause,
+        (causeScores.get(shift.cause) ?? 0) + shift.score,
+      );
+    }
+    const [mainCause] = [...causeScores.entries()].sort(
+      (a, b) => b[1] - a[1],
+    )[0]!;
+
+    const layoutCostMs = this.calculateLayoutCostMs(window, evidence.layouts);
+
+    const scoringInput: ScoringInput = {
+      detectionType: 'layout_shift',
+      durationMs: layoutCostMs,
+      occurrences: shifts.length,
+      frameBudgetMs: context.frameBudgetMs,
+      traceDurationMs: traceDurationMs > 0 ? traceDurationMs : 1000,
+      layoutShiftScore: window.score,
+    };
+
+    const scoringResult = this.scoringService.calculateScore(scoringInput);
+    const windowDurationMs = (window.end - window.start) / 1000;
+
+    return {
+      type: 'layout_shift',
+      severity: this.mapSeverity(window.score),
+      description:
+        `Layout shift window scoring ${window.score.toFixed(3)} over ${shifts.length} shift(s), ` +
+        `mostly from ${CAUSE_LABELS[mainCause]}` +
+        (topNode ? `; "${topNode.node}" moved ${topNode.distancePx}px` : ''),
+      location: {
+        element: topNode?.node,
+      },
+      metrics: {
+        durationMs: layoutCostMs,
+        occurrences: shifts.length,
+        impactScore: scoringResult.impactScore,
+        confidence: scoringResult.confidence,
+        estimatedSpeedupPct: scoringResult.estimatedSpeedupPct,
+        speedupExplanation: scoringResult.speedupExplanation,
+        frameBudgetImpactPct: scoringResult.frameBudgetImpactPct,
+        riskAssessment: scoringResult.riskAssessment,
+      },
+      evidence: window.shifts.map((s) => s.event),
+      windowScore: window.score,
+      windowStart: window.start,
+      windowDurationMs,
+      shifts,
+      cls,
+    };
+  }
+}
@@ -13,7 +13,11 @@ import type {
   ReadWritePattern,
   DOMPropertyAccess,
 } from '../../shared/types/index.js';
-import type { IDetector, DetectionContext } from '../interfaces/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+} from '../interfaces/index.js';
 import { AdapterCapability } from '../../adapters/interfaces/index.js';
 import { ScoringService, type ScoringInput } from '../scoring/index.js';
 
@@ -89,22 +93,64 @@ export class LayoutThrashDetector implements IDetector {
 
   constructor(private readonly scoringService: ScoringService) {}
 
+  /**
+   * Layout events and the frames they are grouped into
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    return (
+      this.isLayoutEvent(event) ||
+      event.name === 'BeginFrame' ||
+      event.name === 'BeginMainThreadFrame'
+    );
+  }
+
   /**
    * Detect layout thrashing patterns in trace data
    */
   detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
-    const layoutEvents = this.extractLayoutEvents(trace);
-    const thrashingPatterns = this.findThrashingPatterns(
-      layoutEvents,
-      trace,
-      context,
-    );
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
 
-    return Promise.resolve(
-      thrashingPatterns.map((pattern) =>
-        this.createDetection(pattern, context),
-      ),
-    );
+  /**
+   * Find thrashing frame by frame as chunks are read, keeping only the
+   * patterns found so far
+   */
+  createSession(): IDetectorSession {
+    const patterns = new Map<string, ThrashingPattern>();
+    let nextFrameId = 0;
+    let lastFrameEvent: TraceEvent | undefined;
+
+    return {
+      consume: (chunk, context) => {
+        const frameEvents = chunk.traceEvents.filter(
+          (e) => e.name === 'BeginFrame' || e.name === 'BeginMainThreadFrame',
+        );
+        // The frame a chunk is cut at also starts the next chunk
+        const firstFrameId =
+          lastFrameEvent && frameEvents.includes(lastFrameEvent)
+            ? nextFrameId - 1
+            : nextFrameId;
+        nextFrameId = firstFrameId + frameEvents.length;
+        lastFrameEvent = frameEvents[frameEvents.length - 1];
+
+        this.findThrashingPatterns(
+          patterns,
+          this.extractLayoutEvents(chunk),
+          frameEvents,
+          firstFrameId,
+          context,
+        );
+      },
+      finish: (context) =>
+        Promise.resolve(
+          Array.from(patterns.values())
+            // Filter patterns that meet minimum threshold
+            .filter((p) => p.events.length >= 2 && p.totalCostMs >= 1)
+            .map((pattern) => this.createDetection(pattern, context)),
+        ),
+    };
   }
 
   /**
@@ -236,17 +282,23 @@ export class LayoutThrashDetector implements IDetector {
   }
 
   /**
-   * Find thrashing patterns (rapid read-write-read sequences)
+   * Add thrashing patterns (rapid read-write-read sequences) to the
+   * patterns found so far
    */
   private findThrashingPatterns(
+    patterns: Map<string, ThrashingPattern>,
     layoutEvents: LayoutEvent[],
-    trace: TraceData,
+    frameEvents: TraceEvent[],
+    firstFrameId: number,
     context: DetectionContext,
-  ): ThrashingPattern[] {
-    const patterns = new Map<string, ThrashingPattern>();
-
+  ): void {
     // Group events by frame
-    const frameGroups = this.groupEventsByFrame(layoutEvents, trace, context);
+    const frameGroups = this.groupEventsByFrame(
+      layoutEvents,
+      frameEvents,
+      firstFrameId,
+      context,
+    );
 
     // Analyze each frame for thrashing
     for (const [frameId, events] of frameGroups) {
@@ -280,28 +332,19 @@ export class LayoutThrashDetector implements IDetector {
         }
       }
     }
-
-    // Filter patterns that meet minimum threshold
-    return Array.from(patterns.values()).filter(
-      (p) => p.events.length >= 2 && p.totalCostMs >= 1,
-    );
   }
 
   /**
-   * Group layout events by frame
+   * Group layout events by frame, numbering frames from `firstFrameId`
    */
   private groupEventsByFrame(
     layoutEvents: LayoutEvent[],
-    trace: TraceData,
+    frameEvents: TraceEvent[],
+    firstFrameId: number,
     context: DetectionContext,
   ): Map<number, LayoutEvent[]> {
     const frameGroups = new Map<number, LayoutEvent[]>();
 
-    // Find frame boundaries
-    const frameEvents = trace.traceEvents.filter(
-      (e) => e.name === 'BeginFrame' || e.name === 'BeginMainThreadFrame',
-    );
-
     if (frameEvents.length === 0) {
       // No frame events, group by time windows
       const windowMs = context.frameBudgetMs * 1000; // Convert to microseconds
@@ -324,7 +367,7 @@ export class LayoutThrashDetector implements IDetector {
         );
 
         if (eventsInFrame.length > 0) {
-          frameGroups.set(i, eventsInFrame);
+          frameGroups.set(firstFrameId + i, eventsInFrame);
         }
       }
     }
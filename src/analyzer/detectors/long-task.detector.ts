@@ -11,8 +11,17 @@ import type {
   Detection,
   LongTaskDetection,
   StackFrame,
+  CpuProfile,
 } from '../../shared/types/index.js';
-import type { IDetector, DetectionContext } from '../interfaces/index.js';
+import {
+  CpuProfileBuilder,
+  buildFlameGraph,
+} from '../../shared/utils/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+  DetectionContext,
+} from '../interfaces/index.js';
 import { AdapterCapability } from '../../adapters/interfaces/index.js';
 import { ScoringService, type ScoringInput } from '../scoring/index.js';
 
@@ -22,6 +31,8 @@ const LONG_TASK_THRESHOLD_MS = 50;
 interface TaskEvent {
   ts: number;
   dur: number;
+  pid: number;
+  tid: number;
   functionName: string;
   file: string;
   line: number;
@@ -57,6 +68,16 @@ const JS_EXECUTION_EVENTS = new Set([
   'ParseAuthorStyleSheet',
 ]);
 
+// Frame boundaries used to correlate long tasks with dropped frames
+const FRAME_EVENTS = new Set([
+  'BeginFrame',
+  'DrawFrame',
+  'BeginMainThreadFrame',
+]);
+
+// Sampled CPU profile events used for flame graphs
+const CPU_PROFILE_EVENTS = new Set(['Profile', 'ProfileChunk']);
+
 @Injectable()
 export class LongTaskDetector implements IDetector {
   readonly name = 'LongTaskDetector';
@@ -66,17 +87,62 @@ export class LongTaskDetector implements IDetector {
 
   constructor(private readonly scoringService: ScoringService) {}
 
+  /**
+   * Long JavaScript tasks, frames and the CPU profile samples
+   */
+  acceptsEvent(event: TraceEvent): boolean {
+    if (FRAME_EVENTS.has(event.name) || CPU_PROFILE_EVENTS.has(event.name)) {
+      return true;
+    }
+    return (
+      this.isJSExecutionEvent(event) &&
+      (event.dur ?? 0) >= LONG_TASK_THRESHOLD_MS * 1000
+    );
+  }
+
   /**
    * Detect long tasks in trace data
    */
   detect(trace: TraceData, context: DetectionContext): Promise<Detection[]> {
-    const longTasks = this.extractLongTasks(trace);
-    const frameDrops = this.extractFrameDrops(trace, context);
-    const taskPatterns = this.correlateWithFrameDrops(longTasks, frameDrops);
+    const session = this.createSession();
+    session.consume(trace, context);
+    return session.finish(context);
+  }
 
-    return Promise.resolve(
-      taskPatterns.map((pattern) => this.createDetection(pattern, context)),
-    );
+  /**
+   * Collect long tasks, frame drops and profile samples chunk by chunk,
+   * and correlate them once the whole trace was read
+   */
+  createSession(): IDetectorSession {
+    const longTasks: TaskEvent[] = [];
+    const frameDrops: Array<{ ts: number; duration: number }> = [];
+    const cpuProfiles = new CpuProfileBuilder();
+
+    return {
+      consume: (chunk, context) => {
+        for (const task of this.extractLongTasks(chunk)) {
+          longTasks.push(task);
+        }
+        for (const drop of this.extractFrameDrops(chunk, context)) {
+          frameDrops.push(drop);
+        }
+        cpuProfiles.add(chunk.traceEvents);
+      },
+      finish: (context) => {
+        longTasks.sort((a, b) => a.ts - b.ts);
+        const taskPatterns = this.correlateWithFrameDrops(
+          longTasks,
+          frameDrops,
+        );
+        const profiles = cpuProfiles.getProfiles();
+
+        return Promise.resolve(
+          taskPatterns.map((pattern) =>
+            this.createDetection(pattern, context, profiles),
+          ),
+        );
+      },
+    };
   }
 
   /**
@@ -96,6 +162,8 @@ export class LongTaskDetector implements IDetector {
       tasks.push({
         ts: event.ts,
         dur: event.dur ?? 0,
+        pid: event.pid,
+        tid: event.tid,
         functionName,
         file,
         line,
@@ -235,11 +303,8 @@ export class LongTaskDetector implements IDetector {
     context: DetectionContext,
   ): Array<{ ts: number; duration: number }> {
     const frameDrops: Array<{ ts: number; duration: number }> = [];
-    const frameEvents = trace.traceEvents.filter(
-      (e) =>
-        e.name === 'BeginFrame' ||
-        e.name === 'DrawFrame' ||
-        e.name === 'BeginMainThreadFrame',
+    const frameEvents = trace.traceEvents.filter((e) =>
+      FRAME_EVENTS.has(e.name),
     );
 
     const budgetUs = context.frameBudgetMs * 1000;
@@ -317,6 +382,7 @@ export class LongTaskDetector implements IDetector {
   private createDetection(
     pattern: TaskPattern,
     context: DetectionContext,
+    cpuProfiles: CpuProfile[],
   ): LongTaskDetection {
     // Calculate trace duration in milliseconds
     const traceDurationMs =
@@ -335,6 +401,17 @@ export class LongTaskDetector implements IDetector {
 
     const scoringResult = this.scoringService.calculateScore(scoringInput);
 
+    // Sampled call tree for the main thread while this task's pattern ran
+    const flameGraph = buildFlameGraph(
+      cpuProfiles,
+      pattern.events.map((e) => ({
+        start: e.ts,
+        end: e.ts + e.dur,
+        pid: e.pid,
+        tid: e.tid,
+      })),
+    );
+
     return {
       type: 'long_task',
       severity: scoringResult.severity,
@@ -363,6 +440,7 @@ export class LongTaskDetector implements IDetector {
       occurrences: pattern.events.length,
       correlatedFrameDrops: pattern.correlatedFrameDrops,
       callStack: pattern.callStack,
+      flameGraph,
     };
   }
 }
@@ -8,6 +8,8 @@
 
 import type {
   TraceData,
+  TraceEvent,
+  TraceMetadata,
   TraceSummary,
   FrameMetrics,
   Detection,
@@ -15,6 +17,9 @@ import type {
 import type {
   TraceSnapshot,
   FrameMetricsSummary,
+  FrameTiming,
+  LongTaskInfo,
+  DOMSignal,
 } from '../../adapters/models/index.js';
 import type { AdapterCapability } from '../../adapters/interfaces/index.js';
 
@@ -29,6 +34,16 @@ export interface AnalyzeOptions {
   adapterCapabilities?: AdapterCapability[];
   /** Adapter type for logging/reporting */
   adapterType?: string;
+  /** Domains whose scripts are ours, in addition to the traced page's */
+  firstPartyDomains?: string[];
+}
+
+/**
+ * Options for analyzing a trace whose events are streamed one at a time
+ */
+export interface AnalyzeStreamOptions extends AnalyzeOptions {
+  /** Memory limit for the events buffered before a chunk is analyzed */
+  maxBufferSizeMB: number;
 }
 
 /**
@@ -37,10 +52,22 @@ export interface AnalyzeOptions {
 export interface AnalysisResult {
   summary: TraceSummary;
   detections: Detection[];
+  /** Per-frame timeline, when the trace has frames */
+  timeline?: FrameTimeline;
   /** Warnings about limited analysis due to adapter capabilities */
   warnings?: AnalysisWarning[];
 }
 
+/**
+ * Individual frames with the long tasks and DOM signals around them, for
+ * drilling into single frames in reports
+ */
+export interface FrameTimeline {
+  frames: FrameTiming[];
+  longTasks: LongTaskInfo[];
+  domSignals: DOMSignal[];
+}
+
 /**
  * Warning about limited analysis capabilities
  */
@@ -82,6 +109,24 @@ export interface TraceSnapshotDetectionContext extends DetectionContext {
   platform: string;
 }
 
+/**
+ * One detector's pass over a trace that is read in chunks
+ */
+export interface IDetectorSession {
+  /**
+   * Read the next chunk of the trace. Chunks are cut at frame starts, and
+   * the frame event a chunk is cut at ends that chunk and starts the next.
+   * @param chunk Trace events of the chunk
+   * @param context Detection context for the trace read so far
+   */
+  consume(chunk: TraceData, context: DetectionContext): void;
+  /**
+   * Detect issues in everything read
+   * @param context Detection context for the whole trace
+   */
+  finish(context: DetectionContext): Promise<Detection[]>;
+}
+
 /**
  * Detector interface for trace analysis
  */
@@ -96,6 +141,19 @@ export interface IDetector {
    * @param context Detection context
    */
   detect(trace: TraceData, context: DetectionContext): Promise<Detection[]>;
+  /**
+   * Whether detect() reads this event
+   * Optional - used when analyzing a stream to retain only the events some
+   * detector needs; detectors without it receive every event
+   * @param event Trace event
+   */
+  acceptsEvent?(event: TraceEvent): boolean;
+  /**
+   * Start detecting issues in a trace read in chunks
+   * Optional - detectors without it run detect() on each chunk and their
+   * detections are combined
+   */
+  createSession?(): IDetectorSession;
   /**
    * Detect issues in normalized TraceSnapshot
    * Optional - if not implemented, falls back to detect() with converted data
@@ -108,6 +166,25 @@ export interface IDetector {
   ): Promise<Detection[]>;
 }
 
+/**
+ * Streamed trace analysis. Events are offered one at a time and only the
+ * ones the summary or a detector reads are buffered; the buffer is analyzed
+ * a chunk at a time whenever it fills.
+ */
+export interface ITraceAnalysisStream {
+  /**
+   * Offer the next trace event
+   * @param event Trace event
+   * @param sizeBytes Estimated in-memory size, if already known
+   */
+  push(event: TraceEvent, sizeBytes?: number): void;
+  /**
+   * Analyze the buffered events and report on the whole trace
+   * @param metadata Trace metadata, known once the whole trace was read
+   */
+  finish(metadata?: TraceMetadata): Promise<AnalysisResult>;
+}
+
 /**
  * Analyzer service interface
  */
@@ -123,6 +200,10 @@ export interface IAnalyzerService {
     snapshot: TraceSnapshot,
     options: AnalyzeOptions,
   ): Promise<AnalysisResult>;
+  /**
+   * Analyze a trace streamed event by event, in bounded memory
+   */
+  createStream(options: AnalyzeStreamOptions): ITraceAnalysisStream;
   getDetectors(): IDetector[];
   registerDetector(detector: IDetector): void;
 }
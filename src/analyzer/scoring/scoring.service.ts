@@ -28,7 +28,10 @@ export type ScoringDetectionType =
   | 'gpu_stall'
   | 'long_task'
   | 'heavy_paint'
-  | 'forced_reflow';
+  | 'forced_reflow'
+  | 'input_latency'
+  | 'layout_shift'
+  | 'gc_jank';
 
 /**
  * Input metrics for scoring calculation
@@ -52,6 +55,10 @@ export interface ScoringInput {
   layerCount?: number;
   /** Optional: stall type for GPU issues */
   stallType?: 'sync' | 'texture_upload' | 'raster';
+  /** Optional: worst input-to-next-paint latency for interaction issues */
+  interactionLatencyMs?: number;
+  /** Optional: session window score for layout shift issues */
+  layoutShiftScore?: number;
 }
 
 /**
@@ -153,6 +160,7 @@ const EFFICIENCY_FACTORS: Record<string, number> = {
   width_percentage: 0.6,
   css_containment: 0.75,
   layer_promotion: 0.65,
+  reserve_space: 0.8,
 
   // JS fixes - variable efficiency
   batch_dom_writes: 0.7,
@@ -160,6 +168,9 @@ const EFFICIENCY_FACTORS: Record<string, number> = {
   move_to_worker: 0.6,
   use_raf: 0.65,
   use_css_animation: 0.8,
+  yield_to_main: 0.6,
+  object_pooling: 0.6,
+  hoist_closures: 0.5,
   virtualization: 0.7,
   lazy_loading: 0.55,
 
@@ -182,6 +193,9 @@ const TYPE_MODIFIERS: Record<ScoringDetectionType, number> = {
   long_task: 1.0, // Standard impact
   heavy_paint: 0.9, // Often less noticeable
   forced_reflow: 1.15, // Synchronous, blocking
+  input_latency: 1.2, // Directly felt by the user
+  layout_shift: 1.1, // Visual instability, not main-thread cost
+  gc_jank: 1.1, // Pauses land at unpredictable points in a frame
 };
 
 /**
@@ -346,6 +360,8 @@ export class ScoringService {
       correlatedFrameDrops,
       layerCount,
       stallType,
+      interactionLatencyMs,
+      layoutShiftScore,
     } = input;
 
     let impactScore = 50; // Base score
@@ -359,6 +375,7 @@ export class ScoringService {
         break;
 
       case 'long_task':
+      case 'gc_jank':
         // Frame drops directly correlate with user-visible jank
         if (correlatedFrameDrops !== undefined) {
           impactScore += Math.min(correlatedFrameDrops * 5, 40);
@@ -390,6 +407,23 @@ export class ScoringService {
           impactScore += Math.min(Math.log10(affectedNodes + 1) * 15, 20);
         }
         break;
+
+      case 'input_latency':
+        // Every 10ms beyond the 200ms "good" INP threshold adds impact
+        if (interactionLatencyMs !== undefined) {
+          impactScore += Math.min(
+            Math.max(interactionLatencyMs - 200, 0) / 10,
+            40,
+          );
+        }
+        break;
+
+      case 'layout_shift':
+        // A window at the 0.25 "poor" CLS threshold adds the maximum impact
+        if (layoutShiftScore !== undefined) {
+          impactScore += Math.min(layoutShiftScore * 200, 50);
+        }
+        break;
     }
 
     return Math.min(100, impactScore);
@@ -495,6 +529,9 @@ export class ScoringService {
       long_task: 'use_raf',
       heavy_paint: 'css_containment',
       forced_reflow: 'batch_dom_writes',
+      input_latency: 'yield_to_main',
+      layout_shift: 'reserve_space',
+      gc_jank: 'object_pooling',
     };
 
     return fixTypeMap[detectionType] ?? 'default';
@@ -519,6 +556,9 @@ export class ScoringService {
       long_task: 'breaking up long tasks',
       heavy_paint: 'applying CSS containment',
       forced_reflow: 'eliminating forced synchronous layouts',
+      input_latency: 'yielding to the main thread in input handlers',
+      layout_shift: 'reserving space for late-loading content',
+      gc_jank: 'reducing allocations in hot code',
     };
 
     const fixDescription = typeDescriptions[detectionType];
@@ -8,7 +8,7 @@
  * Module Architecture:
  * - ServicesModule: Global shared services (storage, config, browser validation, etc.)
  * - AdaptersModule: Browser adapter infrastructure (CDP, WebKit native)
- * - CommandsModule: CLI commands (init, profile, analyze, compare, fix, monitor, rules)
+ * - CommandsModule: CLI commands (init, profile, analyze, compare, fix, monitor, export, rules, history, bisect, serve)
  *
  * The CommandsModule internally imports all feature modules:
  * - RecorderModule: CDP connection and trace recording
@@ -20,6 +20,13 @@
  * - PatcherModule: Patch generation and application
  * - MonitorModule: Continuous performance monitoring
  * - ReplayHarnessModule: Issue reproduction export
+ * - ExporterModule: Chrome JSON and Perfetto trace export
+ * - PluginsModule: Third-party detectors, suggesters, adapters and reporters
+ * - HistoryModule: Long-term run history and trends
+ * - BisectModule: git bisect driven by profiling
+ * - AlertsModule: Webhook, Slack, syslog and file sinks for monitor violations
+ *
+ * The serve command bootstraps ServerModule as a separate HTTP application.
  *
  */
 
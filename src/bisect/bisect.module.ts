@@ -0,0 +1,27 @@
+/**
+ * Bisect Module
+ * Provides git bisect driven by profiling, to find the commit that
+ * regressed a metric
+ *
+ */
+
+import { Module } from '@nestjs/common';
+import { BisectService } from './bisect.service.js';
+import { PatcherModule } from '../patcher/patcher.module.js';
+import { RecorderModule } from '../recorder/recorder.module.js';
+import { AnalyzerModule } from '../analyzer/analyzer.module.js';
+import { CompareModule } from '../compare/compare.module.js';
+import { RulesModule } from '../rules/rules.module.js';
+
+@Module({
+  imports: [
+    PatcherModule,
+    RecorderModule,
+    AnalyzerModule,
+    CompareModule,
+    RulesModule,
+  ],
+  providers: [BisectService],
+  exports: [BisectService],
+})
+export class BisectModule {}
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for BisectService, run against a temporary git repository
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { execSync } from 'child_process';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { BisectService } from './bisect.service.js';
+import { GitService, GIT_WORKING_DIR } from '../patcher/git.service.js';
+import { RecorderService } from '../recorder/recorder.service.js';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { CompareService } from '../compare/compare.service.js';
+import { RulesService } from '../rules/rules.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { TraceLifecycleService } from '../services/trace-lifecycle.service.js';
+import { BisectError } from '../errors/error-types.js';
+import type { TraceSummary } from '../shared/types/index.js';
+import type { BisectOptions } from './interfaces/index.js';
+
+/** Long task CPU time committed at each commit, oldest first */
+const LONG_TASK_MS = [10, 12, 11, 13, 80, 85, 90];
+
+function summary(longTaskMs: number): TraceSummary {
+  return {
+    id: 'summary',
+    name: 'bisect',
+    url: 'https://app.test/',
+    duration_ms: 1000,
+    frames: {
+      total: 60,
+      dropped: 0,
+      // Long tasks cost frames
+      avg_fps: 60 - Math.round(longTaskMs / 2),
+      frame_budget_ms: 16.67,
+    },
+    phase_breakdown: {
+      style_recalc_ms: 1,
+      layout_ms: 1,
+      paint_ms: 1,
+      composite_ms: 1,
+      gpu_ms: 0,
+    },
+    hotspots: {
+      layout_thrashing: [],
+      gpu_stalls: [],
+      long_tasks: [
+        {
+          function: 'render',
+          file: 'app.js',
+          line: 1,
+          cpu_ms: longTaskMs,
+          occurrences: 1,
+        },
+      ],
+      layout_shifts: [],
+    },
+    suggestions: [],
+    metadata: { scenario: 'scroll' } as TraceSummary['metadata'],
+  };
+}
+
+describe('BisectService', () => {
+  let service: BisectService;
+  let repoDir: string;
+  let commits: string[];
+
+  const git = (args: string) =>
+    execSync(`git ${args}`, { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+  const options = (overrides: Partial<BisectOptions> = {}): BisectOptions => ({
+    good: commits[0]!,
+    bad: 'main',
+    buildCommand: 'true',
+    url: 'https://app.test/',
+    scenario: 'scroll',
+    metric: 'long_task_ms',
+    threshold: 50,
+    runs: 2,
+    duration: 1,
+    headless: true,
+    fpsTarget: 60,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'render-debugger-bisect-'));
+    git('init -q -b main');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    commits = LONG_TASK_MS.map((value, i) => {
+      execSync(`echo ${value} > long-task.txt`, { cwd: repoDir });
+      git('add long-task.txt');
+      git(`commit -q -m "Change ${i}"`);
+      return git('rev-parse HEAD');
+    });
+
+    // Each profile's trace carries the long task time of the checked out
+    // commit, read back as its metadata
+    const recorderService = {
+      profile: jest.fn(async () => ({
+        traceData: { traceEvents: [] },
+        tracePath: (
+          await readFile(join(repoDir, 'long-task.txt'), 'utf-8')
+        ).trim(),
+      })),
+    };
+    const storageService = {
+      streamTrace: jest.fn((tracePath: string) =>
+        Promise.resolve({ longTaskMs: Number(tracePath) }),
+      ),
+    };
+    const analyzerService = {
+      createStream: jest.fn(() => ({
+        push: jest.fn(),
+        finish: (metadata: { longTaskMs: number }) =>
+          Promise.resolve({
+            summary: summary(metadata.longTaskMs),
+            detections: [],
+          }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BisectService,
+        GitService,
+        CompareService,
+        RulesService,
+        { provide: GIT_WORKING_DIR, useValue: repoDir },
+        { provide: RecorderService, useValue: recorderService },
+        { provide: AnalyzerService, useValue: analyzerService },
+        { provide: StorageService, useValue: storageService },
+        TraceLifecycleService,
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(BisectService);
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should find the first commit whose metric reaches the threshold', async () => {
+    const result = await service.bisect(options());
+
+    expect(result.firstBadCommit).toBe(commits[4]);
+    expect(result.subject).toBe('Change 4');
+    expect(result.lastGoodCommit).toBe(commits[3]);
+    expect(result.comparison.baseRunCount).toBe(2);
+    expect(result.comparison.hotspots.longTasks[0]).toMatchObject({
+      baseCpuMs: 13,
+      headCpuMs: 80,
+      direction: 'regression',
+    });
+    expect(result.steps.slice(0, 2).map((s) => s.verdict)).toEqual([
+      'good',
+      'bad',
+    ]);
+    // The original branch is checked out again
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('main');
+  });
+
+  it('should treat low values as bad for metrics where higher is better', async () => {
+    const result = await service.bisect(
+      options({ metric: 'avg_fps', threshold: 30 }),
+    );
+
+    expect(result.firstBadCommit).toBe(commits[4]);
+    expect(result.lastGoodCommit).toBe(commits[3]);
+  });
+
+  it('should skip commits that fail to build', async () => {
+    const result = await service.bisect(
+      options({
+        buildCommand: `test "$(git rev-parse HEAD)" != ${commits[5]}`,
+      }),
+    );
+
+    expect(result.firstBadCommit).toBe(commits[4]);
+    expect(result.steps.find((s) => s.commit === commits[5])).toMatchObject({
+      verdict: 'skip',
+      reason: expect.stringContaining('build failed') as string,
+    });
+  });
+
+  it('should fail when only skipped commits are left', async () => {
+    await expect(
+      service.bisect(
+        options({
+          buildCommand: `test "$(git rev-parse HEAD)" != ${commits[4]}`,
+        }),
+      ),
+    ).rejects.toThrow('only commits that failed to build or profile');
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('main');
+  });
+
+  it('should refuse a good commit that is already over the threshold', async () => {
+    await expect(
+      service.bisect(options({ good: commits[5]! })),
+    ).rejects.toThrow(BisectError);
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('main');
+    expect(git('status --porcelain')).toBe('');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Bisect Service
+ * Drives `git bisect` to find the commit that pushed a rule metric over a
+ * threshold, building and profiling each commit it checks out
+ *
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { GitService } from '../patcher/git.service.js';
+import { RecorderService } from '../recorder/recorder.service.js';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { CompareService } from '../compare/compare.service.js';
+import { RulesService } from '../rules/rules.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { TraceLifecycleService } from '../services/trace-lifecycle.service.js';
+import {
+  BisectError,
+  DirtyWorkingTreeError,
+  GitRequiredError,
+} from '../errors/error-types.js';
+import { median } from '../shared/utils/index.js';
+import type { TraceSummary } from '../shared/types/index.js';
+import type {
+  AnalysisResult,
+  AnalyzeStreamOptions,
+} from '../analyzer/interfaces/index.js';
+import type {
+  BisectOptions,
+  BisectResult,
+  BisectStep,
+} from './interfaces/index.js';
+
+const execAsync = promisify(exec);
+
+/** Build output can be large; only failures are reported */
+const BUILD_MAX_BUFFER = 64 * 1024 * 1024;
+
+@Injectable()
+export class BisectService {
+  private readonly logger = new Logger(BisectService.name);
+
+  constructor(
+    private readonly gitService: GitService,
+    private readonly recorderService: RecorderService,
+    private readonly analyzerService: AnalyzerService,
+    private readonly compareService: CompareService,
+    private readonly rulesService: RulesService,
+    private readonly storageService: StorageService,
+    private readonly traceLifecycleService: TraceLifecycleService,
+  ) {}
+
+  /**
+   * Find the first commit between `good` and `bad` whose median metric value
+   * reaches the threshold, in the metric's direction. Both endpoints are
+   * verified first. Commits that fail to build or profile are skipped. The
+   * original branch is checked out again afterwards, whatever the outcome.
+   */
+  async bisect(options: BisectOptions): Promise<BisectResult> {
+    if (!(await this.gitService.isGitRepo())) {
+      throw new GitRequiredError('Bisect');
+    }
+    if (await this.gitService.hasUncommittedChanges()) {
+      throw new DirtyWorkingTreeError('bisect');
+    }
+
+    const good = await this.gitService.resolveCommit(options.good);
+    const bad = await this.gitService.resolveCommit(options.bad);
+    const originalRef = await this.getOriginalRef();
+
+    const steps: BisectStep[] = [];
+    const runs = new Map<string, TraceSummary[]>();
+    const evaluate = async (commit: string): Promise<BisectStep> => {
+      const step = await this.evaluateCommit(commit, options, runs);
+      steps.push(step);
+      options.onStep?.(step);
+      return step;
+    };
+
+    let bisecting = false;
+    try {
+      await this.gitService.checkoutRef(good);
+      this.assertEndpoint(await evaluate(good), 'good', options);
+      await this.gitService.checkoutRef(bad);
+      this.assertEndpoint(await evaluate(bad), 'bad', options);
+
+      bisecting = true;
+      let firstBad = await this.gitService.bisectStart(bad, good);
+      while (!firstBad) {
+        const step = await evaluate(await this.gitService.getHeadCommit());
+        try {
+          firstBad = await this.gitService.bisectMark(step.verdict);
+        } catch (error) {
+          // git gives up when only skipped commits are left
+          if (step.verdict !== 'skip') throw error;
+          throw new BisectError(
+            'only commits that failed to build or profile are left to test',
+          );
+        }
+      }
+
+      const lastGood = await this.getLastGoodCommit(firstBad, good, runs);
+      return {
+        firstBadCommit: firstBad,
+        subject: await this.gitService.getCommitSubject(firstBad),
+        lastGoodCommit: lastGood,
+        metric: options.metric,
+        threshold: options.threshold,
+        steps,
+        comparison: this.compareService.compareRuns(
+          runs.get(lastGood)!,
+          runs.get(firstBad)!,
+        ),
+      };
+    } finally {
+      await this.restore(originalRef, bisecting);
+    }
+  }
+
+  /**
+   * Build and profile the checked out commit
+   */
+  private async evaluateCommit(
+    commit: string,
+    options: BisectOptions,
+    runs: Map<string, TraceSummary[]>,
+  ): Promise<BisectStep> {
+    const subject = await this.gitService.getCommitSubject(commit);
+    const skip = (reason: string): BisectStep => ({
+      commit,
+      subject,
+      verdict: 'skip',
+      values: [],
+      reason,
+    });
+
+    try {
+      await execAsync(options.buildCommand, {
+        cwd: this.gitService.getWorkingDir(),
+        maxBuffer: BUILD_MAX_BUFFER,
+      });
+    } catch (error) {
+      return skip(`build failed: ${this.getErrorMessage(error)}`);
+    }
+
+    const summaries: TraceSummary[] = [];
+    const values: number[] = [];
+    const { maxBufferSizeMB } = this.traceLifecycleService.getConfig();
+    for (let i = 0; i < options.runs; i++) {
+      try {
+        const profile = await this.recorderService.profile({
+          url: options.url,
+          scenario: options.scenario,
+          browserPath: options.browserPath,
+          duration: options.duration,
+          headless: options.headless,
+          fpsTarget: options.fpsTarget,
+          cdpPort: options.cdpPort,
+          maxBufferMb: maxBufferSizeMB,
+        });
+        const { summary, detections } = await this.analyzeTrace(
+          profile.tracePath,
+          {
+            name: `bisect-${commit.slice(0, 8)}`,
+            fpsTarget: options.fpsTarget,
+            maxBufferSizeMB,
+          },
+        );
+        const value = this.rulesService.extractMetrics(summary, {
+          trace: profile.traceData,
+          detections,
+        })[options.metric];
+        if (value === undefined) {
+          return skip(`trace has no ${options.metric} data`);
+        }
+        summaries.push(summary);
+        values.push(value);
+      } catch (error) {
+        return skip(`profile failed: ${this.getErrorMessage(error)}`);
+      }
+    }
+
+    runs.set(commit, summaries);
+    const value = median(values);
+    return {
+      commit,
+      subject,
+      verdict: this.rulesService.meetsThreshold(
+        options.metric,
+        value,
+        options.threshold,
+      )
+        ? 'bad'
+        : 'good',
+      value,
+      values,
+    };
+  }
+
+  private assertEndpoint(
+    step: BisectStep,
+    expected: 'good' | 'bad',
+    options: BisectOptions,
+  ): void {
+    if (step.verdict === expected) return;
+
+    const commit = step.commit.slice(0, 8);
+    if (step.verdict === 'skip') {
+      throw new BisectError(
+        `${expected} commit ${commit} could not be evaluated (${step.reason})`,
+      );
+    }
+    throw new BisectError(
+      `${expected} commit ${commit} has ${options.metric} ${step.value} which ${expected === 'good' ? 'reaches' : 'is within'} the threshold ${options.threshold}`,
+    );
+  }
+
+  /**
+   * The first parent of the first bad commit, or the good endpoint when the
+   * parent was never profiled (e.g. the good side of a merge)
+   */
+  private async getLastGoodCommit(
+    firstBad: string,
+    good: string,
+    runs: Map<string, TraceSummary[]>,
+  ): Promise<string> {
+    const parent = await this.gitService.resolveCommit(`${firstBad}^`);
+    return runs.has(parent) ? parent : good;
+  }
+
+  /**
+   * Stream a recorded trace file through the analyzer
+   */
+  private async analyzeTrace(
+    tracePath: string,
+    options: AnalyzeStreamOptions,
+  ): Promise<AnalysisResult> {
+    const stream = this.analyzerService.createStream(options);
+    const metadata = await this.storageService.streamTrace(
+      tracePath,
+      (event, sizeBytes) => stream.push(event, sizeBytes),
+    );
+    return stream.finish(metadata);
+  }
+
+  /**
+   * The branch to return to, or the commit when HEAD is detached
+   */
+  private async getOriginalRef(): Promise<string> {
+    const branch = await this.gitService.getCurrentBranch();
+    return branch === 'HEAD' ? await this.gitService.getHeadCommit() : branch;
+  }
+
+  private async restore(
+    originalRef: string,
+    bisecting: boolean,
+  ): Promise<void> {
+    try {
+      if (bisecting) {
+        await this.gitService.bisectReset();
+      }
+      await this.gitService.checkoutRef(originalRef);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check out ${originalRef} again: ${this.getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
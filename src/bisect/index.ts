@@ -0,0 +1,3 @@
+export * from './bisect.service.js';
+export * from './bisect.module.js';
+export * from './interfaces/index.js';
@@ -0,0 +1,67 @@
+/**
+ * Bisect module interfaces
+ *
+ */
+
+import type { RuleMetric } from '../../shared/types/index.js';
+import type { ComparisonResult } from '../../compare/interfaces/index.js';
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+/**
+ * Options for finding the commit that regressed a metric
+ */
+export interface BisectOptions {
+  /** Commit known to be within the threshold */
+  good: string;
+  /** Commit known to reach the threshold */
+  bad: string;
+  /** Shell command that builds the checked out commit */
+  buildCommand: string;
+  url: string;
+  scenario: string;
+  metric: RuleMetric;
+  /**
+   * Commits whose median metric value reaches this are bad: at or above it,
+   * or at or below it for metrics where higher is better, like avg_fps
+   */
+  threshold: number;
+  /** Profiles recorded per commit */
+  runs: number;
+  duration: number;
+  headless: boolean;
+  fpsTarget: number;
+  browserPath?: string;
+  cdpPort?: number;
+  /** Called after each commit has been evaluated */
+  onStep?: (step: BisectStep) => void;
+}
+
+/**
+ * Evaluation of one commit
+ */
+export interface BisectStep {
+  commit: string;
+  subject: string;
+  verdict: BisectVerdict;
+  /** Median metric value across runs */
+  value?: number;
+  /** Metric value of each run */
+  values: number[];
+  /** Why the commit was skipped */
+  reason?: string;
+}
+
+/**
+ * Outcome of a bisect session
+ */
+export interface BisectResult {
+  firstBadCommit: string;
+  subject: string;
+  lastGoodCommit: string;
+  metric: RuleMetric;
+  threshold: number;
+  steps: BisectStep[];
+  /** Runs of the last good commit compared against the first bad one */
+  comparison: ComparisonResult;
+}
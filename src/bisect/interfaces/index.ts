@@ -0,0 +1,5 @@
+/**
+ * Bisect interfaces exports
+ */
+
+export * from './bisect.interface.js';
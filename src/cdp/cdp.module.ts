@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { CDPConnectionService } from './cdp-connection.service.js';
 import { TracingService } from './tracing.service.js';
+import { EmulationService } from './emulation.service.js';
 
 @Module({
-  providers: [CDPConnectionService, TracingService],
-  exports: [CDPConnectionService, TracingService],
+  providers: [CDPConnectionService, TracingService, EmulationService],
+  exports: [CDPConnectionService, TracingService, EmulationService],
 })
 export class CdpModule {}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { CDPConnectionService } from './cdp-connection.service.js';
+import type {
+  IEmulationService,
+  TraceDeviceProfile,
+} from './interfaces/index.js';
+
+@Injectable()
+export class EmulationService implements IEmulationService {
+  constructor(private readonly cdpConnection: CDPConnectionService) {}
+
+  /**
+   * Throttle the CPU and network and override the device metrics of the
+   * connected page. Settings the profile leaves out are not changed.
+   */
+  async applyDeviceProfile(profile: TraceDeviceProfile): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) {
+      throw new Error('CDP client not connected');
+    }
+
+    await client.send('Emulation.setCPUThrottlingRate', {
+      rate: profile.cpu_slowdown,
+    });
+
+    if (profile.network) {
+      await client.send('Network.enable', {});
+      // CDP expects throughput in bytes per second
+      await client.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: profile.network.latency_ms,
+        downloadThroughput: (profile.network.download_kbps * 1000) / 8,
+        uploadThroughput: (profile.network.upload_kbps * 1000) / 8,
+      });
+    }
+
+    if (profile.viewport || profile.device_pixel_ratio !== undefined) {
+      await client.send('Emulation.setDeviceMetricsOverride', {
+        // Zero keeps the browser's own value
+        width: profile.viewport?.width ?? 0,
+        height: profile.viewport?.height ?? 0,
+        deviceScaleFactor: profile.device_pixel_ratio ?? 0,
+        mobile: profile.mobile ?? false,
+      });
+    }
+  }
+}
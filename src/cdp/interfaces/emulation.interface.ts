@@ -0,0 +1,11 @@
+/**
+ * Emulation interfaces for CDP Emulation and Network domains
+ */
+
+import type { TraceDeviceProfile } from '../../shared/types/index.js';
+
+export interface IEmulationService {
+  applyDeviceProfile(profile: TraceDeviceProfile): Promise<void>;
+}
+
+export { TraceDeviceProfile };
@@ -1,2 +1,3 @@
 export * from './cdp-connection.interface.js';
 export * from './tracing.interface.js';
+export * from './emulation.interface.js';
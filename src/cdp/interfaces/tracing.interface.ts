@@ -17,6 +17,7 @@ export interface TracingOptions {
 export interface ITracingService {
   startTracing(options: TracingOptions): Promise<void>;
   stopTracing(): Promise<TraceData>;
+  stopTracingToFile(filePath: string): Promise<TraceMetadata>;
   isTracing(): boolean;
   getCategories(): string[];
 }
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
 import { CDPConnectionService } from './cdp-connection.service.js';
 import type {
   ITracingService,
@@ -15,19 +16,37 @@ export const DEFAULT_TRACE_CATEGORIES = [
   'devtools.timeline',
   'blink.user_timing',
   'gpu',
+  'latencyInfo',
+  'loading',
   'v8.execute',
   'disabled-by-default-devtools.timeline',
   'disabled-by-default-devtools.timeline.frame',
   'disabled-by-default-devtools.timeline.stack',
+  'disabled-by-default-devtools.timeline.invalidationTracking',
   'disabled-by-default-v8.cpu_profiler',
 ];
 
+/**
+ * Bytes requested per IO.read when the trace is returned as a stream
+ */
+const IO_READ_CHUNK_SIZE = 1024 * 1024;
+
+interface IOReadResult {
+  data: string;
+  base64Encoded?: boolean;
+  eof: boolean;
+}
+
 @Injectable()
 export class TracingService implements ITracingService {
   private tracing = false;
+  private transferMode: TracingOptions['transferMode'] = 'ReportEvents';
   private traceEvents: TraceEvent[] = [];
-  private tracingCompletePromise: Promise<void> | null = null;
-  private tracingCompleteResolve: (() => void) | null = null;
+  /** Resolves with the stream handle in ReturnAsStream mode */
+  private tracingCompletePromise: Promise<string | undefined> | null = null;
+  private tracingCompleteResolve: ((stream?: string) => void) | null = null;
+  /** Removes the CDP listeners of the current tracing session */
+  private removeTraceHandlers: (() => void) | null = null;
 
   constructor(private readonly cdpConnection: CDPConnectionService) {}
 
@@ -46,6 +65,7 @@ export class TracingService implements ITracingService {
 
     // Reset trace events
     this.traceEvents = [];
+    this.transferMode = options.transferMode ?? 'ReportEvents';
 
     // Set up event handlers for trace data collection
     this.setupTraceHandlers(client);
@@ -61,7 +81,7 @@ export class TracingService implements ITracingService {
       categories,
       options: 'sampling-frequency=10000',
       bufferUsageReportingInterval: options.bufferUsageReportingInterval ?? 500,
-      transferMode: options.transferMode ?? 'ReportEvents',
+      transferMode: this.transferMode,
       traceConfig: {
         recordMode: 'recordAsMuchAsPossible',
         includedCategories: options.categories,
@@ -72,9 +92,70 @@ export class TracingService implements ITracingService {
   }
 
   /**
-   * Stop tracing and return collected trace data
+   * Stop tracing and return collected trace data. Only for sessions that
+   * report events; stream sessions are stopped with stopTracingToFile().
    */
   async stopTracing(): Promise<TraceData> {
+    if (this.tracing && this.transferMode === 'ReturnAsStream') {
+      throw new Error(
+        'Tracing was started with transferMode ReturnAsStream, stop it with stopTracingToFile()',
+      );
+    }
+
+    await this.endTracing();
+
+    return {
+      traceEvents: [...this.traceEvents],
+      metadata: this.buildMetadata(),
+    };
+  }
+
+  /**
+   * Stop tracing and write the trace to a file, returning its metadata.
+   * A ReturnAsStream trace is written chunk by chunk as it is read back
+   * from the browser, so it is never held in memory.
+   */
+  async stopTracingToFile(filePath: string): Promise<TraceMetadata> {
+    const stream = await this.endTracing((client, handle) =>
+      this.writeTraceStream(client, handle, filePath),
+    );
+
+    if (!stream) {
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ traceEvents: this.traceEvents }),
+        'utf-8',
+      );
+    }
+
+    return this.buildMetadata();
+  }
+
+  /**
+   * Check if tracing is in progress
+   */
+  isTracing(): boolean {
+    return this.tracing;
+  }
+
+  /**
+   * Get available trace categories
+   */
+  getCategories(): string[] {
+    return [...DEFAULT_TRACE_CATEGORIES];
+  }
+
+  /**
+   * End tracing and wait for it to complete. A trace returned as a stream
+   * is handed to readStream before the session is torn down.
+   * Returns whether the trace was returned as a stream.
+   */
+  private async endTracing(
+    readStream?: (
+      client: NonNullable<ReturnType<CDPConnectionService['getClient']>>,
+      handle: string,
+    ) => Promise<void>,
+  ): Promise<boolean> {
     if (!this.tracing) {
       throw new Error('Tracing is not in progress');
     }
@@ -87,16 +168,30 @@ export class TracingService implements ITracingService {
     // End tracing
     await client.send('Tracing.end', {});
 
-    // Wait for tracing to complete
-    if (this.tracingCompletePromise) {
-      await this.tracingCompletePromise;
+    try {
+      // Wait for tracing to complete, then read the trace if it was
+      // returned as a stream rather than reported in dataCollected events
+      const stream = this.tracingCompletePromise
+        ? await this.tracingCompletePromise
+        : undefined;
+      if (stream && readStream) {
+        await readStream(client, stream);
+      }
+      return stream !== undefined;
+    } finally {
+      // Detach so that a later session does not collect events twice
+      this.removeTraceHandlers?.();
+      this.removeTraceHandlers = null;
+      this.tracing = false;
     }
+  }
 
-    this.tracing = false;
-
-    // Build trace data
+  /**
+   * Trace metadata known to the browser connection
+   */
+  private buildMetadata(): TraceMetadata {
     const browserInfo = this.cdpConnection.getBrowserInfo();
-    const metadata: TraceMetadata = {
+    return {
       browser_version: browserInfo?.browserVersion ?? 'unknown',
       user_agent: browserInfo?.userAgent ?? 'unknown',
       viewport: { width: 0, height: 0 },
@@ -105,25 +200,6 @@ export class TracingService implements ITracingService {
       scenario: '',
       fps_target: 60,
     };
-
-    return {
-      traceEvents: [...this.traceEvents],
-      metadata,
-    };
-  }
-
-  /**
-   * Check if tracing is in progress
-   */
-  isTracing(): boolean {
-    return this.tracing;
-  }
-
-  /**
-   * Get available trace categories
-   */
-  getCategories(): string[] {
-    return [...DEFAULT_TRACE_CATEGORIES];
   }
 
   /**
@@ -135,20 +211,58 @@ export class TracingService implements ITracingService {
     if (!client) return;
 
     // Handle trace data chunks
-    client.on('Tracing.dataCollected', (params: unknown) => {
+    const onDataCollected = (params: unknown) => {
       const data = params as { value: TraceEvent[] };
       if (data.value && Array.isArray(data.value)) {
         this.traceEvents.push(...data.value);
       }
-    });
+    };
 
     // Handle tracing complete
-    client.on('Tracing.tracingComplete', () => {
+    const onTracingComplete = (params: unknown) => {
+      const { stream } = params as { stream?: string };
       if (this.tracingCompleteResolve) {
-        this.tracingCompleteResolve();
+        this.tracingCompleteResolve(stream);
         this.tracingCompleteResolve = null;
         this.tracingCompletePromise = null;
       }
-    });
+    };
+
+    client.on('Tracing.dataCollected', onDataCollected);
+    client.on('Tracing.tracingComplete', onTracingComplete);
+    this.removeTraceHandlers = () => {
+      client.off('Tracing.dataCollected', onDataCollected);
+      client.off('Tracing.tracingComplete', onTracingComplete);
+    };
+  }
+
+  /**
+   * Write a ReturnAsStream trace to a file with IO.read, one chunk at a
+   * time, instead of buffering the trace
+   */
+  private async writeTraceStream(
+    client: NonNullable<ReturnType<CDPConnectionService['getClient']>>,
+    handle: string,
+    filePath: string,
+  ): Promise<void> {
+    try {
+      const file = await fs.open(filePath, 'w');
+      try {
+        for (;;) {
+          const chunk = (await client.send('IO.read', {
+            handle,
+            size: IO_READ_CHUNK_SIZE,
+          })) as IOReadResult;
+          await file.write(
+            Buffer.from(chunk.data, chunk.base64Encoded ? 'base64' : 'utf-8'),
+          );
+          if (chunk.eof) break;
+        }
+      } finally {
+        await file.close();
+      }
+    } finally {
+      await client.send('IO.close', { handle });
+    }
   }
 }
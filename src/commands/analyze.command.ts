@@ -14,8 +14,41 @@ import { StorageService } from '../services/storage.service.js';
 import { ConfigService } from '../services/config.service.js';
 import { SourceMapService } from '../services/sourcemap.service.js';
 import { ReplayHarnessService } from '../replay-harness/replay-harness.service.js';
-import { TraceParseError } from '../errors/error-types.js';
+import { HistoryService } from '../history/history.service.js';
+import { RulesService } from '../rules/rules.service.js';
+import { RuleBaselineService } from '../rules/rule-baseline.service.js';
+import {
+  TraceLifecycleService,
+  DEFAULT_TRACE_LIFECYCLE_CONFIG,
+} from '../services/trace-lifecycle.service.js';
+import {
+  InvalidArgumentError,
+  RuleValidationError,
+  SeverityThresholdExceededError,
+  TraceParseError,
+} from '../errors/error-types.js';
+import { calculateFrameMetrics } from '../adapters/models/index.js';
+import {
+  findScreenshotAt,
+  type CapturedScreenshot,
+} from '../shared/utils/index.js';
 import type { AnalysisReport } from '../reporter/interfaces/index.js';
+import type {
+  RuleSet,
+  RulesEvaluationResult,
+} from '../rules/interfaces/index.js';
+import type {
+  AnalyzeOptions,
+  AnalysisResult,
+} from '../analyzer/interfaces/index.js';
+import type {
+  Detection,
+  LongTaskDetection,
+  Severity,
+  TraceMetadata,
+} from '../shared/types/index.js';
+
+const SEVERITIES: Severity[] = ['info', 'warning', 'high', 'critical'];
 
 interface AnalyzeCommandOptions {
   name: string;
@@ -27,6 +60,14 @@ interface AnalyzeCommandOptions {
   sourceMaps?: string[];
   exportHarness?: boolean;
   harnessAll?: boolean;
+  reporter?: string[];
+  /** False when --no-history is given */
+  history?: boolean;
+  maxBufferMb?: number;
+  firstParty?: string[];
+  /** Rules file path, or true for the project rules */
+  rules?: string | boolean;
+  failOn?: Severity;
 }
 
 @Injectable()
@@ -45,6 +86,10 @@ export class AnalyzeCommand extends CommandRunner {
     private readonly configService: ConfigService,
     private readonly sourceMapService: SourceMapService,
     private readonly replayHarnessService: ReplayHarnessService,
+    private readonly historyService: HistoryService,
+    private readonly traceLifecycleService: TraceLifecycleService,
+    private readonly rulesService: RulesService,
+    private readonly ruleBaselines: RuleBaselineService,
   ) {
     super();
   }
@@ -71,9 +116,10 @@ export class AnalyzeCommand extends CommandRunner {
       const fpsTarget =
         options.fpsTarget ?? config?.profiling.defaultFpsTarget ?? 60;
 
-      // Load trace data
-      console.log(`> Loading trace: ${traceFile}`);
-      const traceData = await this.loadTrace(traceFile);
+      // Load rules up front, so that an invalid rules file fails fast
+      const rules = options.rules
+        ? await this.loadRules(options.rules)
+        : undefined;
 
       // Load source maps if provided
       if (options.sourceMaps && options.sourceMaps.length > 0) {
@@ -81,13 +127,32 @@ export class AnalyzeCommand extends CommandRunner {
         await this.sourceMapService.loadSourceMaps(options.sourceMaps);
       }
 
-      // Run analysis
-      console.log('> Analyzing trace data...');
-      const analysisResult = await this.analyzerService.analyze(traceData, {
+      if (options.maxBufferMb !== undefined) {
+        this.traceLifecycleService.configure({
+          maxBufferSizeMB: options.maxBufferMb,
+        });
+      }
+
+      // Run analysis while the trace is read
+      console.log(`> Analyzing trace: ${traceFile}`);
+      const analysisResult = await this.analyzeTrace(traceFile, {
         name: options.name,
         fpsTarget,
         sourceMapPaths: options.sourceMaps,
+        firstPartyDomains: [
+          ...(config?.analysis.firstPartyDomains ?? []),
+          ...(options.firstParty ?? []),
+        ],
       });
+      for (const warning of analysisResult.warnings ?? []) {
+        console.log(`⚠ ${warning.message}`);
+      }
+
+      if (options.sourceMaps && options.sourceMaps.length > 0) {
+        await this.resolveFlameGraphs(analysisResult.detections);
+      }
+
+      const screenshots = await this.loadScreenshots(traceFile, analysisResult);
 
       // Generate suggestions
       console.log('> Generating suggestions...');
@@ -108,6 +173,8 @@ export class AnalyzeCommand extends CommandRunner {
         },
         detections: analysisResult.detections,
         suggestions,
+        timeline: analysisResult.timeline,
+        screenshots,
       };
 
       // Generate and display terminal report
@@ -131,6 +198,11 @@ export class AnalyzeCommand extends CommandRunner {
         await this.writeHtmlReport(report, options.out, options.name);
       }
 
+      // Write reports in formats contributed by plugins
+      for (const format of options.reporter ?? []) {
+        await this.writeCustomReport(report, format, options.name);
+      }
+
       // Export replay harness if requested (Requirements 11.1, 11.2)
       if (options.exportHarness) {
         await this.exportReplayHarness(report, options);
@@ -141,6 +213,16 @@ export class AnalyzeCommand extends CommandRunner {
       const runId = `${options.name}-${timestamp}`;
       await this.storageService.writeSummary(runId, report.summary);
 
+      // Resolve baselines before this run joins the history they come from
+      const ruleResult = rules
+        ? await this.evaluateRules(rules, report, fpsTarget)
+        : undefined;
+
+      // Keep the run in the long-term history for trend reporting
+      if (options.history !== false) {
+        await this.recordHistory(runId, report);
+      }
+
       console.log('\nArtifacts:');
       console.log(
         `   Summary: ${this.storageService.getTracesDir()}/${runId}/trace-summary.json`,
@@ -152,6 +234,10 @@ export class AnalyzeCommand extends CommandRunner {
         console.log(`   HTML Report: ${options.out}`);
       }
 
+      if (ruleResult) {
+        this.checkRules(ruleResult, options.failOn ?? 'warning');
+      }
+
       console.log('\n✓ Analysis complete!\n');
       console.log('Next steps:');
       console.log(
@@ -168,17 +254,189 @@ export class AnalyzeCommand extends CommandRunner {
   }
 
   /**
-   * Load and parse trace file
+   * Load and validate the rules to evaluate. Without a path, the project
+   * rules are used, or the default rules when the project has none.
+   */
+  private async loadRules(rulesOption: string | true): Promise<RuleSet> {
+    const rulesPath =
+      rulesOption === true
+        ? path.join(this.storageService.getBaseDir(), 'rules.yaml')
+        : rulesOption;
+
+    let rules: RuleSet;
+    try {
+      rules = await this.rulesService.loadRules(rulesPath);
+    } catch (error) {
+      if (rulesOption !== true) {
+        throw new RuleValidationError(rulesPath, [
+          error instanceof Error ? error.message : String(error),
+        ]);
+      }
+      console.log('⚠ No rules.yaml found, evaluating the default rules');
+      return this.rulesService.getDefaultRules();
+    }
+
+    const result = this.rulesService.validateRules(rules);
+    if (!result.valid) {
+      throw new RuleValidationError(
+        rulesPath,
+        result.errors.map((e) =>
+          e.ruleId ? `[${e.ruleId}] ${e.field}: ${e.message}` : e.message,
+        ),
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * Evaluate rules against the run, comparing relative thresholds with the
+   * runs recorded for the same page and scenario
+   */
+  private async evaluateRules(
+    rules: RuleSet,
+    report: AnalysisReport,
+    fpsTarget: number,
+  ): Promise<RulesEvaluationResult> {
+    const { context, missingBaselines } =
+      await this.ruleBaselines.resolveContext(
+        rules,
+        report.summary.url,
+        report.summary.metadata?.scenario,
+      );
+    for (const ref of missingBaselines) {
+      console.log(
+        `⚠ No recorded runs on ${ref} for this URL and scenario, rules relative to it are skipped`,
+      );
+    }
+
+    const frames = report.timeline?.frames ?? [];
+    const metrics = this.rulesService.extractMetrics(report.summary, {
+      frameMetrics:
+        frames.length > 0
+          ? calculateFrameMetrics(frames, fpsTarget)
+          : undefined,
+      detections: report.detections,
+    });
+    return this.rulesService.evaluateAllRules(rules, metrics, context);
+  }
+
+  /**
+   * Print rule results, failing when violations meet the fail-on severity
+   */
+  private checkRules(result: RulesEvaluationResult, failOn: Severity): void {
+    console.log('\nRules:');
+    console.log(
+      `   ${result.evaluations.length - result.violations.length}/${result.evaluations.length} passed`,
+    );
+    for (const violation of result.violations) {
+      console.log(
+        `   ${violation.triggeredSeverity ?? violation.rule.severity}: ${violation.message}`,
+      );
+    }
+
+    const failing = result.violations.filter((v) =>
+      this.rulesService.severityMeetsThreshold(
+        v.triggeredSeverity ?? v.rule.severity,
+        failOn,
+      ),
+    );
+    if (failing.length > 0) {
+      throw new SeverityThresholdExceededError(failOn, failing.length);
+    }
+  }
+
+  /**
+   * Record the run in the history store. Failures only warn, as the
+   * analysis itself succeeded.
+   */
+  private async recordHistory(
+    runId: string,
+    report: AnalysisReport,
+  ): Promise<void> {
+    try {
+      await this.historyService.recordRun(
+        runId,
+        report.summary,
+        report.detections,
+      );
+    } catch (error) {
+      console.log(
+        `⚠ Could not record run in history: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Map sampled CPU profile frames of long tasks back to original sources
+   */
+  private async resolveFlameGraphs(detections: Detection[]): Promise<void> {
+    for (const detection of detections) {
+      if (detection.type !== 'long_task') continue;
+      const longTask = detection as LongTaskDetection;
+      if (longTask.flameGraph) {
+        longTask.flameGraph = await this.sourceMapService.resolveFlameGraph(
+          longTask.flameGraph,
+        );
+      }
+    }
+  }
+
+  /**
+   * Stream the trace file through the analyzer, so that only the events
+   * the analysis reads are held in memory, within the trace buffer limit
    */
-  private async loadTrace(tracePath: string) {
+  private async analyzeTrace(
+    tracePath: string,
+    options: AnalyzeOptions,
+  ): Promise<AnalysisResult> {
+    const stream = this.analyzerService.createStream({
+      ...options,
+      maxBufferSizeMB: this.traceLifecycleService.getConfig().maxBufferSizeMB,
+    });
+
+    let metadata: TraceMetadata | undefined;
     try {
-      return await this.storageService.readTrace(tracePath);
+      metadata = await this.storageService.streamTrace(
+        tracePath,
+        (event, sizeBytes) => stream.push(event, sizeBytes),
+      );
     } catch (error) {
       throw new TraceParseError(
         tracePath,
         error instanceof Error ? error : undefined,
       );
     }
+
+    return stream.finish(metadata);
+  }
+
+  /**
+   * Load the screenshots stored alongside the trace and link each frame to
+   * the screenshot shown at its end. Missing screenshots only warn.
+   */
+  private async loadScreenshots(
+    tracePath: string,
+    result: AnalysisResult,
+  ): Promise<CapturedScreenshot[] | undefined> {
+    const dir = result.summary.metadata?.screenshots;
+    if (!dir) return undefined;
+
+    let screenshots: CapturedScreenshot[];
+    try {
+      screenshots = await this.storageService.readScreenshots(
+        path.join(path.dirname(tracePath), dir),
+      );
+    } catch (error) {
+      console.log(
+        `⚠ Could not load screenshots: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+
+    for (const frame of result.timeline?.frames ?? []) {
+      frame.screenshotIndex = findScreenshotAt(screenshots, frame.endTime);
+    }
+    return screenshots.length > 0 ? screenshots : undefined;
   }
 
   /**
@@ -225,6 +483,40 @@ export class AnalyzeCommand extends CommandRunner {
     );
   }
 
+  /**
+   * Write a report with a plugin reporter. Failures are reported but do not
+   * abort the analysis.
+   */
+  private async writeCustomReport(
+    report: AnalysisReport,
+    format: string,
+    name: string,
+  ): Promise<void> {
+    const reporter = this.reporterService.getCustomReporter(format);
+    if (!reporter) {
+      const available = this.reporterService
+        .getCustomReporters()
+        .map((r) => r.name);
+      console.log(
+        `⚠ Unknown report format: ${format} (available: ${available.join(', ') || 'none'})`,
+      );
+      return;
+    }
+
+    try {
+      const content = await reporter.generate(report);
+      const reportPath = await this.storageService.writeReportFile(
+        `${name}.${reporter.extension}`,
+        content,
+      );
+      console.log(`> ${format} report written to: ${reportPath}`);
+    } catch (error) {
+      console.log(
+        `⚠ ${format} reporter failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * Export replay harness for local debugging
    */
@@ -272,6 +564,21 @@ export class AnalyzeCommand extends CommandRunner {
       process.exit(error.exitCode);
     }
 
+    if (error instanceof RuleValidationError) {
+      console.error(`\n● Invalid rules file: ${error.rulePath}`);
+      for (const message of error.errors) {
+        console.error(`   ${message}`);
+      }
+      process.exit(error.exitCode);
+    }
+
+    if (error instanceof SeverityThresholdExceededError) {
+      console.error(
+        `\n● ${error.violations} rule violation(s) at or above '${error.threshold}' severity`,
+      );
+      process.exit(error.exitCode);
+    }
+
     // Unknown error
     console.error('\n● An unexpected error occurred during analysis');
     if (error instanceof Error) {
@@ -301,6 +608,21 @@ export class AnalyzeCommand extends CommandRunner {
     return parseInt(val, 10);
   }
 
+  @Option({
+    flags: '--max-buffer-mb <mb>',
+    description: `Memory limit for trace events buffered before they are analyzed (default: ${DEFAULT_TRACE_LIFECYCLE_CONFIG.maxBufferSizeMB})`,
+  })
+  parseMaxBufferMb(val: string): number {
+    const maxBufferMb = parseFloat(val);
+    if (isNaN(maxBufferMb) || maxBufferMb <= 0) {
+      throw new InvalidArgumentError(
+        '--max-buffer-mb',
+        'must be a positive number',
+      );
+    }
+    return maxBufferMb;
+  }
+
   @Option({
     flags: '-j, --json <path>',
     description: 'Output path for JSON report',
@@ -343,6 +665,15 @@ export class AnalyzeCommand extends CommandRunner {
     return [...previous, val];
   }
 
+  @Option({
+    flags: '--first-party <domains...>',
+    description:
+      'Domains whose scripts are first party, in addition to analysis.firstPartyDomains',
+  })
+  parseFirstParty(val: string, previous: string[] = []): string[] {
+    return [...previous, val];
+  }
+
   @Option({
     flags: '-e, --export-harness',
     description:
@@ -362,4 +693,44 @@ export class AnalyzeCommand extends CommandRunner {
   parseHarnessAll(): boolean {
     return true;
   }
+
+  @Option({
+    flags: '-r, --reporter <formats...>',
+    description: 'Additional report formats contributed by plugins',
+  })
+  parseReporter(val: string, previous: string[] = []): string[] {
+    return [...previous, val];
+  }
+
+  @Option({
+    flags: '--rules [path]',
+    description:
+      'Evaluate rules against the run (default: .render-debugger/rules.yaml)',
+  })
+  parseRules(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on <severity>',
+    description:
+      'With --rules, exit with non-zero code if violations meet or exceed severity (default: warning)',
+  })
+  parseFailOn(val: string): Severity {
+    if (!SEVERITIES.includes(val as Severity)) {
+      throw new InvalidArgumentError(
+        '--fail-on',
+        `must be one of: ${SEVERITIES.join(', ')}`,
+      );
+    }
+    return val as Severity;
+  }
+
+  @Option({
+    flags: '--no-history',
+    description: 'Do not record the run in the trend history',
+  })
+  parseNoHistory(): boolean {
+    return false;
+  }
 }
@@ -0,0 +1,281 @@
+/**
+ * Bisect Command
+ * Finds the commit that pushed a rule metric over a threshold by building
+ * and profiling the commits git bisect checks out
+ */
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+import { Injectable } from '@nestjs/common';
+import { BisectService } from '../bisect/bisect.service.js';
+import { ConfigService } from '../services/config.service.js';
+import {
+  HIGHER_IS_BETTER_METRICS,
+  VALID_METRICS,
+} from '../rules/rules.service.js';
+import { InvalidArgumentError } from '../errors/error-types.js';
+import type { RuleMetric } from '../shared/types/index.js';
+import type { BisectResult, BisectStep } from '../bisect/interfaces/index.js';
+
+interface BisectCommandOptions {
+  good: string;
+  bad: string;
+  build: string;
+  url: string;
+  scenario: string;
+  metric: RuleMetric;
+  threshold: number;
+  runs?: number;
+  profileDuration?: number;
+  headless?: boolean;
+  fpsTarget?: number;
+  browserPath?: string;
+  cdpPort?: number;
+  json?: boolean;
+}
+
+const DEFAULT_RUNS = 3;
+
+const VERDICT_ICONS: Record<BisectStep['verdict'], string> = {
+  good: '✓',
+  bad: '●',
+  skip: '-',
+};
+
+@Injectable()
+@Command({
+  name: 'bisect',
+  description: 'Find the commit that regressed a metric using git bisect',
+})
+export class BisectCommand extends CommandRunner {
+  constructor(
+    private readonly bisectService: BisectService,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  async run(
+    _passedParams: string[],
+    options: BisectCommandOptions,
+  ): Promise<void> {
+    try {
+      const config = await this.configService.loadConfig();
+      const runs = options.runs ?? DEFAULT_RUNS;
+
+      if (!options.json) {
+        console.log('> Bisecting performance regression...\n');
+        console.log(`   Good: ${options.good}`);
+        console.log(`   Bad: ${options.bad}`);
+        console.log(`   Build: ${options.build}`);
+        console.log(`   URL: ${options.url}`);
+        console.log(`   Scenario: ${options.scenario}`);
+        const comparison = HIGHER_IS_BETTER_METRICS.has(options.metric)
+          ? '<='
+          : '>=';
+        console.log(
+          `   Regression: ${options.metric} ${comparison} ${options.threshold} (median of ${runs} run(s))\n`,
+        );
+      }
+
+      const result = await this.bisectService.bisect({
+        good: options.good,
+        bad: options.bad,
+        buildCommand: options.build,
+        url: options.url,
+        scenario: options.scenario,
+        metric: options.metric,
+        threshold: options.threshold,
+        runs,
+        duration: options.profileDuration ?? 15,
+        headless: options.headless ?? config?.browser.defaultHeadless ?? true,
+        fpsTarget:
+          options.fpsTarget ?? config?.profiling.defaultFpsTarget ?? 60,
+        browserPath: options.browserPath ?? config?.browser.path,
+        cdpPort: options.cdpPort ?? config?.browser.defaultCdpPort,
+        onStep: options.json ? undefined : (step) => this.outputStep(step),
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        this.outputResult(result);
+      }
+
+      process.exit(0);
+    } catch (error) {
+      console.error(
+        `● Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      const exitCode = (error as { exitCode?: number }).exitCode;
+      process.exit(typeof exitCode === 'number' ? exitCode : 1);
+    }
+  }
+
+  private outputStep(step: BisectStep): void {
+    const outcome =
+      step.verdict === 'skip'
+        ? `skipped: ${step.reason}`
+        : `${step.verdict} (${step.value}; runs: ${step.values.join(', ')})`;
+    console.log(
+      `   ${VERDICT_ICONS[step.verdict]} ${step.commit.slice(0, 8)} ${step.subject} → ${outcome}`,
+    );
+  }
+
+  private outputResult(result: BisectResult): void {
+    const { comparison } = result;
+
+    console.log('\n' + '═'.repeat(72));
+    console.log(`\n● First bad commit: ${result.firstBadCommit}`);
+    console.log(`   ${result.subject}`);
+    console.log(`   Last good commit: ${result.lastGoodCommit}`);
+    console.log(
+      `   ${result.steps.length} commit(s) evaluated, ${result.steps.filter((s) => s.verdict === 'skip').length} skipped`,
+    );
+
+    console.log(
+      `\n> Comparison (${result.lastGoodCommit.slice(0, 8)} → ${result.firstBadCommit.slice(0, 8)})`,
+    );
+    console.log(
+      `   Change impact score: ${comparison.changeImpactScore}/100, ${comparison.regressions.length} regression(s), ${comparison.improvements.length} improvement(s)`,
+    );
+    for (const regression of comparison.regressions) {
+      console.log(
+        `   ● ${regression.name}: ${regression.baseValue} → ${regression.headValue} ${regression.unit} (+${regression.percentageChange.toFixed(1)}%, ${regression.severity})`,
+      );
+    }
+    console.log('\n' + '═'.repeat(72));
+  }
+
+  @Option({
+    flags: '--good <ref>',
+    description: 'Commit where the metric is within the threshold',
+    required: true,
+  })
+  parseGood(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--bad <ref>',
+    description: 'Commit where the metric reaches the threshold',
+    required: true,
+  })
+  parseBad(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--build <command>',
+    description: 'Shell command that builds each commit',
+    required: true,
+  })
+  parseBuild(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-u, --url <url>',
+    description: 'URL to profile',
+    required: true,
+  })
+  parseUrl(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-s, --scenario <scenario>',
+    description: 'Scenario name to run (from .render-debugger/scenarios/)',
+    required: true,
+  })
+  parseScenario(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-m, --metric <metric>',
+    description: `Rule metric to evaluate (${VALID_METRICS.join(', ')})`,
+    required: true,
+  })
+  parseMetric(val: string): RuleMetric {
+    if (!VALID_METRICS.includes(val as RuleMetric)) {
+      throw new InvalidArgumentError(
+        '--metric',
+        `unknown metric "${val}", expected one of: ${VALID_METRICS.join(', ')}`,
+      );
+    }
+    return val as RuleMetric;
+  }
+
+  @Option({
+    flags: '-t, --threshold <value>',
+    description: 'Commits whose median metric value reaches this are bad',
+    required: true,
+  })
+  parseThreshold(val: string): number {
+    const threshold = parseFloat(val);
+    if (isNaN(threshold)) {
+      throw new InvalidArgumentError('--threshold', 'must be a number');
+    }
+    return threshold;
+  }
+
+  @Option({
+    flags: '-r, --runs <n>',
+    description: `Profiles recorded per commit (default: ${DEFAULT_RUNS})`,
+  })
+  parseRuns(val: string): number {
+    const runs = parseInt(val, 10);
+    if (isNaN(runs) || runs < 1) {
+      throw new InvalidArgumentError('--runs', 'must be a positive integer');
+    }
+    return runs;
+  }
+
+  @Option({
+    flags: '-d, --profile-duration <seconds>',
+    description: 'Profile duration in seconds (default: 15)',
+  })
+  parseProfileDuration(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '-f, --fps-target <fps>',
+    description: 'Target FPS for analysis (default: 60)',
+  })
+  parseFpsTarget(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '-b, --browser-path <path>',
+    description: 'Path to Chromium-based browser executable',
+  })
+  parseBrowserPath(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-p, --cdp-port <port>',
+    description: 'CDP port to connect to',
+  })
+  parseCdpPort(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '--no-headless',
+    description: 'Run browser with visible window',
+  })
+  parseNoHeadless(): boolean {
+    return false;
+  }
+
+  @Option({
+    flags: '--json',
+    description: 'Output the result as JSON',
+  })
+  parseJson(): boolean {
+    return true;
+  }
+}
@@ -10,6 +10,10 @@ import {
 } from './rules.command.js';
 import { FixCommand } from './fix.command.js';
 import { MonitorCommand } from './monitor.command.js';
+import { ExportCommand } from './export.command.js';
+import { ServeCommand } from './serve.command.js';
+import { HistoryCommand } from './history.command.js';
+import { BisectCommand } from './bisect.command.js';
 import { RecorderModule } from '../recorder/recorder.module.js';
 import { AnalyzerModule } from '../analyzer/analyzer.module.js';
 import { SuggesterModule } from '../suggester/suggester.module.js';
@@ -19,6 +23,12 @@ import { RulesModule } from '../rules/rules.module.js';
 import { PatcherModule } from '../patcher/patcher.module.js';
 import { MonitorModule } from '../monitor/monitor.module.js';
 import { ReplayHarnessModule } from '../replay-harness/replay-harness.module.js';
+import { ExporterModule } from '../exporter/exporter.module.js';
+import { AdaptersModule } from '../adapters/adapters.module.js';
+import { PluginsModule } from '../plugins/plugins.module.js';
+import { HistoryModule } from '../history/history.module.js';
+import { BisectModule } from '../bisect/bisect.module.js';
+import { AlertsModule } from '../alerts/alerts.module.js';
 
 @Module({
   imports: [
@@ -31,6 +41,12 @@ import { ReplayHarnessModule } from '../replay-harness/replay-harness.module.js'
     PatcherModule,
     MonitorModule,
     ReplayHarnessModule,
+    ExporterModule,
+    AdaptersModule,
+    PluginsModule,
+    HistoryModule,
+    BisectModule,
+    AlertsModule,
   ],
   providers: [
     InitCommand,
@@ -42,6 +58,10 @@ import { ReplayHarnessModule } from '../replay-harness/replay-harness.module.js'
     RulesValidateCommand,
     FixCommand,
     MonitorCommand,
+    ExportCommand,
+    ServeCommand,
+    HistoryCommand,
+    BisectCommand,
   ],
 })
 export class CommandsModule {}
@@ -2,17 +2,22 @@
  * Compare Command
  * Compares two trace summaries to identify regressions and improvements
  *
+ * Each side may also be a set of runs (a directory of summaries or a
+ * comma-separated list of paths). Multi-run comparisons report run
+ * statistics and only flag changes that pass a Mann-Whitney U test.
  */
 
 import { Command, CommandRunner, Option } from 'nest-commander';
 import { Injectable } from '@nestjs/common';
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import { CompareService } from '../compare/compare.service.js';
 import { StorageService } from '../services/storage.service.js';
 import {
   TraceParseError,
   TraceNotFoundError,
   RegressionDetectedError,
+  DeviceProfileMismatchError,
 } from '../errors/error-types.js';
 import type { TraceSummary, Severity } from '../shared/types/index.js';
 import type {
@@ -25,6 +30,7 @@ interface CompareCommandOptions {
   failOn?: Severity;
   verbose?: boolean;
   noColor?: boolean;
+  alpha?: number;
 }
 
 @Injectable()
@@ -57,11 +63,15 @@ export class CompareCommand extends CommandRunner {
 
     try {
       // Load trace summaries
-      const baseSummary = await this.loadTraceSummary(baseTracePath);
-      const headSummary = await this.loadTraceSummary(headTracePath);
+      const baseSummaries = await this.loadTraceSummaries(baseTracePath);
+      const headSummaries = await this.loadTraceSummaries(headTracePath);
 
       // Perform comparison
-      const result = this.compareService.compare(baseSummary, headSummary);
+      const result = this.compareService.compareRuns(
+        baseSummaries,
+        headSummaries,
+        { alpha: options.alpha },
+      );
 
       // Output results
       if (options.json) {
@@ -81,6 +91,58 @@ export class CompareCommand extends CommandRunner {
     }
   }
 
+  /**
+   * Load one or more trace summaries for one side of the comparison.
+   * Accepts a single file, a comma-separated list of files, or a directory
+   * containing trace-summary.json files (directly or one level down).
+   */
+  private async loadTraceSummaries(arg: string): Promise<TraceSummary[]> {
+    const paths: string[] = [];
+
+    for (const entry of arg.split(',').map((p) => p.trim())) {
+      if (!entry) continue;
+
+      const stat = await fs.stat(entry).catch(() => null);
+      if (stat?.isDirectory()) {
+        paths.push(...(await this.findSummaryFiles(entry)));
+      } else {
+        paths.push(entry);
+      }
+    }
+
+    if (paths.length === 0) {
+      throw new TraceNotFoundError(arg);
+    }
+
+    const summaries: TraceSummary[] = [];
+    for (const summaryPath of paths) {
+      summaries.push(await this.loadTraceSummary(summaryPath));
+    }
+    return summaries;
+  }
+
+  /**
+   * Find trace-summary.json files in a directory and its run subdirectories
+   */
+  private async findSummaryFiles(dir: string): Promise<string[]> {
+    const found: string[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isFile() && entry.name.endsWith('trace-summary.json')) {
+        found.push(entryPath);
+      } else if (entry.isDirectory()) {
+        const nested = path.join(entryPath, 'trace-summary.json');
+        if (await this.storageService.exists(nested)) {
+          found.push(nested);
+        }
+      }
+    }
+
+    return found.sort();
+  }
+
   /**
    * Load trace summary from file path
    * Supports both trace.json and trace-summary.json files
@@ -176,6 +238,14 @@ export class CompareCommand extends CommandRunner {
     console.log(
       `   Head: ${result.headSummary.name} (${result.headSummary.url})`,
     );
+    if (result.baseRunCount > 1 || result.headRunCount > 1) {
+      console.log(
+        `   Runs: ${result.baseRunCount} base, ${result.headRunCount} head (alpha ${result.alpha})`,
+      );
+    }
+    for (const warning of result.warnings ?? []) {
+      console.log(`   ⚠ ${warning}`);
+    }
     console.log(
       `   Change Impact Score: ${this.formatScore(result.changeImpactScore, useColor)}`,
     );
@@ -194,6 +264,26 @@ export class CompareCommand extends CommandRunner {
     console.log('\nPhase Breakdown');
     this.outputMetricTable(result.phaseBreakdown, useColor);
 
+    // Garbage Collection
+    if (result.garbageCollection.length > 0) {
+      console.log('\nGarbage Collection');
+      this.outputMetricTable(result.garbageCollection, useColor);
+    }
+
+    // User Timing segments
+    if (result.segments.length > 0) {
+      console.log('\nSegments');
+      for (const segment of result.segments) {
+        if (segment.presence !== 'both') {
+          const side = segment.presence === 'base_only' ? 'base' : 'head';
+          console.log(`   ${segment.name} (only in ${side})`);
+          continue;
+        }
+        console.log(`   ${segment.name}`);
+        this.outputMetricTable(segment.metrics, useColor);
+      }
+    }
+
     // Regressions
     if (result.regressions.length > 0) {
       console.log(`\n● Regressions (${result.regressions.length})`);
@@ -236,9 +326,27 @@ export class CompareCommand extends CommandRunner {
       console.log(
         `   ${metric.name.padEnd(20)} ${String(metric.baseValue).padStart(10)} → ${String(metric.headValue).padStart(10)} ${metric.unit.padEnd(6)} ${arrow} ${change}`,
       );
+
+      if (metric.statistics) {
+        const { base, head, pValue, significant } = metric.statistics;
+        const verdict = significant ? 'significant' : 'not significant';
+        console.log(
+          `   ${''.padEnd(20)} median ${this.round(base.median)} → ${this.round(head.median)}, ` +
+            `sd ${this.round(base.stddev)} → ${this.round(head.stddev)}, ` +
+            `${Math.round(head.ci.level * 100)}% CI [${this.round(head.ci.lower)}, ${this.round(head.ci.upper)}], ` +
+            `p=${pValue.toFixed(3)} (${verdict})`,
+        );
+      }
     }
   }
 
+  /**
+   * Round a statistic for display
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   /**
    * Output hotspot changes
    */
@@ -277,6 +385,16 @@ export class CompareCommand extends CommandRunner {
         );
       }
     }
+
+    if (hotspots.gcPauses.length > 0) {
+      console.log('\nGC Pause Changes');
+      for (const h of hotspots.gcPauses) {
+        const arrow = this.getDirectionArrow(h.direction, useColor);
+        console.log(
+          `   ${h.function} (${h.file}): ${h.baseGcMs}ms → ${h.headGcMs}ms ${arrow}`,
+        );
+      }
+    }
   }
 
   /**
@@ -300,8 +418,11 @@ export class CompareCommand extends CommandRunner {
         `\n● ${violatingRegressions.length} regression(s) at or above '${threshold}' severity`,
       );
       for (const r of violatingRegressions) {
+        const pValue = r.statistics
+          ? `, p=${r.statistics.pValue.toFixed(3)}`
+          : '';
         console.error(
-          `   - ${r.name}: ${r.percentageChange.toFixed(1)}% (${r.severity})`,
+          `   - ${r.name}: ${r.percentageChange.toFixed(1)}% (${r.severity}${pValue})`,
         );
       }
       throw new RegressionDetectedError(violatingRegressions.length, threshold);
@@ -442,6 +563,14 @@ export class CompareCommand extends CommandRunner {
       process.exit(error.exitCode);
     }
 
+    if (error instanceof DeviceProfileMismatchError) {
+      console.error(`\n● ${error.message}`);
+      console.error(
+        '   Record both sides with the same --device-profile to compare them',
+      );
+      process.exit(error.exitCode);
+    }
+
     // Unknown error
     console.error('\n● An unexpected error occurred during comparison');
     console.error(`   Base trace: ${baseTracePath}`);
@@ -477,6 +606,19 @@ export class CompareCommand extends CommandRunner {
     return val as Severity;
   }
 
+  @Option({
+    flags: '--alpha <level>',
+    description: 'Significance level for multi-run comparisons (default: 0.05)',
+  })
+  parseAlpha(val: string): number {
+    const alpha = parseFloat(val);
+    if (Number.isNaN(alpha) || alpha <= 0 || alpha >= 1) {
+      console.error(`Invalid alpha: ${val}. Must be between 0 and 1`);
+      process.exit(1);
+    }
+    return alpha;
+  }
+
   @Option({
     flags: '-v, --verbose',
     description: 'Show verbose output with hotspot changes',
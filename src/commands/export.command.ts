@@ -0,0 +1,272 @@
+/**
+ * Export Command
+ * Exports a TraceSnapshot to Chrome JSON trace format or Perfetto protobuf
+ * so it can be inspected in chrome://tracing or ui.perfetto.dev
+ *
+ * - Accepts serialized TraceSnapshots or native Swift SDK traces
+ * - Runs analysis and embeds detections as annotated slices
+ */
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { AdapterRegistryService } from '../adapters/adapter-registry.service.js';
+import { TraceExporterService } from '../exporter/trace-exporter.service.js';
+import { StorageService } from '../services/storage.service.js';
+import {
+  TraceNotFoundError,
+  TraceParseError,
+  InvalidTraceFormatError,
+} from '../errors/error-types.js';
+import { isTraceEventFile } from '../shared/utils/index.js';
+import type { TraceSnapshot } from '../adapters/models/index.js';
+import type { WebKitNativeConnectionOptions } from '../adapters/webkit-native/index.js';
+import type { ExportFormat } from '../exporter/interfaces/index.js';
+import type { Detection } from '../shared/types/index.js';
+
+interface ExportCommandOptions {
+  format: ExportFormat;
+  out?: string;
+  name?: string;
+  fpsTarget?: number;
+  detections?: boolean;
+}
+
+/** File extensions per export format */
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  chrome: '.json',
+  perfetto: '.perfetto-trace',
+};
+
+@Injectable()
+@Command({
+  name: 'export',
+  aliases: ['x'],
+  description:
+    'Export a trace snapshot to Chrome JSON trace or Perfetto format',
+  arguments: '<trace-file>',
+})
+export class ExportCommand extends CommandRunner {
+  constructor(
+    private readonly analyzerService: AnalyzerService,
+    private readonly adapterRegistry: AdapterRegistryService,
+    private readonly traceExporter: TraceExporterService,
+    private readonly storageService: StorageService,
+  ) {
+    super();
+  }
+
+  async run(
+    passedParams: string[],
+    options: ExportCommandOptions,
+  ): Promise<void> {
+    const traceFile = passedParams[0];
+
+    if (!traceFile) {
+      console.error('● Error: Trace file path is required');
+      console.error(
+        'Usage: render-debugger export <trace-file> --format <chrome|perfetto>',
+      );
+      process.exit(1);
+    }
+
+    try {
+      const format = options.format ?? 'chrome';
+
+      console.log(`> Loading trace: ${traceFile}`);
+      const snapshot = await this.loadSnapshot(traceFile, options);
+      console.log(
+        `   ${snapshot.frameTimings.length} frames, ${snapshot.longTasks.length} long tasks (${snapshot.metadata.adapterType})`,
+      );
+
+      let detections: Detection[] = [];
+      if (options.detections !== false) {
+        console.log('> Analyzing trace for detections...');
+        const analysis = await this.analyzerService.analyzeSnapshot(snapshot, {
+          name: snapshot.name,
+          fpsTarget: options.fpsTarget ?? snapshot.metadata.fpsTarget,
+          adapterType: snapshot.metadata.adapterType,
+        });
+        detections = analysis.detections;
+        console.log(`   ${detections.length} detection(s)`);
+      }
+
+      const outputPath =
+        options.out ??
+        path.join(
+          this.storageService.getReportsDir(),
+          `${snapshot.name}${FORMAT_EXTENSIONS[format]}`,
+        );
+
+      await this.traceExporter.exportToFile(snapshot, outputPath, format, {
+        detections,
+      });
+
+      console.log(`\n✓ Exported ${format} trace to: ${outputPath}`);
+      console.log(
+        format === 'perfetto'
+          ? '   Open it at https://ui.perfetto.dev\n'
+          : '   Open it in chrome://tracing or https://ui.perfetto.dev\n',
+      );
+
+      process.exit(0);
+    } catch (error) {
+      this.handleError(error, traceFile);
+    }
+  }
+
+  /**
+   * Load a TraceSnapshot from a serialized snapshot or a native SDK trace
+   */
+  private async loadSnapshot(
+    tracePath: string,
+    options: ExportCommandOptions,
+  ): Promise<TraceSnapshot> {
+    const exists = await this.storageService.exists(tracePath);
+    if (!exists) {
+      throw new TraceNotFoundError(tracePath);
+    }
+
+    // Chrome traces can be huge, so they are recognized while streaming
+    // instead of being parsed as a whole only to be rejected
+    let chromeTrace: boolean;
+    let data: unknown;
+    try {
+      chromeTrace = await isTraceEventFile(tracePath);
+      if (!chromeTrace) {
+        data = JSON.parse(await fs.readFile(tracePath, 'utf-8'));
+      }
+    } catch (error) {
+      throw new TraceParseError(
+        tracePath,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (chromeTrace) {
+      throw new InvalidTraceFormatError(
+        tracePath,
+        'file is already a Chrome trace; open it directly in a timeline viewer',
+      );
+    }
+
+    if (this.isTraceSnapshot(data)) {
+      return data;
+    }
+
+    // Fall back to the WebKit native adapter for Swift SDK traces
+    const adapter = this.adapterRegistry.createAdapter('webkit-native');
+    const connectionOptions: WebKitNativeConnectionOptions = {
+      traceFile: tracePath,
+    };
+    await adapter.connect(connectionOptions);
+    try {
+      return await adapter.collectTrace({
+        name: options.name ?? path.basename(tracePath, '.json'),
+        fpsTarget: options.fpsTarget,
+      });
+    } catch (error) {
+      throw new TraceParseError(
+        tracePath,
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Check if data is a serialized TraceSnapshot
+   */
+  private isTraceSnapshot(data: unknown): data is TraceSnapshot {
+    if (typeof data !== 'object' || data === null) {
+      return false;
+    }
+    const obj = data as Record<string, unknown>;
+    return (
+      Array.isArray(obj.frameTimings) &&
+      typeof obj.frameMetrics === 'object' &&
+      typeof obj.metadata === 'object'
+    );
+  }
+
+  /**
+   * Handle errors with appropriate exit codes
+   */
+  private handleError(error: unknown, tracePath: string): never {
+    if (error instanceof TraceNotFoundError) {
+      console.error(`\n● Trace file not found: ${error.tracePath}`);
+      process.exit(error.exitCode);
+    }
+
+    if (error instanceof InvalidTraceFormatError) {
+      console.error(`\n● Cannot export ${error.tracePath}`);
+      console.error(`   ${error.reason}`);
+      process.exit(error.exitCode);
+    }
+
+    if (error instanceof TraceParseError) {
+      console.error(`\n● Failed to parse trace file: ${tracePath}`);
+      console.error(
+        '   Expected a TraceSnapshot JSON or a Swift SDK native trace',
+      );
+      if (error.cause) {
+        console.error(`   Cause: ${error.cause.message}`);
+      }
+      process.exit(error.exitCode);
+    }
+
+    console.error('\n● An unexpected error occurred during export');
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  @Option({
+    flags: '--format <format>',
+    description: 'Export format: chrome (JSON) or perfetto (protobuf)',
+    defaultValue: 'chrome',
+  })
+  parseFormat(val: string): ExportFormat {
+    if (val !== 'chrome' && val !== 'perfetto') {
+      console.error(`Invalid format: ${val}. Must be one of: chrome, perfetto`);
+      process.exit(1);
+    }
+    return val;
+  }
+
+  @Option({
+    flags: '-o, --out <path>',
+    description: 'Output path (default: .render-debugger/reports/<name>)',
+  })
+  parseOut(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-n, --name <name>',
+    description: 'Trace name for native traces (default: file name)',
+  })
+  parseName(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-f, --fps-target <fps>',
+    description: 'Target FPS (default: from trace metadata)',
+  })
+  parseFpsTarget(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '--no-detections',
+    description: 'Skip analysis and export raw timeline data only',
+  })
+  parseNoDetections(): boolean {
+    return false;
+  }
+}
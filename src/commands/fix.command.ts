@@ -4,6 +4,7 @@
  *
  * - Generate patches for top N issues
  * - Display patch summary with before/after metrics
+ * - Benchmark patches by re-profiling and roll back regressions
  * - Support dry-run and auto-apply modes
  * - Filter native code suggestions (suggestion-only, no auto-patching)
  */
@@ -23,7 +24,11 @@ import {
   GitRequiredError,
   DirtyWorkingTreeError,
 } from '../errors/error-types.js';
-import type { FixCommandOptions } from '../patcher/interfaces/index.js';
+import type {
+  FixCommandOptions,
+  BenchmarkOptions,
+} from '../patcher/interfaces/index.js';
+import type { Config, TraceData } from '../shared/types/index.js';
 import type {
   Suggestion,
   NativeSuggestion,
@@ -75,6 +80,7 @@ export class FixCommand extends CommandRunner {
       const analysisResult = await this.analyzerService.analyze(traceData, {
         name: 'fix-analysis',
         fpsTarget,
+        firstPartyDomains: config?.analysis.firstPartyDomains,
       });
 
       // Generate suggestions
@@ -197,12 +203,28 @@ export class FixCommand extends CommandRunner {
           this.autoApplyService.setTestCommand(options.testCommand);
         }
 
+        const benchmark = this.buildBenchmarkOptions(
+          options,
+          traceData,
+          config,
+        );
+        if (benchmark) {
+          console.log(
+            `> Benchmarking ${benchmark.url} (${benchmark.runs} run(s) before and after)`,
+          );
+        } else {
+          console.log(
+            '   Skipping benchmarks (pass --url to re-profile before/after)',
+          );
+        }
+
         try {
           const applyResult = await this.autoApplyService.apply(patches, {
             autoApply: true,
             dryRun: false,
             backup: options.backup ?? true,
             gitBranch: options.gitBranch,
+            benchmark,
           });
 
           // Display summary
@@ -242,6 +264,40 @@ export class FixCommand extends CommandRunner {
     }
   }
 
+  /**
+   * Build benchmark options from CLI flags, falling back to the
+   * scenario, FPS target and adapter recorded in the original trace
+   */
+  private buildBenchmarkOptions(
+    options: FixCommandOptions,
+    traceData: TraceData,
+    config: Config | null,
+  ): BenchmarkOptions | undefined {
+    if (!options.url) {
+      return undefined;
+    }
+
+    const durationSeconds =
+      options.benchmarkDuration ?? config?.profiling.defaultDuration ?? 15;
+
+    return {
+      url: options.url,
+      scenario: options.scenario,
+      recordedScenario: traceData.metadata.scenario || undefined,
+      fpsTarget:
+        traceData.metadata.fps_target ??
+        config?.profiling.defaultFpsTarget ??
+        60,
+      adapter: options.adapter ?? traceData.metadata.adapter,
+      runs: options.benchmarkRuns ?? 5,
+      durationMs: durationSeconds * 1000,
+      browserPath: options.browserPath ?? config?.browser.path,
+      headless: config?.browser.defaultHeadless ?? true,
+      port: config?.browser.defaultCdpPort,
+      alpha: options.alpha,
+    };
+  }
+
   /**
    * Display a summary of suggestions
    */
@@ -467,4 +523,65 @@ export class FixCommand extends CommandRunner {
   parseNoTests(): boolean {
     return true;
   }
+
+  @Option({
+    flags: '-u, --url <url>',
+    description:
+      'URL to re-profile before and after applying (enables benchmarking)',
+  })
+  parseUrl(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-s, --scenario <scenario>',
+    description:
+      'Scenario for benchmark runs (default: scenario recorded in the trace)',
+  })
+  parseScenario(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--adapter <type>',
+    description:
+      'Browser adapter for benchmark runs (chromium-cdp, webkit-native, firefox-rdp)',
+  })
+  parseAdapter(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--browser-path <path>',
+    description: 'Path to browser executable for benchmark runs',
+  })
+  parseBrowserPath(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--benchmark-runs <count>',
+    description: 'Profile runs before and after applying (default: 5)',
+    defaultValue: 5,
+  })
+  parseBenchmarkRuns(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '--benchmark-duration <seconds>',
+    description: 'Duration of each benchmark run in seconds',
+  })
+  parseBenchmarkDuration(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '--alpha <level>',
+    description:
+      'Significance level for rolling back a regressing patch (default: 0.05)',
+  })
+  parseAlpha(val: string): number {
+    return parseFloat(val);
+  }
 }
@@ -0,0 +1,302 @@
+/**
+ * History Command
+ * Shows per-metric trends across the runs recorded by analyze, with
+ * sparklines in the terminal and an optional HTML trend report
+ */
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { HistoryService, HISTORY_METRICS } from '../history/history.service.js';
+import { ReporterService } from '../reporter/reporter.service.js';
+import { InvalidArgumentError } from '../errors/error-types.js';
+import { sparkline } from '../shared/utils/index.js';
+import type {
+  HistoryRecord,
+  MetricTrend,
+  TrendDirection,
+} from '../shared/types/index.js';
+import type { HistoryQuery } from '../history/interfaces/index.js';
+
+interface HistoryCommandOptions {
+  url?: string;
+  scenario?: string;
+  name?: string;
+  branch?: string;
+  commit?: string;
+  since?: Date;
+  last?: number;
+  metric?: string[];
+  out?: string;
+  json?: boolean;
+  /** False when --no-color is given */
+  color?: boolean;
+}
+
+const DEFAULT_LAST_RUNS = 20;
+
+const DIRECTION_COLORS: Record<TrendDirection, string> = {
+  regressing: '\x1b[31m', // Red
+  improving: '\x1b[32m', // Green
+  stable: '',
+};
+
+const RESET_COLOR = '\x1b[0m';
+
+@Injectable()
+@Command({
+  name: 'history',
+  aliases: ['h'],
+  description: 'Show metric trends across recorded runs',
+})
+export class HistoryCommand extends CommandRunner {
+  constructor(
+    private readonly historyService: HistoryService,
+    private readonly reporterService: ReporterService,
+  ) {
+    super();
+  }
+
+  async run(
+    _passedParams: string[],
+    options: HistoryCommandOptions,
+  ): Promise<void> {
+    try {
+      const query: HistoryQuery = {
+        url: options.url,
+        scenario: options.scenario,
+        name: options.name,
+        branch: options.branch,
+        commit: options.commit,
+        since: options.since,
+        limit: options.last ?? DEFAULT_LAST_RUNS,
+      };
+      this.validateMetrics(options.metric);
+
+      const records = await this.historyService.getRuns(query);
+      const trends = this.historyService.getTrends(records, options.metric);
+
+      if (options.json) {
+        console.log(JSON.stringify({ runs: records.length, trends }, null, 2));
+        process.exit(0);
+      }
+
+      if (records.length === 0) {
+        console.log('No recorded runs match the filters.');
+        console.log(
+          'Runs are recorded by `render-debugger analyze` unless --no-history is given.\n',
+        );
+        process.exit(0);
+      }
+
+      this.outputTerminal(records, trends, options.color !== false);
+
+      if (options.out) {
+        const html = this.reporterService.generateTrendHTMLReport(
+          trends,
+          records,
+          { filters: this.describeFilters(options) },
+        );
+        await fs.mkdir(path.dirname(options.out), { recursive: true });
+        await fs.writeFile(options.out, html, 'utf-8');
+        console.log(`\n✓ Trend report written to ${options.out}`);
+      }
+
+      process.exit(0);
+    } catch (error) {
+      console.error(
+        `● Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      const exitCode = (error as { exitCode?: number }).exitCode;
+      process.exit(typeof exitCode === 'number' ? exitCode : 1);
+    }
+  }
+
+  private validateMetrics(metrics?: string[]): void {
+    const known = HISTORY_METRICS.map((m) => m.key);
+    for (const metric of metrics ?? []) {
+      if (!known.includes(metric)) {
+        throw new InvalidArgumentError(
+          '--metric',
+          `unknown metric "${metric}", expected one of: ${known.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Output trends and recorded runs to the terminal
+   */
+  private outputTerminal(
+    records: HistoryRecord[],
+    trends: MetricTrend[],
+    useColor: boolean,
+  ): void {
+    const first = records[0]!;
+    const last = records[records.length - 1]!;
+
+    console.log('\nTrace History\n');
+    console.log('═'.repeat(72));
+    console.log(
+      `\n   ${records.length} run(s) from ${first.recorded_at.slice(0, 16).replace('T', ' ')} to ${last.recorded_at.slice(0, 16).replace('T', ' ')}`,
+    );
+
+    const trendWidth = Math.max('Trend'.length, records.length);
+    console.log('\nTrends');
+    console.log(
+      `   ${'Metric'.padEnd(18)} ${'Trend'.padEnd(trendWidth)} ${'Latest'.padStart(12)} ${'Median'.padStart(10)}  Change`,
+    );
+    for (const trend of trends) {
+      const values = trend.points.map((p) => p.value);
+      console.log(
+        `   ${trend.label.padEnd(18)} ${sparkline(values).padEnd(trendWidth)} ${this.formatValue(trend.latest, trend.unit).padStart(12)} ${(trend.baseline !== undefined ? String(this.round(trend.baseline)) : '-').padStart(10)}  ${this.formatChange(trend, useColor)}`,
+      );
+    }
+
+    console.log('\nRuns');
+    for (const record of [...records].reverse()) {
+      const git = record.git_commit
+        ? ` ${record.branch ?? ''}@${record.git_commit.slice(0, 7)}`
+        : '';
+      console.log(
+        `   ${record.recorded_at.slice(0, 16).replace('T', ' ')}  ${record.id}${git}  ` +
+          `${record.summary.frames.avg_fps} fps, ${record.summary.frames.dropped} dropped, ${record.detections.length} detection(s)`,
+      );
+    }
+
+    console.log('\n' + '═'.repeat(72));
+  }
+
+  private formatChange(trend: MetricTrend, useColor: boolean): string {
+    if (trend.change_pct === undefined) return '-';
+
+    const arrow =
+      trend.direction === 'regressing'
+        ? '●'
+        : trend.direction === 'improving'
+          ? '✓'
+          : ' ';
+    const text = `${trend.change_pct > 0 ? '+' : ''}${trend.change_pct}% ${arrow}`;
+    const color = useColor ? DIRECTION_COLORS[trend.direction] : '';
+    return color ? `${color}${text}${RESET_COLOR}` : text;
+  }
+
+  private formatValue(value: number, unit: string): string {
+    const rounded = this.round(value);
+    if (unit === '%') return `${rounded}%`;
+    return unit ? `${rounded} ${unit}` : String(rounded);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private describeFilters(
+    options: HistoryCommandOptions,
+  ): Record<string, string> {
+    const filters: Record<string, string> = {};
+    if (options.url) filters['URL'] = options.url;
+    if (options.scenario) filters['Scenario'] = options.scenario;
+    if (options.name) filters['Name'] = options.name;
+    if (options.branch) filters['Branch'] = options.branch;
+    if (options.commit) filters['Commit'] = options.commit;
+    return filters;
+  }
+
+  @Option({
+    flags: '-u, --url <url>',
+    description: 'Only runs of this URL',
+  })
+  parseUrl(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-s, --scenario <scenario>',
+    description: 'Only runs of this scenario',
+  })
+  parseScenario(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-n, --name <name>',
+    description: 'Only runs with this name',
+  })
+  parseName(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '-b, --branch <branch>',
+    description: 'Only runs recorded on this git branch',
+  })
+  parseBranch(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--commit <sha>',
+    description: 'Only runs recorded at this commit (or hash prefix)',
+  })
+  parseCommit(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--since <date>',
+    description: 'Only runs recorded at or after this date',
+  })
+  parseSince(val: string): Date {
+    const date = new Date(val);
+    if (isNaN(date.getTime())) {
+      throw new InvalidArgumentError('--since', `invalid date "${val}"`);
+    }
+    return date;
+  }
+
+  @Option({
+    flags: '-l, --last <n>',
+    description: `Number of most recent runs to include (default: ${DEFAULT_LAST_RUNS})`,
+  })
+  parseLast(val: string): number {
+    const last = parseInt(val, 10);
+    if (isNaN(last) || last < 1) {
+      throw new InvalidArgumentError('--last', 'must be a positive integer');
+    }
+    return last;
+  }
+
+  @Option({
+    flags: '-m, --metric <keys...>',
+    description: `Metrics to show (${HISTORY_METRICS.map((m) => m.key).join(', ')})`,
+  })
+  parseMetric(val: string, previous: string[] = []): string[] {
+    return [...previous, val];
+  }
+
+  @Option({
+    flags: '-o, --out <path>',
+    description: 'Write an HTML trend report to this path',
+  })
+  parseOut(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--json',
+    description: 'Output trends as JSON',
+  })
+  parseJson(): boolean {
+    return true;
+  }
+
+  @Option({
+    flags: '--no-color',
+    description: 'Disable colored output',
+  })
+  parseNoColor(): boolean {
+    return false;
+  }
+}
@@ -76,7 +76,8 @@ export class InitCommand extends CommandRunner {
       console.log('> Creating sample scenarios...');
       await this.createSampleScenarios();
       console.log('   ├── scroll-heavy.yaml');
-      console.log('   └── animation-heavy.yaml\n');
+      console.log('   ├── animation-heavy.yaml');
+      console.log('   └── form-interaction.yaml\n');
 
       console.log('✓ Workspace initialized successfully!\n');
       console.log('Next steps:');
@@ -237,6 +238,85 @@ steps:
     description: Wait for all animations to settle
 `;
 
+    // Form interaction scenario
+    const formInteractionScenario = `# Form Interaction Test Scenario
+# Tests input responsiveness with typing, hovering, dragging and keyboard navigation
+
+name: form-interaction
+description: Fills in a form and navigates with the keyboard to test input latency
+
+# Setup runs before tracing starts. If an assertion fails, the profile is marked invalid
+setup:
+  - type: waitForNetworkIdle
+    params:
+      idleTime: 500
+      timeout: 15000
+    description: Wait for the page to finish loading
+
+  - type: assert
+    params:
+      assertion: visible
+      selector: "input, textarea"
+      message: No text field on the page
+    description: Make sure there is something to type into
+
+steps:
+  - type: hover
+    params:
+      path:
+        - { x: 100, y: 100 }
+        - "nav a, header a"
+        - "main"
+      steps: 15
+    duration: 1500
+    description: Move the pointer across the navigation
+
+  - type: type
+    params:
+      selector: "input[type='search'], input[type='text'], textarea"
+      text: "render performance"
+      delay: 80
+      clear: true
+    description: Type into the first text field
+
+  - type: key
+    params:
+      key: Tab
+      repeat: 5
+      delay: 150
+    description: Tab through focusable elements
+
+  - type: key
+    params:
+      key: Shift+Tab
+    description: Move focus back
+
+  - type: drag
+    params:
+      from: "input[type='range'], [draggable='true'], .slider"
+      to: { x: 600, y: 300 }
+      steps: 20
+    duration: 1000
+    description: Drag a slider or draggable element
+
+  - type: key
+    params:
+      key: Enter
+    description: Submit
+
+  - type: waitForFunction
+    params:
+      expression: document.readyState === 'complete'
+      timeout: 5000
+    description: Wait for the response to render
+
+  - type: navigate
+    params:
+      url: /
+      waitUntil: domcontentloaded
+    description: Navigate back to the home page (relative to the current page)
+`;
+
     await this.storageService.writeScenario(
       'scroll-heavy',
       scrollHeavyScenario,
@@ -245,5 +325,9 @@ steps:
       'animation-heavy',
       animationHeavyScenario,
     );
+    await this.storageService.writeScenario(
+      'form-interaction',
+      formInteractionScenario,
+    );
   }
 }
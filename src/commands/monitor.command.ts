@@ -7,10 +7,15 @@ import { Injectable } from '@nestjs/common';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { MonitorService } from '../monitor/monitor.service.js';
+import { MetricsExporterService } from '../monitor/metrics-exporter.service.js';
+import { AlertService } from '../alerts/alert.service.js';
+import { ConfigService } from '../services/config.service.js';
 import type {
   Violation,
   MonitorOptions,
+  MetricsLabels,
 } from '../monitor/interfaces/monitor.interface.js';
+import { InvalidArgumentError } from '../errors/error-types.js';
 import { ICONS } from '../shared/utils/console-icons.js';
 
 const execAsync = promisify(exec);
@@ -24,8 +29,17 @@ interface MonitorCommandOptions {
   cdpPort?: number;
   cdpHost?: string;
   adapter?: string;
+  deviceProfile?: string;
+  metricsPort?: number;
+  metricsHost?: string;
+  otlpEndpoint?: string;
+  otlpInterval?: number;
+  otlpHeader?: Record<string, string>;
 }
 
+const DEFAULT_METRICS_HOST = '127.0.0.1';
+const DEFAULT_OTLP_INTERVAL_SECONDS = 15;
+
 /** Severity colors for terminal output */
 const SEVERITY_COLORS: Record<string, string> = {
   info: '\x1b[36m', // Cyan
@@ -45,7 +59,12 @@ const RESET_COLOR = '\x1b[0m';
 export class MonitorCommand extends CommandRunner {
   private isRunning = false;
 
-  constructor(private readonly monitorService: MonitorService) {
+  constructor(
+    private readonly monitorService: MonitorService,
+    private readonly metricsExporter: MetricsExporterService,
+    private readonly alertService: AlertService,
+    private readonly configService: ConfigService,
+  ) {
     super();
   }
 
@@ -63,6 +82,17 @@ export class MonitorCommand extends CommandRunner {
       if (options.alertCmd) {
         console.log(`   Alert command: ${options.alertCmd}`);
       }
+      if (options.deviceProfile) {
+        console.log(`   Device profile: ${options.deviceProfile}`);
+      }
+
+      // Alert sinks from config.yaml
+      const config = await this.configService.loadConfig();
+      await this.alertService.configure(config?.alerts?.sinks ?? []);
+      const sinkNames = this.alertService.getSinkNames();
+      if (sinkNames.length > 0) {
+        console.log(`   Alert sinks: ${sinkNames.join(', ')}`);
+      }
       console.log('');
 
       this.isRunning = true;
@@ -70,23 +100,32 @@ export class MonitorCommand extends CommandRunner {
       // Set up violation handler
       const alertCmd = options.alertCmd;
       this.monitorService.onViolation((violation) => {
-        void this.handleViolation(violation, alertCmd);
+        void this.handleViolation(violation, options.url, alertCmd);
       });
 
       // Set up graceful shutdown
       this.setupShutdownHandlers();
 
+      await this.startMetricsExport(options);
+
       // Build monitor options
       const monitorOptions: MonitorOptions = {
         url: options.url,
         scenario: options.scenario,
         rollingWindowSeconds: options.rolling ?? 60,
         alertCmd: options.alertCmd,
+        deviceProfile: options.deviceProfile,
       };
 
       // Start monitoring
       await this.monitorService.start(monitorOptions);
 
+      for (const ref of this.monitorService.getMissingBaselines()) {
+        console.log(
+          `${ICONS.warning} No recorded runs on ${ref} for this URL and scenario, rules relative to it are skipped`,
+        );
+      }
+
       console.log(
         `${ICONS.running} Monitor is running. Press Ctrl+C to stop.\n`,
       );
@@ -98,11 +137,55 @@ export class MonitorCommand extends CommandRunner {
     }
   }
 
+  /**
+   * Serve /metrics and push to an OTLP collector, when asked to
+   */
+  private async startMetricsExport(
+    options: MonitorCommandOptions,
+  ): Promise<void> {
+    const labels: MetricsLabels = {
+      url: options.url,
+      scenario: options.scenario,
+      adapter: options.adapter ?? 'chromium-cdp',
+    };
+
+    if (options.metricsPort !== undefined) {
+      const url = await this.metricsExporter.startServer(
+        options.metricsPort,
+        options.metricsHost ?? DEFAULT_METRICS_HOST,
+        labels,
+      );
+      console.log(`   Prometheus metrics: ${url}`);
+    }
+
+    if (options.otlpEndpoint) {
+      const intervalSeconds =
+        options.otlpInterval ?? DEFAULT_OTLP_INTERVAL_SECONDS;
+      this.metricsExporter.startOtlpPush(
+        {
+          endpoint: options.otlpEndpoint,
+          intervalMs: intervalSeconds * 1000,
+          headers: options.otlpHeader,
+          onError: (error) => {
+            console.log(
+              `\n${ICONS.warning} OTLP push failed: ${error.message}`,
+            );
+          },
+        },
+        labels,
+      );
+      console.log(
+        `   OTLP push: ${options.otlpEndpoint} every ${intervalSeconds}s`,
+      );
+    }
+  }
+
   /**
    * Handle a rule violation
    */
   private async handleViolation(
     violation: Violation,
+    url: string,
     alertCmd?: string,
   ): Promise<void> {
     const color = SEVERITY_COLORS[violation.severity] ?? '';
@@ -113,9 +196,13 @@ export class MonitorCommand extends CommandRunner {
         `Rule violation at ${timestamp}`,
     );
     console.log(`   Rule: ${violation.ruleName} (${violation.ruleId})`);
-    console.log(
-      `   Value: ${violation.actualValue} (threshold: ${violation.threshold})`,
-    );
+    if (violation.condition) {
+      console.log(`   Condition: ${violation.condition}`);
+    } else {
+      console.log(
+        `   Value: ${violation.actualValue} (threshold: ${violation.threshold})`,
+      );
+    }
 
     // Execute alert command if provided
     if (alertCmd) {
@@ -129,6 +216,7 @@ export class MonitorCommand extends CommandRunner {
             RENDER_DEBUGGER_SEVERITY: violation.severity,
             RENDER_DEBUGGER_VALUE: String(violation.actualValue),
             RENDER_DEBUGGER_THRESHOLD: String(violation.threshold),
+            RENDER_DEBUGGER_CONDITION: violation.condition ?? '',
           },
         });
         if (stdout) console.log(`   ${stdout.trim()}`);
@@ -140,6 +228,27 @@ export class MonitorCommand extends CommandRunner {
         );
       }
     }
+
+    // Send to alert sinks, which throttle repeats themselves
+    const results = await this.alertService.dispatch({
+      ruleId: violation.ruleId,
+      ruleName: violation.ruleName,
+      severity: violation.severity,
+      value: violation.actualValue,
+      threshold: violation.threshold,
+      condition: violation.condition,
+      timestamp: violation.timestamp.toISOString(),
+      url,
+    });
+    for (const result of results) {
+      if (result.status === 'sent') {
+        console.log(`   ${ICONS.success} Alert sent to ${result.sink}`);
+      } else if (result.status === 'failed') {
+        console.error(
+          `   ${ICONS.error} Alert to ${result.sink} failed: ${result.error}`,
+        );
+      }
+    }
   }
 
   /**
@@ -194,6 +303,21 @@ export class MonitorCommand extends CommandRunner {
       '└─────────┴──────────┴──────────────┴─────────────┴─────────┘',
     );
 
+    console.log(`\n${ICONS.analyze} Main Thread Work:`);
+    console.log('┌─────────┬──────────────┬──────────────┬──────────────┐');
+    console.log('│ Window  │ Reflow (ms)  │ GPU Stall    │ Long Tasks   │');
+    console.log('├─────────┼──────────────┼──────────────┼──────────────┤');
+    for (const [label, w] of [
+      ['1m', w1m],
+      ['5m', w5m],
+      ['15m', w15m],
+    ] as const) {
+      console.log(
+        `│ ${label.padEnd(7)} │ ${this.padNumber(w.reflowCostMs, 12)} │ ${this.padNumber(w.gpuStallMs, 10)}ms │ ${this.padNumber(w.longTaskMs, 10)}ms │`,
+      );
+    }
+    console.log('└─────────┴──────────────┴──────────────┴──────────────┘');
+
     // Show recent violations
     const violations = metrics.violations;
     if (violations.length > 0) {
@@ -230,6 +354,9 @@ export class MonitorCommand extends CommandRunner {
 
       this.monitorService
         .stop()
+        .then(() =>
+          Promise.all([this.alertService.close(), this.metricsExporter.stop()]),
+        )
         .then(() => {
           console.log(`${ICONS.success} Monitor stopped gracefully.`);
 
@@ -352,4 +479,77 @@ export class MonitorCommand extends CommandRunner {
   parseAdapter(val: string): string {
     return val;
   }
+
+  @Option({
+    flags: '--metrics-port <port>',
+    description: 'Serve rolling window metrics for Prometheus at /metrics',
+  })
+  parseMetricsPort(val: string): number {
+    const port = parseInt(val, 10);
+    if (!(port >= 0 && port < 65536)) {
+      throw new InvalidArgumentError('--metrics-port', 'must be a port number');
+    }
+    return port;
+  }
+
+  @Option({
+    flags: '--metrics-host <host>',
+    description: `Host the metrics endpoint binds to (default: ${DEFAULT_METRICS_HOST})`,
+  })
+  parseMetricsHost(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--otlp-endpoint <url>',
+    description:
+      'OTLP/HTTP collector to push rolling window metrics to, e.g. http://localhost:4318',
+  })
+  parseOtlpEndpoint(val: string): string {
+    try {
+      new URL(val);
+    } catch {
+      throw new InvalidArgumentError('--otlp-endpoint', 'must be a URL');
+    }
+    return val;
+  }
+
+  @Option({
+    flags: '--otlp-interval <seconds>',
+    description: `Seconds between OTLP pushes (default: ${DEFAULT_OTLP_INTERVAL_SECONDS})`,
+  })
+  parseOtlpInterval(val: string): number {
+    const seconds = parseFloat(val);
+    if (!(seconds > 0)) {
+      throw new InvalidArgumentError('--otlp-interval', 'must be positive');
+    }
+    return seconds;
+  }
+
+  @Option({
+    flags: '--otlp-header <name=value>',
+    description: 'Header sent with OTLP pushes, e.g. for authentication',
+  })
+  parseOtlpHeader(
+    val: string,
+    previous: Record<string, string> = {},
+  ): Record<string, string> {
+    const separator = val.indexOf('=');
+    if (separator <= 0) {
+      throw new InvalidArgumentError('--otlp-header', 'must be name=value');
+    }
+    return {
+      ...previous,
+      [val.slice(0, separator).trim()]: val.slice(separator + 1).trim(),
+    };
+  }
+
+  @Option({
+    flags: '--device-profile <name>',
+    description:
+      'Device profile from config.yaml to emulate (CPU, network, viewport)',
+  })
+  parseDeviceProfile(val: string): string {
+    return val;
+  }
 }
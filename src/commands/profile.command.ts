@@ -6,13 +6,19 @@ import {
 } from '../recorder/recorder.service.js';
 import { ConfigService } from '../services/config.service.js';
 import { SamplingService } from '../services/sampling.service.js';
-import { TraceLifecycleService } from '../services/trace-lifecycle.service.js';
+import {
+  TraceLifecycleService,
+  DEFAULT_TRACE_LIFECYCLE_CONFIG,
+} from '../services/trace-lifecycle.service.js';
 import { PrivacyService } from '../services/privacy.service.js';
 import {
   InvalidURLError,
   CDPConnectionError,
   HarnessError,
   ScenarioNotFoundError,
+  ScenarioAssertionError,
+  DeviceProfileNotFoundError,
+  InvalidArgumentError,
 } from '../errors/error-types.js';
 
 interface ProfileCommandOptions {
@@ -29,6 +35,10 @@ interface ProfileCommandOptions {
   samplingRate?: number;
   adminTrigger?: boolean;
   adminToken?: string;
+  deviceProfile?: string;
+  screenshots?: boolean;
+  screenshotMaxMb?: number;
+  maxBufferMb?: number;
   noTelemetry?: boolean;
   remoteStorage?: string;
 }
@@ -111,6 +121,12 @@ export class ProfileCommand extends CommandRunner {
       if (options.adminTrigger) {
         console.log(`   Admin Trigger: enabled`);
       }
+      if (options.deviceProfile) {
+        console.log(`   Device profile: ${options.deviceProfile}`);
+      }
+      if (options.screenshots) {
+        console.log(`   Screenshots: enabled`);
+      }
       if (options.adapter) {
         console.log(`   Adapter: ${options.adapter}`);
       }
@@ -135,6 +151,14 @@ export class ProfileCommand extends CommandRunner {
           options.fpsTarget ?? config?.profiling.defaultFpsTarget ?? 60,
         cdpPort: options.cdpPort ?? config?.browser.defaultCdpPort,
         outputPath: options.out,
+        deviceProfile: options.deviceProfile,
+        screenshots: options.screenshots,
+        screenshotMaxMb:
+          options.screenshotMaxMb ??
+          this.traceLifecycleService.getConfig().maxScreenshotSizeMB,
+        maxBufferMb:
+          options.maxBufferMb ??
+          this.traceLifecycleService.getConfig().maxBufferSizeMB,
       };
 
       console.log('> Connecting to browser...');
@@ -162,16 +186,50 @@ export class ProfileCommand extends CommandRunner {
 
       console.log('> Artifacts:');
       console.log(`   Trace: ${result.tracePath}`);
+      if (result.screenshots?.dir) {
+        console.log(
+          `   Screenshots: ${result.screenshots.dir} (${result.screenshots.captured} frames)`,
+        );
+      }
       console.log(`   Summary: ${result.summaryPath}\n`);
 
-      if (result.scenarioResult.errors.length > 0) {
+      if (result.screenshots?.skippedReason) {
+        console.log(
+          `⚠ Screenshots not captured: ${result.screenshots.skippedReason}\n`,
+        );
+      } else if (result.screenshots && result.screenshots.dropped > 0) {
+        console.log(
+          `⚠ ${result.screenshots.dropped} screenshots left out to stay under the ${profileOptions.screenshotMaxMb}MB size cap\n`,
+        );
+      }
+
+      const setupErrors = result.setupResult.errors.map(
+        (error) => `Setup ${error}`,
+      );
+      const scenarioErrors = [...setupErrors, ...result.scenarioResult.errors];
+      if (scenarioErrors.length > 0) {
         console.log('⚠ Scenario warnings:');
-        for (const error of result.scenarioResult.errors) {
+        for (const error of scenarioErrors) {
           console.log(`   - ${error}`);
         }
         console.log('');
       }
 
+      if (result.scenarioResult.assertionFailures.length > 0) {
+        console.log('⚠ Scenario assertion failures:');
+        for (const failure of result.scenarioResult.assertionFailures) {
+          console.log(`   - ${failure}`);
+        }
+        console.log('');
+      }
+
+      if (result.summary.valid === false) {
+        throw new ScenarioAssertionError(
+          options.scenario,
+          result.setupResult.assertionFailures,
+        );
+      }
+
       console.log('Next steps:');
       console.log(
         `  1. Run \`render-debugger analyze ${result.tracePath} --name "my-run"\``,
@@ -217,6 +275,30 @@ export class ProfileCommand extends CommandRunner {
       process.exit(error.exitCode);
     }
 
+    if (error instanceof DeviceProfileNotFoundError) {
+      console.error(`\n● Device profile not found: ${error.profile}`);
+      console.error(
+        error.available.length > 0
+          ? `   Available profiles: ${error.available.join(', ')}\n`
+          : '   Define device profiles under deviceProfiles in .render-debugger/config.yaml\n',
+      );
+      process.exit(error.exitCode);
+    }
+
+    if (error instanceof ScenarioAssertionError) {
+      console.error(`\n● Profile invalid: setup assertions failed`);
+      for (const failure of error.failures) {
+        console.error(`   - ${failure}`);
+      }
+      console.error(
+        '\n   The page did not reach the expected state before tracing.',
+      );
+      console.error(
+        '   Artifacts were written but the summary is marked invalid\n',
+      );
+      process.exit(error.exitCode);
+    }
+
     if (error instanceof HarnessError) {
       console.error(`\n● Scenario harness crashed: ${error.scenario}`);
       if (error.cause) {
@@ -329,6 +411,47 @@ export class ProfileCommand extends CommandRunner {
     return val;
   }
 
+  @Option({
+    flags: '--device-profile <name>',
+    description:
+      'Device profile from config.yaml to emulate (CPU, network, viewport)',
+  })
+  parseDeviceProfile(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--screenshots',
+    description:
+      'Capture a screenshot of each frame for the HTML report filmstrip',
+  })
+  parseScreenshots(): boolean {
+    return true;
+  }
+
+  @Option({
+    flags: '--screenshot-max-mb <mb>',
+    description: 'Size cap for the stored screenshots in MB (default: 10)',
+  })
+  parseScreenshotMaxMb(val: string): number {
+    return parseFloat(val);
+  }
+
+  @Option({
+    flags: '--max-buffer-mb <mb>',
+    description: `Memory limit for the trace events the summary reads at a time (default: ${DEFAULT_TRACE_LIFECYCLE_CONFIG.maxBufferSizeMB})`,
+  })
+  parseMaxBufferMb(val: string): number {
+    const maxBufferMb = parseFloat(val);
+    if (isNaN(maxBufferMb) || maxBufferMb <= 0) {
+      throw new InvalidArgumentError(
+        '--max-buffer-mb',
+        'must be a positive number',
+      );
+    }
+    return maxBufferMb;
+  }
+
   @Option({
     flags: '--sampling-rate <rate>',
     description: 'Sampling rate for production (0.0-1.0, default: 1.0)',
@@ -66,9 +66,11 @@ export class RulesListCommand extends CommandRunner {
         );
       }
 
+      // Expression rules match any metric they read
       if (options.metric) {
-        filteredRules = filteredRules.filter(
-          (r) => r.metric === options.metric,
+        const metric = options.metric;
+        filteredRules = filteredRules.filter((r) =>
+          this.rulesService.getRuleMetrics(r).includes(metric),
         );
       }
 
@@ -116,8 +118,9 @@ export class RulesListCommand extends CommandRunner {
 
     for (const rule of rules) {
       const status = rule.enabled ? 'Enabled' : 'Disabled';
+      const metric = rule.metric ?? 'expression';
       console.log(
-        `${rule.id.padEnd(20)} ${rule.name.padEnd(25)} ${rule.metric.padEnd(20)} ${status}`,
+        `${rule.id.padEnd(20)} ${rule.name.padEnd(25)} ${metric.padEnd(20)} ${status}`,
       );
     }
 
@@ -137,26 +140,30 @@ export class RulesListCommand extends CommandRunner {
    */
   private displayRuleDetails(rule: Rule): void {
     const status = rule.enabled ? '[Enabled]' : '[Disabled]';
+    const description = this.rulesService.describeRule(rule);
     console.log(`${status} ${rule.name} (${rule.id})`);
-    console.log(`  Metric: ${rule.metric}`);
+    if (rule.expression === undefined) {
+      console.log(`  Metric: ${description.value}`);
+    } else if (description.condition) {
+      console.log(`  Condition: ${description.value}`);
+    } else {
+      console.log(`  Expression: ${description.value}`);
+    }
     console.log(`  Severity: ${rule.severity}`);
 
     if (rule.description) {
       console.log(`  Description: ${rule.description}`);
     }
 
-    console.log('  Thresholds:');
-    if (rule.thresholds.info !== undefined) {
-      console.log(`    info: ${rule.thresholds.info}`);
-    }
-    if (rule.thresholds.warning !== undefined) {
-      console.log(`    warning: ${rule.thresholds.warning}`);
+    for (const scope of description.scope) {
+      console.log(`  Scope: ${scope}`);
     }
-    if (rule.thresholds.high !== undefined) {
-      console.log(`    high: ${rule.thresholds.high}`);
-    }
-    if (rule.thresholds.critical !== undefined) {
-      console.log(`    critical: ${rule.thresholds.critical}`);
+
+    if (description.thresholds.length > 0) {
+      console.log('  Thresholds:');
+      for (const threshold of description.thresholds) {
+        console.log(`    ${threshold.severity}: ${threshold.value}`);
+      }
     }
 
     console.log('');
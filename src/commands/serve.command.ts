@@ -0,0 +1,120 @@
+/**
+ * Serve Command
+ * Runs an HTTP JSON API over the analysis engine so that dashboards and
+ * other services can upload traces, compare runs and fetch reports
+ */
+
+import { Command, CommandRunner, Option } from 'nest-commander';
+import { Injectable } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { ServerModule, configureApiServer } from '../server/server.module.js';
+import { ICONS } from '../shared/utils/console-icons.js';
+
+interface ServeCommandOptions {
+  port?: number;
+  host?: string;
+  maxUploadMb?: number;
+}
+
+const DEFAULT_PORT = 7878;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_MAX_UPLOAD_MB = 200;
+
+const ENDPOINTS = [
+  'GET  /api/health',
+  'GET  /api/traces',
+  'POST /api/traces?name=<name>&fps_target=<fps>',
+  'GET  /api/traces/:runId',
+  'GET  /api/traces/:runId/report',
+  'POST /api/traces/:runId/patches',
+  'POST /api/compare',
+  'GET  /api/reports',
+  'GET  /api/reports/:file',
+];
+
+@Injectable()
+@Command({
+  name: 'serve',
+  description: 'Serve the analysis engine over an HTTP JSON API',
+})
+export class ServeCommand extends CommandRunner {
+  async run(
+    _passedParams: string[],
+    options: ServeCommandOptions,
+  ): Promise<void> {
+    const port = options.port ?? DEFAULT_PORT;
+    const host = options.host ?? DEFAULT_HOST;
+
+    let app: NestExpressApplication;
+    try {
+      app = await NestFactory.create<NestExpressApplication>(ServerModule, {
+        bodyParser: false,
+        logger: ['warn', 'error'],
+      });
+      configureApiServer(app, {
+        maxUploadMb: options.maxUploadMb ?? DEFAULT_MAX_UPLOAD_MB,
+      });
+      await app.listen(port, host);
+    } catch (error) {
+      console.error(`${ICONS.error} Failed to start API server:`);
+      if (error instanceof Error) {
+        console.error(`   ${error.message}`);
+      }
+      process.exit(1);
+    }
+
+    console.log(
+      `${ICONS.start} render-debugger API listening on http://${host}:${port}\n`,
+    );
+    for (const endpoint of ENDPOINTS) {
+      console.log(`   ${endpoint}`);
+    }
+    console.log(`\n${ICONS.running} Press Ctrl+C to stop.\n`);
+
+    await this.waitForShutdown();
+
+    console.log(`\n${ICONS.stop} Stopping API server...`);
+    await app.close();
+    console.log(`${ICONS.success} API server stopped.`);
+  }
+
+  /**
+   * Resolve on the first SIGINT or SIGTERM
+   */
+  private waitForShutdown(): Promise<void> {
+    return new Promise((resolve) => {
+      const shutdown = () => {
+        process.off('SIGINT', shutdown);
+        process.off('SIGTERM', shutdown);
+        resolve();
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    });
+  }
+
+  @Option({
+    flags: '-p, --port <port>',
+    description: `Port to listen on (default: ${DEFAULT_PORT})`,
+  })
+  parsePort(val: string): number {
+    return parseInt(val, 10);
+  }
+
+  @Option({
+    flags: '--host <host>',
+    description: `Host to bind to (default: ${DEFAULT_HOST})`,
+  })
+  parseHost(val: string): string {
+    return val;
+  }
+
+  @Option({
+    flags: '--max-upload-mb <mb>',
+    description: `Maximum trace upload size in megabytes (default: ${DEFAULT_MAX_UPLOAD_MB})`,
+  })
+  parseMaxUploadMb(val: string): number {
+    return parseInt(val, 10);
+  }
+}
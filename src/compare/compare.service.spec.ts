@@ -0,0 +1,185 @@
+/**
+ * Unit tests for CompareService multi-run comparisons
+ */
+
+import { CompareService } from './compare.service.js';
+import type { TraceSummary } from '../shared/types/index.js';
+import type { ComparisonResult } from './interfaces/index.js';
+
+function summary(
+  avgFps: number,
+  layoutMs: number,
+  longTaskMs = 0,
+): TraceSummary {
+  return {
+    id: 'summary',
+    name: 'homepage',
+    url: 'https://app.test/',
+    duration_ms: 1000,
+    frames: { total: 60, dropped: 0, avg_fps: avgFps, frame_budget_ms: 16.67 },
+    phase_breakdown: {
+      style_recalc_ms: 1,
+      layout_ms: layoutMs,
+      paint_ms: 2,
+      composite_ms: 1,
+      gpu_ms: 0,
+    },
+    hotspots: {
+      layout_thrashing: [],
+      gpu_stalls: [],
+      long_tasks:
+        longTaskMs > 0
+          ? [
+              {
+                function: 'render',
+                file: 'app.js',
+                line: 1,
+                cpu_ms: longTaskMs,
+                occurrences: 1,
+              },
+            ]
+          : [],
+      layout_shifts: [],
+    },
+    suggestions: [],
+    metadata: { scenario: 'scroll' } as TraceSummary['metadata'],
+  };
+}
+
+function metric(result: ComparisonResult, name: string) {
+  return [...result.frameMetrics, ...result.phaseBreakdown].find(
+    (m) => m.name === name,
+  )!;
+}
+
+describe('CompareService', () => {
+  const service = new CompareService();
+
+  it('should compare run means and only count significant changes', () => {
+    const result = service.compareRuns(
+      [
+        summary(60, 10, 40),
+        summary(59, 30),
+        summary(61, 10, 40),
+        summary(60, 30),
+      ],
+      [
+        summary(40, 12, 90),
+        summary(41, 32, 90),
+        summary(39, 11, 90),
+        summary(40, 31, 90),
+      ],
+    );
+
+    // FPS dropped in every head run
+    const fps = metric(result, 'Average FPS');
+    expect(fps).toMatchObject({
+      baseValue: 60,
+      headValue: 40,
+      direction: 'regression',
+    });
+    expect(fps.statistics!.pValue).toBeLessThan(0.05);
+    expect(fps.statistics!.significant).toBe(true);
+
+    // Layout grew 7.5% on average, but the runs overlap
+    const layout = metric(result, 'Layout');
+    expect(layout).toMatchObject({
+      baseValue: 20,
+      headValue: 21.5,
+      direction: 'regression',
+    });
+    expect(layout.statistics!.significant).toBe(false);
+
+    expect(result.regressions.map((m) => m.name)).toEqual(['Average FPS']);
+    expect(result.warnings).toBeUndefined();
+
+    // Hotspots are averaged over the runs that lack them too
+    expect(result.hotspots.longTasks[0]).toMatchObject({
+      baseCpuMs: 20,
+      headCpuMs: 90,
+    });
+  });
+
+  it('should judge changes by size alone when a side has a single run', () => {
+    const result = service.compareRuns(
+      [summary(60, 10)],
+      [40, 41, 39, 40, 40].map((fps) => summary(fps, 10)),
+    );
+
+    const fps = metric(result, 'Average FPS');
+    expect(fps.statistics).toBeUndefined();
+    expect(result.regressions.map((m) => m.name)).toEqual(['Average FPS']);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('at least 2 runs on each side'),
+    ]);
+  });
+
+  it('should warn when the runs cannot reach alpha', () => {
+    const result = service.compareRuns(
+      [60, 59, 61].map((fps) => summary(fps, 10)),
+      [40, 41, 39].map((fps) => summary(fps, 10)),
+    );
+
+    expect(metric(result, 'Average FPS').statistics).toBeUndefined();
+    expect(result.regressions.map((m) => m.name)).toEqual(['Average FPS']);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('smallest possible p-value 0.100'),
+    ]);
+
+    // A looser alpha can be reached
+    const loose = service.compareRuns(
+      [60, 59, 61].map((fps) => summary(fps, 10)),
+      [40, 41, 39].map((fps) => summary(fps, 10)),
+      { alpha: 0.2 },
+    );
+    expect(metric(loose, 'Average FPS').statistics!.significant).toBe(true);
+    expect(loose.warnings).toBeUndefined();
+  });
+
+  it('should warn about segments recorded in too few runs to test', () => {
+    const withSegment = (fps: number): TraceSummary => {
+      const run = summary(fps, 10);
+      return {
+        ...run,
+        segments: [
+          {
+            name: 'open-modal',
+            occurrences: 1,
+            start_ms: 100,
+            duration_ms: 120,
+            frames: run.frames,
+            phase_breakdown: run.phase_breakdown,
+            detections: [],
+          },
+        ],
+      };
+    };
+
+    const result = service.compareRuns(
+      [60, 59, 61, 60, 60].map((fps) => summary(fps, 10)),
+      [
+        withSegment(40),
+        withSegment(41),
+        ...[39, 40, 40].map((fps) => summary(fps, 10)),
+      ],
+    );
+
+    expect(result.segments[0]).toMatchObject({
+      name: 'open-modal',
+      presence: 'head_only',
+      baseRunCount: 0,
+      headRunCount: 2,
+    });
+    expect(result.warnings).toBeUndefined();
+
+    const both = service.compareRuns(
+      [withSegment(60), ...[59, 61, 60].map((fps) => summary(fps, 10))],
+      [withSegment(40), withSegment(41), withSegment(39), summary(40, 10)],
+    );
+
+    expect(both.segments[0]!.metrics[0]!.statistics).toBeUndefined();
+    expect(both.warnings).toEqual([
+      'Segment open-modal: Significance testing needs at least 2 runs on each side (got 1 base, 3 head), changes are judged by size alone',
+    ]);
+  });
+});
@@ -1,11 +1,17 @@
 /**
  * Compare Service
- * Compares two trace summaries to identify regressions and improvements
+ * Compares two trace summaries (or two sets of runs) to identify
+ * regressions and improvements
  *
  */
 
 import { Injectable } from '@nestjs/common';
-import type { TraceSummary, Severity } from '../shared/types/index.js';
+import type {
+  TraceSummary,
+  Severity,
+  SegmentSummary,
+  Hotspots,
+} from '../shared/types/index.js';
 import type {
   ICompareService,
   CompareOptions,
@@ -17,7 +23,19 @@ import type {
   LayoutThrashComparison,
   GPUStallComparison,
   LongTaskComparison,
+  GCPauseComparison,
+  SegmentComparison,
 } from './interfaces/index.js';
+import { DeviceProfileMismatchError } from '../errors/error-types.js';
+import {
+  canReachSignificance,
+  describeDeviceProfile,
+  describeSample,
+  isSameDeviceProfile,
+  mannWhitneyU,
+  mean,
+  minimumUPValue,
+} from '../shared/utils/index.js';
 
 /**
  * Default severity thresholds (percentage change)
@@ -34,6 +52,38 @@ const DEFAULT_SEVERITY_THRESHOLDS: SeverityThresholds = {
  */
 const DEFAULT_SIGNIFICANCE_THRESHOLD = 2;
 
+/**
+ * Default alpha for the Mann-Whitney U test on multi-run comparisons
+ */
+const DEFAULT_ALPHA = 0.05;
+
+/**
+ * Default confidence level for reported intervals
+ */
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * Runs each side needs before changes are tested for significance
+ */
+const MIN_RUNS_FOR_STATISTICS = 2;
+
+/**
+ * Hotspots compared between two sets of runs
+ */
+type ComparedHotspots = Pick<
+  Hotspots,
+  'layout_thrashing' | 'gpu_stalls' | 'long_tasks' | 'gc_pauses'
+>;
+
+/**
+ * Settings shared by every metric comparison in one compare call
+ */
+interface MetricComparisonContext {
+  thresholds: SeverityThresholds;
+  alpha: number;
+  confidenceLevel: number;
+}
+
 @Injectable()
 export class CompareService implements ICompareService {
   /**
@@ -44,42 +94,96 @@ export class CompareService implements ICompareService {
     headSummary: TraceSummary,
     options: CompareOptions = {},
   ): ComparisonResult {
+    return this.compareRuns([baseSummary], [headSummary], options);
+  }
+
+  /**
+   * Compare two sets of runs. Metrics compare the means of the runs, and
+   * hotspots their mean cost per run. With at least two runs on each side,
+   * enough to reach `alpha`, each metric reports its distribution and only
+   * counts as a regression or improvement when the Mann-Whitney U test is
+   * significant. Otherwise changes are judged by their size alone, with a
+   * warning.
+   */
+  compareRuns(
+    baseSummaries: TraceSummary[],
+    headSummaries: TraceSummary[],
+    options: CompareOptions = {},
+  ): ComparisonResult {
+    const baseSummary = baseSummaries[0];
+    const headSummary = headSummaries[0];
+    if (!baseSummary || !headSummary) {
+      throw new Error('At least one base and one head summary are required');
+    }
+    this.assertSameDeviceProfile(baseSummaries, headSummaries);
+
     const significanceThreshold =
       options.significanceThreshold ?? DEFAULT_SIGNIFICANCE_THRESHOLD;
-    const severityThresholds =
-      options.severityThresholds ?? DEFAULT_SEVERITY_THRESHOLDS;
+    const context: MetricComparisonContext = {
+      thresholds: options.severityThresholds ?? DEFAULT_SEVERITY_THRESHOLDS,
+      alpha: options.alpha ?? DEFAULT_ALPHA,
+      confidenceLevel: options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL,
+    };
 
     // Compare frame metrics
     const frameMetrics = this.compareFrameMetrics(
-      baseSummary,
-      headSummary,
-      severityThresholds,
+      baseSummaries,
+      headSummaries,
+      context,
     );
 
     // Compare phase breakdown
     const phaseBreakdown = this.comparePhaseBreakdown(
-      baseSummary,
-      headSummary,
-      severityThresholds,
+      baseSummaries,
+      headSummaries,
+      context,
+    );
+
+    // Compare garbage collection cost
+    const garbageCollection = this.compareGarbageCollection(
+      baseSummaries,
+      headSummaries,
+      context,
     );
 
-    // Compare hotspots
-    const hotspots = this.compareHotspots(baseSummary, headSummary);
+    // Compare hotspots, averaged over the runs
+    const hotspots = this.compareHotspots(
+      this.averageHotspots(baseSummaries),
+      this.averageHotspots(headSummaries),
+    );
+
+    // Compare User Timing segments
+    const segments = this.compareSegments(
+      baseSummaries,
+      headSummaries,
+      context,
+    );
 
     // Collect all metric comparisons
-    const allMetrics = [...frameMetrics, ...phaseBreakdown];
+    const allMetrics = [
+      ...frameMetrics,
+      ...phaseBreakdown,
+      ...garbageCollection,
+      ...segments.flatMap((segment) =>
+        segment.metrics.map((m) => ({
+          ...m,
+          name: `${segment.name}: ${m.name}`,
+        })),
+      ),
+    ];
 
     // Filter regressions and improvements based on significance threshold
+    // and, for multi-run comparisons, on the significance test
+    const isSignificant = (m: MetricComparison) =>
+      Math.abs(m.percentageChange) >= significanceThreshold &&
+      (m.statistics?.significant ?? true);
+
     const regressions = allMetrics.filter(
-      (m) =>
-        m.direction === 'regression' &&
-        Math.abs(m.percentageChange) >= significanceThreshold,
+      (m) => m.direction === 'regression' && isSignificant(m),
     );
 
     const improvements = allMetrics.filter(
-      (m) =>
-        m.direction === 'improvement' &&
-        Math.abs(m.percentageChange) >= significanceThreshold,
+      (m) => m.direction === 'improvement' && isSignificant(m),
     );
 
     // Calculate change impact score
@@ -91,174 +195,406 @@ export class CompareService implements ICompareService {
     // Determine max regression severity
     const maxRegressionSeverity = this.getMaxSeverity(regressions);
 
+    const warnings = this.getSampleSizeWarnings(
+      baseSummaries.length,
+      headSummaries.length,
+      segments,
+      context.alpha,
+    );
+
     return {
       id: this.generateComparisonId(),
       baseSummary,
       headSummary,
+      baseRunCount: baseSummaries.length,
+      headRunCount: headSummaries.length,
+      alpha: context.alpha,
       frameMetrics,
       phaseBreakdown,
+      garbageCollection,
       hotspots,
+      segments,
       regressions,
       improvements,
       changeImpactScore,
       maxRegressionSeverity,
+      warnings: warnings.length > 0 ? warnings : undefined,
       timestamp: new Date().toISOString(),
     };
   }
 
   /**
-   * Compare frame metrics between two summaries
+   * Whether changes between samples of these sizes can be tested for
+   * significance at alpha
+   */
+  private canTestSignificance(
+    baseCount: number,
+    headCount: number,
+    alpha: number,
+  ): boolean {
+    return (
+      baseCount >= MIN_RUNS_FOR_STATISTICS &&
+      headCount >= MIN_RUNS_FOR_STATISTICS &&
+      canReachSignificance(baseCount, headCount, alpha)
+    );
+  }
+
+  /**
+   * Explain why a multi-run comparison, or a segment recorded in fewer of
+   * its runs, falls back to judging changes by their size alone
+   */
+  private getSampleSizeWarnings(
+    baseCount: number,
+    headCount: number,
+    segments: SegmentComparison[],
+    alpha: number,
+  ): string[] {
+    if (baseCount === 1 && headCount === 1) {
+      return [];
+    }
+
+    const warnings = this.getRunCountWarnings(baseCount, headCount, alpha);
+    for (const segment of segments) {
+      if (
+        segment.presence !== 'both' ||
+        (segment.baseRunCount === baseCount &&
+          segment.headRunCount === headCount)
+      ) {
+        continue;
+      }
+      warnings.push(
+        ...this.getRunCountWarnings(
+          segment.baseRunCount,
+          segment.headRunCount,
+          alpha,
+        ).map((warning) => `Segment ${segment.name}: ${warning}`),
+      );
+    }
+    return warnings;
+  }
+
+  /**
+   * Explain why samples of these sizes cannot be tested at alpha
+   */
+  private getRunCountWarnings(
+    baseCount: number,
+    headCount: number,
+    alpha: number,
+  ): string[] {
+    if (
+      baseCount < MIN_RUNS_FOR_STATISTICS ||
+      headCount < MIN_RUNS_FOR_STATISTICS
+    ) {
+      return [
+        `Significance testing needs at least ${MIN_RUNS_FOR_STATISTICS} runs on each side (got ${baseCount} base, ${headCount} head), changes are judged by size alone`,
+      ];
+    }
+    const minimumP = minimumUPValue(baseCount, headCount);
+    if (minimumP >= alpha) {
+      return [
+        `${baseCount} base and ${headCount} head runs cannot reach alpha ${alpha} (smallest possible p-value ${minimumP.toFixed(3)}), changes are judged by size alone. Record more runs.`,
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Refuse to compare runs recorded under different device profiles, since
+   * throttling alone would show up as regressions or improvements
+   */
+  private assertSameDeviceProfile(
+    baseSummaries: TraceSummary[],
+    headSummaries: TraceSummary[],
+  ): void {
+    const expected = baseSummaries[0]!.metadata?.device_profile;
+    for (const summary of [...baseSummaries, ...headSummaries]) {
+      const profile = summary.metadata?.device_profile;
+      if (isSameDeviceProfile(expected, profile)) continue;
+
+      const sameName = expected && profile && expected.name === profile.name;
+      throw new DeviceProfileMismatchError(
+        describeDeviceProfile(expected),
+        `${describeDeviceProfile(profile)}${sameName ? ' with different settings' : ''}`,
+      );
+    }
+  }
+
+  /**
+   * Compare frame metrics between two sets of runs
    */
   private compareFrameMetrics(
-    base: TraceSummary,
-    head: TraceSummary,
-    thresholds: SeverityThresholds,
+    base: TraceSummary[],
+    head: TraceSummary[],
+    context: MetricComparisonContext,
   ): MetricComparison[] {
-    const metrics: MetricComparison[] = [];
+    const droppedPct = (s: TraceSummary) =>
+      s.frames.total > 0 ? (s.frames.dropped / s.frames.total) * 100 : 0;
 
-    // Total frames (higher is better)
-    metrics.push(
+    return [
+      // Total frames (higher is better)
       this.createMetricComparison(
         'Total Frames',
-        base.frames.total,
-        head.frames.total,
+        base.map((s) => s.frames.total),
+        head.map((s) => s.frames.total),
         'frames',
-        thresholds,
-        true, // higher is better
+        context,
+        true,
       ),
-    );
-
-    // Dropped frames (lower is better)
-    metrics.push(
+      // Dropped frames (lower is better)
       this.createMetricComparison(
         'Dropped Frames',
-        base.frames.dropped,
-        head.frames.dropped,
+        base.map((s) => s.frames.dropped),
+        head.map((s) => s.frames.dropped),
         'frames',
-        thresholds,
-        false, // lower is better
+        context,
+        false,
       ),
-    );
-
-    // Average FPS (higher is better)
-    metrics.push(
+      // Average FPS (higher is better)
       this.createMetricComparison(
         'Average FPS',
-        base.frames.avg_fps,
-        head.frames.avg_fps,
+        base.map((s) => s.frames.avg_fps),
+        head.map((s) => s.frames.avg_fps),
         'fps',
-        thresholds,
-        true, // higher is better
+        context,
+        true,
       ),
-    );
-
-    // Dropped frames percentage (calculated)
-    const baseDroppedPct =
-      base.frames.total > 0
-        ? (base.frames.dropped / base.frames.total) * 100
-        : 0;
-    const headDroppedPct =
-      head.frames.total > 0
-        ? (head.frames.dropped / head.frames.total) * 100
-        : 0;
-    metrics.push(
+      // Dropped frames percentage (lower is better)
       this.createMetricComparison(
         'Dropped Frames %',
-        baseDroppedPct,
-        headDroppedPct,
+        base.map(droppedPct),
+        head.map(droppedPct),
         '%',
-        thresholds,
-        false, // lower is better
+        context,
+        false,
       ),
-    );
-
-    return metrics;
+    ];
   }
 
   /**
-   * Compare phase breakdown between two summaries
+   * Compare phase breakdown between two sets of runs (lower is better)
    */
   private comparePhaseBreakdown(
-    base: TraceSummary,
-    head: TraceSummary,
-    thresholds: SeverityThresholds,
+    base: TraceSummary[],
+    head: TraceSummary[],
+    context: MetricComparisonContext,
   ): MetricComparison[] {
-    const metrics: MetricComparison[] = [];
-
-    // Style recalc (lower is better)
-    metrics.push(
+    const phases: Array<[string, keyof TraceSummary['phase_breakdown']]> = [
+      ['Style Recalc', 'style_recalc_ms'],
+      ['Layout', 'layout_ms'],
+      ['Paint', 'paint_ms'],
+      ['Composite', 'composite_ms'],
+      ['GPU', 'gpu_ms'],
+    ];
+
+    return phases.map(([name, key]) =>
       this.createMetricComparison(
-        'Style Recalc',
-        base.phase_breakdown.style_recalc_ms,
-        head.phase_breakdown.style_recalc_ms,
+        name,
+        base.map((s) => s.phase_breakdown[key]),
+        head.map((s) => s.phase_breakdown[key]),
         'ms',
-        thresholds,
+        context,
         false,
       ),
     );
+  }
 
-    // Layout (lower is better)
-    metrics.push(
-      this.createMetricComparison(
-        'Layout',
-        base.phase_breakdown.layout_ms,
-        head.phase_breakdown.layout_ms,
-        'ms',
-        thresholds,
-        false,
-      ),
-    );
+  /**
+   * Compare garbage collection pause time and janked frames (lower is
+   * better). Skipped when a summary predates GC jank detection, which would
+   * otherwise show every pause as a regression.
+   */
+  private compareGarbageCollection(
+    base: TraceSummary[],
+    head: TraceSummary[],
+    context: MetricComparisonContext,
+  ): MetricComparison[] {
+    if ([...base, ...head].some((s) => !s.hotspots.gc_pauses)) {
+      return [];
+    }
 
-    // Paint (lower is better)
-    metrics.push(
-      this.createMetricComparison(
-        'Paint',
-        base.phase_breakdown.paint_ms,
-        head.phase_breakdown.paint_ms,
-        'ms',
-        thresholds,
-        false,
-      ),
-    );
+    const sum = (s: TraceSummary, key: 'gc_ms' | 'jank_frames') =>
+      (s.hotspots.gc_pauses ?? []).reduce((total, h) => total + h[key], 0);
 
-    // Composite (lower is better)
-    metrics.push(
+    return [
       this.createMetricComparison(
-        'Composite',
-        base.phase_breakdown.composite_ms,
-        head.phase_breakdown.composite_ms,
+        'GC Pauses',
+        base.map((s) => sum(s, 'gc_ms')),
+        head.map((s) => sum(s, 'gc_ms')),
         'ms',
-        thresholds,
+        context,
         false,
       ),
-    );
-
-    // GPU (lower is better)
-    metrics.push(
       this.createMetricComparison(
-        'GPU',
-        base.phase_breakdown.gpu_ms,
-        head.phase_breakdown.gpu_ms,
-        'ms',
-        thresholds,
+        'GC Jank Frames',
+        base.map((s) => sum(s, 'jank_frames')),
+        head.map((s) => sum(s, 'jank_frames')),
+        'frames',
+        context,
         false,
       ),
-    );
+    ];
+  }
 
-    return metrics;
+  /**
+   * Compare User Timing segments by name. Each side uses the runs that
+   * recorded the segment.
+   */
+  private compareSegments(
+    base: TraceSummary[],
+    head: TraceSummary[],
+    context: MetricComparisonContext,
+  ): SegmentComparison[] {
+    const collect = (summaries: TraceSummary[]) => {
+      const byName = new Map<string, SegmentSummary[]>();
+      for (const summary of summaries) {
+        for (const segment of summary.segments ?? []) {
+          const runs = byName.get(segment.name) ?? [];
+          runs.push(segment);
+          byName.set(segment.name, runs);
+        }
+      }
+      return byName;
+    };
+
+    const baseSegments = collect(base);
+    const headSegments = collect(head);
+    const names = [
+      ...new Set([...baseSegments.keys(), ...headSegments.keys()]),
+    ];
+
+    return names.map((name) => {
+      const baseRuns = baseSegments.get(name);
+      const headRuns = headSegments.get(name);
+
+      if (!baseRuns || !headRuns) {
+        return {
+          name,
+          presence: baseRuns ? 'base_only' : 'head_only',
+          baseRunCount: baseRuns?.length ?? 0,
+          headRunCount: headRuns?.length ?? 0,
+          metrics: [],
+        };
+      }
+
+      const meanDuration = (s: SegmentSummary) =>
+        s.occurrences > 0 ? s.duration_ms / s.occurrences : 0;
+      const droppedPct = (s: SegmentSummary) =>
+        s.frames.total > 0 ? (s.frames.dropped / s.frames.total) * 100 : 0;
+
+      return {
+        name,
+        presence: 'both',
+        baseRunCount: baseRuns.length,
+        headRunCount: headRuns.length,
+        metrics: [
+          this.createMetricComparison(
+            'Duration',
+            baseRuns.map(meanDuration),
+            headRuns.map(meanDuration),
+            'ms',
+            context,
+            false,
+          ),
+          this.createMetricComparison(
+            'Average FPS',
+            baseRuns.map((s) => s.frames.avg_fps),
+            headRuns.map((s) => s.frames.avg_fps),
+            'fps',
+            context,
+            true,
+          ),
+          this.createMetricComparison(
+            'Dropped Frames %',
+            baseRuns.map(droppedPct),
+            headRuns.map(droppedPct),
+            '%',
+            context,
+            false,
+          ),
+          this.createMetricComparison(
+            'Issues',
+            baseRuns.map((s) => s.detections.length),
+            headRuns.map((s) => s.detections.length),
+            'issues',
+            context,
+            false,
+          ),
+        ],
+      };
+    });
   }
 
   /**
-   * Compare hotspots between two summaries
+   * Hotspots of a set of runs with their cost averaged per run. A run
+   * without a hotspot counts as zero cost.
+   */
+  private averageHotspots(summaries: TraceSummary[]): ComparedHotspots {
+    const average = <T>(
+      runs: T[][],
+      key: (h: T) => string,
+      cost: (h: T) => number,
+      withCost: (h: T, cost: number) => T,
+    ): T[] => {
+      const byKey = new Map<string, { hotspot: T; total: number }>();
+      for (const hotspots of runs) {
+        for (const hotspot of hotspots) {
+          const entry = byKey.get(key(hotspot));
+          if (entry) {
+            entry.total += cost(hotspot);
+          } else {
+            byKey.set(key(hotspot), { hotspot, total: cost(hotspot) });
+          }
+        }
+      }
+      return [...byKey.values()].map(({ hotspot, total }) =>
+        withCost(hotspot, total / runs.length),
+      );
+    };
+    const functionKey = (h: { function: string; file: string }) =>
+      `${h.function}@${h.file}`;
+
+    return {
+      layout_thrashing: average(
+        summaries.map((s) => s.hotspots.layout_thrashing),
+        (h) => h.selector,
+        (h) => h.reflow_cost_ms,
+        (h, reflow_cost_ms) => ({ ...h, reflow_cost_ms }),
+      ),
+      gpu_stalls: average(
+        summaries.map((s) => s.hotspots.gpu_stalls),
+        (h) => h.element,
+        (h) => h.stall_ms,
+        (h, stall_ms) => ({ ...h, stall_ms }),
+      ),
+      long_tasks: average(
+        summaries.map((s) => s.hotspots.long_tasks),
+        functionKey,
+        (h) => h.cpu_ms,
+        (h, cpu_ms) => ({ ...h, cpu_ms }),
+      ),
+      gc_pauses: summaries.some((s) => s.hotspots.gc_pauses)
+        ? average(
+            summaries.map((s) => s.hotspots.gc_pauses ?? []),
+            functionKey,
+            (h) => h.gc_ms,
+            (h, gc_ms) => ({ ...h, gc_ms }),
+          )
+        : undefined,
+    };
+  }
+
+  /**
+   * Compare hotspots between two sets of averaged hotspots
    */
   private compareHotspots(
-    base: TraceSummary,
-    head: TraceSummary,
+    base: ComparedHotspots,
+    head: ComparedHotspots,
   ): HotspotComparisons {
     return {
       layoutThrashing: this.compareLayoutThrashing(base, head),
       gpuStalls: this.compareGPUStalls(base, head),
       longTasks: this.compareLongTasks(base, head),
+      gcPauses: this.compareGCPauses(base, head),
     };
   }
 
@@ -266,16 +602,12 @@ export class CompareService implements ICompareService {
    * Compare layout thrashing hotspots
    */
   private compareLayoutThrashing(
-    base: TraceSummary,
-    head: TraceSummary,
+    base: ComparedHotspots,
+    head: ComparedHotspots,
   ): LayoutThrashComparison[] {
     const comparisons: LayoutThrashComparison[] = [];
-    const baseMap = new Map(
-      base.hotspots.layout_thrashing.map((h) => [h.selector, h]),
-    );
-    const headMap = new Map(
-      head.hotspots.layout_thrashing.map((h) => [h.selector, h]),
-    );
+    const baseMap = new Map(base.layout_thrashing.map((h) => [h.selector, h]));
+    const headMap = new Map(head.layout_thrashing.map((h) => [h.selector, h]));
 
     // Compare existing hotspots
     for (const [selector, baseHotspot] of baseMap) {
@@ -324,16 +656,12 @@ export class CompareService implements ICompareService {
    * Compare GPU stall hotspots
    */
   private compareGPUStalls(
-    base: TraceSummary,
-    head: TraceSummary,
+    base: ComparedHotspots,
+    head: ComparedHotspots,
   ): GPUStallComparison[] {
     const comparisons: GPUStallComparison[] = [];
-    const baseMap = new Map(
-      base.hotspots.gpu_stalls.map((h) => [h.element, h]),
-    );
-    const headMap = new Map(
-      head.hotspots.gpu_stalls.map((h) => [h.element, h]),
-    );
+    const baseMap = new Map(base.gpu_stalls.map((h) => [h.element, h]));
+    const headMap = new Map(head.gpu_stalls.map((h) => [h.element, h]));
 
     for (const [element, baseHotspot] of baseMap) {
       const headHotspot = headMap.get(element);
@@ -379,8 +707,8 @@ export class CompareService implements ICompareService {
    * Compare long task hotspots
    */
   private compareLongTasks(
-    base: TraceSummary,
-    head: TraceSummary,
+    base: ComparedHotspots,
+    head: ComparedHotspots,
   ): LongTaskComparison[] {
     const comparisons: LongTaskComparison[] = [];
 
@@ -388,12 +716,8 @@ export class CompareService implements ICompareService {
     const createKey = (h: { function: string; file: string }) =>
       `${h.function}@${h.file}`;
 
-    const baseMap = new Map(
-      base.hotspots.long_tasks.map((h) => [createKey(h), h]),
-    );
-    const headMap = new Map(
-      head.hotspots.long_tasks.map((h) => [createKey(h), h]),
-    );
+    const baseMap = new Map(base.long_tasks.map((h) => [createKey(h), h]));
+    const headMap = new Map(head.long_tasks.map((h) => [createKey(h), h]));
 
     for (const [key, baseHotspot] of baseMap) {
       const headHotspot = headMap.get(key);
@@ -439,16 +763,81 @@ export class CompareService implements ICompareService {
   }
 
   /**
-   * Create a metric comparison object
+   * Compare garbage collection hotspots
+   */
+  private compareGCPauses(
+    base: ComparedHotspots,
+    head: ComparedHotspots,
+  ): GCPauseComparison[] {
+    const comparisons: GCPauseComparison[] = [];
+
+    const createKey = (h: { function: string; file: string }) =>
+      `${h.function}@${h.file}`;
+
+    const baseMap = new Map(
+      (base.gc_pauses ?? []).map((h) => [createKey(h), h]),
+    );
+    const headMap = new Map(
+      (head.gc_pauses ?? []).map((h) => [createKey(h), h]),
+    );
+
+    for (const [key, baseHotspot] of baseMap) {
+      const headHotspot = headMap.get(key);
+      if (headHotspot) {
+        const percentageChange = this.calculatePercentageChange(
+          baseHotspot.gc_ms,
+          headHotspot.gc_ms,
+        );
+        comparisons.push({
+          function: baseHotspot.function,
+          file: baseHotspot.file,
+          baseGcMs: baseHotspot.gc_ms,
+          headGcMs: headHotspot.gc_ms,
+          direction: this.determineDirection(percentageChange, false),
+          percentageChange,
+        });
+      } else {
+        comparisons.push({
+          function: baseHotspot.function,
+          file: baseHotspot.file,
+          baseGcMs: baseHotspot.gc_ms,
+          headGcMs: 0,
+          direction: 'improvement',
+          percentageChange: -100,
+        });
+      }
+    }
+
+    for (const [key, headHotspot] of headMap) {
+      if (!baseMap.has(key)) {
+        comparisons.push({
+          function: headHotspot.function,
+          file: headHotspot.file,
+          baseGcMs: 0,
+          headGcMs: headHotspot.gc_ms,
+          direction: 'regression',
+          percentageChange: 100,
+        });
+      }
+    }
+
+    return comparisons;
+  }
+
+  /**
+   * Create a metric comparison object. Values are per-run samples; the
+   * compared values are their means.
    */
   private createMetricComparison(
     name: string,
-    baseValue: number,
-    headValue: number,
+    baseValues: number[],
+    headValues: number[],
     unit: string,
-    thresholds: SeverityThresholds,
+    context: MetricComparisonContext,
     higherIsBetter: boolean,
   ): MetricComparison {
+    const baseValue = mean(baseValues);
+    const headValue = mean(headValues);
     const absoluteChange = headValue - baseValue;
     const percentageChange = this.calculatePercentageChange(
       baseValue,
@@ -457,10 +846,10 @@ export class CompareService implements ICompareService {
     const direction = this.determineDirection(percentageChange, higherIsBetter);
     const severity = this.determineSeverity(
       Math.abs(percentageChange),
-      thresholds,
+      context.thresholds,
     );
 
-    return {
+    const comparison: MetricComparison = {
       name,
       baseValue: Math.round(baseValue * 100) / 100,
       headValue: Math.round(headValue * 100) / 100,
@@ -470,6 +859,24 @@ export class CompareService implements ICompareService {
       severity: direction === 'regression' ? severity : 'info',
       unit,
     };
+
+    if (
+      this.canTestSignificance(
+        baseValues.length,
+        headValues.length,
+        context.alpha,
+      )
+    ) {
+      const { pValue } = mannWhitneyU(headValues, baseValues);
+      comparison.statistics = {
+        base: describeSample(baseValues, context.confidenceLevel),
+        head: describeSample(headValues, context.confidenceLevel),
+        pValue,
+        significant: pValue < context.alpha,
+      };
+    }
+
+    return comparison;
   }
 
   /**
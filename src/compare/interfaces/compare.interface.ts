@@ -4,6 +4,7 @@
  */
 
 import type { TraceSummary, Severity } from '../../shared/types/index.js';
+import type { SampleStatistics } from '../../shared/utils/index.js';
 
 /**
  * Metric change direction
@@ -30,6 +31,20 @@ export interface MetricComparison {
   severity: Severity;
   /** Unit of measurement */
   unit: string;
+  /** Run statistics, present when base or head has more than one run */
+  statistics?: MetricStatistics;
+}
+
+/**
+ * Distribution of a metric across multiple runs
+ */
+export interface MetricStatistics {
+  base: SampleStatistics;
+  head: SampleStatistics;
+  /** Two-sided Mann-Whitney U p-value */
+  pValue: number;
+  /** Whether the change is significant at the configured alpha */
+  significant: boolean;
 }
 
 /**
@@ -66,6 +81,18 @@ export interface LongTaskComparison {
   percentageChange: number;
 }
 
+/**
+ * Hotspot comparison for garbage collection pauses
+ */
+export interface GCPauseComparison {
+  function: string;
+  file: string;
+  baseGcMs: number;
+  headGcMs: number;
+  direction: ChangeDirection;
+  percentageChange: number;
+}
+
 /**
  * Hotspot comparisons grouped by type
  */
@@ -73,6 +100,23 @@ export interface HotspotComparisons {
   layoutThrashing: LayoutThrashComparison[];
   gpuStalls: GPUStallComparison[];
   longTasks: LongTaskComparison[];
+  gcPauses: GCPauseComparison[];
+}
+
+/**
+ * Comparison of one User Timing segment (measure name)
+ */
+export interface SegmentComparison {
+  /** Measure name */
+  name: string;
+  /** Whether the segment was recorded in base runs, head runs or both */
+  presence: 'both' | 'base_only' | 'head_only';
+  /** Number of base runs that recorded the segment */
+  baseRunCount: number;
+  /** Number of head runs that recorded the segment */
+  headRunCount: number;
+  /** Segment metric comparisons, empty unless present in both */
+  metrics: MetricComparison[];
 }
 
 /**
@@ -81,17 +125,27 @@ export interface HotspotComparisons {
 export interface ComparisonResult {
   /** Unique ID for this comparison */
   id: string;
-  /** Base trace summary */
+  /** Base trace summary (first run when comparing sets of runs) */
   baseSummary: TraceSummary;
-  /** Head trace summary */
+  /** Head trace summary (first run when comparing sets of runs) */
   headSummary: TraceSummary;
+  /** Number of base runs */
+  baseRunCount: number;
+  /** Number of head runs */
+  headRunCount: number;
+  /** Significance level used for the Mann-Whitney U test */
+  alpha: number;
   /** Frame metric comparisons */
   frameMetrics: MetricComparison[];
   /** Phase breakdown comparisons */
   phaseBreakdown: MetricComparison[];
+  /** Garbage collection comparisons, tracked apart from the phases */
+  garbageCollection: MetricComparison[];
   /** Hotspot comparisons */
   hotspots: HotspotComparisons;
-  /** All regressions found */
+  /** Per-segment comparisons for User Timing measures */
+  segments: SegmentComparison[];
+  /** All regressions found (segment metrics are prefixed with the segment name) */
   regressions: MetricComparison[];
   /** All improvements found */
   improvements: MetricComparison[];
@@ -99,6 +153,8 @@ export interface ComparisonResult {
   changeImpactScore: number;
   /** Highest severity among regressions */
   maxRegressionSeverity: Severity | null;
+  /** Why significance testing was skipped, for multi-run comparisons */
+  warnings?: string[];
   /** Timestamp of comparison */
   timestamp: string;
 }
@@ -111,6 +167,10 @@ export interface CompareOptions {
   significanceThreshold?: number;
   /** Custom severity thresholds */
   severityThresholds?: SeverityThresholds;
+  /** Significance level for multi-run comparisons (default: 0.05) */
+  alpha?: number;
+  /** Confidence level for reported intervals (default: 0.95) */
+  confidenceLevel?: number;
 }
 
 /**
@@ -140,6 +200,15 @@ export interface ICompareService {
     options?: CompareOptions,
   ): ComparisonResult;
 
+  /**
+   * Compare two sets of runs
+   */
+  compareRuns(
+    baseSummaries: TraceSummary[],
+    headSummaries: TraceSummary[],
+    options?: CompareOptions,
+  ): ComparisonResult;
+
   /**
    * Calculate change impact score
    */
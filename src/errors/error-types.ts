@@ -53,6 +53,32 @@ export class InvalidArgumentError extends RenderDebuggerError {
   }
 }
 
+export class PluginLoadError extends RenderDebuggerError {
+  readonly code = 'PLUGIN_LOAD_FAILED';
+  readonly exitCode = 3;
+  readonly recoverable = true;
+
+  constructor(
+    public readonly plugin: string,
+    public readonly reason: string,
+  ) {
+    super(`Failed to load plugin ${plugin}: ${reason}`);
+  }
+}
+
+export class AlertDeliveryError extends RenderDebuggerError {
+  readonly code = 'ALERT_DELIVERY_FAILED';
+  readonly exitCode = 4;
+  readonly recoverable = true;
+
+  constructor(
+    public readonly sink: string,
+    public readonly reason: string,
+  ) {
+    super(`Failed to send alert to ${sink}: ${reason}`);
+  }
+}
+
 // CDP/Browser Errors (10-19)
 
 export class CDPConnectionError extends RenderDebuggerError {
@@ -128,6 +154,36 @@ export class BrowserLaunchError extends RenderDebuggerError {
   }
 }
 
+export class ScenarioAssertionError extends RenderDebuggerError {
+  readonly code = 'SCENARIO_ASSERTION_FAILED';
+  readonly exitCode = 16;
+  readonly recoverable = false;
+
+  constructor(
+    public readonly scenario: string,
+    public readonly failures: string[],
+  ) {
+    super(
+      `${failures.length} setup assertion(s) failed in scenario: ${scenario}`,
+    );
+  }
+}
+
+export class DeviceProfileNotFoundError extends RenderDebuggerError {
+  readonly code = 'DEVICE_PROFILE_NOT_FOUND';
+  readonly exitCode = 17;
+  readonly recoverable = false;
+
+  constructor(
+    public readonly profile: string,
+    public readonly available: string[],
+  ) {
+    super(
+      `Device profile not found: ${profile}. ${available.length > 0 ? `Available profiles: ${available.join(', ')}` : 'No device profiles are defined in config.yaml'}`,
+    );
+  }
+}
+
 // Git/Patch Errors (20-29)
 
 export class GitRequiredError extends RenderDebuggerError {
@@ -135,9 +191,11 @@ export class GitRequiredError extends RenderDebuggerError {
   readonly exitCode = 20;
   readonly recoverable = false;
 
-  constructor() {
+  constructor(operation?: string) {
     super(
-      'Auto-apply requires a Git repository. Initialize git or use --dry-run.',
+      operation
+        ? `${operation} requires a Git repository.`
+        : 'Auto-apply requires a Git repository. Initialize git or use --dry-run.',
     );
   }
 }
@@ -174,13 +232,23 @@ export class DirtyWorkingTreeError extends RenderDebuggerError {
   readonly exitCode = 23;
   readonly recoverable = false;
 
-  constructor() {
+  constructor(operation = 'auto-apply') {
     super(
-      'Working tree has uncommitted changes. Commit or stash changes before auto-apply.',
+      `Working tree has uncommitted changes. Commit or stash changes before ${operation}.`,
     );
   }
 }
 
+export class BisectError extends RenderDebuggerError {
+  readonly code = 'BISECT_FAILED';
+  readonly exitCode = 24;
+  readonly recoverable = false;
+
+  constructor(public readonly reason: string) {
+    super(`Bisect failed: ${reason}`);
+  }
+}
+
 // Trace Errors (30-39)
 
 export class TraceParseError extends RenderDebuggerError {
@@ -219,6 +287,21 @@ export class InvalidTraceFormatError extends RenderDebuggerError {
   }
 }
 
+export class DeviceProfileMismatchError extends RenderDebuggerError {
+  readonly code = 'DEVICE_PROFILE_MISMATCH';
+  readonly exitCode = 33;
+  readonly recoverable = false;
+
+  constructor(
+    public readonly baseProfile: string,
+    public readonly headProfile: string,
+  ) {
+    super(
+      `Cannot compare traces recorded under different device profiles: ${baseProfile} vs ${headProfile}`,
+    );
+  }
+}
+
 // Rule Errors (40-49)
 
 export class RuleValidationError extends RenderDebuggerError {
@@ -244,6 +327,19 @@ export class RuleNotFoundError extends RenderDebuggerError {
   }
 }
 
+export class RuleExpressionError extends RenderDebuggerError {
+  readonly code = 'RULE_EXPRESSION_INVALID';
+  readonly exitCode = 42;
+  readonly recoverable = true;
+
+  constructor(
+    public readonly expression: string,
+    public readonly reason: string,
+  ) {
+    super(`Invalid rule expression "${expression}": ${reason}`);
+  }
+}
+
 // CI Failures (50-59)
 
 export class SeverityThresholdExceededError extends RenderDebuggerError {
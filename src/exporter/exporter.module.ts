@@ -0,0 +1,14 @@
+/**
+ * Exporter Module
+ * Provides TraceSnapshot export to Chrome JSON trace format and Perfetto
+ *
+ */
+
+import { Module } from '@nestjs/common';
+import { TraceExporterService } from './trace-exporter.service.js';
+
+@Module({
+  providers: [TraceExporterService],
+  exports: [TraceExporterService],
+})
+export class ExporterModule {}
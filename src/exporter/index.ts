@@ -0,0 +1,4 @@
+export * from './trace-exporter.service.js';
+export * from './proto-writer.js';
+export * from './exporter.module.js';
+export * from './interfaces/index.js';
@@ -0,0 +1,86 @@
+/**
+ * Exporter interfaces for converting TraceSnapshots to timeline viewer formats
+ *
+ */
+
+import type { TraceSnapshot } from '../../adapters/models/index.js';
+import type { Detection } from '../../shared/types/index.js';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'chrome' | 'perfetto';
+
+/**
+ * Options for trace export
+ */
+export interface ExportOptions {
+  /** Detections to include as annotated slices */
+  detections?: Detection[];
+  /** Process name shown in the timeline (default: derived from metadata) */
+  processName?: string;
+}
+
+/**
+ * A single event in the Chrome JSON trace format
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X' | 'i' | 'M' | 'C';
+  ts: number;
+  pid: number;
+  tid: number;
+  dur?: number;
+  s?: 't' | 'p' | 'g';
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Chrome JSON trace file (Trace Event Format, object form)
+ */
+export interface ChromeTraceFile {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms' | 'ns';
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Format-neutral slice produced from a TraceSnapshot before serialization
+ */
+export interface TimelineSlice {
+  /** Track (thread) the slice belongs to */
+  track: string;
+  name: string;
+  category: string;
+  /** Start timestamp in microseconds */
+  startUs: number;
+  /** Duration in microseconds (0 for instant events) */
+  durationUs: number;
+  args?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Trace exporter service interface
+ */
+export interface ITraceExporterService {
+  /** Build format-neutral timeline slices */
+  buildSlices(
+    snapshot: TraceSnapshot,
+    options?: ExportOptions,
+  ): TimelineSlice[];
+  /** Convert to Chrome JSON trace format */
+  toChromeTrace(
+    snapshot: TraceSnapshot,
+    options?: ExportOptions,
+  ): ChromeTraceFile;
+  /** Convert to Perfetto protobuf trace */
+  toPerfetto(snapshot: TraceSnapshot, options?: ExportOptions): Buffer;
+  /** Export to a file, returns the written path */
+  exportToFile(
+    snapshot: TraceSnapshot,
+    outputPath: string,
+    format: ExportFormat,
+    options?: ExportOptions,
+  ): Promise<string>;
+}
@@ -0,0 +1 @@
+export * from './exporter.interface.js';
@@ -0,0 +1,96 @@
+/**
+ * Proto Writer
+ * Minimal protobuf wire-format encoder, enough to emit Perfetto traces
+ * without a protobuf runtime dependency.
+ */
+
+/** Protobuf wire types */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+export class ProtoWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private length = 0;
+
+  /**
+   * Write a varint field (uint32/uint64/int32/int64/bool/enum)
+   */
+  varint(field: number, value: number | bigint | boolean): this {
+    const numeric =
+      typeof value === 'boolean'
+        ? BigInt(value ? 1 : 0)
+        : BigInt.asUintN(
+            64,
+            typeof value === 'bigint' ? value : BigInt(Math.round(value)),
+          );
+    this.writeTag(field, WIRE_VARINT);
+    this.writeRawVarint(numeric);
+    return this;
+  }
+
+  /**
+   * Write a double field
+   */
+  double(field: number, value: number): this {
+    this.writeTag(field, WIRE_FIXED64);
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value, 0);
+    this.push(buffer);
+    return this;
+  }
+
+  /**
+   * Write a string field
+   */
+  string(field: number, value: string): this {
+    return this.bytes(field, Buffer.from(value, 'utf-8'));
+  }
+
+  /**
+   * Write a nested message field
+   */
+  message(field: number, nested: ProtoWriter): this {
+    return this.bytes(field, nested.finish());
+  }
+
+  /**
+   * Write a length-delimited bytes field
+   */
+  bytes(field: number, value: Uint8Array): this {
+    this.writeTag(field, WIRE_LENGTH_DELIMITED);
+    this.writeRawVarint(BigInt(value.length));
+    this.push(value);
+    return this;
+  }
+
+  /**
+   * Concatenate everything written so far
+   */
+  finish(): Buffer {
+    return Buffer.concat(this.chunks, this.length);
+  }
+
+  private writeTag(field: number, wireType: number): void {
+    this.writeRawVarint(BigInt((field << 3) | wireType));
+  }
+
+  private writeRawVarint(value: bigint): void {
+    const bytes: number[] = [];
+    let remaining = value;
+    do {
+      let byte = Number(remaining & 0x7fn);
+      remaining >>= 7n;
+      if (remaining > 0n) {
+        byte |= 0x80;
+      }
+      bytes.push(byte);
+    } while (remaining > 0n);
+    this.push(Uint8Array.from(bytes));
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for TraceExporterService
+ */
+
+import { TraceExporterService } from './trace-exporter.service.js';
+import { ProtoWriter } from './proto-writer.js';
+import type { TraceSnapshot } from '../adapters/models/index.js';
+import type { LongTaskDetection } from '../shared/types/index.js';
+
+describe('TraceExporterService', () => {
+  const service = new TraceExporterService();
+
+  const snapshot: TraceSnapshot = {
+    id: 'trace-1',
+    name: 'scroll',
+    durationMs: 100,
+    frameTimings: [
+      {
+        frameId: 1,
+        startTime: 1_000,
+        endTime: 17_000,
+        durationMs: 16,
+        dropped: false,
+      },
+      {
+        frameId: 2,
+        startTime: 17_000,
+        endTime: 57_000,
+        durationMs: 40,
+        dropped: true,
+      },
+    ],
+    frameMetrics: {
+      totalFrames: 2,
+      droppedFrames: 1,
+      avgFps: 35,
+      frameBudgetMs: 16.67,
+      p95FrameTimeMs: 40,
+      maxFrameTimeMs: 40,
+      minFrameTimeMs: 16,
+    },
+    longTasks: [
+      { startTime: 18_000, durationMs: 60, functionName: 'handleScroll' },
+    ],
+    domSignals: [],
+    gpuEvents: [
+      { type: 'raster', timestamp: 20_000, durationMs: 10 },
+      { type: 'texture_upload', timestamp: 25_000, durationMs: 10 },
+    ],
+    paintEvents: [],
+    metadata: {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      fpsTarget: 60,
+      adapterType: 'chromium-cdp',
+      platform: 'chromium',
+    },
+  };
+
+  const detection: LongTaskDetection = {
+    type: 'long_task',
+    severity: 'high',
+    description: 'Long task in handleScroll',
+    location: { file: 'app.js', line: 10, column: 2 },
+    metrics: {
+      durationMs: 60,
+      occurrences: 1,
+      impactScore: 50,
+      confidence: 'high',
+      estimatedSpeedupPct: 20,
+      speedupExplanation: 'Split the task',
+      frameBudgetImpactPct: 100,
+    },
+    evidence: [
+      {
+        name: 'FunctionCall',
+        cat: 'devtools',
+        ph: 'X',
+        ts: 18_000,
+        dur: 60_000,
+        pid: 1,
+        tid: 1,
+      },
+    ],
+    functionName: 'handleScroll',
+    file: 'app.js',
+    line: 10,
+    column: 2,
+    cpuMs: 60,
+    occurrences: 1,
+    correlatedFrameDrops: 1,
+    callStack: [],
+  };
+
+  it('should spread overlapping slices over extra lanes', () => {
+    const slices = service.buildSlices(snapshot);
+    const gpuTracks = slices
+      .filter((s) => s.category === 'gpu')
+      .map((s) => s.track);
+
+    expect(gpuTracks).toEqual(['GPU', 'GPU (2)']);
+  });
+
+  it('should add detections as slices spanning their evidence', () => {
+    const slices = service.buildSlices(snapshot, { detections: [detection] });
+    const slice = slices.find((s) => s.track === 'Detections');
+
+    expect(slice).toBeDefined();
+    expect(slice!.startUs).toBe(18_000);
+    expect(slice!.durationUs).toBe(60_000);
+    expect(slice!.args).toMatchObject({
+      severity: 'high',
+      location: 'app.js:10:2',
+    });
+  });
+
+  it('should emit named thread tracks and complete events in Chrome format', () => {
+    const trace = service.toChromeTrace(snapshot, { detections: [detection] });
+    const threadNames = trace.traceEvents
+      .filter((e) => e.name === 'thread_name')
+      .map((e) => e.args?.name);
+
+    expect(threadNames).toEqual([
+      'Frames',
+      'Main Thread',
+      'GPU',
+      'GPU (2)',
+      'Detections',
+    ]);
+    const frame = trace.traceEvents.find((e) => e.name === 'Frame (dropped)');
+    expect(frame).toMatchObject({ ph: 'X', ts: 17_000, dur: 40_000 });
+  });
+
+  it('should encode a Perfetto trace of length-delimited packets', () => {
+    const buffer = service.toPerfetto(snapshot);
+
+    // Every top-level field is Trace.packet (field 1, wire type 2)
+    let offset = 0;
+    let packets = 0;
+    while (offset < buffer.length) {
+      expect(buffer[offset]).toBe(0x0a);
+      offset++;
+      let length = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = buffer[offset++]!;
+        length |= (byte & 0x7f) << shift;
+        shift += 7;
+      } while (byte & 0x80);
+      offset += length;
+      packets++;
+    }
+
+    expect(offset).toBe(buffer.length);
+    // 1 process + 4 thread descriptors + begin/end for 5 slices
+    expect(packets).toBe(1 + 4 + 10);
+    expect(buffer.includes(Buffer.from('handleScroll'))).toBe(true);
+  });
+});
+
+describe('ProtoWriter', () => {
+  it('should encode varints and nested messages', () => {
+    const encoded = new ProtoWriter()
+      .varint(1, 300)
+      .message(2, new ProtoWriter().string(1, 'hi'))
+      .finish();
+
+    expect([...encoded]).toEqual([
+      0x08, 0xac, 0x02, 0x12, 0x04, 0x0a, 0x02, 0x68, 0x69,
+    ]);
+  });
+
+  it('should encode large and negative values as 64-bit varints', () => {
+    expect(new ProtoWriter().varint(1, 2n ** 40n).finish().length).toBe(7);
+    expect(new ProtoWriter().varint(1, -1).finish().length).toBe(11);
+  });
+});
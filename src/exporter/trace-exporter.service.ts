@@ -0,0 +1,601 @@
+/**
+ * Trace Exporter Service
+ * Converts TraceSnapshots from any adapter into Chrome JSON trace format
+ * and Perfetto protobuf so they can be opened in chrome://tracing or
+ * ui.perfetto.dev. Detections are emitted as annotated slices on their
+ * own track.
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { TraceSnapshot } from '../adapters/models/index.js';
+import type { Detection } from '../shared/types/index.js';
+import type {
+  ITraceExporterService,
+  ExportOptions,
+  ExportFormat,
+  ChromeTraceEvent,
+  ChromeTraceFile,
+  TimelineSlice,
+} from './interfaces/index.js';
+import { ProtoWriter } from './proto-writer.js';
+
+/**
+ * Track names, in display order
+ */
+const TRACKS = {
+  frames: 'Frames',
+  main: 'Main Thread',
+  dom: 'DOM',
+  gpu: 'GPU',
+  paint: 'Paint',
+  userTiming: 'User Timing',
+  detections: 'Detections',
+} as const;
+
+const TRACK_ORDER: string[] = Object.values(TRACKS);
+
+/** Process ID used for all exported tracks */
+const EXPORT_PID = 1;
+
+/** Timeline names for DOM signal types */
+const DOM_SIGNAL_NAMES: Record<string, string> = {
+  forced_reflow: 'Layout (forced)',
+  style_recalc: 'RecalculateStyles',
+  layout_invalidation: 'InvalidateLayout',
+  dom_mutation: 'DOMMutation',
+};
+
+/**
+ * Perfetto proto field numbers (perfetto/protos/perfetto/trace)
+ */
+const PERFETTO = {
+  trace: { packet: 1 },
+  packet: {
+    timestamp: 8,
+    trustedPacketSequenceId: 10,
+    trackEvent: 11,
+    sequenceFlags: 13,
+    trackDescriptor: 60,
+  },
+  trackDescriptor: { uuid: 1, name: 2, process: 3, thread: 4, parentUuid: 5 },
+  processDescriptor: { pid: 1, processName: 6 },
+  threadDescriptor: { pid: 1, tid: 2, threadName: 5 },
+  trackEvent: {
+    debugAnnotations: 4,
+    type: 9,
+    trackUuid: 11,
+    categories: 22,
+    name: 23,
+  },
+  debugAnnotation: {
+    boolValue: 2,
+    intValue: 4,
+    doubleValue: 5,
+    stringValue: 6,
+    name: 10,
+  },
+  eventType: { sliceBegin: 1, sliceEnd: 2, instant: 3 },
+  seqIncrementalStateCleared: 1,
+} as const;
+
+/** Perfetto packet sequence ID used for the whole export */
+const SEQUENCE_ID = 1;
+
+/** Base UUID for exported Perfetto tracks */
+const TRACK_UUID_BASE = 100;
+
+@Injectable()
+export class TraceExporterService implements ITraceExporterService {
+  /**
+   * Build format-neutral timeline slices from a snapshot.
+   * Overlapping slices on the same track are spread over extra lanes
+   * (e.g. "GPU (2)") so every track nests correctly in both viewers.
+   */
+  buildSlices(
+    snapshot: TraceSnapshot,
+    options: ExportOptions = {},
+  ): TimelineSlice[] {
+    const slices: TimelineSlice[] = [];
+
+    for (const frame of snapshot.frameTimings) {
+      slices.push({
+        track: TRACKS.frames,
+        name: frame.dropped ? 'Frame (dropped)' : 'Frame',
+        category: 'frame',
+        startUs: frame.startTime,
+        durationUs: frame.durationMs * 1000,
+        args: this.compactArgs({
+          frameId: frame.frameId,
+          dropped: frame.dropped,
+          styleRecalcMs: frame.styleRecalcMs,
+          layoutMs: frame.layoutMs,
+          paintMs: frame.paintMs,
+          compositeMs: frame.compositeMs,
+          gpuMs: frame.gpuMs,
+        }),
+      });
+    }
+
+    for (const task of snapshot.longTasks) {
+      const topFrame = task.callStack?.[0];
+      slices.push({
+        track: TRACKS.main,
+        name: task.functionName ?? 'Long Task',
+        category: 'long_task',
+        startUs: task.startTime,
+        durationUs: task.durationMs * 1000,
+        args: this.compactArgs({
+          file: task.file,
+          line: task.line,
+          column: task.column,
+          correlatedFrameId: task.correlatedFrameId,
+          stack: task.callStack
+            ?.map((f) => `${f.functionName} (${f.file}:${f.line})`)
+            .join('\n'),
+          topFrame: topFrame ? topFrame.functionName : undefined,
+        }),
+      });
+    }
+
+    for (const signal of snapshot.domSignals) {
+      slices.push({
+        track: TRACKS.dom,
+        name: DOM_SIGNAL_NAMES[signal.type] ?? signal.type,
+        category: 'dom',
+        startUs: signal.timestamp,
+        durationUs: (signal.durationMs ?? 0) * 1000,
+        args: this.compactArgs({
+          selector: signal.selector,
+          affectedNodes: signal.affectedNodes,
+          frameId: signal.frameId,
+          properties: signal.properties
+            ?.map((p) => `${p.accessType}:${p.name}`)
+            .join(', '),
+        }),
+      });
+    }
+
+    for (const gpuEvent of snapshot.gpuEvents) {
+      slices.push({
+        track: TRACKS.gpu,
+        name: `GPU ${gpuEvent.type}`,
+        category: 'gpu',
+        startUs: gpuEvent.timestamp,
+        durationUs: gpuEvent.durationMs * 1000,
+        args: this.compactArgs({
+          element: gpuEvent.element,
+          layerId: gpuEvent.layerId,
+          frameId: gpuEvent.frameId,
+        }),
+      });
+    }
+
+    for (const paint of snapshot.paintEvents) {
+      const paintArgs = this.compactArgs({
+        frameId: paint.frameId,
+        layerCount: paint.layerCount,
+        bounds: paint.bounds
+          ? `${paint.bounds.x},${paint.bounds.y} ${paint.bounds.width}x${paint.bounds.height}`
+          : undefined,
+      });
+      slices.push({
+        track: TRACKS.paint,
+        name: 'Paint',
+        category: 'paint',
+        startUs: paint.timestamp,
+        durationUs: paint.paintDurationMs * 1000,
+        args: paintArgs,
+      });
+      if (paint.rasterDurationMs) {
+        slices.push({
+          track: TRACKS.paint,
+          name: 'Raster',
+          category: 'paint',
+          startUs: paint.timestamp + paint.paintDurationMs * 1000,
+          durationUs: paint.rasterDurationMs * 1000,
+          args: paintArgs,
+        });
+      }
+    }
+
+    for (const measure of snapshot.userTiming?.measures ?? []) {
+      slices.push({
+        track: TRACKS.userTiming,
+        name: measure.name,
+        category: 'user_timing',
+        startUs: measure.startTime,
+        durationUs: measure.durationMs * 1000,
+      });
+    }
+
+    const traceStartUs = this.getTraceStart(snapshot);
+    for (const detection of options.detections ?? []) {
+      slices.push(this.detectionToSlice(detection, traceStartUs));
+    }
+
+    return this.assignLanes(slices);
+  }
+
+  /**
+   * Convert a snapshot to Chrome JSON trace format
+   */
+  toChromeTrace(
+    snapshot: TraceSnapshot,
+    options: ExportOptions = {},
+  ): ChromeTraceFile {
+    const slices = this.buildSlices(snapshot, options);
+    const tracks = this.orderTracks(slices);
+    const events: ChromeTraceEvent[] = [
+      {
+        name: 'process_name',
+        cat: '__metadata',
+        ph: 'M',
+        ts: 0,
+        pid: EXPORT_PID,
+        tid: 0,
+        args: { name: this.getProcessName(snapshot, options) },
+      },
+    ];
+
+    tracks.forEach((track, index) => {
+      events.push(
+        {
+          name: 'thread_name',
+          cat: '__metadata',
+          ph: 'M',
+          ts: 0,
+          pid: EXPORT_PID,
+          tid: index + 1,
+          args: { name: track },
+        },
+        {
+          name: 'thread_sort_index',
+          cat: '__metadata',
+          ph: 'M',
+          ts: 0,
+          pid: EXPORT_PID,
+          tid: index + 1,
+          args: { sort_index: index },
+        },
+      );
+    });
+
+    for (const slice of slices) {
+      const tid = tracks.indexOf(slice.track) + 1;
+      events.push(
+        slice.durationUs > 0
+          ? {
+              name: slice.name,
+              cat: slice.category,
+              ph: 'X',
+              ts: slice.startUs,
+              dur: slice.durationUs,
+              pid: EXPORT_PID,
+              tid,
+              args: slice.args,
+            }
+          : {
+              name: slice.name,
+              cat: slice.category,
+              ph: 'i',
+              s: 't',
+              ts: slice.startUs,
+              pid: EXPORT_PID,
+              tid,
+              args: slice.args,
+            },
+      );
+    }
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: 'ms',
+      metadata: {
+        'trace-id': snapshot.id,
+        name: snapshot.name,
+        ...snapshot.metadata,
+      },
+    };
+  }
+
+  /**
+   * Convert a snapshot to a Perfetto protobuf trace
+   */
+  toPerfetto(snapshot: TraceSnapshot, options: ExportOptions = {}): Buffer {
+    const slices = this.buildSlices(snapshot, options);
+    const tracks = this.orderTracks(slices);
+    const trace = new ProtoWriter();
+    const processUuid = TRACK_UUID_BASE;
+
+    // Process track, which also clears incremental state for the sequence
+    trace.message(
+      PERFETTO.trace.packet,
+      new ProtoWriter()
+        .varint(PERFETTO.packet.trustedPacketSequenceId, SEQUENCE_ID)
+        .varint(
+          PERFETTO.packet.sequenceFlags,
+          PERFETTO.seqIncrementalStateCleared,
+        )
+        .message(
+          PERFETTO.packet.trackDescriptor,
+          new ProtoWriter()
+            .varint(PERFETTO.trackDescriptor.uuid, processUuid)
+            .message(
+              PERFETTO.trackDescriptor.process,
+              new ProtoWriter()
+                .varint(PERFETTO.processDescriptor.pid, EXPORT_PID)
+                .string(
+                  PERFETTO.processDescriptor.processName,
+                  this.getProcessName(snapshot, options),
+                ),
+            ),
+        ),
+    );
+
+    // One thread track per timeline track
+    tracks.forEach((track, index) => {
+      trace.message(
+        PERFETTO.trace.packet,
+        new ProtoWriter()
+          .varint(PERFETTO.packet.trustedPacketSequenceId, SEQUENCE_ID)
+          .message(
+            PERFETTO.packet.trackDescriptor,
+            new ProtoWriter()
+              .varint(PERFETTO.trackDescriptor.uuid, processUuid + index + 1)
+              .varint(PERFETTO.trackDescriptor.parentUuid, processUuid)
+              .message(
+                PERFETTO.trackDescriptor.thread,
+                new ProtoWriter()
+                  .varint(PERFETTO.threadDescriptor.pid, EXPORT_PID)
+                  .varint(PERFETTO.threadDescriptor.tid, index + 1)
+                  .string(PERFETTO.threadDescriptor.threadName, track),
+              ),
+          ),
+      );
+    });
+
+    // Slice begin/end and instant events, in timestamp order
+    const events: Array<{ ts: number; order: number; packet: ProtoWriter }> =
+      [];
+    for (const slice of slices) {
+      const trackUuid = processUuid + tracks.indexOf(slice.track) + 1;
+
+      if (slice.durationUs <= 0) {
+        events.push({
+          ts: slice.startUs,
+          order: 1,
+          packet: this.trackEventPacket(
+            slice.startUs,
+            this.sliceEvent(slice, PERFETTO.eventType.instant, trackUuid),
+          ),
+        });
+        continue;
+      }
+
+      events.push(
+        {
+          ts: slice.startUs,
+          order: 1,
+          packet: this.trackEventPacket(
+            slice.startUs,
+            this.sliceEvent(slice, PERFETTO.eventType.sliceBegin, trackUuid),
+          ),
+        },
+        {
+          ts: slice.startUs + slice.durationUs,
+          order: 0,
+          packet: this.trackEventPacket(
+            slice.startUs + slice.durationUs,
+            new ProtoWriter()
+              .varint(PERFETTO.trackEvent.type, PERFETTO.eventType.sliceEnd)
+              .varint(PERFETTO.trackEvent.trackUuid, trackUuid),
+          ),
+        },
+      );
+    }
+
+    events.sort((a, b) => a.ts - b.ts || a.order - b.order);
+    for (const event of events) {
+      trace.message(PERFETTO.trace.packet, event.packet);
+    }
+
+    return trace.finish();
+  }
+
+  /**
+   * Export a snapshot to a file in the given format
+   */
+  async exportToFile(
+    snapshot: TraceSnapshot,
+    outputPath: string,
+    format: ExportFormat,
+    options: ExportOptions = {},
+  ): Promise<string> {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+    if (format === 'perfetto') {
+      await fs.writeFile(outputPath, this.toPerfetto(snapshot, options));
+    } else {
+      await fs.writeFile(
+        outputPath,
+        JSON.stringify(this.toChromeTrace(snapshot, options)),
+        'utf-8',
+      );
+    }
+
+    return outputPath;
+  }
+
+  /**
+   * Convert a detection into a slice spanning its evidence
+   */
+  private detectionToSlice(
+    detection: Detection,
+    traceStartUs: number,
+  ): TimelineSlice {
+    const timed = detection.evidence.filter((e) => e.ts > 0);
+    const startUs =
+      timed.length > 0
+        ? timed.reduce((min, e) => Math.min(min, e.ts), Infinity)
+        : traceStartUs;
+    const endUs =
+      timed.length > 0
+        ? timed.reduce((max, e) => Math.max(max, e.ts + (e.dur ?? 0)), 0)
+        : traceStartUs;
+    const { location, metrics } = detection;
+
+    return {
+      track: TRACKS.detections,
+      name: `${detection.type} [${detection.severity}]`,
+      category: 'render-debugger.detection',
+      startUs,
+      durationUs: endUs - startUs,
+      args: this.compactArgs({
+        description: detection.description,
+        severity: detection.severity,
+        impactScore: metrics.impactScore,
+        occurrences: metrics.occurrences,
+        durationMs: metrics.durationMs,
+        estimatedSpeedupPct: metrics.estimatedSpeedupPct,
+        confidence: metrics.confidence,
+        location: location.file
+          ? `${location.file}:${location.line ?? 0}:${location.column ?? 0}`
+          : undefined,
+        selector: location.selector,
+        element: location.element,
+      }),
+    };
+  }
+
+  /**
+   * Spread overlapping slices on the same track over numbered lanes
+   */
+  private assignLanes(slices: TimelineSlice[]): TimelineSlice[] {
+    const laneEnds = new Map<string, number[]>();
+    const sorted = [...slices].sort(
+      (a, b) => a.startUs - b.startUs || b.durationUs - a.durationUs,
+    );
+
+    return sorted.map((slice) => {
+      if (slice.durationUs <= 0) {
+        return slice;
+      }
+
+      const ends = laneEnds.get(slice.track) ?? [];
+      let lane = ends.findIndex((end) => end <= slice.startUs);
+      if (lane === -1) {
+        lane = ends.length;
+      }
+      ends[lane] = slice.startUs + slice.durationUs;
+      laneEnds.set(slice.track, ends);
+
+      return lane === 0
+        ? slice
+        : { ...slice, track: `${slice.track} (${lane + 1})` };
+    });
+  }
+
+  /**
+   * Order tracks: known tracks first (with their lanes), then the rest
+   */
+  private orderTracks(slices: TimelineSlice[]): string[] {
+    const names = Array.from(new Set(slices.map((s) => s.track)));
+    const rank = (track: string) => {
+      const base = track.replace(/ \(\d+\)$/, '');
+      const index = TRACK_ORDER.indexOf(base);
+      return index === -1 ? TRACK_ORDER.length : index;
+    };
+
+    return names.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+
+  /**
+   * Build a Perfetto track event for a slice begin or instant
+   */
+  private sliceEvent(
+    slice: TimelineSlice,
+    type: number,
+    trackUuid: number,
+  ): ProtoWriter {
+    const event = new ProtoWriter()
+      .varint(PERFETTO.trackEvent.type, type)
+      .varint(PERFETTO.trackEvent.trackUuid, trackUuid)
+      .string(PERFETTO.trackEvent.categories, slice.category)
+      .string(PERFETTO.trackEvent.name, slice.name);
+
+    for (const [name, value] of Object.entries(slice.args ?? {})) {
+      const annotation = new ProtoWriter().string(
+        PERFETTO.debugAnnotation.name,
+        name,
+      );
+      if (typeof value === 'boolean') {
+        annotation.varint(PERFETTO.debugAnnotation.boolValue, value);
+      } else if (typeof value === 'number') {
+        if (Number.isInteger(value)) {
+          annotation.varint(PERFETTO.debugAnnotation.intValue, value);
+        } else {
+          annotation.double(PERFETTO.debugAnnotation.doubleValue, value);
+        }
+      } else {
+        annotation.string(PERFETTO.debugAnnotation.stringValue, value);
+      }
+      event.message(PERFETTO.trackEvent.debugAnnotations, annotation);
+    }
+
+    return event;
+  }
+
+  /**
+   * Wrap a track event in a trace packet at a microsecond timestamp
+   */
+  private trackEventPacket(tsUs: number, event: ProtoWriter): ProtoWriter {
+    return new ProtoWriter()
+      .varint(PERFETTO.packet.timestamp, BigInt(Math.round(tsUs * 1000)))
+      .varint(PERFETTO.packet.trustedPacketSequenceId, SEQUENCE_ID)
+      .message(PERFETTO.packet.trackEvent, event);
+  }
+
+  /**
+   * Drop undefined values from slice arguments
+   */
+  private compactArgs(
+    args: Record<string, string | number | boolean | undefined>,
+  ): Record<string, string | number | boolean> {
+    const result: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(args)) {
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Earliest timestamp in the snapshot (microseconds)
+   */
+  private getTraceStart(snapshot: TraceSnapshot): number {
+    const starts = [
+      ...snapshot.frameTimings.map((f) => f.startTime),
+      ...snapshot.longTasks.map((t) => t.startTime),
+      ...snapshot.domSignals.map((s) => s.timestamp),
+      ...snapshot.gpuEvents.map((g) => g.timestamp),
+      ...snapshot.paintEvents.map((p) => p.timestamp),
+    ];
+    return starts.length > 0
+      ? starts.reduce((min, ts) => Math.min(min, ts), Infinity)
+      : 0;
+  }
+
+  private getProcessName(
+    snapshot: TraceSnapshot,
+    options: ExportOptions,
+  ): string {
+    return (
+      options.processName ??
+      `${snapshot.name} (${snapshot.metadata.platform}, ${snapshot.metadata.adapterType})`
+    );
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * History Store Service
+ * Embedded append-only store of analyzed runs that outlives the trace
+ * retention period
+ *
+ * Records are appended as JSON lines to `history/runs.jsonl`. A separate
+ * `history/index.jsonl` holds the URL, scenario, name, commit, branch and
+ * timestamp of every record with its byte offset, so queries only read the
+ * records they return. Truncated lines left by an interrupted write are
+ * skipped.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageService } from '../services/storage.service.js';
+import type { HistoryRecord } from '../shared/types/index.js';
+import type {
+  HistoryIndexEntry,
+  HistoryQuery,
+  IHistoryStore,
+} from './interfaces/index.js';
+
+const RUNS_FILE = 'runs.jsonl';
+const INDEX_FILE = 'index.jsonl';
+
+@Injectable()
+export class HistoryStoreService implements IHistoryStore {
+  private readonly logger = new Logger(HistoryStoreService.name);
+
+  /** Appends runs one at a time so that offsets match the file size */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly storageService: StorageService) {}
+
+  /**
+   * Get the history directory path
+   */
+  getHistoryDir(): string {
+    return path.join(this.storageService.getBaseDir(), 'history');
+  }
+
+  /**
+   * Append a run to the store
+   */
+  append(record: HistoryRecord): Promise<void> {
+    const write = this.writeQueue.then(() => this.write(record));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Find runs matching the query, oldest first
+   */
+  async query(query: HistoryQuery = {}): Promise<HistoryRecord[]> {
+    let entries = (await this.readIndex()).filter((entry) =>
+      this.matches(entry, query),
+    );
+
+    entries.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+    if (query.limit !== undefined) {
+      entries = entries.slice(-query.limit);
+    }
+
+    return this.readRecords(entries);
+  }
+
+  /**
+   * Get a run by ID
+   */
+  async get(id: string): Promise<HistoryRecord | undefined> {
+    const entry = (await this.readIndex()).find((e) => e.id === id);
+    if (!entry) return undefined;
+    const [record] = await this.readRecords([entry]);
+    return record;
+  }
+
+  private async write(record: HistoryRecord): Promise<void> {
+    const historyDir = this.getHistoryDir();
+    await fs.mkdir(historyDir, { recursive: true });
+
+    const runsPath = path.join(historyDir, RUNS_FILE);
+    const offset = await fs
+      .stat(runsPath)
+      .then((s) => s.size)
+      .catch(() => 0);
+    const line = JSON.stringify(record);
+    await fs.appendFile(runsPath, `${line}\n`, 'utf-8');
+
+    const entry: HistoryIndexEntry = {
+      id: record.id,
+      recorded_at: record.recorded_at,
+      name: record.name,
+      url: record.url,
+      scenario: record.scenario,
+      git_commit: record.git_commit,
+      branch: record.branch,
+      offset,
+      length: Buffer.byteLength(line),
+    };
+    await fs.appendFile(
+      path.join(historyDir, INDEX_FILE),
+      `${JSON.stringify(entry)}\n`,
+      'utf-8',
+    );
+  }
+
+  private async readIndex(): Promise<HistoryIndexEntry[]> {
+    const indexPath = path.join(this.getHistoryDir(), INDEX_FILE);
+    if (!(await this.storageService.exists(indexPath))) {
+      return [];
+    }
+
+    const entries: HistoryIndexEntry[] = [];
+    const content = await fs.readFile(indexPath, 'utf-8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as HistoryIndexEntry);
+      } catch {
+        this.logger.warn('Skipping corrupt history index entry');
+      }
+    }
+    return entries;
+  }
+
+  private async readRecords(
+    entries: HistoryIndexEntry[],
+  ): Promise<HistoryRecord[]> {
+    if (entries.length === 0) return [];
+
+    const handle = await fs.open(path.join(this.getHistoryDir(), RUNS_FILE));
+    try {
+      const records: HistoryRecord[] = [];
+      for (const entry of entries) {
+        const buffer = Buffer.alloc(entry.length);
+        await handle.read(buffer, 0, entry.length, entry.offset);
+        try {
+          const record = JSON.parse(buffer.toString('utf-8')) as HistoryRecord;
+          if (record.id === entry.id) {
+            records.push(record);
+            continue;
+          }
+        } catch {
+          // Fall through to the warning below
+        }
+        this.logger.warn(`Skipping unreadable history record ${entry.id}`);
+      }
+      return records;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private matches(entry: HistoryIndexEntry, query: HistoryQuery): boolean {
+    const recordedAt = new Date(entry.recorded_at);
+    return (
+      (query.url === undefined || entry.url === query.url) &&
+      (query.scenario === undefined || entry.scenario === query.scenario) &&
+      (query.name === undefined || entry.name === query.name) &&
+      (query.branch === undefined || entry.branch === query.branch) &&
+      (query.commit === undefined ||
+        (entry.git_commit?.startsWith(query.commit) ?? false)) &&
+      (query.since === undefined || recordedAt >= query.since) &&
+      (query.until === undefined || recordedAt < query.until)
+    );
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * History Module
+ * Provides the long-term store of analyzed runs and trend computation
+ *
+ */
+
+import { Module } from '@nestjs/common';
+import { HistoryStoreService } from './history-store.service.js';
+import { HistoryService } from './history.service.js';
+import { PatcherModule } from '../patcher/patcher.module.js';
+
+@Module({
+  imports: [PatcherModule],
+  providers: [HistoryStoreService, HistoryService],
+  exports: [HistoryStoreService, HistoryService],
+})
+export class HistoryModule {}
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for HistoryService and HistoryStoreService
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, rm, appendFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HistoryService } from './history.service.js';
+import { HistoryStoreService } from './history-store.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { GitService } from '../patcher/git.service.js';
+import type { Detection, TraceSummary } from '../shared/types/index.js';
+
+function summary(
+  url: string,
+  avgFps: number,
+  layoutMs: number,
+  scenario = 'scroll',
+): TraceSummary {
+  return {
+    id: 'summary',
+    name: 'homepage',
+    url,
+    duration_ms: 1000,
+    frames: {
+      total: 60,
+      dropped: 60 - avgFps,
+      avg_fps: avgFps,
+      frame_budget_ms: 16.67,
+    },
+    phase_breakdown: {
+      style_recalc_ms: 1,
+      layout_ms: layoutMs,
+      paint_ms: 2,
+      composite_ms: 1,
+      gpu_ms: 0,
+    },
+    hotspots: {
+      layout_thrashing: [],
+      gpu_stalls: [],
+      long_tasks: [],
+      layout_shifts: [],
+    },
+    suggestions: [],
+    metadata: { scenario } as TraceSummary['metadata'],
+  };
+}
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let store: HistoryStoreService;
+  let baseDir: string;
+  const gitService = {
+    isGitRepo: jest.fn().mockResolvedValue(true),
+    getHeadCommit: jest.fn().mockResolvedValue('a1b2c3d4e5f6'),
+    getCurrentBranch: jest.fn().mockResolvedValue('main'),
+  };
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'render-debugger-history-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        HistoryStoreService,
+        { provide: StorageService, useValue: new StorageService({ baseDir }) },
+        { provide: GitService, useValue: gitService },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(HistoryService);
+    store = module.get(HistoryStoreService);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should store runs and query them by indexed fields', async () => {
+    const day = (d: number) => new Date(Date.UTC(2026, 0, d));
+    await service.recordRun('a', summary('https://app.test/', 60, 2), [], {
+      recordedAt: day(1),
+    });
+    await service.recordRun('b', summary('https://app.test/', 58, 2), [], {
+      recordedAt: day(2),
+      branch: 'feature',
+    });
+    await service.recordRun('c', summary('https://other.test/', 50, 9), [], {
+      recordedAt: day(3),
+    });
+    // An interrupted write leaves a truncated line behind
+    await appendFile(join(store.getHistoryDir(), 'runs.jsonl'), '{"id":"d"');
+    await service.recordRun(
+      'e',
+      summary('https://app.test/', 55, 3, 'load'),
+      [],
+      {
+        recordedAt: day(4),
+      },
+    );
+
+    expect((await service.getRuns()).map((r) => r.id)).toEqual([
+      'a',
+      'b',
+      'c',
+      'e',
+    ]);
+    expect(
+      (await service.getRuns({ url: 'https://app.test/' })).map((r) => r.id),
+    ).toEqual(['a', 'b', 'e']);
+    expect(
+      (await service.getRuns({ branch: 'main', limit: 2 })).map((r) => r.id),
+    ).toEqual(['c', 'e']);
+    expect((await service.getRuns({ scenario: 'load' }))[0]).toMatchObject({
+      id: 'e',
+      git_commit: 'a1b2c3d4e5f6',
+    });
+    expect(
+      (await service.getRuns({ commit: 'a1b2', since: day(3) })).map(
+        (r) => r.id,
+      ),
+    ).toEqual(['c', 'e']);
+    expect(await store.get('e')).toMatchObject({
+      summary: { url: 'https://app.test/' },
+    });
+  });
+
+  it('should compute trends against the median of earlier runs', async () => {
+    const detections = [{ type: 'long_task' }] as Detection[];
+    for (const [i, [fps, layout]] of [
+      [60, 2],
+      [59, 2],
+      [60, 2],
+      [45, 4],
+    ].entries()) {
+      await service.recordRun(
+        `run-${i}`,
+        summary('https://app.test/', fps!, layout!),
+        detections,
+        {
+          recordedAt: new Date(Date.UTC(2026, 0, i + 1)),
+        },
+      );
+    }
+
+    const trends = service.getTrends(await service.getRuns(), [
+      'avg_fps',
+      'layout_ms',
+      'detections',
+      'cls',
+    ]);
+
+    expect(trends.map((t) => t.key)).toEqual([
+      'avg_fps',
+      'layout_ms',
+      'detections',
+    ]);
+    expect(trends[0]).toMatchObject({
+      latest: 45,
+      baseline: 60,
+      change_pct: -25,
+      direction: 'regressing',
+      min: 45,
+      max: 60,
+    });
+    expect(trends[1]).toMatchObject({
+      change_pct: 100,
+      direction: 'regressing',
+    });
+    expect(trends[2]).toMatchObject({ latest: 1, direction: 'stable' });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * History Service
+ * Records analyzed runs with their git context and computes per-metric
+ * trends across them
+ *
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { HistoryStoreService } from './history-store.service.js';
+import { GitService } from '../patcher/git.service.js';
+import { mean, median } from '../shared/utils/index.js';
+import type {
+  Detection,
+  HistoryRecord,
+  MetricTrend,
+  TraceSummary,
+  TrendDirection,
+} from '../shared/types/index.js';
+import type {
+  HistoryMetricDefinition,
+  HistoryQuery,
+  RecordRunOptions,
+} from './interfaces/index.js';
+
+/**
+ * Changes from the baseline smaller than this are reported as stable
+ */
+const STABLE_THRESHOLD_PCT = 5;
+
+/**
+ * Metrics tracked by the history command and trend report
+ */
+export const HISTORY_METRICS: HistoryMetricDefinition[] = [
+  {
+    key: 'avg_fps',
+    label: 'Avg FPS',
+    unit: 'fps',
+    higherIsBetter: true,
+    extract: (s) => s.frames.avg_fps,
+  },
+  {
+    key: 'dropped_frames',
+    label: 'Dropped Frames',
+    unit: 'frames',
+    higherIsBetter: false,
+    extract: (s) => s.frames.dropped,
+  },
+  {
+    key: 'dropped_pct',
+    label: 'Dropped Frames %',
+    unit: '%',
+    higherIsBetter: false,
+    extract: (s) =>
+      s.frames.total > 0
+        ? Math.round((s.frames.dropped / s.frames.total) * 10000) / 100
+        : undefined,
+  },
+  {
+    key: 'style_recalc_ms',
+    label: 'Style Recalc',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) => s.phase_breakdown.style_recalc_ms,
+  },
+  {
+    key: 'layout_ms',
+    label: 'Layout',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) => s.phase_breakdown.layout_ms,
+  },
+  {
+    key: 'paint_ms',
+    label: 'Paint',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) => s.phase_breakdown.paint_ms,
+  },
+  {
+    key: 'composite_ms',
+    label: 'Composite',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) => s.phase_breakdown.composite_ms,
+  },
+  {
+    key: 'gpu_ms',
+    label: 'GPU',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) => s.phase_breakdown.gpu_ms,
+  },
+  {
+    key: 'long_task_ms',
+    label: 'Long Task CPU',
+    unit: 'ms',
+    higherIsBetter: false,
+    extract: (s) =>
+      s.hotspots.long_tasks.reduce((total, t) => total + t.cpu_ms, 0),
+  },
+  {
+    key: 'cls',
+    label: 'CLS',
+    unit: '',
+    higherIsBetter: false,
+    extract: (s) => s.cls,
+  },
+  {
+    key: 'detections',
+    label: 'Detections',
+    unit: 'issues',
+    higherIsBetter: false,
+    extract: (_s, detections) => detections.length,
+  },
+];
+
+@Injectable()
+export class HistoryService {
+  private readonly logger = new Logger(HistoryService.name);
+
+  constructor(
+    private readonly historyStore: HistoryStoreService,
+    private readonly gitService: GitService,
+  ) {}
+
+  /**
+   * Record an analyzed run, tagged with the current commit and branch
+   */
+  async recordRun(
+    runId: string,
+    summary: TraceSummary,
+    detections: Detection[],
+    options: RecordRunOptions = {},
+  ): Promise<HistoryRecord> {
+    const git = await this.getGitContext();
+
+    const record: HistoryRecord = {
+      id: runId,
+      recorded_at: (options.recordedAt ?? new Date()).toISOString(),
+      name: summary.name,
+      url: summary.url,
+      scenario: summary.metadata?.scenario ?? 'unknown',
+      git_commit: options.gitCommit ?? git.commit,
+      branch: options.branch ?? git.branch,
+      summary,
+      // Flame graphs are only useful for the run's own report
+      detections: detections.map((d) =>
+        'flameGraph' in d ? { ...d, flameGraph: undefined } : d,
+      ),
+    };
+
+    await this.historyStore.append(record);
+    return record;
+  }
+
+  /**
+   * Find recorded runs, oldest first
+   */
+  getRuns(query: HistoryQuery = {}): Promise<HistoryRecord[]> {
+    return this.historyStore.query(query);
+  }
+
+  /**
+   * Compute trends of the given metrics across runs. Metrics that none of
+   * the runs recorded are omitted.
+   * @param metricKeys Keys from HISTORY_METRICS, all metrics by default
+   */
+  getTrends(records: HistoryRecord[], metricKeys?: string[]): MetricTrend[] {
+    const metrics = metricKeys
+      ? HISTORY_METRICS.filter((m) => metricKeys.includes(m.key))
+      : HISTORY_METRICS;
+
+    const trends: MetricTrend[] = [];
+    for (const metric of metrics) {
+      const points = records.flatMap((record) => {
+        const value = metric.extract(record.summary, record.detections);
+        return value === undefined
+          ? []
+          : [
+              {
+                run_id: record.id,
+                recorded_at: record.recorded_at,
+                git_commit: record.git_commit,
+                value,
+              },
+            ];
+      });
+      if (points.length === 0) continue;
+
+      const values = points.map((p) => p.value);
+      const latest = values[values.length - 1]!;
+      const previous = values.slice(0, -1);
+      const baseline = previous.length > 0 ? median(previous) : undefined;
+      const changePct =
+        baseline !== undefined && baseline !== 0
+          ? Math.round(((latest - baseline) / Math.abs(baseline)) * 1000) / 10
+          : undefined;
+
+      trends.push({
+        key: metric.key,
+        label: metric.label,
+        unit: metric.unit,
+        higher_is_better: metric.higherIsBetter,
+        points,
+        latest,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        mean: Math.round(mean(values) * 100) / 100,
+        baseline,
+        change_pct: changePct,
+        direction: this.getDirection(changePct, metric.higherIsBetter),
+      });
+    }
+
+    return trends;
+  }
+
+  private getDirection(
+    changePct: number | undefined,
+    higherIsBetter: boolean,
+  ): TrendDirection {
+    if (changePct === undefined || Math.abs(changePct) < STABLE_THRESHOLD_PCT) {
+      return 'stable';
+    }
+    return changePct > 0 === higherIsBetter ? 'improving' : 'regressing';
+  }
+
+  /**
+   * Current commit and branch, or nothing outside a git repository
+   */
+  private async getGitContext(): Promise<{ commit?: string; branch?: string }> {
+    if (!(await this.gitService.isGitRepo())) {
+      return {};
+    }
+    try {
+      return {
+        commit: await this.gitService.getHeadCommit(),
+        branch: await this.gitService.getCurrentBranch(),
+      };
+    } catch (error) {
+      // A repository without commits has no HEAD
+      this.logger.debug(
+        `No git context: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {};
+    }
+  }
+}
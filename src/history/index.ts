@@ -0,0 +1,4 @@
+export * from './history-store.service.js';
+export * from './history.service.js';
+export * from './history.module.js';
+export * from './interfaces/index.js';
@@ -0,0 +1,74 @@
+/**
+ * History module interfaces
+ *
+ */
+
+import type {
+  Detection,
+  HistoryRecord,
+  TraceSummary,
+} from '../../shared/types/index.js';
+
+/**
+ * Filters for history queries. All given filters must match.
+ */
+export interface HistoryQuery {
+  url?: string;
+  scenario?: string;
+  name?: string;
+  branch?: string;
+  /** Commit hash or prefix */
+  commit?: string;
+  /** Only runs recorded at or after this time */
+  since?: Date;
+  /** Only runs recorded before this time */
+  until?: Date;
+  /** Return only the most recent N matching runs */
+  limit?: number;
+}
+
+/**
+ * Index entry pointing at a record in the runs file
+ */
+export interface HistoryIndexEntry {
+  id: string;
+  recorded_at: string;
+  name: string;
+  url: string;
+  scenario: string;
+  git_commit?: string;
+  branch?: string;
+  /** Byte offset of the record line in the runs file */
+  offset: number;
+  /** Byte length of the record line, excluding the newline */
+  length: number;
+}
+
+/**
+ * A metric tracked across runs
+ */
+export interface HistoryMetricDefinition {
+  key: string;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  /** Undefined when the run did not record the metric */
+  extract: (
+    summary: TraceSummary,
+    detections: Detection[],
+  ) => number | undefined;
+}
+
+export interface RecordRunOptions {
+  /** Defaults to the current time */
+  recordedAt?: Date;
+  /** Defaults to the HEAD commit of the working directory */
+  gitCommit?: string;
+  /** Defaults to the current branch of the working directory */
+  branch?: string;
+}
+
+export interface IHistoryStore {
+  append(record: HistoryRecord): Promise<void>;
+  query(query?: HistoryQuery): Promise<HistoryRecord[]>;
+}
@@ -0,0 +1,5 @@
+/**
+ * History interfaces exports
+ */
+
+export * from './history.interface.js';
@@ -10,10 +10,14 @@
  *   render-debugger profile --url <url> --scenario <scenario>
  *   render-debugger analyze <trace.json> --name <name>
  *   render-debugger compare <base.json> <head.json>
+ *   render-debugger history [--url <url>] [--out <trends.html>]
+ *   render-debugger bisect --good <ref> --bad <ref> --build <cmd> --url <url> --scenario <scenario> --metric <metric> --threshold <n>
  *   render-debugger fix <trace.json> [--dry-run | --auto-apply]
  *   render-debugger monitor --url <url> --scenario <scenario>
+ *   render-debugger export <trace.json> [--format chrome|perfetto]
  *   render-debugger rules list
  *   render-debugger rules validate
+ *   render-debugger serve [--port <port>]
  *
  * Exit Codes:
  *   0: Success
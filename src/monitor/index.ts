@@ -1,4 +1,6 @@
 export * from './interfaces/index.js';
 export * from './rolling-window.service.js';
+export * from './interval-metrics.service.js';
+export * from './metrics-exporter.service.js';
 export * from './monitor.service.js';
 export * from './monitor.module.js';
@@ -19,6 +19,37 @@ export interface FrameSample {
   dropped: boolean;
 }
 
+/**
+ * Main thread work measured in one polling interval
+ */
+export interface IntervalSample {
+  timestamp: number;
+  reflowCostMs: number;
+  gpuStallMs: number;
+  longTaskMs: number;
+}
+
+/**
+ * Labels attached to every exported monitor series
+ */
+export interface MetricsLabels {
+  url: string;
+  scenario: string;
+  adapter: string;
+}
+
+/**
+ * Where to push monitor metrics with OTLP/HTTP
+ */
+export interface OtlpPushOptions {
+  /** Collector base URL; metrics are posted to <endpoint>/v1/metrics */
+  endpoint: string;
+  intervalMs: number;
+  headers?: Record<string, string>;
+  /** Called when a push fails; pushing continues on the next interval */
+  onError?: (error: Error) => void;
+}
+
 /**
  * Rolling window service interface
  */
@@ -28,6 +59,11 @@ export interface IRollingWindowService {
    */
   addSample(sample: FrameSample): void;
 
+  /**
+   * Add the main thread work of a polling interval to the rolling windows
+   */
+  addIntervalSample(sample: IntervalSample): void;
+
   /**
    * Get current metrics for all windows
    */
@@ -92,6 +128,12 @@ export interface IMonitorService {
    * Remove a violation handler
    */
   offViolation(handler: ViolationHandler): void;
+
+  /**
+   * Branches the rules compare against that have no recorded runs for the
+   * monitored URL and scenario. Rules relative to them are not evaluated.
+   */
+  getMissingBaselines(): string[];
 }
 
 // Re-export types for convenience
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for IntervalMetricsService and the rolling windows it feeds
+ */
+
+import { IntervalMetricsService } from './interval-metrics.service.js';
+import { RollingWindowService } from './rolling-window.service.js';
+import type { TraceEvent } from '../shared/types/index.js';
+
+function event(
+  name: string,
+  ts: number,
+  dur: number,
+  overrides: Partial<TraceEvent> = {},
+): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    dur,
+    ph: 'X',
+    cat: 'devtools.timeline',
+    name,
+    ...overrides,
+  };
+}
+
+describe('IntervalMetricsService', () => {
+  const service = new IntervalMetricsService();
+
+  it('should measure forced reflows, GPU stalls and long tasks in an interval', () => {
+    const events: TraceEvent[] = [
+      {
+        pid: 1,
+        tid: 1,
+        ts: 0,
+        ph: 'M',
+        cat: '__metadata',
+        name: 'thread_name',
+        args: { name: 'CrRendererMain' },
+      },
+      event('BeginFrame', 0, 0),
+      // Three layouts in quick succession, then one on its own
+      event('Layout', 1000, 2000),
+      event('Layout', 3500, 2000),
+      event('UpdateLayoutTree', 6000, 1000),
+      event('Layout', 14000, 5000),
+      event('BeginFrame', 20000, 0),
+      // A single layout in the next frame is not a forced reflow
+      event('Layout', 21000, 2000),
+      // A long task with a nested long call, counted once
+      event('TimerFire', 30000, 80000),
+      event('FunctionCall', 31000, 60000),
+      event('FunctionCall', 200000, 10000),
+      // GPU sync always blocks; raster only while the main thread waits
+      event('Gpu::SwapBuffers', 300000, 3000, { tid: 2, cat: 'gpu' }),
+      event('RasterTask', 310000, 4000, { tid: 3, cat: 'cc' }),
+      event('RasterTask', 320000, 6000, { tid: 3, cat: 'cc' }),
+      event('WaitForRaster', 321000, 2000),
+    ];
+
+    expect(service.measure(events, 16.67, 42)).toEqual({
+      timestamp: 42,
+      reflowCostMs: 5,
+      gpuStallMs: 9,
+      longTaskMs: 80,
+    });
+  });
+
+  it('should add interval work up over each rolling window', () => {
+    const rollingWindow = new RollingWindowService();
+    const now = Date.now();
+
+    rollingWindow.addIntervalSample({
+      timestamp: now - 2 * 60 * 1000,
+      reflowCostMs: 100,
+      gpuStallMs: 0,
+      longTaskMs: 200,
+    });
+    rollingWindow.addIntervalSample({
+      timestamp: now,
+      reflowCostMs: 10,
+      gpuStallMs: 5,
+      longTaskMs: 60,
+    });
+
+    const metrics = rollingWindow.getMetrics();
+    expect(metrics.windows['1m']).toMatchObject({
+      samples: 0,
+      reflowCostMs: 10,
+      gpuStallMs: 5,
+      longTaskMs: 60,
+    });
+    expect(metrics.windows['5m']).toMatchObject({
+      reflowCostMs: 110,
+      gpuStallMs: 5,
+      longTaskMs: 260,
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Interval Metrics Service - Lightweight versions of the layout thrash,
+ * GPU stall and long task detectors, run over the trace events collected
+ * in one monitor polling interval
+ */
+
+import { Injectable } from '@nestjs/common';
+import type { TraceEvent } from '../shared/types/index.js';
+import type { IntervalSample } from './interfaces/monitor.interface.js';
+
+/** Long task threshold, as used by the long task detector */
+const LONG_TASK_THRESHOLD_US = 50 * 1000;
+
+/** GPU work shorter than this is not a stall */
+const MIN_GPU_STALL_US = 1000;
+
+/** Events that start a frame, used to group layouts */
+const FRAME_START_EVENTS = new Set(['BeginFrame', 'BeginMainThreadFrame']);
+
+/** Style and layout work that a forced reflow shows up as */
+const LAYOUT_EVENTS = new Set([
+  'Layout',
+  'UpdateLayoutTree',
+  'RecalculateStyles',
+]);
+
+/** Top-level JavaScript execution events */
+const JS_EXECUTION_EVENTS = new Set([
+  'FunctionCall',
+  'EvaluateScript',
+  'v8.compile',
+  'v8.run',
+  'V8.Execute',
+  'RunMicrotasks',
+  'TimerFire',
+  'EventDispatch',
+  'XHRReadyStateChange',
+  'RequestAnimationFrame',
+  'FireAnimationFrame',
+  'ParseHTML',
+  'ParseAuthorStyleSheet',
+]);
+
+/** GPU work that blocks until the GPU has finished */
+const GPU_SYNC_EVENTS = new Set([
+  'GPUTask',
+  'Gpu::SwapBuffers',
+  'CommandBufferHelper::Finish',
+  'GLES2DecoderImpl::DoFinish',
+  'WaitForSwap',
+]);
+
+/** Texture uploads and raster work, which block only when waited on */
+const GPU_WORK_EVENTS = new Set([
+  'UploadTexture',
+  'TextureManager::Upload',
+  'AsyncTexImage2D',
+  'TexImage2D',
+  'TexSubImage2D',
+  'CompressedTexImage2D',
+  'RasterTask',
+  'RasterSource::PlaybackToCanvas',
+  'TileManager::ScheduleTasks',
+  'RasterBufferProvider::PlaybackToMemory',
+  'GpuRasterization',
+  'SoftwareRasterization',
+]);
+
+/** Thread names of the renderer main thread */
+const MAIN_THREAD_NAMES = new Set(['CrRendererMain', 'CrBrowserMain', 'main']);
+
+@Injectable()
+export class IntervalMetricsService {
+  /**
+   * Measure the forced reflow, GPU stall and long task time in the events
+   * of one interval
+   */
+  measure(
+    events: TraceEvent[],
+    frameBudgetMs: number,
+    timestamp = Date.now(),
+  ): IntervalSample {
+    const sorted = [...events].sort((a, b) => a.ts - b.ts);
+
+    return {
+      timestamp,
+      reflowCostMs: this.round(this.measureReflowCost(sorted, frameBudgetMs)),
+      gpuStallMs: this.round(this.measureGpuStalls(sorted)),
+      longTaskMs: this.round(this.measureLongTasks(sorted)),
+    };
+  }
+
+  /**
+   * Time spent in layouts that follow another layout in the same frame
+   * within a quarter of the frame budget, like the layout thrash detector
+   */
+  private measureReflowCost(
+    events: TraceEvent[],
+    frameBudgetMs: number,
+  ): number {
+    const thresholdUs = (frameBudgetMs * 1000) / 4;
+    let totalUs = 0;
+    let previous: TraceEvent | undefined;
+    let previousCounted = false;
+
+    for (const event of events) {
+      if (FRAME_START_EVENTS.has(event.name)) {
+        previous = undefined;
+        continue;
+      }
+      if (!LAYOUT_EVENTS.has(event.name)) continue;
+
+      const dur = event.dur ?? 0;
+      if (
+        previous &&
+        event.ts - (previous.ts + (previous.dur ?? 0)) < thresholdUs
+      ) {
+        if (!previousCounted) totalUs += previous.dur ?? 0;
+        totalUs += dur;
+        previousCounted = true;
+      } else {
+        previousCounted = false;
+      }
+      previous = event;
+    }
+
+    return totalUs / 1000;
+  }
+
+  /**
+   * Time the main thread spent waiting on the GPU. Sync events always block;
+   * other GPU work only counts while the main thread is waiting.
+   */
+  private measureGpuStalls(events: TraceEvent[]): number {
+    const mainThreadId = this.findMainThreadId(events);
+    const mainThreadWaits =
+      mainThreadId === undefined
+        ? []
+        : events.filter(
+            (e) =>
+              e.tid === mainThreadId &&
+              (e.name.includes('Wait') || e.name.includes('Sync')),
+          );
+
+    let totalUs = 0;
+    for (const event of events) {
+      const dur = event.dur ?? 0;
+      if (dur < MIN_GPU_STALL_US || !this.isGpuEvent(event)) continue;
+
+      const blocking =
+        GPU_SYNC_EVENTS.has(event.name) ||
+        mainThreadId === undefined ||
+        mainThreadWaits.some((w) => w.ts >= event.ts && w.ts < event.ts + dur);
+      if (blocking) totalUs += dur;
+    }
+
+    return totalUs / 1000;
+  }
+
+  /**
+   * Total duration of JavaScript tasks over 50ms. Tasks nested in another
+   * long task on the same thread are counted once.
+   */
+  private measureLongTasks(events: TraceEvent[]): number {
+    const openUntil = new Map<number, number>();
+    let totalUs = 0;
+
+    for (const event of events) {
+      const dur = event.dur ?? 0;
+      if (
+        dur < LONG_TASK_THRESHOLD_US ||
+        !JS_EXECUTION_EVENTS.has(event.name)
+      ) {
+        continue;
+      }
+      if (event.ts < (openUntil.get(event.tid) ?? -Infinity)) continue;
+
+      totalUs += dur;
+      openUntil.set(event.tid, event.ts + dur);
+    }
+
+    return totalUs / 1000;
+  }
+
+  /**
+   * Whether an event is GPU sync, texture upload or raster work
+   */
+  private isGpuEvent(event: TraceEvent): boolean {
+    return (
+      GPU_SYNC_EVENTS.has(event.name) ||
+      GPU_WORK_EVENTS.has(event.name) ||
+      (event.cat?.includes('gpu') ?? false)
+    );
+  }
+
+  /**
+   * The renderer main thread, from thread_name metadata
+   */
+  private findMainThreadId(events: TraceEvent[]): number | undefined {
+    const event = events.find(
+      (e) =>
+        e.ph === 'M' &&
+        e.name === 'thread_name' &&
+        MAIN_THREAD_NAMES.has(
+          (e.args as { name?: string } | undefined)?.name ?? '',
+        ),
+    );
+    return event?.tid;
+  }
+
+  private round(ms: number): number {
+    return Math.round(ms * 100) / 100;
+  }
+}
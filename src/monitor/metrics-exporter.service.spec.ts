@@ -0,0 +1,143 @@
+/**
+ * Unit tests for MetricsExporterService, scraping its endpoint and pushing
+ * to a local OTLP collector stand-in
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { MetricsExporterService } from './metrics-exporter.service.js';
+import { RollingWindowService } from './rolling-window.service.js';
+import type { MetricsLabels, Violation } from './interfaces/index.js';
+
+const labels: MetricsLabels = {
+  url: 'https://app.test/?q="x"',
+  scenario: 'scroll-heavy',
+  adapter: 'chromium-cdp',
+};
+
+function violation(ruleId: string, severity: Violation['severity']) {
+  return {
+    ruleId,
+    ruleName: ruleId,
+    severity,
+    actualValue: 1,
+    threshold: 1,
+    timestamp: new Date(),
+  };
+}
+
+describe('MetricsExporterService', () => {
+  let rollingWindow: RollingWindowService;
+  let exporter: MetricsExporterService;
+
+  beforeEach(() => {
+    rollingWindow = new RollingWindowService();
+    exporter = new MetricsExporterService(rollingWindow);
+
+    const now = Date.now();
+    for (let i = 0; i < 4; i++) {
+      rollingWindow.addSample({
+        timestamp: now,
+        frameTime: i === 3 ? 40 : 20,
+        dropped: i === 3,
+      });
+    }
+    rollingWindow.addIntervalSample({
+      timestamp: now,
+      reflowCostMs: 120,
+      gpuStallMs: 0,
+      longTaskMs: 250,
+    });
+    rollingWindow.addViolation(violation('long_task', 'high'));
+    rollingWindow.addViolation(violation('long_task', 'high'));
+    rollingWindow.addViolation(violation('reflow_cost', 'warning'));
+  });
+
+  afterEach(async () => {
+    await exporter.stop();
+  });
+
+  it('should serve rolling windows and violation counts to Prometheus', async () => {
+    const url = await exporter.startServer(0, '127.0.0.1', labels);
+
+    const response = await fetch(url);
+    expect(response.headers.get('content-type')).toContain('version=0.0.4');
+    const body = await response.text();
+
+    const base =
+      'url="https://app.test/?q=\\"x\\"",scenario="scroll-heavy",adapter="chromium-cdp"';
+    expect(body).toContain('# TYPE render_debugger_monitor_fps gauge');
+    expect(body).toContain(
+      `render_debugger_monitor_fps{${base},window="1m"} 40`,
+    );
+    expect(body).toContain(
+      `render_debugger_monitor_dropped_frames_percent{${base},window="5m"} 25`,
+    );
+    expect(body).toContain(
+      `render_debugger_monitor_long_task_seconds{${base},window="15m"} 0.25`,
+    );
+    expect(body).toContain(
+      `render_debugger_monitor_violations_total{${base},rule="long_task",severity="high"} 2`,
+    );
+    expect(body).toContain(
+      `render_debugger_monitor_violations_total{${base},rule="reflow_cost",severity="warning"} 1`,
+    );
+
+    expect((await fetch(url.replace('/metrics', '/'))).status).toBe(404);
+  });
+
+  it('should push the same series to an OTLP collector', async () => {
+    const requests: Array<{ url?: string; body: string }> = [];
+    const collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        requests.push({ url: req.url, body });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) =>
+      collector.listen(0, '127.0.0.1', () => resolve()),
+    );
+    const { port } = collector.address() as AddressInfo;
+
+    try {
+      exporter.startOtlpPush(
+        { endpoint: `http://127.0.0.1:${port}/`, intervalMs: 10 },
+        labels,
+      );
+      while (requests.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await exporter.stop();
+
+      expect(requests[0]!.url).toBe('/v1/metrics');
+      const payload = JSON.parse(requests[0]!.body) as {
+        resourceMetrics: Array<{
+          scopeMetrics: Array<{
+            metrics: Array<{
+              name: string;
+              gauge?: { dataPoints: Array<{ asDouble: number }> };
+              sum?: { dataPoints: Array<{ asInt: string }> };
+            }>;
+          }>;
+        }>;
+      };
+      const metrics = payload.resourceMetrics[0]!.scopeMetrics[0]!.metrics;
+      const fps = metrics.find((m) => m.name === 'render_debugger_monitor_fps');
+      expect(fps!.gauge!.dataPoints.map((d) => d.asDouble)).toEqual([
+        40, 40, 40,
+      ]);
+      const violations = metrics.find(
+        (m) => m.name === 'render_debugger_monitor_violations_total',
+      );
+      expect(violations!.sum!.dataPoints.map((d) => d.asInt)).toEqual([
+        '2',
+        '1',
+      ]);
+    } finally {
+      collector.closeAllConnections();
+      collector.close();
+    }
+  });
+});
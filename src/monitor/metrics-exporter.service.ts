@@ -0,0 +1,348 @@
+/**
+ * Metrics Exporter Service - Exposes the monitor's rolling windows and
+ * violation counts in Prometheus text format, and pushes them to an OTLP
+ * collector
+ */
+
+import { Injectable } from '@nestjs/common';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { RollingWindowService } from './rolling-window.service.js';
+import type {
+  MetricsLabels,
+  OtlpPushOptions,
+  RollingMetrics,
+  WindowMetrics,
+} from './interfaces/monitor.interface.js';
+
+/** Prefix of every exported series */
+const METRIC_PREFIX = 'render_debugger_monitor';
+
+/** Rolling windows, in the order they are exported */
+const WINDOWS = ['1m', '5m', '15m'] as const;
+
+/** Give up on an OTLP push after this long */
+const OTLP_TIMEOUT_MS = 10000;
+
+/**
+ * A gauge exported once per rolling window
+ */
+interface WindowGauge {
+  name: string;
+  help: string;
+  /** UCUM unit, for OTLP */
+  unit: string;
+  value: (window: WindowMetrics) => number;
+}
+
+const WINDOW_GAUGES: WindowGauge[] = [
+  {
+    name: 'fps',
+    help: 'Average frames per second over the window',
+    unit: '{frame}/s',
+    value: (w) => w.avgFps,
+  },
+  {
+    name: 'dropped_frames_percent',
+    help: 'Percentage of frames over budget in the window',
+    unit: '%',
+    value: (w) => w.droppedFramesPct,
+  },
+  {
+    name: 'p95_frame_time_seconds',
+    help: '95th percentile frame time over the window',
+    unit: 's',
+    value: (w) => w.p95FrameTime / 1000,
+  },
+  {
+    name: 'frame_samples',
+    help: 'Frame samples in the window',
+    unit: '{sample}',
+    value: (w) => w.samples,
+  },
+  {
+    name: 'reflow_cost_seconds',
+    help: 'Time spent in forced reflows in the window',
+    unit: 's',
+    value: (w) => w.reflowCostMs / 1000,
+  },
+  {
+    name: 'gpu_stall_seconds',
+    help: 'Main thread time blocked on the GPU in the window',
+    unit: 's',
+    value: (w) => w.gpuStallMs / 1000,
+  },
+  {
+    name: 'long_task_seconds',
+    help: 'Time spent in long JavaScript tasks in the window',
+    unit: 's',
+    value: (w) => w.longTaskMs / 1000,
+  },
+];
+
+const VIOLATIONS_METRIC = 'violations_total';
+const VIOLATIONS_HELP = 'Rule violations since the monitor started';
+
+type OtlpAttribute = { key: string; value: { stringValue: string } };
+
+@Injectable()
+export class MetricsExporterService {
+  private server: http.Server | null = null;
+  private pushTimer: NodeJS.Timeout | null = null;
+  /** Start of the violation counters, for OTLP cumulative sums */
+  private readonly startTimeMs = Date.now();
+
+  constructor(private readonly rollingWindow: RollingWindowService) {}
+
+  /**
+   * Serve GET /metrics in Prometheus text format
+   * @returns The URL of the endpoint
+   */
+  async startServer(
+    port: number,
+    host: string,
+    labels: MetricsLabels,
+  ): Promise<string> {
+    await this.stopServer();
+
+    const server = http.createServer((req, res) => {
+      const path = (req.url ?? '').split('?')[0];
+      if (req.method !== 'GET' || path !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      });
+      res.end(this.renderPrometheus(this.rollingWindow.getMetrics(), labels));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address() as AddressInfo;
+    const urlHost = address.family === 'IPv6' ? `[${host}]` : host;
+    return `http://${urlHost}:${address.port}/metrics`;
+  }
+
+  /**
+   * Push the metrics to an OTLP collector on an interval
+   */
+  startOtlpPush(options: OtlpPushOptions, labels: MetricsLabels): void {
+    this.stopOtlpPush();
+    const url = `${options.endpoint.replace(/\/+$/, '')}/v1/metrics`;
+
+    this.pushTimer = setInterval(() => {
+      this.pushOtlp(url, labels, options.headers).catch((error: unknown) => {
+        options.onError?.(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      });
+    }, options.intervalMs);
+  }
+
+  /**
+   * Stop serving and pushing metrics
+   */
+  async stop(): Promise<void> {
+    this.stopOtlpPush();
+    await this.stopServer();
+  }
+
+  /**
+   * Render rolling metrics in the Prometheus text exposition format
+   */
+  renderPrometheus(metrics: RollingMetrics, labels: MetricsLabels): string {
+    const lines: string[] = [];
+    const baseLabels = this.formatLabels(labels);
+
+    for (const gauge of WINDOW_GAUGES) {
+      const name = `${METRIC_PREFIX}_${gauge.name}`;
+      lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`);
+      for (const window of WINDOWS) {
+        lines.push(
+          `${name}{${baseLabels},window="${window}"} ${this.formatValue(gauge.value(metrics.windows[window]))}`,
+        );
+      }
+    }
+
+    const violations = `${METRIC_PREFIX}_${VIOLATIONS_METRIC}`;
+    lines.push(
+      `# HELP ${violations} ${VIOLATIONS_HELP}`,
+      `# TYPE ${violations} counter`,
+    );
+    for (const [key, count] of this.countViolations(metrics)) {
+      const [rule, severity] = key.split('\0') as [string, string];
+      lines.push(
+        `${violations}{${baseLabels},rule="${this.escapeLabel(rule)}",severity="${severity}"} ${count}`,
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Build an OTLP/HTTP JSON export request for the rolling metrics
+   */
+  buildOtlpRequest(
+    metrics: RollingMetrics,
+    labels: MetricsLabels,
+    nowMs = Date.now(),
+  ): unknown {
+    const timeUnixNano = `${BigInt(nowMs) * 1000000n}`;
+    const startTimeUnixNano = `${BigInt(this.startTimeMs) * 1000000n}`;
+    const baseAttributes = this.toAttributes(labels);
+
+    const gauges = WINDOW_GAUGES.map((gauge) => ({
+      name: `${METRIC_PREFIX}_${gauge.name}`,
+      description: gauge.help,
+      unit: gauge.unit,
+      gauge: {
+        dataPoints: WINDOWS.map((window) => ({
+          attributes: [...baseAttributes, this.attribute('window', window)],
+          timeUnixNano,
+          asDouble: gauge.value(metrics.windows[window]),
+        })),
+      },
+    }));
+
+    const violations = {
+      name: `${METRIC_PREFIX}_${VIOLATIONS_METRIC}`,
+      description: VIOLATIONS_HELP,
+      unit: '{violation}',
+      sum: {
+        // Cumulative
+        aggregationTemporality: 2,
+        isMonotonic: true,
+        dataPoints: [...this.countViolations(metrics)].map(([key, count]) => {
+          const [rule, severity] = key.split('\0') as [string, string];
+          return {
+            attributes: [
+              ...baseAttributes,
+              this.attribute('rule', rule),
+              this.attribute('severity', severity),
+            ],
+            startTimeUnixNano,
+            timeUnixNano,
+            asInt: String(count),
+          };
+        }),
+      },
+    };
+
+    return {
+      resourceMetrics: [
+        {
+          resource: {
+            attributes: [this.attribute('service.name', 'render-debugger')],
+          },
+          scopeMetrics: [
+            {
+              scope: { name: 'render-debugger.monitor' },
+              metrics: [...gauges, violations],
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Send the current metrics to the collector
+   */
+  private async pushOtlp(
+    url: string,
+    labels: MetricsLabels,
+    headers: Record<string, string> = {},
+  ): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(
+        this.buildOtlpRequest(this.rollingWindow.getMetrics(), labels),
+      ),
+      signal: AbortSignal.timeout(OTLP_TIMEOUT_MS),
+    });
+    await response.text().catch(() => '');
+    if (!response.ok) {
+      throw new Error(`OTLP collector responded with HTTP ${response.status}`);
+    }
+  }
+
+  private stopOtlpPush(): void {
+    if (this.pushTimer) {
+      clearInterval(this.pushTimer);
+      this.pushTimer = null;
+    }
+  }
+
+  private async stopServer(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      const closed = new Promise<void>((resolve) =>
+        server.close(() => resolve()),
+      );
+      // Scrapers keep connections alive, which would hold close() open
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
+  /**
+   * Violation counts keyed by rule and severity, in a stable order
+   */
+  private countViolations(metrics: RollingMetrics): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const violation of metrics.violations) {
+      const key = `${violation.ruleId}\0${violation.severity}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return new Map([...counts].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  private formatLabels(labels: MetricsLabels): string {
+    return this.labelPairs(labels)
+      .map(([key, value]) => `${key}="${this.escapeLabel(value)}"`)
+      .join(',');
+  }
+
+  /**
+   * Escape a Prometheus label value
+   */
+  private escapeLabel(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+  }
+
+  private formatValue(value: number): string {
+    return Number.isFinite(value) ? String(value) : 'NaN';
+  }
+
+  private toAttributes(labels: MetricsLabels): OtlpAttribute[] {
+    return this.labelPairs(labels).map(([key, value]) =>
+      this.attribute(key, value),
+    );
+  }
+
+  private labelPairs(labels: MetricsLabels): Array<[string, string]> {
+    return [
+      ['url', labels.url],
+      ['scenario', labels.scenario],
+      ['adapter', labels.adapter],
+    ];
+  }
+
+  private attribute(key: string, value: string): OtlpAttribute {
+    return { key, value: { stringValue: value } };
+  }
+}
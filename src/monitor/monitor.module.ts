@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { RollingWindowService } from './rolling-window.service.js';
 import { MonitorService } from './monitor.service.js';
+import { IntervalMetricsService } from './interval-metrics.service.js';
+import { MetricsExporterService } from './metrics-exporter.service.js';
 import { CdpModule } from '../cdp/cdp.module.js';
 import { RecorderModule } from '../recorder/recorder.module.js';
 import { RulesModule } from '../rules/rules.module.js';
@@ -8,7 +10,17 @@ import { ServicesModule } from '../services/services.module.js';
 
 @Module({
   imports: [CdpModule, RecorderModule, RulesModule, ServicesModule],
-  providers: [RollingWindowService, MonitorService],
-  exports: [RollingWindowService, MonitorService],
+  providers: [
+    RollingWindowService,
+    IntervalMetricsService,
+    MetricsExporterService,
+    MonitorService,
+  ],
+  exports: [
+    RollingWindowService,
+    IntervalMetricsService,
+    MetricsExporterService,
+    MonitorService,
+  ],
 })
 export class MonitorModule {}
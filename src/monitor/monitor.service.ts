@@ -5,10 +5,13 @@
 import { Injectable } from '@nestjs/common';
 import { CDPConnectionService } from '../cdp/cdp-connection.service.js';
 import { TracingService } from '../cdp/tracing.service.js';
+import { EmulationService } from '../cdp/emulation.service.js';
 import { ScenarioRunnerService } from '../recorder/scenario-runner.service.js';
 import { ConfigService } from '../services/config.service.js';
 import { RulesService } from '../rules/rules.service.js';
+import { RuleBaselineService } from '../rules/rule-baseline.service.js';
 import { RollingWindowService } from './rolling-window.service.js';
+import { IntervalMetricsService } from './interval-metrics.service.js';
 import type {
   IMonitorService,
   MonitorOptions,
@@ -17,9 +20,11 @@ import type {
   ViolationHandler,
   FrameSample,
 } from './interfaces/monitor.interface.js';
+import type { TraceEvent } from '../shared/types/index.js';
 import type {
   RuleSet,
-  RuleEvaluation,
+  MetricsData,
+  RuleContext,
 } from '../rules/interfaces/rules.interface.js';
 
 /** Default frame budget for 60fps */
@@ -28,21 +33,35 @@ const DEFAULT_FRAME_BUDGET_MS = 16.67;
 /** Polling interval for trace collection (ms) */
 const POLL_INTERVAL_MS = 1000;
 
+/** Trace categories with the events the interval detectors look at */
+const MONITOR_TRACE_CATEGORIES = [
+  'devtools.timeline',
+  'blink.user_timing',
+  'gpu',
+];
+
 @Injectable()
 export class MonitorService implements IMonitorService {
   private monitoring = false;
+  /** Set while a poll is collecting, so that slow polls do not overlap */
+  private collecting = false;
   private pollTimer: NodeJS.Timeout | null = null;
   private violationHandlers: ViolationHandler[] = [];
   private rules: RuleSet | null = null;
+  private ruleContext: RuleContext = {};
+  private missingBaselines: string[] = [];
   private frameBudgetMs = DEFAULT_FRAME_BUDGET_MS;
 
   constructor(
     private readonly cdpConnection: CDPConnectionService,
     private readonly tracingService: TracingService,
+    private readonly emulationService: EmulationService,
     private readonly scenarioRunner: ScenarioRunnerService,
     private readonly configService: ConfigService,
     private readonly rulesService: RulesService,
+    private readonly ruleBaselines: RuleBaselineService,
     private readonly rollingWindow: RollingWindowService,
+    private readonly intervalMetrics: IntervalMetricsService,
   ) {}
 
   /**
@@ -66,11 +85,22 @@ export class MonitorService implements IMonitorService {
       // Use default rules if file doesn't exist
       this.rules = this.rulesService.getDefaultRules();
     }
+    const resolved = await this.ruleBaselines.resolveContext(
+      this.rules,
+      options.url,
+      options.scenario,
+    );
+    this.ruleContext = resolved.context;
+    this.missingBaselines = resolved.missingBaselines;
 
     // Calculate frame budget from config or default
     const fpsTarget = config?.profiling.defaultFpsTarget ?? 60;
     this.frameBudgetMs = 1000 / fpsTarget;
 
+    const deviceProfile = options.deviceProfile
+      ? await this.configService.getDeviceProfile(options.deviceProfile)
+      : undefined;
+
     // Connect to browser
     await this.cdpConnection.connect({
       browserPath: config?.browser.path,
@@ -86,12 +116,18 @@ export class MonitorService implements IMonitorService {
       await client.send('Performance.enable', {});
     }
 
+    if (deviceProfile) {
+      await this.emulationService.applyDeviceProfile(deviceProfile);
+    }
+
     // Navigate to URL
     await this.navigateToUrl(options.url);
 
     // Load and start scenario if provided
     if (options.scenario) {
       const scenario = await this.scenarioRunner.loadScenario(options.scenario);
+      // Setup runs once, before the scenario loop
+      await this.scenarioRunner.runSetup(scenario);
       // Run scenario in background (non-blocking)
       void this.runScenarioLoop(scenario);
     }
@@ -130,6 +166,13 @@ export class MonitorService implements IMonitorService {
     await this.cdpConnection.disconnect();
   }
 
+  /**
+   * Branches the rules compare against that have no recorded runs
+   */
+  getMissingBaselines(): string[] {
+    return [...this.missingBaselines];
+  }
+
   /**
    * Check if monitoring is active
    */
@@ -209,10 +252,22 @@ export class MonitorService implements IMonitorService {
    */
   private async startTraceCollection(): Promise<void> {
     await this.tracingService.startTracing({
-      categories: ['devtools.timeline', 'blink.user_timing'],
+      categories: MONITOR_TRACE_CATEGORIES,
     });
   }
 
+  /**
+   * End the current trace and start the next one, returning the events
+   * recorded since the previous poll
+   */
+  private async rotateTrace(): Promise<TraceEvent[]> {
+    const trace = await this.tracingService.stopTracing();
+    if (this.monitoring) {
+      await this.startTraceCollection();
+    }
+    return trace.traceEvents;
+  }
+
   /**
    * Start polling for metrics
    */
@@ -226,7 +281,8 @@ export class MonitorService implements IMonitorService {
    * Collect metrics and evaluate rules
    */
   private async collectAndEvaluateMetrics(): Promise<void> {
-    if (!this.monitoring) return;
+    if (!this.monitoring || this.collecting) return;
+    this.collecting = true;
 
     try {
       // Get performance metrics from CDP
@@ -245,10 +301,20 @@ export class MonitorService implements IMonitorService {
         this.rollingWindow.addSample(sample);
       }
 
+      // Run the interval detectors over the events since the last poll
+      if (this.tracingService.isTracing()) {
+        const events = await this.rotateTrace();
+        this.rollingWindow.addIntervalSample(
+          this.intervalMetrics.measure(events, this.frameBudgetMs),
+        );
+      }
+
       // Evaluate rules against current metrics
       this.evaluateRules();
     } catch {
       // Continue monitoring even if collection fails
+    } finally {
+      this.collecting = false;
     }
   }
 
@@ -297,13 +363,22 @@ export class MonitorService implements IMonitorService {
     const windowMetrics = metrics.windows['1m']; // Use 1m window for rule evaluation
 
     // Map window metrics to rule metrics
-    const ruleMetrics = {
+    const ruleMetrics: MetricsData = {
       p95_frame_time: windowMetrics.p95FrameTime,
       dropped_frames_pct: windowMetrics.droppedFramesPct,
+      reflow_cost_ms: windowMetrics.reflowCostMs,
+      gpu_stall_ms: windowMetrics.gpuStallMs,
+      long_task_ms: windowMetrics.longTaskMs,
+      frame_count: windowMetrics.samples,
+      avg_fps: windowMetrics.avgFps,
     };
 
     // Evaluate all rules
-    const result = this.rulesService.evaluateAllRules(this.rules, ruleMetrics);
+    const result = this.rulesService.evaluateAllRules(
+      this.rules,
+      ruleMetrics,
+      this.ruleContext,
+    );
 
     // Process violations
     for (const evaluation of result.violations) {
@@ -312,7 +387,11 @@ export class MonitorService implements IMonitorService {
         ruleName: evaluation.rule.name,
         severity: evaluation.triggeredSeverity ?? 'warning',
         actualValue: evaluation.value,
-        threshold: this.getTriggeredThreshold(evaluation),
+        threshold: evaluation.threshold ?? 1,
+        condition:
+          evaluation.threshold === undefined
+            ? this.rulesService.describeRule(evaluation.rule).value
+            : undefined,
         timestamp: new Date(),
       };
 
@@ -324,29 +403,6 @@ export class MonitorService implements IMonitorService {
     }
   }
 
-  /**
-   * Get the threshold that was triggered
-   */
-  private getTriggeredThreshold(evaluation: RuleEvaluation): number {
-    if (!evaluation.triggeredSeverity) return 0;
-
-    const thresholds = evaluation.rule.thresholds;
-    const severity = evaluation.triggeredSeverity;
-
-    switch (severity) {
-      case 'info':
-        return thresholds.info ?? 0;
-      case 'warning':
-        return thresholds.warning ?? 0;
-      case 'high':
-        return thresholds.high ?? 0;
-      case 'critical':
-        return thresholds.critical ?? 0;
-      default:
-        return 0;
-    }
-  }
-
   /**
    * Notify all violation handlers
    */
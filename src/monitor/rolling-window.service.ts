@@ -1,12 +1,14 @@
 /**
  * Rolling Window Service - Maintains rolling windows of performance metrics
- * Tracks 1m, 5m, and 15m windows for avgFps, droppedFramesPct, and p95FrameTime
+ * Tracks 1m, 5m, and 15m windows for avgFps, droppedFramesPct, p95FrameTime
+ * and the forced reflow, GPU stall and long task time of polling intervals
  */
 
 import { Injectable } from '@nestjs/common';
 import type {
   IRollingWindowService,
   FrameSample,
+  IntervalSample,
   WindowMetrics,
   RollingMetrics,
   Violation,
@@ -26,6 +28,9 @@ export class RollingWindowService implements IRollingWindowService {
   /** All frame samples, sorted by timestamp */
   private samples: FrameSample[] = [];
 
+  /** Main thread work per polling interval, sorted by timestamp */
+  private intervals: IntervalSample[] = [];
+
   /** Recorded violations */
   private violations: Violation[] = [];
 
@@ -47,6 +52,14 @@ export class RollingWindowService implements IRollingWindowService {
     }
   }
 
+  /**
+   * Add the main thread work of a polling interval to the rolling windows
+   */
+  addIntervalSample(sample: IntervalSample): void {
+    this.intervals.push(sample);
+    this.pruneOldSamples();
+  }
+
   /**
    * Get current metrics for all windows
    */
@@ -71,6 +84,7 @@ export class RollingWindowService implements IRollingWindowService {
 
     // Filter samples within the window
     const windowSamples = this.samples.filter((s) => s.timestamp >= cutoff);
+    const work = this.sumIntervals(cutoff);
 
     if (windowSamples.length === 0) {
       return {
@@ -78,6 +92,7 @@ export class RollingWindowService implements IRollingWindowService {
         droppedFramesPct: 0,
         p95FrameTime: 0,
         samples: 0,
+        ...work,
       };
     }
 
@@ -96,6 +111,7 @@ export class RollingWindowService implements IRollingWindowService {
       droppedFramesPct: Math.round(droppedFramesPct * 100) / 100,
       p95FrameTime: Math.round(p95FrameTime * 100) / 100,
       samples: windowSamples.length,
+      ...work,
     };
   }
 
@@ -104,6 +120,7 @@ export class RollingWindowService implements IRollingWindowService {
    */
   reset(): void {
     this.samples = [];
+    this.intervals = [];
     this.violations = [];
   }
 
@@ -134,6 +151,30 @@ export class RollingWindowService implements IRollingWindowService {
   private pruneOldSamples(): void {
     const cutoff = Date.now() - WINDOW_DURATIONS['15m'];
     this.samples = this.samples.filter((s) => s.timestamp >= cutoff);
+    this.intervals = this.intervals.filter((s) => s.timestamp >= cutoff);
+  }
+
+  /**
+   * Total main thread work of the intervals since the cutoff
+   */
+  private sumIntervals(
+    cutoff: number,
+  ): Pick<WindowMetrics, 'reflowCostMs' | 'gpuStallMs' | 'longTaskMs'> {
+    let reflowCostMs = 0;
+    let gpuStallMs = 0;
+    let longTaskMs = 0;
+    for (const interval of this.intervals) {
+      if (interval.timestamp < cutoff) continue;
+      reflowCostMs += interval.reflowCostMs;
+      gpuStallMs += interval.gpuStallMs;
+      longTaskMs += interval.longTaskMs;
+    }
+
+    return {
+      reflowCostMs: Math.round(reflowCostMs * 100) / 100,
+      gpuStallMs: Math.round(gpuStallMs * 100) / 100,
+      longTaskMs: Math.round(longTaskMs * 100) / 100,
+    };
   }
 
   /**
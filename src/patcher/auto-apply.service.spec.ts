@@ -0,0 +1,283 @@
+/**
+ * Unit tests for AutoApplyService benchmarks and rollback
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AutoApplyService } from './auto-apply.service.js';
+import { GitService } from './git.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { AdapterRegistryService } from '../adapters/adapter-registry.service.js';
+import {
+  AdapterCapability,
+  type TraceCollectionOptions,
+} from '../adapters/interfaces/index.js';
+import type { TraceSnapshot } from '../adapters/models/index.js';
+import type {
+  ApplyOptions,
+  BenchmarkOptions,
+  Patch,
+} from '../shared/types/patch.types.js';
+
+const BACKUP_COMMIT = 'b'.repeat(40);
+const PATCH_COMMIT = 'p'.repeat(40);
+
+function snapshot(avgFps: number): TraceSnapshot {
+  return {
+    frameMetrics: {
+      totalFrames: 300,
+      droppedFrames: Math.round((60 - avgFps) * 5),
+      avgFps,
+      frameBudgetMs: 16.67,
+      p95FrameTimeMs: 1000 / avgFps,
+      maxFrameTimeMs: 1000 / avgFps,
+      minFrameTimeMs: 1000 / avgFps,
+    },
+  } as TraceSnapshot;
+}
+
+describe('AutoApplyService', () => {
+  let service: AutoApplyService;
+  let dir: string;
+  let filePath: string;
+  let fpsRuns: number[];
+
+  const gitService = {
+    isGitRepo: jest.fn(),
+    hasUncommittedChanges: jest.fn(),
+    createBranch: jest.fn(),
+    createBackupCommit: jest.fn(),
+    stageFiles: jest.fn(),
+    commit: jest.fn(),
+    getHeadCommit: jest.fn(),
+    resetToCommit: jest.fn(),
+  };
+  const adapter = {
+    metadata: { name: 'Test Adapter' },
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    collectTrace: jest.fn(),
+    hasCapability: jest.fn(),
+  };
+  const adapterRegistry = {
+    selectAdapter: jest.fn(() => adapter),
+  };
+
+  const benchmark: BenchmarkOptions = {
+    url: 'https://app.test/',
+    fpsTarget: 60,
+    runs: 5,
+    durationMs: 1000,
+  };
+
+  const options = (overrides: Partial<ApplyOptions> = {}): ApplyOptions => ({
+    autoApply: true,
+    dryRun: false,
+    backup: false,
+    benchmark,
+    ...overrides,
+  });
+
+  const patch = (): Patch => ({
+    id: 'patch-1',
+    suggestionId: 'suggestion-1',
+    filePath,
+    type: 'css',
+    hunks: [
+      {
+        startLine: 1,
+        endLine: 1,
+        originalContent: '.box { top: 0; }',
+        newContent: '.box { transform: translateY(0); }',
+      },
+    ],
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'render-debugger-auto-apply-'));
+    filePath = join(dir, 'styles.css');
+    await writeFile(filePath, '.box { top: 0; }\n');
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    gitService.isGitRepo.mockResolvedValue(true);
+    gitService.hasUncommittedChanges.mockResolvedValue(false);
+    gitService.createBackupCommit.mockResolvedValue(BACKUP_COMMIT);
+    gitService.commit.mockResolvedValue(PATCH_COMMIT);
+    gitService.getHeadCommit.mockResolvedValue(PATCH_COMMIT);
+    adapter.hasCapability.mockReturnValue(true);
+
+    // Each benchmark run profiles the next FPS value
+    fpsRuns = [];
+    adapter.collectTrace.mockImplementation(() =>
+      Promise.resolve(snapshot(fpsRuns.shift()!)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoApplyService,
+        { provide: GitService, useValue: gitService },
+        { provide: StorageService, useValue: { writeBackup: jest.fn() } },
+        { provide: AdapterRegistryService, useValue: adapterRegistry },
+      ],
+    }).compile();
+
+    service = module.get(AutoApplyService);
+    jest.spyOn(service, 'runValidation').mockResolvedValue({
+      success: true,
+      lintPassed: true,
+      formatPassed: true,
+      testsPassed: true,
+      errors: [],
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the patches when the patched runs are not worse', async () => {
+    fpsRuns = [50, 52, 51, 49, 50, 55, 57, 56, 54, 55];
+
+    const result = await service.apply([patch()], options());
+
+    expect(adapter.collectTrace).toHaveBeenCalledTimes(10);
+    expect(result.benchmarkVerdict?.regressed).toBe(false);
+    expect(result.rolledBack).toBe(false);
+    expect(result.success).toBe(true);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+    expect(await readFile(filePath, 'utf-8')).toContain('translateY');
+  });
+
+  it('should reset to the backup commit when the patched runs are significantly worse', async () => {
+    fpsRuns = [60, 59, 61, 60, 60, 40, 41, 39, 42, 40];
+
+    const result = await service.apply([patch()], options());
+
+    expect(result.benchmarkVerdict?.regressed).toBe(true);
+    expect(
+      result.benchmarkVerdict?.worseMetrics.map((m) => m.metric),
+    ).toContain('avgFps');
+    expect(result.rolledBack).toBe(true);
+    expect(result.success).toBe(false);
+
+    // Only the patched file went into the commit the reset drops
+    expect(gitService.stageFiles).toHaveBeenCalledWith([filePath]);
+    expect(gitService.resetToCommit).toHaveBeenCalledTimes(1);
+    expect(gitService.resetToCommit).toHaveBeenCalledWith(BACKUP_COMMIT, true);
+  });
+
+  it('should report an inconclusive verdict when the runs cannot reach alpha', async () => {
+    fpsRuns = [60, 59, 61, 40, 41, 39];
+
+    const result = await service.apply(
+      [patch()],
+      options({ benchmark: { ...benchmark, runs: 3 } }),
+    );
+
+    expect(result.benchmarkVerdict).toMatchObject({
+      regressed: false,
+      inconclusive: true,
+    });
+    expect(result.rolledBack).toBe(false);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+    expect(service.generateSummary(result)).toContain(
+      '3 run(s) before and 3 after cannot reach alpha 0.05 (smallest possible p-value 0.050)',
+    );
+  });
+
+  it('should not reset when the branch moved past the patch commit', async () => {
+    fpsRuns = [60, 59, 61, 60, 60, 40, 41, 39, 42, 40];
+    gitService.getHeadCommit.mockResolvedValue('c'.repeat(40));
+
+    const result = await service.apply([patch()], options());
+
+    expect(result.benchmarkVerdict?.regressed).toBe(true);
+    expect(result.rolledBack).toBe(false);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+  });
+
+  it('should not reset when the working tree changed since the patch commit', async () => {
+    fpsRuns = [60, 59, 61, 60, 60, 40, 41, 39, 42, 40];
+    // Clean before applying, dirty after validation
+    gitService.hasUncommittedChanges
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true);
+
+    const result = await service.apply([patch()], options());
+
+    expect(result.rolledBack).toBe(false);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+  });
+
+  it('should not reset when the patched benchmarks fail', async () => {
+    fpsRuns = [60, 59, 61, 60, 60];
+    adapter.collectTrace.mockImplementation(() =>
+      fpsRuns.length > 0
+        ? Promise.resolve(snapshot(fpsRuns.shift()!))
+        : Promise.reject(new Error('Browser crashed')),
+    );
+
+    const result = await service.apply([patch()], options());
+
+    expect(result.success).toBe(false);
+    expect(result.backupCommit).toBe(BACKUP_COMMIT);
+    expect(adapter.disconnect).toHaveBeenCalledTimes(2);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+  });
+
+  it('should only run the recorded scenario on adapters that support scenarios', async () => {
+    fpsRuns = [50, 52, 51, 49, 50, 55, 57, 56, 54, 55];
+    const withScenario = options({
+      benchmark: { ...benchmark, recordedScenario: 'scroll' },
+    });
+
+    await service.apply([patch()], withScenario);
+    expect(adapter.collectTrace).toHaveBeenCalledWith(
+      expect.objectContaining({ scenario: 'scroll' }),
+    );
+
+    await writeFile(filePath, '.box { top: 0; }\n');
+    adapter.collectTrace.mockClear();
+    adapter.hasCapability.mockReturnValue(false);
+    fpsRuns = [50, 52, 51, 49, 50, 55, 57, 56, 54, 55];
+
+    const result = await service.apply([patch()], withScenario);
+    expect(result.success).toBe(true);
+    expect(adapter.hasCapability).toHaveBeenCalledWith(
+      AdapterCapability.SCENARIOS,
+    );
+    expect(
+      adapter.collectTrace.mock.calls.map(
+        ([collectOptions]: [TraceCollectionOptions]) => collectOptions.scenario,
+      ),
+    ).toEqual(new Array(10).fill(undefined));
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Test Adapter cannot run scenarios'),
+    );
+  });
+
+  it('should skip benchmarks without a URL', async () => {
+    const result = await service.apply(
+      [patch()],
+      options({ benchmark: undefined }),
+    );
+
+    expect(adapterRegistry.selectAdapter).not.toHaveBeenCalled();
+    expect(result.benchmarkVerdict).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(gitService.resetToCommit).not.toHaveBeenCalled();
+
+    await service.apply(
+      [patch()],
+      options({ benchmark: { ...benchmark, url: '' } }),
+    );
+    expect(adapterRegistry.selectAdapter).not.toHaveBeenCalled();
+  });
+});
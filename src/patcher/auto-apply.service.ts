@@ -8,6 +8,7 @@
  * - Apply patches
  * - Run linter/tests
  * - Collect before/after benchmarks
+ * - Roll back when the patched runs are significantly worse
  * - NEVER auto-push changes
  */
 
@@ -20,6 +21,9 @@ import type {
   PatchFailure,
   ApplyResult,
   BenchmarkMetrics,
+  BenchmarkRunMetrics,
+  BenchmarkOptions,
+  BenchmarkVerdict,
   ApplyOptions,
 } from '../shared/types/patch.types.js';
 import type {
@@ -28,6 +32,18 @@ import type {
 } from './interfaces/index.js';
 import { GitService } from './git.service.js';
 import { StorageService } from '../services/storage.service.js';
+import { AdapterRegistryService } from '../adapters/adapter-registry.service.js';
+import {
+  AdapterCapability,
+  type AdapterType,
+} from '../adapters/interfaces/index.js';
+import type { TraceSnapshot } from '../adapters/models/index.js';
+import {
+  canReachSignificance,
+  mannWhitneyU,
+  median,
+  minimumUPValue,
+} from '../shared/utils/index.js';
 import {
   GitRequiredError,
   DirtyWorkingTreeError,
@@ -46,6 +62,21 @@ const DEFAULT_METRICS: BenchmarkMetrics = {
   totalFrames: 0,
 };
 
+/**
+ * Default significance level for the before/after regression test
+ */
+const DEFAULT_BENCHMARK_ALPHA = 0.05;
+
+/**
+ * Direction in which each benchmark metric gets worse
+ */
+const WORSE_WHEN_HIGHER: Record<keyof BenchmarkRunMetrics, boolean | null> = {
+  avgFps: false,
+  droppedFramesPct: true,
+  p95FrameTime: true,
+  totalFrames: null,
+};
+
 @Injectable()
 export class AutoApplyService implements IAutoApplyService {
   private lintCommand: string = 'npm run lint';
@@ -54,6 +85,7 @@ export class AutoApplyService implements IAutoApplyService {
   constructor(
     private readonly gitService: GitService,
     private readonly storageService: StorageService,
+    private readonly adapterRegistry: AdapterRegistryService,
   ) {}
 
   /**
@@ -77,6 +109,7 @@ export class AutoApplyService implements IAutoApplyService {
     const appliedPatches: Patch[] = [];
     const failedPatches: PatchFailure[] = [];
     let backupCommit: string | undefined;
+    let patchCommit: string | undefined;
     let branch: string | undefined;
 
     // Safety check: Require Git repo
@@ -92,7 +125,7 @@ export class AutoApplyService implements IAutoApplyService {
     }
 
     // Collect before metrics
-    const beforeMetrics = await this.collectBenchmarks();
+    const beforeMetrics = await this.collectBenchmarks(options.benchmark);
 
     try {
       // Create branch for changes
@@ -131,7 +164,7 @@ export class AutoApplyService implements IAutoApplyService {
       if (appliedPatches.length > 0) {
         const modifiedFiles = appliedPatches.map((p) => p.filePath);
         await this.gitService.stageFiles(modifiedFiles);
-        await this.gitService.commit(
+        patchCommit = await this.gitService.commit(
           `[render-debugger] Applied ${appliedPatches.length} performance fix(es)`,
         );
         console.log(`> Committed ${appliedPatches.length} patch(es)`);
@@ -144,7 +177,35 @@ export class AutoApplyService implements IAutoApplyService {
       }
 
       // Collect after metrics
-      const afterMetrics = await this.collectBenchmarks();
+      const afterMetrics = await this.collectBenchmarks(options.benchmark);
+
+      // Roll back if the patched runs are significantly worse
+      let benchmarkVerdict: BenchmarkVerdict | undefined;
+      let rolledBack = false;
+      if (options.benchmark && patchCommit) {
+        benchmarkVerdict = this.compareBenchmarks(
+          beforeMetrics,
+          afterMetrics,
+          options.benchmark.alpha,
+        );
+
+        if (benchmarkVerdict.inconclusive) {
+          console.warn(
+            `⚠ ${this.describeInconclusive(beforeMetrics, afterMetrics, benchmarkVerdict.alpha)}; the patches were kept without a verdict`,
+          );
+        } else if (benchmarkVerdict.regressed) {
+          rolledBack = await this.rollBack(patchCommit, backupCommit);
+          if (rolledBack) {
+            console.warn(
+              `● Patched runs are significantly worse, reset ${branch} to ${backupCommit.substring(0, 7)}`,
+            );
+          } else {
+            console.warn(
+              `● Patched runs are significantly worse, but ${branch} changed since the patches were committed; reset it to ${backupCommit.substring(0, 7)} by hand`,
+            );
+          }
+        }
+      }
 
       // NOTE: We NEVER push changes (Requirement 5.13)
       console.log('\n> Changes are ready for review (not pushed)');
@@ -152,13 +213,18 @@ export class AutoApplyService implements IAutoApplyService {
       console.log(`   Backup commit: ${backupCommit.substring(0, 7)}`);
 
       return {
-        success: appliedPatches.length > 0 && failedPatches.length === 0,
+        success:
+          appliedPatches.length > 0 &&
+          failedPatches.length === 0 &&
+          !rolledBack,
         appliedPatches,
         failedPatches,
         backupCommit,
         branch,
         beforeMetrics,
         afterMetrics,
+        benchmarkVerdict,
+        rolledBack,
       };
     } catch (error) {
       // If something goes wrong, try to restore
@@ -176,6 +242,27 @@ export class AutoApplyService implements IAutoApplyService {
     }
   }
 
+  /**
+   * Hard reset the branch to the backup commit, dropping only the commit
+   * holding the patches. Leaves the branch alone when anything else was
+   * committed or modified since, as the reset would discard it too.
+   */
+  private async rollBack(
+    patchCommit: string,
+    backupCommit: string,
+  ): Promise<boolean> {
+    const headCommit = await this.gitService.getHeadCommit();
+    if (headCommit !== patchCommit) {
+      return false;
+    }
+    if (await this.gitService.hasUncommittedChanges()) {
+      return false;
+    }
+
+    await this.gitService.resetToCommit(backupCommit, true);
+    return true;
+  }
+
   /**
    * Apply a single patch to a file
    */
@@ -292,16 +379,155 @@ export class AutoApplyService implements IAutoApplyService {
   }
 
   /**
-   * Collect benchmark metrics
-   * In a real implementation, this would run a profile and collect metrics
+   * Collect benchmark metrics by re-running the profile `runs` times
+   * through the configured adapter. Returns empty metrics when no
+   * benchmark options are given.
+   */
+  async collectBenchmarks(
+    options?: BenchmarkOptions,
+  ): Promise<BenchmarkMetrics> {
+    if (!options?.url || options.runs <= 0) {
+      return DEFAULT_METRICS;
+    }
+
+    const adapter = this.adapterRegistry.selectAdapter({
+      adapterType: options.adapter as AdapterType | undefined,
+      browserPath: options.browserPath,
+    });
+
+    await adapter.connect({
+      browserPath: options.browserPath,
+      headless: options.headless ?? true,
+      port: options.port,
+      host: options.host,
+    });
+
+    let scenario = options.scenario;
+    if (!scenario && options.recordedScenario) {
+      if (adapter.hasCapability(AdapterCapability.SCENARIOS)) {
+        scenario = options.recordedScenario;
+      } else {
+        console.warn(
+          `⚠ ${adapter.metadata.name} cannot run scenarios, benchmarking without the trace's "${options.recordedScenario}" scenario`,
+        );
+      }
+    }
+
+    const runs: BenchmarkRunMetrics[] = [];
+    try {
+      for (let i = 0; i < options.runs; i++) {
+        console.log(`> Benchmark run ${i + 1}/${options.runs}...`);
+        const snapshot = await adapter.collectTrace({
+          name: `benchmark-${i + 1}`,
+          url: options.url,
+          scenario,
+          fpsTarget: options.fpsTarget,
+          durationMs: options.durationMs,
+        });
+        runs.push(this.toRunMetrics(snapshot));
+      }
+    } finally {
+      await adapter.disconnect();
+    }
+
+    return this.aggregateRuns(runs);
+  }
+
+  /**
+   * Compare before/after runs with a one-sided Mann-Whitney U test per
+   * metric. The verdict is inconclusive when the run counts cannot reach
+   * alpha.
+   */
+  compareBenchmarks(
+    before: BenchmarkMetrics,
+    after: BenchmarkMetrics,
+    alpha: number = DEFAULT_BENCHMARK_ALPHA,
+  ): BenchmarkVerdict {
+    const worseMetrics: BenchmarkVerdict['worseMetrics'] = [];
+    const beforeRuns = before.runs ?? [];
+    const afterRuns = after.runs ?? [];
+
+    // Both alternatives share the same smallest p-value
+    if (
+      !canReachSignificance(
+        afterRuns.length,
+        beforeRuns.length,
+        alpha,
+        'greater',
+      )
+    ) {
+      return { regressed: false, inconclusive: true, worseMetrics, alpha };
+    }
+
+    for (const [metric, worseWhenHigher] of Object.entries(
+      WORSE_WHEN_HIGHER,
+    ) as Array<[keyof BenchmarkRunMetrics, boolean | null]>) {
+      if (worseWhenHigher === null) continue;
+
+      const { pValue } = mannWhitneyU(
+        afterRuns.map((r) => r[metric]),
+        beforeRuns.map((r) => r[metric]),
+        worseWhenHigher ? 'greater' : 'less',
+      );
+
+      if (pValue < alpha) {
+        worseMetrics.push({ metric, pValue });
+      }
+    }
+
+    return {
+      regressed: worseMetrics.length > 0,
+      inconclusive: false,
+      worseMetrics,
+      alpha,
+    };
+  }
+
+  /**
+   * Explain why before/after runs cannot be tested at alpha
+   */
+  private describeInconclusive(
+    before: BenchmarkMetrics,
+    after: BenchmarkMetrics,
+    alpha: number,
+  ): string {
+    const beforeCount = before.runs?.length ?? 0;
+    const afterCount = after.runs?.length ?? 0;
+    const minimumP = minimumUPValue(afterCount, beforeCount, 'greater');
+    return `${beforeCount} run(s) before and ${afterCount} after cannot reach alpha ${alpha} (smallest possible p-value ${minimumP.toFixed(3)})`;
+  }
+
+  /**
+   * Extract benchmark metrics from a single trace snapshot
    */
-  collectBenchmarks(): Promise<BenchmarkMetrics> {
-    // For now, return default metrics
-    // In a full implementation, this would:
-    // 1. Run a profile against the target URL
-    // 2. Collect frame timing data
-    // 3. Calculate metrics
-    return Promise.resolve(DEFAULT_METRICS);
+  private toRunMetrics(snapshot: TraceSnapshot): BenchmarkRunMetrics {
+    const { frameMetrics } = snapshot;
+    return {
+      avgFps: frameMetrics.avgFps,
+      droppedFramesPct:
+        frameMetrics.totalFrames > 0
+          ? (frameMetrics.droppedFrames / frameMetrics.totalFrames) * 100
+          : 0,
+      p95FrameTime: frameMetrics.p95FrameTimeMs,
+      totalFrames: frameMetrics.totalFrames,
+    };
+  }
+
+  /**
+   * Aggregate per-run metrics into medians, keeping the individual runs
+   */
+  private aggregateRuns(runs: BenchmarkRunMetrics[]): BenchmarkMetrics {
+    if (runs.length === 0) {
+      return DEFAULT_METRICS;
+    }
+
+    return {
+      avgFps: median(runs.map((r) => r.avgFps)),
+      droppedFramesPct: median(runs.map((r) => r.droppedFramesPct)),
+      p95FrameTime: median(runs.map((r) => r.p95FrameTime)),
+      totalFrames: Math.round(median(runs.map((r) => r.totalFrames))),
+      runs,
+    };
   }
 
   /**
@@ -379,6 +605,32 @@ export class AutoApplyService implements IAutoApplyService {
       if (droppedDiff > 0) {
         lines.push(`  ✓ Dropped frames reduced by ${droppedDiff.toFixed(1)}%`);
       }
+
+      const runCount = result.afterMetrics.runs?.length ?? 0;
+      if (runCount > 0) {
+        lines.push(`  (median of ${runCount} run(s) each)`);
+      }
+    }
+
+    if (result.benchmarkVerdict?.inconclusive) {
+      lines.push('');
+      lines.push(
+        `⚠ Benchmark inconclusive: ${this.describeInconclusive(result.beforeMetrics, result.afterMetrics, result.benchmarkVerdict.alpha)}`,
+      );
+      lines.push('  Raise --benchmark-runs to detect regressions');
+    } else if (result.benchmarkVerdict?.regressed) {
+      lines.push('');
+      lines.push(
+        `● Patched runs are significantly worse (alpha ${result.benchmarkVerdict.alpha}):`,
+      );
+      for (const worse of result.benchmarkVerdict.worseMetrics) {
+        lines.push(`  ${worse.metric}: p = ${worse.pValue.toFixed(4)}`);
+      }
+      if (result.rolledBack && result.backupCommit) {
+        lines.push(
+          `  Branch reset to backup commit ${result.backupCommit.substring(0, 7)}`,
+        );
+      }
     }
 
     lines.push('');
@@ -16,6 +16,11 @@ import { GitOperationError } from '../errors/error-types.js';
 
 const execAsync = promisify(exec);
 
+/**
+ * Branch names, tags, hashes and relative references such as HEAD~2
+ */
+const GIT_REF_PATTERN = /^[\w./~^-]+$/;
+
 export const GIT_WORKING_DIR = 'GIT_WORKING_DIR';
 
 @Injectable()
@@ -88,6 +93,13 @@ export class GitService implements IGitService {
     return await this.execGit('rev-parse --abbrev-ref HEAD');
   }
 
+  /**
+   * Get the full hash of the HEAD commit
+   */
+  async getHeadCommit(): Promise<string> {
+    return await this.execGit('rev-parse HEAD');
+  }
+
   /**
    * Check if working tree has uncommitted changes
    */
@@ -162,6 +174,84 @@ export class GitService implements IGitService {
     await this.execGit(`reset ${mode} ${commitHash}`);
   }
 
+  /**
+   * Resolve a branch, tag or commit reference to a full commit hash
+   */
+  async resolveCommit(ref: string): Promise<string> {
+    this.assertValidRef(ref);
+    return await this.execGit(`rev-parse --verify "${ref}^{commit}"`);
+  }
+
+  /**
+   * Check out a branch or commit, detaching HEAD for commits
+   */
+  async checkoutRef(ref: string): Promise<void> {
+    this.assertValidRef(ref);
+    await this.execGit(`checkout ${ref}`);
+  }
+
+  /**
+   * Get the subject line of a commit message
+   */
+  async getCommitSubject(commitHash: string): Promise<string> {
+    return await this.execGit(`log -1 --format=%s ${commitHash}`);
+  }
+
+  /**
+   * Start a bisect session and check out the first commit to test
+   * NOTE: Both arguments must be resolved commit hashes
+   * @returns The first bad commit if no commits are left to test, otherwise null
+   */
+  async bisectStart(
+    badCommit: string,
+    goodCommit: string,
+  ): Promise<string | null> {
+    const output = await this.execGit(
+      `bisect start ${badCommit} ${goodCommit}`,
+    );
+    return this.parseFirstBadCommit(output);
+  }
+
+  /**
+   * Mark the checked out commit and check out the next one to test
+   * @returns The first bad commit once bisect has found it, otherwise null
+   */
+  async bisectMark(verdict: 'good' | 'bad' | 'skip'): Promise<string | null> {
+    const output = await this.execGit(`bisect ${verdict}`);
+    return this.parseFirstBadCommit(output);
+  }
+
+  /**
+   * End the bisect session and return to the commit checked out before it
+   */
+  async bisectReset(): Promise<void> {
+    await this.execGit('bisect reset');
+  }
+
+  /**
+   * Get the directory git commands run in
+   */
+  getWorkingDir(): string {
+    return this.workingDir;
+  }
+
+  private parseFirstBadCommit(output: string): string | null {
+    const match = /^([0-9a-f]{40}) is the first bad commit/m.exec(output);
+    return match ? match[1]! : null;
+  }
+
+  /**
+   * Reject references that could be interpreted by the shell
+   */
+  private assertValidRef(ref: string): void {
+    if (!GIT_REF_PATTERN.test(ref)) {
+      throw new GitOperationError(
+        ref,
+        new Error(`Invalid git reference: ${ref}`),
+      );
+    }
+  }
+
   /**
    * Sanitize branch name to be git-safe
    */
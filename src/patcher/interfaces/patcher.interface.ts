@@ -11,6 +11,7 @@ import type {
   ApplyResult,
   DryRunResult,
   BenchmarkMetrics,
+  BenchmarkOptions,
 } from '../../shared/types/patch.types.js';
 
 /**
@@ -25,6 +26,8 @@ export interface IGitService {
   createBackupCommit(message: string): Promise<string>;
   /** Get current branch name */
   getCurrentBranch(): Promise<string>;
+  /** Get the full hash of the HEAD commit */
+  getHeadCommit(): Promise<string>;
   /** Check if working tree has uncommitted changes */
   hasUncommittedChanges(): Promise<boolean>;
   /** Stage files for commit */
@@ -33,6 +36,10 @@ export interface IGitService {
   commit(message: string): Promise<string>;
   /** Checkout a branch */
   checkoutBranch(name: string): Promise<void>;
+  /** Resolve a branch, tag or commit reference to a full commit hash */
+  resolveCommit(ref: string): Promise<string>;
+  /** Check out a branch or commit, detaching HEAD for commits */
+  checkoutRef(ref: string): Promise<void>;
 }
 
 /**
@@ -63,8 +70,8 @@ export interface IAutoApplyService {
   apply(patches: Patch[], options: ApplyOptions): Promise<ApplyResult>;
   /** Run validation after applying patches */
   runValidation(): Promise<ValidationResult>;
-  /** Collect benchmark metrics */
-  collectBenchmarks(): Promise<BenchmarkMetrics>;
+  /** Collect benchmark metrics by re-running the profile */
+  collectBenchmarks(options?: BenchmarkOptions): Promise<BenchmarkMetrics>;
 }
 
 /**
@@ -122,6 +129,20 @@ export interface FixCommandOptions {
   lintCommand?: string;
   /** Test command to run */
   testCommand?: string;
+  /** URL to re-profile for before/after benchmarks */
+  url?: string;
+  /** Scenario for benchmark runs (default: scenario recorded in the trace) */
+  scenario?: string;
+  /** Adapter to profile with */
+  adapter?: string;
+  /** Number of benchmark runs before and after patching */
+  benchmarkRuns?: number;
+  /** Duration of each benchmark run in seconds */
+  benchmarkDuration?: number;
+  /** Significance level for rolling back a regressing patch */
+  alpha?: number;
+  /** Path to browser executable for benchmark runs */
+  browserPath?: string;
 }
 
 export {
@@ -131,4 +152,5 @@ export {
   ApplyResult,
   DryRunResult,
   BenchmarkMetrics,
+  BenchmarkOptions,
 };
@@ -6,9 +6,10 @@ import { AutoApplyService } from './auto-apply.service.js';
 import { PatcherService } from './patcher.service.js';
 import { FixTargetFilterService } from './fix-target-filter.service.js';
 import { ServicesModule } from '../services/services.module.js';
+import { AdaptersModule } from '../adapters/adapters.module.js';
 
 @Module({
-  imports: [ServicesModule],
+  imports: [ServicesModule, AdaptersModule],
   providers: [
     GitService,
     PatchGeneratorService,
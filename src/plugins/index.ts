@@ -0,0 +1,3 @@
+export * from './plugin-loader.service.js';
+export * from './plugins.module.js';
+export * from './interfaces/index.js';
@@ -0,0 +1,5 @@
+/**
+ * Plugin interfaces exports
+ */
+
+export * from './plugin.interface.js';
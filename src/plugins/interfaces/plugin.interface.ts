@@ -0,0 +1,72 @@
+/**
+ * Plugin interfaces for third-party detectors, suggesters, adapters and
+ * reporters
+ */
+
+import type { IDetector } from '../../analyzer/interfaces/index.js';
+import type { ISuggester } from '../../suggester/interfaces/index.js';
+import type { AdapterRegistration } from '../../adapters/interfaces/index.js';
+import type { ICustomReporter } from '../../reporter/interfaces/index.js';
+
+/**
+ * Plugin API version implemented by this release. Plugins declare the
+ * version they were written against and are rejected on mismatch.
+ */
+export const PLUGIN_API_VERSION = 1;
+
+/**
+ * Context passed to plugin factory functions
+ */
+export interface PluginContext {
+  /** Plugin API version of the host */
+  apiVersion: number;
+  /** Options from the plugin entry in config.yaml */
+  options: Record<string, unknown>;
+}
+
+/**
+ * A plugin module's default export: the plugin itself, or a factory that
+ * creates it
+ */
+export interface RenderDebuggerPlugin {
+  /** Unique plugin name */
+  name: string;
+  /** Plugin API version the plugin targets */
+  apiVersion: number;
+  detectors?: IDetector[];
+  suggesters?: ISuggester[];
+  adapters?: AdapterRegistration[];
+  reporters?: ICustomReporter[];
+}
+
+export type PluginFactory = (
+  context: PluginContext,
+) => RenderDebuggerPlugin | Promise<RenderDebuggerPlugin>;
+
+/**
+ * A plugin that loaded and registered its contributions
+ */
+export interface LoadedPlugin {
+  name: string;
+  /** Package name or path from config.yaml */
+  source: string;
+  apiVersion: number;
+  /** Names of the registered contributions */
+  detectors: string[];
+  suggesters: string[];
+  adapters: string[];
+  reporters: string[];
+}
+
+/**
+ * A plugin that was skipped
+ */
+export interface PluginLoadFailure {
+  source: string;
+  reason: string;
+}
+
+export interface PluginLoadResult {
+  loaded: LoadedPlugin[];
+  failed: PluginLoadFailure[];
+}
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for PluginLoaderService
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { PluginLoaderService } from './plugin-loader.service.js';
+import { PLUGIN_API_VERSION } from './interfaces/index.js';
+import type { RenderDebuggerPlugin } from './interfaces/index.js';
+import { ConfigService } from '../services/config.service.js';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { SuggesterService } from '../suggester/suggester.service.js';
+import { ReporterService } from '../reporter/reporter.service.js';
+import { TerminalReporter } from '../reporter/terminal.reporter.js';
+import { JSONReporter } from '../reporter/json.reporter.js';
+import { HTMLReporter } from '../reporter/html.reporter.js';
+import { TrendHTMLReporter } from '../reporter/trend-html.reporter.js';
+import { AdapterRegistryService } from '../adapters/adapter-registry.service.js';
+import { PluginLoadError } from '../errors/error-types.js';
+import type {
+  DetectionContext,
+  IDetector,
+} from '../analyzer/interfaces/index.js';
+import type { TraceData } from '../shared/types/index.js';
+
+describe('PluginLoaderService', () => {
+  let service: PluginLoaderService;
+  let analyzerService: AnalyzerService;
+  let suggesterService: SuggesterService;
+  let reporterService: ReporterService;
+  let loadConfig: jest.Mock;
+
+  const brokenDetector: IDetector = {
+    name: 'BrokenDetector',
+    priority: 10,
+    detect: () => Promise.reject(new Error('boom')),
+  };
+
+  function plugin(
+    overrides: Partial<RenderDebuggerPlugin> = {},
+  ): RenderDebuggerPlugin {
+    return {
+      name: 'team-checks',
+      apiVersion: PLUGIN_API_VERSION,
+      detectors: [brokenDetector],
+      suggesters: [
+        {
+          name: 'TeamSuggester',
+          supportedTypes: ['long_task'],
+          suggest: () => Promise.reject(new Error('boom')),
+        },
+      ],
+      reporters: [
+        { name: 'csv', extension: 'csv', generate: () => 'type,severity' },
+      ],
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    loadConfig = jest.fn().mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PluginLoaderService,
+        AnalyzerService,
+        SuggesterService,
+        ReporterService,
+        TerminalReporter,
+        JSONReporter,
+        HTMLReporter,
+        TrendHTMLReporter,
+        AdapterRegistryService,
+        { provide: ConfigService, useValue: { loadConfig } },
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    service = module.get(PluginLoaderService);
+    analyzerService = module.get(AnalyzerService);
+    suggesterService = module.get(SuggesterService);
+    reporterService = module.get(ReporterService);
+  });
+
+  it('should register contributions and isolate their failures', async () => {
+    const loaded = service.registerPlugin(plugin(), './plugins/team');
+
+    expect(loaded).toMatchObject({
+      name: 'team-checks',
+      detectors: ['BrokenDetector'],
+      suggesters: ['TeamSuggester'],
+      reporters: ['csv'],
+    });
+
+    const [detector] = analyzerService.getDetectors();
+    expect(detector!.name).toBe('BrokenDetector');
+    await expect(
+      detector!.detect({} as TraceData, {} as DetectionContext),
+    ).resolves.toEqual([]);
+
+    const [suggester] = suggesterService.getSuggesters();
+    await expect(
+      suggester!.suggest({ type: 'long_task' } as never),
+    ).resolves.toBeNull();
+
+    expect(reporterService.getCustomReporter('csv')?.extension).toBe('csv');
+  });
+
+  it('should forward event filters and accept every event once one throws', () => {
+    const acceptsEvent = jest
+      .fn()
+      .mockReturnValueOnce(false)
+      .mockImplementationOnce(() => {
+        throw new Error('boom');
+      });
+    service.registerPlugin(
+      plugin({ detectors: [{ ...brokenDetector, acceptsEvent }] }),
+      'team',
+    );
+
+    const [detector] = analyzerService.getDetectors();
+    const event = {
+      name: 'Layout',
+      cat: 'devtools.timeline',
+      ts: 0,
+      ph: 'X',
+      pid: 1,
+      tid: 1,
+    };
+    expect(detector!.acceptsEvent!(event)).toBe(false);
+    expect(detector!.acceptsEvent!(event)).toBe(true);
+    expect(detector!.acceptsEvent!(event)).toBe(true);
+    expect(acceptsEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject API version mismatches and name conflicts', () => {
+    expect(() =>
+      service.registerPlugin(plugin({ apiVersion: 99 }), 'future-plugin'),
+    ).toThrow(PluginLoadError);
+
+    service.registerPlugin(plugin(), 'team');
+    expect(() =>
+      service.registerPlugin(
+        plugin({ name: 'other', suggesters: [], reporters: [] }),
+        'other',
+      ),
+    ).toThrow('detector BrokenDetector is already registered');
+
+    // The rejected plugin registered nothing
+    expect(analyzerService.getDetectors()).toHaveLength(1);
+    expect(service.getLoadResult().loaded.map((p) => p.name)).toEqual([
+      'team-checks',
+    ]);
+  });
+
+  it('should skip plugins that cannot be loaded without throwing', async () => {
+    loadConfig.mockResolvedValue({
+      plugins: [
+        './does-not-exist/plugin.js',
+        { path: 'render-debugger-plugin-missing' },
+        { path: './disabled.js', enabled: false },
+      ],
+    });
+
+    const result = await service.loadConfiguredPlugins();
+
+    expect(result.loaded).toEqual([]);
+    expect(result.failed.map((f) => f.source)).toEqual([
+      './does-not-exist/plugin.js',
+      'render-debugger-plugin-missing',
+    ]);
+    expect(result.failed[1]!.reason).toContain('package not found');
+  });
+
+  it('should report malformed plugins config without throwing', async () => {
+    loadConfig.mockResolvedValueOnce({ plugins: './plugins/team' });
+    expect((await service.loadConfiguredPlugins()).failed).toEqual([
+      { source: 'plugins', reason: 'Plugins must be an array' },
+    ]);
+
+    loadConfig.mockResolvedValueOnce({ plugins: [42, null] });
+    const result = await service.loadConfiguredPlugins();
+    expect(result.failed.map((f) => f.source)).toEqual([
+      'plugins',
+      'plugins[0]',
+      'plugins[1]',
+    ]);
+  });
+});
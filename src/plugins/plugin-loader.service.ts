@@ -0,0 +1,433 @@
+/**
+ * Plugin Loader Service
+ * Discovers plugins listed in config.yaml and registers their detectors,
+ * suggesters, adapters and reporters with the built-in services
+ *
+ * Plugins are isolated: a plugin that fails to load is skipped with a
+ * warning, and errors thrown by its contributions at runtime are logged
+ * instead of aborting the command.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ConfigService } from '../services/config.service.js';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { SuggesterService } from '../suggester/suggester.service.js';
+import { ReporterService } from '../reporter/reporter.service.js';
+import { AdapterRegistryService } from '../adapters/adapter-registry.service.js';
+import { PluginLoadError } from '../errors/error-types.js';
+import type { PluginConfig, Detection } from '../shared/types/index.js';
+import type {
+  IDetector,
+  IDetectorSession,
+} from '../analyzer/interfaces/index.js';
+import type { ISuggester } from '../suggester/interfaces/index.js';
+import {
+  PLUGIN_API_VERSION,
+  type RenderDebuggerPlugin,
+  type PluginFactory,
+  type LoadedPlugin,
+  type PluginLoadFailure,
+  type PluginLoadResult,
+} from './interfaces/index.js';
+
+@Injectable()
+export class PluginLoaderService {
+  private readonly logger = new Logger(PluginLoaderService.name);
+  private readonly loaded: LoadedPlugin[] = [];
+  private readonly failed: PluginLoadFailure[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly analyzerService: AnalyzerService,
+    private readonly suggesterService: SuggesterService,
+    private readonly reporterService: ReporterService,
+    private readonly adapterRegistry: AdapterRegistryService,
+  ) {}
+
+  /**
+   * Load every enabled plugin listed in config.yaml
+   */
+  async loadConfiguredPlugins(): Promise<PluginLoadResult> {
+    const config = await this.configService.loadConfig();
+
+    // config.yaml is not validated before plugins load, so malformed
+    // entries are reported like plugins that fail to load
+    const entries: unknown = config?.plugins ?? [];
+    if (!Array.isArray(entries)) {
+      this.reportConfigError('plugins', 'Plugins must be an array');
+      return this.getLoadResult();
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      const pluginConfig = (
+        typeof entry === 'string' ? { path: entry } : entry
+      ) as PluginConfig | null;
+      if (
+        typeof pluginConfig?.path !== 'string' ||
+        pluginConfig.path.length === 0
+      ) {
+        this.reportConfigError(
+          `plugins[${index}]`,
+          'Plugin must be a package name or path',
+        );
+        continue;
+      }
+      if (pluginConfig.enabled === false) continue;
+      await this.loadPlugin(pluginConfig);
+    }
+
+    return this.getLoadResult();
+  }
+
+  /**
+   * Import a plugin package or local module and register it
+   * @returns The loaded plugin, or null if it was skipped
+   */
+  async loadPlugin(pluginConfig: PluginConfig): Promise<LoadedPlugin | null> {
+    try {
+      const entryPoint = this.resolveEntryPoint(pluginConfig.path);
+      const module = (await import(pathToFileURL(entryPoint).href)) as Record<
+        string,
+        unknown
+      >;
+      const plugin = await this.instantiate(module, pluginConfig);
+      return this.registerPlugin(plugin, pluginConfig.path);
+    } catch (error) {
+      const reason =
+        error instanceof PluginLoadError
+          ? error.reason
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      this.failed.push({ source: pluginConfig.path, reason });
+      this.logger.warn(`Skipping plugin ${pluginConfig.path}: ${reason}`);
+      return null;
+    }
+  }
+
+  /**
+   * Record a malformed plugins entry in config.yaml
+   */
+  private reportConfigError(field: string, message: string): void {
+    this.failed.push({ source: field, reason: message });
+    this.logger.warn(`Invalid config.yaml ${field}: ${message}`);
+  }
+
+  /**
+   * Validate a plugin and register its contributions
+   * @throws PluginLoadError if the plugin is invalid or conflicts with
+   * already registered components. Nothing is registered in that case.
+   */
+  registerPlugin(plugin: RenderDebuggerPlugin, source: string): LoadedPlugin {
+    this.validatePlugin(plugin, source);
+
+    const detectors = plugin.detectors ?? [];
+    const suggesters = plugin.suggesters ?? [];
+    const adapters = plugin.adapters ?? [];
+    const reporters = plugin.reporters ?? [];
+
+    for (const detector of detectors) {
+      this.analyzerService.registerDetector(
+        this.isolateDetector(detector, plugin.name),
+      );
+    }
+    for (const suggester of suggesters) {
+      this.suggesterService.registerSuggester(
+        this.isolateSuggester(suggester, plugin.name),
+      );
+    }
+    for (const adapter of adapters) {
+      this.adapterRegistry.registerAdapter(adapter);
+    }
+    for (const reporter of reporters) {
+      this.reporterService.registerReporter(reporter);
+    }
+
+    const loaded: LoadedPlugin = {
+      name: plugin.name,
+      source,
+      apiVersion: plugin.apiVersion,
+      detectors: detectors.map((d) => d.name),
+      suggesters: suggesters.map((s) => s.name),
+      adapters: adapters.map((a) => a.metadata.type),
+      reporters: reporters.map((r) => r.name),
+    };
+    this.loaded.push(loaded);
+    this.logger.log(`Loaded plugin: ${plugin.name} (${source})`);
+
+    return loaded;
+  }
+
+  /**
+   * Get the plugins loaded and skipped so far
+   */
+  getLoadResult(): PluginLoadResult {
+    return { loaded: [...this.loaded], failed: [...this.failed] };
+  }
+
+  /**
+   * Resolve a package name or a path relative to the project root to the
+   * plugin entry point
+   */
+  private resolveEntryPoint(specifier: string): string {
+    const projectRoot = process.cwd();
+    const projectRequire = createRequire(
+      path.join(projectRoot, 'package.json'),
+    );
+    const isPath =
+      specifier.startsWith('.') ||
+      path.isAbsolute(specifier) ||
+      specifier.includes(path.sep);
+
+    try {
+      return projectRequire.resolve(
+        isPath ? path.resolve(projectRoot, specifier) : specifier,
+      );
+    } catch {
+      throw new PluginLoadError(
+        specifier,
+        isPath
+          ? `no module found at ${path.resolve(projectRoot, specifier)}`
+          : `package not found, install it in ${projectRoot}`,
+      );
+    }
+  }
+
+  /**
+   * Get the plugin from a module's default export, calling it if it is a
+   * factory
+   */
+  private async instantiate(
+    module: Record<string, unknown>,
+    pluginConfig: PluginConfig,
+  ): Promise<RenderDebuggerPlugin> {
+    let exported: unknown = module.default ?? module;
+
+    // CommonJS modules compiled from ES modules nest the default export
+    if (
+      exported &&
+      typeof exported === 'object' &&
+      'default' in exported &&
+      !('apiVersion' in exported)
+    ) {
+      exported = (exported as { default: unknown }).default;
+    }
+
+    if (typeof exported === 'function') {
+      exported = await (exported as PluginFactory)({
+        apiVersion: PLUGIN_API_VERSION,
+        options: pluginConfig.options ?? {},
+      });
+    }
+
+    return exported as RenderDebuggerPlugin;
+  }
+
+  /**
+   * Check the plugin shape, API version and name conflicts
+   */
+  private validatePlugin(plugin: RenderDebuggerPlugin, source: string): void {
+    const fail = (reason: string): never => {
+      throw new PluginLoadError(source, reason);
+    };
+
+    if (!plugin || typeof plugin !== 'object') {
+      fail('default export must be a plugin object or factory');
+    }
+    if (typeof plugin.name !== 'string' || plugin.name.length === 0) {
+      fail('plugin name is required');
+    }
+    if (typeof plugin.apiVersion !== 'number') {
+      fail('plugin apiVersion is required');
+    }
+    if (plugin.apiVersion !== PLUGIN_API_VERSION) {
+      fail(
+        `plugin targets API version ${plugin.apiVersion}, but this version of render-debugger supports ${PLUGIN_API_VERSION}`,
+      );
+    }
+    if (this.loaded.some((p) => p.name === plugin.name)) {
+      fail(`a plugin named ${plugin.name} is already loaded`);
+    }
+
+    for (const key of [
+      'detectors',
+      'suggesters',
+      'adapters',
+      'reporters',
+    ] as const) {
+      if (plugin[key] !== undefined && !Array.isArray(plugin[key])) {
+        fail(`${key} must be an array`);
+      }
+    }
+
+    const detectorNames = new Set(
+      this.analyzerService.getDetectors().map((d) => d.name),
+    );
+    for (const detector of plugin.detectors ?? []) {
+      if (
+        typeof detector?.name !== 'string' ||
+        typeof detector.priority !== 'number' ||
+        typeof detector.detect !== 'function'
+      ) {
+        fail('detectors must have a name, priority and detect()');
+      }
+      if (detectorNames.has(detector.name)) {
+        fail(`detector ${detector.name} is already registered`);
+      }
+      detectorNames.add(detector.name);
+    }
+
+    const suggesterNames = new Set(
+      this.suggesterService.getSuggesters().map((s) => s.name),
+    );
+    for (const suggester of plugin.suggesters ?? []) {
+      if (
+        typeof suggester?.name !== 'string' ||
+        !Array.isArray(suggester.supportedTypes) ||
+        typeof suggester.suggest !== 'function'
+      ) {
+        fail('suggesters must have a name, supportedTypes and suggest()');
+      }
+      if (suggesterNames.has(suggester.name)) {
+        fail(`suggester ${suggester.name} is already registered`);
+      }
+      suggesterNames.add(suggester.name);
+    }
+
+    for (const adapter of plugin.adapters ?? []) {
+      if (
+        typeof adapter?.metadata?.type !== 'string' ||
+        typeof adapter.factory !== 'function'
+      ) {
+        fail('adapters must have metadata with a type and a factory()');
+      }
+      if (this.adapterRegistry.hasAdapter(adapter.metadata.type)) {
+        fail(`adapter ${adapter.metadata.type} is already registered`);
+      }
+    }
+
+    for (const reporter of plugin.reporters ?? []) {
+      if (
+        typeof reporter?.name !== 'string' ||
+        typeof reporter.extension !== 'string' ||
+        typeof reporter.generate !== 'function'
+      ) {
+        fail('reporters must have a name, extension and generate()');
+      }
+      if (this.reporterService.getCustomReporter(reporter.name)) {
+        fail(`reporter ${reporter.name} is already registered`);
+      }
+    }
+  }
+
+  /**
+   * Wrap a plugin detector so that failures and invalid results yield no
+   * detections. An event filter that throws is reported once and then
+   * treated as accepting every event, and a session that throws is
+   * reported once and then reads no further chunks.
+   */
+  private isolateDetector(detector: IDetector, pluginName: string): IDetector {
+    const warn = (error: unknown): void => {
+      this.logger.warn(
+        `Plugin ${pluginName}: detector ${detector.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    };
+
+    const run = async (
+      method: string,
+      detect: () => Promise<unknown>,
+    ): Promise<Detection[]> => {
+      try {
+        const detections = await detect();
+        if (!Array.isArray(detections)) {
+          throw new Error(`${method}() did not return an array`);
+        }
+        return detections as Detection[];
+      } catch (error) {
+        warn(error);
+        return [];
+      }
+    };
+
+    let acceptsEventFailed = false;
+
+    return {
+      name: detector.name,
+      priority: detector.priority,
+      requiredCapabilities: detector.requiredCapabilities,
+      detect: (trace, context) =>
+        run('detect', () => detector.detect(trace, context)),
+      acceptsEvent: detector.acceptsEvent
+        ? (event) => {
+            if (acceptsEventFailed) return true;
+            try {
+              return Boolean(detector.acceptsEvent!(event));
+            } catch (error) {
+              acceptsEventFailed = true;
+              warn(error);
+              return true;
+            }
+          }
+        : undefined,
+      createSession: detector.createSession
+        ? () => {
+            let session: IDetectorSession | undefined;
+            try {
+              session = detector.createSession!();
+            } catch (error) {
+              warn(error);
+            }
+            return {
+              consume: (chunk, context) => {
+                if (!session) return;
+                try {
+                  session.consume(chunk, context);
+                } catch (error) {
+                  session = undefined;
+                  warn(error);
+                }
+              },
+              finish: (context) => {
+                const current = session;
+                return current
+                  ? run('finish', () => current.finish(context))
+                  : Promise.resolve([]);
+              },
+            };
+          }
+        : undefined,
+      detectFromSnapshot: detector.detectFromSnapshot
+        ? (snapshot, context) =>
+            run('detectFromSnapshot', () =>
+              detector.detectFromSnapshot!(snapshot, context),
+            )
+        : undefined,
+    };
+  }
+
+  /**
+   * Wrap a plugin suggester so that failures yield no suggestion
+   */
+  private isolateSuggester(
+    suggester: ISuggester,
+    pluginName: string,
+  ): ISuggester {
+    return {
+      name: suggester.name,
+      supportedTypes: suggester.supportedTypes,
+      suggest: async (detection) => {
+        try {
+          return await suggester.suggest(detection);
+        } catch (error) {
+          this.logger.warn(
+            `Plugin ${pluginName}: suggester ${suggester.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return null;
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Plugins Module
+ * Loads third-party plugins from config.yaml once the built-in detectors,
+ * suggesters, adapters and reporters are registered
+ *
+ */
+
+import { Module, OnModuleInit } from '@nestjs/common';
+import { PluginLoaderService } from './plugin-loader.service.js';
+import { AnalyzerModule } from '../analyzer/analyzer.module.js';
+import { SuggesterModule } from '../suggester/suggester.module.js';
+import { ReporterModule } from '../reporter/reporter.module.js';
+import { AdaptersModule } from '../adapters/adapters.module.js';
+
+@Module({
+  imports: [AnalyzerModule, SuggesterModule, ReporterModule, AdaptersModule],
+  providers: [PluginLoaderService],
+  exports: [PluginLoaderService],
+})
+export class PluginsModule implements OnModuleInit {
+  constructor(private readonly pluginLoader: PluginLoaderService) {}
+
+  /**
+   * Load configured plugins on module initialization
+   */
+  async onModuleInit(): Promise<void> {
+    await this.pluginLoader.loadConfiguredPlugins();
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for scenario key definitions
+ */
+
+import { getKeyDefinition, parseKeyCombo } from './key-definitions.js';
+
+describe('key definitions', () => {
+  it('should map characters and named keys to CDP key fields', () => {
+    expect(getKeyDefinition('a')).toEqual({
+      key: 'a',
+      code: 'KeyA',
+      keyCode: 65,
+      text: 'a',
+    });
+    expect(getKeyDefinition('7')).toMatchObject({ code: 'Digit7', text: '7' });
+    expect(getKeyDefinition('Esc')).toMatchObject({
+      key: 'Escape',
+      keyCode: 27,
+    });
+    expect(getKeyDefinition('\n')).toMatchObject({ key: 'Enter' });
+    expect(getKeyDefinition('F5')).toMatchObject({ code: 'F5', keyCode: 116 });
+    expect(getKeyDefinition('é')).toMatchObject({ text: 'é' });
+    expect(() => getKeyDefinition('Hyper')).toThrow('Unknown key: Hyper');
+  });
+
+  it('should parse shortcuts into modifiers and a key', () => {
+    const combo = parseKeyCombo('Ctrl+Shift+K');
+    expect(combo.modifiers.map((m) => m.key)).toEqual(['Control', 'Shift']);
+    expect(combo.modifierFlags).toBe(2 | 8);
+    expect(combo.key.code).toBe('KeyK');
+
+    expect(parseKeyCombo('Tab').modifierFlags).toBe(0);
+    expect(parseKeyCombo('Control++').key.key).toBe('+');
+    expect(() => parseKeyCombo('Tab+K')).toThrow('Unknown modifier "Tab"');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Key definitions for CDP Input.dispatchKeyEvent
+ *
+ * CDP needs the DOM `key`, physical `code` and Windows virtual key code for
+ * each key so that pages see the same KeyboardEvent fields as real input.
+ */
+
+/**
+ * Modifier bit flags used by CDP input events
+ */
+export const KEY_MODIFIERS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+/**
+ * Aliases accepted in scenario shortcuts
+ */
+const KEY_ALIASES: Record<string, string> = {
+  Ctrl: 'Control',
+  Cmd: 'Meta',
+  Command: 'Meta',
+  Option: 'Alt',
+  Esc: 'Escape',
+  Return: 'Enter',
+  Space: ' ',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Del: 'Delete',
+};
+
+export interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  /** Text inserted by the key, if any */
+  text?: string;
+}
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  Enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  Escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  Backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  Delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  ' ': { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  Home: { key: 'Home', code: 'Home', keyCode: 36 },
+  End: { key: 'End', code: 'End', keyCode: 35 },
+  PageUp: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  PageDown: { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+  Shift: { key: 'Shift', code: 'ShiftLeft', keyCode: 16 },
+  Control: { key: 'Control', code: 'ControlLeft', keyCode: 17 },
+  Alt: { key: 'Alt', code: 'AltLeft', keyCode: 18 },
+  Meta: { key: 'Meta', code: 'MetaLeft', keyCode: 91 },
+};
+
+/**
+ * Get the key definition for a key name or a single character
+ * @throws Error if the key is not known
+ */
+export function getKeyDefinition(name: string): KeyDefinition {
+  const key = KEY_ALIASES[name] ?? name;
+
+  const named = NAMED_KEYS[key];
+  if (named) return named;
+
+  if (/^F([1-9]|1[0-2])$/.test(key)) {
+    return { key, code: key, keyCode: 111 + Number(key.slice(1)) };
+  }
+
+  if (key === '\n') return NAMED_KEYS.Enter!;
+
+  if ([...key].length === 1) {
+    if (/[a-z]/i.test(key)) {
+      const upper = key.toUpperCase();
+      return {
+        key,
+        code: `Key${upper}`,
+        keyCode: upper.charCodeAt(0),
+        text: key,
+      };
+    }
+    if (/[0-9]/.test(key)) {
+      return {
+        key,
+        code: `Digit${key}`,
+        keyCode: key.charCodeAt(0),
+        text: key,
+      };
+    }
+    // Punctuation and other characters only need their text
+    return { key, code: '', keyCode: 0, text: key };
+  }
+
+  throw new Error(`Unknown key: ${name}`);
+}
+
+/**
+ * Parse a shortcut such as `Control+Shift+K` into modifiers and the main key
+ */
+export function parseKeyCombo(combo: string): {
+  modifiers: KeyDefinition[];
+  modifierFlags: number;
+  key: KeyDefinition;
+} {
+  // `+` on its own (or as the last part, e.g. `Control++`) is the plus key
+  const parts = combo === '+' ? ['+'] : combo.split(/\+(?!$)/);
+  const keyName = parts.pop()!;
+
+  const modifiers = parts.map((part) => {
+    const name = KEY_ALIASES[part] ?? part;
+    if (KEY_MODIFIERS[name] === undefined) {
+      throw new Error(`Unknown modifier "${part}" in shortcut: ${combo}`);
+    }
+    return getKeyDefinition(name);
+  });
+
+  const modifierFlags = modifiers.reduce(
+    (flags, modifier) => flags | KEY_MODIFIERS[modifier.key]!,
+    0,
+  );
+
+  return { modifiers, modifierFlags, key: getKeyDefinition(keyName) };
+}
@@ -1,20 +1,84 @@
 import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { CDPConnectionService } from '../cdp/cdp-connection.service.js';
 import {
   TracingService,
   DEFAULT_TRACE_CATEGORIES,
 } from '../cdp/tracing.service.js';
+import { EmulationService } from '../cdp/emulation.service.js';
 import { ScenarioRunnerService } from './scenario-runner.service.js';
 import { StorageService } from '../services/storage.service.js';
 import { ConfigService } from '../services/config.service.js';
+import { PrivacyService } from '../services/privacy.service.js';
+import {
+  DEFAULT_TRACE_LIFECYCLE_CONFIG,
+  TraceChunker,
+} from '../services/trace-lifecycle.service.js';
 import { InvalidURLError } from '../errors/error-types.js';
+import {
+  calculateCLS,
+  SegmentAccumulator,
+  ScreenshotSampler,
+  SCREENSHOT_TRACE_CATEGORY,
+  type ScreenshotSample,
+} from '../shared/utils/index.js';
 import type {
   TraceData,
+  TraceEvent,
+  TraceMetadata,
   TraceSummary,
+  PhaseBreakdown,
   Scenario,
   ScenarioResult,
 } from '../shared/types/index.js';
 
+/**
+ * Events the summary is computed from: frames, phases and CLS. User Timing
+ * events are matched by category.
+ */
+const SUMMARY_EVENTS = new Set([
+  'BeginFrame',
+  'DrawFrame',
+  'UpdateLayoutTree',
+  'RecalculateStyles',
+  'Layout',
+  'Paint',
+  'PaintImage',
+  'CompositeLayers',
+  'UpdateLayer',
+  'GPUTask',
+  'RasterTask',
+  'LayoutShift',
+]);
+
+const USER_TIMING_CATEGORY = 'blink.user_timing';
+
+/**
+ * Totals of the intervals between frame events. Chunks share the frame
+ * event they are cut at, so the totals of consecutive chunks add up.
+ */
+interface FrameSums {
+  frameEvents: number;
+  intervals: number;
+  totalMs: number;
+  dropped: number;
+}
+
+/**
+ * What the summary is computed from, collected while the trace is copied.
+ * Summary events are read in chunks so that User Timing measures can be
+ * scoped without holding on to the whole trace.
+ */
+interface SummaryState {
+  frameEvents: TraceEvent[];
+  layoutShifts: TraceEvent[];
+  /** Unrounded phase totals */
+  phases: PhaseBreakdown;
+  segments: SegmentAccumulator<{ frames: FrameSums; phases: PhaseBreakdown }>;
+  chunker: TraceChunker;
+}
+
 export interface ProfileOptions {
   url: string;
   scenario: string;
@@ -24,14 +88,39 @@ export interface ProfileOptions {
   fpsTarget: number;
   cdpPort?: number;
   outputPath?: string;
+  /** Device profile from config.yaml to emulate */
+  deviceProfile?: string;
+  /** Capture a screenshot of each frame, if privacy settings allow it */
+  screenshots?: boolean;
+  /** Size cap for the stored screenshots in MB */
+  screenshotMaxMb?: number;
+  /** Memory limit for the summary events read at a time */
+  maxBufferMb?: number;
+}
+
+export interface ScreenshotCaptureResult {
+  /** Directory the screenshots were written to, if any were captured */
+  dir?: string;
+  captured: number;
+  /** Screenshots left out to stay under the size cap */
+  dropped: number;
+  /** Why no screenshots were taken, when privacy settings prevented it */
+  skippedReason?: string;
 }
 
 export interface ProfileResult {
+  /**
+   * Trace metadata and the frame events, for frame times. The full trace
+   * is only written to tracePath.
+   */
   traceData: TraceData;
   summary: TraceSummary;
+  setupResult: ScenarioResult;
   scenarioResult: ScenarioResult;
   tracePath: string;
   summaryPath: string;
+  /** Present when screenshots were requested */
+  screenshots?: ScreenshotCaptureResult;
   exitCode: number;
 }
 
@@ -40,9 +129,11 @@ export class RecorderService {
   constructor(
     private readonly cdpConnection: CDPConnectionService,
     private readonly tracingService: TracingService,
+    private readonly emulationService: EmulationService,
     private readonly scenarioRunner: ScenarioRunnerService,
     private readonly storageService: StorageService,
     private readonly configService: ConfigService,
+    private readonly privacyService: PrivacyService,
   ) {}
 
   /**
@@ -60,6 +151,12 @@ export class RecorderService {
     const cdpPort = options.cdpPort ?? config?.browser.defaultCdpPort ?? 9222;
     const traceCategories =
       config?.profiling.traceCategories ?? DEFAULT_TRACE_CATEGORIES;
+    const deviceProfile = options.deviceProfile
+      ? await this.configService.getDeviceProfile(options.deviceProfile)
+      : undefined;
+    const screenshotDecision = options.screenshots
+      ? this.privacyService.isScreenshotCaptureAllowed(options.url)
+      : undefined;
 
     // Connect to browser
     await this.cdpConnection.connect({
@@ -76,15 +173,27 @@ export class RecorderService {
         await client.send('Runtime.enable', {});
       }
 
+      // Throttle before navigating so the page loads under the profile too
+      if (deviceProfile) {
+        await this.emulationService.applyDeviceProfile(deviceProfile);
+      }
+
       // Navigate to URL
       await this.navigateToUrl(options.url);
 
       // Load scenario
       const scenario = await this.scenarioRunner.loadScenario(options.scenario);
 
-      // Start tracing
+      // Run setup steps before tracing so they don't pollute the trace
+      const setupResult = await this.scenarioRunner.runSetup(scenario);
+
+      // Start tracing. The trace is read back as a stream once tracing
+      // ends, instead of arriving in dataCollected messages while it runs
       await this.tracingService.startTracing({
-        categories: traceCategories,
+        categories: screenshotDecision?.allowed
+          ? [...traceCategories, SCREENSHOT_TRACE_CATEGORY]
+          : traceCategories,
+        transferMode: 'ReturnAsStream',
       });
 
       // Run scenario with duration limit
@@ -93,28 +202,116 @@ export class RecorderService {
         options.duration * 1000,
       );
 
-      // Stop tracing
-      const traceData = await this.tracingService.stopTracing();
+      const runId = this.generateRunId(options);
+      const tracePath =
+        options.outputPath ??
+        (await this.storageService.createTracePath(runId));
+
+      // Stop tracing. The browser's trace goes to disk as it is read back
+      const rawTracePath = `${tracePath}.raw`;
+      const browserMetadata =
+        await this.tracingService.stopTracingToFile(rawTracePath);
 
       // Update trace metadata
-      traceData.metadata = {
-        ...traceData.metadata,
+      const metadata: TraceMetadata = {
+        ...browserMetadata,
         scenario: options.scenario,
         fps_target: options.fpsTarget,
+        adapter: 'chromium-cdp',
         timestamp: new Date().toISOString(),
       };
+      if (deviceProfile) {
+        metadata.device_profile = deviceProfile;
+        if (deviceProfile.viewport) {
+          metadata.viewport = deviceProfile.viewport;
+        }
+        if (deviceProfile.device_pixel_ratio !== undefined) {
+          metadata.device_pixel_ratio = deviceProfile.device_pixel_ratio;
+        }
+      }
+
+      // Screenshots are stored as image files next to the trace, not in it
+      const screenshotsDir = this.getScreenshotsDir(runId, options.outputPath);
+      const screenshotSampler = screenshotDecision?.allowed
+        ? new ScreenshotSampler(
+            (options.screenshotMaxMb ??
+              DEFAULT_TRACE_LIFECYCLE_CONFIG.maxScreenshotSizeMB) *
+              1024 *
+              1024,
+          )
+        : undefined;
+      let sampled: ScreenshotSample | undefined;
+
+      // Copy the trace into place with its metadata, reading the summary
+      // events a chunk at a time
+      const summaryState = this.startSummary(
+        options,
+        options.maxBufferMb ?? DEFAULT_TRACE_LIFECYCLE_CONFIG.maxBufferSizeMB,
+      );
+      let traceStart = Infinity;
+      try {
+        await this.storageService.rewriteTrace(
+          rawTracePath,
+          tracePath,
+          (event, sizeBytes) => {
+            if (screenshotSampler?.add(event)) {
+              return false;
+            }
+            if (event.ts > 0) {
+              traceStart = Math.min(traceStart, event.ts);
+            }
+            if (this.isSummaryEvent(event)) {
+              this.addSummaryEvent(summaryState, event, sizeBytes);
+            }
+            return true;
+          },
+          () => {
+            sampled = screenshotSampler?.finish();
+            if (sampled && sampled.screenshots.length > 0) {
+              metadata.screenshots = screenshotsDir.name;
+            }
+            return metadata;
+          },
+        );
+      } catch (error) {
+        await fs.rm(tracePath, { force: true });
+        throw error;
+      } finally {
+        await fs.rm(rawTracePath, { force: true });
+      }
+
+      const traceData: TraceData = {
+        traceEvents: summaryState.frameEvents,
+        metadata,
+      };
 
       // Generate summary
-      const summary = this.generateSummary(traceData, options);
+      summaryState.chunker.flush();
+      const summary = this.generateSummary(
+        summaryState,
+        metadata,
+        options,
+        traceStart,
+      );
+      summary.valid = setupResult.assertionFailures.length === 0;
+      if (!summary.valid) {
+        summary.invalid_reasons = setupResult.assertionFailures.map(
+          (failure) => `Setup assertion failed: ${failure}`,
+        );
+      }
 
-      // Generate run ID
-      const runId = this.generateRunId(options);
+      let screenshots: ScreenshotCaptureResult | undefined;
+      if (screenshotDecision && !screenshotDecision.allowed) {
+        screenshots = {
+          captured: 0,
+          dropped: 0,
+          skippedReason: screenshotDecision.reason,
+        };
+      } else if (sampled) {
+        screenshots = await this.writeScreenshots(sampled, screenshotsDir.dir);
+      }
 
       // Write artifacts
-      const tracePath = options.outputPath
-        ? await this.writeTraceToPath(options.outputPath, traceData)
-        : await this.storageService.writeTrace(runId, traceData);
-
       const summaryPath = await this.storageService.writeSummary(
         runId,
         summary,
@@ -123,9 +320,11 @@ export class RecorderService {
       return {
         traceData,
         summary,
+        setupResult,
         scenarioResult,
         tracePath,
         summaryPath,
+        screenshots,
         exitCode: 0,
       };
     } finally {
@@ -177,17 +376,84 @@ export class RecorderService {
   }
 
   /**
-   * Generate a trace summary from trace data
+   * Whether the summary reads an event
+   */
+  private isSummaryEvent(event: TraceEvent): boolean {
+    return (
+      SUMMARY_EVENTS.has(event.name) ||
+      event.cat?.split(',').includes(USER_TIMING_CATEGORY) === true
+    );
+  }
+
+  /**
+   * Start collecting what the summary is computed from
+   */
+  private startSummary(
+    options: ProfileOptions,
+    maxBufferMb: number,
+  ): SummaryState {
+    const frameBudgetMs = 1000 / options.fpsTarget;
+    const segments = new SegmentAccumulator(
+      (events) => ({
+        frames: this.sumFrames(events, frameBudgetMs),
+        phases: this.sumPhases(events),
+      }),
+      (a, b) => ({
+        frames: this.addFrameSums(a.frames, b.frames),
+        phases: this.addPhases(a.phases, b.phases),
+      }),
+    );
+
+    const state: SummaryState = {
+      frameEvents: [],
+      layoutShifts: [],
+      phases: this.sumPhases([]),
+      segments,
+      chunker: new TraceChunker(maxBufferMb, (events) => {
+        state.phases = this.addPhases(state.phases, this.sumPhases(events));
+        segments.addChunk(events);
+      }),
+    };
+    return state;
+  }
+
+  /**
+   * Collect a summary event. Frame events are kept for frame times and
+   * layout shifts for CLS; the rest only count towards the totals.
+   */
+  private addSummaryEvent(
+    state: SummaryState,
+    event: TraceEvent,
+    sizeBytes: number,
+  ): void {
+    if (event.name === 'BeginFrame' || event.name === 'DrawFrame') {
+      state.frameEvents.push(event);
+    } else if (event.name === 'LayoutShift') {
+      state.layoutShifts.push(event);
+    }
+    state.chunker.add(event, sizeBytes);
+  }
+
+  /**
+   * Generate a trace summary from the collected summary events
+   * @param traceStart Timestamp of the first event of the whole trace
    */
   private generateSummary(
-    traceData: TraceData,
+    state: SummaryState,
+    metadata: TraceMetadata,
     options: ProfileOptions,
+    traceStart: number,
   ): TraceSummary {
-    const frameMetrics = this.calculateFrameMetrics(
-      traceData,
+    const frameMetrics = this.toFrameMetrics(
+      this.sumFrames(state.frameEvents, 1000 / options.fpsTarget),
       options.fpsTarget,
     );
-    const phaseBreakdown = this.calculatePhaseBreakdown(traceData);
+
+    // Frame metrics and phases per User Timing measure
+    const segments = state.segments.summarize(traceStart, [], (value) => ({
+      frames: this.toFrameMetrics(value.frames, options.fpsTarget),
+      phases: this.roundPhases(value.phases),
+    }));
 
     return {
       id: this.generateUniqueId(),
@@ -195,113 +461,170 @@ export class RecorderService {
       url: options.url,
       duration_ms: options.duration * 1000,
       frames: frameMetrics,
-      phase_breakdown: phaseBreakdown,
+      phase_breakdown: this.roundPhases(state.phases),
       hotspots: {
         layout_thrashing: [],
         gpu_stalls: [],
         long_tasks: [],
+        layout_shifts: [],
+        gc_pauses: [],
       },
+      cls: calculateCLS(state.layoutShifts),
+      segments: segments.length > 0 ? segments : undefined,
       suggestions: [],
-      metadata: traceData.metadata,
+      metadata,
     };
   }
 
   /**
-   * Calculate frame metrics from trace data
+   * Totals of the intervals between consecutive frame events
    */
-  private calculateFrameMetrics(
-    traceData: TraceData,
-    fpsTarget: number,
-  ): TraceSummary['frames'] {
-    const frameBudgetMs = 1000 / fpsTarget;
-    const frameEvents = traceData.traceEvents.filter(
-      (e) => e.name === 'BeginFrame' || e.name === 'DrawFrame',
-    );
-
-    // Calculate frame timings
-    const frameTimes: number[] = [];
-    for (let i = 1; i < frameEvents.length; i++) {
-      const currentEvent = frameEvents[i];
-      const prevEvent = frameEvents[i - 1];
-      if (currentEvent && prevEvent) {
-        const delta = (currentEvent.ts - prevEvent.ts) / 1000; // Convert to ms
-        frameTimes.push(delta);
+  private sumFrames(events: TraceEvent[], frameBudgetMs: number): FrameSums {
+    const sums: FrameSums = {
+      frameEvents: 0,
+      intervals: 0,
+      totalMs: 0,
+      dropped: 0,
+    };
+    let prevTs: number | undefined;
+
+    for (const event of events) {
+      if (event.name !== 'BeginFrame' && event.name !== 'DrawFrame') continue;
+      sums.frameEvents++;
+      if (prevTs !== undefined) {
+        const delta = (event.ts - prevTs) / 1000; // Convert to ms
+        sums.intervals++;
+        sums.totalMs += delta;
+        if (delta > frameBudgetMs) sums.dropped++;
       }
+      prevTs = event.ts;
     }
 
-    const totalFrames = Math.max(frameTimes.length, 1);
-    const droppedFrames = frameTimes.filter((t) => t > frameBudgetMs).length;
+    return sums;
+  }
+
+  private addFrameSums(a: FrameSums, b: FrameSums): FrameSums {
+    return {
+      frameEvents: a.frameEvents + b.frameEvents,
+      intervals: a.intervals + b.intervals,
+      totalMs: a.totalMs + b.totalMs,
+      dropped: a.dropped + b.dropped,
+    };
+  }
+
+  /**
+   * Frame metrics from frame interval totals
+   */
+  private toFrameMetrics(
+    sums: FrameSums,
+    fpsTarget: number,
+  ): TraceSummary['frames'] {
+    const frameBudgetMs = 1000 / fpsTarget;
     const avgFrameTime =
-      frameTimes.length > 0
-        ? frameTimes.reduce((a, b) => a + b, 0) / frameTimes.length
-        : frameBudgetMs;
+      sums.intervals > 0 ? sums.totalMs / sums.intervals : frameBudgetMs;
     const avgFps = avgFrameTime > 0 ? 1000 / avgFrameTime : fpsTarget;
 
     return {
-      total: totalFrames,
-      dropped: droppedFrames,
+      total: Math.max(sums.intervals, 1),
+      dropped: sums.dropped,
       avg_fps: Math.round(avgFps * 10) / 10,
       frame_budget_ms: frameBudgetMs,
     };
   }
 
   /**
-   * Calculate phase breakdown from trace data
+   * Unrounded phase totals of trace events
    */
-  private calculatePhaseBreakdown(
-    traceData: TraceData,
-  ): TraceSummary['phase_breakdown'] {
-    let styleRecalcMs = 0;
-    let layoutMs = 0;
-    let paintMs = 0;
-    let compositeMs = 0;
-    let gpuMs = 0;
-
-    for (const event of traceData.traceEvents) {
+  private sumPhases(events: TraceEvent[]): PhaseBreakdown {
+    const phases: PhaseBreakdown = {
+      style_recalc_ms: 0,
+      layout_ms: 0,
+      paint_ms: 0,
+      composite_ms: 0,
+      gpu_ms: 0,
+    };
+
+    for (const event of events) {
       const durationMs = (event.dur ?? 0) / 1000;
 
       switch (event.name) {
         case 'UpdateLayoutTree':
         case 'RecalculateStyles':
-          styleRecalcMs += durationMs;
+          phases.style_recalc_ms += durationMs;
           break;
         case 'Layout':
-          layoutMs += durationMs;
+          phases.layout_ms += durationMs;
           break;
         case 'Paint':
         case 'PaintImage':
-          paintMs += durationMs;
+          phases.paint_ms += durationMs;
           break;
         case 'CompositeLayers':
         case 'UpdateLayer':
-          compositeMs += durationMs;
+          phases.composite_ms += durationMs;
           break;
         case 'GPUTask':
         case 'RasterTask':
-          gpuMs += durationMs;
+          phases.gpu_ms += durationMs;
           break;
       }
     }
 
+    return phases;
+  }
+
+  private addPhases(a: PhaseBreakdown, b: PhaseBreakdown): PhaseBreakdown {
     return {
-      style_recalc_ms: Math.round(styleRecalcMs * 100) / 100,
-      layout_ms: Math.round(layoutMs * 100) / 100,
-      paint_ms: Math.round(paintMs * 100) / 100,
-      composite_ms: Math.round(compositeMs * 100) / 100,
-      gpu_ms: Math.round(gpuMs * 100) / 100,
+      style_recalc_ms: a.style_recalc_ms + b.style_recalc_ms,
+      layout_ms: a.layout_ms + b.layout_ms,
+      paint_ms: a.paint_ms + b.paint_ms,
+      composite_ms: a.composite_ms + b.composite_ms,
+      gpu_ms: a.gpu_ms + b.gpu_ms,
+    };
+  }
+
+  private roundPhases(phases: PhaseBreakdown): PhaseBreakdown {
+    return {
+      style_recalc_ms: Math.round(phases.style_recalc_ms * 100) / 100,
+      layout_ms: Math.round(phases.layout_ms * 100) / 100,
+      paint_ms: Math.round(phases.paint_ms * 100) / 100,
+      composite_ms: Math.round(phases.composite_ms * 100) / 100,
+      gpu_ms: Math.round(phases.gpu_ms * 100) / 100,
     };
   }
 
   /**
-   * Write trace to a specific path
+   * Directory the screenshots of a run are written to, and its name
+   * relative to the trace, which is recorded in the trace metadata
    */
-  private async writeTraceToPath(
-    outputPath: string,
-    traceData: TraceData,
-  ): Promise<string> {
-    const fs = await import('fs/promises');
-    await fs.writeFile(outputPath, JSON.stringify(traceData, null, 2), 'utf-8');
-    return outputPath;
+  private getScreenshotsDir(
+    runId: string,
+    outputPath?: string,
+  ): { dir: string; name: string } {
+    const traceDir = outputPath
+      ? path.dirname(outputPath)
+      : path.join(this.storageService.getTracesDir(), runId);
+    const name = outputPath
+      ? `${path.basename(outputPath, path.extname(outputPath))}-screenshots`
+      : 'screenshots';
+    return { dir: path.join(traceDir, name), name };
+  }
+
+  /**
+   * Write sampled screenshots next to the trace
+   */
+  private async writeScreenshots(
+    sampled: ScreenshotSample,
+    dir: string,
+  ): Promise<ScreenshotCaptureResult> {
+    const { screenshots, dropped } = sampled;
+    if (screenshots.length === 0) {
+      return { captured: 0, dropped };
+    }
+
+    await this.storageService.writeScreenshots(dir, screenshots, dropped);
+
+    return { dir, captured: screenshots.length, dropped };
   }
 
   /**
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for ScenarioRunnerService
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScenarioRunnerService } from './scenario-runner.service.js';
+import { CDPConnectionService } from '../cdp/cdp-connection.service.js';
+import { StorageService } from '../services/storage.service.js';
+import type { Scenario } from '../shared/types/index.js';
+
+describe('ScenarioRunnerService', () => {
+  let service: ScenarioRunnerService;
+  let send: jest.Mock;
+
+  /** Values returned by Runtime.evaluate, keyed by a substring of the expression */
+  let evaluateResults: Array<[string, unknown]>;
+
+  beforeEach(async () => {
+    evaluateResults = [];
+    send = jest.fn((method: string, params?: { expression?: string }) => {
+      if (method === 'Runtime.evaluate') {
+        const match = evaluateResults.find(([fragment]) =>
+          params?.expression?.includes(fragment),
+        );
+        return Promise.resolve({ result: { value: match?.[1] } });
+      }
+      return Promise.resolve({});
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScenarioRunnerService,
+        {
+          provide: CDPConnectionService,
+          useValue: {
+            getClient: () => ({ send, on: jest.fn(), off: jest.fn() }),
+          },
+        },
+        { provide: StorageService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ScenarioRunnerService>(ScenarioRunnerService);
+  });
+
+  it('should separate assertion failures from execution errors', async () => {
+    evaluateResults = [
+      ['#app', true],
+      ['Welcome', false],
+    ];
+
+    const scenario: Scenario = {
+      name: 'checks',
+      description: 'test',
+      steps: [
+        { type: 'assert', params: { assertion: 'visible', selector: '#app' } },
+        {
+          type: 'assert',
+          params: {
+            assertion: 'text',
+            text: 'Welcome',
+            message: 'greeting missing',
+          },
+        },
+        {
+          type: 'waitForSelector',
+          params: { selector: '.never', timeout: 0 },
+        },
+      ],
+    };
+
+    const result = await service.runScenario(scenario);
+
+    expect(result.success).toBe(false);
+    expect(result.stepsExecuted).toBe(3);
+    expect(result.assertionFailures).toEqual([
+      'Step 2 (assert): greeting missing',
+    ]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain(
+      'Step 3 (waitForSelector): Timed out after 0ms waiting for .never',
+    );
+  });
+
+  it('should run setup steps separately from the scenario steps', async () => {
+    evaluateResults = [['window.ready', 1]];
+
+    const scenario: Scenario = {
+      name: 'setup',
+      description: 'test',
+      setup: [
+        {
+          type: 'waitForFunction',
+          params: { expression: 'window.ready', timeout: 0 },
+        },
+      ],
+      steps: [{ type: 'wait', params: { duration: 0 } }],
+    };
+
+    const setup = await service.runSetup(scenario);
+    expect(setup).toMatchObject({
+      success: true,
+      totalSteps: 1,
+      errors: [],
+      assertionFailures: [],
+    });
+    expect((await service.runScenario(scenario)).totalSteps).toBe(1);
+  });
+});
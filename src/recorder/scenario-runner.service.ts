@@ -14,7 +14,23 @@ import type {
   WaitParams,
   AnimateParams,
   CustomParams,
+  TypeParams,
+  HoverParams,
+  DragParams,
+  KeyParams,
+  NavigateParams,
+  PointerTarget,
+  WaitForSelectorParams,
+  WaitForNetworkIdleParams,
+  WaitForFunctionParams,
+  AssertParams,
 } from '../shared/types/index.js';
+import {
+  getKeyDefinition,
+  parseKeyCombo,
+  KEY_MODIFIERS,
+  type KeyDefinition,
+} from './key-definitions.js';
 
 /**
  * Speed multipliers for scroll operations
@@ -25,6 +41,38 @@ const SCROLL_SPEEDS: Record<string, number> = {
   fast: 200,
 };
 
+/**
+ * Default number of intermediate mouse moves between two pointer path points
+ */
+const DEFAULT_POINTER_STEPS = 10;
+
+/**
+ * Default timeout for conditional waits
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+
+/**
+ * Default polling interval for conditional waits
+ */
+const DEFAULT_POLLING_MS = 100;
+
+/**
+ * Modifiers that turn a key press into a shortcut instead of text input
+ */
+const COMMAND_MODIFIERS =
+  KEY_MODIFIERS.Control! | KEY_MODIFIERS.Meta! | KEY_MODIFIERS.Alt!;
+
+/**
+ * Raised by assert steps so failures are reported separately from
+ * execution errors
+ */
+class AssertionFailedError extends Error {}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
 @Injectable()
 export class ScenarioRunnerService {
   constructor(
@@ -43,7 +91,12 @@ export class ScenarioRunnerService {
       const content = await fs.readFile(scenarioPath, 'utf-8');
       const scenario = yaml.load(content) as Scenario;
 
-      if (!scenario || !scenario.name || !Array.isArray(scenario.steps)) {
+      if (
+        !scenario ||
+        !scenario.name ||
+        !Array.isArray(scenario.steps) ||
+        (scenario.setup !== undefined && !Array.isArray(scenario.setup))
+      ) {
         throw new Error('Invalid scenario format');
       }
 
@@ -56,25 +109,48 @@ export class ScenarioRunnerService {
     }
   }
 
+  /**
+   * Run a scenario's setup steps against the current page
+   */
+  async runSetup(scenario: Scenario): Promise<ScenarioResult> {
+    return this.runSteps(scenario.name, scenario.setup ?? []);
+  }
+
   /**
    * Run a scenario against the current page
    */
   async runScenario(scenario: Scenario): Promise<ScenarioResult> {
+    return this.runSteps(scenario.name, scenario.steps);
+  }
+
+  /**
+   * Run a list of steps, collecting execution errors and assertion
+   * failures separately
+   */
+  private async runSteps(
+    scenarioName: string,
+    steps: ScenarioStep[],
+  ): Promise<ScenarioResult> {
     const startTime = Date.now();
     const errors: string[] = [];
+    const assertionFailures: string[] = [];
     let stepsExecuted = 0;
 
     try {
-      for (const step of scenario.steps) {
+      for (const step of steps) {
         try {
           await this.executeStep(step);
           stepsExecuted++;
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : String(error);
-          errors.push(
-            `Step ${stepsExecuted + 1} (${step.type}): ${errorMessage}`,
-          );
+          const entry = `Step ${stepsExecuted + 1} (${step.type}): ${errorMessage}`;
+
+          if (error instanceof AssertionFailedError) {
+            assertionFailures.push(entry);
+          } else {
+            errors.push(entry);
+          }
 
           // Continue with remaining steps unless it's a critical error
           if (this.isCriticalError(error)) {
@@ -85,16 +161,17 @@ export class ScenarioRunnerService {
       }
 
       return {
-        scenario: scenario.name,
-        success: errors.length === 0,
+        scenario: scenarioName,
+        success: errors.length === 0 && assertionFailures.length === 0,
         stepsExecuted,
-        totalSteps: scenario.steps.length,
+        totalSteps: steps.length,
         duration: Date.now() - startTime,
         errors,
+        assertionFailures,
       };
     } catch (error) {
       throw new HarnessError(
-        scenario.name,
+        scenarioName,
         error instanceof Error ? error : undefined,
       );
     }
@@ -125,6 +202,35 @@ export class ScenarioRunnerService {
       case 'custom':
         await this.executeCustom(step.params as CustomParams);
         break;
+      case 'type':
+        await this.executeType(step.params as TypeParams);
+        break;
+      case 'hover':
+        await this.executeHover(step.params as HoverParams, step.duration);
+        break;
+      case 'drag':
+        await this.executeDrag(step.params as DragParams, step.duration);
+        break;
+      case 'key':
+        await this.executeKey(step.params as KeyParams);
+        break;
+      case 'navigate':
+        await this.executeNavigate(step.params as NavigateParams);
+        break;
+      case 'waitForSelector':
+        await this.executeWaitForSelector(step.params as WaitForSelectorParams);
+        break;
+      case 'waitForNetworkIdle':
+        await this.executeWaitForNetworkIdle(
+          step.params as WaitForNetworkIdleParams,
+        );
+        break;
+      case 'waitForFunction':
+        await this.executeWaitForFunction(step.params as WaitForFunctionParams);
+        break;
+      case 'assert':
+        await this.executeAssert(step.params as AssertParams);
+        break;
       default: {
         const unknownType: string = step.type as string;
         throw new Error(`Unknown step type: ${unknownType}`);
@@ -344,6 +450,585 @@ export class ScenarioRunnerService {
     });
   }
 
+  /**
+   * Execute a type step: focus the element with a real click, then type
+   * each character as a key press
+   */
+  private async executeType(params: TypeParams): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const point = await this.resolvePoint(params.selector);
+    await this.dispatchClick(point);
+
+    if (params.clear) {
+      await client.send('Runtime.evaluate', {
+        expression: `
+          (function() {
+            const el = document.querySelector(${JSON.stringify(params.selector)});
+            if ('value' in el) el.value = '';
+            else el.textContent = '';
+            el.dispatchEvent(new Event('input', { bubbles: true }));
+          })()
+        `,
+      });
+    }
+
+    const keystrokeDelay = params.delay ?? 50;
+    for (const char of params.text) {
+      await this.dispatchKeyPress(getKeyDefinition(char), 0);
+      await this.delay(keystrokeDelay);
+    }
+  }
+
+  /**
+   * Execute a hover step: move the pointer along a path
+   */
+  private async executeHover(
+    params: HoverParams,
+    duration?: number,
+  ): Promise<void> {
+    if (!params.path || params.path.length === 0) {
+      throw new Error('Hover step requires at least one path point');
+    }
+
+    const points = await this.resolvePath(params.path);
+    await this.movePointer(
+      points,
+      params.steps ?? DEFAULT_POINTER_STEPS,
+      duration,
+      false,
+    );
+  }
+
+  /**
+   * Execute a drag step: press at `from`, move through `via` and release at `to`
+   */
+  private async executeDrag(
+    params: DragParams,
+    duration?: number,
+  ): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const points = await this.resolvePath([
+      params.from,
+      ...(params.via ?? []),
+      params.to,
+    ]);
+    const start = points[0]!;
+    const end = points[points.length - 1]!;
+
+    await client.send('Input.dispatchMouseEvent', {
+      type: 'mouseMoved',
+      x: start.x,
+      y: start.y,
+    });
+    await client.send('Input.dispatchMouseEvent', {
+      type: 'mousePressed',
+      x: start.x,
+      y: start.y,
+      button: 'left',
+      buttons: 1,
+      clickCount: 1,
+    });
+
+    await this.movePointer(
+      points,
+      params.steps ?? DEFAULT_POINTER_STEPS,
+      duration,
+      true,
+    );
+
+    await client.send('Input.dispatchMouseEvent', {
+      type: 'mouseReleased',
+      x: end.x,
+      y: end.y,
+      button: 'left',
+      buttons: 0,
+      clickCount: 1,
+    });
+  }
+
+  /**
+   * Execute a key step: press a key or shortcut one or more times
+   */
+  private async executeKey(params: KeyParams): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const { modifiers, modifierFlags, key } = parseKeyCombo(params.key);
+    const repeat = params.repeat ?? 1;
+    const pressDelay = params.delay ?? 100;
+
+    for (let i = 0; i < repeat; i++) {
+      // Hold modifiers in order, press the key, then release in reverse
+      let held = 0;
+      for (const modifier of modifiers) {
+        held |= KEY_MODIFIERS[modifier.key]!;
+        await this.dispatchKeyEvent('rawKeyDown', modifier, held);
+      }
+
+      await this.dispatchKeyPress(key, modifierFlags);
+
+      for (const modifier of [...modifiers].reverse()) {
+        held &= ~KEY_MODIFIERS[modifier.key]!;
+        await this.dispatchKeyEvent('keyUp', modifier, held);
+      }
+
+      if (i < repeat - 1) {
+        await this.delay(pressDelay);
+      }
+    }
+  }
+
+  /**
+   * Execute a navigate step and wait for the page to load
+   */
+  private async executeNavigate(params: NavigateParams): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const event =
+      params.waitUntil === 'domcontentloaded'
+        ? 'Page.domContentEventFired'
+        : 'Page.loadEventFired';
+    const timeout = params.timeout ?? 30000;
+
+    // Subscribe before navigating so a fast load is not missed
+    let handler: () => void = () => undefined;
+    let timer: NodeJS.Timeout | undefined;
+    const loaded = new Promise<boolean>((resolve) => {
+      handler = () => resolve(true);
+      client.on(event, handler);
+      timer = setTimeout(() => resolve(false), timeout);
+    });
+
+    try {
+      const url = await this.resolveUrl(params.url);
+      const result = (await client.send('Page.navigate', {
+        url,
+      })) as { errorText?: string } | undefined;
+
+      if (result?.errorText) {
+        throw new Error(`Navigation to ${url} failed: ${result.errorText}`);
+      }
+
+      if (!(await loaded)) {
+        throw new Error(`Navigation to ${url} timed out after ${timeout}ms`);
+      }
+    } finally {
+      client.off(event, handler);
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Execute a waitForSelector step: poll until the element reaches the
+   * requested state
+   */
+  private async executeWaitForSelector(
+    params: WaitForSelectorParams,
+  ): Promise<void> {
+    const state = params.state ?? 'visible';
+    const timeout = params.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const selector = JSON.stringify(params.selector);
+
+    const expression =
+      state === 'attached'
+        ? `document.querySelector(${selector}) !== null`
+        : state === 'visible'
+          ? this.visibleExpression(params.selector)
+          : `!(${this.visibleExpression(params.selector)})`;
+
+    const reached = await this.poll(
+      () => this.evaluate<boolean>(expression),
+      timeout,
+      DEFAULT_POLLING_MS,
+    );
+
+    if (!reached) {
+      throw new Error(
+        `Timed out after ${timeout}ms waiting for ${params.selector} to be ${state}`,
+      );
+    }
+  }
+
+  /**
+   * Execute a waitForNetworkIdle step: wait until at most `maxInflight`
+   * requests have been in flight for `idleTime`
+   */
+  private async executeWaitForNetworkIdle(
+    params: WaitForNetworkIdleParams,
+  ): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const idleTime = params.idleTime ?? 500;
+    const maxInflight = params.maxInflight ?? 0;
+    const timeout = params.timeout ?? 30000;
+
+    const inflight = new Set<string>();
+    const onRequest = (event: unknown) => {
+      inflight.add((event as { requestId: string }).requestId);
+    };
+    const onDone = (event: unknown) => {
+      inflight.delete((event as { requestId: string }).requestId);
+    };
+
+    client.on('Network.requestWillBeSent', onRequest);
+    client.on('Network.loadingFinished', onDone);
+    client.on('Network.loadingFailed', onDone);
+
+    try {
+      await client.send('Network.enable', {});
+
+      // Requests already in flight before this step are not tracked
+      const start = Date.now();
+      let idleSince = Date.now();
+
+      while (Date.now() - start < timeout) {
+        if (inflight.size > maxInflight) {
+          idleSince = Date.now();
+        } else if (Date.now() - idleSince >= idleTime) {
+          return;
+        }
+        await this.delay(Math.min(DEFAULT_POLLING_MS, idleTime));
+      }
+
+      throw new Error(
+        `Timed out after ${timeout}ms waiting for network idle (${inflight.size} request(s) in flight)`,
+      );
+    } finally {
+      client.off('Network.requestWillBeSent', onRequest);
+      client.off('Network.loadingFinished', onDone);
+      client.off('Network.loadingFailed', onDone);
+    }
+  }
+
+  /**
+   * Execute a waitForFunction step: poll an expression until it is truthy
+   */
+  private async executeWaitForFunction(
+    params: WaitForFunctionParams,
+  ): Promise<void> {
+    const timeout = params.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+
+    const reached = await this.poll(
+      async () => !!(await this.evaluate<unknown>(params.expression)),
+      timeout,
+      params.polling ?? DEFAULT_POLLING_MS,
+    );
+
+    if (!reached) {
+      throw new Error(
+        `Timed out after ${timeout}ms waiting for: ${params.expression}`,
+      );
+    }
+  }
+
+  /**
+   * Execute an assert step
+   * @throws AssertionFailedError when the condition does not hold
+   */
+  private async executeAssert(params: AssertParams): Promise<void> {
+    let passed: boolean;
+    let description: string;
+
+    switch (params.assertion) {
+      case 'visible': {
+        if (!params.selector) {
+          throw new Error('visible assertion requires a selector');
+        }
+        passed = await this.evaluate<boolean>(
+          this.visibleExpression(params.selector),
+        );
+        description = `${params.selector} is not visible`;
+        break;
+      }
+      case 'text': {
+        if (params.text === undefined) {
+          throw new Error('text assertion requires text');
+        }
+        const scope = params.selector
+          ? `document.querySelector(${JSON.stringify(params.selector)})`
+          : 'document.body';
+        passed = await this.evaluate<boolean>(
+          `(function() {
+            const el = ${scope};
+            return !!el && (el.innerText ?? el.textContent ?? '').includes(${JSON.stringify(params.text)});
+          })()`,
+        );
+        description = `"${params.text}" not found in ${params.selector ?? 'page'}`;
+        break;
+      }
+      case 'predicate': {
+        if (!params.expression) {
+          throw new Error('predicate assertion requires an expression');
+        }
+        passed = !!(await this.evaluate<unknown>(params.expression));
+        description = `predicate is falsy: ${params.expression}`;
+        break;
+      }
+      default: {
+        const unknownAssertion: string = params.assertion as string;
+        throw new Error(`Unknown assertion: ${unknownAssertion}`);
+      }
+    }
+
+    if (!passed) {
+      throw new AssertionFailedError(params.message ?? description);
+    }
+  }
+
+  /**
+   * Build an expression that checks whether a selector matches a visible
+   * element
+   */
+  private visibleExpression(selector: string): string {
+    return `(function() {
+      const el = document.querySelector(${JSON.stringify(selector)});
+      if (!el) return false;
+      const style = getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return style.display !== 'none' &&
+        style.visibility !== 'hidden' &&
+        rect.width > 0 &&
+        rect.height > 0;
+    })()`;
+  }
+
+  /**
+   * Evaluate an expression in the page and return its value
+   * @throws Error if the expression throws
+   */
+  private async evaluate<T>(expression: string): Promise<T> {
+    const client = this.cdpConnection.getClient();
+    if (!client) {
+      throw new Error('CDP client not connected');
+    }
+
+    const response = (await client.send('Runtime.evaluate', {
+      expression,
+      awaitPromise: true,
+      returnByValue: true,
+    })) as {
+      result?: { value?: T };
+      exceptionDetails?: { text: string; exception?: { description?: string } };
+    };
+
+    if (response.exceptionDetails) {
+      const details = response.exceptionDetails;
+      throw new Error(
+        `Evaluation failed: ${details.exception?.description ?? details.text}`,
+      );
+    }
+
+    return response.result?.value as T;
+  }
+
+  /**
+   * Poll a condition until it is true or the timeout elapses
+   * @returns Whether the condition became true
+   */
+  private async poll(
+    condition: () => Promise<boolean>,
+    timeout: number,
+    interval: number,
+  ): Promise<boolean> {
+    const start = Date.now();
+
+    for (;;) {
+      if (await condition()) {
+        return true;
+      }
+      if (Date.now() - start >= timeout) {
+        return false;
+      }
+      await this.delay(interval);
+    }
+  }
+
+  /**
+   * Resolve a URL relative to the current page, so scenarios can navigate
+   * within whatever site they are run against
+   */
+  private async resolveUrl(url: string): Promise<string> {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+      return url;
+    }
+
+    const client = this.cdpConnection.getClient();
+    if (!client) return url;
+
+    const result = (await client.send('Runtime.evaluate', {
+      expression: `new URL(${JSON.stringify(url)}, location.href).href`,
+      returnByValue: true,
+    })) as { result: { value: string } };
+
+    return result.result?.value ?? url;
+  }
+
+  /**
+   * Resolve a pointer target to viewport coordinates, scrolling selector
+   * targets into view first
+   */
+  private async resolvePoint(target: PointerTarget): Promise<Point> {
+    if (typeof target !== 'string') {
+      return target;
+    }
+
+    const client = this.cdpConnection.getClient();
+    if (!client) {
+      throw new Error('CDP client not connected');
+    }
+
+    const result = (await client.send('Runtime.evaluate', {
+      expression: `
+        (function() {
+          const el = document.querySelector(${JSON.stringify(target)});
+          if (!el) return null;
+          el.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+          const rect = el.getBoundingClientRect();
+          return {
+            x: rect.left + rect.width / 2,
+            y: rect.top + rect.height / 2
+          };
+        })()
+      `,
+      returnByValue: true,
+    })) as { result: { value: Point | null } };
+
+    const point = result.result?.value;
+    if (!point) {
+      throw new Error(`No element matches selector: ${target}`);
+    }
+    return point;
+  }
+
+  /**
+   * Resolve every point of a pointer path
+   */
+  private async resolvePath(path: PointerTarget[]): Promise<Point[]> {
+    const points: Point[] = [];
+    for (const target of path) {
+      points.push(await this.resolvePoint(target));
+    }
+    return points;
+  }
+
+  /**
+   * Move the pointer through a list of points, spreading the intermediate
+   * moves evenly over the step duration
+   */
+  private async movePointer(
+    points: Point[],
+    steps: number,
+    duration: number | undefined,
+    pressed: boolean,
+  ): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    const button = pressed
+      ? { button: 'left', buttons: 1 }
+      : { button: 'none', buttons: 0 };
+    const segments = points.length - 1;
+    const moveSteps = Math.max(1, Math.round(steps));
+
+    await client.send('Input.dispatchMouseEvent', {
+      type: 'mouseMoved',
+      x: points[0]!.x,
+      y: points[0]!.y,
+      ...button,
+    });
+
+    if (segments === 0) {
+      if (duration) {
+        await this.delay(duration);
+      }
+      return;
+    }
+
+    const moveDelay = (duration ?? 1000) / (segments * moveSteps);
+
+    for (let i = 0; i < segments; i++) {
+      const from = points[i]!;
+      const to = points[i + 1]!;
+
+      for (let step = 1; step <= moveSteps; step++) {
+        const t = step / moveSteps;
+        await client.send('Input.dispatchMouseEvent', {
+          type: 'mouseMoved',
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          ...button,
+        });
+        await this.delay(moveDelay);
+      }
+    }
+  }
+
+  /**
+   * Dispatch a left click at a point
+   */
+  private async dispatchClick(point: Point): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    for (const type of ['mousePressed', 'mouseReleased']) {
+      await client.send('Input.dispatchMouseEvent', {
+        type,
+        x: point.x,
+        y: point.y,
+        button: 'left',
+        clickCount: 1,
+      });
+    }
+  }
+
+  /**
+   * Press and release a key. Keys that produce text insert it unless a
+   * command modifier (Control, Meta, Alt) is held.
+   */
+  private async dispatchKeyPress(
+    key: KeyDefinition,
+    modifiers: number,
+  ): Promise<void> {
+    const insertsText = !!key.text && (modifiers & COMMAND_MODIFIERS) === 0;
+    await this.dispatchKeyEvent(
+      insertsText ? 'keyDown' : 'rawKeyDown',
+      key,
+      modifiers,
+      insertsText,
+    );
+    await this.dispatchKeyEvent('keyUp', key, modifiers);
+  }
+
+  /**
+   * Dispatch a single CDP key event
+   */
+  private async dispatchKeyEvent(
+    type: 'keyDown' | 'rawKeyDown' | 'keyUp',
+    key: KeyDefinition,
+    modifiers: number,
+    withText = false,
+  ): Promise<void> {
+    const client = this.cdpConnection.getClient();
+    if (!client) return;
+
+    await client.send('Input.dispatchKeyEvent', {
+      type,
+      modifiers,
+      key: key.key,
+      code: key.code,
+      windowsVirtualKeyCode: key.keyCode,
+      ...(withText && key.text
+        ? { text: key.text, unmodifiedText: key.text }
+        : {}),
+    });
+  }
+
   /**
    * Check if an error is critical and should stop execution
    */
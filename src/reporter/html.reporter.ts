@@ -13,8 +13,19 @@ import type {
   GPUStallDetection,
   LongTaskDetection,
   HeavyPaintDetection,
+  InputLatencyDetection,
+  LayoutShiftDetection,
+  GCJankDetection,
+  FlameGraphNode,
 } from '../shared/types/index.js';
+import {
+  walkFlameGraph,
+  findScreenshotAt,
+  type CapturedScreenshot,
+} from '../shared/utils/index.js';
 import type { Suggestion } from '../shared/types/suggestion.types.js';
+import type { FrameTiming } from '../adapters/models/index.js';
+import type { FrameTimeline } from '../analyzer/interfaces/index.js';
 import type { AnalysisReport, HTMLReportOptions } from './interfaces/index.js';
 
 /**
@@ -37,6 +48,77 @@ const SEVERITY_BG_COLORS: Record<Severity, string> = {
   info: '#f0f9ff',
 };
 
+/**
+ * Flame graph row height in pixels
+ */
+const FLAME_ROW_HEIGHT_PX = 18;
+
+/**
+ * Frames narrower than this percentage of the graph are not drawn
+ */
+const MIN_FLAME_CELL_PCT = 0.2;
+
+/**
+ * Frame strip height in pixels
+ */
+const FRAME_STRIP_HEIGHT_PX = 64;
+
+/**
+ * Frame bars reach full height at this multiple of the frame budget
+ */
+const FRAME_STRIP_MAX_BUDGETS = 3;
+
+/**
+ * DOM signals listed per frame in the drill-down, the rest are counted
+ */
+const MAX_FRAME_SIGNALS = 20;
+
+/**
+ * Screenshots shown in a detection's time range, at most
+ */
+const MAX_DETECTION_SCREENSHOTS = 6;
+
+/**
+ * Screenshots for the filmstrips, with the timestamp captions count from
+ */
+interface ScreenshotContext {
+  screenshots: CapturedScreenshot[];
+  originTs: number;
+}
+
+/**
+ * Per-frame drill-down data embedded in the report for the frame strip
+ */
+interface FrameDrillDown {
+  frames: {
+    /** Start in ms relative to the first frame */
+    start: number;
+    duration: number;
+    dropped: boolean;
+    /** Style, layout, paint, composite and GPU time in ms */
+    phases: number[];
+    tasks?: number[];
+    signals?: {
+      type: string;
+      duration?: number;
+      nodes?: number;
+      source?: string;
+    }[];
+    moreSignals?: number;
+    detections?: number[];
+    /** Index of the screenshot shown at the end of the frame */
+    screenshot?: number;
+  }[];
+  tasks: { name: string; location?: string; duration: number }[];
+  detections: {
+    /** Position in the bottleneck list, used for the anchor */
+    index: number;
+    label: string;
+    severity: Severity;
+    description: string;
+  }[];
+}
+
 @Injectable()
 export class HTMLReporter {
   private readonly version = '1.0.0';
@@ -52,6 +134,15 @@ export class HTMLReporter {
     } = options;
 
     const { summary, detections, suggestions } = report;
+    const screenshotContext: ScreenshotContext | undefined =
+      report.screenshots && report.screenshots.length > 0
+        ? {
+            screenshots: report.screenshots,
+            originTs:
+              report.timeline?.frames[0]?.startTime ??
+              report.screenshots[0]!.ts,
+          }
+        : undefined;
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -66,7 +157,11 @@ export class HTMLReporter {
     ${this.generateHeader(summary, title)}
     ${this.generateFrameMetrics(summary)}
     ${this.generatePhaseBreakdown(summary)}
-    ${this.generateDetections(detections, suggestions, interactive)}
+    ${this.generateFrameTimeline(report, interactive)}
+    ${this.generateFilmstrip(screenshotContext)}
+    ${this.generateSegments(summary)}
+    ${this.generateDetections(detections, suggestions, interactive, screenshotContext)}
+    ${this.generateThirdPartyImpact(summary)}
     ${this.generateSuggestions(suggestions)}
     ${this.generateSummary(detections, suggestions)}
     ${this.generateFooter()}
@@ -210,6 +305,86 @@ body {
   min-width: 40px;
 }
 
+.frame-strip {
+  display: flex;
+  align-items: flex-end;
+  gap: 1px;
+  height: ${FRAME_STRIP_HEIGHT_PX}px;
+  overflow-x: auto;
+  overflow-y: hidden;
+  border-bottom: 1px solid var(--gray-300);
+  margin-bottom: 0.5rem;
+}
+
+.frame-bar {
+  flex: 0 0 5px;
+  border-radius: 1px 1px 0 0;
+  cursor: pointer;
+}
+
+.frame-bar.good { background: var(--success); }
+.frame-bar.warning { background: var(--warning); }
+.frame-bar.bad { background: var(--danger); }
+.frame-bar:hover { opacity: 0.7; }
+.frame-bar.selected { background: var(--gray-900); }
+
+.frame-strip-legend {
+  font-size: 0.85rem;
+  color: var(--gray-600);
+}
+
+.frame-detail {
+  display: none;
+  margin-top: 1rem;
+  padding: 1rem;
+  background: var(--gray-50);
+  border: 1px solid var(--gray-200);
+  border-radius: 6px;
+}
+
+.frame-detail.open {
+  display: block;
+}
+
+.frame-detail-screenshot {
+  float: right;
+  max-width: 40%;
+  max-height: 240px;
+  margin-left: 1rem;
+  border: 1px solid var(--gray-200);
+  border-radius: 4px;
+}
+
+.filmstrip {
+  display: flex;
+  gap: 0.5rem;
+  overflow-x: auto;
+  padding-bottom: 0.5rem;
+}
+
+.detection-body .filmstrip {
+  margin-bottom: 1rem;
+}
+
+.filmstrip-frame {
+  flex: 0 0 auto;
+  text-align: center;
+  font-size: 0.75rem;
+  color: var(--gray-600);
+}
+
+.filmstrip-frame img {
+  display: block;
+  height: 120px;
+  border: 1px solid var(--gray-200);
+  border-radius: 4px;
+}
+
+.frame-detail h3 {
+  font-size: 1rem;
+  margin-bottom: 0.5rem;
+}
+
 .phase-legend {
   display: flex;
   flex-wrap: wrap;
@@ -229,6 +404,19 @@ body {
   border-radius: 3px;
 }
 
+.segments-table {
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.9rem;
+}
+
+.segments-table th,
+.segments-table td {
+  padding: 0.5rem;
+  text-align: left;
+  border-bottom: 1px solid var(--gray-200);
+}
+
 .detection-list {
   display: flex;
   flex-direction: column;
@@ -300,6 +488,34 @@ body {
   font-size: 0.85rem;
 }
 
+.flame-graph {
+  position: relative;
+  overflow: hidden;
+  margin-bottom: 0.75rem;
+  border: 1px solid var(--gray-200);
+  border-radius: 4px;
+  background: var(--gray-50);
+}
+
+.flame-cell {
+  position: absolute;
+  height: ${FLAME_ROW_HEIGHT_PX - 1}px;
+  line-height: ${FLAME_ROW_HEIGHT_PX - 1}px;
+  padding: 0 4px;
+  box-sizing: border-box;
+  border-right: 1px solid white;
+  font-family: 'Monaco', 'Menlo', monospace;
+  font-size: 0.7rem;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  cursor: pointer;
+}
+
+.flame-cell:hover {
+  filter: brightness(0.9);
+}
+
 .suggestion-card {
   border-left: 4px solid var(--success);
   background: #f0fdf4;
@@ -388,6 +604,89 @@ document.addEventListener('DOMContentLoaded', function() {
       icon.classList.toggle('open');
     });
   });
+
+  // Zoom flame graphs into the clicked frame, click the root to reset
+  document.querySelectorAll('.flame-graph').forEach(function(graph) {
+    graph.addEventListener('click', function(event) {
+      const target = event.target.closest('.flame-cell');
+      if (!target) return;
+      const zx = parseFloat(target.dataset.x);
+      const zw = parseFloat(target.dataset.w);
+      const zd = parseInt(target.dataset.depth, 10);
+      graph.querySelectorAll('.flame-cell').forEach(function(cell) {
+        const x = parseFloat(cell.dataset.x);
+        const w = parseFloat(cell.dataset.w);
+        const d = parseInt(cell.dataset.depth, 10);
+        const inside = x >= zx - 0.001 && x + w <= zx + zw + 0.001;
+        const ancestor = d < zd && x <= zx + 0.001 && x + w >= zx + zw - 0.001;
+        cell.style.display = inside || ancestor ? '' : 'none';
+        cell.style.left = ancestor ? '0%' : ((x - zx) / zw) * 100 + '%';
+        cell.style.width = ancestor ? '100%' : (w / zw) * 100 + '%';
+      });
+    });
+  });
+
+  // Show the phases, long tasks, DOM signals and detections of a clicked frame
+  const frameData = document.getElementById('frame-data');
+  if (frameData) {
+    const timeline = JSON.parse(frameData.textContent);
+    const panel = document.getElementById('frame-detail');
+    const escape = function(text) {
+      const div = document.createElement('div');
+      div.textContent = String(text);
+      return div.innerHTML;
+    };
+    const ms = function(value) { return value.toFixed(2) + 'ms'; };
+    const row = function(label, html) {
+      return '<div class="detection-detail"><span class="detection-detail-label">' + label + ':</span> ' + html + '</div>';
+    };
+    const phaseNames = ['Style', 'Layout', 'Paint', 'Composite', 'GPU'];
+
+    document.querySelector('.frame-strip').addEventListener('click', function(event) {
+      const bar = event.target.closest('.frame-bar');
+      if (!bar) return;
+      document.querySelectorAll('.frame-bar.selected').forEach(function(b) { b.classList.remove('selected'); });
+      bar.classList.add('selected');
+
+      const index = parseInt(bar.dataset.frame, 10);
+      const frame = timeline.frames[index];
+      const tasks = (frame.tasks || []).map(function(t) {
+        const task = timeline.tasks[t];
+        return '<code>' + escape(task.name) + '</code>' + (task.location ? ' ' + escape(task.location) : '') + ' (' + ms(task.duration) + ')';
+      });
+      const signals = (frame.signals || []).map(function(signal) {
+        return escape(signal.type.replace(/_/g, ' ')) +
+          (signal.duration !== undefined ? ' ' + ms(signal.duration) : '') +
+          (signal.nodes !== undefined ? ', ' + signal.nodes + ' nodes' : '') +
+          (signal.source ? ' at <code>' + escape(signal.source) + '</code>' : '');
+      });
+      if (frame.moreSignals) signals.push('and ' + frame.moreSignals + ' more');
+      const detections = (frame.detections || []).map(function(d) {
+        const detection = timeline.detections[d];
+        return '<a href="#detection-' + detection.index + '" class="frame-detection-link">' + detection.index + '. ' + escape(detection.label) + '</a> (' + escape(detection.severity) + ') ' + escape(detection.description);
+      });
+
+      const screenshot = frame.screenshot !== undefined && document.getElementById('screenshot-' + frame.screenshot);
+      panel.innerHTML =
+        (screenshot ? '<img class="frame-detail-screenshot" src="' + screenshot.src + '" alt="Page at the end of the frame">' : '') +
+        '<h3>Frame ' + (index + 1) + ' at ' + ms(frame.start) + ': ' + ms(frame.duration) + (frame.dropped ? ' (dropped)' : '') + '</h3>' +
+        row('Phases', phaseNames.map(function(name, i) { return name + ' ' + ms(frame.phases[i]); }).join(', ')) +
+        row('Long Tasks', tasks.join('<br>') || 'None') +
+        row('DOM Signals', signals.join('<br>') || 'None') +
+        row('Detections', detections.join('<br>') || 'None');
+      panel.classList.add('open');
+    });
+
+    // Expand the detection a frame links to
+    panel.addEventListener('click', function(event) {
+      const link = event.target.closest('.frame-detection-link');
+      if (!link) return;
+      const item = document.getElementById(link.getAttribute('href').slice(1));
+      if (!item) return;
+      item.querySelector('.detection-body').classList.add('open');
+      item.querySelector('.expand-icon').classList.add('open');
+    });
+  }
 });
 </script>`;
   }
@@ -441,6 +740,20 @@ document.addEventListener('DOMContentLoaded', function() {
           : 'bad';
     const droppedClass =
       droppedPct <= 5 ? 'good' : droppedPct <= 15 ? 'warning' : 'bad';
+    const clsClass =
+      summary.cls === undefined || summary.cls <= 0.1
+        ? 'good'
+        : summary.cls <= 0.25
+          ? 'warning'
+          : 'bad';
+    const clsCard =
+      summary.cls !== undefined
+        ? `
+        <div class="metric-card">
+          <div class="metric-value ${clsClass}">${summary.cls.toFixed(3)}</div>
+          <div class="metric-label">Layout Shift (CLS)</div>
+        </div>`
+        : '';
 
     return `
     <div class="card">
@@ -465,7 +778,7 @@ document.addEventListener('DOMContentLoaded', function() {
         <div class="metric-card">
           <div class="metric-value">${frames.frame_budget_ms.toFixed(2)}ms</div>
           <div class="metric-label">Frame Budget</div>
-        </div>
+        </div>${clsCard}
       </div>
     </div>`;
   }
@@ -513,6 +826,346 @@ document.addEventListener('DOMContentLoaded', function() {
     </div>`;
   }
 
+  /**
+   * Generate the frame strip: one bar per frame, colored by frame budget.
+   * In interactive reports clicking a bar shows what happened in the frame.
+   */
+  private generateFrameTimeline(
+    report: AnalysisReport,
+    interactive: boolean,
+  ): string {
+    const { timeline } = report;
+    if (!timeline || timeline.frames.length === 0) {
+      return '';
+    }
+
+    const budgetMs = report.summary.frames.frame_budget_ms;
+    const firstStart = timeline.frames[0]!.startTime;
+    let overBudget = 0;
+
+    const bars = timeline.frames
+      .map((frame, i) => {
+        const ratio = frame.durationMs / budgetMs;
+        const level = ratio <= 1 ? 'good' : ratio <= 2 ? 'warning' : 'bad';
+        if (ratio > 1) overBudget++;
+        const height = Math.max(
+          Math.min(ratio / FRAME_STRIP_MAX_BUDGETS, 1) * 100,
+          4,
+        );
+        const startMs = (frame.startTime - firstStart) / 1000;
+        return `<div class="frame-bar ${level}" style="height: ${height.toFixed(1)}%;" data-frame="${i}" title="Frame ${i + 1} at ${startMs.toFixed(1)}ms: ${frame.durationMs.toFixed(2)}ms"></div>`;
+      })
+      .join('');
+
+    // Keep "</script>" inside strings from closing the data block
+    const data = interactive
+      ? `<script type="application/json" id="frame-data">${JSON.stringify(
+          this.buildFrameDrillDown(timeline, report.detections),
+        ).replace(/</g, '\\u003c')}</script>
+      <div class="frame-detail" id="frame-detail"></div>`
+      : '';
+
+    return `
+    <div class="card">
+      <h2 class="card-title">🎞️ Frame Timeline</h2>
+      <div class="frame-strip">${bars}</div>
+      <div class="frame-strip-legend">
+        ${timeline.frames.length} frames, ${overBudget} over the ${budgetMs.toFixed(2)}ms budget.
+        Bars are scaled up to ${FRAME_STRIP_MAX_BUDGETS}x the budget.${interactive ? ' Click a frame for details.' : ''}
+      </div>
+      ${data}
+    </div>`;
+  }
+
+  /**
+   * Map long tasks, DOM signals and detection evidence onto the frames they
+   * overlap
+   */
+  private buildFrameDrillDown(
+    timeline: FrameTimeline,
+    detections: Detection[],
+  ): FrameDrillDown {
+    const { frames: timings } = timeline;
+    const firstStart = timings[0]!.startTime;
+    const round = (ms: number): number => Math.round(ms * 100) / 100;
+
+    const frames: FrameDrillDown['frames'] = timings.map((frame) => ({
+      start: round((frame.startTime - firstStart) / 1000),
+      duration: round(frame.durationMs),
+      dropped: frame.dropped,
+      phases: [
+        frame.styleRecalcMs,
+        frame.layoutMs,
+        frame.paintMs,
+        frame.compositeMs,
+        frame.gpuMs,
+      ].map((ms) => round(ms ?? 0)),
+      screenshot: frame.screenshotIndex,
+    }));
+
+    const tasks: FrameDrillDown['tasks'] = timeline.longTasks.map((task, t) => {
+      this.forEachOverlappingFrame(
+        timings,
+        task.startTime,
+        task.startTime + task.durationMs * 1000,
+        (i) => (frames[i]!.tasks ??= []).push(t),
+      );
+      return {
+        name: task.functionName || '(anonymous)',
+        location: task.file ? `${task.file}:${task.line ?? '?'}` : undefined,
+        duration: round(task.durationMs),
+      };
+    });
+
+    for (const signal of timeline.domSignals) {
+      const end = signal.timestamp + (signal.durationMs ?? 0) * 1000;
+      this.forEachOverlappingFrame(timings, signal.timestamp, end, (i) => {
+        const frame = frames[i]!;
+        const signals = (frame.signals ??= []);
+        if (signals.length >= MAX_FRAME_SIGNALS) {
+          frame.moreSignals = (frame.moreSignals ?? 0) + 1;
+          return;
+        }
+        const source = signal.stackTrace?.[0];
+        signals.push({
+          type: signal.type,
+          duration:
+            signal.durationMs !== undefined
+              ? round(signal.durationMs)
+              : undefined,
+          nodes: signal.affectedNodes,
+          source: source
+            ? `${source.functionName || '(anonymous)'} ${source.file}:${source.line}`
+            : undefined,
+        });
+      });
+    }
+
+    const listed = this.sortDetections(detections).map((detection, d) => {
+      for (const event of detection.evidence) {
+        this.forEachOverlappingFrame(
+          timings,
+          event.ts,
+          event.ts + (event.dur ?? 0),
+          (i) => {
+            const frameDetections = (frames[i]!.detections ??= []);
+            if (!frameDetections.includes(d)) frameDetections.push(d);
+          },
+        );
+      }
+      return {
+        index: d + 1,
+        label: this.formatDetectionType(detection.type),
+        severity: detection.severity,
+        description: detection.description,
+      };
+    });
+
+    return { frames, tasks, detections: listed };
+  }
+
+  /**
+   * Call fn with the index of every frame overlapping [start, end], in
+   * microseconds. Frames are sorted by start time.
+   */
+  private forEachOverlappingFrame(
+    frames: FrameTiming[],
+    start: number,
+    end: number,
+    fn: (index: number) => void,
+  ): void {
+    let low = 0;
+    let high = frames.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (frames[mid]!.endTime <= start) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    for (let i = low; i < frames.length && frames[i]!.startTime <= end; i++) {
+      fn(i);
+    }
+  }
+
+  /**
+   * Generate the filmstrip of all screenshots captured while profiling
+   */
+  private generateFilmstrip(screenshotContext?: ScreenshotContext): string {
+    if (!screenshotContext) {
+      return '';
+    }
+
+    const frames = screenshotContext.screenshots
+      .map((screenshot, i) =>
+        this.generateScreenshot(screenshot, screenshotContext.originTs, i),
+      )
+      .join('');
+
+    return `
+    <div class="card">
+      <h2 class="card-title">📸 Filmstrip (${screenshotContext.screenshots.length} screenshots)</h2>
+      <div class="filmstrip">${frames}</div>
+    </div>`;
+  }
+
+  /**
+   * Generate a filmstrip of the screenshots taken over a detection's
+   * evidence, from what the page showed when it started to when it ended
+   */
+  private generateDetectionFilmstrip(
+    detection: Detection,
+    screenshotContext: ScreenshotContext,
+  ): string {
+    if (detection.evidence.length === 0) {
+      return '';
+    }
+
+    let start = Infinity;
+    let end = -Infinity;
+    for (const event of detection.evidence) {
+      start = Math.min(start, event.ts);
+      end = Math.max(end, event.ts + (event.dur ?? 0));
+    }
+
+    const { screenshots, originTs } = screenshotContext;
+    const last = findScreenshotAt(screenshots, end);
+    if (last === undefined) {
+      return '';
+    }
+    const first = findScreenshotAt(screenshots, start) ?? 0;
+
+    // Evenly spaced over the range when it has more screenshots than shown
+    const count = Math.min(last - first + 1, MAX_DETECTION_SCREENSHOTS);
+    const frames = Array.from({ length: count }, (_, k) =>
+      count === 1
+        ? first
+        : first + Math.round((k * (last - first)) / (count - 1)),
+    )
+      .map((i) => this.generateScreenshot(screenshots[i]!, originTs))
+      .join('');
+
+    return `<div class="detection-detail"><span class="detection-detail-label">Screenshots:</span></div>
+        <div class="filmstrip">${frames}</div>`;
+  }
+
+  /**
+   * Generate an embedded screenshot captioned with its time. Only the main
+   * filmstrip gives them ids, for the frame strip to look them up.
+   */
+  private generateScreenshot(
+    screenshot: CapturedScreenshot,
+    originTs: number,
+    index?: number,
+  ): string {
+    const timeMs = ((screenshot.ts - originTs) / 1000).toFixed(1);
+    const id = index !== undefined ? ` id="screenshot-${index}"` : '';
+    return `<figure class="filmstrip-frame"><img${id} src="data:image/jpeg;base64,${screenshot.data.toString('base64')}" alt="Page at ${timeMs}ms" loading="lazy"><figcaption>${timeMs}ms</figcaption></figure>`;
+  }
+
+  /**
+   * Generate per-segment metrics for User Timing measures
+   */
+  private generateSegments(summary: TraceSummary): string {
+    if (!summary.segments || summary.segments.length === 0) {
+      return '';
+    }
+
+    const rows = summary.segments
+      .map((segment) => {
+        const pb = segment.phase_breakdown;
+        const renderMs =
+          pb.style_recalc_ms + pb.layout_ms + pb.paint_ms + pb.composite_ms;
+        const issues = segment.detections
+          .map(
+            (d) =>
+              `<span title="${this.escapeHtml(d.description)}">${this.getDetectionEmoji(d.type)}</span>`,
+          )
+          .join(' ');
+        return `
+        <tr>
+          <td><code>${this.escapeHtml(segment.name)}</code></td>
+          <td>${segment.occurrences}</td>
+          <td>${segment.duration_ms.toFixed(1)}ms</td>
+          <td>${segment.frames.avg_fps.toFixed(1)}</td>
+          <td>${segment.frames.dropped} / ${segment.frames.total}</td>
+          <td>${renderMs.toFixed(2)}ms</td>
+          <td>${issues || '-'}</td>
+        </tr>`;
+      })
+      .join('');
+
+    return `
+    <div class="card">
+      <h2 class="card-title">🏷️ Segments</h2>
+      <table class="segments-table">
+        <thead>
+          <tr>
+            <th>Measure</th>
+            <th>Runs</th>
+            <th>Duration</th>
+            <th>Avg FPS</th>
+            <th>Dropped</th>
+            <th>Rendering</th>
+            <th>Issues</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+  }
+
+  /**
+   * Generate the work attributed to each third-party entity, with the
+   * scripts responsible, for escalating to vendors
+   */
+  private generateThirdPartyImpact(summary: TraceSummary): string {
+    if (!summary.third_party || summary.third_party.length === 0) {
+      return '';
+    }
+
+    const rows = summary.third_party
+      .map((impact) => {
+        const scripts = impact.scripts
+          .map(
+            (s) =>
+              `<code>${this.escapeHtml(s.url)}</code> ${s.total_ms.toFixed(1)}ms`,
+          )
+          .join('<br>');
+        return `
+        <tr>
+          <td><strong>${this.escapeHtml(impact.entity)}</strong></td>
+          <td>${impact.category ?? '-'}</td>
+          <td>${impact.long_task_ms.toFixed(1)}ms (${impact.long_tasks})</td>
+          <td>${impact.layout_thrash_ms.toFixed(1)}ms (${impact.forced_reflows})</td>
+          <td>${impact.paint_ms.toFixed(1)}ms</td>
+          <td><strong>${impact.total_ms.toFixed(1)}ms</strong></td>
+          <td>${scripts}</td>
+        </tr>`;
+      })
+      .join('');
+
+    return `
+    <div class="card">
+      <h2 class="card-title">🏢 Third-party Impact</h2>
+      <table class="segments-table">
+        <thead>
+          <tr>
+            <th>Entity</th>
+            <th>Category</th>
+            <th>Long Tasks</th>
+            <th>Forced Reflows</th>
+            <th>Paint</th>
+            <th>Total</th>
+            <th>Scripts</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+  }
+
   /**
    * Generate detections section with expandable details
    */
@@ -520,6 +1173,7 @@ document.addEventListener('DOMContentLoaded', function() {
     detections: Detection[],
     suggestions: Suggestion[],
     interactive: boolean,
+    screenshotContext?: ScreenshotContext,
   ): string {
     if (detections.length === 0) {
       return `
@@ -529,23 +1183,15 @@ document.addEventListener('DOMContentLoaded', function() {
       </div>`;
     }
 
-    // Sort by severity and impact
-    const sorted = [...detections].sort((a, b) => {
-      const severityOrder: Record<Severity, number> = {
-        critical: 0,
-        high: 1,
-        warning: 2,
-        info: 3,
-      };
-      const severityDiff =
-        severityOrder[a.severity] - severityOrder[b.severity];
-      if (severityDiff !== 0) return severityDiff;
-      return b.metrics.impactScore - a.metrics.impactScore;
-    });
-
-    const items = sorted
+    const items = this.sortDetections(detections)
       .map((d, i) =>
-        this.generateDetectionItem(d, i + 1, suggestions, interactive),
+        this.generateDetectionItem(
+          d,
+          i + 1,
+          suggestions,
+          interactive,
+          screenshotContext,
+        ),
       )
       .join('');
 
@@ -556,6 +1202,24 @@ document.addEventListener('DOMContentLoaded', function() {
     </div>`;
   }
 
+  /**
+   * Sort detections by severity and impact, the order they are listed in
+   */
+  private sortDetections(detections: Detection[]): Detection[] {
+    const severityOrder: Record<Severity, number> = {
+      critical: 0,
+      high: 1,
+      warning: 2,
+      info: 3,
+    };
+    return [...detections].sort((a, b) => {
+      const severityDiff =
+        severityOrder[a.severity] - severityOrder[b.severity];
+      if (severityDiff !== 0) return severityDiff;
+      return b.metrics.impactScore - a.metrics.impactScore;
+    });
+  }
+
   /**
    * Generate a single detection item
    */
@@ -564,6 +1228,7 @@ document.addEventListener('DOMContentLoaded', function() {
     index: number,
     suggestions: Suggestion[],
     interactive: boolean,
+    screenshotContext?: ScreenshotContext,
   ): string {
     const severityColor = SEVERITY_COLORS[detection.severity];
     const severityBg = SEVERITY_BG_COLORS[detection.severity];
@@ -577,7 +1242,7 @@ document.addEventListener('DOMContentLoaded', function() {
     const detailsHtml = this.generateDetectionDetails(detection);
 
     return `
-    <div class="detection-item" style="border-left: 4px solid ${severityColor};">
+    <div class="detection-item" id="detection-${index}" style="border-left: 4px solid ${severityColor};">
       <div class="detection-header" style="background: ${severityBg};">
         <div class="detection-title">
           <span>${emoji}</span>
@@ -593,6 +1258,7 @@ document.addEventListener('DOMContentLoaded', function() {
       <div class="detection-body${interactive ? '' : ' open'}">
         <p style="margin-bottom: 1rem;">${this.escapeHtml(detection.description)}</p>
         ${detailsHtml}
+        ${screenshotContext ? this.generateDetectionFilmstrip(detection, screenshotContext) : ''}
         ${suggestionHtml}
       </div>
     </div>`;
@@ -615,6 +1281,11 @@ document.addEventListener('DOMContentLoaded', function() {
         `<div class="detection-detail"><span class="detection-detail-label">Location:</span> <code>${this.escapeHtml(loc)}</code></div>`,
       );
     }
+    if (detection.attribution && !detection.attribution.firstParty) {
+      details.push(
+        `<div class="detection-detail"><span class="detection-detail-label">Owner:</span> ${this.escapeHtml(detection.attribution.entity ?? detection.attribution.origin)} (third party, no patch suggested)</div>`,
+      );
+    }
 
     // Type-specific details
     switch (detection.type) {
@@ -649,6 +1320,9 @@ document.addEventListener('DOMContentLoaded', function() {
         details.push(
           `<div class="detection-detail"><span class="detection-detail-label">Frame Drops:</span> ${d.correlatedFrameDrops}</div>`,
         );
+        if (d.flameGraph) {
+          details.push(this.generateFlameGraph(d.flameGraph));
+        }
         break;
       }
       case 'heavy_paint': {
@@ -664,11 +1338,138 @@ document.addEventListener('DOMContentLoaded', function() {
         );
         break;
       }
+      case 'input_latency': {
+        const d = detection as InputLatencyDetection;
+        const w = d.worstInteraction;
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">Handler:</span> <code>${this.escapeHtml(d.functionName)}</code> (${this.escapeHtml(d.eventType)})</div>`,
+        );
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">Interaction Latency:</span> ${w.totalMs.toFixed(2)}ms (input delay ${w.inputDelayMs.toFixed(2)}ms, processing ${w.processingTimeMs.toFixed(2)}ms, presentation ${w.presentationDelayMs.toFixed(2)}ms)</div>`,
+        );
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">INP:</span> ${d.inpMs.toFixed(0)}ms</div>`,
+        );
+        break;
+      }
+      case 'layout_shift': {
+        const d = detection as LayoutShiftDetection;
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">Window Score:</span> ${d.windowScore.toFixed(3)} over ${d.windowDurationMs.toFixed(0)}ms (CLS ${d.cls.toFixed(3)})</div>`,
+        );
+        for (const shift of d.shifts.slice(0, 5)) {
+          const nodes = shift.movedNodes
+            .slice(0, 3)
+            .map(
+              (n) =>
+                `<code>${this.escapeHtml(n.node)}</code> ${n.distancePx}px`,
+            )
+            .join(', ');
+          const cause = shift.causeDetail
+            ? `${shift.cause} (${this.escapeHtml(shift.causeDetail)})`
+            : shift.cause;
+          details.push(
+            `<div class="detection-detail"><span class="detection-detail-label">Shift ${shift.score.toFixed(3)}:</span> ${cause}${nodes ? ` &mdash; moved ${nodes}` : ''}</div>`,
+          );
+        }
+        break;
+      }
+      case 'gc_jank': {
+        const d = detection as GCJankDetection;
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">During:</span> <code>${this.escapeHtml(d.functionName)}</code></div>`,
+        );
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">GC Time:</span> ${d.gcMs.toFixed(2)}ms over ${d.pauses} pauses (major ${d.majorGcMs.toFixed(2)}ms, minor ${d.minorGcMs.toFixed(2)}ms)</div>`,
+        );
+        details.push(
+          `<div class="detection-detail"><span class="detection-detail-label">Janked Frames:</span> ${d.jankFrames}</div>`,
+        );
+        if (d.allocatedMbPerFrame !== undefined) {
+          details.push(
+            `<div class="detection-detail"><span class="detection-detail-label">Allocation:</span> ${d.allocatedMbPerFrame.toFixed(2)}MB per frame (${d.churnFrames} frames over the churn threshold)</div>`,
+          );
+        }
+        break;
+      }
     }
 
     return details.join('');
   }
 
+  /**
+   * Generate an icicle chart of sampled CPU time, with the hottest
+   * functions by self time below it
+   */
+  private generateFlameGraph(root: FlameGraphNode): string {
+    const cells: string[] = [];
+    let maxDepth = 0;
+
+    const layout = (node: FlameGraphNode, depth: number, offsetMs: number) => {
+      const x = (offsetMs / root.totalMs) * 100;
+      const w = (node.totalMs / root.totalMs) * 100;
+      if (w < MIN_FLAME_CELL_PCT) return;
+      maxDepth = Math.max(maxDepth, depth);
+
+      const label =
+        depth === 0
+          ? `All samples (${this.formatDuration(node.totalMs)})`
+          : node.functionName;
+      const location = node.file
+        ? ` ${node.file}:${node.line}:${node.column}`
+        : '';
+      const title = `${node.functionName}${location} - total ${node.totalMs.toFixed(2)}ms, self ${node.selfMs.toFixed(2)}ms`;
+      cells.push(
+        `<div class="flame-cell" style="left: ${x.toFixed(4)}%; width: ${w.toFixed(4)}%; top: ${depth * FLAME_ROW_HEIGHT_PX}px; background: ${this.getFlameColor(node, depth)};" data-x="${x.toFixed(4)}" data-w="${w.toFixed(4)}" data-depth="${depth}" title="${this.escapeHtml(title)}">${this.escapeHtml(label)}</div>`,
+      );
+
+      let childOffsetMs = offsetMs;
+      for (const child of node.children) {
+        layout(child, depth + 1, childOffsetMs);
+        childOffsetMs += child.totalMs;
+      }
+    };
+    layout(root, 0, 0);
+
+    // Self time per function across all call paths
+    const selfTimes = new Map<string, number>();
+    walkFlameGraph(root, (node, depth) => {
+      if (depth === 0 || node.selfMs === 0) return;
+      const key = node.file
+        ? `${node.functionName} (${node.file}:${node.line})`
+        : node.functionName;
+      selfTimes.set(key, (selfTimes.get(key) ?? 0) + node.selfMs);
+    });
+    const hottest = Array.from(selfTimes.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(
+        ([name, ms]) =>
+          `<code>${this.escapeHtml(name)}</code> ${ms.toFixed(2)}ms`,
+      )
+      .join(', ');
+
+    return `
+      <div class="detection-detail"><span class="detection-detail-label">CPU Profile:</span> ${root.totalMs.toFixed(2)}ms sampled during this task</div>
+      <div class="flame-graph" style="height: ${(maxDepth + 1) * FLAME_ROW_HEIGHT_PX}px;">${cells.join('')}</div>
+      ${hottest ? `<div class="detection-detail"><span class="detection-detail-label">Top Self Time:</span> ${hottest}</div>` : ''}`;
+  }
+
+  /**
+   * Flame graph cell color: gray for the root and native frames, a warm hue
+   * per script otherwise
+   */
+  private getFlameColor(node: FlameGraphNode, depth: number): string {
+    if (depth === 0 || !node.file) {
+      return '#d1d5db';
+    }
+    let hash = 0;
+    for (const char of node.file) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return `hsl(${hash % 50}, 85%, ${68 + (hash % 12)}%)`;
+  }
+
   /**
    * Generate suggestion card
    */
@@ -773,6 +1574,9 @@ document.addEventListener('DOMContentLoaded', function() {
       long_task: '⏱️',
       heavy_paint: '🎨',
       forced_reflow: '🔄',
+      input_latency: '👆',
+      layout_shift: '↕️',
+      gc_jank: '🗑️',
     };
     return emojis[type] ?? '⚠️';
   }
@@ -3,3 +3,4 @@ export * from './reporter.service.js';
 export * from './terminal.reporter.js';
 export * from './json.reporter.js';
 export * from './html.reporter.js';
+export * from './trend-html.reporter.js';
@@ -5,6 +5,8 @@
 
 import type { TraceSummary, Detection } from '../../shared/types/index.js';
 import type { Suggestion } from '../../shared/types/suggestion.types.js';
+import type { FrameTimeline } from '../../analyzer/interfaces/index.js';
+import type { CapturedScreenshot } from '../../shared/utils/index.js';
 
 /**
  * Analysis result containing all data needed for reporting
@@ -13,6 +15,10 @@ export interface AnalysisReport {
   summary: TraceSummary;
   detections: Detection[];
   suggestions: Suggestion[];
+  /** Per-frame timeline for the HTML frame strip, when available */
+  timeline?: FrameTimeline;
+  /** Screenshots captured while profiling, for the HTML filmstrip */
+  screenshots?: CapturedScreenshot[];
 }
 
 /**
@@ -47,6 +53,28 @@ export interface HTMLReportOptions {
   title?: string;
 }
 
+/**
+ * Options for HTML trend report generation
+ */
+export interface TrendReportOptions {
+  /** Custom title for the report */
+  title?: string;
+  /** Filters the runs were selected by, shown in the header */
+  filters?: Record<string, string>;
+}
+
+/**
+ * Additional report format, contributed by a plugin
+ */
+export interface ICustomReporter {
+  /** Format name used to select the reporter */
+  readonly name: string;
+  /** File extension of generated reports, without the dot */
+  readonly extension: string;
+  /** Generate the report contents */
+  generate(report: AnalysisReport): string | Promise<string>;
+}
+
 /**
  * Interface for the main reporter service
  */
@@ -11,6 +11,11 @@ import type {
   GPUStallDetection,
   LongTaskDetection,
   HeavyPaintDetection,
+  InputLatencyDetection,
+  LayoutShiftDetection,
+  GCJankDetection,
+  SegmentSummary,
+  ThirdPartyImpact,
 } from '../shared/types/index.js';
 import type { Suggestion } from '../shared/types/suggestion.types.js';
 import type { AnalysisReport, JSONReportOptions } from './interfaces/index.js';
@@ -42,12 +47,20 @@ export interface JSONReport {
     composite_ms: number;
     gpu_ms: number;
   };
+  /** Cumulative Layout Shift, when the trace recorded layout shifts */
+  cls?: number;
+  /** Per-measure metrics for User Timing segments */
+  segments?: SegmentSummary[];
+  /** Work attributed to third-party scripts, costliest entity first */
+  third_party?: ThirdPartyImpact[];
   /** Performance hotspots */
   hotspots: {
     layout_thrashing: LayoutThrashingHotspotJSON[];
     gpu_stalls: GPUStallHotspotJSON[];
     long_tasks: LongTaskHotspotJSON[];
     heavy_paints: HeavyPaintHotspotJSON[];
+    layout_shifts: LayoutShiftHotspotJSON[];
+    gc_pauses: GCPauseHotspotJSON[];
   };
   /** All detections with full details */
   detections: DetectionJSON[];
@@ -107,6 +120,24 @@ interface HeavyPaintHotspotJSON {
   occurrences: number;
 }
 
+interface LayoutShiftHotspotJSON {
+  score: number;
+  shift_count: number;
+  window_duration_ms: number;
+  nodes: string[];
+  causes: string[];
+}
+
+interface GCPauseHotspotJSON {
+  function: string;
+  file: string;
+  line: number;
+  gc_ms: number;
+  pauses: number;
+  jank_frames: number;
+  allocated_mb_per_frame?: number;
+}
+
 interface DetectionJSON {
   type: string;
   severity: string;
@@ -126,6 +157,13 @@ interface DetectionJSON {
     estimated_speedup_pct?: number;
     frame_budget_impact_pct?: number;
   };
+  /** Owner of location.file, when it is a script URL */
+  attribution?: {
+    origin: string;
+    first_party: boolean;
+    entity?: string;
+    category?: string;
+  };
   details: Record<string, unknown>;
 }
 
@@ -152,7 +190,7 @@ export class JSONReporter {
   generate(report: AnalysisReport, options: JSONReportOptions = {}): string {
     const { prettyPrint = true, indent = 2 } = options;
 
-    const jsonReport = this.buildJSONReport(report);
+    const jsonReport = this.build(report);
 
     return prettyPrint
       ? JSON.stringify(jsonReport, null, indent)
@@ -162,7 +200,7 @@ export class JSONReporter {
   /**
    * Build the complete JSON report object
    */
-  private buildJSONReport(report: AnalysisReport): JSONReport {
+  build(report: AnalysisReport): JSONReport {
     const { summary, detections, suggestions } = report;
 
     return {
@@ -183,6 +221,9 @@ export class JSONReporter {
         composite_ms: summary.phase_breakdown.composite_ms,
         gpu_ms: summary.phase_breakdown.gpu_ms,
       },
+      cls: summary.cls,
+      segments: summary.segments,
+      third_party: summary.third_party,
       hotspots: this.buildHotspots(detections),
       detections: this.buildDetections(detections),
       suggestions: this.buildSuggestions(suggestions),
@@ -203,6 +244,8 @@ export class JSONReporter {
     const gpuStalls: GPUStallHotspotJSON[] = [];
     const longTasks: LongTaskHotspotJSON[] = [];
     const heavyPaints: HeavyPaintHotspotJSON[] = [];
+    const layoutShifts: LayoutShiftHotspotJSON[] = [];
+    const gcPauses: GCPauseHotspotJSON[] = [];
 
     for (const detection of detections) {
       switch (detection.type) {
@@ -248,6 +291,34 @@ export class JSONReporter {
           });
           break;
         }
+        case 'layout_shift': {
+          const d = detection as LayoutShiftDetection;
+          layoutShifts.push({
+            score: d.windowScore,
+            shift_count: d.shifts.length,
+            window_duration_ms: d.windowDurationMs,
+            nodes: [
+              ...new Set(
+                d.shifts.flatMap((s) => s.movedNodes.map((n) => n.node)),
+              ),
+            ],
+            causes: [...new Set(d.shifts.map((s) => s.cause))],
+          });
+          break;
+        }
+        case 'gc_jank': {
+          const d = detection as GCJankDetection;
+          gcPauses.push({
+            function: d.functionName,
+            file: d.file,
+            line: d.line,
+            gc_ms: d.gcMs,
+            pauses: d.pauses,
+            jank_frames: d.jankFrames,
+            allocated_mb_per_frame: d.allocatedMbPerFrame,
+          });
+          break;
+        }
       }
     }
 
@@ -256,6 +327,8 @@ export class JSONReporter {
       gpu_stalls: gpuStalls,
       long_tasks: longTasks,
       heavy_paints: heavyPaints,
+      layout_shifts: layoutShifts,
+      gc_pauses: gcPauses,
     };
   }
 
@@ -282,6 +355,14 @@ export class JSONReporter {
         estimated_speedup_pct: d.metrics.estimatedSpeedupPct,
         frame_budget_impact_pct: d.metrics.frameBudgetImpactPct,
       },
+      attribution: d.attribution
+        ? {
+            origin: d.attribution.origin,
+            first_party: d.attribution.firstParty,
+            entity: d.attribution.entity,
+            category: d.attribution.category,
+          }
+        : undefined,
       details: this.extractDetectionDetails(d),
     }));
   }
@@ -321,6 +402,7 @@ export class JSONReporter {
           cpu_ms: d.cpuMs,
           correlated_frame_drops: d.correlatedFrameDrops,
           call_stack: d.callStack,
+          flame_graph: d.flameGraph,
         };
       }
       case 'heavy_paint': {
@@ -331,6 +413,59 @@ export class JSONReporter {
           layer_count: d.layerCount,
         };
       }
+      case 'input_latency': {
+        const d = detection as InputLatencyDetection;
+        return {
+          event_type: d.eventType,
+          function_name: d.functionName,
+          file: d.file,
+          line: d.line,
+          column: d.column,
+          input_delay_ms: d.worstInteraction.inputDelayMs,
+          processing_time_ms: d.worstInteraction.processingTimeMs,
+          presentation_delay_ms: d.worstInteraction.presentationDelayMs,
+          interaction_latency_ms: d.worstInteraction.totalMs,
+          inp_ms: d.inpMs,
+          call_stack: d.callStack,
+        };
+      }
+      case 'layout_shift': {
+        const d = detection as LayoutShiftDetection;
+        return {
+          window_score: d.windowScore,
+          window_duration_ms: d.windowDurationMs,
+          cls: d.cls,
+          shifts: d.shifts.map((s) => ({
+            timestamp: s.timestamp,
+            score: s.score,
+            cause: s.cause,
+            cause_detail: s.causeDetail,
+            moved_nodes: s.movedNodes.map((n) => ({
+              node_id: n.nodeId,
+              node: n.node,
+              distance_px: n.distancePx,
+            })),
+          })),
+        };
+      }
+      case 'gc_jank': {
+        const d = detection as GCJankDetection;
+        return {
+          function_name: d.functionName,
+          file: d.file,
+          line: d.line,
+          column: d.column,
+          gc_ms: d.gcMs,
+          major_gc_ms: d.majorGcMs,
+          minor_gc_ms: d.minorGcMs,
+          pauses: d.pauses,
+          jank_frames: d.jankFrames,
+          churn_frames: d.churnFrames,
+          allocated_mb_per_frame: d.allocatedMbPerFrame,
+          heap_growth_mb: d.heapGrowthMb,
+          call_stack: d.callStack,
+        };
+      }
       default:
         return {};
     }
@@ -3,9 +3,22 @@ import { ReporterService } from './reporter.service.js';
 import { TerminalReporter } from './terminal.reporter.js';
 import { JSONReporter } from './json.reporter.js';
 import { HTMLReporter } from './html.reporter.js';
+import { TrendHTMLReporter } from './trend-html.reporter.js';
 
 @Module({
-  providers: [ReporterService, TerminalReporter, JSONReporter, HTMLReporter],
-  exports: [ReporterService, TerminalReporter, JSONReporter, HTMLReporter],
+  providers: [
+    ReporterService,
+    TerminalReporter,
+    JSONReporter,
+    HTMLReporter,
+    TrendHTMLReporter,
+  ],
+  exports: [
+    ReporterService,
+    TerminalReporter,
+    JSONReporter,
+    HTMLReporter,
+    TrendHTMLReporter,
+  ],
 })
 export class ReporterModule {}
@@ -6,22 +6,29 @@
 
 import { Injectable } from '@nestjs/common';
 import { TerminalReporter } from './terminal.reporter.js';
-import { JSONReporter } from './json.reporter.js';
+import { JSONReporter, type JSONReport } from './json.reporter.js';
 import { HTMLReporter } from './html.reporter.js';
+import { TrendHTMLReporter } from './trend-html.reporter.js';
 import type {
   IReporterService,
   AnalysisReport,
   TerminalReportOptions,
   JSONReportOptions,
   HTMLReportOptions,
+  TrendReportOptions,
+  ICustomReporter,
 } from './interfaces/index.js';
+import type { HistoryRecord, MetricTrend } from '../shared/types/index.js';
 
 @Injectable()
 export class ReporterService implements IReporterService {
+  private customReporters = new Map<string, ICustomReporter>();
+
   constructor(
     private readonly terminalReporter: TerminalReporter,
     private readonly jsonReporter: JSONReporter,
     private readonly htmlReporter: HTMLReporter,
+    private readonly trendHtmlReporter: TrendHTMLReporter,
   ) {}
 
   /**
@@ -44,6 +51,13 @@ export class ReporterService implements IReporterService {
     return this.jsonReporter.generate(report, options);
   }
 
+  /**
+   * Build the JSON report object, as serialized by generateJSONReport
+   */
+  buildJSONReport(report: AnalysisReport): JSONReport {
+    return this.jsonReporter.build(report);
+  }
+
   /**
    * Generate HTML report string
    */
@@ -53,4 +67,36 @@ export class ReporterService implements IReporterService {
   ): string {
     return this.htmlReporter.generate(report, options);
   }
+
+  /**
+   * Generate HTML trend report string across recorded runs
+   */
+  generateTrendHTMLReport(
+    trends: MetricTrend[],
+    records: HistoryRecord[],
+    options?: TrendReportOptions,
+  ): string {
+    return this.trendHtmlReporter.generate(trends, records, options);
+  }
+
+  /**
+   * Register an additional report format
+   */
+  registerReporter(reporter: ICustomReporter): void {
+    this.customReporters.set(reporter.name, reporter);
+  }
+
+  /**
+   * Get all registered additional report formats
+   */
+  getCustomReporters(): ICustomReporter[] {
+    return Array.from(this.customReporters.values());
+  }
+
+  /**
+   * Get a registered additional report format by name
+   */
+  getCustomReporter(name: string): ICustomReporter | undefined {
+    return this.customReporters.get(name);
+  }
 }
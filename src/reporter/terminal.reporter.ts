@@ -8,6 +8,7 @@ import { Injectable } from '@nestjs/common';
 import type {
   TraceSummary,
   Detection,
+  LayoutShiftDetection,
   Severity,
 } from '../shared/types/index.js';
 import type { Suggestion } from '../shared/types/suggestion.types.js';
@@ -63,6 +64,9 @@ const DETECTION_LABELS: Record<string, string> = {
   long_task: '[Task]',
   heavy_paint: '[Paint]',
   forced_reflow: '[Reflow]',
+  input_latency: '[Input]',
+  layout_shift: '[Shift]',
+  gc_jank: '[GC]',
 };
 
 @Injectable()
@@ -89,6 +93,12 @@ export class TerminalReporter {
     lines.push(this.generatePhaseBreakdown(report.summary, colorize));
     lines.push('');
 
+    // User Timing Segments Section
+    if (report.summary.segments && report.summary.segments.length > 0) {
+      lines.push(this.generateSegments(report.summary, colorize));
+      lines.push('');
+    }
+
     // Bottleneck Analysis Section
     if (report.detections.length > 0) {
       lines.push(
@@ -102,6 +112,14 @@ export class TerminalReporter {
       lines.push('');
     }
 
+    // Third-party Impact Section
+    if (report.summary.third_party && report.summary.third_party.length > 0) {
+      lines.push(
+        this.generateThirdPartyImpact(report.summary, colorize, verbose),
+      );
+      lines.push('');
+    }
+
     // Suggestions Summary
     if (report.suggestions.length > 0) {
       lines.push(this.generateSuggestionsSummary(report.suggestions, colorize));
@@ -193,6 +211,15 @@ export class TerminalReporter {
       `  Dropped Frames:  ${droppedColor}${frames.dropped}${c.reset} (${droppedPct.toFixed(1)}%)`,
     );
 
+    // CLS with web-vitals thresholds
+    if (summary.cls !== undefined) {
+      const clsColor =
+        summary.cls <= 0.1 ? c.green : summary.cls <= 0.25 ? c.yellow : c.red;
+      lines.push(
+        `  Layout Shift:    ${clsColor}${summary.cls.toFixed(3)}${c.reset} CLS`,
+      );
+    }
+
     return lines.join('\n');
   }
 
@@ -236,6 +263,51 @@ export class TerminalReporter {
     return lines.join('\n');
   }
 
+  /**
+   * Generate per-segment metrics for User Timing measures
+   */
+  private generateSegments(summary: TraceSummary, colorize: boolean): string {
+    const lines: string[] = [];
+    const c = colorize
+      ? COLORS
+      : { bold: '', reset: '', green: '', red: '', yellow: '', dim: '' };
+
+    lines.push(`${c.bold}Segments${c.reset}`);
+    lines.push(`${'─'.repeat(50)}`);
+
+    for (const segment of summary.segments ?? []) {
+      const droppedPct =
+        segment.frames.total > 0
+          ? (segment.frames.dropped / segment.frames.total) * 100
+          : 0;
+      const droppedColor =
+        droppedPct <= 5 ? c.green : droppedPct <= 15 ? c.yellow : c.red;
+      const runs =
+        segment.occurrences > 1
+          ? ` ${c.dim}x${segment.occurrences}${c.reset}`
+          : '';
+
+      lines.push(
+        `  ${segment.name.padEnd(20)} ${segment.duration_ms.toFixed(1).padStart(8)}ms${runs}  ` +
+          `${segment.frames.avg_fps.toFixed(1)} fps  ` +
+          `${droppedColor}${segment.frames.dropped} dropped${c.reset}`,
+      );
+
+      if (segment.detections.length > 0) {
+        const labels = [
+          ...new Set(
+            segment.detections.map((d) => DETECTION_LABELS[d.type] ?? d.type),
+          ),
+        ];
+        lines.push(
+          `  ${''.padEnd(20)} ${c.dim}${segment.detections.length} issue(s): ${labels.join(' ')}${c.reset}`,
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Generate bottleneck analysis section with numbered issues
    */
@@ -302,6 +374,34 @@ export class TerminalReporter {
       } else if (detection.location.file) {
         const loc = `${detection.location.file}:${detection.location.line ?? '?'}`;
         lines.push(`     ${c.cyan}Location:${c.reset} ${loc}`);
+        if (detection.attribution && !detection.attribution.firstParty) {
+          lines.push(
+            `     ${c.cyan}Owner:${c.reset} ${detection.attribution.entity ?? detection.attribution.origin} ${c.dim}(third party, no patch suggested)${c.reset}`,
+          );
+        }
+      } else if (detection.location.element) {
+        lines.push(
+          `     ${c.cyan}Affected:${c.reset} ${detection.location.element}`,
+        );
+      }
+
+      // Show layout shift culprits
+      if (detection.type === 'layout_shift') {
+        for (const shift of (detection as LayoutShiftDetection).shifts.slice(
+          0,
+          3,
+        )) {
+          const cause = shift.causeDetail
+            ? `${shift.cause} (${shift.causeDetail})`
+            : shift.cause;
+          const nodes = shift.movedNodes
+            .slice(0, 3)
+            .map((n) => `${n.node} ${n.distancePx}px`)
+            .join(', ');
+          lines.push(
+            `     ${c.cyan}Shift ${shift.score.toFixed(3)}:${c.reset} ${cause}${nodes ? ` -> ${nodes}` : ''}`,
+          );
+        }
       }
 
       // Show metrics
@@ -334,6 +434,66 @@ export class TerminalReporter {
     return lines.join('\n');
   }
 
+  /**
+   * Generate the work attributed to each third-party entity, with the
+   * scripts responsible, for escalating to vendors
+   */
+  private generateThirdPartyImpact(
+    summary: TraceSummary,
+    colorize: boolean,
+    verbose: boolean,
+  ): string {
+    const lines: string[] = [];
+    const c = colorize
+      ? COLORS
+      : { bold: '', reset: '', dim: '', cyan: '', yellow: '' };
+    const entities = summary.third_party ?? [];
+
+    lines.push(`${c.bold}Third-party Impact${c.reset}`);
+    lines.push(`${'─'.repeat(50)}`);
+
+    const displayEntities = verbose ? entities : entities.slice(0, 5);
+    for (const impact of displayEntities) {
+      const category = impact.category
+        ? ` ${c.dim}[${impact.category}]${c.reset}`
+        : '';
+      lines.push(
+        `  ${c.bold}${impact.entity}${c.reset}${category}  ${c.yellow}${impact.total_ms.toFixed(1)}ms${c.reset}`,
+      );
+
+      const parts: string[] = [];
+      if (impact.long_tasks > 0) {
+        parts.push(
+          `long tasks ${impact.long_task_ms.toFixed(1)}ms (${impact.long_tasks})`,
+        );
+      }
+      if (impact.forced_reflows > 0) {
+        parts.push(
+          `forced reflows ${impact.layout_thrash_ms.toFixed(1)}ms (${impact.forced_reflows})`,
+        );
+      }
+      if (impact.paint_ms > 0) {
+        parts.push(`paint ${impact.paint_ms.toFixed(1)}ms`);
+      }
+      lines.push(`     ${c.dim}${parts.join('  ')}${c.reset}`);
+
+      const scripts = verbose ? impact.scripts : impact.scripts.slice(0, 2);
+      for (const script of scripts) {
+        lines.push(
+          `     ${c.cyan}${script.url}${c.reset} ${script.total_ms.toFixed(1)}ms`,
+        );
+      }
+    }
+
+    if (!verbose && entities.length > 5) {
+      lines.push(
+        `  ${c.dim}... and ${entities.length - 5} more third parties (use --verbose to see all)${c.reset}`,
+      );
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Generate suggestions summary section
    */
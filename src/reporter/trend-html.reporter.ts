@@ -0,0 +1,283 @@
+/**
+ * Trend HTML Reporter
+ * Generates a static HTML report charting metrics across recorded runs
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import type {
+  HistoryRecord,
+  MetricTrend,
+  TrendDirection,
+} from '../shared/types/index.js';
+import type { TrendReportOptions } from './interfaces/index.js';
+
+/**
+ * Chart size in SVG user units
+ */
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 12;
+
+const DIRECTION_COLORS: Record<TrendDirection, string> = {
+  regressing: '#dc2626',
+  improving: '#16a34a',
+  stable: '#3b82f6',
+};
+
+@Injectable()
+export class TrendHTMLReporter {
+  private readonly version = '1.0.0';
+
+  /**
+   * Generate HTML trend report
+   * @param trends Metric trends, as computed by the history service
+   * @param records The runs the trends were computed from, oldest first
+   */
+  generate(
+    trends: MetricTrend[],
+    records: HistoryRecord[],
+    options: TrendReportOptions = {},
+  ): string {
+    const { title = 'Render Debugger Trends', filters = {} } = options;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(title)}</title>
+  ${this.getEmbeddedStyles()}
+</head>
+<body>
+  <div class="container">
+    ${this.generateHeader(title, records, filters)}
+    ${trends.map((trend) => this.generateTrendCard(trend)).join('')}
+    ${this.generateRunsTable(records)}
+    <div class="footer">
+      <p>Generated by Render Debugger v${this.version}</p>
+    </div>
+  </div>
+</body>
+</html>`;
+  }
+
+  private getEmbeddedStyles(): string {
+    return `<style>
+:root {
+  --primary: #3b82f6;
+  --gray-50: #f9fafb;
+  --gray-200: #e5e7eb;
+  --gray-600: #4b5563;
+  --gray-800: #1f2937;
+}
+
+* { box-sizing: border-box; margin: 0; padding: 0; }
+
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+  background: var(--gray-50);
+  color: var(--gray-800);
+  line-height: 1.6;
+}
+
+.container { max-width: 1200px; margin: 0 auto; padding: 2rem; }
+
+.header {
+  background: linear-gradient(135deg, #1e3a8a 0%, #3b82f6 100%);
+  color: white;
+  padding: 2rem;
+  border-radius: 12px;
+  margin-bottom: 2rem;
+}
+
+.header h1 { font-size: 1.75rem; margin-bottom: 1rem; }
+
+.header-meta {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+  gap: 1rem;
+  font-size: 0.9rem;
+  opacity: 0.9;
+}
+
+.header-meta-item { display: flex; flex-direction: column; }
+
+.header-meta-label { font-size: 0.75rem; text-transform: uppercase; opacity: 0.7; }
+
+.card {
+  background: white;
+  border-radius: 12px;
+  box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+  padding: 1.5rem;
+  margin-bottom: 1.5rem;
+}
+
+.card-title {
+  font-size: 1.1rem;
+  font-weight: 600;
+  display: flex;
+  justify-content: space-between;
+  align-items: baseline;
+  margin-bottom: 0.75rem;
+}
+
+.trend-stats { font-size: 0.85rem; color: var(--gray-600); font-weight: 400; }
+
+.trend-chart { width: 100%; height: auto; }
+
+.trend-chart circle:hover { r: 5; }
+
+.runs-table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+
+.runs-table th, .runs-table td {
+  padding: 0.4rem 0.5rem;
+  text-align: left;
+  border-bottom: 1px solid var(--gray-200);
+}
+
+.footer { text-align: center; padding: 2rem; color: var(--gray-600); font-size: 0.85rem; }
+</style>`;
+  }
+
+  private generateHeader(
+    title: string,
+    records: HistoryRecord[],
+    filters: Record<string, string>,
+  ): string {
+    const first = records[0];
+    const last = records[records.length - 1];
+    const items = [
+      ...Object.entries(filters).map(([label, value]) => [label, value]),
+      ['Runs', String(records.length)],
+      ...(first && last
+        ? [
+            ['From', new Date(first.recorded_at).toLocaleString()],
+            ['To', new Date(last.recorded_at).toLocaleString()],
+          ]
+        : []),
+    ];
+
+    return `
+    <div class="header">
+      <h1>📈 ${this.escapeHtml(title)}</h1>
+      <div class="header-meta">
+        ${items
+          .map(
+            ([label, value]) => `
+        <div class="header-meta-item">
+          <span class="header-meta-label">${this.escapeHtml(label!)}</span>
+          <span>${this.escapeHtml(value!)}</span>
+        </div>`,
+          )
+          .join('')}
+      </div>
+    </div>`;
+  }
+
+  /**
+   * Line chart of one metric with a tooltip per run
+   */
+  private generateTrendCard(trend: MetricTrend): string {
+    const color = DIRECTION_COLORS[trend.direction];
+    const count = trend.points.length;
+    const range = trend.max - trend.min;
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+    const coordinates = trend.points.map((point, i) => {
+      const x =
+        CHART_PADDING +
+        (count > 1 ? (i / (count - 1)) * plotWidth : plotWidth / 2);
+      const y =
+        CHART_PADDING +
+        (range > 0 ? 1 - (point.value - trend.min) / range : 0.5) * plotHeight;
+      return { point, x, y };
+    });
+
+    const polyline = coordinates
+      .map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`)
+      .join(' ');
+    const circles = coordinates
+      .map(({ point, x, y }) => {
+        const commit = point.git_commit
+          ? ` @ ${point.git_commit.slice(0, 8)}`
+          : '';
+        const tooltip = `${point.run_id}${commit}\n${new Date(point.recorded_at).toLocaleString()}\n${this.formatValue(point.value, trend.unit)}`;
+        return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3" fill="${color}"><title>${this.escapeHtml(tooltip)}</title></circle>`;
+      })
+      .join('');
+    const baseline =
+      trend.baseline !== undefined && range > 0
+        ? CHART_PADDING +
+          (1 - (trend.baseline - trend.min) / range) * plotHeight
+        : undefined;
+
+    const change =
+      trend.change_pct !== undefined
+        ? ` · <span style="color: ${color};">${trend.change_pct > 0 ? '+' : ''}${trend.change_pct}% vs median (${trend.direction})</span>`
+        : '';
+
+    return `
+    <div class="card">
+      <h2 class="card-title">
+        <span>${this.escapeHtml(trend.label)}</span>
+        <span class="trend-stats">latest ${this.formatValue(trend.latest, trend.unit)} · min ${this.formatValue(trend.min, trend.unit)} · max ${this.formatValue(trend.max, trend.unit)} · mean ${this.formatValue(trend.mean, trend.unit)}${change}</span>
+      </h2>
+      <svg class="trend-chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none">
+        ${baseline !== undefined ? `<line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${baseline.toFixed(1)}" y2="${baseline.toFixed(1)}" stroke="#d1d5db" stroke-dasharray="4 4" />` : ''}
+        <polyline points="${polyline}" fill="none" stroke="${color}" stroke-width="2" />
+        ${circles}
+      </svg>
+    </div>`;
+  }
+
+  private generateRunsTable(records: HistoryRecord[]): string {
+    const rows = [...records]
+      .reverse()
+      .map(
+        (record) => `
+          <tr>
+            <td>${new Date(record.recorded_at).toLocaleString()}</td>
+            <td><code>${this.escapeHtml(record.id)}</code></td>
+            <td>${this.escapeHtml(record.branch ?? '-')}</td>
+            <td><code>${this.escapeHtml(record.git_commit?.slice(0, 8) ?? '-')}</code></td>
+            <td>${record.summary.frames.avg_fps.toFixed(1)}</td>
+            <td>${record.summary.frames.dropped}</td>
+            <td>${record.detections.length}</td>
+          </tr>`,
+      )
+      .join('');
+
+    return `
+    <div class="card">
+      <h2 class="card-title">Runs</h2>
+      <table class="runs-table">
+        <thead>
+          <tr><th>Recorded</th><th>Run</th><th>Branch</th><th>Commit</th><th>Avg FPS</th><th>Dropped</th><th>Detections</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+  }
+
+  private formatValue(value: number, unit: string): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    if (unit === '%') return `${rounded}%`;
+    return unit ? `${rounded} ${unit}` : String(rounded);
+  }
+
+  /**
+   * Escape HTML special characters
+   */
+  private escapeHtml(text: string): string {
+    const htmlEntities: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#39;',
+    };
+    return text.replace(/[&<>"']/g, (char) => htmlEntities[char] ?? char);
+  }
+}
@@ -4,4 +4,5 @@
 
 export * from './rules.module.js';
 export * from './rules.service.js';
+export * from './rule-baseline.service.js';
 export * from './interfaces/index.js';
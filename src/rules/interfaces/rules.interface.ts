@@ -6,9 +6,18 @@ import type {
   Rule,
   RuleSet,
   RuleMetric,
+  RuleScope,
   RuleThresholds,
 } from '../../shared/types/config.types.js';
-import type { Severity } from '../../shared/types/detection.types.js';
+import type {
+  Detection,
+  Severity,
+} from '../../shared/types/detection.types.js';
+import type {
+  TraceData,
+  TraceSummary,
+} from '../../shared/types/trace.types.js';
+import type { FrameMetricsSummary } from '../../adapters/models/index.js';
 
 /**
  * Result of rule validation
@@ -39,18 +48,41 @@ export interface RuleEvaluation {
   value: number;
   violated: boolean;
   triggeredSeverity: Severity | null;
+  /** Threshold that was exceeded, resolved against any baseline */
+  threshold?: number;
   message: string;
 }
 
+/**
+ * Thresholds with relative values resolved to numbers
+ */
+export type ResolvedThresholds = Partial<Record<Severity, number>>;
+
 /**
  * Metrics that can be evaluated against rules
  */
-export interface MetricsData {
-  p95_frame_time?: number;
-  dropped_frames_pct?: number;
-  reflow_cost_ms?: number;
-  gpu_stall_ms?: number;
-  long_task_ms?: number;
+export type MetricsData = Partial<Record<RuleMetric, number>>;
+
+/**
+ * What rule metrics are extracted from besides the trace summary. Frame
+ * time percentiles need the trace or frame metrics, and detection counts
+ * need the detections.
+ */
+export interface MetricSources {
+  trace?: TraceData;
+  /** Used instead of the trace for frame times */
+  frameMetrics?: FrameMetricsSummary;
+  detections?: Detection[];
+}
+
+/**
+ * Where rules are being evaluated, for scoping and baseline thresholds
+ */
+export interface RuleContext {
+  url?: string;
+  scenario?: string;
+  /** Metrics of baseline runs, by branch */
+  baselines?: Record<string, MetricsData>;
 }
 
 /**
@@ -63,6 +95,27 @@ export interface RulesEvaluationResult {
   passed: boolean;
 }
 
+/**
+ * Context for evaluating rules, with the baselines it could not load
+ */
+export interface ResolvedRuleContext {
+  context: RuleContext;
+  /** Branches the rules compare against that have no recorded runs */
+  missingBaselines: string[];
+}
+
+/**
+ * A rule's value and thresholds, formatted for display
+ */
+export interface RuleDescription {
+  /** The metric, or the expression in canonical form */
+  value: string;
+  /** Whether the rule triggers on a boolean expression */
+  condition: boolean;
+  thresholds: Array<{ severity: Severity; value: string }>;
+  scope: string[];
+}
+
 /**
  * Rules service interface
  */
@@ -80,12 +133,46 @@ export interface IRulesService {
   /**
    * Evaluate a single rule against a metric value
    */
-  evaluateRule(rule: Rule, value: number): RuleEvaluation;
+  evaluateRule(
+    rule: Rule,
+    value: number,
+    thresholds?: ResolvedThresholds,
+  ): RuleEvaluation;
 
   /**
    * Evaluate all rules against provided metrics
    */
-  evaluateAllRules(rules: RuleSet, metrics: MetricsData): RulesEvaluationResult;
+  evaluateAllRules(
+    rules: RuleSet,
+    metrics: MetricsData,
+    context?: RuleContext,
+  ): RulesEvaluationResult;
+
+  /**
+   * Branches the rules compare against
+   */
+  getBaselineRefs(rules: RuleSet): string[];
+
+  /**
+   * Metrics a rule reads, from its metric or expression
+   */
+  getRuleMetrics(rule: Rule): string[];
+
+  /**
+   * Format a rule's value and thresholds for display
+   */
+  describeRule(rule: Rule): RuleDescription;
+
+  /**
+   * Whether a metric value is at or past a threshold, in the metric's
+   * direction
+   */
+  meetsThreshold(metric: string, value: number, threshold: number): boolean;
+
+  /**
+   * Extract rule metrics from an analyzed trace summary
+   */
+  extractMetrics(summary: TraceSummary, sources?: MetricSources): MetricsData;
 
   /**
    * List all rules from the loaded rule set
@@ -99,5 +186,5 @@ export interface IRulesService {
 }
 
 // Re-export types for convenience
-export type { Rule, RuleSet, RuleMetric, RuleThresholds };
+export type { Rule, RuleSet, RuleMetric, RuleScope, RuleThresholds };
 export type { Severity };
@@ -0,0 +1,88 @@
+/**
+ * Rule Baseline Service - Resolves the context rules are evaluated in,
+ * loading the baselines relative thresholds compare against from the run
+ * history
+ */
+
+import { Injectable } from '@nestjs/common';
+import { RulesService, VALID_METRICS } from './rules.service.js';
+import { HistoryService } from '../history/history.service.js';
+import { median } from '../shared/utils/statistics.js';
+import type {
+  MetricsData,
+  ResolvedRuleContext,
+  RuleSet,
+} from './interfaces/rules.interface.js';
+
+/** Recent runs on a baseline branch whose median metrics are compared to */
+export const BASELINE_RUNS = 5;
+
+@Injectable()
+export class RuleBaselineService {
+  constructor(
+    private readonly rulesService: RulesService,
+    private readonly historyService: HistoryService,
+  ) {}
+
+  /**
+   * Scope rules to a page and scenario, and load the baselines they
+   * compare against from runs recorded for the same page and scenario
+   */
+  async resolveContext(
+    rules: RuleSet,
+    url: string,
+    scenario?: string,
+  ): Promise<ResolvedRuleContext> {
+    const baselines: Record<string, MetricsData> = {};
+    const missingBaselines: string[] = [];
+
+    for (const ref of this.rulesService.getBaselineRefs(rules)) {
+      const baseline = await this.loadBaseline(ref, url, scenario);
+      if (baseline) {
+        baselines[ref] = baseline;
+      } else {
+        missingBaselines.push(ref);
+      }
+    }
+
+    return { context: { url, scenario, baselines }, missingBaselines };
+  }
+
+  /**
+   * Median rule metrics of the latest recorded runs on a branch
+   */
+  private async loadBaseline(
+    ref: string,
+    url: string,
+    scenario?: string,
+  ): Promise<MetricsData | undefined> {
+    let metrics: MetricsData[];
+    try {
+      const runs = await this.historyService.getRuns({
+        url,
+        scenario,
+        branch: ref,
+        limit: BASELINE_RUNS,
+      });
+      metrics = runs.map((run) =>
+        this.rulesService.extractMetrics(run.summary, {
+          detections: run.detections,
+        }),
+      );
+    } catch {
+      return undefined;
+    }
+    if (metrics.length === 0) return undefined;
+
+    const baseline: MetricsData = {};
+    for (const key of VALID_METRICS) {
+      const values = metrics
+        .map((m) => m[key])
+        .filter((value): value is number => value !== undefined);
+      if (values.length > 0) {
+        baseline[key] = median(values);
+      }
+    }
+    return baseline;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for rule expression parsing, type-checking and evaluation
+ */
+
+import {
+  checkRuleExpression,
+  evaluateRuleExpression,
+  formatRuleExpression,
+  parseRelativeThreshold,
+  parseRuleExpression,
+} from './rule-expression.js';
+import { RuleExpressionError } from '../errors/error-types.js';
+
+const METRICS = ['dropped_frames_pct', 'p95_frame_time', 'long_task_ms'];
+
+function check(source: string) {
+  return checkRuleExpression(parseRuleExpression(source), METRICS, source);
+}
+
+describe('rule-expression', () => {
+  it('should parse with precedence and format back canonically', () => {
+    const cases: Array<[string, string]> = [
+      [
+        '(dropped_frames_pct > 5) && (p95_frame_time>25)',
+        'dropped_frames_pct > 5 and p95_frame_time > 25',
+      ],
+      ['(long_task_ms / 2) * 1000', 'long_task_ms / 2 * 1000'],
+      ['long_task_ms / (2 * 1000)', 'long_task_ms / (2 * 1000)'],
+      [
+        '!(p95_frame_time > 25 || dropped_frames_pct > 5)',
+        'not (p95_frame_time > 25 or dropped_frames_pct > 5)',
+      ],
+      [
+        'p95_frame_time > 1 and not long_task_ms > 2',
+        'p95_frame_time > 1 and not long_task_ms > 2',
+      ],
+      ['-(p95_frame_time - 1)', '-(p95_frame_time - 1)'],
+      [
+        'p95_frame_time > baseline("main", p95_frame_time) * 1.15',
+        "p95_frame_time > baseline('main', p95_frame_time) * 1.15",
+      ],
+    ];
+
+    for (const [source, formatted] of cases) {
+      const node = parseRuleExpression(source);
+      expect(formatRuleExpression(node)).toBe(formatted);
+      expect(parseRuleExpression(formatted)).toEqual(node);
+    }
+
+    expect(parseRelativeThreshold('+15% vs main')).toEqual({
+      delta: 15,
+      percent: true,
+      ref: 'main',
+    });
+    expect(parseRelativeThreshold('-2.5 vs release/1.2')).toEqual({
+      delta: -2.5,
+      percent: false,
+      ref: 'release/1.2',
+    });
+    expect(parseRelativeThreshold('15% more than main')).toBeNull();
+  });
+
+  it('should report syntax and type errors', () => {
+    const reason = (source: string) => {
+      try {
+        check(source);
+      } catch (error) {
+        expect(error).toBeInstanceOf(RuleExpressionError);
+        return (error as RuleExpressionError).reason;
+      }
+      return undefined;
+    };
+
+    expect(check('dropped_frames_pct > 5 and p95_frame_time > 25')).toBe(
+      'boolean',
+    );
+    expect(check('long_task_ms / max(p95_frame_time, 1)')).toBe('number');
+
+    expect(reason('p95_frame_time >')).toBe(
+      'unexpected end of expression at position 17',
+    );
+    expect(reason('1 < p95_frame_time < 5')).toBe(
+      'comparisons cannot be chained, combine them with and at position 20',
+    );
+    expect(reason('fps > 30')).toMatch(/^unknown metric fps\. Valid metrics/);
+    expect(reason('p95_frame_time and dropped_frames_pct > 5')).toBe(
+      "'and' expects a boolean, got a number",
+    );
+    expect(reason('baseline(main, p95_frame_time)')).toMatch(
+      /^baseline\(\) takes a branch name/,
+    );
+    expect(reason('median(p95_frame_time)')).toMatch(
+      /^unknown function median\(\)/,
+    );
+  });
+
+  it('should evaluate against metrics and baselines, leaving out missing values', () => {
+    const evaluate = (source: string) =>
+      evaluateRuleExpression(parseRuleExpression(source), {
+        metrics: { dropped_frames_pct: 8, p95_frame_time: 30 },
+        baselines: { main: { p95_frame_time: 24 } },
+      });
+
+    expect(evaluate('dropped_frames_pct > 5 and p95_frame_time > 25')).toBe(
+      true,
+    );
+    expect(evaluate("p95_frame_time / baseline('main', p95_frame_time)")).toBe(
+      1.25,
+    );
+    // Missing metric, baseline or a zero divisor
+    expect(evaluate('long_task_ms > 100')).toBeUndefined();
+    expect(evaluate("baseline('next', p95_frame_time)")).toBeUndefined();
+    expect(
+      evaluate('p95_frame_time / (dropped_frames_pct - 8)'),
+    ).toBeUndefined();
+    // ...unless the other side decides the result
+    expect(evaluate('dropped_frames_pct > 10 and long_task_ms > 100')).toBe(
+      false,
+    );
+    expect(evaluate('dropped_frames_pct > 5 or long_task_ms > 100')).toBe(true);
+  });
+});
@@ -0,0 +1,618 @@
+/**
+ * Rule Expressions - Parses, type-checks, evaluates and formats the
+ * expressions rules.yaml rules can use instead of a single metric
+ *
+ * Expressions combine metrics with arithmetic (`+ - * /`), comparisons
+ * (`> >= < <= == !=`), logic (`and or not`) and the functions `min`, `max`,
+ * `abs` and `baseline('<branch>', <expr>)`, for example:
+ *
+ *   dropped_frames_pct > 5 and p95_frame_time > 25
+ *   long_task_ms / frame_count * 1000
+ *   p95_frame_time > baseline('main', p95_frame_time) * 1.15
+ */
+
+import type { MetricsData } from './interfaces/rules.interface.js';
+import { RuleExpressionError } from '../errors/error-types.js';
+
+export type ExpressionType = 'number' | 'boolean' | 'string';
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | '=='
+  | '!='
+  | 'and'
+  | 'or';
+
+export type RuleExpression =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'metric'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; operand: RuleExpression }
+  | {
+      kind: 'binary';
+      op: BinaryOperator;
+      left: RuleExpression;
+      right: RuleExpression;
+    }
+  | { kind: 'call'; name: string; args: RuleExpression[] };
+
+/**
+ * Metric values an expression is evaluated against
+ */
+export interface ExpressionScope {
+  metrics: MetricsData;
+  /** Metrics of baseline runs, by branch */
+  baselines?: Record<string, MetricsData>;
+}
+
+/**
+ * A threshold relative to the rule's value on a baseline branch
+ */
+export interface RelativeThreshold {
+  /** Amount added to the baseline value */
+  delta: number;
+  /** Whether delta is a percentage of the baseline value */
+  percent: boolean;
+  ref: string;
+}
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+/** Operators by precedence, loosest first */
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  or: 1,
+  and: 2,
+  '>': 4,
+  '>=': 4,
+  '<': 4,
+  '<=': 4,
+  '==': 4,
+  '!=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+};
+
+/** Precedence of `not` and unary minus, used when formatting */
+const NOT_PRECEDENCE = 3;
+const NEGATE_PRECEDENCE = 7;
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+};
+
+const OPERATORS = ['>=', '<=', '==', '!=', '&&', '||', '>', '<', '!'];
+const SINGLE_CHAR_TOKENS = '+-*/(),';
+
+const RELATIVE_THRESHOLD = /^([+-]\d+(?:\.\d+)?)(%?)\s+vs\s+(\S+)$/;
+
+/**
+ * Parse an expression into its syntax tree
+ * @throws RuleExpressionError on syntax errors
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  return new Parser(source).parse();
+}
+
+/**
+ * Check that an expression only uses known metrics and functions, with
+ * operands of the right types
+ * @param metrics Metrics the expression may refer to
+ * @returns The type the expression evaluates to
+ * @throws RuleExpressionError on type errors
+ */
+export function checkRuleExpression(
+  node: RuleExpression,
+  metrics: readonly string[],
+  source = formatRuleExpression(node),
+): ExpressionType {
+  const fail = (reason: string): never => {
+    throw new RuleExpressionError(source, reason);
+  };
+  const expect = (
+    operand: RuleExpression,
+    type: ExpressionType,
+    context: string,
+  ) => {
+    const actual = checkRuleExpression(operand, metrics, source);
+    if (actual !== type) {
+      fail(`${context} expects a ${type}, got a ${actual}`);
+    }
+  };
+
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'metric':
+      if (!metrics.includes(node.name)) {
+        fail(
+          `unknown metric ${node.name}. Valid metrics: ${metrics.join(', ')}`,
+        );
+      }
+      return 'number';
+    case 'unary':
+      expect(
+        node.operand,
+        node.op === 'not' ? 'boolean' : 'number',
+        `'${node.op}'`,
+      );
+      return node.op === 'not' ? 'boolean' : 'number';
+    case 'binary': {
+      const logical = node.op === 'and' || node.op === 'or';
+      expect(node.left, logical ? 'boolean' : 'number', `'${node.op}'`);
+      expect(node.right, logical ? 'boolean' : 'number', `'${node.op}'`);
+      return PRECEDENCE[node.op] <= PRECEDENCE['>'] ? 'boolean' : 'number';
+    }
+    case 'call':
+      switch (node.name) {
+        case 'min':
+        case 'max':
+          if (node.args.length === 0) {
+            fail(`${node.name}() needs at least one argument`);
+          }
+          node.args.forEach((arg) => expect(arg, 'number', `${node.name}()`));
+          return 'number';
+        case 'abs':
+          if (node.args.length !== 1) {
+            fail('abs() takes one argument');
+          }
+          expect(node.args[0]!, 'number', 'abs()');
+          return 'number';
+        case 'baseline': {
+          const [ref, value] = node.args;
+          if (node.args.length !== 2 || ref?.kind !== 'string') {
+            fail(
+              "baseline() takes a branch name and a value, as in baseline('main', p95_frame_time)",
+            );
+          }
+          if (containsBaseline(value!)) {
+            fail('baseline() cannot be nested');
+          }
+          expect(value!, 'number', 'baseline()');
+          return 'number';
+        }
+        default:
+          return fail(
+            `unknown function ${node.name}(). Valid functions: min, max, abs, baseline`,
+          );
+      }
+  }
+}
+
+/**
+ * Evaluate a type-checked expression
+ * @returns Undefined when a metric or baseline it needs is missing, or it
+ * divides by zero
+ */
+export function evaluateRuleExpression(
+  node: RuleExpression,
+  scope: ExpressionScope,
+): number | boolean | undefined {
+  const evaluate = (n: RuleExpression) => evaluateRuleExpression(n, scope);
+  const num = (n: RuleExpression) => evaluate(n) as number | undefined;
+  const bool = (n: RuleExpression) => evaluate(n) as boolean | undefined;
+
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'string':
+      return undefined;
+    case 'metric':
+      return scope.metrics[node.name as keyof MetricsData] ?? undefined;
+    case 'unary': {
+      if (node.op === 'not') {
+        const operand = bool(node.operand);
+        return operand === undefined ? undefined : !operand;
+      }
+      const operand = num(node.operand);
+      return operand === undefined ? undefined : -operand;
+    }
+    case 'binary': {
+      // `false and x` and `true or x` hold even when x is missing
+      if (node.op === 'and' || node.op === 'or') {
+        const left = bool(node.left);
+        const decided = node.op === 'or';
+        if (left === decided) return decided;
+        const right = bool(node.right);
+        if (right === decided) return decided;
+        return left === undefined || right === undefined ? undefined : !decided;
+      }
+      const left = num(node.left);
+      const right = num(node.right);
+      if (left === undefined || right === undefined) return undefined;
+      switch (node.op) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? undefined : left / right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+      }
+      return undefined;
+    }
+    case 'call': {
+      if (node.name === 'baseline') {
+        const [ref, value] = node.args;
+        const metrics =
+          ref?.kind === 'string' ? scope.baselines?.[ref.value] : undefined;
+        return metrics && value
+          ? evaluateRuleExpression(value, { metrics })
+          : undefined;
+      }
+      const args = node.args.map(num);
+      if (args.some((arg) => arg === undefined)) return undefined;
+      const values = args as number[];
+      switch (node.name) {
+        case 'min':
+          return Math.min(...values);
+        case 'max':
+          return Math.max(...values);
+        case 'abs':
+          return Math.abs(values[0]!);
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Format an expression canonically, with only the parentheses it needs
+ */
+export function formatRuleExpression(node: RuleExpression): string {
+  return format(node, 0);
+}
+
+/**
+ * Metrics an expression refers to, outside of baseline() too
+ */
+export function collectExpressionMetrics(node: RuleExpression): string[] {
+  const metrics = new Set<string>();
+  walk(node, (n) => {
+    if (n.kind === 'metric') metrics.add(n.name);
+  });
+  return [...metrics];
+}
+
+/**
+ * Branches an expression compares against with baseline()
+ */
+export function collectBaselineRefs(node: RuleExpression): string[] {
+  const refs = new Set<string>();
+  walk(node, (n) => {
+    if (n.kind === 'call' && n.name === 'baseline') {
+      const [ref] = n.args;
+      if (ref?.kind === 'string') refs.add(ref.value);
+    }
+  });
+  return [...refs];
+}
+
+/**
+ * Parse a threshold such as `+15% vs main`
+ * @returns Null if the value is not a relative threshold
+ */
+export function parseRelativeThreshold(
+  value: string,
+): RelativeThreshold | null {
+  const match = RELATIVE_THRESHOLD.exec(value.trim());
+  if (!match) return null;
+  return {
+    delta: Number(match[1]),
+    percent: match[2] === '%',
+    ref: match[3]!,
+  };
+}
+
+/**
+ * Format a relative threshold back into its rules.yaml form
+ */
+export function formatRelativeThreshold(threshold: RelativeThreshold): string {
+  const sign = threshold.delta < 0 ? '-' : '+';
+  return `${sign}${Math.abs(threshold.delta)}${threshold.percent ? '%' : ''} vs ${threshold.ref}`;
+}
+
+/**
+ * Apply a relative threshold to the baseline value
+ */
+export function resolveRelativeThreshold(
+  threshold: RelativeThreshold,
+  baseline: number,
+): number {
+  return threshold.percent
+    ? baseline * (1 + threshold.delta / 100)
+    : baseline + threshold.delta;
+}
+
+function containsBaseline(node: RuleExpression): boolean {
+  let found = false;
+  walk(node, (n) => {
+    if (n.kind === 'call' && n.name === 'baseline') found = true;
+  });
+  return found;
+}
+
+function walk(node: RuleExpression, visit: (node: RuleExpression) => void) {
+  visit(node);
+  switch (node.kind) {
+    case 'unary':
+      walk(node.operand, visit);
+      break;
+    case 'binary':
+      walk(node.left, visit);
+      walk(node.right, visit);
+      break;
+    case 'call':
+      node.args.forEach((arg) => walk(arg, visit));
+      break;
+  }
+}
+
+function format(node: RuleExpression, parentPrecedence: number): string {
+  switch (node.kind) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return `'${node.value}'`;
+    case 'metric':
+      return node.name;
+    case 'call':
+      return `${node.name}(${node.args.map((arg) => format(arg, 0)).join(', ')})`;
+    case 'unary': {
+      const precedence = node.op === 'not' ? NOT_PRECEDENCE : NEGATE_PRECEDENCE;
+      const text =
+        node.op === 'not'
+          ? `not ${format(node.operand, precedence)}`
+          : `-${format(node.operand, precedence)}`;
+      return precedence < parentPrecedence ? `(${text})` : text;
+    }
+    case 'binary': {
+      const precedence = PRECEDENCE[node.op];
+      // Operators are left-associative
+      const text = `${format(node.left, precedence)} ${node.op} ${format(node.right, precedence + 1)}`;
+      return precedence < parentPrecedence ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Recursive descent parser over the tokenized expression
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): RuleExpression {
+    if (this.peek().type === 'end') {
+      this.fail('expression is empty');
+    }
+    const node = this.parseBinary(PRECEDENCE.or);
+    const next = this.peek();
+    if (next.type !== 'end') {
+      this.fail(`unexpected ${this.describe(next)}`, next.pos);
+    }
+    return node;
+  }
+
+  /**
+   * Parse operators binding at least as tightly as minPrecedence
+   */
+  private parseBinary(minPrecedence: number): RuleExpression {
+    let left =
+      minPrecedence <= NOT_PRECEDENCE && this.isOperator('not')
+        ? this.parseNot()
+        : this.parseUnary();
+
+    for (;;) {
+      const op = this.peekBinaryOperator();
+      if (!op || PRECEDENCE[op] < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      // not binds looser than comparisons, so `a and not b > 1` negates
+      // the comparison
+      const right = this.parseBinary(PRECEDENCE[op] + 1);
+      left = { kind: 'binary', op, left, right };
+
+      if (PRECEDENCE[op] === PRECEDENCE['>']) {
+        const next = this.peekBinaryOperator();
+        if (next && PRECEDENCE[next] === PRECEDENCE['>']) {
+          this.fail(
+            'comparisons cannot be chained, combine them with and',
+            this.peek().pos,
+          );
+        }
+      }
+    }
+  }
+
+  private parseNot(): RuleExpression {
+    this.index++;
+    const operand = this.isOperator('not')
+      ? this.parseNot()
+      : this.parseBinary(NOT_PRECEDENCE + 1);
+    return { kind: 'unary', op: 'not', operand };
+  }
+
+  private parseUnary(): RuleExpression {
+    if (this.isOperator('-')) {
+      this.index++;
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleExpression {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value };
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'ident': {
+        if (!this.isOperator('(')) {
+          return { kind: 'metric', name: token.value };
+        }
+        this.index++;
+        const args: RuleExpression[] = [];
+        if (!this.isOperator(')')) {
+          do {
+            args.push(this.parseBinary(PRECEDENCE.or));
+          } while (this.consumeOperator(','));
+        }
+        this.expectOperator(')');
+        return { kind: 'call', name: token.value, args };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const node = this.parseBinary(PRECEDENCE.or);
+          this.expectOperator(')');
+          return node;
+        }
+        break;
+    }
+    return this.fail(`unexpected ${this.describe(token)}`, token.pos);
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let pos = 0;
+
+    while (pos < source.length) {
+      const char = source[pos]!;
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      const number = /^(?:\d+(?:\.\d*)?|\.\d+)/.exec(source.slice(pos));
+      if (number) {
+        tokens.push({ type: 'number', value: Number(number[0]), pos });
+        pos += number[0].length;
+        continue;
+      }
+
+      const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+      if (ident) {
+        const word = ident[0];
+        const keyword = ['and', 'or', 'not'].includes(word);
+        tokens.push({ type: keyword ? 'op' : 'ident', value: word, pos });
+        pos += word.length;
+        continue;
+      }
+
+      if (char === "'" || char === '"') {
+        const end = source.indexOf(char, pos + 1);
+        if (end === -1) {
+          this.fail('unterminated string', pos);
+        }
+        tokens.push({
+          type: 'string',
+          value: source.slice(pos + 1, end),
+          pos,
+        });
+        pos = end + 1;
+        continue;
+      }
+
+      const op = OPERATORS.find((o) => source.startsWith(o, pos));
+      if (op) {
+        tokens.push({ type: 'op', value: OPERATOR_ALIASES[op] ?? op, pos });
+        pos += op.length;
+        continue;
+      }
+
+      if (SINGLE_CHAR_TOKENS.includes(char)) {
+        tokens.push({ type: 'op', value: char, pos });
+        pos++;
+        continue;
+      }
+
+      this.fail(`unexpected character '${char}'`, pos);
+    }
+
+    tokens.push({ type: 'end', pos });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private peekBinaryOperator(): BinaryOperator | null {
+    const token = this.peek();
+    return token.type === 'op' && Object.hasOwn(PRECEDENCE, token.value)
+      ? (token.value as BinaryOperator)
+      : null;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private consumeOperator(value: string): boolean {
+    if (!this.isOperator(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek();
+    if (!this.consumeOperator(value)) {
+      this.fail(`expected '${value}', got ${this.describe(token)}`, token.pos);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+  }
+
+  private fail(reason: string, pos?: number): never {
+    throw new RuleExpressionError(
+      this.source,
+      pos === undefined ? reason : `${reason} at position ${pos + 1}`,
+    );
+  }
+}
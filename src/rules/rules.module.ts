@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { RulesService } from './rules.service.js';
+import { RuleBaselineService } from './rule-baseline.service.js';
+import { HistoryModule } from '../history/history.module.js';
 
 @Module({
-  providers: [RulesService],
-  exports: [RulesService],
+  imports: [HistoryModule],
+  providers: [RulesService, RuleBaselineService],
+  exports: [RulesService, RuleBaselineService],
 })
 export class RulesModule {}
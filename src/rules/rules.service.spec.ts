@@ -0,0 +1,329 @@
+/**
+ * Unit tests for RulesService expression rules, scoping, baseline
+ * thresholds and metric extraction
+ */
+
+import { RulesService } from './rules.service.js';
+import type { Rule, RuleSet } from './interfaces/index.js';
+import type { Detection, TraceSummary } from '../shared/types/index.js';
+import type { FrameMetricsSummary } from '../adapters/models/index.js';
+
+function rule(overrides: Partial<Rule>): Rule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    description: 'Test rule',
+    severity: 'high',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('RulesService', () => {
+  let service: RulesService;
+
+  beforeEach(() => {
+    service = new RulesService();
+  });
+
+  it('should type-check expressions and thresholds when validating', () => {
+    const result = service.validateRules({
+      version: '1.0',
+      rules: [
+        rule({
+          id: 'janky',
+          expression: 'dropped_frames_pct > 5 and p95_frame_time > 25',
+        }),
+        rule({
+          id: 'long_tasks_per_frame',
+          expression: 'long_task_ms / frame_count * 1000',
+          thresholds: { warning: 500, high: '+15% vs main' },
+          scope: { urls: ['*/checkout*'], scenarios: ['scroll-heavy'] },
+        }),
+        rule({ id: 'typo', expression: 'dropped_frame_pct > 5' }),
+        rule({
+          id: 'condition_thresholds',
+          expression: 'p95_frame_time > 25',
+          thresholds: { warning: 1 },
+        }),
+        rule({
+          id: 'both',
+          metric: 'p95_frame_time',
+          expression: 'p95_frame_time',
+          thresholds: { warning: 25 },
+        }),
+        rule({
+          id: 'bad_threshold',
+          metric: 'p95_frame_time',
+          thresholds: { warning: '15% more than main' },
+        }),
+      ],
+    });
+
+    expect(result.errors.map((e) => [e.ruleId, e.field, e.message])).toEqual([
+      [
+        'typo',
+        'expression',
+        expect.stringContaining('unknown metric dropped_frame_pct'),
+      ],
+      [
+        'condition_thresholds',
+        'thresholds',
+        'Boolean expressions trigger at the rule severity and take no thresholds',
+      ],
+      ['both', 'expression', 'Use either metric or expression, not both'],
+      [
+        'bad_threshold',
+        'thresholds.warning',
+        'Threshold warning must be a number or relative to a baseline, as in "+15% vs main"',
+      ],
+    ]);
+
+    expect(
+      service.describeRule(
+        rule({
+          expression: '(long_task_ms/frame_count)*1000',
+          thresholds: { warning: 500, high: '+15%  vs main' },
+          scope: { urls: ['*/checkout*'] },
+        }),
+      ),
+    ).toEqual({
+      value: 'long_task_ms / frame_count * 1000',
+      condition: false,
+      thresholds: [
+        { severity: 'warning', value: '500' },
+        { severity: 'high', value: '+15% vs main' },
+      ],
+      scope: ['urls: */checkout*'],
+    });
+  });
+
+  it('should evaluate composite and scoped rules', () => {
+    const rules: RuleSet = {
+      version: '1.0',
+      rules: [
+        rule({
+          id: 'janky',
+          severity: 'critical',
+          expression: 'dropped_frames_pct > 5 and p95_frame_time > 25',
+        }),
+        rule({
+          id: 'checkout_long_tasks',
+          expression: 'long_task_ms / frame_count * 1000',
+          thresholds: { warning: 500, high: 1000 },
+          scope: { urls: ['https://shop.test/checkout*'] },
+        }),
+      ],
+    };
+    const metrics = {
+      dropped_frames_pct: 8,
+      p95_frame_time: 30,
+      long_task_ms: 300,
+      frame_count: 500,
+    };
+
+    const checkout = service.evaluateAllRules(rules, metrics, {
+      url: 'https://shop.test/checkout?step=2',
+    });
+    expect(
+      checkout.evaluations.map((e) => [
+        e.rule.id,
+        e.value,
+        e.triggeredSeverity,
+        e.threshold,
+      ]),
+    ).toEqual([
+      ['janky', 1, 'critical', undefined],
+      ['checkout_long_tasks', 600, 'warning', 500],
+    ]);
+    expect(checkout.maxSeverity).toBe('critical');
+    expect(checkout.evaluations[0]!.message).toBe(
+      'Rule: dropped_frames_pct > 5 and p95_frame_time > 25 holds',
+    );
+
+    // Out of scope, and not janky
+    const home = service.evaluateAllRules(
+      rules,
+      { ...metrics, dropped_frames_pct: 2 },
+      { url: 'https://shop.test/' },
+    );
+    expect(home.evaluations.map((e) => [e.rule.id, e.violated])).toEqual([
+      ['janky', false],
+    ]);
+    expect(home.passed).toBe(true);
+  });
+
+  it('should resolve thresholds relative to baselines', () => {
+    const rules: RuleSet = {
+      version: '1.0',
+      rules: [
+        rule({
+          id: 'p95_vs_main',
+          metric: 'p95_frame_time',
+          thresholds: { warning: '+10% vs main', critical: 50 },
+        }),
+        rule({
+          id: 'p95_vs_release',
+          metric: 'p95_frame_time',
+          thresholds: { warning: '+5 vs release' },
+        }),
+      ],
+    };
+    expect(service.getBaselineRefs(rules)).toEqual(['main', 'release']);
+
+    const result = service.evaluateAllRules(
+      rules,
+      { p95_frame_time: 23 },
+      { baselines: { main: { p95_frame_time: 20 } } },
+    );
+
+    // Without a release baseline, that rule has nothing to compare against
+    expect(result.evaluations).toHaveLength(1);
+    expect(result.violations[0]).toMatchObject({
+      value: 23,
+      triggeredSeverity: 'warning',
+      threshold: 22,
+      message: 'Rule: 23 exceeds warning threshold (22)',
+    });
+  });
+
+  it('should treat thresholds of higher-is-better metrics as minimums', () => {
+    const rules: RuleSet = {
+      version: '1.0',
+      rules: [
+        rule({
+          id: 'fps',
+          metric: 'avg_fps',
+          thresholds: { warning: 50, critical: 20 },
+        }),
+        rule({
+          id: 'p95',
+          metric: 'p95_frame_time',
+          thresholds: { warning: 20, critical: 50 },
+        }),
+      ],
+    };
+    const evaluate = (metrics: { avg_fps: number; p95_frame_time: number }) =>
+      service
+        .evaluateAllRules(rules, metrics)
+        .evaluations.map((e) => [e.rule.id, e.triggeredSeverity]);
+
+    // A fast page passes, a slow one fails both rules
+    expect(evaluate({ avg_fps: 60, p95_frame_time: 16 })).toEqual([
+      ['fps', null],
+      ['p95', null],
+    ]);
+    expect(evaluate({ avg_fps: 10, p95_frame_time: 90 })).toEqual([
+      ['fps', 'critical'],
+      ['p95', 'critical'],
+    ]);
+    expect(service.evaluateRule(rules.rules[0]!, 40).message).toBe(
+      'Rule: 40 is below warning threshold (50)',
+    );
+
+    expect(service.meetsThreshold('avg_fps', 30, 30)).toBe(true);
+    expect(service.meetsThreshold('avg_fps', 31, 30)).toBe(false);
+    expect(service.meetsThreshold('long_task_ms', 31, 30)).toBe(true);
+
+    // Minimums are expected to decrease with severity
+    const validation = service.validateRules({
+      version: '1.0',
+      rules: [
+        rule({
+          id: 'fps_order',
+          metric: 'avg_fps',
+          thresholds: { warning: 20, critical: 50 },
+        }),
+      ],
+    });
+    expect(validation.warnings.map((w) => w.message)).toEqual([
+      'Threshold critical (50) should be less than warning (20)',
+    ]);
+  });
+
+  it('should extract every summary field and detection counts as metrics', () => {
+    const summary: TraceSummary = {
+      id: 'summary',
+      name: 'homepage',
+      url: 'https://shop.test/',
+      duration_ms: 2000,
+      frames: { total: 120, dropped: 6, avg_fps: 57, frame_budget_ms: 16.67 },
+      phase_breakdown: {
+        style_recalc_ms: 12,
+        layout_ms: 30,
+        paint_ms: 8,
+        composite_ms: 4,
+        gpu_ms: 2,
+      },
+      hotspots: {
+        layout_thrashing: [],
+        gpu_stalls: [],
+        long_tasks: [
+          {
+            function: 'render',
+            file: 'app.js',
+            line: 1,
+            cpu_ms: 80,
+            occurrences: 1,
+          },
+          {
+            function: 'hydrate',
+            file: 'app.js',
+            line: 2,
+            cpu_ms: 70,
+            occurrences: 1,
+          },
+        ],
+        layout_shifts: [],
+      },
+      suggestions: [],
+      metadata: {} as TraceSummary['metadata'],
+    };
+    const detections = [
+      { type: 'long_task', severity: 'high' },
+      { type: 'long_task', severity: 'warning' },
+      { type: 'layout_thrashing', severity: 'high' },
+    ] as Detection[];
+    const frameMetrics = {
+      totalFrames: 120,
+      p95FrameTimeMs: 21.456,
+      maxFrameTimeMs: 48.2,
+      minFrameTimeMs: 15.9,
+    } as FrameMetricsSummary;
+
+    const metrics = service.extractMetrics(summary, {
+      frameMetrics,
+      detections,
+    });
+
+    expect(metrics).toMatchObject({
+      p95_frame_time: 21.46,
+      max_frame_time: 48.2,
+      min_frame_time: 15.9,
+      dropped_frames_pct: 5,
+      dropped_frames: 6,
+      avg_fps: 57,
+      duration_ms: 2000,
+      layout_ms: 30,
+      gpu_ms: 2,
+      long_task_ms: 150,
+      long_task_hotspots: 2,
+      detections: 3,
+      high_detections: 2,
+      critical_detections: 0,
+      long_task_detections: 2,
+      layout_thrashing_detections: 1,
+      gpu_stall_detections: 0,
+    });
+
+    // Detection counts need the detections
+    expect(service.extractMetrics(summary).detections).toBeUndefined();
+
+    // Summaries recorded before layout shift detection have no layout_shifts
+    const older = {
+      ...summary,
+      hotspots: { ...summary.hotspots, layout_shifts: undefined },
+    };
+    expect(service.extractMetrics(older).layout_shift_hotspots).toBe(0);
+  });
+});
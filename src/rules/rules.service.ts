@@ -1,5 +1,6 @@
 /**
- * Rules Service - Manages performance thresholds and severities
+ * Rules Service - Manages performance thresholds and severities, and
+ * evaluates metric and expression rules
  */
 
 import { Injectable } from '@nestjs/common';
@@ -16,24 +17,95 @@ import type {
   Rule,
   RuleSet,
   RuleMetric,
+  RuleContext,
+  RuleDescription,
+  ResolvedThresholds,
+  MetricSources,
 } from './interfaces/rules.interface.js';
-import type { Severity } from '../shared/types/detection.types.js';
+import type { RuleThresholdValue } from '../shared/types/config.types.js';
+import {
+  DETECTION_TYPES,
+  type Severity,
+} from '../shared/types/detection.types.js';
+import type { TraceSummary } from '../shared/types/trace.types.js';
+import { percentile } from '../shared/utils/statistics.js';
+import {
+  checkRuleExpression,
+  collectBaselineRefs,
+  collectExpressionMetrics,
+  evaluateRuleExpression,
+  formatRelativeThreshold,
+  formatRuleExpression,
+  parseRelativeThreshold,
+  parseRuleExpression,
+  resolveRelativeThreshold,
+  type ExpressionType,
+  type RuleExpression,
+} from './rule-expression.js';
+import { RuleExpressionError } from '../errors/error-types.js';
+
+/** Valid severities in order of increasing severity */
+const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'high', 'critical'];
 
 /** Valid rule metrics */
-const VALID_METRICS: RuleMetric[] = [
+export const VALID_METRICS: RuleMetric[] = [
   'p95_frame_time',
+  'max_frame_time',
+  'min_frame_time',
   'dropped_frames_pct',
+  'dropped_frames',
+  'frame_count',
+  'avg_fps',
+  'frame_budget_ms',
+  'duration_ms',
+  'style_recalc_ms',
+  'layout_ms',
+  'paint_ms',
+  'composite_ms',
+  'gpu_ms',
   'reflow_cost_ms',
   'gpu_stall_ms',
   'long_task_ms',
+  'gc_pause_ms',
+  'cls',
+  'third_party_ms',
+  'layout_thrashing_hotspots',
+  'gpu_stall_hotspots',
+  'long_task_hotspots',
+  'layout_shift_hotspots',
+  'gc_pause_hotspots',
+  'detections',
+  ...SEVERITY_ORDER.map((s): RuleMetric => `${s}_detections`),
+  ...DETECTION_TYPES.map((t): RuleMetric => `${t}_detections`),
 ];
 
-/** Valid severities in order of increasing severity */
-const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'high', 'critical'];
+/**
+ * Metrics where higher is better. Their thresholds are minimums, violated
+ * at or below the threshold. Expressions are always violated at or above.
+ */
+export const HIGHER_IS_BETTER_METRICS: ReadonlySet<string> =
+  new Set<RuleMetric>(['avg_fps', 'frame_count']);
+
+/** Trace events that mark frame boundaries, as used by the analyzer */
+const FRAME_EVENTS = new Set([
+  'BeginFrame',
+  'DrawFrame',
+  'BeginMainThreadFrame',
+]);
+
+/**
+ * A rule expression parsed and type-checked
+ */
+interface CompiledExpression {
+  node: RuleExpression;
+  type: ExpressionType;
+}
 
 @Injectable()
 export class RulesService implements IRulesService {
   private loadedRules: RuleSet | null = null;
+  /** Compiled expressions by source, as rules are evaluated every poll */
+  private readonly compiled = new Map<string, CompiledExpression>();
 
   /**
    * Load rules from a YAML file
@@ -143,11 +215,45 @@ export class RulesService implements IRulesService {
       });
     }
 
-    if (!rule.metric) {
+    // A rule reads either a metric or an expression
+    let valueType: ExpressionType | undefined;
+    if (rule.metric !== undefined && rule.expression !== undefined) {
+      errors.push({
+        ruleId,
+        field: 'expression',
+        message: 'Use either metric or expression, not both',
+      });
+    } else if (rule.expression !== undefined) {
+      if (typeof rule.expression !== 'string' || !rule.expression.trim()) {
+        errors.push({
+          ruleId,
+          field: 'expression',
+          message: 'Rule expression must be a non-empty string',
+        });
+      } else {
+        try {
+          valueType = this.compile(rule.expression).type;
+        } catch (error) {
+          if (!(error instanceof RuleExpressionError)) throw error;
+          errors.push({
+            ruleId,
+            field: 'expression',
+            message: error.message,
+          });
+        }
+        if (valueType === 'string') {
+          errors.push({
+            ruleId,
+            field: 'expression',
+            message: 'Rule expression must evaluate to a number or boolean',
+          });
+        }
+      }
+    } else if (!rule.metric) {
       errors.push({
         ruleId,
         field: 'metric',
-        message: 'Rule metric is required',
+        message: 'Rule metric or expression is required',
       });
     } else if (!VALID_METRICS.includes(rule.metric)) {
       errors.push({
@@ -155,21 +261,44 @@ export class RulesService implements IRulesService {
         field: 'metric',
         message: `Invalid metric: ${rule.metric}. Valid metrics: ${VALID_METRICS.join(', ')}`,
       });
+    } else {
+      valueType = 'number';
     }
 
-    // Validate thresholds
-    if (!rule.thresholds) {
-      errors.push({
-        ruleId,
-        field: 'thresholds',
-        message: 'Rule thresholds are required',
-      });
+    // Validate thresholds. Boolean expressions trigger at the rule severity
+    // instead.
+    if (valueType === 'boolean') {
+      if (rule.thresholds) {
+        errors.push({
+          ruleId,
+          field: 'thresholds',
+          message:
+            'Boolean expressions trigger at the rule severity and take no thresholds',
+        });
+      }
+    } else if (!rule.thresholds) {
+      // Whether an invalid expression needs thresholds is unknown
+      if (rule.expression === undefined || valueType !== undefined) {
+        errors.push({
+          ruleId,
+          field: 'thresholds',
+          message: 'Rule thresholds are required',
+        });
+      }
     } else {
-      const thresholdErrors = this.validateThresholds(rule.thresholds, ruleId);
+      const thresholdErrors = this.validateThresholds(
+        rule.thresholds,
+        ruleId,
+        this.isHigherBetter(rule),
+      );
       errors.push(...thresholdErrors.errors);
       warnings.push(...thresholdErrors.warnings);
     }
 
+    if (rule.scope !== undefined) {
+      errors.push(...this.validateScope(rule.scope, ruleId));
+    }
+
     // Validate severity
     if (!rule.severity) {
       errors.push({
@@ -216,8 +345,9 @@ export class RulesService implements IRulesService {
    * Validate threshold values
    */
   private validateThresholds(
-    thresholds: Rule['thresholds'],
+    thresholds: NonNullable<Rule['thresholds']>,
     ruleId: string,
+    higherIsBetter: boolean,
   ): { errors: ValidationError[]; warnings: ValidationWarning[] } {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
@@ -239,7 +369,15 @@ export class RulesService implements IRulesService {
     // Validate each threshold value
     for (const [key, value] of Object.entries(thresholds)) {
       if (value !== undefined && value !== null) {
-        if (typeof value !== 'number') {
+        if (typeof value === 'string') {
+          if (!parseRelativeThreshold(value)) {
+            errors.push({
+              ruleId,
+              field: `thresholds.${key}`,
+              message: `Threshold ${key} must be a number or relative to a baseline, as in "+15% vs main"`,
+            });
+          }
+        } else if (typeof value !== 'number') {
           errors.push({
             ruleId,
             field: `thresholds.${key}`,
@@ -255,11 +393,12 @@ export class RulesService implements IRulesService {
       }
     }
 
-    // Validate threshold ordering (info < warning < high < critical)
+    // Validate threshold ordering (info < warning < high < critical, or the
+    // reverse when higher is better)
     const values: { severity: Severity; value: number }[] = [];
     for (const severity of SEVERITY_ORDER) {
       const value = this.getThresholdValue(thresholds, severity);
-      if (value !== undefined && value !== null) {
+      if (typeof value === 'number') {
         values.push({ severity, value });
       }
     }
@@ -267,7 +406,14 @@ export class RulesService implements IRulesService {
     for (let i = 1; i < values.length; i++) {
       const current = values[i];
       const previous = values[i - 1];
-      if (current && previous && current.value <= previous.value) {
+      if (!current || !previous) continue;
+      if (higherIsBetter && current.value >= previous.value) {
+        warnings.push({
+          ruleId,
+          field: 'thresholds',
+          message: `Threshold ${current.severity} (${current.value}) should be less than ${previous.severity} (${previous.value})`,
+        });
+      } else if (!higherIsBetter && current.value <= previous.value) {
         warnings.push({
           ruleId,
           field: 'thresholds',
@@ -279,13 +425,48 @@ export class RulesService implements IRulesService {
     return { errors, warnings };
   }
 
+  /**
+   * Validate the URL and scenario patterns a rule is scoped to
+   */
+  private validateScope(
+    scope: NonNullable<Rule['scope']>,
+    ruleId: string,
+  ): ValidationError[] {
+    if (typeof scope !== 'object' || scope === null) {
+      return [
+        {
+          ruleId,
+          field: 'scope',
+          message: 'Rule scope must be an object with urls or scenarios',
+        },
+      ];
+    }
+
+    const errors: ValidationError[] = [];
+    for (const key of ['urls', 'scenarios'] as const) {
+      const patterns = scope[key];
+      if (
+        patterns !== undefined &&
+        (!Array.isArray(patterns) ||
+          patterns.some((p) => typeof p !== 'string' || p.trim() === ''))
+      ) {
+        errors.push({
+          ruleId,
+          field: `scope.${key}`,
+          message: `Scope ${key} must be a list of non-empty patterns`,
+        });
+      }
+    }
+    return errors;
+  }
+
   /**
    * Get threshold value by severity
    */
   private getThresholdValue(
-    thresholds: Rule['thresholds'],
+    thresholds: NonNullable<Rule['thresholds']>,
     severity: Severity,
-  ): number | undefined {
+  ): RuleThresholdValue | undefined {
     switch (severity) {
       case 'info':
         return thresholds.info;
@@ -302,8 +483,14 @@ export class RulesService implements IRulesService {
 
   /**
    * Evaluate a single rule against a metric value
+   * @param thresholds Thresholds with baselines resolved, the rule's fixed
+   * thresholds by default
    */
-  evaluateRule(rule: Rule, value: number): RuleEvaluation {
+  evaluateRule(
+    rule: Rule,
+    value: number,
+    thresholds: ResolvedThresholds = this.getFixedThresholds(rule),
+  ): RuleEvaluation {
     // If rule is disabled, it never violates
     if (rule.enabled === false) {
       return {
@@ -315,26 +502,29 @@ export class RulesService implements IRulesService {
       };
     }
 
-    // Find the highest severity threshold that is exceeded
+    // Find the highest severity threshold that is met
+    const higherIsBetter = this.isHigherBetter(rule);
     let triggeredSeverity: Severity | null = null;
 
     // Check thresholds in order of increasing severity
     for (const severity of SEVERITY_ORDER) {
-      const threshold = this.getThresholdValue(rule.thresholds, severity);
-      if (threshold !== undefined && threshold !== null && value >= threshold) {
+      const threshold = thresholds[severity];
+      if (
+        threshold !== undefined &&
+        (higherIsBetter ? value <= threshold : value >= threshold)
+      ) {
         triggeredSeverity = severity;
       }
     }
 
     const violated = triggeredSeverity !== null;
+    const threshold = triggeredSeverity
+      ? thresholds[triggeredSeverity]
+      : undefined;
     let message: string;
 
     if (violated && triggeredSeverity) {
-      const threshold = this.getThresholdValue(
-        rule.thresholds,
-        triggeredSeverity,
-      );
-      message = `${rule.name}: ${value} exceeds ${triggeredSeverity} threshold (${threshold})`;
+      message = `${rule.name}: ${value} ${higherIsBetter ? 'is below' : 'exceeds'} ${triggeredSeverity} threshold (${threshold})`;
     } else {
       message = `${rule.name}: ${value} is within acceptable limits`;
     }
@@ -344,30 +534,37 @@ export class RulesService implements IRulesService {
       value,
       violated,
       triggeredSeverity,
+      threshold,
       message,
     };
   }
 
   /**
    * Evaluate all rules against provided metrics
+   * @param context URL and scenario for scoped rules, and baseline metrics
+   * for relative thresholds
    */
   evaluateAllRules(
     rules: RuleSet,
     metrics: MetricsData,
+    context: RuleContext = {},
   ): RulesEvaluationResult {
     const evaluations: RuleEvaluation[] = [];
     const violations: RuleEvaluation[] = [];
     let maxSeverity: Severity | null = null;
 
     for (const rule of rules.rules) {
-      const metricValue = metrics[rule.metric];
+      if (!this.isInScope(rule, context)) {
+        continue;
+      }
 
-      // Skip if metric is not provided
-      if (metricValue === undefined || metricValue === null) {
+      const evaluation = this.evaluateInContext(rule, metrics, context);
+
+      // Skip if the metrics or baselines the rule needs are not provided
+      if (!evaluation) {
         continue;
       }
 
-      const evaluation = this.evaluateRule(rule, metricValue);
       evaluations.push(evaluation);
 
       if (evaluation.violated) {
@@ -393,6 +590,377 @@ export class RulesService implements IRulesService {
     };
   }
 
+  /**
+   * Branches the rules compare against, in expressions or thresholds
+   */
+  getBaselineRefs(rules: RuleSet): string[] {
+    const refs = new Set<string>();
+    for (const rule of rules.rules) {
+      if (rule.enabled === false) continue;
+      try {
+        const { node } = this.compileRule(rule);
+        collectBaselineRefs(node).forEach((ref) => refs.add(ref));
+      } catch {
+        // Invalid expressions are reported by validateRules
+      }
+      for (const value of Object.values(rule.thresholds ?? {})) {
+        const relative =
+          typeof value === 'string' ? parseRelativeThreshold(value) : null;
+        if (relative) refs.add(relative.ref);
+      }
+    }
+    return [...refs];
+  }
+
+  /**
+   * Metrics a rule reads, from its metric or expression
+   */
+  getRuleMetrics(rule: Rule): string[] {
+    try {
+      return collectExpressionMetrics(this.compileRule(rule).node);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Format a rule's value, thresholds and scope for display, with
+   * expressions in canonical form
+   */
+  describeRule(rule: Rule): RuleDescription {
+    let value = rule.metric ?? '';
+    let condition = false;
+    if (rule.expression !== undefined) {
+      try {
+        const compiled = this.compile(rule.expression);
+        value = formatRuleExpression(compiled.node);
+        condition = compiled.type === 'boolean';
+      } catch {
+        value = String(rule.expression);
+      }
+    }
+
+    const thresholds: RuleDescription['thresholds'] = [];
+    for (const severity of SEVERITY_ORDER) {
+      const threshold = rule.thresholds
+        ? this.getThresholdValue(rule.thresholds, severity)
+        : undefined;
+      if (threshold === undefined || threshold === null) continue;
+      const relative =
+        typeof threshold === 'string'
+          ? parseRelativeThreshold(threshold)
+          : null;
+      thresholds.push({
+        severity,
+        value: relative ? formatRelativeThreshold(relative) : String(threshold),
+      });
+    }
+
+    const scope: string[] = [];
+    if (rule.scope?.urls?.length) {
+      scope.push(`urls: ${rule.scope.urls.join(', ')}`);
+    }
+    if (rule.scope?.scenarios?.length) {
+      scope.push(`scenarios: ${rule.scope.scenarios.join(', ')}`);
+    }
+
+    return { value, condition, thresholds, scope };
+  }
+
+  /**
+   * Evaluate a rule's metric or expression, and its thresholds
+   * @returns Null when a metric or baseline the rule needs is missing, or
+   * its expression is invalid
+   */
+  private evaluateInContext(
+    rule: Rule,
+    metrics: MetricsData,
+    context: RuleContext,
+  ): RuleEvaluation | null {
+    let compiled: CompiledExpression;
+    try {
+      compiled = this.compileRule(rule);
+    } catch {
+      return null;
+    }
+    const { node, type } = compiled;
+
+    const value = evaluateRuleExpression(node, {
+      metrics,
+      baselines: context.baselines,
+    });
+    if (value === undefined) {
+      return null;
+    }
+
+    if (type === 'boolean') {
+      return this.evaluateCondition(rule, value === true);
+    }
+    if (typeof value !== 'number') {
+      return null;
+    }
+
+    // Thresholds relative to a baseline the context lacks are left out
+    const thresholds: ResolvedThresholds = {};
+    let resolved = 0;
+    for (const severity of SEVERITY_ORDER) {
+      const threshold = rule.thresholds
+        ? this.getThresholdValue(rule.thresholds, severity)
+        : undefined;
+      if (typeof threshold === 'number') {
+        thresholds[severity] = threshold;
+        resolved++;
+      } else if (typeof threshold === 'string') {
+        const relative = parseRelativeThreshold(threshold);
+        const baselineMetrics = relative
+          ? context.baselines?.[relative.ref]
+          : undefined;
+        const baseline = baselineMetrics
+          ? evaluateRuleExpression(node, { metrics: baselineMetrics })
+          : undefined;
+        if (relative && typeof baseline === 'number') {
+          thresholds[severity] =
+            Math.round(resolveRelativeThreshold(relative, baseline) * 100) /
+            100;
+          resolved++;
+        }
+      }
+    }
+    if (resolved === 0) {
+      return null;
+    }
+
+    return this.evaluateRule(rule, value, thresholds);
+  }
+
+  /**
+   * Evaluate a rule whose expression is a condition, which triggers at the
+   * rule severity when true
+   */
+  private evaluateCondition(rule: Rule, holds: boolean): RuleEvaluation {
+    const expression = this.describeRule(rule).value;
+    if (rule.enabled === false) {
+      return {
+        rule,
+        value: holds ? 1 : 0,
+        violated: false,
+        triggeredSeverity: null,
+        message: `Rule ${rule.name} is disabled`,
+      };
+    }
+
+    return {
+      rule,
+      value: holds ? 1 : 0,
+      violated: holds,
+      triggeredSeverity: holds ? rule.severity : null,
+      message: holds
+        ? `${rule.name}: ${expression} holds`
+        : `${rule.name}: ${expression} does not hold`,
+    };
+  }
+
+  /**
+   * The expression a rule's value is computed with: its own expression, or
+   * its metric
+   * @throws RuleExpressionError if the expression is invalid
+   */
+  private compileRule(rule: Rule): CompiledExpression {
+    if (rule.expression !== undefined) {
+      return this.compile(rule.expression);
+    }
+    return {
+      node: { kind: 'metric', name: rule.metric ?? '' },
+      type: 'number',
+    };
+  }
+
+  /**
+   * Parse and type-check an expression, reusing earlier results
+   * @throws RuleExpressionError if the expression is invalid
+   */
+  private compile(source: string): CompiledExpression {
+    let compiled = this.compiled.get(source);
+    if (!compiled) {
+      const node = parseRuleExpression(source);
+      compiled = {
+        node,
+        type: checkRuleExpression(node, VALID_METRICS, source),
+      };
+      this.compiled.set(source, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * The rule's thresholds that are fixed numbers
+   */
+  private getFixedThresholds(rule: Rule): ResolvedThresholds {
+    const thresholds: ResolvedThresholds = {};
+    for (const severity of SEVERITY_ORDER) {
+      const threshold = rule.thresholds
+        ? this.getThresholdValue(rule.thresholds, severity)
+        : undefined;
+      if (typeof threshold === 'number') {
+        thresholds[severity] = threshold;
+      }
+    }
+    return thresholds;
+  }
+
+  /**
+   * Whether a rule applies to the URL and scenario being evaluated. Scoped
+   * rules do not apply when the context leaves them unknown.
+   */
+  private isInScope(rule: Rule, context: RuleContext): boolean {
+    const matches = (patterns: string[] | undefined, value?: string) =>
+      !patterns?.length ||
+      (value !== undefined &&
+        patterns.some((pattern) => this.matchesPattern(pattern, value)));
+
+    return (
+      matches(rule.scope?.urls, context.url) &&
+      matches(rule.scope?.scenarios, context.scenario)
+    );
+  }
+
+  /**
+   * Match a value against a pattern with `*` wildcards
+   */
+  private matchesPattern(pattern: string, value: string): boolean {
+    const regex = new RegExp(
+      '^' +
+        pattern
+          .split('*')
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('.*') +
+        '$',
+    );
+    return regex.test(value);
+  }
+
+  /**
+   * Whether a metric value is at or past a threshold: at or above it, or at
+   * or below it for metrics where higher is better
+   */
+  meetsThreshold(metric: string, value: number, threshold: number): boolean {
+    return HIGHER_IS_BETTER_METRICS.has(metric)
+      ? value <= threshold
+      : value >= threshold;
+  }
+
+  /**
+   * Whether a rule's thresholds are minimums. Only metric rules can be;
+   * expressions are violated when their value is at or above a threshold.
+   */
+  private isHigherBetter(rule: Rule): boolean {
+    return (
+      rule.expression === undefined &&
+      rule.metric !== undefined &&
+      HIGHER_IS_BETTER_METRICS.has(rule.metric)
+    );
+  }
+
+  /**
+   * Extract rule metrics from an analyzed trace summary
+   * @param sources The trace or frame metrics, needed for frame times, and
+   * the detections, needed for detection counts
+   */
+  extractMetrics(
+    summary: TraceSummary,
+    sources: MetricSources = {},
+  ): MetricsData {
+    const { frames, phase_breakdown: phases, hotspots } = summary;
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    const metrics: MetricsData = {
+      ...this.getFrameTimes(sources),
+      dropped_frames_pct:
+        frames.total > 0
+          ? Math.round((frames.dropped / frames.total) * 10000) / 100
+          : 0,
+      dropped_frames: frames.dropped,
+      frame_count: frames.total,
+      avg_fps: frames.avg_fps,
+      frame_budget_ms: frames.frame_budget_ms,
+      duration_ms: summary.duration_ms,
+      style_recalc_ms: phases.style_recalc_ms,
+      layout_ms: phases.layout_ms,
+      paint_ms: phases.paint_ms,
+      composite_ms: phases.composite_ms,
+      gpu_ms: phases.gpu_ms,
+      reflow_cost_ms: sum(
+        hotspots.layout_thrashing.map((h) => h.reflow_cost_ms),
+      ),
+      gpu_stall_ms: sum(hotspots.gpu_stalls.map((h) => h.stall_ms)),
+      long_task_ms: sum(hotspots.long_tasks.map((h) => h.cpu_ms)),
+      gc_pause_ms: hotspots.gc_pauses
+        ? sum(hotspots.gc_pauses.map((h) => h.gc_ms))
+        : undefined,
+      cls: summary.cls,
+      third_party_ms: summary.third_party
+        ? sum(summary.third_party.map((t) => t.total_ms))
+        : undefined,
+      layout_thrashing_hotspots: hotspots.layout_thrashing.length,
+      gpu_stall_hotspots: hotspots.gpu_stalls.length,
+      long_task_hotspots: hotspots.long_tasks.length,
+      layout_shift_hotspots: (hotspots.layout_shifts ?? []).length,
+      gc_pause_hotspots: hotspots.gc_pauses?.length,
+    };
+
+    if (sources.detections) {
+      const { detections } = sources;
+      metrics.detections = detections.length;
+      for (const severity of SEVERITY_ORDER) {
+        metrics[`${severity}_detections`] = detections.filter(
+          (d) => d.severity === severity,
+        ).length;
+      }
+      for (const type of DETECTION_TYPES) {
+        metrics[`${type}_detections`] = detections.filter(
+          (d) => d.type === type,
+        ).length;
+      }
+    }
+
+    return metrics;
+  }
+
+  /**
+   * 95th percentile, maximum and minimum frame time, in milliseconds, from
+   * the frame metrics or else the intervals between frames in the trace
+   */
+  private getFrameTimes(
+    sources: MetricSources,
+  ): Pick<MetricsData, 'p95_frame_time' | 'max_frame_time' | 'min_frame_time'> {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    if (sources.frameMetrics && sources.frameMetrics.totalFrames > 0) {
+      const { p95FrameTimeMs, maxFrameTimeMs, minFrameTimeMs } =
+        sources.frameMetrics;
+      return {
+        p95_frame_time: round(p95FrameTimeMs),
+        max_frame_time: round(maxFrameTimeMs),
+        min_frame_time: round(minFrameTimeMs),
+      };
+    }
+
+    if (!sources.trace) return {};
+    const timestamps = sources.trace.traceEvents
+      .filter((e) => FRAME_EVENTS.has(e.name))
+      .map((e) => e.ts);
+    if (timestamps.length < 2) return {};
+
+    const durations = timestamps
+      .slice(1)
+      .map((ts, i) => (ts - timestamps[i]!) / 1000);
+    return {
+      p95_frame_time: round(percentile(durations, 95)),
+      max_frame_time: round(durations.reduce((a, b) => Math.max(a, b))),
+      min_frame_time: round(durations.reduce((a, b) => Math.min(a, b))),
+    };
+  }
+
   /**
    * Compare two severities
    * Returns positive if a > b, negative if a < b, 0 if equal
@@ -0,0 +1,82 @@
+/**
+ * API Exception Filter
+ * Maps render-debugger errors to HTTP status codes with a JSON error body
+ *
+ */
+
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { RenderDebuggerError } from '../errors/error-types.js';
+
+/**
+ * HTTP status for error codes caused by the request rather than the server
+ */
+const STATUS_BY_CODE: Record<string, HttpStatus> = {
+  TRACE_NOT_FOUND: HttpStatus.NOT_FOUND,
+  INVALID_ARGUMENT: HttpStatus.BAD_REQUEST,
+  INVALID_TRACE_FORMAT: HttpStatus.BAD_REQUEST,
+  TRACE_PARSE_FAILED: HttpStatus.BAD_REQUEST,
+  DEVICE_PROFILE_MISMATCH: HttpStatus.CONFLICT,
+};
+
+export interface ApiErrorBody {
+  error: string;
+  message: string;
+}
+
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const { status, body } = this.toErrorResponse(exception);
+
+    if (status >= 500) {
+      this.logger.error(
+        exception instanceof Error
+          ? (exception.stack ?? exception.message)
+          : String(exception),
+      );
+    }
+
+    response.status(status).json(body);
+  }
+
+  private toErrorResponse(exception: unknown): {
+    status: number;
+    body: ApiErrorBody;
+  } {
+    if (exception instanceof RenderDebuggerError) {
+      return {
+        status:
+          STATUS_BY_CODE[exception.code] ?? HttpStatus.INTERNAL_SERVER_ERROR,
+        body: { error: exception.code, message: exception.message },
+      };
+    }
+
+    // Routing and body parser errors, e.g. 404 or 413
+    if (exception instanceof HttpException) {
+      return {
+        status: exception.getStatus(),
+        body: { error: 'HTTP_ERROR', message: exception.message },
+      };
+    }
+
+    return {
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      body: {
+        error: 'UNKNOWN_ERROR',
+        message:
+          exception instanceof Error ? exception.message : String(exception),
+      },
+    };
+  }
+}
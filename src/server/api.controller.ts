@@ -0,0 +1,116 @@
+/**
+ * API Controller
+ * REST endpoints for uploading and analyzing traces, comparing stored runs,
+ * fetching reports and generating patches
+ *
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import * as path from 'path';
+import { ApiService } from './api.service.js';
+import { InvalidArgumentError } from '../errors/error-types.js';
+import type { TraceSummary } from '../shared/types/index.js';
+import type { JSONReport } from '../reporter/json.reporter.js';
+import type { ComparisonResult } from '../compare/interfaces/index.js';
+import type {
+  AnalyzeTraceQuery,
+  AnalyzeTraceResponse,
+  CompareRequest,
+  PatchesResponse,
+  ReportListItem,
+  TraceListItem,
+} from './interfaces/index.js';
+
+const REPORT_CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html; charset=utf-8',
+};
+
+@Controller('api')
+export class ApiController {
+  constructor(private readonly apiService: ApiService) {}
+
+  @Get('health')
+  health(): { status: 'ok' } {
+    return { status: 'ok' };
+  }
+
+  @Get('traces')
+  listTraces(): Promise<TraceListItem[]> {
+    return this.apiService.listTraces();
+  }
+
+  @Post('traces')
+  analyzeTrace(
+    @Body() body: unknown,
+    @Query() query: AnalyzeTraceQuery,
+  ): Promise<AnalyzeTraceResponse> {
+    let fpsTarget: number | undefined;
+    if (query.fps_target !== undefined) {
+      fpsTarget = Number(query.fps_target);
+      if (!Number.isInteger(fpsTarget) || fpsTarget <= 0) {
+        throw new InvalidArgumentError(
+          'fps_target',
+          'must be a positive integer',
+        );
+      }
+    }
+
+    return this.apiService.analyzeTrace(body, query.name ?? 'api', fpsTarget);
+  }
+
+  @Get('traces/:runId')
+  getSummary(@Param('runId') runId: string): Promise<TraceSummary> {
+    return this.apiService.getSummary(runId);
+  }
+
+  @Get('traces/:runId/report')
+  getReport(@Param('runId') runId: string): Promise<JSONReport> {
+    return this.apiService.getReport(runId);
+  }
+
+  @Post('traces/:runId/patches')
+  @HttpCode(200)
+  generatePatches(@Param('runId') runId: string): Promise<PatchesResponse> {
+    return this.apiService.generatePatches(runId);
+  }
+
+  @Post('compare')
+  @HttpCode(200)
+  compare(@Body() body: CompareRequest): Promise<ComparisonResult> {
+    if (typeof body?.base !== 'string' || typeof body.head !== 'string') {
+      throw new InvalidArgumentError(
+        'body',
+        'base and head run IDs are required',
+      );
+    }
+    if (body.alpha !== undefined && typeof body.alpha !== 'number') {
+      throw new InvalidArgumentError('alpha', 'must be a number');
+    }
+
+    return this.apiService.compare(body.base, body.head, body.alpha);
+  }
+
+  @Get('reports')
+  listReports(): Promise<ReportListItem[]> {
+    return this.apiService.listReports();
+  }
+
+  @Get('reports/:file')
+  async getReportFile(@Param('file') file: string): Promise<StreamableFile> {
+    const content = await this.apiService.readReportFile(file);
+    return new StreamableFile(content, {
+      type:
+        REPORT_CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+    });
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * API Service
+ * Runs the analysis, comparison and patch workflows behind the HTTP API,
+ * storing runs and reports in the same layout as the CLI commands
+ *
+ */
+
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AnalyzerService } from '../analyzer/analyzer.service.js';
+import { SuggesterService } from '../suggester/suggester.service.js';
+import { ReporterService } from '../reporter/reporter.service.js';
+import { CompareService } from '../compare/compare.service.js';
+import { PatcherService } from '../patcher/patcher.service.js';
+import { HistoryService } from '../history/history.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { ConfigService } from '../services/config.service.js';
+import { TraceLifecycleService } from '../services/trace-lifecycle.service.js';
+import {
+  InvalidArgumentError,
+  InvalidTraceFormatError,
+  TraceNotFoundError,
+  TraceParseError,
+} from '../errors/error-types.js';
+import type {
+  TraceData,
+  TraceEvent,
+  TraceMetadata,
+  TraceSummary,
+} from '../shared/types/index.js';
+import type {
+  AnalysisResult,
+  AnalyzeOptions,
+} from '../analyzer/interfaces/index.js';
+import type { JSONReport } from '../reporter/json.reporter.js';
+import type { ComparisonResult } from '../compare/interfaces/index.js';
+import type {
+  AnalyzeTraceResponse,
+  TraceListItem,
+  ReportListItem,
+  PatchesResponse,
+} from './interfaces/index.js';
+
+/**
+ * Run IDs and report file names may only contain these characters, so that
+ * they cannot escape the storage directories
+ */
+const SAFE_NAME_PATTERN = /^[\w.-]+$/;
+
+@Injectable()
+export class ApiService {
+  constructor(
+    private readonly analyzerService: AnalyzerService,
+    private readonly suggesterService: SuggesterService,
+    private readonly reporterService: ReporterService,
+    private readonly compareService: CompareService,
+    private readonly patcherService: PatcherService,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+    private readonly historyService: HistoryService,
+    private readonly traceLifecycleService: TraceLifecycleService,
+  ) {}
+
+  /**
+   * Analyze an uploaded trace and store the trace, its summary and the
+   * JSON report as a new run, recorded in the trend history
+   */
+  async analyzeTrace(
+    body: unknown,
+    name: string,
+    fpsTarget?: number,
+  ): Promise<AnalyzeTraceResponse> {
+    const trace = this.parseTrace(body);
+    const runName = name.replace(/[^\w.-]/g, '-');
+    const runId = `${runName}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    const report = await this.analyze(trace, runName, fpsTarget);
+
+    await this.storageService.writeTrace(runId, trace);
+    await this.storageService.writeSummary(runId, report.summary);
+    const jsonReport = this.reporterService.buildJSONReport(report);
+    await this.storageService.writeJsonReport(runId, jsonReport);
+    await this.historyService.recordRun(
+      runId,
+      report.summary,
+      report.detections,
+    );
+
+    return { run_id: runId, report: jsonReport };
+  }
+
+  /**
+   * List stored runs, newest first
+   */
+  async listTraces(): Promise<TraceListItem[]> {
+    const tracesDir = this.storageService.getTracesDir();
+    const entries = await fs
+      .readdir(tracesDir, { withFileTypes: true })
+      .catch(() => []);
+
+    const items: TraceListItem[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const summaryPath = path.join(
+        tracesDir,
+        entry.name,
+        'trace-summary.json',
+      );
+      const stat = await fs.stat(summaryPath).catch(() => null);
+      if (!stat) continue;
+
+      const summary = await this.readJson<TraceSummary>(summaryPath);
+      items.push({
+        run_id: entry.name,
+        name: summary.name,
+        url: summary.url,
+        duration_ms: summary.duration_ms,
+        avg_fps: summary.frames.avg_fps,
+        dropped_frames: summary.frames.dropped,
+        has_trace: await this.storageService.exists(
+          path.join(tracesDir, entry.name, 'trace.json'),
+        ),
+        has_report: await this.storageService.exists(
+          this.getJsonReportPath(entry.name),
+        ),
+        modified_at: stat.mtime.toISOString(),
+      });
+    }
+
+    return items.sort((a, b) => b.modified_at.localeCompare(a.modified_at));
+  }
+
+  /**
+   * Get the trace summary of a stored run
+   */
+  async getSummary(runId: string): Promise<TraceSummary> {
+    return this.readJson<TraceSummary>(
+      path.join(this.getRunDir(runId), 'trace-summary.json'),
+    );
+  }
+
+  /**
+   * Get the JSON report of a stored run
+   */
+  async getReport(runId: string): Promise<JSONReport> {
+    this.assertSafeName(runId, 'runId');
+    return this.readJson<JSONReport>(this.getJsonReportPath(runId));
+  }
+
+  /**
+   * Compare the summaries of two stored runs
+   */
+  async compare(
+    baseRunId: string,
+    headRunId: string,
+    alpha?: number,
+  ): Promise<ComparisonResult> {
+    const [base, head] = await Promise.all([
+      this.getSummary(baseRunId),
+      this.getSummary(headRunId),
+    ]);
+    return this.compareService.compare(base, head, { alpha });
+  }
+
+  /**
+   * Generate patches for a stored run by re-analyzing its trace
+   */
+  async generatePatches(runId: string): Promise<PatchesResponse> {
+    const tracePath = path.join(this.getRunDir(runId), 'trace.json');
+    if (!(await this.storageService.exists(tracePath))) {
+      throw new TraceNotFoundError(tracePath);
+    }
+    const summary = await this.getSummary(runId);
+
+    const { suggestions } = await this.analyzeFile(
+      tracePath,
+      summary.name,
+      summary.metadata?.fps_target,
+    );
+    const filtered =
+      this.patcherService.filterSuggestionsByFixTarget(suggestions);
+    const patches = await this.patcherService.generatePatches(suggestions);
+
+    return {
+      run_id: runId,
+      patches,
+      suggestion_only: filtered.suggestionOnly.length,
+    };
+  }
+
+  /**
+   * List stored reports of any format, newest first
+   */
+  async listReports(): Promise<ReportListItem[]> {
+    const reportsDir = this.storageService.getReportsDir();
+    const entries = await fs
+      .readdir(reportsDir, { withFileTypes: true })
+      .catch(() => []);
+
+    const items: ReportListItem[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const stat = await fs.stat(path.join(reportsDir, entry.name));
+      items.push({
+        file: entry.name,
+        size_bytes: stat.size,
+        modified_at: stat.mtime.toISOString(),
+      });
+    }
+
+    return items.sort((a, b) => b.modified_at.localeCompare(a.modified_at));
+  }
+
+  /**
+   * Read a stored report file
+   */
+  async readReportFile(file: string): Promise<Buffer> {
+    this.assertSafeName(file, 'file');
+    const reportPath = path.join(this.storageService.getReportsDir(), file);
+    if (!(await this.storageService.exists(reportPath))) {
+      throw new TraceNotFoundError(reportPath);
+    }
+    return fs.readFile(reportPath);
+  }
+
+  /**
+   * Analyze an uploaded trace and generate suggestions
+   */
+  private async analyze(trace: TraceData, name: string, fpsTarget?: number) {
+    const analysisResult = await this.analyzerService.analyze(
+      trace,
+      await this.getAnalyzeOptions(name, fpsTarget),
+    );
+    return this.suggest(analysisResult);
+  }
+
+  /**
+   * Stream a stored trace file through the analyzer, so that the trace is
+   * never held in memory as a whole, and generate suggestions
+   */
+  private async analyzeFile(
+    tracePath: string,
+    name: string,
+    fpsTarget?: number,
+  ) {
+    const stream = this.analyzerService.createStream({
+      ...(await this.getAnalyzeOptions(name, fpsTarget)),
+      maxBufferSizeMB: this.traceLifecycleService.getConfig().maxBufferSizeMB,
+    });
+
+    let metadata: TraceMetadata | undefined;
+    try {
+      metadata = await this.storageService.streamTrace(
+        tracePath,
+        (event, sizeBytes) => stream.push(event, sizeBytes),
+      );
+    } catch (error) {
+      throw new TraceParseError(
+        tracePath,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    return this.suggest(await stream.finish(metadata));
+  }
+
+  private async getAnalyzeOptions(
+    name: string,
+    fpsTarget?: number,
+  ): Promise<AnalyzeOptions> {
+    const config = await this.configService.loadConfig();
+    return {
+      name,
+      fpsTarget: fpsTarget ?? config?.profiling.defaultFpsTarget ?? 60,
+    };
+  }
+
+  /**
+   * Generate suggestions for an analysis, as the analyze command does
+   */
+  private async suggest(analysisResult: AnalysisResult) {
+    const suggestions = await this.suggesterService.suggest(
+      analysisResult.detections,
+    );
+
+    return {
+      summary: {
+        ...analysisResult.summary,
+        suggestions: suggestions.map((s) => ({
+          type: s.type,
+          target: s.target,
+          patch: s.patch,
+          estimated_speedup_pct: s.estimatedSpeedupPct,
+        })),
+      },
+      detections: analysisResult.detections,
+      suggestions,
+    };
+  }
+
+  /**
+   * Accept Chrome trace files as an object with `traceEvents`, or as a bare
+   * event array
+   */
+  private parseTrace(body: unknown): TraceData {
+    if (Array.isArray(body)) {
+      return { traceEvents: body as TraceEvent[] } as TraceData;
+    }
+    if (
+      typeof body === 'object' &&
+      body !== null &&
+      Array.isArray((body as TraceData).traceEvents)
+    ) {
+      return body as TraceData;
+    }
+    throw new InvalidTraceFormatError(
+      'request body',
+      'expected a JSON trace with a traceEvents array',
+    );
+  }
+
+  private getRunDir(runId: string): string {
+    this.assertSafeName(runId, 'runId');
+    return path.join(this.storageService.getTracesDir(), runId);
+  }
+
+  private getJsonReportPath(runId: string): string {
+    return path.join(this.storageService.getReportsDir(), `${runId}.json`);
+  }
+
+  private assertSafeName(value: string, argument: string): void {
+    if (!SAFE_NAME_PATTERN.test(value) || value.startsWith('.')) {
+      throw new InvalidArgumentError(argument, `invalid name: ${value}`);
+    }
+  }
+
+  private async readJson<T>(filePath: string): Promise<T> {
+    if (!(await this.storageService.exists(filePath))) {
+      throw new TraceNotFoundError(filePath);
+    }
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  }
+}
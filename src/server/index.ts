@@ -0,0 +1,5 @@
+export * from './api.service.js';
+export * from './api.controller.js';
+export * from './api-exception.filter.js';
+export * from './server.module.js';
+export * from './interfaces/index.js';
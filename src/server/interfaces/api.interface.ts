@@ -0,0 +1,71 @@
+/**
+ * Request and response shapes of the HTTP API
+ *
+ * Reports use the same `JSONReport` shape as `analyze --json`, and
+ * comparisons the same `ComparisonResult` as `compare --json`.
+ */
+
+import type { JSONReport } from '../../reporter/json.reporter.js';
+import type { Patch } from '../../shared/types/patch.types.js';
+
+/**
+ * Options for the API server
+ */
+export interface ApiServerOptions {
+  /** Maximum size of uploaded traces in megabytes */
+  maxUploadMb: number;
+}
+
+/**
+ * Query parameters of POST /api/traces
+ */
+export interface AnalyzeTraceQuery {
+  name?: string;
+  fps_target?: string;
+}
+
+export interface AnalyzeTraceResponse {
+  run_id: string;
+  report: JSONReport;
+}
+
+/**
+ * A stored run in GET /api/traces
+ */
+export interface TraceListItem {
+  run_id: string;
+  name: string;
+  url: string;
+  duration_ms: number;
+  avg_fps: number;
+  dropped_frames: number;
+  /** Whether the raw trace is stored, needed to generate patches */
+  has_trace: boolean;
+  /** Whether a JSON report is stored */
+  has_report: boolean;
+  modified_at: string;
+}
+
+/**
+ * A stored report in GET /api/reports
+ */
+export interface ReportListItem {
+  file: string;
+  size_bytes: number;
+  modified_at: string;
+}
+
+export interface CompareRequest {
+  /** Run ID of the baseline */
+  base: string;
+  /** Run ID to compare against the baseline */
+  head: string;
+  alpha?: number;
+}
+
+export interface PatchesResponse {
+  run_id: string;
+  patches: Patch[];
+  /** Suggestions that need manual changes, e.g. native code */
+  suggestion_only: number;
+}
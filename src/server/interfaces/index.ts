@@ -0,0 +1,5 @@
+/**
+ * API server interfaces exports
+ */
+
+export * from './api.interface.js';
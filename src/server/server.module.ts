@@ -0,0 +1,57 @@
+/**
+ * Server Module
+ * HTTP API over the analysis engine, used by the serve command
+ *
+ * The module is bootstrapped as its own Nest HTTP application, so it imports
+ * the shared services and feature modules directly rather than relying on
+ * the CLI application context.
+ */
+
+import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { ApiController } from './api.controller.js';
+import { ApiService } from './api.service.js';
+import { ApiExceptionFilter } from './api-exception.filter.js';
+import { ServicesModule } from '../services/services.module.js';
+import { AnalyzerModule } from '../analyzer/analyzer.module.js';
+import { SuggesterModule } from '../suggester/suggester.module.js';
+import { ReporterModule } from '../reporter/reporter.module.js';
+import { CompareModule } from '../compare/compare.module.js';
+import { PatcherModule } from '../patcher/patcher.module.js';
+import { AdaptersModule } from '../adapters/adapters.module.js';
+import { PluginsModule } from '../plugins/plugins.module.js';
+import { HistoryModule } from '../history/history.module.js';
+import type { ApiServerOptions } from './interfaces/index.js';
+
+@Module({
+  imports: [
+    ServicesModule,
+    AdaptersModule,
+    AnalyzerModule,
+    SuggesterModule,
+    ReporterModule,
+    CompareModule,
+    PatcherModule,
+    PluginsModule,
+    HistoryModule,
+  ],
+  controllers: [ApiController],
+  providers: [
+    ApiService,
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+  ],
+})
+export class ServerModule {}
+
+/**
+ * Apply the settings the API needs to an application created from
+ * ServerModule with `bodyParser: false`
+ */
+export function configureApiServer(
+  app: NestExpressApplication,
+  options: ApiServerOptions,
+): NestExpressApplication {
+  // Traces are large, the default JSON limit is 100kb
+  return app.useBodyParser('json', { limit: `${options.maxUploadMb}mb` });
+}
@@ -1,6 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import { StorageService } from './storage.service.js';
-import type { Config, RuleSet } from '../shared/types/index.js';
+import { DeviceProfileNotFoundError } from '../errors/error-types.js';
+import { VALID_METRICS } from '../rules/rules.service.js';
+import {
+  NETWORK_PRESETS,
+  resolveDeviceProfile,
+} from '../shared/utils/index.js';
+import type {
+  Config,
+  RuleSet,
+  TraceDeviceProfile,
+} from '../shared/types/index.js';
 
 export interface ConfigValidationError {
   field: string;
@@ -35,9 +45,12 @@ export class ConfigService {
           'devtools.timeline',
           'blink.user_timing',
           'gpu',
+          'latencyInfo',
+          'loading',
           'v8.execute',
           'disabled-by-default-devtools.timeline',
           'disabled-by-default-devtools.timeline.frame',
+          'disabled-by-default-devtools.timeline.invalidationTracking',
         ],
         bufferSize: 100000,
       },
@@ -52,6 +65,15 @@ export class ConfigService {
         reportsDir: '.render-debugger/reports',
         patchesDir: '.render-debugger/patches',
       },
+      deviceProfiles: {
+        'low-end-mobile': {
+          cpuSlowdown: 4,
+          network: 'slow-4g',
+          viewport: { width: 360, height: 640 },
+          deviceScaleFactor: 3,
+          mobile: true,
+        },
+      },
     };
   }
 
@@ -143,6 +165,18 @@ export class ConfigService {
     return this.storageService.readConfig();
   }
 
+  /**
+   * Resolve a named device profile from config.yaml
+   */
+  async getDeviceProfile(name: string): Promise<TraceDeviceProfile> {
+    const profiles = (await this.loadConfig())?.deviceProfiles ?? {};
+    const profile = Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+    if (!profile) {
+      throw new DeviceProfileNotFoundError(name, Object.keys(profiles));
+    }
+    return resolveDeviceProfile(name, profile);
+  }
+
   /**
    * Save configuration to file
    */
@@ -265,6 +299,17 @@ export class ConfigService {
           message: 'Max suggestions must be at least 1',
         });
       }
+      const { firstPartyDomains } = config.analysis;
+      if (
+        firstPartyDomains !== undefined &&
+        (!Array.isArray(firstPartyDomains) ||
+          firstPartyDomains.some((d) => typeof d !== 'string' || !d))
+      ) {
+        errors.push({
+          field: 'analysis.firstPartyDomains',
+          message: 'First-party domains must be an array of domain names',
+        });
+      }
     }
 
     if (!config.output) {
@@ -293,12 +338,217 @@ export class ConfigService {
       }
     }
 
+    if (config.plugins !== undefined) {
+      if (!Array.isArray(config.plugins)) {
+        errors.push({
+          field: 'plugins',
+          message: 'Plugins must be an array',
+        });
+      } else {
+        config.plugins.forEach((plugin, index) => {
+          const pluginPath = typeof plugin === 'string' ? plugin : plugin?.path;
+          if (typeof pluginPath !== 'string' || pluginPath.length === 0) {
+            errors.push({
+              field: `plugins[${index}]`,
+              message: 'Plugin must be a package name or path',
+            });
+          }
+        });
+      }
+    }
+
+    if (config.deviceProfiles !== undefined) {
+      this.validateDeviceProfiles(config.deviceProfiles, errors);
+    }
+
+    if (config.alerts !== undefined) {
+      this.validateAlerts(config.alerts, errors);
+    }
+
     return {
       valid: errors.length === 0,
       errors,
     };
   }
 
+  private validateDeviceProfiles(
+    deviceProfiles: Config['deviceProfiles'],
+    errors: ConfigValidationError[],
+  ): void {
+    if (typeof deviceProfiles !== 'object' || Array.isArray(deviceProfiles)) {
+      errors.push({
+        field: 'deviceProfiles',
+        message: 'Device profiles must be a map of profile names to settings',
+      });
+      return;
+    }
+
+    const isPositive = (value: unknown) =>
+      typeof value === 'number' && value > 0;
+
+    for (const [name, profile] of Object.entries(deviceProfiles)) {
+      const prefix = `deviceProfiles.${name}`;
+      if (profile.cpuSlowdown !== undefined && !(profile.cpuSlowdown >= 1)) {
+        errors.push({
+          field: `${prefix}.cpuSlowdown`,
+          message: 'CPU slowdown must be at least 1',
+        });
+      }
+      if (typeof profile.network === 'string') {
+        if (!Object.hasOwn(NETWORK_PRESETS, profile.network)) {
+          errors.push({
+            field: `${prefix}.network`,
+            message: `Network preset must be one of: ${Object.keys(NETWORK_PRESETS).join(', ')}`,
+          });
+        }
+      } else if (
+        profile.network !== undefined &&
+        !(
+          typeof profile.network.latencyMs === 'number' &&
+          profile.network.latencyMs >= 0 &&
+          isPositive(profile.network.downloadKbps) &&
+          isPositive(profile.network.uploadKbps)
+        )
+      ) {
+        errors.push({
+          field: `${prefix}.network`,
+          message:
+            'Network conditions need a non-negative latencyMs and positive downloadKbps and uploadKbps',
+        });
+      }
+      if (
+        profile.viewport !== undefined &&
+        !(
+          Number.isInteger(profile.viewport.width) &&
+          Number.isInteger(profile.viewport.height) &&
+          isPositive(profile.viewport.width) &&
+          isPositive(profile.viewport.height)
+        )
+      ) {
+        errors.push({
+          field: `${prefix}.viewport`,
+          message: 'Viewport width and height must be positive integers',
+        });
+      }
+      if (
+        profile.deviceScaleFactor !== undefined &&
+        !isPositive(profile.deviceScaleFactor)
+      ) {
+        errors.push({
+          field: `${prefix}.deviceScaleFactor`,
+          message: 'Device scale factor must be positive',
+        });
+      }
+    }
+  }
+
+  private validateAlerts(
+    alerts: Config['alerts'],
+    errors: ConfigValidationError[],
+  ): void {
+    if (!alerts || !Array.isArray(alerts.sinks)) {
+      errors.push({
+        field: 'alerts.sinks',
+        message: 'Alert sinks must be an array',
+      });
+      return;
+    }
+
+    const severities = ['info', 'warning', 'high', 'critical'];
+    const facilities = [
+      'user',
+      'daemon',
+      ...Array.from({ length: 8 }, (_, i) => `local${i}`),
+    ];
+    const isUrl = (value: unknown) => {
+      if (typeof value !== 'string') return false;
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+      } catch {
+        return false;
+      }
+    };
+
+    alerts.sinks.forEach((sink, index) => {
+      const prefix = `alerts.sinks[${index}]`;
+      switch (sink?.type) {
+        case 'webhook':
+        case 'slack':
+          if (!isUrl(sink.url)) {
+            errors.push({
+              field: `${prefix}.url`,
+              message: 'URL must be an http(s) URL',
+            });
+          }
+          break;
+        case 'syslog':
+          if (
+            sink.port !== undefined &&
+            !(Number.isInteger(sink.port) && sink.port > 0 && sink.port < 65536)
+          ) {
+            errors.push({
+              field: `${prefix}.port`,
+              message: 'Port must be between 1 and 65535',
+            });
+          }
+          if (
+            sink.protocol !== undefined &&
+            sink.protocol !== 'udp' &&
+            sink.protocol !== 'tcp'
+          ) {
+            errors.push({
+              field: `${prefix}.protocol`,
+              message: 'Protocol must be udp or tcp',
+            });
+          }
+          if (
+            sink.facility !== undefined &&
+            !facilities.includes(sink.facility)
+          ) {
+            errors.push({
+              field: `${prefix}.facility`,
+              message: `Facility must be one of: ${facilities.join(', ')}`,
+            });
+          }
+          break;
+        case 'file':
+          if (typeof sink.path !== 'string' || sink.path.length === 0) {
+            errors.push({
+              field: `${prefix}.path`,
+              message: 'File sink path is required',
+            });
+          }
+          break;
+        default:
+          errors.push({
+            field: `${prefix}.type`,
+            message: 'Sink type must be one of: webhook, slack, syslog, file',
+          });
+          return;
+      }
+
+      if (
+        sink.severities !== undefined &&
+        (!Array.isArray(sink.severities) ||
+          sink.severities.some((s) => !severities.includes(s)))
+      ) {
+        errors.push({
+          field: `${prefix}.severities`,
+          message: `Severities must be a list of: ${severities.join(', ')}`,
+        });
+      }
+      for (const key of ['dedupWindowSeconds', 'cooldownSeconds'] as const) {
+        const value = sink[key];
+        if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+          errors.push({
+            field: `${prefix}.${key}`,
+            message: `${key} must be a non-negative number`,
+          });
+        }
+      }
+    });
+  }
+
   /**
    * Validate rules
    */
@@ -314,13 +564,6 @@ export class ConfigService {
       return { valid: false, errors };
     }
 
-    const validMetrics = [
-      'p95_frame_time',
-      'dropped_frames_pct',
-      'reflow_cost_ms',
-      'gpu_stall_ms',
-      'long_task_ms',
-    ];
     const validSeverities = ['info', 'warning', 'high', 'critical'];
 
     rules.rules.forEach((rule, index) => {
@@ -335,10 +578,14 @@ export class ConfigService {
           message: 'Rule name is required',
         });
       }
-      if (!rule.metric || !validMetrics.includes(rule.metric)) {
+      // Expressions are type-checked by RulesService.validateRules
+      if (
+        rule.expression === undefined &&
+        (!rule.metric || !VALID_METRICS.includes(rule.metric))
+      ) {
         errors.push({
           field: `${prefix}.metric`,
-          message: `Metric must be one of: ${validMetrics.join(', ')}`,
+          message: `Metric must be one of: ${VALID_METRICS.join(', ')}`,
         });
       }
       if (!rule.severity || !validSeverities.includes(rule.severity)) {
@@ -347,7 +594,10 @@ export class ConfigService {
           message: `Severity must be one of: ${validSeverities.join(', ')}`,
         });
       }
-      if (!rule.thresholds || typeof rule.thresholds !== 'object') {
+      if (
+        rule.expression === undefined &&
+        (!rule.thresholds || typeof rule.thresholds !== 'object')
+      ) {
         errors.push({
           field: `${prefix}.thresholds`,
           message: 'Thresholds are required',
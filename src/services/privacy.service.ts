@@ -52,6 +52,16 @@ export interface TelemetryDecision {
   reason: string;
 }
 
+/**
+ * Result of a screenshot capture decision
+ */
+export interface ScreenshotDecision {
+  /** Whether screenshots may be captured */
+  allowed: boolean;
+  /** Reason for the decision */
+  reason: string;
+}
+
 /**
  * Service for managing privacy controls and enforcing local-only storage
  * by default. No outbound telemetry unless explicitly enabled.
@@ -102,6 +112,33 @@ export class PrivacyService {
     return this.config.remoteStorageEnabled;
   }
 
+  /**
+   * Check if screenshots may be captured while profiling a URL. They show
+   * whatever the page displays, so they follow the user data and exclude
+   * pattern settings.
+   */
+  isScreenshotCaptureAllowed(url: string): ScreenshotDecision {
+    if (this.config.sanitizeUserData) {
+      return {
+        allowed: false,
+        reason:
+          'User data sanitization is enabled and screenshots may show user data',
+      };
+    }
+
+    if (this.shouldExcludeUrl(url)) {
+      return {
+        allowed: false,
+        reason: 'URL matches a privacy exclude pattern',
+      };
+    }
+
+    return {
+      allowed: true,
+      reason: 'Screenshots are stored locally with the trace',
+    };
+  }
+
   /**
    * Make a storage decision based on current configuration
    */
@@ -204,6 +204,55 @@ describe('SourceMapService', () => {
     });
   });
 
+  describe('resolveFlameGraph', () => {
+    it('should resolve nested frames and keep native frames', async () => {
+      const sourceMap = {
+        version: 3,
+        file: 'bundle.js',
+        sources: ['src/app.ts'],
+        names: ['handleClick'],
+        mappings: 'AAAA,SAASA',
+        sourcesContent: ['function handleClick() { }'],
+      };
+
+      const mapPath = path.join(tempDir, 'bundle.js.map');
+      const bundlePath = path.join(tempDir, 'bundle.js');
+
+      await fs.promises.writeFile(mapPath, JSON.stringify(sourceMap));
+      await fs.promises.writeFile(bundlePath, 'function handleClick(){}');
+
+      await service.loadSourceMaps([mapPath]);
+
+      const frame = (functionName: string, file: string) => ({
+        functionName,
+        file,
+        line: file ? 1 : 0,
+        column: 0,
+        isSourceMapped: false,
+        selfMs: 1,
+        totalMs: 2,
+        children: [],
+      });
+
+      const result = await service.resolveFlameGraph({
+        ...frame('(root)', ''),
+        children: [
+          { ...frame('a', bundlePath), children: [frame('(program)', '')] },
+        ],
+      });
+
+      const resolved = result.children[0]!;
+      expect(resolved.isSourceMapped).toBe(true);
+      expect(resolved.file).toContain('src/app.ts');
+      expect(resolved.totalMs).toBe(2);
+      expect(resolved.children[0]).toMatchObject({
+        functionName: '(program)',
+        file: '',
+        isSourceMapped: false,
+      });
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear all cached source maps', async () => {
       const sourceMap = {
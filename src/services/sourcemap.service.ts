@@ -7,7 +7,10 @@ import { Injectable } from '@nestjs/common';
 import { SourceMapConsumer, RawSourceMap } from 'source-map';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { StackFrame } from '../shared/types/detection.types.js';
+import type {
+  StackFrame,
+  FlameGraphNode,
+} from '../shared/types/detection.types.js';
 
 /**
  * Represents a location in generated (bundled/minified) code
@@ -40,6 +43,7 @@ export interface ISourceMapService {
     location: GeneratedLocation,
   ): Promise<OriginalLocation | null>;
   resolveStackTrace(stack: StackFrame[]): Promise<StackFrame[]>;
+  resolveFlameGraph(root: FlameGraphNode): Promise<FlameGraphNode>;
   clearCache(): void;
   isLoaded(file: string): boolean;
 }
@@ -144,6 +148,54 @@ export class SourceMapService implements ISourceMapService {
     return resolvedStack;
   }
 
+  /**
+   * Resolve every frame of a flame graph to its original source location.
+   * Frames without a script URL, such as `(program)`, are left unchanged.
+   * @param root Root node of the flame graph
+   * @returns A new flame graph with isSourceMapped set on each frame
+   */
+  async resolveFlameGraph(root: FlameGraphNode): Promise<FlameGraphNode> {
+    const resolved = new Map<string, OriginalLocation | null>();
+
+    const resolveNode = async (
+      node: FlameGraphNode,
+    ): Promise<FlameGraphNode> => {
+      const children = await Promise.all(node.children.map(resolveNode));
+      if (!node.file) {
+        return { ...node, children };
+      }
+
+      const key = `${node.file}:${node.line}:${node.column}`;
+      if (!resolved.has(key)) {
+        resolved.set(
+          key,
+          await this.resolveLocation({
+            file: node.file,
+            line: node.line,
+            column: node.column,
+          }),
+        );
+      }
+      const originalLocation = resolved.get(key);
+
+      if (!originalLocation) {
+        return { ...node, isSourceMapped: false, children };
+      }
+
+      return {
+        ...node,
+        functionName: originalLocation.name || node.functionName,
+        file: originalLocation.file,
+        line: originalLocation.line,
+        column: originalLocation.column,
+        isSourceMapped: true,
+        children,
+      };
+    };
+
+    return resolveNode(root);
+  }
+
   /**
    * Clear all cached source maps.
    */
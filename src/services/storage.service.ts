@@ -2,13 +2,27 @@ import { Injectable } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import {
+  readTraceStream,
+  rewriteTraceFile,
+  type TraceEventHandler,
+  type CapturedScreenshot,
+} from '../shared/utils/index.js';
 import type {
   TraceData,
+  TraceEvent,
+  TraceMetadata,
   TraceSummary,
+  ScreenshotManifest,
   Config,
   RuleSet,
 } from '../shared/types/index.js';
 
+/**
+ * File listing the screenshots in a screenshot directory
+ */
+const SCREENSHOT_MANIFEST = 'manifest.json';
+
 export interface StorageServiceOptions {
   baseDir?: string;
 }
@@ -53,13 +67,20 @@ export class StorageService {
    * Write trace data to a run directory
    */
   async writeTrace(runId: string, trace: TraceData): Promise<string> {
-    const runDir = path.join(this.tracesDir, runId);
-    await fs.mkdir(runDir, { recursive: true });
-    const tracePath = path.join(runDir, 'trace.json');
+    const tracePath = await this.createTracePath(runId);
     await fs.writeFile(tracePath, JSON.stringify(trace, null, 2), 'utf-8');
     return tracePath;
   }
 
+  /**
+   * Get the trace path of a run directory, creating the directory
+   */
+  async createTracePath(runId: string): Promise<string> {
+    const runDir = path.join(this.tracesDir, runId);
+    await fs.mkdir(runDir, { recursive: true });
+    return path.join(runDir, 'trace.json');
+  }
+
   /**
    * Write trace summary to a run directory
    */
@@ -71,6 +92,58 @@ export class StorageService {
     return summaryPath;
   }
 
+  /**
+   * Write screenshots as JPEG files to a directory, with a manifest of
+   * their timestamps
+   */
+  async writeScreenshots(
+    dir: string,
+    screenshots: CapturedScreenshot[],
+    dropped: number,
+  ): Promise<ScreenshotManifest> {
+    await fs.mkdir(dir, { recursive: true });
+    const manifest: ScreenshotManifest = {
+      format: 'jpeg',
+      frames: [],
+      dropped,
+    };
+
+    for (const [i, screenshot] of screenshots.entries()) {
+      const file = `${String(i).padStart(5, '0')}.jpg`;
+      await fs.writeFile(path.join(dir, file), screenshot.data);
+      manifest.frames.push({
+        ts: screenshot.ts,
+        file,
+        size_bytes: screenshot.data.length,
+      });
+    }
+
+    await fs.writeFile(
+      path.join(dir, SCREENSHOT_MANIFEST),
+      JSON.stringify(manifest, null, 2),
+      'utf-8',
+    );
+    return manifest;
+  }
+
+  /**
+   * Read the screenshots written by writeScreenshots, sorted by timestamp
+   */
+  async readScreenshots(dir: string): Promise<CapturedScreenshot[]> {
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(dir, SCREENSHOT_MANIFEST), 'utf-8'),
+    ) as ScreenshotManifest;
+
+    const screenshots: CapturedScreenshot[] = [];
+    for (const frame of manifest.frames) {
+      screenshots.push({
+        ts: frame.ts,
+        data: await fs.readFile(path.join(dir, frame.file)),
+      });
+    }
+    return screenshots.sort((a, b) => a.ts - b.ts);
+  }
+
   /**
    * Write HTML report with timestamp
    */
@@ -81,6 +154,16 @@ export class StorageService {
     return reportPath;
   }
 
+  /**
+   * Write a report in any other format to the reports directory
+   */
+  async writeReportFile(fileName: string, content: string): Promise<string> {
+    await fs.mkdir(this.reportsDir, { recursive: true });
+    const reportPath = path.join(this.reportsDir, fileName);
+    await fs.writeFile(reportPath, content, 'utf-8');
+    return reportPath;
+  }
+
   /**
    * Write JSON report
    */
@@ -169,11 +252,38 @@ export class StorageService {
   }
 
   /**
-   * Read trace data from file
+   * Read trace data from file, plain or gzip-compressed
    */
   async readTrace(tracePath: string): Promise<TraceData> {
-    const content = await fs.readFile(tracePath, 'utf-8');
-    return JSON.parse(content) as TraceData;
+    const traceEvents: TraceEvent[] = [];
+    const metadata = await readTraceStream(tracePath, (event) => {
+      traceEvents.push(event);
+    });
+    return { traceEvents, metadata } as TraceData;
+  }
+
+  /**
+   * Stream the events of a trace file to a handler without loading the
+   * whole trace, returning its metadata
+   */
+  async streamTrace(
+    tracePath: string,
+    onEvent: TraceEventHandler,
+  ): Promise<TraceMetadata | undefined> {
+    return readTraceStream(tracePath, onEvent);
+  }
+
+  /**
+   * Copy a trace file event by event into a new trace file, leaving out
+   * the events the filter rejects and writing the given metadata
+   */
+  async rewriteTrace(
+    sourcePath: string,
+    targetPath: string,
+    filter: (event: TraceEvent, sizeBytes: number) => boolean,
+    getMetadata: () => TraceMetadata,
+  ): Promise<void> {
+    await rewriteTraceFile(sourcePath, targetPath, filter, getMetadata);
   }
 
   /**
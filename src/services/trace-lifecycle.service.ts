@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { StorageService } from './storage.service.js';
+import type { TraceEvent } from '../shared/types/index.js';
 
 /**
  * Configuration for trace lifecycle management
@@ -13,6 +14,8 @@ export interface TraceLifecycleConfig {
   retentionHours: number;
   /** Maximum memory for trace buffer in MB */
   maxBufferSizeMB: number;
+  /** Maximum size of the screenshots stored with a trace in MB */
+  maxScreenshotSizeMB: number;
   /** Enable auto-cleanup of old traces */
   autoCleanup: boolean;
 }
@@ -24,6 +27,7 @@ export const DEFAULT_TRACE_LIFECYCLE_CONFIG: TraceLifecycleConfig = {
   maxDurationSeconds: 15,
   retentionHours: 24,
   maxBufferSizeMB: 100,
+  maxScreenshotSizeMB: 10,
   autoCleanup: true,
 };
 
@@ -43,7 +47,11 @@ export interface TraceFileInfo {
  */
 export class TraceBuffer {
   private buffer: unknown[] = [];
+  private sizes: number[] = [];
+  /** Index of the oldest retained event; evicted slots are compacted lazily */
+  private head = 0;
   private currentSizeBytes = 0;
+  private evictedCount = 0;
   private readonly maxSizeBytes: number;
 
   constructor(maxSizeMB: number) {
@@ -51,10 +59,12 @@ export class TraceBuffer {
   }
 
   /**
-   * Add an event to the buffer, evicting old events if necessary
+   * Add an event to the buffer, evicting old events if necessary.
+   * Callers that already know the event size (e.g. from parsing it) can
+   * pass it to avoid re-serializing the event.
    */
-  add(event: unknown): boolean {
-    const eventSize = this.estimateSize(event);
+  add(event: unknown, sizeBytes?: number): boolean {
+    const eventSize = sizeBytes ?? this.estimateSize(event);
 
     // If single event exceeds buffer, reject it
     if (eventSize > this.maxSizeBytes) {
@@ -64,24 +74,61 @@ export class TraceBuffer {
     // Evict old events until we have space
     while (
       this.currentSizeBytes + eventSize > this.maxSizeBytes &&
-      this.buffer.length > 0
+      this.head < this.buffer.length
     ) {
-      const removed = this.buffer.shift();
-      if (removed) {
-        this.currentSizeBytes -= this.estimateSize(removed);
-      }
+      this.currentSizeBytes -= this.sizes[this.head]!;
+      this.head++;
+      this.evictedCount++;
     }
+    this.compact();
 
     this.buffer.push(event);
+    this.sizes.push(eventSize);
     this.currentSizeBytes += eventSize;
     return true;
   }
 
+  /**
+   * Add an event only if it fits without evicting older events
+   */
+  addWithinLimit(event: unknown, sizeBytes?: number): boolean {
+    const eventSize = sizeBytes ?? this.estimateSize(event);
+    if (this.currentSizeBytes + eventSize > this.maxSizeBytes) {
+      return false;
+    }
+    return this.add(event, eventSize);
+  }
+
   /**
    * Get all events in the buffer
    */
   getEvents(): unknown[] {
-    return [...this.buffer];
+    return this.buffer.slice(this.head);
+  }
+
+  /**
+   * Remove and return the events that match, keeping the others in order
+   */
+  take(predicate: (event: unknown) => boolean): unknown[] {
+    const taken: unknown[] = [];
+    const kept: unknown[] = [];
+    const keptSizes: number[] = [];
+
+    for (let i = this.head; i < this.buffer.length; i++) {
+      const event = this.buffer[i];
+      if (predicate(event)) {
+        taken.push(event);
+        this.currentSizeBytes -= this.sizes[i]!;
+      } else {
+        kept.push(event);
+        keptSizes.push(this.sizes[i]!);
+      }
+    }
+
+    this.buffer = kept;
+    this.sizes = keptSizes;
+    this.head = 0;
+    return taken;
   }
 
   /**
@@ -89,7 +136,10 @@ export class TraceBuffer {
    */
   clear(): void {
     this.buffer = [];
+    this.sizes = [];
+    this.head = 0;
     this.currentSizeBytes = 0;
+    this.evictedCount = 0;
   }
 
   /**
@@ -110,7 +160,26 @@ export class TraceBuffer {
    * Get number of events in buffer
    */
   getEventCount(): number {
-    return this.buffer.length;
+    return this.buffer.length - this.head;
+  }
+
+  /**
+   * Get number of events evicted to stay within the size limit
+   */
+  getEvictedCount(): number {
+    return this.evictedCount;
+  }
+
+  /**
+   * Drop evicted slots once they make up half of the backing arrays, so
+   * eviction stays O(1) amortized instead of shifting on every event
+   */
+  private compact(): void {
+    if (this.head > 0 && this.head * 2 >= this.buffer.length) {
+      this.buffer = this.buffer.slice(this.head);
+      this.sizes = this.sizes.slice(this.head);
+      this.head = 0;
+    }
   }
 
   /**
@@ -121,6 +190,88 @@ export class TraceBuffer {
   }
 }
 
+/**
+ * Hands trace events out in chunks that fit a memory limit, so that a
+ * trace can be analyzed a part at a time.
+ *
+ * When the buffer is full it is cut at a frame start near its middle: the
+ * events before that frame's timestamp form the chunk and the rest stay
+ * buffered. Chunks therefore hold whole frames, and complete events, which
+ * are written when they end, still join their frame as long as they arrive
+ * within half a buffer. The frame event a chunk is cut at ends that chunk
+ * and is also kept for the next one, so both see the frame boundary.
+ */
+export class TraceChunker {
+  private readonly buffer: TraceBuffer;
+  private hasBeginFrames = false;
+
+  constructor(
+    maxSizeMB: number,
+    private readonly onChunk: (events: TraceEvent[]) => void,
+  ) {
+    this.buffer = new TraceBuffer(maxSizeMB);
+  }
+
+  /**
+   * Add the next event, handing out a chunk first when the buffer is full
+   */
+  add(event: TraceEvent, sizeBytes?: number): void {
+    if (event.name === 'BeginFrame') {
+      this.hasBeginFrames = true;
+    }
+
+    while (!this.buffer.addWithinLimit(event, sizeBytes)) {
+      if (this.buffer.getEventCount() === 0) {
+        // An event larger than the whole buffer is a chunk of its own
+        this.onChunk([event]);
+        return;
+      }
+      this.cut();
+    }
+  }
+
+  /**
+   * Hand out the buffered events as the last chunk
+   */
+  flush(): void {
+    const events = this.buffer.take(() => true) as TraceEvent[];
+    if (events.length > 0) {
+      this.onChunk(events);
+    }
+  }
+
+  /**
+   * Hand out the events before a frame start near the middle of the
+   * buffer, or all of them when there is no frame start to cut at
+   */
+  private cut(): void {
+    const events = this.buffer.getEvents() as TraceEvent[];
+    // Frames start at BeginFrame, or at DrawFrame in traces without it
+    const boundaryName = this.hasBeginFrames ? 'BeginFrame' : 'DrawFrame';
+    const middle = events.length >>> 1;
+
+    let boundary: TraceEvent | undefined;
+    for (let i = 1; i < events.length; i++) {
+      if (events[i]!.name !== boundaryName) continue;
+      boundary = events[i];
+      if (i >= middle) break;
+    }
+
+    const chunk = boundary
+      ? (this.buffer.take(
+          (e) => (e as TraceEvent).ts < boundary.ts,
+        ) as TraceEvent[])
+      : [];
+    if (chunk.length === 0) {
+      this.flush();
+      return;
+    }
+
+    chunk.push(boundary!);
+    this.onChunk(chunk);
+  }
+}
+
 /**
  * Service for managing trace lifecycle including duration limits,
  * retention policies, and memory-bounded buffers
@@ -2,6 +2,8 @@
  * Configuration types for render-debugger
  */
 
+import type { DetectionType, Severity } from './detection.types.js';
+
 export interface BrowserConfig {
   path: string;
   defaultHeadless: boolean;
@@ -21,6 +23,11 @@ export interface AnalysisConfig {
   layoutThrashThreshold: number;
   gpuStallThreshold: number;
   maxSuggestions: number;
+  /**
+   * Domains whose scripts are ours, subdomains included. The traced page's
+   * domain always counts.
+   */
+  firstPartyDomains?: string[];
 }
 
 export interface OutputConfig {
@@ -29,36 +36,209 @@ export interface OutputConfig {
   patchesDir: string;
 }
 
+/**
+ * Plugin entry in config.yaml. A plain string is shorthand for `{ path }`.
+ */
+export interface PluginConfig {
+  /** npm package name, or a path relative to the project root */
+  path: string;
+  /** Options passed to the plugin factory */
+  options?: Record<string, unknown>;
+  enabled?: boolean;
+}
+
+/**
+ * Built-in network throttling presets, matching Chrome DevTools
+ */
+export type NetworkPreset = 'slow-3g' | 'slow-4g' | 'fast-4g';
+
+export interface NetworkConditions {
+  latencyMs: number;
+  downloadKbps: number;
+  uploadKbps: number;
+}
+
+/**
+ * Named device profile in config.yaml, emulated while profiling
+ */
+export interface DeviceProfile {
+  /** CPU slowdown multiplier, e.g. 4 for a 4x slower CPU */
+  cpuSlowdown?: number;
+  network?: NetworkPreset | NetworkConditions;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  mobile?: boolean;
+}
+
+/**
+ * Where monitor violations are sent, and which of them
+ */
+interface AlertSinkBaseConfig {
+  /** Name shown in monitor output, defaults to the sink type */
+  name?: string;
+  /** Severities routed to this sink, defaults to all */
+  severities?: Severity[];
+  /**
+   * Drop a violation of the same rule and severity as one sent within
+   * this many seconds (default 300)
+   */
+  dedupWindowSeconds?: number;
+  /**
+   * After sending an alert for a rule, send nothing else for it for this
+   * many seconds unless its severity goes up (default 60)
+   */
+  cooldownSeconds?: number;
+  enabled?: boolean;
+}
+
+/**
+ * POSTs each alert as JSON
+ */
+export interface WebhookAlertSinkConfig extends AlertSinkBaseConfig {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * POSTs each alert as a Slack incoming webhook message
+ */
+export interface SlackAlertSinkConfig extends AlertSinkBaseConfig {
+  type: 'slack';
+  url: string;
+  channel?: string;
+  username?: string;
+}
+
+export type SyslogFacility =
+  | 'user'
+  | 'daemon'
+  | 'local0'
+  | 'local1'
+  | 'local2'
+  | 'local3'
+  | 'local4'
+  | 'local5'
+  | 'local6'
+  | 'local7';
+
+/**
+ * Sends each alert as an RFC 5424 syslog message
+ */
+export interface SyslogAlertSinkConfig extends AlertSinkBaseConfig {
+  type: 'syslog';
+  /** Defaults to localhost */
+  host?: string;
+  /** Defaults to 514 */
+  port?: number;
+  /** Defaults to udp */
+  protocol?: 'udp' | 'tcp';
+  /** Defaults to user */
+  facility?: SyslogFacility;
+}
+
+/**
+ * Appends each alert as a line of JSON
+ */
+export interface FileAlertSinkConfig extends AlertSinkBaseConfig {
+  type: 'file';
+  /** NDJSON file, relative to the project root */
+  path: string;
+}
+
+export type AlertSinkConfig =
+  | WebhookAlertSinkConfig
+  | SlackAlertSinkConfig
+  | SyslogAlertSinkConfig
+  | FileAlertSinkConfig;
+
+export interface AlertsConfig {
+  sinks: AlertSinkConfig[];
+}
+
 export interface Config {
   version: string;
   browser: BrowserConfig;
   profiling: ProfilingConfig;
   analysis: AnalysisConfig;
   output: OutputConfig;
+  plugins?: Array<string | PluginConfig>;
+  deviceProfiles?: Record<string, DeviceProfile>;
+  /** Alert sinks for monitor violations */
+  alerts?: AlertsConfig;
 }
 
 export type RuleMetric =
+  // Frames
   | 'p95_frame_time'
+  | 'max_frame_time'
+  | 'min_frame_time'
   | 'dropped_frames_pct'
+  | 'dropped_frames'
+  | 'frame_count'
+  | 'avg_fps'
+  | 'frame_budget_ms'
+  | 'duration_ms'
+  // Phase breakdown
+  | 'style_recalc_ms'
+  | 'layout_ms'
+  | 'paint_ms'
+  | 'composite_ms'
+  | 'gpu_ms'
+  // Hotspots
   | 'reflow_cost_ms'
   | 'gpu_stall_ms'
-  | 'long_task_ms';
+  | 'long_task_ms'
+  | 'gc_pause_ms'
+  | 'cls'
+  | 'third_party_ms'
+  | 'layout_thrashing_hotspots'
+  | 'gpu_stall_hotspots'
+  | 'long_task_hotspots'
+  | 'layout_shift_hotspots'
+  | 'gc_pause_hotspots'
+  // Detection counts
+  | 'detections'
+  | `${Severity}_detections`
+  | `${DetectionType}_detections`;
+
+/**
+ * A fixed threshold, or one relative to a baseline branch such as
+ * `+15% vs main` or `+5 vs main`
+ */
+export type RuleThresholdValue = number | string;
 
 export interface RuleThresholds {
-  info?: number;
-  warning?: number;
-  high?: number;
-  critical?: number;
+  info?: RuleThresholdValue;
+  warning?: RuleThresholdValue;
+  high?: RuleThresholdValue;
+  critical?: RuleThresholdValue;
+}
+
+/**
+ * URLs and scenarios a rule applies to. Patterns may use `*` wildcards.
+ */
+export interface RuleScope {
+  urls?: string[];
+  scenarios?: string[];
 }
 
 export interface Rule {
   id: string;
   name: string;
   description: string;
-  metric: RuleMetric;
-  thresholds: RuleThresholds;
+  /** Metric compared against the thresholds. Use either this or expression. */
+  metric?: RuleMetric;
+  /**
+   * Expression over metrics. Numeric expressions are compared against the
+   * thresholds; boolean ones trigger at the rule severity when true.
+   */
+  expression?: string;
+  thresholds?: RuleThresholds;
   severity: 'info' | 'warning' | 'high' | 'critical';
   enabled: boolean;
+  /** Limit the rule to some URLs or scenarios */
+  scope?: RuleScope;
 }
 
 export interface RuleSet {
@@ -4,12 +4,19 @@
 
 import type { TraceEvent } from './trace.types.js';
 
-export type DetectionType =
-  | 'layout_thrashing'
-  | 'gpu_stall'
-  | 'long_task'
-  | 'heavy_paint'
-  | 'forced_reflow';
+/** Every detection type, in detector order */
+export const DETECTION_TYPES = [
+  'layout_thrashing',
+  'gpu_stall',
+  'long_task',
+  'heavy_paint',
+  'forced_reflow',
+  'input_latency',
+  'layout_shift',
+  'gc_jank',
+] as const;
+
+export type DetectionType = (typeof DETECTION_TYPES)[number];
 
 export type Severity = 'info' | 'warning' | 'high' | 'critical';
 
@@ -37,6 +44,35 @@ export interface RiskAssessment {
   factors: string[];
 }
 
+/**
+ * Kind of service a third-party entity provides
+ */
+export type ThirdPartyCategory =
+  | 'ad'
+  | 'analytics'
+  | 'tag-manager'
+  | 'social'
+  | 'customer-success'
+  | 'ab-testing'
+  | 'monitoring'
+  | 'consent'
+  | 'marketing'
+  | 'video'
+  | 'payments';
+
+/**
+ * Who owns the script a detection points at
+ */
+export interface ScriptAttribution {
+  /** Script origin, e.g. "https://www.googletagmanager.com" */
+  origin: string;
+  /** Whether the script is served from a first-party domain */
+  firstParty: boolean;
+  /** Catalog entity, or the host for unlisted third parties */
+  entity?: string;
+  category?: ThirdPartyCategory;
+}
+
 export interface DetectionMetrics {
   durationMs: number;
   occurrences: number;
@@ -60,6 +96,8 @@ export interface Detection {
   location: DetectionLocation;
   metrics: DetectionMetrics;
   evidence: TraceEvent[];
+  /** Owner of location.file, when it is a script URL */
+  attribution?: ScriptAttribution;
 }
 
 export interface DOMPropertyAccess {
@@ -107,6 +145,17 @@ export interface StackFrame {
   isSourceMapped: boolean;
 }
 
+/**
+ * A frame in a sampled CPU profile call tree, aggregated by call path
+ */
+export interface FlameGraphNode extends StackFrame {
+  /** Sampled time with this frame on top of the stack */
+  selfMs: number;
+  /** Sampled time with this frame anywhere on the stack */
+  totalMs: number;
+  children: FlameGraphNode[];
+}
+
 export interface LongTaskDetection extends Detection {
   type: 'long_task';
   functionName: string;
@@ -117,6 +166,110 @@ export interface LongTaskDetection extends Detection {
   occurrences: number;
   correlatedFrameDrops: number;
   callStack: StackFrame[];
+  /** Sampled JS call tree within the task time ranges, if the trace has CPU samples */
+  flameGraph?: FlameGraphNode;
+}
+
+/**
+ * INP-style breakdown of a single interaction, in milliseconds
+ */
+export interface InteractionLatencyBreakdown {
+  /** Input timestamp to start of event handler processing */
+  inputDelayMs: number;
+  /** Time spent running event handlers */
+  processingTimeMs: number;
+  /** End of processing to the next presented frame */
+  presentationDelayMs: number;
+  /** Input timestamp to next presented frame */
+  totalMs: number;
+}
+
+export interface InputLatencyDetection extends Detection {
+  type: 'input_latency';
+  /** DOM event type of the slowest interaction (click, keydown, ...) */
+  eventType: string;
+  functionName: string;
+  file: string;
+  line: number;
+  column: number;
+  /** Number of slow interactions handled by this handler */
+  occurrences: number;
+  /** Breakdown of the slowest interaction */
+  worstInteraction: InteractionLatencyBreakdown;
+  /** Interaction to Next Paint estimate across all interactions in the trace */
+  inpMs: number;
+  callStack: StackFrame[];
+}
+
+/**
+ * Likely reason content moved
+ */
+export type LayoutShiftCause =
+  | 'late_image'
+  | 'web_font'
+  | 'injected_content'
+  | 'unknown';
+
+/**
+ * A node moved by a layout shift
+ */
+export interface ShiftedNode {
+  /** DOM node ID from the trace */
+  nodeId: number;
+  /** Node name (e.g. "DIV id='hero'") or "node #<id>" when unknown */
+  node: string;
+  /** Largest horizontal or vertical movement in CSS pixels */
+  distancePx: number;
+}
+
+export interface LayoutShiftEntry {
+  /** Shift timestamp in microseconds */
+  timestamp: number;
+  /** Layout shift score (weighted for subframes) */
+  score: number;
+  movedNodes: ShiftedNode[];
+  cause: LayoutShiftCause;
+  /** Resource URL or node that triggered the cause, when known */
+  causeDetail?: string;
+}
+
+export interface LayoutShiftDetection extends Detection {
+  type: 'layout_shift';
+  /** Sum of shift scores in this session window */
+  windowScore: number;
+  /** Session window start in microseconds */
+  windowStart: number;
+  /** Session window duration in milliseconds */
+  windowDurationMs: number;
+  shifts: LayoutShiftEntry[];
+  /** Cumulative Layout Shift for the trace (largest session window) */
+  cls: number;
+}
+
+export interface GCJankDetection extends Detection {
+  type: 'gc_jank';
+  /** JavaScript running when the collections started, usually the allocating code */
+  functionName: string;
+  file: string;
+  line: number;
+  column: number;
+  /** Total garbage collection pause time */
+  gcMs: number;
+  /** Pause time spent in full (mark-compact) collections */
+  majorGcMs: number;
+  /** Pause time spent in young generation (scavenge) collections */
+  minorGcMs: number;
+  /** Number of collections */
+  pauses: number;
+  /** Dropped frames in which garbage collection took a significant share */
+  jankFrames: number;
+  /** Frames in which these collections ran and the JS heap churned past the threshold */
+  churnFrames: number;
+  /** Mean JS heap allocated per frame in frames where these collections ran, if known */
+  allocatedMbPerFrame?: number;
+  /** Net JS heap growth over the whole trace, if the trace has heap counters */
+  heapGrowthMb?: number;
+  callStack: StackFrame[];
 }
 
 export interface HeavyPaintDetection extends Detection {
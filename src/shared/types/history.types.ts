@@ -0,0 +1,55 @@
+/**
+ * History types for long-term trace trends
+ */
+
+import type { TraceSummary } from './trace.types.js';
+import type { Detection } from './detection.types.js';
+
+/**
+ * One analyzed run in the history store
+ */
+export interface HistoryRecord {
+  id: string;
+  /** ISO timestamp of when the run was recorded */
+  recorded_at: string;
+  name: string;
+  url: string;
+  scenario: string;
+  /** HEAD commit when the run was recorded, if inside a git repository */
+  git_commit?: string;
+  branch?: string;
+  summary: TraceSummary;
+  detections: Detection[];
+}
+
+/**
+ * Direction of a metric over the recorded runs
+ */
+export type TrendDirection = 'regressing' | 'improving' | 'stable';
+
+export interface TrendPoint {
+  run_id: string;
+  recorded_at: string;
+  git_commit?: string;
+  value: number;
+}
+
+/**
+ * One metric across a series of runs, oldest first
+ */
+export interface MetricTrend {
+  key: string;
+  label: string;
+  unit: string;
+  higher_is_better: boolean;
+  points: TrendPoint[];
+  latest: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Median of the runs before the latest one */
+  baseline?: number;
+  /** Change of the latest run from the baseline, in percent */
+  change_pct?: number;
+  direction: TrendDirection;
+}
@@ -9,3 +9,4 @@ export * from './config.types.js';
 export * from './scenario.types.js';
 export * from './patch.types.js';
 export * from './monitor.types.js';
+export * from './history.types.js';
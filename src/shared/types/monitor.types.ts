@@ -9,6 +9,12 @@ export interface WindowMetrics {
   droppedFramesPct: number;
   p95FrameTime: number;
   samples: number;
+  /** Forced reflow time in the window (ms) */
+  reflowCostMs: number;
+  /** Main thread time blocked on the GPU in the window (ms) */
+  gpuStallMs: number;
+  /** Time in long JavaScript tasks in the window (ms) */
+  longTaskMs: number;
 }
 
 export interface RollingMetrics {
@@ -26,6 +32,8 @@ export interface Violation {
   severity: Severity;
   actualValue: number;
   threshold: number;
+  /** Expression of a condition rule, which has no threshold */
+  condition?: string;
   timestamp: Date;
 }
 
@@ -34,6 +42,8 @@ export interface MonitorOptions {
   scenario: string;
   rollingWindowSeconds: number;
   alertCmd?: string;
+  /** Device profile from config.yaml to emulate */
+  deviceProfile?: string;
 }
 
 export type ViolationHandler = (violation: Violation) => void;
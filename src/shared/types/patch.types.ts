@@ -24,18 +24,67 @@ export interface PatchFailure {
   error?: Error;
 }
 
-export interface BenchmarkMetrics {
+export interface BenchmarkRunMetrics {
   avgFps: number;
   droppedFramesPct: number;
   p95FrameTime: number;
   totalFrames: number;
 }
 
+export interface BenchmarkMetrics extends BenchmarkRunMetrics {
+  /** Metrics of each individual run the aggregate was computed from */
+  runs?: BenchmarkRunMetrics[];
+}
+
+/**
+ * How to re-run the original profile when benchmarking patches
+ */
+export interface BenchmarkOptions {
+  url: string;
+  scenario?: string;
+  /**
+   * Scenario recorded in the original trace, run when no scenario is
+   * given and the adapter supports scenarios
+   */
+  recordedScenario?: string;
+  fpsTarget: number;
+  /** Adapter type to profile with (auto-detected when omitted) */
+  adapter?: string;
+  /** Number of profile runs before and after patching */
+  runs: number;
+  /** Duration of each profile run in milliseconds */
+  durationMs: number;
+  browserPath?: string;
+  headless?: boolean;
+  port?: number;
+  host?: string;
+  /** Significance level for the before/after regression test */
+  alpha?: number;
+}
+
+/**
+ * Outcome of the before/after benchmark comparison
+ */
+export interface BenchmarkVerdict {
+  /** True when the patched runs are significantly worse */
+  regressed: boolean;
+  /**
+   * True when there were too few runs for any difference to reach alpha,
+   * so a regression could not have been detected
+   */
+  inconclusive: boolean;
+  /** Metrics that got significantly worse, with their p-values */
+  worseMetrics: Array<{ metric: keyof BenchmarkRunMetrics; pValue: number }>;
+  alpha: number;
+}
+
 export interface ApplyOptions {
   autoApply: boolean;
   dryRun: boolean;
   backup: boolean;
   gitBranch?: string;
+  /** Re-profile before/after applying; skipped when omitted */
+  benchmark?: BenchmarkOptions;
 }
 
 export interface ApplyResult {
@@ -46,6 +95,9 @@ export interface ApplyResult {
   branch?: string;
   beforeMetrics: BenchmarkMetrics;
   afterMetrics: BenchmarkMetrics;
+  benchmarkVerdict?: BenchmarkVerdict;
+  /** True when the branch was reset to the backup commit */
+  rolledBack?: boolean;
 }
 
 export interface DryRunResult {
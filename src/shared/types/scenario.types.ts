@@ -7,7 +7,16 @@ export type ScenarioStepType =
   | 'click'
   | 'wait'
   | 'animate'
-  | 'custom';
+  | 'custom'
+  | 'type'
+  | 'hover'
+  | 'drag'
+  | 'key'
+  | 'navigate'
+  | 'waitForSelector'
+  | 'waitForNetworkIdle'
+  | 'waitForFunction'
+  | 'assert';
 
 export interface ScrollParams {
   direction: 'up' | 'down' | 'left' | 'right';
@@ -34,12 +43,109 @@ export interface CustomParams {
   script: string;
 }
 
+/**
+ * A pointer position: a CSS selector (element center) or viewport coordinates
+ */
+export type PointerTarget = string | { x: number; y: number };
+
+export interface TypeParams {
+  selector: string;
+  text: string;
+  /** Delay between keystrokes in ms (default 50) */
+  delay?: number;
+  /** Clear the field before typing */
+  clear?: boolean;
+}
+
+export interface HoverParams {
+  /** Points to move the pointer through, in order */
+  path: PointerTarget[];
+  /** Intermediate mouse moves between consecutive points (default 10) */
+  steps?: number;
+}
+
+export interface DragParams {
+  from: PointerTarget;
+  to: PointerTarget;
+  /** Points to pass through between `from` and `to` */
+  via?: PointerTarget[];
+  /** Intermediate mouse moves between consecutive points (default 10) */
+  steps?: number;
+}
+
+export interface KeyParams {
+  /** Key or shortcut, e.g. `Tab`, `Enter`, `Control+A`, `Shift+Tab` */
+  key: string;
+  /** Number of presses (default 1) */
+  repeat?: number;
+  /** Delay between presses in ms (default 100) */
+  delay?: number;
+}
+
+export interface NavigateParams {
+  /** Absolute URL, or a URL relative to the current page */
+  url: string;
+  /** Page event to wait for (default `load`) */
+  waitUntil?: 'load' | 'domcontentloaded';
+  /** Maximum wait in ms (default 30000) */
+  timeout?: number;
+}
+
+export interface WaitForSelectorParams {
+  selector: string;
+  /** State to wait for (default `visible`) */
+  state?: 'attached' | 'visible' | 'hidden';
+  /** Maximum wait in ms (default 10000) */
+  timeout?: number;
+}
+
+export interface WaitForNetworkIdleParams {
+  /** How long the network must stay idle, in ms (default 500) */
+  idleTime?: number;
+  /** Requests allowed in flight while still counting as idle (default 0) */
+  maxInflight?: number;
+  /** Maximum wait in ms (default 30000) */
+  timeout?: number;
+}
+
+export interface WaitForFunctionParams {
+  /** JavaScript expression polled until it returns a truthy value */
+  expression: string;
+  /** Polling interval in ms (default 100) */
+  polling?: number;
+  /** Maximum wait in ms (default 10000) */
+  timeout?: number;
+}
+
+export interface AssertParams {
+  /**
+   * - `visible`: `selector` matches a visible element
+   * - `text`: `text` appears in `selector` (or anywhere on the page)
+   * - `predicate`: `expression` returns a truthy value
+   */
+  assertion: 'visible' | 'text' | 'predicate';
+  selector?: string;
+  text?: string;
+  expression?: string;
+  /** Message reported when the assertion fails */
+  message?: string;
+}
+
 export type ScenarioStepParams =
   | ScrollParams
   | ClickParams
   | WaitParams
   | AnimateParams
   | CustomParams
+  | TypeParams
+  | HoverParams
+  | DragParams
+  | KeyParams
+  | NavigateParams
+  | WaitForSelectorParams
+  | WaitForNetworkIdleParams
+  | WaitForFunctionParams
+  | AssertParams
   | Record<string, unknown>;
 
 export interface ScenarioStep {
@@ -52,6 +158,11 @@ export interface ScenarioStep {
 export interface Scenario {
   name: string;
   description: string;
+  /**
+   * Steps that bring the page into a known state before tracing starts.
+   * A failing assertion here marks the profile as invalid.
+   */
+  setup?: ScenarioStep[];
   steps: ScenarioStep[];
 }
 
@@ -61,5 +172,8 @@ export interface ScenarioResult {
   stepsExecuted: number;
   totalSteps: number;
   duration: number;
+  /** Steps that could not be executed (timeouts, missing elements, CDP errors) */
   errors: string[];
+  /** Assert steps whose condition did not hold */
+  assertionFailures: string[];
 }
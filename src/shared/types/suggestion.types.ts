@@ -7,7 +7,10 @@ export type JSFixPattern =
   | 'debounce'
   | 'move_to_worker'
   | 'use_raf'
-  | 'use_css_animation';
+  | 'use_css_animation'
+  | 'yield_to_main'
+  | 'object_pooling'
+  | 'hoist_closures';
 
 export type SuggestionConfidence = 'high' | 'medium' | 'low';
 
@@ -2,6 +2,13 @@
  * Trace data types for Chrome DevTools Protocol tracing
  */
 
+import type {
+  LayoutShiftCause,
+  DetectionType,
+  Severity,
+  ThirdPartyCategory,
+} from './detection.types.js';
+
 export interface TraceEvent {
   pid: number;
   tid: number;
@@ -13,6 +20,39 @@ export interface TraceEvent {
   dur?: number;
   tdur?: number;
   s?: string;
+  /** Async event ID, pairs begin/end events */
+  id?: string;
+  id2?: { local?: string; global?: string };
+}
+
+/**
+ * Call frame of a V8 CPU profile node. Line and column are 0-based.
+ */
+export interface CpuProfileCallFrame {
+  functionName: string;
+  url: string;
+  scriptId?: number | string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+export interface CpuProfileNode {
+  id: number;
+  parent?: number;
+  callFrame: CpuProfileCallFrame;
+}
+
+/**
+ * CPU profile reconstructed from `Profile` and `ProfileChunk` trace events
+ */
+export interface CpuProfile {
+  pid: number;
+  tid: number;
+  /** Profile start in microseconds */
+  startTime: number;
+  nodes: Map<number, CpuProfileNode>;
+  /** Sampled node IDs with their timestamps in microseconds */
+  samples: Array<{ nodeId: number; timestamp: number }>;
 }
 
 export interface TraceMetadata {
@@ -23,6 +63,50 @@ export interface TraceMetadata {
   timestamp: string;
   scenario: string;
   fps_target: number;
+  /** Adapter type that recorded the trace, absent in older traces */
+  adapter?: string;
+  /** Device profile emulated while recording, absent at full speed */
+  device_profile?: TraceDeviceProfile;
+  /** Screenshot directory, relative to the trace file, when captured */
+  screenshots?: string;
+}
+
+/**
+ * A page screenshot captured while profiling
+ */
+export interface ScreenshotFrame {
+  /** Capture timestamp in microseconds, on the trace clock */
+  ts: number;
+  /** Image file name within the screenshot directory */
+  file: string;
+  size_bytes: number;
+}
+
+/**
+ * Index of the screenshots stored alongside a trace
+ */
+export interface ScreenshotManifest {
+  format: 'jpeg';
+  frames: ScreenshotFrame[];
+  /** Screenshots left out to stay under the size cap */
+  dropped: number;
+}
+
+/**
+ * Resolved settings of the device profile a trace was recorded under
+ */
+export interface TraceDeviceProfile {
+  name: string;
+  cpu_slowdown: number;
+  network?: {
+    preset?: string;
+    latency_ms: number;
+    download_kbps: number;
+    upload_kbps: number;
+  };
+  viewport?: { width: number; height: number };
+  device_pixel_ratio?: number;
+  mobile?: boolean;
 }
 
 export interface TraceData {
@@ -66,10 +150,111 @@ export interface LongTaskHotspot {
   occurrences: number;
 }
 
+export interface GCPauseHotspot {
+  function: string;
+  file: string;
+  line: number;
+  gc_ms: number;
+  pauses: number;
+  jank_frames: number;
+  /** Mean JS heap allocated per frame while these collections ran, if known */
+  allocated_mb_per_frame?: number;
+}
+
+export interface LayoutShiftHotspot {
+  /** Session window start, milliseconds from trace start */
+  start_ms: number;
+  score: number;
+  shift_count: number;
+  /** Moved nodes, most-moved first */
+  nodes: string[];
+  causes: LayoutShiftCause[];
+}
+
+/**
+ * A `performance.mark()` recorded in the trace
+ */
+export interface UserTimingMark {
+  name: string;
+  /** Timestamp in microseconds */
+  timestamp: number;
+}
+
+/**
+ * A `performance.measure()` recorded in the trace
+ */
+export interface UserTimingMeasure {
+  name: string;
+  /** Start timestamp in microseconds */
+  startTime: number;
+  /** End timestamp in microseconds */
+  endTime: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+}
+
+export interface UserTimingData {
+  marks: UserTimingMark[];
+  measures: UserTimingMeasure[];
+}
+
+/**
+ * Metrics scoped to every occurrence of one User Timing measure
+ */
+export interface SegmentSummary {
+  /** Measure name, e.g. "open-modal" */
+  name: string;
+  /** Number of times the measure was recorded */
+  occurrences: number;
+  /** First occurrence start, milliseconds from trace start */
+  start_ms: number;
+  /** Total measured time across occurrences */
+  duration_ms: number;
+  frames: FrameMetrics;
+  phase_breakdown: PhaseBreakdown;
+  /** Detections with evidence inside the segment */
+  detections: SegmentDetection[];
+}
+
+export interface SegmentDetection {
+  type: DetectionType;
+  severity: Severity;
+  description: string;
+}
+
 export interface Hotspots {
   layout_thrashing: LayoutThrashingHotspot[];
   gpu_stalls: GPUStallHotspot[];
   long_tasks: LongTaskHotspot[];
+  /** Absent in summaries recorded before layout shift detection */
+  layout_shifts?: LayoutShiftHotspot[];
+  /** Absent in summaries recorded before GC jank detection */
+  gc_pauses?: GCPauseHotspot[];
+}
+
+/**
+ * Main thread work attributed to one third-party entity
+ */
+export interface ThirdPartyImpact {
+  /** Catalog entity, or the host for unlisted third parties */
+  entity: string;
+  category?: ThirdPartyCategory;
+  /** Script and frame URLs the work was attributed to, costliest first */
+  scripts: ThirdPartyScript[];
+  long_task_ms: number;
+  long_tasks: number;
+  /** Layout forced synchronously by the entity's scripts */
+  layout_thrash_ms: number;
+  forced_reflows: number;
+  /** Paint work of the entity's frames, e.g. ad iframes */
+  paint_ms: number;
+  total_ms: number;
+}
+
+export interface ThirdPartyScript {
+  /** URL without query string or fragment */
+  url: string;
+  total_ms: number;
 }
 
 export interface SuggestionSummary {
@@ -87,6 +272,16 @@ export interface TraceSummary {
   frames: FrameMetrics;
   phase_breakdown: PhaseBreakdown;
   hotspots: Hotspots;
+  /** Cumulative Layout Shift, when the trace recorded layout shifts */
+  cls?: number;
+  /** Per-measure metrics, when the page recorded User Timing measures */
+  segments?: SegmentSummary[];
+  /** Work attributed to third-party scripts, costliest entity first */
+  third_party?: ThirdPartyImpact[];
   suggestions: SuggestionSummary[];
   metadata: TraceMetadata;
+  /** False when the run cannot be trusted, e.g. a setup assertion failed */
+  valid?: boolean;
+  /** Why the run is invalid */
+  invalid_reasons?: string[];
 }
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for CPU profile utilities
+ */
+
+import { extractCpuProfiles, buildFlameGraph } from './cpu-profile.js';
+import type { TraceEvent } from '../types/index.js';
+
+function frame(id: number, functionName: string, parent?: number) {
+  return {
+    id,
+    parent,
+    callFrame: {
+      functionName,
+      url: functionName.startsWith('(') ? '' : 'https://app.test/main.js',
+      lineNumber: id * 10,
+      columnNumber: 4,
+    },
+  };
+}
+
+function profileEvent(
+  name: string,
+  ts: number,
+  data: Record<string, unknown>,
+  tid = 1,
+): TraceEvent {
+  return {
+    pid: 1,
+    tid,
+    ts,
+    ph: 'P',
+    cat: 'disabled-by-default-v8.cpu_profiler',
+    name,
+    id: '0x1',
+    args: { data },
+  };
+}
+
+describe('cpu profile', () => {
+  // (root) -> main -> render -> layoutList
+  //                  \-> (garbage collector)
+  const events: TraceEvent[] = [
+    profileEvent('Profile', 1_000, { startTime: 1_000 }),
+    profileEvent('ProfileChunk', 2_000, {
+      cpuProfile: {
+        nodes: [
+          frame(1, '(root)'),
+          frame(2, 'main', 1),
+          frame(3, 'render', 2),
+          frame(4, '(idle)', 1),
+        ],
+        samples: [3, 3, 2],
+      },
+      timeDeltas: [1_000, 1_000, 1_000],
+    }),
+    profileEvent('ProfileChunk', 3_000, {
+      cpuProfile: {
+        nodes: [frame(5, 'layoutList', 3), frame(6, '(garbage collector)', 2)],
+        samples: [5, 6, 4, 3],
+      },
+      timeDeltas: [2_000, 1_000, 1_000, 1_000],
+    }),
+  ];
+
+  it('should rebuild samples across chunks from time deltas', () => {
+    const [profile] = extractCpuProfiles(events);
+
+    expect(profile!.nodes.size).toBe(6);
+    expect(profile!.samples).toEqual([
+      { nodeId: 3, timestamp: 2_000 },
+      { nodeId: 3, timestamp: 3_000 },
+      { nodeId: 2, timestamp: 4_000 },
+      { nodeId: 5, timestamp: 6_000 },
+      { nodeId: 6, timestamp: 7_000 },
+      { nodeId: 4, timestamp: 8_000 },
+      { nodeId: 3, timestamp: 9_000 },
+    ]);
+  });
+
+  it('should aggregate sampled time into a call tree within the ranges', () => {
+    const profiles = extractCpuProfiles(events);
+    const root = buildFlameGraph(profiles, [{ start: 2_000, end: 8_000 }]);
+
+    expect(root).toMatchObject({ functionName: '(root)', totalMs: 6 });
+    const main = root!.children[0]!;
+    expect(main).toMatchObject({
+      functionName: 'main',
+      file: 'https://app.test/main.js',
+      line: 21,
+      column: 5,
+      totalMs: 6,
+      selfMs: 2,
+    });
+    expect(
+      main.children.map((c) => [c.functionName, c.totalMs, c.selfMs]),
+    ).toEqual([
+      ['render', 3, 2],
+      ['(garbage collector)', 1, 1],
+    ]);
+    expect(main.children[0]!.children[0]).toMatchObject({
+      functionName: 'layoutList',
+      totalMs: 1,
+    });
+
+    // Idle samples and other threads are not attributed
+    expect(buildFlameGraph(profiles, [{ start: 8_000, end: 9_000 }])).toBe(
+      undefined,
+    );
+    expect(
+      buildFlameGraph(profiles, [{ start: 2_000, end: 8_000, tid: 2 }]),
+    ).toBe(undefined);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * CPU Profile Utility
+ * Reconstructs the V8 sampling profile that Chromium streams into the trace
+ * when `disabled-by-default-v8.cpu_profiler` is enabled, and aggregates its
+ * samples into flame graph call trees
+ *
+ * A `Profile` event opens a profile and carries its start time. Each
+ * `ProfileChunk` event with the same ID appends new call tree nodes and
+ * samples, with sample timestamps encoded as deltas from the previous one.
+ */
+
+import type {
+  TraceEvent,
+  CpuProfile,
+  CpuProfileNode,
+} from '../types/trace.types.js';
+import type { FlameGraphNode } from '../types/detection.types.js';
+
+/**
+ * A time range in microseconds, optionally limited to one thread
+ */
+export interface ProfileTimeRange {
+  start: number;
+  end: number;
+  pid?: number;
+  tid?: number;
+}
+
+const ROOT_FRAME = '(root)';
+
+/**
+ * Samples taken while the thread was idle are not attributed to any work
+ */
+const IDLE_FRAME = '(idle)';
+
+interface ProfileChunkData {
+  startTime?: number;
+  cpuProfile?: {
+    nodes?: CpuProfileNode[];
+    samples?: number[];
+  };
+  timeDeltas?: number[];
+}
+
+/**
+ * Reconstruct CPU profiles from `Profile` and `ProfileChunk` trace events
+ */
+export function extractCpuProfiles(events: TraceEvent[]): CpuProfile[] {
+  const builder = new CpuProfileBuilder();
+  builder.add(events);
+  return builder.getProfiles();
+}
+
+/**
+ * Reconstructs CPU profiles from trace events read a part at a time, in
+ * time order
+ */
+export class CpuProfileBuilder {
+  private readonly profiles = new Map<string, CpuProfile>();
+  private readonly lastTimestamps = new Map<string, number>();
+
+  /**
+   * Add the `Profile` and `ProfileChunk` events among the next events
+   */
+  add(events: TraceEvent[]): void {
+    const profileEvents = events
+      .filter((e) => e.name === 'Profile' || e.name === 'ProfileChunk')
+      .sort((a, b) => a.ts - b.ts);
+
+    for (const event of profileEvents) {
+      const key = `${event.pid}:${event.id ?? ''}`;
+      const data = (event.args?.data ?? {}) as ProfileChunkData;
+
+      let profile = this.profiles.get(key);
+      if (!profile) {
+        profile = {
+          pid: event.pid,
+          tid: event.tid,
+          startTime: data.startTime ?? event.ts,
+          nodes: new Map(),
+          samples: [],
+        };
+        this.profiles.set(key, profile);
+        this.lastTimestamps.set(key, profile.startTime);
+      }
+
+      if (event.name === 'Profile') {
+        if (data.startTime !== undefined && profile.samples.length === 0) {
+          profile.startTime = data.startTime;
+          this.lastTimestamps.set(key, data.startTime);
+        }
+        continue;
+      }
+
+      for (const node of data.cpuProfile?.nodes ?? []) {
+        profile.nodes.set(node.id, node);
+      }
+
+      const samples = data.cpuProfile?.samples ?? [];
+      const deltas = data.timeDeltas ?? [];
+      let timestamp = this.lastTimestamps.get(key)!;
+
+      samples.forEach((nodeId, i) => {
+        timestamp += deltas[i] ?? 0;
+        profile.samples.push({ nodeId, timestamp });
+      });
+      this.lastTimestamps.set(key, timestamp);
+    }
+  }
+
+  /**
+   * Profiles with at least one sample
+   */
+  getProfiles(): CpuProfile[] {
+    return Array.from(this.profiles.values()).filter(
+      (p) => p.samples.length > 0,
+    );
+  }
+}
+
+interface MutableFlameNode {
+  frame: Omit<FlameGraphNode, 'selfMs' | 'totalMs' | 'children'>;
+  selfUs: number;
+  totalUs: number;
+  children: Map<string, MutableFlameNode>;
+}
+
+/**
+ * Aggregate the samples that fall within any of the ranges into a top-down
+ * call tree. Each sample lasts until the next sample of the same profile.
+ * @returns The `(root)` node, or undefined if no samples fall in the ranges
+ */
+export function buildFlameGraph(
+  profiles: CpuProfile[],
+  ranges: ProfileTimeRange[],
+): FlameGraphNode | undefined {
+  const root = createNode(ROOT_FRAME, '', -1, -1);
+
+  for (const profile of profiles) {
+    const profileRanges = ranges.filter(
+      (r) =>
+        (r.pid === undefined || r.pid === profile.pid) &&
+        (r.tid === undefined || r.tid === profile.tid),
+    );
+    if (profileRanges.length === 0) continue;
+
+    for (let i = 0; i < profile.samples.length - 1; i++) {
+      const sample = profile.samples[i]!;
+      const durationUs = profile.samples[i + 1]!.timestamp - sample.timestamp;
+      if (durationUs <= 0) continue;
+      if (
+        !profileRanges.some(
+          (r) => sample.timestamp >= r.start && sample.timestamp < r.end,
+        )
+      ) {
+        continue;
+      }
+
+      const path = getNodePath(profile, sample.nodeId);
+      if (path.length === 0) continue;
+
+      root.totalUs += durationUs;
+      let parent = root;
+      for (const node of path) {
+        const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+        const key = `${functionName}|${url}|${lineNumber}|${columnNumber}`;
+        let child = parent.children.get(key);
+        if (!child) {
+          child = createNode(functionName, url, lineNumber, columnNumber);
+          parent.children.set(key, child);
+        }
+        child.totalUs += durationUs;
+        parent = child;
+      }
+      parent.selfUs += durationUs;
+    }
+  }
+
+  return root.totalUs > 0 ? toFlameGraphNode(root) : undefined;
+}
+
+/**
+ * Walk flame graph nodes depth-first, parents before children
+ */
+export function walkFlameGraph(
+  node: FlameGraphNode,
+  visit: (node: FlameGraphNode, depth: number) => void,
+  depth = 0,
+): void {
+  visit(node, depth);
+  for (const child of node.children) {
+    walkFlameGraph(child, visit, depth + 1);
+  }
+}
+
+/**
+ * Call path from the outermost frame to the sampled node, excluding the
+ * profile root. Empty for idle samples.
+ */
+function getNodePath(profile: CpuProfile, nodeId: number): CpuProfileNode[] {
+  const path: CpuProfileNode[] = [];
+  let node = profile.nodes.get(nodeId);
+
+  while (node) {
+    if (node.callFrame.functionName === IDLE_FRAME) return [];
+    if (node.callFrame.functionName !== ROOT_FRAME) {
+      path.push(node);
+    }
+    node =
+      node.parent !== undefined ? profile.nodes.get(node.parent) : undefined;
+  }
+
+  return path.reverse();
+}
+
+function createNode(
+  functionName: string,
+  url: string,
+  lineNumber: number,
+  columnNumber: number,
+): MutableFlameNode {
+  return {
+    frame: {
+      functionName: functionName || '(anonymous)',
+      file: url,
+      // V8 call frames are 0-based, stack frames elsewhere are 1-based
+      line: lineNumber >= 0 ? lineNumber + 1 : 0,
+      column: columnNumber >= 0 ? columnNumber + 1 : 0,
+      isSourceMapped: false,
+    },
+    selfUs: 0,
+    totalUs: 0,
+    children: new Map(),
+  };
+}
+
+function toFlameGraphNode(node: MutableFlameNode): FlameGraphNode {
+  return {
+    ...node.frame,
+    selfMs: Math.round(node.selfUs / 10) / 100,
+    totalMs: Math.round(node.totalUs / 10) / 100,
+    children: Array.from(node.children.values())
+      .sort((a, b) => b.totalUs - a.totalUs)
+      .map(toFlameGraphNode),
+  };
+}
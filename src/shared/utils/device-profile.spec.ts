@@ -0,0 +1,66 @@
+import {
+  resolveDeviceProfile,
+  isSameDeviceProfile,
+  describeDeviceProfile,
+} from './device-profile';
+
+describe('device profiles', () => {
+  it('should resolve network presets and default the CPU slowdown', () => {
+    expect(
+      resolveDeviceProfile('low-end-mobile', {
+        cpuSlowdown: 4,
+        network: 'slow-4g',
+        viewport: { width: 360, height: 640 },
+        deviceScaleFactor: 3,
+        mobile: true,
+      }),
+    ).toEqual({
+      name: 'low-end-mobile',
+      cpu_slowdown: 4,
+      network: {
+        preset: 'slow-4g',
+        latency_ms: 562.5,
+        download_kbps: 1474.56,
+        upload_kbps: 675,
+      },
+      viewport: { width: 360, height: 640 },
+      device_pixel_ratio: 3,
+      mobile: true,
+    });
+
+    expect(
+      resolveDeviceProfile('lan', {
+        network: { latencyMs: 5, downloadKbps: 100000, uploadKbps: 50000 },
+      }),
+    ).toMatchObject({
+      cpu_slowdown: 1,
+      network: { latency_ms: 5, download_kbps: 100000, upload_kbps: 50000 },
+    });
+  });
+
+  it('should only match traces recorded with the same settings', () => {
+    const slow = resolveDeviceProfile('slow', { cpuSlowdown: 4 });
+
+    expect(isSameDeviceProfile(undefined, undefined)).toBe(true);
+    expect(isSameDeviceProfile(slow, { ...slow })).toBe(true);
+    expect(isSameDeviceProfile(slow, undefined)).toBe(false);
+    expect(
+      isSameDeviceProfile(
+        slow,
+        resolveDeviceProfile('slow', { cpuSlowdown: 6 }),
+      ),
+    ).toBe(false);
+    // Presets match the equivalent explicit conditions
+    expect(
+      isSameDeviceProfile(
+        resolveDeviceProfile('mobile', { network: 'fast-4g' }),
+        resolveDeviceProfile('mobile', {
+          network: { latencyMs: 165, downloadKbps: 9000, uploadKbps: 1500 },
+        }),
+      ),
+    ).toBe(true);
+
+    expect(describeDeviceProfile(slow)).toBe('"slow"');
+    expect(describeDeviceProfile(undefined)).toBe('no device profile');
+  });
+});
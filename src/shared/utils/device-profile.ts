@@ -0,0 +1,90 @@
+/**
+ * Device Profile Utility
+ * Resolves named device profiles from config.yaml into the settings that
+ * are emulated and recorded in trace metadata
+ */
+
+import type {
+  DeviceProfile,
+  NetworkConditions,
+  NetworkPreset,
+} from '../types/config.types.js';
+import type { TraceDeviceProfile } from '../types/trace.types.js';
+
+/**
+ * Network throttling presets, with the values Chrome DevTools uses
+ */
+export const NETWORK_PRESETS: Record<NetworkPreset, NetworkConditions> = {
+  'slow-3g': { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'slow-4g': { latencyMs: 562.5, downloadKbps: 1474.56, uploadKbps: 675 },
+  'fast-4g': { latencyMs: 165, downloadKbps: 9000, uploadKbps: 1500 },
+};
+
+/**
+ * Resolve a device profile and its network preset, if any
+ */
+export function resolveDeviceProfile(
+  name: string,
+  profile: DeviceProfile,
+): TraceDeviceProfile {
+  const preset =
+    typeof profile.network === 'string' ? profile.network : undefined;
+  const network: NetworkConditions | undefined =
+    typeof profile.network === 'string'
+      ? NETWORK_PRESETS[profile.network]
+      : profile.network;
+
+  return {
+    name,
+    cpu_slowdown: profile.cpuSlowdown ?? 1,
+    network: network
+      ? {
+          preset,
+          latency_ms: network.latencyMs,
+          download_kbps: network.downloadKbps,
+          upload_kbps: network.uploadKbps,
+        }
+      : undefined,
+    viewport: profile.viewport,
+    device_pixel_ratio: profile.deviceScaleFactor,
+    mobile: profile.mobile,
+  };
+}
+
+/**
+ * Whether two traces were recorded under the same device profile settings.
+ * Traces recorded without a profile only match each other.
+ */
+export function isSameDeviceProfile(
+  a: TraceDeviceProfile | undefined,
+  b: TraceDeviceProfile | undefined,
+): boolean {
+  if (!a || !b) return a === b;
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Human-readable profile name for messages
+ */
+export function describeDeviceProfile(
+  profile: TraceDeviceProfile | undefined,
+): string {
+  return profile ? `"${profile.name}"` : 'no device profile';
+}
+
+/**
+ * Settings in a fixed key order, without the undefined ones
+ */
+function normalize(profile: TraceDeviceProfile): unknown[] {
+  return [
+    profile.name,
+    profile.cpu_slowdown,
+    profile.network?.latency_ms ?? null,
+    profile.network?.download_kbps ?? null,
+    profile.network?.upload_kbps ?? null,
+    profile.viewport?.width ?? null,
+    profile.viewport?.height ?? null,
+    profile.device_pixel_ratio ?? null,
+    profile.mobile ?? null,
+  ];
+}
@@ -1 +1,10 @@
 export * from './console-icons.js';
+export * from './statistics.js';
+export * from './layout-shift.js';
+export * from './user-timing.js';
+export * from './cpu-profile.js';
+export * from './sparkline.js';
+export * from './device-profile.js';
+export * from './trace-stream.js';
+export * from './screenshots.js';
+export * from './third-party.js';
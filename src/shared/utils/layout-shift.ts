@@ -0,0 +1,105 @@
+/**
+ * Layout Shift Utility
+ * Extracts LayoutShift trace events and groups them into session windows
+ * to compute Cumulative Layout Shift (CLS)
+ *
+ * A session window collects shifts less than 1s apart, up to 5s in total.
+ * CLS is the score of the worst session window.
+ */
+
+import type { TraceEvent } from '../types/trace.types.js';
+
+/** Maximum gap between shifts in the same session window */
+const SESSION_GAP_MS = 1000;
+
+/** Maximum duration of a session window */
+const SESSION_MAX_DURATION_MS = 5000;
+
+/**
+ * A layout shift that counts towards CLS
+ */
+export interface LayoutShiftRecord {
+  /** Timestamp in microseconds */
+  ts: number;
+  /** Shift score, weighted for subframes when the trace provides it */
+  score: number;
+  event: TraceEvent;
+}
+
+/**
+ * A group of layout shifts scored together
+ */
+export interface LayoutShiftSessionWindow {
+  /** First shift timestamp in microseconds */
+  start: number;
+  /** Last shift timestamp in microseconds */
+  end: number;
+  score: number;
+  shifts: LayoutShiftRecord[];
+}
+
+/**
+ * Extract layout shifts, excluding shifts caused by recent user input
+ */
+export function extractLayoutShifts(events: TraceEvent[]): LayoutShiftRecord[] {
+  const shifts: LayoutShiftRecord[] = [];
+
+  for (const event of events) {
+    if (event.name !== 'LayoutShift') continue;
+
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    if (!data || data.had_recent_input === true) continue;
+
+    const score =
+      typeof data.weighted_score_delta === 'number'
+        ? data.weighted_score_delta
+        : typeof data.score === 'number'
+          ? data.score
+          : 0;
+
+    shifts.push({ ts: event.ts, score, event });
+  }
+
+  return shifts.sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Group layout shifts (sorted by time) into session windows
+ */
+export function groupSessionWindows(
+  shifts: LayoutShiftRecord[],
+): LayoutShiftSessionWindow[] {
+  const windows: LayoutShiftSessionWindow[] = [];
+  let current: LayoutShiftSessionWindow | undefined;
+
+  for (const shift of shifts) {
+    if (
+      !current ||
+      shift.ts - current.end > SESSION_GAP_MS * 1000 ||
+      shift.ts - current.start > SESSION_MAX_DURATION_MS * 1000
+    ) {
+      current = { start: shift.ts, end: shift.ts, score: 0, shifts: [] };
+      windows.push(current);
+    }
+
+    current.end = shift.ts;
+    current.score += shift.score;
+    current.shifts.push(shift);
+  }
+
+  return windows;
+}
+
+/**
+ * Calculate CLS for a trace
+ * @returns The worst session window score, or undefined when the trace
+ * contains no LayoutShift events (e.g. the loading category was not recorded)
+ */
+export function calculateCLS(events: TraceEvent[]): number | undefined {
+  if (!events.some((event) => event.name === 'LayoutShift')) {
+    return undefined;
+  }
+
+  const windows = groupSessionWindows(extractLayoutShifts(events));
+  return windows.reduce((max, window) => Math.max(max, window.score), 0);
+}
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for screenshot utilities
+ */
+
+import { extractScreenshots, findScreenshotAt } from './screenshots.js';
+import type { TraceEvent } from '../types/index.js';
+
+function screenshot(ts: number, bytes: number): TraceEvent {
+  return {
+    pid: 1,
+    tid: 1,
+    ts,
+    ph: 'O',
+    cat: 'disabled-by-default-devtools.screenshot',
+    name: 'Screenshot',
+    args: { snapshot: Buffer.alloc(bytes, ts % 256).toString('base64') },
+  };
+}
+
+describe('screenshots', () => {
+  const layout: TraceEvent = {
+    pid: 1,
+    tid: 1,
+    ts: 500,
+    ph: 'X',
+    dur: 100,
+    cat: 'devtools.timeline',
+    name: 'Layout',
+  };
+
+  it('should take screenshots out of the trace, thinning them to the size cap', () => {
+    const events = [
+      layout,
+      ...[4, 3, 2, 1, 0].map((i) => screenshot(i * 1000, 100)),
+    ];
+
+    const all = extractScreenshots(events, 1000);
+    expect(all.events).toEqual([layout]);
+    expect(all.screenshots.map((s) => s.ts)).toEqual([
+      0, 1000, 2000, 3000, 4000,
+    ]);
+    expect(all.screenshots[1]!.data).toEqual(Buffer.alloc(100, 1000 % 256));
+    expect(all.dropped).toBe(0);
+
+    // Evenly spaced, not just the first ones
+    const capped = extractScreenshots(events, 300);
+    expect(capped.screenshots.map((s) => s.ts)).toEqual([0, 2000, 4000]);
+    expect(capped.dropped).toBe(2);
+  });
+
+  it('should find the screenshot showing the page at a time', () => {
+    const screenshots = [{ ts: 1000 }, { ts: 2000 }, { ts: 3000 }];
+
+    expect(findScreenshotAt(screenshots, 500)).toBeUndefined();
+    expect(findScreenshotAt(screenshots, 1000)).toBe(0);
+    expect(findScreenshotAt(screenshots, 2999)).toBe(1);
+    expect(findScreenshotAt(screenshots, 9000)).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Screenshot Utility
+ * Extracts the screenshots Chrome records into a trace and finds the
+ * screenshot showing the page at a given time
+ */
+
+import type { TraceEvent } from '../types/trace.types.js';
+
+/**
+ * Trace category that records a screenshot of each presented frame
+ */
+export const SCREENSHOT_TRACE_CATEGORY =
+  'disabled-by-default-devtools.screenshot';
+
+/**
+ * Trace event holding a base64 JPEG in args.snapshot
+ */
+const SCREENSHOT_EVENT = 'Screenshot';
+
+/**
+ * A decoded screenshot with its capture time in microseconds
+ */
+export interface CapturedScreenshot {
+  ts: number;
+  data: Buffer;
+}
+
+export interface ScreenshotSample {
+  /** Kept screenshots, sorted by timestamp */
+  screenshots: CapturedScreenshot[];
+  /** Screenshots left out to stay under the size cap */
+  dropped: number;
+}
+
+export interface ScreenshotExtraction extends ScreenshotSample {
+  /** The trace events without the screenshots */
+  events: TraceEvent[];
+}
+
+/**
+ * Take the screenshot events out of a trace and decode them. When they add
+ * up to more than maxBytes, an evenly spaced subset is kept so that the
+ * screenshots still cover the whole trace.
+ */
+export function extractScreenshots(
+  events: TraceEvent[],
+  maxBytes: number,
+): ScreenshotExtraction {
+  const sampler = new ScreenshotSampler(maxBytes);
+  const remaining = events.filter((event) => !sampler.add(event));
+  return { events: remaining, ...sampler.finish() };
+}
+
+/**
+ * Samples the screenshots of a trace as its events stream past, holding at
+ * most about maxBytes of them. Whenever the kept screenshots outgrow the
+ * cap, every other one is dropped and only every other later one is kept
+ * from then on, so the sample stays evenly spaced over the whole trace.
+ */
+export class ScreenshotSampler {
+  private kept: Array<CapturedScreenshot & { index: number }> = [];
+  private keptBytes = 0;
+  private seen = 0;
+  private stride = 1;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Offer a trace event, returning whether it was a screenshot
+   */
+  add(event: TraceEvent): boolean {
+    if (event.name !== SCREENSHOT_EVENT) {
+      return false;
+    }
+    const snapshot = event.args?.snapshot;
+    if (typeof snapshot !== 'string') {
+      return true;
+    }
+
+    const index = this.seen++;
+    if (index % this.stride !== 0) {
+      return true;
+    }
+    const data = Buffer.from(snapshot, 'base64');
+    this.kept.push({ ts: event.ts, data, index });
+    this.keptBytes += data.length;
+
+    while (this.keptBytes > this.maxBytes && this.kept.length > 1) {
+      this.stride *= 2;
+      this.kept = this.kept.filter((s) => s.index % this.stride === 0);
+      this.keptBytes = this.kept.reduce((sum, s) => sum + s.data.length, 0);
+    }
+    return true;
+  }
+
+  /**
+   * The sampled screenshots, sorted by timestamp
+   */
+  finish(): ScreenshotSample {
+    const screenshots: CapturedScreenshot[] = [];
+    let keptBytes = 0;
+    for (const { ts, data } of [...this.kept].sort((a, b) => a.ts - b.ts)) {
+      // Frames vary in size, so the spacing alone may not be enough
+      if (keptBytes + data.length > this.maxBytes) break;
+      keptBytes += data.length;
+      screenshots.push({ ts, data });
+    }
+
+    return { screenshots, dropped: this.seen - screenshots.length };
+  }
+}
+
+/**
+ * Index of the last screenshot taken at or before ts, i.e. what the page
+ * showed at that time. Screenshots must be sorted by timestamp.
+ */
+export function findScreenshotAt(
+  screenshots: readonly { ts: number }[],
+  ts: number,
+): number | undefined {
+  let low = 0;
+  let high = screenshots.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (screenshots[mid]!.ts <= ts) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low > 0 ? low - 1 : undefined;
+}
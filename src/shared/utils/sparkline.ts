@@ -0,0 +1,29 @@
+/**
+ * Sparkline Utility
+ * Renders a series of values as a one-line unicode bar chart
+ */
+
+const SPARK_BARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Render values as a sparkline, scaled between their min and max.
+ * A flat series renders at mid height.
+ */
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return '';
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  const top = SPARK_BARS.length - 1;
+
+  return values
+    .map((value) => {
+      const level =
+        range === 0
+          ? Math.floor(top / 2)
+          : Math.round(((value - min) / range) * top);
+      return SPARK_BARS[level]!;
+    })
+    .join('');
+}
@@ -0,0 +1,105 @@
+import {
+  mean,
+  median,
+  percentile,
+  standardDeviation,
+  confidenceInterval,
+  mannWhitneyU,
+  minimumUPValue,
+  studentTQuantile,
+} from './statistics';
+
+describe('statistics', () => {
+  describe('descriptive statistics', () => {
+    it('should compute mean, median and standard deviation', () => {
+      const values = [2, 4, 4, 4, 5, 5, 7, 9];
+
+      expect(mean(values)).toBe(5);
+      expect(median(values)).toBe(4.5);
+      expect(standardDeviation(values)).toBeCloseTo(2.138, 3);
+    });
+
+    it('should return 0 for empty samples', () => {
+      expect(mean([])).toBe(0);
+      expect(median([])).toBe(0);
+      expect(standardDeviation([])).toBe(0);
+    });
+
+    it('should interpolate percentiles', () => {
+      expect(percentile([10, 20, 30, 40, 50], 95)).toBeCloseTo(48, 5);
+      expect(percentile([10, 20, 30, 40, 50], 0)).toBe(10);
+    });
+  });
+
+  describe('confidenceInterval', () => {
+    it('should use the t distribution for small samples', () => {
+      const ci = confidenceInterval([10, 12, 14, 16, 18]);
+
+      // t(0.975, 4) = 2.776, s = 3.162, n = 5
+      expect(ci.lower).toBeCloseTo(10.07, 1);
+      expect(ci.upper).toBeCloseTo(17.93, 1);
+    });
+
+    it('should collapse to the mean for a single value', () => {
+      expect(confidenceInterval([3])).toEqual({
+        lower: 3,
+        upper: 3,
+        level: 0.95,
+      });
+    });
+  });
+
+  describe('studentTQuantile', () => {
+    it('should approximate known critical values', () => {
+      expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.706, 2);
+      expect(studentTQuantile(0.975, 2)).toBeCloseTo(4.303, 2);
+      expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228, 2);
+      expect(studentTQuantile(0.975, 1000)).toBeCloseTo(1.962, 2);
+    });
+  });
+
+  describe('mannWhitneyU', () => {
+    it('should use the exact distribution for small samples without ties', () => {
+      const result = mannWhitneyU([4, 5, 6], [1, 2, 3], 'greater');
+
+      expect(result.exact).toBe(true);
+      expect(result.u).toBe(9);
+      expect(result.pValue).toBeCloseTo(0.05, 5);
+    });
+
+    it('should double the smaller tail for two-sided tests', () => {
+      const result = mannWhitneyU([4, 5, 6], [1, 2, 3]);
+
+      expect(result.pValue).toBeCloseTo(0.1, 5);
+    });
+
+    it('should not report significance for overlapping samples', () => {
+      const result = mannWhitneyU([1, 3, 5, 7], [2, 4, 6, 8], 'greater');
+
+      expect(result.pValue).toBeGreaterThan(0.5);
+    });
+
+    it('should fall back to the normal approximation with ties', () => {
+      const a = [10, 11, 11, 12, 13, 13, 14, 15];
+      const b = [1, 2, 2, 3, 4, 4, 5, 6];
+      const result = mannWhitneyU(a, b, 'greater');
+
+      expect(result.exact).toBe(false);
+      expect(result.pValue).toBeLessThan(0.01);
+    });
+
+    it('should return p = 1 for empty samples', () => {
+      expect(mannWhitneyU([], [1, 2]).pValue).toBe(1);
+    });
+
+    it('should report the smallest reachable p-value', () => {
+      // Reached by samples that do not overlap
+      expect(minimumUPValue(3, 3)).toBeCloseTo(
+        mannWhitneyU([4, 5, 6], [1, 2, 3]).pValue,
+        10,
+      );
+      expect(minimumUPValue(1, 5)).toBeCloseTo(1 / 3, 10);
+      expect(minimumUPValue(3, 3, 'greater')).toBeCloseTo(0.05, 10);
+    });
+  });
+});
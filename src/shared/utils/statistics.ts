@@ -0,0 +1,380 @@
+/**
+ * Statistics Utility
+ * Descriptive statistics and significance tests for comparing sets of runs
+ * (benchmark repetitions, multi-run baselines, etc.)
+ */
+
+/**
+ * Descriptive statistics for a sample
+ */
+export interface SampleStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  min: number;
+  max: number;
+  /** Confidence interval for the mean */
+  ci: { lower: number; upper: number; level: number };
+}
+
+/**
+ * Alternative hypothesis for a significance test, relative to the first sample
+ */
+export type TestAlternative = 'two-sided' | 'greater' | 'less';
+
+/**
+ * Result of a Mann-Whitney U test
+ */
+export interface MannWhitneyResult {
+  /** U statistic of the first sample */
+  u: number;
+  /** p-value under the requested alternative */
+  pValue: number;
+  /** Whether the exact distribution was used (small samples, no ties) */
+  exact: boolean;
+}
+
+/** Largest per-sample size for which the exact U distribution is used */
+const EXACT_U_MAX_SAMPLE_SIZE = 25;
+
+/**
+ * Arithmetic mean (0 for an empty sample)
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Median (0 for an empty sample)
+ */
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Percentile using linear interpolation between closest ranks
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+
+  return sorted[lower]! * (1 - weight) + sorted[upper]! * weight;
+}
+
+/**
+ * Sample standard deviation (Bessel-corrected, 0 for fewer than 2 values)
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const avg = mean(values);
+  const variance =
+    values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Student-t confidence interval for the mean of a sample
+ */
+export function confidenceInterval(
+  values: number[],
+  level = 0.95,
+): { lower: number; upper: number; level: number } {
+  const avg = mean(values);
+  if (values.length < 2) {
+    return { lower: avg, upper: avg, level };
+  }
+
+  const t = studentTQuantile(1 - (1 - level) / 2, values.length - 1);
+  const margin = (t * standardDeviation(values)) / Math.sqrt(values.length);
+  return { lower: avg - margin, upper: avg + margin, level };
+}
+
+/**
+ * Compute descriptive statistics for a sample
+ */
+export function describeSample(
+  values: number[],
+  level = 0.95,
+): SampleStatistics {
+  return {
+    count: values.length,
+    mean: mean(values),
+    median: median(values),
+    stddev: standardDeviation(values),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+    ci: confidenceInterval(values, level),
+  };
+}
+
+/**
+ * Mann-Whitney U test (Wilcoxon rank-sum) for two independent samples.
+ *
+ * 'greater' tests whether `a` tends to be larger than `b`, 'less' whether it
+ * tends to be smaller. Uses the exact null distribution for small samples
+ * without ties and the tie-corrected normal approximation otherwise.
+ */
+export function mannWhitneyU(
+  a: number[],
+  b: number[],
+  alternative: TestAlternative = 'two-sided',
+): MannWhitneyResult {
+  const n1 = a.length;
+  const n2 = b.length;
+
+  if (n1 === 0 || n2 === 0) {
+    return { u: 0, pValue: 1, exact: false };
+  }
+
+  const { ranks, tieGroups } = rankValues([...a, ...b]);
+  const rankSumA = ranks.slice(0, n1).reduce((sum, r) => sum + r, 0);
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  const hasTies = tieGroups.some((size) => size > 1);
+  if (
+    !hasTies &&
+    n1 <= EXACT_U_MAX_SAMPLE_SIZE &&
+    n2 <= EXACT_U_MAX_SAMPLE_SIZE
+  ) {
+    return { u, pValue: exactUPValue(u, n1, n2, alternative), exact: true };
+  }
+
+  const n = n1 + n2;
+  const meanU = (n1 * n2) / 2;
+  const tieCorrection = tieGroups.reduce((sum, t) => sum + (t ** 3 - t), 0);
+  const varianceU = ((n1 * n2) / 12) * (n + 1 - tieCorrection / (n * (n - 1)));
+
+  if (varianceU <= 0) {
+    return { u, pValue: 1, exact: false };
+  }
+
+  const sd = Math.sqrt(varianceU);
+  const upper = 1 - normalCdf((u - meanU - 0.5) / sd);
+  const lower = normalCdf((u - meanU + 0.5) / sd);
+
+  return {
+    u,
+    pValue: combineTails(upper, lower, alternative),
+    exact: false,
+  };
+}
+
+/**
+ * Smallest p-value the Mann-Whitney U test can give for two sample sizes,
+ * reached when the samples do not overlap. When it is not below alpha, no
+ * difference between the samples can be significant.
+ */
+export function minimumUPValue(
+  n1: number,
+  n2: number,
+  alternative: TestAlternative = 'two-sided',
+): number {
+  if (n1 === 0 || n2 === 0) return 1;
+
+  // 1 / (n1 + n2 choose n1): the chance of the most extreme ranking
+  let tail = 1;
+  for (let i = 1; i <= n1; i++) {
+    tail *= i / (n2 + i);
+  }
+  return alternative === 'two-sided' ? Math.min(1, 2 * tail) : tail;
+}
+
+/**
+ * Whether a Mann-Whitney U test on samples of these sizes can be
+ * significant at alpha at all
+ */
+export function canReachSignificance(
+  n1: number,
+  n2: number,
+  alpha: number,
+  alternative: TestAlternative = 'two-sided',
+): boolean {
+  return minimumUPValue(n1, n2, alternative) < alpha;
+}
+
+/**
+ * Assign average ranks (1-based) and report tie group sizes
+ */
+function rankValues(values: number[]): {
+  ranks: number[];
+  tieGroups: number[];
+} {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((x, y) => x.value - y.value);
+  const ranks = new Array<number>(values.length).fill(0);
+  const tieGroups: number[] = [];
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1]!.value === order[i]!.value) {
+      j++;
+    }
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k]!.index] = averageRank;
+    }
+    tieGroups.push(j - i + 1);
+    i = j + 1;
+  }
+
+  return { ranks, tieGroups };
+}
+
+/**
+ * Exact p-value from the null distribution of U, computed as the
+ * coefficients of the Gaussian binomial coefficient [n1 + n2 choose n1]
+ */
+function exactUPValue(
+  u: number,
+  n1: number,
+  n2: number,
+  alternative: TestAlternative,
+): number {
+  const maxU = n1 * n2;
+  let counts = new Array<number>(maxU + 1).fill(0);
+  counts[0] = 1;
+
+  for (let i = 1; i <= n1; i++) {
+    // Multiply by (1 - q^(n2 + i))
+    const shift = n2 + i;
+    const next = [...counts];
+    for (let k = maxU; k >= shift; k--) {
+      next[k]! -= counts[k - shift]!;
+    }
+    // Divide by (1 - q^i)
+    for (let k = i; k <= maxU; k++) {
+      next[k]! += next[k - i]!;
+    }
+    counts = next;
+  }
+
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  let upper = 0;
+  let lower = 0;
+  for (let k = 0; k <= maxU; k++) {
+    if (k >= u) upper += counts[k]!;
+    if (k <= u) lower += counts[k]!;
+  }
+
+  return combineTails(upper / total, lower / total, alternative);
+}
+
+function combineTails(
+  upper: number,
+  lower: number,
+  alternative: TestAlternative,
+): number {
+  switch (alternative) {
+    case 'greater':
+      return Math.min(1, upper);
+    case 'less':
+      return Math.min(1, lower);
+    default:
+      return Math.min(1, 2 * Math.min(upper, lower));
+  }
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-ax * ax));
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q +
+        c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
+    );
+  }
+
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r +
+      a[5]!) *
+      q) /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1)
+  );
+}
+
+/**
+ * Quantile of Student's t distribution.
+ * Closed forms for 1 and 2 degrees of freedom, Cornish-Fisher expansion otherwise.
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (df <= 1) {
+    return Math.tan(Math.PI * (p - 0.5));
+  }
+  if (df === 2) {
+    return (2 * p - 1) / Math.sqrt(2 * p * (1 - p));
+  }
+
+  const z = normalQuantile(p);
+  const z3 = z ** 3;
+  const z5 = z ** 5;
+  const z7 = z ** 7;
+  return (
+    z +
+    (z3 + z) / (4 * df) +
+    (5 * z5 + 16 * z3 + 3 * z) / (96 * df ** 2) +
+    (3 * z7 + 19 * z5 + 17 * z3 - 15 * z) / (384 * df ** 3)
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for third-party utilities
+ */
+
+import { classifyScriptUrl, extractFrameUrls } from './third-party.js';
+import type { TraceEvent } from '../types/index.js';
+
+describe('third-party', () => {
+  it('should attribute script URLs to first parties, known entities or unknown hosts', () => {
+    const firstParty = ['example.com'];
+
+    expect(
+      classifyScriptUrl('https://cdn.example.com/app.js', firstParty),
+    ).toEqual({ origin: 'https://cdn.example.com', firstParty: true });
+    expect(
+      classifyScriptUrl(
+        'https://www.googletagmanager.com/gtm.js?id=GTM-1',
+        firstParty,
+      ),
+    ).toEqual({
+      origin: 'https://www.googletagmanager.com',
+      firstParty: false,
+      entity: 'Google Tag Manager',
+      category: 'tag-manager',
+    });
+    expect(
+      classifyScriptUrl('https://widgets.vendor.io/w.js', firstParty),
+    ).toEqual({
+      origin: 'https://widgets.vendor.io',
+      firstParty: false,
+      entity: 'widgets.vendor.io',
+    });
+
+    // Without a known page domain, unknown hosts cannot be told apart
+    expect(classifyScriptUrl('https://widgets.vendor.io/w.js', [])).toEqual({
+      origin: 'https://widgets.vendor.io',
+      firstParty: true,
+    });
+    expect(
+      classifyScriptUrl('chrome-extension://abc/content.js', firstParty),
+    ).toBeUndefined();
+  });
+
+  it('should read the page and frame URLs from the trace', () => {
+    const events: TraceEvent[] = [
+      {
+        pid: 1,
+        tid: 1,
+        ts: 0,
+        ph: 'I',
+        cat: 'disabled-by-default-devtools.timeline',
+        name: 'TracingStartedInBrowser',
+        args: {
+          data: {
+            frames: [
+              { frame: 'F1', url: 'https://www.example.com/' },
+              {
+                frame: 'F2',
+                url: 'https://ads.doubleclick.net/frame',
+                parent: 'F1',
+              },
+            ],
+          },
+        },
+      },
+      {
+        pid: 1,
+        tid: 1,
+        ts: 100,
+        ph: 'I',
+        cat: 'disabled-by-default-devtools.timeline',
+        name: 'FrameCommittedInBrowser',
+        args: {
+          data: { frame: 'F3', url: 'https://player.vimeo.com/', parent: 'F1' },
+        },
+      },
+    ];
+
+    const { pageUrl, frameUrls } = extractFrameUrls(events);
+    expect(pageUrl).toBe('https://www.example.com/');
+    expect([...frameUrls.keys()]).toEqual(['F1', 'F2', 'F3']);
+    expect(frameUrls.get('F3')).toBe('https://player.vimeo.com/');
+  });
+});
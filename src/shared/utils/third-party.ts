@@ -0,0 +1,249 @@
+/**
+ * Third-Party Utility
+ * Tells first-party scripts from third-party ones and names the entities
+ * behind well-known third-party domains
+ */
+
+import type {
+  ScriptAttribution,
+  ThirdPartyCategory,
+} from '../types/detection.types.js';
+import type { TraceEvent } from '../types/trace.types.js';
+
+/**
+ * A third-party vendor and the domains it serves scripts and frames from
+ */
+export interface ThirdPartyEntity {
+  name: string;
+  category: ThirdPartyCategory;
+  domains: string[];
+}
+
+/**
+ * Built-in catalog of common third-party entities
+ */
+export const THIRD_PARTY_ENTITIES: ThirdPartyEntity[] = [
+  {
+    name: 'Google Tag Manager',
+    category: 'tag-manager',
+    domains: ['googletagmanager.com'],
+  },
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    domains: ['google-analytics.com', 'analytics.google.com'],
+  },
+  {
+    name: 'Google Ads',
+    category: 'ad',
+    domains: [
+      'doubleclick.net',
+      'googlesyndication.com',
+      'googleadservices.com',
+      'adservice.google.com',
+      'googletagservices.com',
+    ],
+  },
+  {
+    name: 'Amazon Ads',
+    category: 'ad',
+    domains: ['amazon-adsystem.com'],
+  },
+  { name: 'Criteo', category: 'ad', domains: ['criteo.com', 'criteo.net'] },
+  { name: 'Taboola', category: 'ad', domains: ['taboola.com'] },
+  { name: 'Outbrain', category: 'ad', domains: ['outbrain.com'] },
+  {
+    name: 'Facebook',
+    category: 'social',
+    domains: ['facebook.net', 'facebook.com', 'fbcdn.net'],
+  },
+  {
+    name: 'X (Twitter)',
+    category: 'social',
+    domains: ['twitter.com', 'ads-twitter.com', 'twimg.com'],
+  },
+  {
+    name: 'LinkedIn Insight',
+    category: 'ad',
+    domains: ['licdn.com', 'ads.linkedin.com'],
+  },
+  { name: 'TikTok Pixel', category: 'ad', domains: ['analytics.tiktok.com'] },
+  { name: 'Hotjar', category: 'analytics', domains: ['hotjar.com'] },
+  {
+    name: 'Segment',
+    category: 'analytics',
+    domains: ['segment.com', 'segment.io'],
+  },
+  {
+    name: 'Mixpanel',
+    category: 'analytics',
+    domains: ['mixpanel.com', 'mxpnl.com'],
+  },
+  { name: 'Amplitude', category: 'analytics', domains: ['amplitude.com'] },
+  { name: 'FullStory', category: 'analytics', domains: ['fullstory.com'] },
+  { name: 'Microsoft Clarity', category: 'analytics', domains: ['clarity.ms'] },
+  {
+    name: 'Intercom',
+    category: 'customer-success',
+    domains: ['intercom.io', 'intercomcdn.com'],
+  },
+  {
+    name: 'Zendesk',
+    category: 'customer-success',
+    domains: ['zdassets.com', 'zendesk.com'],
+  },
+  {
+    name: 'Drift',
+    category: 'customer-success',
+    domains: ['drift.com', 'driftt.com'],
+  },
+  { name: 'Optimizely', category: 'ab-testing', domains: ['optimizely.com'] },
+  {
+    name: 'VWO',
+    category: 'ab-testing',
+    domains: ['visualwebsiteoptimizer.com'],
+  },
+  {
+    name: 'New Relic',
+    category: 'monitoring',
+    domains: ['nr-data.net', 'newrelic.com'],
+  },
+  {
+    name: 'Sentry',
+    category: 'monitoring',
+    domains: ['sentry.io', 'sentry-cdn.com'],
+  },
+  {
+    name: 'Datadog RUM',
+    category: 'monitoring',
+    domains: ['datadoghq-browser-agent.com', 'browser-intake-datadoghq.com'],
+  },
+  {
+    name: 'OneTrust',
+    category: 'consent',
+    domains: ['onetrust.com', 'cookielaw.org'],
+  },
+  {
+    name: 'HubSpot',
+    category: 'marketing',
+    domains: ['hs-scripts.com', 'hs-analytics.net', 'hubspot.com'],
+  },
+  { name: 'YouTube', category: 'video', domains: ['youtube.com', 'ytimg.com'] },
+  { name: 'Vimeo', category: 'video', domains: ['vimeo.com', 'vimeocdn.com'] },
+  { name: 'Stripe', category: 'payments', domains: ['stripe.com'] },
+];
+
+/**
+ * Whether a host is a domain or one of its subdomains
+ */
+export function matchesDomain(host: string, domain: string): boolean {
+  const d = domain.toLowerCase().replace(/^\*?\./, '');
+  return host === d || host.endsWith(`.${d}`);
+}
+
+/**
+ * Domain of a page URL that counts as first party: its host without
+ * a leading "www.", so that e.g. cdn.example.com belongs to www.example.com
+ */
+export function firstPartyDomainOf(pageUrl: string): string | undefined {
+  try {
+    const { protocol, hostname } = new URL(pageUrl);
+    if (protocol !== 'http:' && protocol !== 'https:') return undefined;
+    return hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Attribute a script URL to its owner. Returns undefined for URLs that are
+ * not http(s), e.g. inline or extension scripts.
+ *
+ * First-party domains take precedence over the catalog. Unlisted hosts are
+ * third parties, unless no first-party domain is known at all, in which
+ * case they cannot be told apart and count as first party.
+ */
+export function classifyScriptUrl(
+  url: string | undefined,
+  firstPartyDomains: readonly string[],
+): ScriptAttribution | undefined {
+  if (!url) return undefined;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return undefined;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  const origin = parsed.origin;
+
+  if (firstPartyDomains.some((d) => matchesDomain(host, d))) {
+    return { origin, firstParty: true };
+  }
+
+  const entity = THIRD_PARTY_ENTITIES.find((e) =>
+    e.domains.some((d) => matchesDomain(host, d)),
+  );
+  if (entity) {
+    return {
+      origin,
+      firstParty: false,
+      entity: entity.name,
+      category: entity.category,
+    };
+  }
+
+  if (firstPartyDomains.length === 0) {
+    return { origin, firstParty: true };
+  }
+  return { origin, firstParty: false, entity: host };
+}
+
+/**
+ * URLs of the frames in a trace, keyed by frame id, and the main frame URL
+ */
+export interface TraceFrameUrls {
+  pageUrl?: string;
+  frameUrls: Map<string, string>;
+}
+
+/**
+ * Collect frame URLs from the frame tree recorded when tracing started and
+ * from frames committed while it ran
+ */
+export function extractFrameUrls(events: TraceEvent[]): TraceFrameUrls {
+  const result: TraceFrameUrls = { frameUrls: new Map() };
+
+  const addFrame = (frame: Record<string, unknown>): void => {
+    if (typeof frame.frame !== 'string' || typeof frame.url !== 'string') {
+      return;
+    }
+    if (!frame.url) return;
+    result.frameUrls.set(frame.frame, frame.url);
+    if (!frame.parent && result.pageUrl === undefined) {
+      result.pageUrl = frame.url;
+    }
+  };
+
+  for (const event of events) {
+    const data = event.args?.data as Record<string, unknown> | undefined;
+    if (!data) continue;
+    if (
+      event.name === 'TracingStartedInBrowser' &&
+      Array.isArray(data.frames)
+    ) {
+      for (const frame of data.frames as Array<Record<string, unknown>>) {
+        addFrame(frame);
+      }
+    } else if (event.name === 'FrameCommittedInBrowser') {
+      addFrame(data);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,143 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import {
+  TraceEventParser,
+  isTraceEventFile,
+  readTraceStream,
+  rewriteTraceFile,
+} from './trace-stream';
+import type { TraceEvent, TraceMetadata } from '../types/trace.types';
+
+const EVENTS = [
+  { name: 'Layout', ph: 'X', ts: 1, dur: 2, pid: 1, tid: 1 },
+  {
+    name: 'FunctionCall',
+    ph: 'X',
+    ts: 3,
+    pid: 1,
+    tid: 1,
+    args: { data: { functionName: 'a "quoted" {name}]', stack: [1, [2]] } },
+  },
+];
+
+function parse(json: string, chunkSize: number) {
+  const events: TraceEvent[] = [];
+  const parser = new TraceEventParser((event) => events.push(event));
+  for (let i = 0; i < json.length; i += chunkSize) {
+    parser.write(json.slice(i, i + chunkSize));
+  }
+  return { events, metadata: parser.end() };
+}
+
+describe('trace stream', () => {
+  it('should parse both trace formats however the data is chunked', () => {
+    const objectFormat = JSON.stringify({
+      otherData: { traceEvents: [{ name: 'not-an-event' }] },
+      traceEvents: EVENTS,
+      stackFrames: [{ name: 'not-an-event' }],
+      metadata: { scenario: 'scroll' },
+    });
+
+    for (const chunkSize of [1, 7, objectFormat.length]) {
+      expect(parse(objectFormat, chunkSize)).toEqual({
+        events: EVENTS,
+        metadata: { scenario: 'scroll' },
+      });
+      expect(parse(JSON.stringify(EVENTS), chunkSize)).toEqual({
+        events: EVENTS,
+        metadata: undefined,
+      });
+    }
+
+    expect(() => parse('{"traceEvents": [{"name": "Layout"', 5)).toThrow(
+      'Unexpected end of trace data',
+    );
+    expect(() => parse('{"events": []}', 5)).toThrow('no traceEvents array');
+  });
+
+  it('should read plain and gzip-compressed trace files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'render-debugger-trace-'));
+    try {
+      const json = JSON.stringify({
+        traceEvents: EVENTS,
+        metadata: { scenario: 'scroll' },
+      });
+      await writeFile(join(dir, 'trace.json'), json);
+      await writeFile(join(dir, 'trace.json.gz'), gzipSync(json));
+
+      for (const file of ['trace.json', 'trace.json.gz']) {
+        const sizes: number[] = [];
+        const metadata = await readTraceStream(join(dir, file), (_e, size) =>
+          sizes.push(size),
+        );
+        expect(metadata).toEqual({ scenario: 'scroll' });
+        expect(sizes).toEqual(EVENTS.map((e) => JSON.stringify(e).length * 2));
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should tell traces from other JSON documents', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'render-debugger-trace-'));
+    try {
+      await writeFile(join(dir, 'trace.json'), JSON.stringify(EVENTS));
+      await writeFile(
+        join(dir, 'trace.json.gz'),
+        gzipSync(JSON.stringify({ traceEvents: EVENTS })),
+      );
+      await writeFile(
+        join(dir, 'snapshot.json'),
+        JSON.stringify({ frameTimings: [], metadata: {} }),
+      );
+
+      expect(await isTraceEventFile(join(dir, 'trace.json'))).toBe(true);
+      expect(await isTraceEventFile(join(dir, 'trace.json.gz'))).toBe(true);
+      expect(await isTraceEventFile(join(dir, 'snapshot.json'))).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should rewrite a trace with filtered events and new metadata', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'render-debugger-trace-'));
+    try {
+      await writeFile(
+        join(dir, 'raw.json'),
+        JSON.stringify({ traceEvents: EVENTS, metadata: { browser: 'x' } }),
+      );
+
+      let metadataRead = false;
+      await rewriteTraceFile(
+        join(dir, 'raw.json'),
+        join(dir, 'trace.json'),
+        (event) => event.name !== 'Layout',
+        () => {
+          metadataRead = true;
+          return { scenario: 'scroll' } as TraceMetadata;
+        },
+      );
+
+      expect(metadataRead).toBe(true);
+      expect(
+        JSON.parse(await readFile(join(dir, 'trace.json'), 'utf-8')),
+      ).toEqual({ traceEvents: [EVENTS[1]], metadata: { scenario: 'scroll' } });
+
+      // Errors from the filter end the rewrite
+      await expect(
+        rewriteTraceFile(
+          join(dir, 'raw.json'),
+          join(dir, 'failed.json'),
+          () => {
+            throw new Error('Too many events');
+          },
+          () => ({}) as TraceMetadata,
+        ),
+      ).rejects.toThrow('Too many events');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Trace Stream Utility
+ * Parses trace JSON incrementally so that large traces never have to be
+ * held in memory as a single string or a single parsed document
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { open } from 'fs/promises';
+import { Transform, type TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import { StringDecoder } from 'string_decoder';
+import type { TraceEvent, TraceMetadata } from '../types/trace.types.js';
+
+/**
+ * Receives each trace event with its estimated in-memory size in bytes
+ */
+export type TraceEventHandler = (event: TraceEvent, sizeBytes: number) => void;
+
+/** First two bytes of a gzip stream */
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Incremental parser for the JSON Array (`[...]`) and JSON Object
+ * (`{"traceEvents": [...], "metadata": {...}}`) trace formats.
+ *
+ * Chunks may split the document anywhere. Only one event is buffered at a
+ * time: each is parsed and handed to the handler as soon as it is complete.
+ * Other top-level keys are skipped.
+ */
+export class TraceEventParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  /** Last string seen in the top-level object, i.e. the current key */
+  private key = '';
+  /** Depth inside the trace events array while it is being read */
+  private eventsDepth = -1;
+  private foundEvents = false;
+  private capture: 'event' | 'metadata' | null = null;
+  private captureDepth = 0;
+  private captured = '';
+  private metadata: TraceMetadata | undefined;
+
+  constructor(private readonly onEvent: TraceEventHandler) {}
+
+  /**
+   * Feed the next chunk of the document
+   */
+  write(chunk: string): void {
+    let start = this.capture ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i]!;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+        } else if (this.depth === 1 && !this.capture) {
+          this.key += ch;
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          if (this.depth === 1 && !this.capture) {
+            this.key = '';
+          }
+          break;
+        case '{':
+        case '[':
+          if (!this.capture) {
+            if (this.depth === 0 && ch === '[') {
+              this.enterEvents(1);
+            } else if (this.depth === 1 && this.eventsDepth !== 1) {
+              if (this.key === 'traceEvents' && ch === '[') {
+                this.enterEvents(2);
+              } else if (this.key === 'metadata' && ch === '{') {
+                this.capture = 'metadata';
+              }
+            } else if (this.depth === this.eventsDepth && ch === '{') {
+              this.capture = 'event';
+            }
+            if (this.capture) {
+              this.captureDepth = this.depth;
+              start = i;
+            }
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.capture && this.depth === this.captureDepth) {
+            this.complete(this.captured + chunk.slice(start, i + 1));
+            this.captured = '';
+            start = -1;
+          } else if (this.depth === this.eventsDepth - 1) {
+            this.eventsDepth = -1;
+          }
+          break;
+      }
+    }
+
+    if (this.capture && start >= 0) {
+      this.captured += chunk.slice(start);
+    }
+  }
+
+  /**
+   * Whether the trace events array has been reached, i.e. the document is
+   * a trace
+   */
+  hasTraceEvents(): boolean {
+    return this.foundEvents;
+  }
+
+  /**
+   * Finish parsing, returning the trace metadata if the document had any
+   */
+  end(): TraceMetadata | undefined {
+    if (this.depth !== 0 || this.inString) {
+      throw new Error('Unexpected end of trace data');
+    }
+    if (!this.foundEvents) {
+      throw new Error('Trace data has no traceEvents array');
+    }
+    return this.metadata;
+  }
+
+  private enterEvents(depth: number): void {
+    this.eventsDepth = depth;
+    this.foundEvents = true;
+  }
+
+  private complete(json: string): void {
+    const kind = this.capture;
+    this.capture = null;
+
+    if (kind === 'metadata') {
+      this.metadata = JSON.parse(json) as TraceMetadata;
+    } else {
+      // Same UTF-16 estimate as TraceBuffer
+      this.onEvent(JSON.parse(json) as TraceEvent, json.length * 2);
+    }
+  }
+}
+
+/**
+ * Stream the events of a trace file, plain or gzip-compressed, to a handler
+ * and return the trace metadata
+ */
+export async function readTraceStream(
+  filePath: string,
+  onEvent: TraceEventHandler,
+): Promise<TraceMetadata | undefined> {
+  const parser = new TraceEventParser(onEvent);
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of await openTraceFile(filePath)) {
+    parser.write(decoder.write(chunk as Buffer));
+  }
+  parser.write(decoder.end());
+
+  return parser.end();
+}
+
+/**
+ * Whether a file, plain or gzip-compressed, is a trace in the JSON Array
+ * or JSON Object format. Stops reading as soon as the trace events array
+ * is found.
+ */
+export async function isTraceEventFile(filePath: string): Promise<boolean> {
+  const parser = new TraceEventParser(() => {});
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of await openTraceFile(filePath)) {
+    parser.write(decoder.write(chunk as Buffer));
+    if (parser.hasTraceEvents()) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Copy a trace file, plain or gzip-compressed, event by event into a new
+ * JSON Object trace. Events the filter rejects are left out, and the
+ * metadata is asked for once every event has been read.
+ */
+export async function rewriteTraceFile(
+  sourcePath: string,
+  targetPath: string,
+  filter: (event: TraceEvent, sizeBytes: number) => boolean,
+  getMetadata: () => TraceMetadata,
+): Promise<void> {
+  await pipeline(
+    await openTraceFile(sourcePath),
+    new TraceRewriter(filter, getMetadata),
+    createWriteStream(targetPath),
+  );
+}
+
+/**
+ * Transform stream behind rewriteTraceFile
+ */
+class TraceRewriter extends Transform {
+  private readonly parser: TraceEventParser;
+  private readonly decoder = new StringDecoder('utf8');
+  private eventCount = 0;
+
+  constructor(
+    filter: (event: TraceEvent, sizeBytes: number) => boolean,
+    private readonly getMetadata: () => TraceMetadata,
+  ) {
+    super();
+    this.parser = new TraceEventParser((event, sizeBytes) => {
+      if (filter(event, sizeBytes)) {
+        const separator = this.eventCount++ > 0 ? ',\n' : '';
+        this.push(`${separator}${JSON.stringify(event)}`);
+      }
+    });
+    this.push('{"traceEvents":[\n');
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    try {
+      this.parser.write(this.decoder.write(chunk));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      this.parser.write(this.decoder.end());
+      this.parser.end();
+      this.push(`\n],\n"metadata":${JSON.stringify(this.getMetadata())}}\n`);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
+
+/**
+ * Open a trace file for reading, decompressing it if it is gzipped
+ */
+async function openTraceFile(filePath: string): Promise<NodeJS.ReadableStream> {
+  const gzipped = await isGzipFile(filePath);
+  const source = createReadStream(filePath);
+  if (!gzipped) {
+    return source;
+  }
+  const gunzip = createGunzip();
+  source.on('error', (error) => gunzip.destroy(error));
+  gunzip.on('close', () => source.destroy());
+  return source.pipe(gunzip);
+}
+
+/**
+ * Whether a file starts with the gzip magic bytes
+ */
+async function isGzipFile(filePath: string): Promise<boolean> {
+  const handle = await open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(GZIP_MAGIC.length);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    return (
+      bytesRead === GZIP_MAGIC.length &&
+      GZIP_MAGIC.every((byte, i) => header[i] === byte)
+    );
+  } finally {
+    await handle.close();
+  }
+}
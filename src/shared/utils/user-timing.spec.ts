@@ -0,0 +1,123 @@
+/**
+ * Unit tests for User Timing utilities
+ */
+
+import {
+  extractUserTiming,
+  buildSegmentSummaries,
+  filterEventsToMeasure,
+} from './user-timing.js';
+import type { Detection, TraceEvent } from '../types/index.js';
+
+function event(
+  name: string,
+  ts: number,
+  ph: string,
+  extra: Partial<TraceEvent> = {},
+): TraceEvent {
+  return { pid: 1, tid: 1, ts, ph, cat: 'blink.user_timing', name, ...extra };
+}
+
+describe('user timing', () => {
+  const events: TraceEvent[] = [
+    event('navigationStart', 0, 'R'),
+    event('modal-clicked', 1_000_000, 'R'),
+    event('open-modal', 1_000_000, 'b', { id: '0x1' }),
+    event('filter-list', 1_100_000, 'b', { id2: { local: '0x2' } }),
+    event('open-modal', 1_250_000, 'e', { id: '0x1' }),
+    event('filter-list', 1_400_000, 'e', { id2: { local: '0x2' } }),
+    event('open-modal', 3_000_000, 'X', { dur: 150_000 }),
+    // Unrelated category is ignored
+    event('Layout', 1_200_000, 'X', { cat: 'devtools.timeline', dur: 5_000 }),
+  ];
+
+  it('should extract marks and pair measures by name and id', () => {
+    const { marks, measures } = extractUserTiming(events);
+
+    expect(marks).toEqual([{ name: 'modal-clicked', timestamp: 1_000_000 }]);
+    expect(measures).toEqual([
+      {
+        name: 'open-modal',
+        startTime: 1_000_000,
+        endTime: 1_250_000,
+        durationMs: 250,
+      },
+      {
+        name: 'filter-list',
+        startTime: 1_100_000,
+        endTime: 1_400_000,
+        durationMs: 300,
+      },
+      {
+        name: 'open-modal',
+        startTime: 3_000_000,
+        endTime: 3_150_000,
+        durationMs: 150,
+      },
+    ]);
+  });
+
+  it('should combine occurrences and attribute detections per segment', () => {
+    const { measures } = extractUserTiming(events);
+    const detection = {
+      type: 'long_task',
+      severity: 'high',
+      description: 'Long task in render()',
+      evidence: [
+        event('FunctionCall', 3_100_000, 'X', {
+          cat: 'devtools.timeline',
+          dur: 80_000,
+        }),
+      ],
+    } as unknown as Detection;
+
+    const segments = buildSegmentSummaries(
+      measures,
+      0,
+      [detection],
+      (measure) => ({
+        frames: {
+          total: measure.durationMs / 10,
+          dropped: 1,
+          avg_fps: measure.durationMs === 250 ? 50 : 30,
+          frame_budget_ms: 16.67,
+        },
+        phases: {
+          style_recalc_ms: 1,
+          layout_ms: filterEventsToMeasure(events, measure).some(
+            (e) => e.name === 'Layout',
+          )
+            ? 5
+            : 0,
+          paint_ms: 0,
+          composite_ms: 0,
+          gpu_ms: 0,
+        },
+      }),
+    );
+
+    expect(segments.map((s) => s.name)).toEqual(['open-modal', 'filter-list']);
+
+    const [openModal, filterList] = segments;
+    expect(openModal).toMatchObject({
+      occurrences: 2,
+      start_ms: 1000,
+      duration_ms: 400,
+      frames: { total: 40, dropped: 2, avg_fps: 42.5 },
+      phase_breakdown: { style_recalc_ms: 2, layout_ms: 5 },
+      detections: [
+        {
+          type: 'long_task',
+          severity: 'high',
+          description: 'Long task in render()',
+        },
+      ],
+    });
+    expect(filterList).toMatchObject({
+      occurrences: 1,
+      duration_ms: 300,
+      phase_breakdown: { layout_ms: 5 },
+      detections: [],
+    });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * User Timing Utility
+ * Extracts `performance.mark()` and `performance.measure()` calls recorded
+ * in the `blink.user_timing` trace category, and scopes trace data to them
+ *
+ * Marks are instant events. Measures are async begin/end pairs matched by
+ * name and async ID.
+ */
+
+import type {
+  TraceEvent,
+  FrameMetrics,
+  PhaseBreakdown,
+  SegmentSummary,
+  UserTimingData,
+  UserTimingMark,
+  UserTimingMeasure,
+} from '../types/trace.types.js';
+import type { Detection } from '../types/detection.types.js';
+
+const USER_TIMING_CATEGORY = 'blink.user_timing';
+
+/**
+ * Navigation Timing marks Chromium emits in the same category
+ */
+const NAVIGATION_TIMING_MARKS = new Set([
+  'navigationStart',
+  'unloadEventStart',
+  'unloadEventEnd',
+  'redirectStart',
+  'redirectEnd',
+  'fetchStart',
+  'domainLookupStart',
+  'domainLookupEnd',
+  'connectStart',
+  'connectEnd',
+  'secureConnectionStart',
+  'requestStart',
+  'responseStart',
+  'responseEnd',
+  'domLoading',
+  'domInteractive',
+  'domContentLoadedEventStart',
+  'domContentLoadedEventEnd',
+  'domComplete',
+  'loadEventStart',
+  'loadEventEnd',
+]);
+
+const MARK_PHASES = new Set(['R', 'I', 'i', 'n']);
+const BEGIN_PHASES = new Set(['b', 'S']);
+const END_PHASES = new Set(['e', 'F']);
+
+/**
+ * Measures begun but not yet ended, by name and async ID
+ */
+type OpenMeasures = Map<string, { name: string; starts: number[] }>;
+
+/**
+ * Extract User Timing marks and measures, sorted by start time
+ */
+export function extractUserTiming(events: TraceEvent[]): UserTimingData {
+  const marks: UserTimingMark[] = [];
+  const measures: UserTimingMeasure[] = [];
+  matchUserTiming(events, new Map(), marks, measures);
+
+  marks.sort((a, b) => a.timestamp - b.timestamp);
+  measures.sort((a, b) => a.startTime - b.startTime);
+
+  return { marks, measures };
+}
+
+/**
+ * Add the marks and the measures ended among the events, keeping begun
+ * measures open until their end event is read
+ */
+function matchUserTiming(
+  events: TraceEvent[],
+  open: OpenMeasures,
+  marks: UserTimingMark[],
+  measures: UserTimingMeasure[],
+): void {
+  for (const event of events) {
+    if (!isUserTimingEvent(event)) continue;
+    if (NAVIGATION_TIMING_MARKS.has(event.name)) continue;
+
+    if (MARK_PHASES.has(event.ph)) {
+      marks.push({ name: event.name, timestamp: event.ts });
+      continue;
+    }
+
+    const key = `${event.name}:${event.id ?? event.id2?.local ?? event.id2?.global ?? ''}`;
+
+    if (BEGIN_PHASES.has(event.ph)) {
+      const measure = open.get(key) ?? { name: event.name, starts: [] };
+      measure.starts.push(event.ts);
+      open.set(key, measure);
+    } else if (END_PHASES.has(event.ph)) {
+      const startTime = open.get(key)?.starts.shift();
+      if (startTime === undefined) continue;
+
+      measures.push({
+        name: event.name,
+        startTime,
+        endTime: event.ts,
+        durationMs: (event.ts - startTime) / 1000,
+      });
+    } else if (event.ph === 'X' && event.dur !== undefined) {
+      // Complete events, as written by some trace exporters
+      measures.push({
+        name: event.name,
+        startTime: event.ts,
+        endTime: event.ts + event.dur,
+        durationMs: event.dur / 1000,
+      });
+    }
+  }
+}
+
+function isUserTimingEvent(event: TraceEvent): boolean {
+  return event.cat?.split(',').includes(USER_TIMING_CATEGORY) ?? false;
+}
+
+/**
+ * Group measures by name, keeping first-occurrence order
+ */
+export function groupMeasuresByName(
+  measures: UserTimingMeasure[],
+): Map<string, UserTimingMeasure[]> {
+  const groups = new Map<string, UserTimingMeasure[]>();
+  for (const measure of measures) {
+    const group = groups.get(measure.name) ?? [];
+    group.push(measure);
+    groups.set(measure.name, group);
+  }
+  return groups;
+}
+
+/**
+ * Check whether a time range (microseconds) overlaps any of the measures
+ */
+export function overlapsMeasures(
+  start: number,
+  end: number,
+  measures: UserTimingMeasure[],
+): boolean {
+  return measures.some((m) => start <= m.endTime && end >= m.startTime);
+}
+
+/**
+ * Keep the events that overlap a measure
+ */
+export function filterEventsToMeasure(
+  events: TraceEvent[],
+  measure: UserTimingMeasure,
+): TraceEvent[] {
+  return events.filter((event) =>
+    overlapsMeasures(event.ts, event.ts + (event.dur ?? 0), [measure]),
+  );
+}
+
+/**
+ * Build a segment summary per measure name. `measureOccurrence` computes
+ * frame metrics and phases for one occurrence; occurrences are combined.
+ * A detection belongs to a segment when any of its evidence overlaps an
+ * occurrence.
+ */
+export function buildSegmentSummaries(
+  measures: UserTimingMeasure[],
+  traceStartTime: number,
+  detections: Detection[],
+  measureOccurrence: (measure: UserTimingMeasure) => {
+    frames: FrameMetrics;
+    phases: PhaseBreakdown;
+  },
+): SegmentSummary[] {
+  const segments: SegmentSummary[] = [];
+
+  for (const [name, occurrences] of groupMeasuresByName(measures)) {
+    const metrics = occurrences.map(measureOccurrence);
+
+    const totalFrames = metrics.reduce((sum, m) => sum + m.frames.total, 0);
+    const weightedFps = metrics.reduce(
+      (sum, m) => sum + m.frames.avg_fps * m.frames.total,
+      0,
+    );
+
+    const phases: PhaseBreakdown = {
+      style_recalc_ms: 0,
+      layout_ms: 0,
+      paint_ms: 0,
+      composite_ms: 0,
+      gpu_ms: 0,
+    };
+    for (const { phases: occurrencePhases } of metrics) {
+      for (const key of Object.keys(phases) as Array<keyof PhaseBreakdown>) {
+        phases[key] += occurrencePhases[key];
+      }
+    }
+    for (const key of Object.keys(phases) as Array<keyof PhaseBreakdown>) {
+      phases[key] = Math.round(phases[key] * 100) / 100;
+    }
+
+    const segmentDetections = detections.filter((d) =>
+      d.evidence.some((e) =>
+        overlapsMeasures(e.ts, e.ts + (e.dur ?? 0), occurrences),
+      ),
+    );
+
+    segments.push({
+      name,
+      occurrences: occurrences.length,
+      start_ms: (occurrences[0]!.startTime - traceStartTime) / 1000,
+      duration_ms:
+        Math.round(
+          occurrences.reduce((sum, m) => sum + m.durationMs, 0) * 100,
+        ) / 100,
+      frames: {
+        total: totalFrames,
+        dropped: metrics.reduce((sum, m) => sum + m.frames.dropped, 0),
+        avg_fps:
+          totalFrames > 0
+            ? Math.round((weightedFps / totalFrames) * 10) / 10
+            : 0,
+        frame_budget_ms: metrics[0]!.frames.frame_budget_ms,
+      },
+      phase_breakdown: phases,
+      detections: segmentDetections.map((d) => ({
+        type: d.type,
+        severity: d.severity,
+        description: d.description,
+      })),
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Builds segment summaries for a trace read in chunks, in time order.
+ * `measure` computes a value, such as frame and phase totals, from the
+ * events of one measure within one chunk, and `merge` combines the values
+ * of the chunks a measure spans. Only the values are kept, not the events.
+ */
+export class SegmentAccumulator<T> {
+  private readonly open: OpenMeasures = new Map();
+  private readonly measures: UserTimingMeasure[] = [];
+  private readonly values = new Map<string, T>();
+
+  constructor(
+    private readonly measure: (events: TraceEvent[]) => T,
+    private readonly merge: (a: T, b: T) => T,
+  ) {}
+
+  /**
+   * Read the next chunk of trace events
+   */
+  addChunk(events: TraceEvent[]): void {
+    matchUserTiming(events, this.open, [], this.measures);
+    if (events.length === 0) return;
+
+    let chunkStart = Infinity;
+    let chunkEnd = -Infinity;
+    for (const event of events) {
+      if (event.ts < chunkStart) chunkStart = event.ts;
+      const eventEnd = event.ts + (event.dur ?? 0);
+      if (eventEnd > chunkEnd) chunkEnd = eventEnd;
+    }
+
+    // Measures still open so far cover everything after their start
+    const candidates: Array<{ key: string; measure: UserTimingMeasure }> =
+      this.measures.map((m) => ({ key: this.keyOf(m), measure: m }));
+    for (const { name, starts } of this.open.values()) {
+      for (const startTime of starts) {
+        candidates.push({
+          key: `${name}:${startTime}:open`,
+          measure: {
+            name,
+            startTime,
+            endTime: Infinity,
+            durationMs: Infinity,
+          },
+        });
+      }
+    }
+
+    const measured = new Set<string>();
+    for (const { key, measure } of candidates) {
+      if (measured.has(key)) continue;
+      if (!overlapsMeasures(chunkStart, chunkEnd, [measure])) continue;
+      measured.add(key);
+
+      const value = this.measure(filterEventsToMeasure(events, measure));
+      const previous = this.values.get(key);
+      this.values.set(
+        key,
+        previous === undefined ? value : this.merge(previous, value),
+      );
+    }
+  }
+
+  /**
+   * Segment summaries for the measures ended in the chunks read
+   */
+  summarize(
+    traceStartTime: number,
+    detections: Detection[],
+    measureOccurrence: (value: T) => {
+      frames: FrameMetrics;
+      phases: PhaseBreakdown;
+    },
+  ): SegmentSummary[] {
+    const measures = [...this.measures].sort(
+      (a, b) => a.startTime - b.startTime,
+    );
+
+    return buildSegmentSummaries(
+      measures,
+      traceStartTime,
+      detections,
+      (measure) => {
+        // A measure is read as open until the chunk holding its end
+        const closed = this.values.get(this.keyOf(measure));
+        const open = this.values.get(
+          `${measure.name}:${measure.startTime}:open`,
+        );
+        const value =
+          closed !== undefined && open !== undefined
+            ? this.merge(open, closed)
+            : (closed ?? open ?? this.measure([]));
+        return measureOccurrence(value);
+      },
+    );
+  }
+
+  private keyOf(measure: UserTimingMeasure): string {
+    return `${measure.name}:${measure.startTime}:${measure.endTime}`;
+  }
+}
@@ -3,6 +3,7 @@
  * Generates CSS-based fix suggestions for layout and paint issues
  *
  * - Produces safe suggestions including contain, will-change, and transforms
+ * - Reserves space for late images, fonts and injected content that shift layout
  * - Warns on memory/cost tradeoffs for suggestions
  */
 
@@ -13,6 +14,8 @@ import type {
   LayoutThrashDetection,
   GPUStallDetection,
   HeavyPaintDetection,
+  LayoutShiftCause,
+  LayoutShiftDetection,
 } from '../shared/types/index.js';
 import type { CSSSuggestion } from '../shared/types/suggestion.types.js';
 import type { ISuggester } from './interfaces/index.js';
@@ -146,6 +149,55 @@ const CSS_SUGGESTIONS: Record<string, CSSPropertySuggestion> = {
     description:
       'Create isolated stacking context to limit blend mode calculations',
   },
+  aspect_ratio: {
+    property: 'aspect-ratio',
+    value: '16 / 9',
+    memoryImpact: 'none',
+    tradeoffs: [
+      'Replace 16 / 9 with the intrinsic ratio of the media',
+      'Setting width and height attributes on <img> has the same effect',
+    ],
+    description:
+      'Reserve space for media before it loads so surrounding content does not move',
+  },
+  font_display_optional: {
+    property: 'font-display',
+    value: 'optional',
+    memoryImpact: 'none',
+    tradeoffs: [
+      'The fallback font is kept if the web font is not ready in time',
+      'Preload the font to make it available for first render',
+    ],
+    description:
+      'Avoid swapping in a web font with different metrics after text has rendered',
+  },
+  min_height_reserve: {
+    property: 'min-height',
+    value: '250px',
+    memoryImpact: 'none',
+    tradeoffs: [
+      'Replace 250px with the typical height of the injected content',
+      'Empty space remains if the content never arrives',
+    ],
+    description:
+      'Reserve space for content inserted after initial render (ads, banners, embeds)',
+  },
+};
+
+/**
+ * CSS suggestion and target for each layout shift cause
+ */
+const LAYOUT_SHIFT_FIXES: Record<
+  LayoutShiftCause,
+  { suggestion: string; target: string }
+> = {
+  late_image: { suggestion: 'aspect_ratio', target: 'img' },
+  web_font: { suggestion: 'font_display_optional', target: '@font-face' },
+  injected_content: {
+    suggestion: 'min_height_reserve',
+    target: '.injected-content',
+  },
+  unknown: { suggestion: 'min_height_reserve', target: 'element' },
 };
 
 /**
@@ -161,6 +213,7 @@ export class CSSSuggester implements ISuggester {
     'gpu_stall',
     'heavy_paint',
     'forced_reflow',
+    'layout_shift',
   ];
 
   constructor(private readonly speedupCalculator: SpeedupCalculatorService) {}
@@ -184,6 +237,10 @@ export class CSSSuggester implements ISuggester {
         );
       case 'forced_reflow':
         return Promise.resolve(this.suggestForForcedReflow(detection));
+      case 'layout_shift':
+        return Promise.resolve(
+          this.suggestForLayoutShift(detection as LayoutShiftDetection),
+        );
       default:
         return Promise.resolve(null);
     }
@@ -370,6 +427,72 @@ export class CSSSuggester implements ISuggester {
     };
   }
 
+  /**
+   * Generate suggestion for a layout shift session window
+   */
+  private suggestForLayoutShift(
+    detection: LayoutShiftDetection,
+  ): CSSSuggestion {
+    // Fix the cause that contributed the most score
+    const causeScores = new Map<LayoutShiftCause, number>();
+    for (const shift of detection.shifts) {
+      causeScores.set(
+        shift.cause,
+        (causeScores.get(shift.cause) ?? 0) + shift.score,
+      );
+    }
+    const cause =
+      [...causeScores.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ??
+      'unknown';
+    const fix = LAYOUT_SHIFT_FIXES[cause];
+    const cssSuggestion = CSS_SUGGESTIONS[fix.suggestion]!;
+
+    // Injected content is best reserved on the node that moved
+    const selector =
+      cause === 'injected_content' || cause === 'unknown'
+        ? (detection.location.selector ??
+          detection.location.element ??
+          fix.target)
+        : fix.target;
+
+    const originalRule = `${selector} {\n  /* No reserved space */\n}`;
+    const suggestedRule = `${selector} {\n  ${cssSuggestion.property}: ${cssSuggestion.value};\n}`;
+
+    const calculation = this.speedupCalculator.calculateSpeedup(
+      detection.metrics.durationMs,
+      DEFAULT_FRAME_BUDGET_MS,
+      'reserve_space',
+    );
+
+    const explanation = this.speedupCalculator.generateExplanation(
+      calculation,
+      'reserve_space',
+      'layout_shift',
+    );
+
+    const culprit = detection.shifts.find(
+      (s) => s.cause === cause,
+    )?.causeDetail;
+
+    return {
+      id: SuggesterService.generateSuggestionId(),
+      type: 'css',
+      target: selector,
+      description: `${cssSuggestion.description}. Shifts in this window (score ${detection.windowScore.toFixed(3)}) were mostly caused by ${cause.replace('_', ' ')}${culprit ? ` (${culprit})` : ''}.`,
+      patch: this.generatePatch(selector, cssSuggestion),
+      estimatedSpeedupPct: calculation.speedupPct,
+      speedupExplanation: explanation,
+      confidence: calculation.confidence,
+      warnings: this.generateWarnings(cssSuggestion),
+      affectedFiles: [],
+      originalRule,
+      suggestedRule,
+      property: cssSuggestion.property,
+      memoryImpact: cssSuggestion.memoryImpact,
+      tradeoffs: cssSuggestion.tradeoffs,
+    };
+  }
+
   /**
    * Generate CSS patch content
    */
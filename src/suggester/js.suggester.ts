@@ -6,6 +6,8 @@
  * - Recommends debounce patterns
  * - Recommends moving work to Web Workers
  * - Recommends offloading to requestAnimationFrame
+ * - Recommends yielding to the main thread in slow input handlers
+ * - Recommends object pooling and hoisting closures out of hot loops for GC jank
  */
 
 import { Injectable } from '@nestjs/common';
@@ -14,6 +16,8 @@ import type {
   DetectionType,
   LongTaskDetection,
   LayoutThrashDetection,
+  InputLatencyDetection,
+  GCJankDetection,
 } from '../shared/types/index.js';
 import type {
   JSSuggestion,
@@ -177,6 +181,117 @@ element.classList.add('animated');`,
       'Remove will-change after animation completes',
     ],
   },
+  yield_to_main: {
+    pattern: 'yield_to_main',
+    description:
+      'Update the UI first and yield to the main thread before deferred work so the next frame can paint',
+    codeTemplate: `// Current: All work runs before the browser can paint
+button.addEventListener('click', () => {
+  showSpinner();
+  const results = filterItems(items); // Blocks the next paint
+  renderResults(results);
+});`,
+    suggestedTemplate: `// Optimized: Paint the visual response, then continue
+function yieldToMain() {
+  if ('scheduler' in window && 'yield' in scheduler) {
+    return scheduler.yield();
+  }
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+button.addEventListener('click', async () => {
+  showSpinner(); // Visual feedback in the next frame
+  await yieldToMain();
+  const results = filterItems(items);
+  renderResults(results);
+});`,
+    applicableTo: ['input_latency', 'long_task'],
+    warnings: [
+      'Code after the yield runs in a later task; re-check state that may have changed',
+      'event.preventDefault() must be called before the first yield',
+      'scheduler.yield() is not available in all browsers',
+    ],
+  },
+  object_pooling: {
+    pattern: 'object_pooling',
+    description:
+      'Reuse pooled objects instead of allocating new ones every frame to reduce garbage collection',
+    codeTemplate: `// Current: New objects allocated for every particle, every frame
+function update(particles, dt) {
+  for (const p of particles) {
+    const velocity = { x: p.vx * dt, y: p.vy * dt }; // Garbage
+    p.position = {
+      x: p.position.x + velocity.x,
+      y: p.position.y + velocity.y,
+    }; // More garbage
+  }
+}`,
+    suggestedTemplate: `// Optimized: Acquire objects from a pool and mutate them in place
+class Pool {
+  constructor(create) {
+    this.create = create;
+    this.free = [];
+  }
+  acquire() {
+    return this.free.pop() ?? this.create();
+  }
+  release(obj) {
+    this.free.push(obj);
+  }
+}
+
+const vectors = new Pool(() => ({ x: 0, y: 0 }));
+
+function update(particles, dt) {
+  const velocity = vectors.acquire();
+  for (const p of particles) {
+    velocity.x = p.vx * dt;
+    velocity.y = p.vy * dt;
+    p.position.x += velocity.x;
+    p.position.y += velocity.y;
+  }
+  vectors.release(velocity);
+}`,
+    applicableTo: ['gc_jank'],
+    warnings: [
+      'Reset pooled objects before reuse so stale state does not leak between uses',
+      'Release every acquired object, or the pool degrades into plain allocation',
+      'Pools keep memory alive; cap their size for rarely used objects',
+    ],
+  },
+  hoist_closures: {
+    pattern: 'hoist_closures',
+    description:
+      'Avoid creating closures and temporary objects inside hot loops',
+    codeTemplate: `// Current: A closure and a temporary array per iteration
+function render(items) {
+  for (const item of items) {
+    item.children.forEach((child) => draw(child, item.offset));
+    hitTest([item.x, item.y, item.width, item.height]);
+  }
+}`,
+    suggestedTemplate: `// Optimized: Plain loops and a reused scratch array
+const bounds = [0, 0, 0, 0];
+
+function render(items) {
+  for (const item of items) {
+    const { children, offset } = item;
+    for (let i = 0; i < children.length; i++) {
+      draw(children[i], offset);
+    }
+    bounds[0] = item.x;
+    bounds[1] = item.y;
+    bounds[2] = item.width;
+    bounds[3] = item.height;
+    hitTest(bounds);
+  }
+}`,
+    applicableTo: ['gc_jank'],
+    warnings: [
+      'Callees must not keep references to shared scratch objects',
+      'Engines already optimize away some short-lived allocations; measure before and after',
+    ],
+  },
 };
 
 /**
@@ -191,6 +306,8 @@ export class JSSuggester implements ISuggester {
     'long_task',
     'layout_thrashing',
     'forced_reflow',
+    'input_latency',
+    'gc_jank',
   ];
 
   constructor(private readonly speedupCalculator: SpeedupCalculatorService) {}
@@ -199,6 +316,11 @@ export class JSSuggester implements ISuggester {
    * Generate JS suggestion for a detection
    */
   suggest(detection: Detection): Promise<JSSuggestion | null> {
+    // A patch to a vendor's script can't be applied, it has to be escalated
+    if (detection.attribution && !detection.attribution.firstParty) {
+      return Promise.resolve(null);
+    }
+
     switch (detection.type) {
       case 'long_task':
         return Promise.resolve(
@@ -210,6 +332,14 @@ export class JSSuggester implements ISuggester {
         );
       case 'forced_reflow':
         return Promise.resolve(this.suggestForForcedReflow(detection));
+      case 'input_latency':
+        return Promise.resolve(
+          this.suggestForInputLatency(detection as InputLatencyDetection),
+        );
+      case 'gc_jank':
+        return Promise.resolve(
+          this.suggestForGCJank(detection as GCJankDetection),
+        );
       default:
         return Promise.resolve(null);
     }
@@ -334,6 +464,99 @@ export class JSSuggester implements ISuggester {
     };
   }
 
+  /**
+   * Generate suggestion for a slow interaction
+   */
+  private suggestForInputLatency(
+    detection: InputLatencyDetection,
+  ): JSSuggestion {
+    const { worstInteraction } = detection;
+
+    // Heavy handlers are better moved off the main thread entirely
+    const pattern: JSFixPattern =
+      worstInteraction.processingTimeMs > 100
+        ? 'move_to_worker'
+        : 'yield_to_main';
+    const patternSuggestion = JS_PATTERNS[pattern];
+
+    const target = detection.functionName || 'handler';
+    const file = detection.file || 'unknown';
+    const line = detection.line || 0;
+
+    const calculation = this.speedupCalculator.calculateSpeedup(
+      worstInteraction.processingTimeMs,
+      DEFAULT_FRAME_BUDGET_MS,
+      pattern,
+    );
+
+    const explanation = this.speedupCalculator.generateExplanation(
+      calculation,
+      pattern,
+      'input_latency',
+    );
+
+    return {
+      id: SuggesterService.generateSuggestionId(),
+      type: 'js',
+      target: `${target} (${file}:${line})`,
+      description: `${patternSuggestion.description}. The "${detection.eventType}" handler "${target}" delayed the next paint by ${worstInteraction.totalMs.toFixed(1)}ms, ${worstInteraction.processingTimeMs.toFixed(1)}ms of it in the handler.`,
+      patch: this.generatePatch(target, patternSuggestion, detection),
+      estimatedSpeedupPct: calculation.speedupPct,
+      speedupExplanation: explanation,
+      confidence: calculation.confidence,
+      warnings: this.generateWarnings(patternSuggestion, detection),
+      affectedFiles: file !== 'unknown' ? [file] : [],
+      pattern,
+      codeSnippet: patternSuggestion.codeTemplate,
+      suggestedCode: patternSuggestion.suggestedTemplate,
+    };
+  }
+
+  /**
+   * Generate suggestion for garbage collection jank
+   */
+  private suggestForGCJank(detection: GCJankDetection): JSSuggestion {
+    // Frequent short scavenges point at short-lived temporaries; churn and
+    // full collections point at objects worth keeping around
+    const pattern: JSFixPattern =
+      detection.churnFrames === 0 && detection.minorGcMs > detection.majorGcMs
+        ? 'hoist_closures'
+        : 'object_pooling';
+    const patternSuggestion = JS_PATTERNS[pattern];
+
+    const target = detection.functionName || 'function';
+    const file = detection.file || 'unknown';
+    const line = detection.line || 0;
+
+    const calculation = this.speedupCalculator.calculateSpeedup(
+      detection.gcMs,
+      DEFAULT_FRAME_BUDGET_MS,
+      pattern,
+    );
+
+    const explanation = this.speedupCalculator.generateExplanation(
+      calculation,
+      pattern,
+      'gc_jank',
+    );
+
+    return {
+      id: SuggesterService.generateSuggestionId(),
+      type: 'js',
+      target: `${target} (${file}:${line})`,
+      description: `${patternSuggestion.description}. Garbage collection interrupted "${target}" ${detection.pauses} times for ${detection.gcMs.toFixed(1)}ms, dropping ${detection.jankFrames} frames.`,
+      patch: this.generatePatch(target, patternSuggestion, detection),
+      estimatedSpeedupPct: calculation.speedupPct,
+      speedupExplanation: explanation,
+      confidence: calculation.confidence,
+      warnings: this.generateWarnings(patternSuggestion, detection),
+      affectedFiles: file !== 'unknown' ? [file] : [],
+      pattern,
+      codeSnippet: patternSuggestion.codeTemplate,
+      suggestedCode: patternSuggestion.suggestedTemplate,
+    };
+  }
+
   /**
    * Select the best pattern for a long task based on its characteristics
    */
@@ -430,6 +653,29 @@ export class JSSuggester implements ISuggester {
       }
     }
 
+    if (detection.type === 'input_latency') {
+      const { worstInteraction } = detection as InputLatencyDetection;
+      if (worstInteraction.inputDelayMs > worstInteraction.processingTimeMs) {
+        warnings.push(
+          `⚠️ INPUT DELAY: ${worstInteraction.inputDelayMs.toFixed(1)}ms passed before the handler ran. Other tasks were blocking the main thread when the input arrived.`,
+        );
+      }
+    }
+
+    if (detection.type === 'gc_jank') {
+      const gcJank = detection as GCJankDetection;
+      if (gcJank.majorGcMs > 0) {
+        warnings.push(
+          `⚠️ MAJOR GC: ${gcJank.majorGcMs.toFixed(1)}ms was spent in full collections, which happen when objects live long enough to be promoted to the old generation.`,
+        );
+      }
+      if (gcJank.heapGrowthMb !== undefined && gcJank.heapGrowthMb > 10) {
+        warnings.push(
+          `⚠️ HEAP GROWTH: The JS heap grew by ${gcJank.heapGrowthMb.toFixed(1)}MB over the trace. Check for leaks as well as churn.`,
+        );
+      }
+    }
+
     // Web Worker specific warnings
     if (suggestion.pattern === 'move_to_worker') {
       warnings.push(
@@ -19,6 +19,9 @@ export class LLMContextAwareSuggester implements ISuggester {
     'long_task',
     'heavy_paint',
     'forced_reflow',
+    'input_latency',
+    'layout_shift',
+    'gc_jank',
   ];
 
   constructor(
@@ -24,6 +24,7 @@ const EFFICIENCY_FACTORS: Record<string, number> = {
   width_percentage: 0.6,
   css_containment: 0.75,
   layer_promotion: 0.65,
+  reserve_space: 0.8,
 
   // JS fixes - variable efficiency
   batch_dom_writes: 0.7,
@@ -31,6 +32,9 @@ const EFFICIENCY_FACTORS: Record<string, number> = {
   move_to_worker: 0.6,
   use_raf: 0.65,
   use_css_animation: 0.8,
+  yield_to_main: 0.6,
+  object_pooling: 0.6,
+  hoist_closures: 0.5,
   virtualization: 0.7,
   lazy_loading: 0.55,
 
@@ -107,6 +111,9 @@ export class SpeedupCalculatorService {
       long_task: 'breaking up long tasks',
       heavy_paint: 'applying CSS containment',
       forced_reflow: 'eliminating forced synchronous layouts',
+      input_latency: 'yielding to the main thread in input handlers',
+      layout_shift: 'reserving space for late-loading content',
+      gc_jank: 'reducing allocations in hot code',
     };
 
     const fixDescription =
@@ -137,6 +144,9 @@ export class SpeedupCalculatorService {
       long_task: 'use_raf',
       heavy_paint: 'css_containment',
       forced_reflow: 'batch_dom_writes',
+      input_latency: 'yield_to_main',
+      layout_shift: 'reserve_space',
+      gc_jank: 'object_pooling',
     };
 
     return fixTypeMap[detectionType] ?? 'default';
@@ -152,6 +162,9 @@ export class SpeedupCalculatorService {
       long_task: 'use_raf',
       heavy_paint: 'use_css_animation',
       forced_reflow: 'batch_dom_writes',
+      input_latency: 'yield_to_main',
+      layout_shift: 'use_css_animation',
+      gc_jank: 'object_pooling',
     };
 
     return patternMap[detectionType] ?? 'use_raf';
@@ -0,0 +1,153 @@
+/**
+ * End-to-end tests for the serve command HTTP API
+ * Exercises the API against synthetic fixture traces
+ */
+
+import { Test } from '@nestjs/testing';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import request from 'supertest';
+import type { App } from 'supertest/types';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ServerModule,
+  configureApiServer,
+} from '../src/server/server.module.js';
+import { StorageService } from '../src/services/storage.service.js';
+import {
+  createLongTaskTrace,
+  layoutThrashTrace,
+} from './fixtures/traces/index.js';
+
+describe('API server (e2e)', () => {
+  let app: NestExpressApplication;
+  let server: App;
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'render-debugger-serve-'));
+
+    const moduleFixture = await Test.createTestingModule({
+      imports: [ServerModule],
+    })
+      .overrideProvider(StorageService)
+      .useValue(new StorageService({ baseDir }))
+      .compile();
+
+    app = moduleFixture.createNestApplication<NestExpressApplication>({
+      bodyParser: false,
+      logger: false,
+    });
+    configureApiServer(app, { maxUploadMb: 1 });
+    await app.init();
+    server = app.getHttpServer() as App;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should analyze an uploaded trace and serve its summary and report', async () => {
+    const upload = await request(server)
+      .post('/api/traces?name=checkout')
+      .send(createLongTaskTrace())
+      .expect(201);
+
+    const body = upload.body as {
+      run_id: string;
+      report: { version: string; detections: { type: string }[] };
+    };
+    expect(body.run_id).toMatch(/^checkout-/);
+    expect(body.report.detections.map((d) => d.type)).toContain('long_task');
+
+    const list = await request(server).get('/api/traces').expect(200);
+    expect(list.body).toEqual([
+      expect.objectContaining({
+        run_id: body.run_id,
+        name: 'checkout',
+        has_trace: true,
+        has_report: true,
+      }),
+    ]);
+
+    await request(server)
+      .get(`/api/traces/${body.run_id}`)
+      .expect(200)
+      .expect((res) => {
+        expect((res.body as { name: string }).name).toBe('checkout');
+      });
+
+    // The stored report has the same shape as the upload response
+    const report = await request(server)
+      .get(`/api/traces/${body.run_id}/report`)
+      .expect(200);
+    expect(report.body).toEqual(body.report);
+
+    const reports = await request(server).get('/api/reports').expect(200);
+    expect(reports.body).toEqual([
+      expect.objectContaining({ file: `${body.run_id}.json` }),
+    ]);
+    await request(server)
+      .get(`/api/reports/${body.run_id}.json`)
+      .expect(200)
+      .expect('Content-Type', /application\/json/);
+  });
+
+  it('should compare stored runs and generate patches', async () => {
+    const base = await request(server)
+      .post('/api/traces?name=base')
+      .send(createLongTaskTrace({ avgTaskDurationMs: 60 }))
+      .expect(201);
+    const head = await request(server)
+      .post('/api/traces?name=head')
+      .send(layoutThrashTrace)
+      .expect(201);
+    const baseId = (base.body as { run_id: string }).run_id;
+    const headId = (head.body as { run_id: string }).run_id;
+
+    const comparison = await request(server)
+      .post('/api/compare')
+      .send({ base: baseId, head: headId })
+      .expect(200);
+    expect(comparison.body).toMatchObject({
+      baseSummary: { name: 'base' },
+      headSummary: { name: 'head' },
+    });
+
+    const patches = await request(server)
+      .post(`/api/traces/${headId}/patches`)
+      .expect(200);
+    expect(patches.body).toMatchObject({ run_id: headId });
+    expect(Array.isArray((patches.body as { patches: unknown }).patches)).toBe(
+      true,
+    );
+  });
+
+  it('should map errors to HTTP status codes', async () => {
+    await request(server)
+      .get('/api/traces/missing-run')
+      .expect(404)
+      .expect((res) => {
+        expect((res.body as { error: string }).error).toBe('TRACE_NOT_FOUND');
+      });
+
+    await request(server)
+      .post('/api/traces')
+      .send({ events: [] })
+      .expect(400)
+      .expect((res) => {
+        expect((res.body as { error: string }).error).toBe(
+          'INVALID_TRACE_FORMAT',
+        );
+      });
+
+    await request(server).get('/api/reports/..%2Fconfig.yaml').expect(400);
+    await request(server)
+      .post('/api/traces?fps_target=fast')
+      .send(createLongTaskTrace())
+      .expect(400);
+    await request(server).post('/api/compare').send({}).expect(400);
+  });
+});